@@ -26,6 +26,8 @@ const DocumentsHub = lazy(() => import("@/pages/DocumentsHub"));
 const SettingsPage = lazy(() => import("@/pages/SettingsPage"));
 const SupplementalPage = lazy(() => import("@/pages/SupplementalPage"));
 const WorkflowBuilder = lazy(() => import("@/pages/WorkflowBuilder"));
+const DepreciationSchedules = lazy(() => import("@/pages/DepreciationSchedules"));
+const Carriers = lazy(() => import("@/pages/Carriers"));
 const ProfilePage = lazy(() => import("@/pages/ProfilePage"));
 const PhotoGallery = lazy(() => import("@/pages/PhotoGallery"));
 const SketchGallery = lazy(() => import("@/pages/SketchGallery"));
@@ -95,6 +97,8 @@ function RouterContent() {
         <Route path="/documents" component={DocumentsHub} />
         <Route path="/settings" component={SettingsPage} />
         <Route path="/settings/workflows" component={WorkflowBuilder} />
+        {(role === "supervisor" || role === "admin") && <Route path="/settings/depreciation" component={DepreciationSchedules} />}
+        {(role === "supervisor" || role === "admin") && <Route path="/settings/carriers" component={Carriers} />}
         <Route path="/profile" component={ProfilePage} />
         <Route path="/gallery/photos" component={PhotoGallery} />
         <Route path="/gallery/sketches" component={SketchGallery} />
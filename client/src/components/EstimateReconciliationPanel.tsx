@@ -0,0 +1,316 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Check, GitCompare, Loader2, Upload } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+
+interface EstimateReconciliationPanelProps {
+  sessionId: number;
+}
+
+type RowStatus = "matched" | "quantity_diff" | "price_diff" | "missing_on_ours" | "missing_on_theirs";
+
+interface ReconciliationHeader {
+  id: number;
+  name: string;
+  sourceType: "csv" | "xlsx" | "esx";
+  lineCount: number;
+  supplementalId: number | null;
+  createdAt: string;
+}
+
+interface SideLine {
+  description: string;
+  quantity: number;
+  unit: string | null;
+  unitPrice: number;
+  totalPrice: number;
+}
+
+interface ReconciliationRow {
+  key: string;
+  status: RowStatus;
+  trade: string;
+  roomName: string | null;
+  ours: SideLine | null;
+  theirs: SideLine | null;
+  totalDelta: number;
+  agreed: number;
+  disputed: number;
+  accepted: boolean;
+}
+
+interface TradeTotals {
+  trade: string;
+  rowCount: number;
+  ours: number;
+  theirs: number;
+  agreed: number;
+  disputed: number;
+}
+
+interface ReconciliationDetail extends ReconciliationHeader {
+  rows: ReconciliationRow[];
+  trades: TradeTotals[];
+  totals: Omit<TradeTotals, "trade">;
+  statusCounts: Record<RowStatus, number>;
+}
+
+const STATUS_LABELS: Record<RowStatus, string> = {
+  matched: "Matched",
+  quantity_diff: "Quantity",
+  price_diff: "Price",
+  missing_on_ours: "Missing on ours",
+  missing_on_theirs: "Missing on theirs",
+};
+
+const STATUS_STYLES: Record<RowStatus, string> = {
+  matched: "bg-green-100 text-green-800",
+  quantity_diff: "bg-yellow-100 text-yellow-800",
+  price_diff: "bg-orange-100 text-orange-800",
+  missing_on_ours: "bg-blue-100 text-blue-800",
+  missing_on_theirs: "bg-red-100 text-red-800",
+};
+
+function formatMoney(n: number | null | undefined): string {
+  if (n == null) return "—";
+  return n.toLocaleString("en-US", { style: "currency", currency: "USD" });
+}
+
+function formatSide(line: SideLine | null): string {
+  if (!line) return "—";
+  return `${line.quantity} ${line.unit ?? ""} @ ${formatMoney(line.unitPrice)}`;
+}
+
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Failed to read file"));
+    reader.readAsDataURL(file);
+  });
+}
+
+export default function EstimateReconciliationPanel({ sessionId }: EstimateReconciliationPanelProps) {
+  const { toast } = useToast();
+  const listKey = `/api/inspection/${sessionId}/reconciliations`;
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [hideMatched, setHideMatched] = useState(true);
+
+  const { data: reconciliations = [], isLoading } = useQuery<ReconciliationHeader[]>({
+    queryKey: [listKey],
+    enabled: !!sessionId,
+  });
+
+  useEffect(() => {
+    if (selectedId === null && reconciliations.length > 0) setSelectedId(reconciliations[0].id);
+  }, [reconciliations, selectedId]);
+
+  const detailKey = `${listKey}/${selectedId}`;
+  const { data: detail, isFetching: detailLoading } = useQuery<ReconciliationDetail>({
+    queryKey: [detailKey],
+    enabled: selectedId !== null,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const fileBase64 = await readFileAsBase64(file);
+      const res = await apiRequest("POST", listKey, { fileName: file.name, fileBase64 });
+      return res.json() as Promise<ReconciliationDetail & { errors: Array<{ row: number; message: string }> }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [listKey] });
+      queryClient.setQueryData([`${listKey}/${data.id}`], data);
+      setSelectedId(data.id);
+      toast({
+        title: "Contractor estimate imported",
+        description: data.errors.length > 0 ? `${data.errors.length} rows could not be read` : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not import estimate", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (rowKeys: string[]) => {
+      const res = await apiRequest("POST", `${detailKey}/accept`, { rowKeys });
+      return res.json() as Promise<ReconciliationDetail>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData([detailKey], data);
+      queryClient.invalidateQueries({ queryKey: [listKey] });
+      queryClient.invalidateQueries({ queryKey: [`/api/inspection/${sessionId}/supplementals`] });
+      toast({ title: "Added to supplemental" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not accept row", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rows = (detail?.rows ?? []).filter((r) => !hideMatched || r.status !== "matched");
+
+  return (
+    <div className="border border-border rounded-xl p-4 md:p-6 bg-card">
+      <div className="flex items-start gap-3 md:gap-4">
+        <div className="h-10 w-10 md:h-12 md:w-12 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+          <GitCompare size={20} className="text-primary" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="font-display font-bold text-foreground text-base md:text-lg">Contractor Reconciliation</h3>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => fileInput.current?.click()}
+              disabled={uploadMutation.isPending}
+              data-testid="button-upload-contractor-estimate"
+            >
+              {uploadMutation.isPending ? (
+                <Loader2 size={14} className="mr-1 animate-spin" />
+              ) : (
+                <Upload size={14} className="mr-1" />
+              )}
+              Import Estimate
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".csv,.xlsx,.esx,.txt"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) uploadMutation.mutate(file);
+                e.target.value = "";
+              }}
+            />
+          </div>
+          <p className="text-sm text-muted-foreground mt-1">
+            Import a contractor's CSV, XLSX or ESX estimate to line it up against ours and accept differences into a supplemental.
+          </p>
+
+          {isLoading ? (
+            <div className="flex items-center py-4 text-sm text-muted-foreground">
+              <Loader2 size={14} className="mr-2 animate-spin" /> Loading reconciliations...
+            </div>
+          ) : reconciliations.length === 0 ? (
+            <p className="text-sm text-muted-foreground mt-3">No contractor estimates imported yet.</p>
+          ) : (
+            <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+              <select
+                className="border border-border rounded-md px-2 py-1 bg-background text-sm"
+                value={selectedId ?? ""}
+                onChange={(e) => setSelectedId(Number(e.target.value))}
+                data-testid="select-reconciliation"
+              >
+                {reconciliations.map((r) => (
+                  <option key={r.id} value={r.id}>
+                    {r.name} · {r.lineCount} lines · {new Date(r.createdAt).toLocaleDateString()}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1 text-muted-foreground">
+                <input type="checkbox" checked={hideMatched} onChange={(e) => setHideMatched(e.target.checked)} />
+                Hide matched
+              </label>
+            </div>
+          )}
+
+          {detailLoading && !detail && (
+            <div className="flex items-center py-4 text-sm text-muted-foreground">
+              <Loader2 size={14} className="mr-2 animate-spin" /> Aligning estimates...
+            </div>
+          )}
+
+          {detail && (
+            <div className="mt-4 space-y-4">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-muted-foreground text-left">
+                    <th className="font-medium py-1">Trade</th>
+                    <th className="font-medium py-1 text-right">Ours</th>
+                    <th className="font-medium py-1 text-right">Theirs</th>
+                    <th className="font-medium py-1 text-right">Agreed</th>
+                    <th className="font-medium py-1 text-right">Disputed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {detail.trades.map((t) => (
+                    <tr key={t.trade} className="border-t border-border">
+                      <td className="py-1">{t.trade}</td>
+                      <td className="py-1 text-right">{formatMoney(t.ours)}</td>
+                      <td className="py-1 text-right">{formatMoney(t.theirs)}</td>
+                      <td className="py-1 text-right">{formatMoney(t.agreed)}</td>
+                      <td className={cn("py-1 text-right", t.disputed > 0 && "text-destructive font-medium")}>
+                        {formatMoney(t.disputed)}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="border-t-2 border-border font-semibold">
+                    <td className="py-1">Total</td>
+                    <td className="py-1 text-right">{formatMoney(detail.totals.ours)}</td>
+                    <td className="py-1 text-right">{formatMoney(detail.totals.theirs)}</td>
+                    <td className="py-1 text-right">{formatMoney(detail.totals.agreed)}</td>
+                    <td className="py-1 text-right">{formatMoney(detail.totals.disputed)}</td>
+                  </tr>
+                </tbody>
+              </table>
+
+              {rows.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Every line matches.</p>
+              ) : (
+                <ul className="divide-y divide-border text-sm">
+                  {rows.map((row) => (
+                    <li key={row.key} className="py-2 flex items-start gap-2" data-testid={`reconciliation-row-${row.key}`}>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className={cn("text-[10px] font-semibold uppercase rounded px-1.5 py-0.5", STATUS_STYLES[row.status])}>
+                            {STATUS_LABELS[row.status]}
+                          </span>
+                          <span className="font-medium text-foreground truncate">
+                            {row.ours?.description ?? row.theirs?.description}
+                          </span>
+                        </div>
+                        <div className="text-xs text-muted-foreground mt-0.5">
+                          {row.trade}{row.roomName ? ` · ${row.roomName}` : ""} · ours {formatSide(row.ours)} · theirs {formatSide(row.theirs)}
+                        </div>
+                      </div>
+                      <span className={cn(
+                        "font-medium shrink-0",
+                        row.totalDelta > 0 && "text-[#22C55E]",
+                        row.totalDelta < 0 && "text-destructive",
+                      )}>
+                        {row.totalDelta > 0 ? "+" : ""}{formatMoney(row.totalDelta)}
+                      </span>
+                      {row.status !== "matched" && (
+                        row.accepted ? (
+                          <span className="flex items-center text-xs text-green-700 shrink-0">
+                            <Check size={14} className="mr-1" /> Accepted
+                          </span>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="shrink-0"
+                            onClick={() => acceptMutation.mutate([row.key])}
+                            disabled={acceptMutation.isPending}
+                            data-testid={`button-accept-${row.key}`}
+                          >
+                            Accept
+                          </Button>
+                        )
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
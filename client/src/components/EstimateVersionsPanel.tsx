@@ -0,0 +1,285 @@
+import React, { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { History, Loader2, Plus, Minus, Pencil, Camera } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+
+interface EstimateVersionsPanelProps {
+  sessionId: number;
+}
+
+interface VersionHeader {
+  id: number;
+  versionNumber: number;
+  name: string;
+  trigger: "manual" | "esx_export" | "pdf_export";
+  totals: { totalRCV: number; totalACV: number; itemCount: number } | null;
+  createdAt: string;
+}
+
+interface DiffLine {
+  id: number;
+  description: string;
+  roomName: string | null;
+  totalPrice: number;
+}
+
+interface EstimateDiffResponse {
+  diff: {
+    added: DiffLine[];
+    removed: DiffLine[];
+    changed: Array<{
+      id: number;
+      to: DiffLine;
+      changes: Array<{ field: string; from: unknown; to: unknown }>;
+      totalPriceDelta: number;
+    }>;
+    unchangedCount: number;
+    totals: Record<string, { from: number | null; to: number | null; delta: number | null }>;
+  };
+}
+
+const TRIGGER_LABELS: Record<VersionHeader["trigger"], string> = {
+  manual: "Manual",
+  esx_export: "ESX export",
+  pdf_export: "PDF report",
+};
+
+const TOTAL_LABELS: Record<string, string> = {
+  itemCount: "Line items",
+  totalRCV: "RCV",
+  totalTax: "Tax",
+  totalDepreciation: "Depreciation",
+  totalACV: "ACV",
+  grandNetClaim: "Net claim",
+};
+
+function formatMoney(n: number | null | undefined): string {
+  if (n == null) return "—";
+  return n.toLocaleString("en-US", { style: "currency", currency: "USD" });
+}
+
+function formatDelta(key: string, delta: number | null): string {
+  if (delta == null) return "—";
+  const sign = delta > 0 ? "+" : "";
+  return key === "itemCount" ? `${sign}${delta}` : `${sign}${formatMoney(delta)}`;
+}
+
+function formatValue(value: unknown): string {
+  if (value == null || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+export default function EstimateVersionsPanel({ sessionId }: EstimateVersionsPanelProps) {
+  const { toast } = useToast();
+  const versionsKey = `/api/inspection/${sessionId}/versions`;
+  const [fromId, setFromId] = useState<number | null>(null);
+  const [toId, setToId] = useState<number | null>(null);
+
+  const { data: versions = [], isLoading } = useQuery<VersionHeader[]>({
+    queryKey: [versionsKey],
+    enabled: !!sessionId,
+  });
+
+  // Default to comparing the first version with the latest
+  useEffect(() => {
+    if (versions.length >= 2 && fromId === null && toId === null) {
+      setFromId(versions[0].id);
+      setToId(versions[versions.length - 1].id);
+    }
+  }, [versions, fromId, toId]);
+
+  const canDiff = fromId !== null && toId !== null && fromId !== toId;
+  const { data: diffData, isFetching: diffLoading } = useQuery<EstimateDiffResponse>({
+    queryKey: [`${versionsKey}/diff?from=${fromId}&to=${toId}`],
+    enabled: canDiff,
+  });
+
+  const snapshotMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", versionsKey, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [versionsKey] });
+      toast({ title: "Estimate version saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save version", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const diff = diffData?.diff;
+
+  return (
+    <div className="border border-border rounded-xl p-4 md:p-6 bg-card">
+      <div className="flex items-start gap-3 md:gap-4">
+        <div className="h-10 w-10 md:h-12 md:w-12 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+          <History size={20} className="text-primary" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="font-display font-bold text-foreground text-base md:text-lg">Estimate Versions</h3>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => snapshotMutation.mutate()}
+              disabled={snapshotMutation.isPending}
+              data-testid="button-snapshot-estimate"
+            >
+              {snapshotMutation.isPending ? (
+                <Loader2 size={14} className="mr-1 animate-spin" />
+              ) : (
+                <Camera size={14} className="mr-1" />
+              )}
+              Save Version
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground mt-1">
+            A version is saved on every ESX and PDF export. Compare any two to see what changed.
+          </p>
+
+          {isLoading ? (
+            <div className="flex items-center py-4 text-sm text-muted-foreground">
+              <Loader2 size={14} className="mr-2 animate-spin" /> Loading versions...
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground mt-3">No versions yet.</p>
+          ) : (
+            <ul className="mt-3 divide-y divide-border text-sm">
+              {versions.map((v) => (
+                <li key={v.id} className="py-2 flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <span className="font-medium text-foreground">v{v.versionNumber} · {v.name}</span>
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {TRIGGER_LABELS[v.trigger] || v.trigger} · {new Date(v.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {formatMoney(v.totals?.totalRCV)} RCV
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {versions.length >= 2 && (
+            <div className="mt-4">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-muted-foreground">Compare</span>
+                <VersionSelect versions={versions} value={fromId} onChange={setFromId} testId="select-version-from" />
+                <span className="text-muted-foreground">to</span>
+                <VersionSelect versions={versions} value={toId} onChange={setToId} testId="select-version-to" />
+              </div>
+
+              {diffLoading && (
+                <div className="flex items-center py-4 text-sm text-muted-foreground">
+                  <Loader2 size={14} className="mr-2 animate-spin" /> Comparing...
+                </div>
+              )}
+
+              {canDiff && diff && !diffLoading && (
+                <div className="mt-3 space-y-3">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-xs text-muted-foreground text-left">
+                        <th className="font-medium py-1">Total</th>
+                        <th className="font-medium py-1 text-right">From</th>
+                        <th className="font-medium py-1 text-right">To</th>
+                        <th className="font-medium py-1 text-right">Change</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {Object.entries(diff.totals).map(([key, t]) => (
+                        <tr key={key} className="border-t border-border">
+                          <td className="py-1">{TOTAL_LABELS[key] || key}</td>
+                          <td className="py-1 text-right">{key === "itemCount" ? t.from ?? "—" : formatMoney(t.from)}</td>
+                          <td className="py-1 text-right">{key === "itemCount" ? t.to ?? "—" : formatMoney(t.to)}</td>
+                          <td className={cn(
+                            "py-1 text-right font-medium",
+                            (t.delta ?? 0) > 0 && "text-[#22C55E]",
+                            (t.delta ?? 0) < 0 && "text-destructive",
+                          )}>
+                            {formatDelta(key, t.delta)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+
+                  {diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No line item changes.</p>
+                  ) : (
+                    <ul className="space-y-1 text-sm">
+                      {diff.added.map((line) => (
+                        <li key={`a-${line.id}`} className="flex items-start gap-2 border-l-4 border-l-green-500 bg-green-50 rounded px-2 py-1">
+                          <Plus size={14} className="mt-0.5 text-green-700 shrink-0" />
+                          <span className="flex-1">{line.description}{line.roomName ? ` (${line.roomName})` : ""}</span>
+                          <span className="font-medium">{formatMoney(line.totalPrice)}</span>
+                        </li>
+                      ))}
+                      {diff.removed.map((line) => (
+                        <li key={`r-${line.id}`} className="flex items-start gap-2 border-l-4 border-l-red-500 bg-red-50 rounded px-2 py-1">
+                          <Minus size={14} className="mt-0.5 text-red-700 shrink-0" />
+                          <span className="flex-1 line-through">{line.description}{line.roomName ? ` (${line.roomName})` : ""}</span>
+                          <span className="font-medium">-{formatMoney(line.totalPrice)}</span>
+                        </li>
+                      ))}
+                      {diff.changed.map((line) => (
+                        <li key={`c-${line.id}`} className="border-l-4 border-l-yellow-500 bg-yellow-50 rounded px-2 py-1">
+                          <div className="flex items-start gap-2">
+                            <Pencil size={14} className="mt-0.5 text-yellow-700 shrink-0" />
+                            <span className="flex-1">{line.to.description}{line.to.roomName ? ` (${line.to.roomName})` : ""}</span>
+                            <span className="font-medium">{formatDelta("totalPrice", line.totalPriceDelta)}</span>
+                          </div>
+                          <ul className="ml-6 text-xs text-muted-foreground">
+                            {line.changes.map((c) => (
+                              <li key={c.field}>
+                                {c.field}: {formatValue(c.from)} &rarr; {formatValue(c.to)}
+                              </li>
+                            ))}
+                          </ul>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {diff.unchangedCount > 0 && (
+                    <p className="text-xs text-muted-foreground">{diff.unchangedCount} line items unchanged</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function VersionSelect({
+  versions,
+  value,
+  onChange,
+  testId,
+}: {
+  versions: VersionHeader[];
+  value: number | null;
+  onChange: (id: number) => void;
+  testId: string;
+}) {
+  return (
+    <select
+      className="border border-border rounded-md px-2 py-1 bg-background text-sm"
+      value={value ?? ""}
+      onChange={(e) => onChange(Number(e.target.value))}
+      data-testid={testId}
+    >
+      {versions.map((v) => (
+        <option key={v.id} value={v.id}>v{v.versionNumber} · {v.name}</option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Layers, Loader2, Scale } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface MatchingRules {
+  state: string | null;
+  requiresMatch: boolean;
+  requireLineOfSight: boolean;
+  fullRoof: boolean;
+  citation: string | null;
+}
+
+interface MatchingAssessment {
+  id: number;
+  roomId: number;
+  materialAvailability: string;
+  lineOfSight: boolean;
+  continuous: boolean;
+  notes: string | null;
+  recommendation: string;
+  recommendationReason: string | null;
+  appliedAt: string | null;
+}
+
+interface MatchingScopeItem {
+  id: number;
+  roomId: number | null;
+  description: string;
+  quantity: number;
+  unit: string;
+}
+
+interface MatchingData {
+  rules: MatchingRules;
+  assessments: MatchingAssessment[];
+  items: MatchingScopeItem[];
+}
+
+interface MatchingRoom {
+  id: number;
+  name: string;
+  viewType?: string | null;
+  roomType?: string | null;
+  facetLabel?: string | null;
+}
+
+const RECOMMENDATION_LABELS: Record<string, string> = {
+  none: "No matching",
+  full_slope: "Replace full slope",
+  full_elevation: "Replace full elevation",
+  full_roof: "Replace full roof",
+};
+
+const isMatchingSurface = (room: MatchingRoom) =>
+  room.viewType === "roof_plan" ||
+  room.viewType === "elevation" ||
+  room.roomType === "exterior_roof_slope" ||
+  !!room.roomType?.startsWith("exterior_elevation_");
+
+function SurfaceRow({
+  sessionId,
+  room,
+  assessment,
+  items,
+}: {
+  sessionId: number;
+  room: MatchingRoom;
+  assessment: MatchingAssessment | undefined;
+  items: MatchingScopeItem[];
+}) {
+  const { toast } = useToast();
+  const matchingKey = [`/api/inspection/${sessionId}/matching`];
+  const [form, setForm] = useState({
+    materialAvailability: assessment?.materialAvailability ?? "unknown",
+    lineOfSight: assessment?.lineOfSight ?? true,
+    continuous: assessment?.continuous ?? true,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: matchingKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/inspection/${sessionId}/scope/items`] });
+  };
+
+  const save = useMutation({
+    mutationFn: (next: typeof form) => apiRequest("PUT", `/api/inspection/${sessionId}/matching/${room.id}`, next),
+    onSuccess: refresh,
+    onError: (error: Error) => toast({ title: "Assessment not saved", description: error.message, variant: "destructive" }),
+  });
+
+  const apply = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/inspection/${sessionId}/matching/${room.id}/apply`);
+      return res.json() as Promise<{ created: MatchingScopeItem[]; removed: number }>;
+    },
+    onSuccess: (result) => {
+      refresh();
+      toast({ title: "Matching scope updated", description: `${result.created.length} item(s) added, ${result.removed} removed` });
+    },
+    onError: (error: Error) => toast({ title: "Matching not applied", description: error.message, variant: "destructive" }),
+  });
+
+  const update = (patch: Partial<typeof form>) => {
+    const next = { ...form, ...patch };
+    setForm(next);
+    save.mutate(next);
+  };
+
+  const recommendation = assessment?.recommendation ?? "none";
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 space-y-2" data-testid={`matching-room-${room.id}`}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-semibold text-foreground">
+          {room.name}
+          {room.facetLabel && <span className="ml-1 text-xs text-muted-foreground">({room.facetLabel})</span>}
+        </p>
+        {assessment && (
+          <span
+            className={cn(
+              "text-[10px] font-bold px-2 py-0.5 rounded-full",
+              recommendation === "none" ? "bg-gray-100 text-gray-600" : "bg-violet-100 text-violet-700",
+            )}
+          >
+            {RECOMMENDATION_LABELS[recommendation] || recommendation}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <select
+          className="h-8 rounded-md border border-gray-200 px-2 bg-white"
+          value={form.materialAvailability}
+          onChange={(e) => update({ materialAvailability: e.target.value })}
+          data-testid={`select-material-availability-${room.id}`}
+        >
+          <option value="unknown">Availability unknown</option>
+          <option value="available">Match available</option>
+          <option value="unavailable">No match available</option>
+        </select>
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={form.lineOfSight}
+            onChange={(e) => update({ lineOfSight: e.target.checked })}
+            data-testid={`checkbox-line-of-sight-${room.id}`}
+          />
+          In line of sight
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={form.continuous}
+            onChange={(e) => update({ continuous: e.target.checked })}
+            data-testid={`checkbox-continuous-${room.id}`}
+          />
+          Continuous (no natural break)
+        </label>
+      </div>
+
+      {assessment?.recommendationReason && (
+        <p className="text-xs text-muted-foreground">{assessment.recommendationReason}</p>
+      )}
+
+      {items.length > 0 && (
+        <ul className="text-xs space-y-0.5">
+          {items.map((item) => (
+            <li key={item.id} className="flex items-center gap-2">
+              <span className="text-[9px] font-bold uppercase px-1.5 py-0.5 rounded bg-violet-50 text-violet-700">Matching</span>
+              <span className="flex-1 truncate">{item.description}</span>
+              <span className="font-mono">{item.quantity} {item.unit}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {assessment && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => apply.mutate()}
+          disabled={apply.isPending || save.isPending}
+          data-testid={`button-apply-matching-${room.id}`}
+        >
+          {apply.isPending && <Loader2 size={14} className="mr-1 animate-spin" />}
+          {assessment.appliedAt ? "Re-apply to scope" : "Apply to scope"}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export default function MatchingPanel({ sessionId, rooms }: { sessionId: number | null; rooms: MatchingRoom[] }) {
+  const { data } = useQuery<MatchingData>({
+    queryKey: [`/api/inspection/${sessionId}/matching`],
+    enabled: !!sessionId,
+  });
+
+  const surfaces = rooms.filter(isMatchingSurface);
+  if (!sessionId || !data || surfaces.length === 0) return null;
+
+  // Matching items generated from a full-roof recommendation land on other facets
+  const itemsByRoom = new Map<number, MatchingScopeItem[]>();
+  for (const item of data.items) {
+    if (item.roomId == null) continue;
+    itemsByRoom.set(item.roomId, [...(itemsByRoom.get(item.roomId) || []), item]);
+  }
+
+  return (
+    <div className="space-y-3" data-testid="matching-panel">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h3 className="font-display font-semibold text-foreground flex items-center gap-1.5">
+            <Layers size={16} /> Matching
+          </h3>
+          <p className="text-xs text-muted-foreground">
+            Uniform appearance for roof facets and elevations where the damaged material cannot be matched.
+          </p>
+        </div>
+        <div className="text-right text-[11px] text-muted-foreground">
+          <p className="flex items-center gap-1 justify-end">
+            <Scale size={12} /> {data.rules.state || "Default"} rules
+            {!data.rules.requiresMatch && " · matching not required"}
+          </p>
+          {data.rules.citation && <p>{data.rules.citation}</p>}
+        </div>
+      </div>
+      <div className="grid md:grid-cols-2 gap-3">
+        {surfaces.map((room) => (
+          <SurfaceRow
+            key={room.id}
+            sessionId={sessionId}
+            room={room}
+            assessment={data.assessments.find((a) => a.roomId === room.id)}
+            items={itemsByRoom.get(room.id) || []}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
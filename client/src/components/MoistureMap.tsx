@@ -1,5 +1,5 @@
 import React, { useMemo, useState } from "react";
-import { Droplets, Wind, Thermometer, AlertTriangle, Plus } from "lucide-react";
+import { Droplets, Wind, Thermometer, AlertTriangle, Plus, TrendingDown } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 
@@ -11,8 +11,18 @@ interface MoistureReading {
   dryStandard?: number;
 }
 
+export interface DryingTrend {
+  location: string;
+  materialType: string | null;
+  dryStandard: number | null;
+  readings: Array<{ date: string; reading: number }>;
+  latest: number | null;
+  isDry: boolean;
+}
+
 interface MoistureMapProps {
   readings: MoistureReading[];
+  trends?: DryingTrend[];
   roomName?: string;
   roomDimensions?: { length: number; width: number };
   showDryingCalculator?: boolean;
@@ -31,6 +41,77 @@ const getReadingStatus = (reading: number) => {
   return "Wet";
 };
 
+const formatDay = (day: string) => {
+  const [, m, d] = day.split("-");
+  return `${Number(m)}/${Number(d)}`;
+};
+
+function TrendChart({ trend }: { trend: DryingTrend }) {
+  const width = 220;
+  const height = 90;
+  const pad = { left: 26, right: 8, top: 8, bottom: 16 };
+  const values = trend.readings.map((p) => p.reading);
+  if (trend.dryStandard != null) values.push(trend.dryStandard);
+  const max = Math.max(...values) * 1.1 || 1;
+  const min = Math.min(0, ...values);
+  const x = (i: number) =>
+    pad.left + (trend.readings.length > 1 ? (i / (trend.readings.length - 1)) * (width - pad.left - pad.right) : (width - pad.left - pad.right) / 2);
+  const y = (v: number) => pad.top + (1 - (v - min) / (max - min)) * (height - pad.top - pad.bottom);
+  const points = trend.readings.map((p, i) => `${x(i)},${y(p.reading)}`).join(" ");
+  const lineColor = trend.isDry ? "#22C55E" : "#7763B7";
+  const first = trend.readings[0];
+  const last = trend.readings[trend.readings.length - 1];
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-2" data-testid={`trend-${trend.location}`}>
+      <div className="flex items-center justify-between mb-1">
+        <p className="text-xs font-semibold text-[#342A4F] truncate">
+          {trend.location}
+          {trend.materialType && <span className="font-normal text-gray-400"> · {trend.materialType}</span>}
+        </p>
+        <span
+          className="text-[10px] font-bold px-2 py-0.5 rounded-full"
+          style={{ backgroundColor: `${lineColor}20`, color: lineColor }}
+        >
+          {trend.isDry ? "Dry" : trend.dryStandard == null ? "No standard" : `${trend.latest}% → ${trend.dryStandard}%`}
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full">
+        <text x={pad.left - 4} y={y(max) + 3} textAnchor="end" fontSize="8" fill="#aaa">{Math.round(max)}</text>
+        <text x={pad.left - 4} y={y(min) + 3} textAnchor="end" fontSize="8" fill="#aaa">{Math.round(min)}</text>
+        {trend.dryStandard != null && (
+          <>
+            <line
+              x1={pad.left}
+              x2={width - pad.right}
+              y1={y(trend.dryStandard)}
+              y2={y(trend.dryStandard)}
+              stroke="#22C55E"
+              strokeWidth="1"
+              strokeDasharray="4,3"
+            />
+            <text x={width - pad.right} y={y(trend.dryStandard) - 3} textAnchor="end" fontSize="8" fill="#22C55E">
+              dry {trend.dryStandard}%
+            </text>
+          </>
+        )}
+        <polyline points={points} fill="none" stroke={lineColor} strokeWidth="2" />
+        {trend.readings.map((p, i) => (
+          <circle key={p.date} cx={x(i)} cy={y(p.reading)} r="2.5" fill={getReadingColor(p.reading)} />
+        ))}
+        {first && (
+          <text x={x(0)} y={height - 3} textAnchor="start" fontSize="8" fill="#aaa">{formatDay(first.date)}</text>
+        )}
+        {last && trend.readings.length > 1 && (
+          <text x={x(trend.readings.length - 1)} y={height - 3} textAnchor="end" fontSize="8" fill="#aaa">
+            {formatDay(last.date)}
+          </text>
+        )}
+      </svg>
+    </div>
+  );
+}
+
 const parsePosition = (location: string, index: number, total: number) => {
   const lower = location.toLowerCase();
   let x = 0.5;
@@ -67,6 +148,7 @@ const parsePosition = (location: string, index: number, total: number) => {
 
 export default function MoistureMap({
   readings,
+  trends,
   roomName,
   roomDimensions,
   showDryingCalculator = false,
@@ -290,6 +372,21 @@ export default function MoistureMap({
         </table>
       </div>
 
+      {/* Drying progress: each location against its dry standard */}
+      {trends && trends.some((t) => t.readings.length > 0) && (
+        <div>
+          <h4 className="text-sm font-display font-semibold text-[#342A4F] mb-2 flex items-center gap-1.5">
+            <TrendingDown size={14} className="text-[#7763B7]" />
+            Drying Progress
+          </h4>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {trends.filter((t) => t.readings.length > 0).map((trend) => (
+              <TrendChart key={`${trend.location}|${trend.materialType || ""}`} trend={trend} />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* IICRC Classification */}
       {showDryingCalculator && readings.length > 0 && (
         <div className="space-y-4">
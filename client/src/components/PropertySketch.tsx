@@ -348,6 +348,7 @@ function AnnotationMarkers({ annotations, x, y, w, h }: { annotations: Annotatio
         const label = ann.annotationType === "hail_count" ? `\u25CF ${ann.value}`
           : ann.annotationType === "pitch" ? `${ann.value}`
           : ann.annotationType === "storm_direction" ? `\u2192 ${ann.value}`
+          : ann.annotationType === "roof_line" ? `${ann.label} ${ann.value}'`
           : ann.value || "";
 
         return (
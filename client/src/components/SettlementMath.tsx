@@ -0,0 +1,317 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Loader2, Pencil, Plus, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+type DeductibleType = "flat" | "percentage";
+
+interface PerilDeductible {
+  peril: string;
+  type: DeductibleType;
+  amount: number;
+}
+
+type SublimitCapType = "flat" | "percent_of_limit" | "percent_of_loss" | "per_item";
+
+export interface SublimitDefinition {
+  key: string;
+  label: string;
+  capType: SublimitCapType;
+  amount: number;
+  aggregateCap?: number | null;
+  additional?: boolean;
+}
+
+interface SublimitResult {
+  key: string;
+  label: string;
+  additional: boolean;
+  claimed: number;
+  cap: number;
+  overage: number;
+}
+
+const CAP_TYPE_LABELS: Record<SublimitCapType, string> = {
+  flat: "Flat $",
+  percent_of_limit: "% of limit",
+  percent_of_loss: "% of loss",
+  per_item: "$ per item",
+};
+
+function sublimitKeyFor(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "").slice(0, 40) || "sublimit";
+}
+
+export interface SettlementCoverage {
+  coverageType: string;
+  totalACV: number;
+  deductible: number;
+  deductibleDetail: { amount: number; type: DeductibleType; pct: number | null; basis: number | null; peril: string | null };
+  coinsurance: { pct: number; replacementCostValue: number; requiredLimit: number; ratio: number; penalty: number } | null;
+  coinsurancePenalty: number;
+  sublimits: SublimitResult[];
+  paidWhenIncurredPending: number;
+  policyLimit: number | null;
+  overLimitDeduction: number;
+  netClaim: number;
+}
+
+interface PolicyRule {
+  id: number;
+  coverageType: string;
+  policyLimit: number | null;
+  deductible: number | null;
+  deductibleType: DeductibleType;
+  deductiblePct: number | null;
+  perilDeductibles: PerilDeductible[] | null;
+  coinsurancePct: number | null;
+  replacementCostValue: number | null;
+  sublimits: SublimitDefinition[] | null;
+}
+
+interface SettlementMathProps {
+  claimId: number;
+  sessionId: number;
+  coverages: SettlementCoverage[];
+}
+
+const fmt = (n: number) => n.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+function describeDeductible(c: SettlementCoverage): string {
+  const d = c.deductibleDetail;
+  const peril = d.peril ? ` (${d.peril})` : "";
+  if (d.type === "percentage") {
+    return d.basis != null ? `${d.pct}% × $${fmt(d.basis)} limit${peril}` : `${d.pct}% of limit — no limit set${peril}`;
+  }
+  return `Flat${peril}`;
+}
+
+function Row({ label, detail, value }: { label: string; detail?: string; value: string }) {
+  return (
+    <div className="flex justify-between gap-2 text-[10px]">
+      <span className="text-white/40 min-w-0">
+        {label}
+        {detail && <span className="ml-1 text-white/30">{detail}</span>}
+      </span>
+      <span className="text-white/60 font-mono shrink-0">{value}</span>
+    </div>
+  );
+}
+
+function numberOrNull(value: string): number | null {
+  if (value.trim() === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function TermsEditor({ claimId, sessionId, rule, onDone }: { claimId: number; sessionId: number; rule: PolicyRule; onDone: () => void }) {
+  const { toast } = useToast();
+  const [deductibleType, setDeductibleType] = useState<DeductibleType>(rule.deductibleType || "flat");
+  const [deductible, setDeductible] = useState(rule.deductible != null ? String(rule.deductible) : "");
+  const [deductiblePct, setDeductiblePct] = useState(rule.deductiblePct != null ? String(rule.deductiblePct) : "");
+  const [perilDeductibles, setPerilDeductibles] = useState<PerilDeductible[]>(rule.perilDeductibles || []);
+  const [coinsurancePct, setCoinsurancePct] = useState(rule.coinsurancePct != null ? String(rule.coinsurancePct) : "");
+  const [replacementCostValue, setReplacementCostValue] = useState(rule.replacementCostValue != null ? String(rule.replacementCostValue) : "");
+  const [sublimits, setSublimits] = useState<SublimitDefinition[]>(rule.sublimits || []);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        deductibleType,
+        ...(deductibleType === "flat" && numberOrNull(deductible) != null ? { deductible: numberOrNull(deductible) } : {}),
+        deductiblePct: deductibleType === "percentage" ? numberOrNull(deductiblePct) : null,
+        perilDeductibles: perilDeductibles.filter((p) => p.peril.trim()),
+        coinsurancePct: numberOrNull(coinsurancePct),
+        replacementCostValue: numberOrNull(replacementCostValue),
+        sublimits: sublimits
+          .filter((d) => d.label.trim())
+          .map((d) => ({
+            ...d,
+            key: d.key || sublimitKeyFor(d.label),
+            aggregateCap: d.capType === "per_item" ? d.aggregateCap ?? null : null,
+          })),
+      };
+      const res = await apiRequest("PATCH", `/api/claims/${claimId}/policy-rules/${rule.id}`, body);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/claims/${claimId}/policy-rules`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/inspection/${sessionId}/settlement`] });
+      toast({ title: `${rule.coverageType} terms saved` });
+      onDone();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save policy terms", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updatePeril = (idx: number, patch: Partial<PerilDeductible>) =>
+    setPerilDeductibles((prev) => prev.map((p, i) => (i === idx ? { ...p, ...patch } : p)));
+  const updateSublimit = (idx: number, patch: Partial<SublimitDefinition>) =>
+    setSublimits((prev) => prev.map((d, i) => (i === idx ? { ...d, ...patch } : d)));
+
+  const inputClass = "bg-white/10 border border-white/20 rounded px-2 py-1 text-[11px] text-white w-full";
+
+  return (
+    <div className="mt-2 space-y-2 bg-white/5 rounded-lg p-3" data-testid={`terms-editor-${rule.coverageType}`}>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-[10px] text-white/50">
+          Deductible
+          <select className={inputClass} value={deductibleType} onChange={(e) => setDeductibleType(e.target.value as DeductibleType)}>
+            <option value="flat">Flat $</option>
+            <option value="percentage">% of limit</option>
+          </select>
+        </label>
+        {deductibleType === "flat" ? (
+          <label className="text-[10px] text-white/50">
+            Amount ($)
+            <input className={inputClass} type="number" min={0} value={deductible} onChange={(e) => setDeductible(e.target.value)} />
+          </label>
+        ) : (
+          <label className="text-[10px] text-white/50">
+            Percent
+            <input className={inputClass} type="number" min={0} max={100} step={0.5} value={deductiblePct} onChange={(e) => setDeductiblePct(e.target.value)} />
+          </label>
+        )}
+      </div>
+
+      <div>
+        <p className="text-[10px] text-white/50">Peril-specific deductibles</p>
+        {perilDeductibles.map((p, idx) => (
+          <div key={idx} className="grid grid-cols-[1fr_90px_70px_20px] gap-1 mt-1 items-center">
+            <input className={inputClass} placeholder="e.g. wind, hurricane" value={p.peril} onChange={(e) => updatePeril(idx, { peril: e.target.value })} />
+            <select className={inputClass} value={p.type} onChange={(e) => updatePeril(idx, { type: e.target.value as DeductibleType })}>
+              <option value="flat">Flat $</option>
+              <option value="percentage">% of limit</option>
+            </select>
+            <input className={inputClass} type="number" min={0} value={p.amount} onChange={(e) => updatePeril(idx, { amount: Number(e.target.value) || 0 })} />
+            <button type="button" className="text-white/40 hover:text-white" onClick={() => setPerilDeductibles((prev) => prev.filter((_, i) => i !== idx))}>
+              <X size={12} />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          className="mt-1 inline-flex items-center gap-1 text-[10px] text-[#C6A54E]"
+          onClick={() => setPerilDeductibles((prev) => [...prev, { peril: "", type: "percentage", amount: 1 }])}
+        >
+          <Plus size={10} /> Add peril deductible
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-[10px] text-white/50">
+          Coinsurance (%)
+          <input className={inputClass} type="number" min={0} max={100} placeholder="None" value={coinsurancePct} onChange={(e) => setCoinsurancePct(e.target.value)} />
+        </label>
+        <label className="text-[10px] text-white/50">
+          Replacement cost value ($)
+          <input className={inputClass} type="number" min={0} value={replacementCostValue} onChange={(e) => setReplacementCostValue(e.target.value)} />
+        </label>
+      </div>
+
+      <div>
+        <p className="text-[10px] text-white/50">Sublimits &amp; additional coverages</p>
+        {sublimits.map((d, idx) => (
+          <div key={idx} className="grid grid-cols-[1fr_90px_70px_20px] gap-1 mt-1 items-center">
+            <input className={inputClass} placeholder="e.g. Mold remediation" value={d.label} onChange={(e) => updateSublimit(idx, { label: e.target.value })} />
+            <select className={inputClass} value={d.capType} onChange={(e) => updateSublimit(idx, { capType: e.target.value as SublimitCapType })}>
+              {(Object.keys(CAP_TYPE_LABELS) as SublimitCapType[]).map((t) => (
+                <option key={t} value={t}>{CAP_TYPE_LABELS[t]}</option>
+              ))}
+            </select>
+            <input className={inputClass} type="number" min={0} value={d.amount} onChange={(e) => updateSublimit(idx, { amount: Number(e.target.value) || 0 })} />
+            <button type="button" className="text-white/40 hover:text-white" onClick={() => setSublimits((prev) => prev.filter((_, i) => i !== idx))}>
+              <X size={12} />
+            </button>
+            <label className="col-span-2 flex items-center gap-1 text-[10px] text-white/50">
+              <input type="checkbox" checked={!!d.additional} onChange={(e) => updateSublimit(idx, { additional: e.target.checked })} />
+              Paid in addition to the limit
+            </label>
+            {d.capType === "per_item" && (
+              <input
+                className={inputClass}
+                type="number"
+                min={0}
+                placeholder="Total cap"
+                value={d.aggregateCap ?? ""}
+                onChange={(e) => updateSublimit(idx, { aggregateCap: numberOrNull(e.target.value) })}
+              />
+            )}
+          </div>
+        ))}
+        <button
+          type="button"
+          className="mt-1 inline-flex items-center gap-1 text-[10px] text-[#C6A54E]"
+          onClick={() => setSublimits((prev) => [...prev, { key: "", label: "", capType: "flat", amount: 0, additional: false }])}
+        >
+          <Plus size={10} /> Add sublimit
+        </button>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="ghost" className="h-7 text-xs text-white/70" onClick={onDone}>Cancel</Button>
+        <Button size="sm" className="h-7 text-xs" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+          {saveMutation.isPending && <Loader2 size={12} className="mr-1 animate-spin" />} Save
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function SettlementMath({ claimId, sessionId, coverages }: SettlementMathProps) {
+  const [editing, setEditing] = useState<string | null>(null);
+  const { data: policyRules = [] } = useQuery<PolicyRule[]>({
+    queryKey: [`/api/claims/${claimId}/policy-rules`],
+    enabled: !!claimId,
+  });
+
+  return (
+    <div className="mt-3 border-t border-white/20 pt-3 space-y-3" data-testid="settlement-math">
+      {coverages.map((c) => {
+        const rule = policyRules.find((r) => r.coverageType === c.coverageType);
+        return (
+          <div key={c.coverageType} className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] uppercase tracking-wider text-white/50">{c.coverageType}</span>
+              {rule && editing !== c.coverageType && (
+                <button type="button" className="text-white/40 hover:text-white" onClick={() => setEditing(c.coverageType)} data-testid={`button-edit-terms-${c.coverageType}`}>
+                  <Pencil size={11} />
+                </button>
+              )}
+            </div>
+            <Row label="ACV" value={`$${fmt(c.totalACV)}`} />
+            {c.paidWhenIncurredPending > 0 && (
+              <Row label="Paid when incurred" detail="held until the work is done" value={`$${fmt(c.paidWhenIncurredPending)}`} />
+            )}
+            {c.sublimits.map((sl) => (
+              <Row
+                key={sl.key}
+                label={sl.additional ? `${sl.label} (additional)` : sl.label}
+                detail={`$${fmt(sl.claimed)} claimed of $${fmt(sl.cap)} cap`}
+                value={sl.overage > 0 ? `($${fmt(sl.overage)})` : "Within cap"}
+              />
+            ))}
+            {c.coinsurance && (
+              <Row
+                label="Coinsurance penalty"
+                detail={`$${fmt(c.policyLimit ?? 0)} carried ÷ ($${fmt(c.coinsurance.replacementCostValue)} × ${c.coinsurance.pct}% = $${fmt(c.coinsurance.requiredLimit)}) = ${(c.coinsurance.ratio * 100).toFixed(2)}%`}
+                value={c.coinsurancePenalty > 0 ? `($${fmt(c.coinsurancePenalty)})` : "Met"}
+              />
+            )}
+            <Row label="Deductible" detail={describeDeductible(c)} value={`($${fmt(c.deductible)})`} />
+            {c.overLimitDeduction > 0 && (
+              <Row label="Over limit" detail={`limit $${fmt(c.policyLimit ?? 0)}`} value={`($${fmt(c.overLimitDeduction)})`} />
+            )}
+            <Row label="Net claim" value={`$${fmt(c.netClaim)}`} />
+            {rule && editing === c.coverageType && (
+              <TermsEditor claimId={claimId} sessionId={sessionId} rule={rule} onDone={() => setEditing(null)} />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import React from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Landmark, Loader2, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface TaxJurisdictionPanelProps {
+  claimId: number;
+}
+
+interface Jurisdiction {
+  id: string;
+  name: string;
+}
+
+interface ClaimTaxRule {
+  id: number;
+  taxLabel: string;
+  taxRate: number;
+  appliesToCategories: string[];
+  appliesToCostType: string;
+  source: "manual" | "policy" | "jurisdiction";
+}
+
+interface TaxJurisdictionResponse {
+  jurisdiction: Jurisdiction | null;
+  source: "override" | "location" | null;
+  area: { state: string; zipPrefix: string | null } | null;
+  overrideId: string | null;
+  rules: ClaimTaxRule[];
+}
+
+const SOURCE_LABELS: Record<ClaimTaxRule["source"], string> = {
+  manual: "Manual",
+  policy: "Policy default",
+  jurisdiction: "Jurisdiction",
+};
+
+const COST_TYPE_LABELS: Record<string, string> = {
+  material: "materials",
+  labor: "labor",
+  all: "full price",
+};
+
+function describeSource(data: TaxJurisdictionResponse): string {
+  if (data.source === "override") return "Set by adjuster";
+  if (data.source === "location" && data.area) {
+    return `From loss location (${data.area.state}${data.area.zipPrefix ? ` ${data.area.zipPrefix}*` : ""})`;
+  }
+  return "No jurisdiction matches the loss location";
+}
+
+export default function TaxJurisdictionPanel({ claimId }: TaxJurisdictionPanelProps) {
+  const { toast } = useToast();
+  const jurisdictionKey = `/api/claims/${claimId}/tax-jurisdiction`;
+
+  const { data, isLoading } = useQuery<TaxJurisdictionResponse>({
+    queryKey: [jurisdictionKey],
+    enabled: !!claimId,
+  });
+  const { data: jurisdictions = [] } = useQuery<Jurisdiction[]>({
+    queryKey: ["/api/tax-jurisdictions"],
+  });
+
+  const overrideMutation = useMutation({
+    mutationFn: async (jurisdictionId: string | null) => {
+      const res = await apiRequest("PUT", jurisdictionKey, { jurisdictionId });
+      return res.json() as Promise<TaxJurisdictionResponse>;
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData([jurisdictionKey], result);
+      toast({
+        title: "Tax jurisdiction updated",
+        description: result.jurisdiction ? result.jurisdiction.name : "Using policy tax rate",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update tax jurisdiction", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="border border-border rounded-xl p-4 md:p-6 bg-card">
+      <div className="flex items-start gap-3 md:gap-4">
+        <div className="h-10 w-10 md:h-12 md:w-12 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+          <Landmark size={20} className="text-primary" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h3 className="font-display font-bold text-foreground text-base md:text-lg">Sales Tax Jurisdiction</h3>
+
+          {isLoading || !data ? (
+            <div className="flex items-center py-4 text-sm text-muted-foreground">
+              <Loader2 size={14} className="mr-2 animate-spin" /> Loading jurisdiction...
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-foreground mt-1" data-testid="text-tax-jurisdiction">
+                {data.jurisdiction ? data.jurisdiction.name : "None"}
+                <span className="ml-2 text-xs text-muted-foreground">{describeSource(data)}</span>
+              </p>
+
+              <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+                <select
+                  className="border border-border rounded-md px-2 py-1 bg-background text-sm max-w-full"
+                  value={data.overrideId ?? ""}
+                  onChange={(e) => overrideMutation.mutate(e.target.value || null)}
+                  disabled={overrideMutation.isPending}
+                  data-testid="select-tax-jurisdiction"
+                >
+                  <option value="">Resolve from loss location</option>
+                  {jurisdictions.map((j) => (
+                    <option key={j.id} value={j.id}>{j.name}</option>
+                  ))}
+                </select>
+                {data.overrideId && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => overrideMutation.mutate(null)}
+                    disabled={overrideMutation.isPending}
+                  >
+                    <RotateCcw size={14} className="mr-1" /> Clear override
+                  </Button>
+                )}
+                {overrideMutation.isPending && <Loader2 size={14} className="animate-spin text-muted-foreground" />}
+              </div>
+
+              {data.rules.length === 0 ? (
+                <p className="text-sm text-muted-foreground mt-3">No tax rules yet; the policy tax rate applies.</p>
+              ) : (
+                <ul className="mt-3 divide-y divide-border text-sm">
+                  {data.rules.map((rule) => (
+                    <li key={rule.id} className="py-2 flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <span className="font-medium text-foreground">{rule.taxLabel}</span>
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          {rule.appliesToCategories.length > 0 ? rule.appliesToCategories.join(", ") : "All categories"}
+                          {" · "}
+                          {COST_TYPE_LABELS[rule.appliesToCostType] || rule.appliesToCostType}
+                          {" · "}
+                          {SOURCE_LABELS[rule.source] || rule.source}
+                        </span>
+                      </div>
+                      <span className="text-xs text-muted-foreground shrink-0">{rule.taxRate}%</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -28,6 +28,7 @@ interface LineItem {
   acv: number;
   age: number | null;
   lifeExpectancy: number | null;
+  provenance?: string | null;
 }
 
 interface RoomOpening {
@@ -282,6 +283,9 @@ function LineItemsTable({ items, roomName, subtotal, totalDepreciation, totalRec
                   <td colSpan={10} className="py-1 pr-2 text-slate-800">
                     <span className="text-slate-400 mr-1">{item.lineNumber}.</span>
                     {item.description}
+                    {item.provenance === "minimum" && (
+                      <span className="ml-2 text-[10px] uppercase tracking-wide text-amber-700">Minimum charge</span>
+                    )}
                   </td>
                 </tr>
                 <tr className="border-b border-slate-100 hover:bg-slate-50/50">
@@ -28,6 +28,8 @@ import {
   Building2,
   Zap,
   Link2,
+  Undo2,
+  Redo2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
@@ -47,8 +49,8 @@ import { apiRequest, resilientMutation, getAuthHeaders as getGlobalAuthHeaders }
 import { getSupabaseAsync } from "@/lib/supabaseClient";
 import { useSettings } from "@/hooks/use-settings";
 import { logger } from "@/lib/logger";
-import { normalizeOpeningDimensions, normalizeWallDirection, wallDirectionToIndex, parseFeetValue } from "@/lib/openingToolNormalization";
 import { buildToolError, sendFunctionCallOutput } from "@/lib/realtimeTooling";
+import { isServerTool } from "@shared/contracts/tools";
 import { drainToolQueue, shouldQueueToolCall } from "@/lib/realtimeVoiceState";
 
 type VoiceState = "idle" | "listening" | "processing" | "speaking" | "error" | "disconnected";
@@ -79,6 +81,13 @@ interface RoomData {
   floor?: number;
 }
 
+interface CommandSummary {
+  id: number;
+  tool: string;
+  label: string;
+  at: string;
+}
+
 interface CameraMode {
   active: boolean;
   label: string;
@@ -94,6 +103,22 @@ interface PendingToolCall {
 }
 
 const IMMEDIATE_TOOLS = new Set(["trigger_photo_capture"]);
+/** Server tools that only read or steer the workflow; they are never queued offline */
+const WORKFLOW_TOOLS = new Set(["get_workflow_state", "set_phase", "set_context", "complete_flow_step"]);
+// Undo and redo act on the server's command log, so they cannot be replayed from the offline queue
+const HISTORY_TOOLS = new Set(["undo_last_action", "redo"]);
+/** Server tools that only read the inspection; a queued read could never answer the model */
+const READ_TOOLS = new Set([
+  "get_inspection_state", "get_progress", "get_estimate_summary", "get_completeness", "get_scope_gaps",
+  "request_phase_validation", "list_rooms", "find_room", "get_room_details", "get_room_scope",
+  "validate_scope", "check_related_items", "list_photos",
+]);
+/** Server tools that add, reprice or remove line items; undone damages take their line items with them */
+const LINE_ITEM_TOOLS = new Set([
+  "add_damage", "confirm_damage_suggestion", "delete_damage", "delete_room", "delete_structure",
+  "update_room_dimensions", "add_line_item", "update_line_item", "remove_line_item", "generate_scope",
+  "apply_peril_template", "delete_scope_item", "apply_smart_macro", "undo_last_action", "redo",
+]);
 const ENABLE_MIC_GATING = false;
 
 const PHASES = [
@@ -148,9 +173,6 @@ export default function ActiveInspection({ params }: { params: { id: string } })
   const [currentArea, setCurrentArea] = useState("");
   const [currentRoomId, setCurrentRoomId] = useState<number | null>(null);
   const [rooms, setRooms] = useState<RoomData[]>([]);
-  const roomsRef = useRef<RoomData[]>([]);
-  // Keep roomsRef in sync so tool handlers always have fresh data
-  useEffect(() => { roomsRef.current = rooms; }, [rooms]);
 
   const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
   const [agentPartialText, setAgentPartialText] = useState("");
@@ -278,6 +300,11 @@ export default function ActiveInspection({ params }: { params: { id: string } })
     enabled: !!sessionId && showAddStructure,
   });
 
+  const { data: commandHistory } = useQuery<{ undo: CommandSummary[]; redo: CommandSummary[] }>({
+    queryKey: [`/api/inspection/${sessionId}/commands`],
+    enabled: !!sessionId,
+  });
+
   const sessionStartedRef = useRef(false);
 
   const startSessionMutation = useMutation({
@@ -417,10 +444,10 @@ export default function ActiveInspection({ params }: { params: { id: string } })
     try {
       const headers = await getJsonHeaders();
       fetch("/api/logs/voice-tool", {
-        method: "POST", headers, body: JSON.stringify({ toolName, type, data }),
+        method: "POST", headers, body: JSON.stringify({ toolName, type, data, sessionId }),
       }).catch(() => {});
     } catch {}
-  }, [getJsonHeaders]);
+  }, [getJsonHeaders, sessionId]);
 
   const logVoiceTimeline = useCallback((eventType: string, details: Record<string, unknown> = {}) => {
     const payload = {
@@ -471,21 +498,6 @@ export default function ActiveInspection({ params }: { params: { id: string } })
     } catch (e) { logger.error("Voice", "Refresh line items error", e); }
   }, [sessionId, refreshEstimate, getAuthHeaders]);
 
-  const fetchFreshRooms = useCallback(async (): Promise<RoomData[]> => {
-    if (!sessionId) return roomsRef.current;
-    try {
-      const headers = await getAuthHeaders();
-      const res = await fetch(`/api/inspection/${sessionId}/rooms`, { headers });
-      if (res.ok) {
-        const data = await res.json();
-        return data;
-      }
-    } catch (e) {
-      logger.error("Voice", "Failed to fetch fresh rooms", e);
-    }
-    return roomsRef.current;
-  }, [sessionId, getAuthHeaders]);
-
   const refreshRooms = useCallback(async () => {
     if (!sessionId) return;
     try {
@@ -509,6 +521,22 @@ export default function ActiveInspection({ params }: { params: { id: string } })
     } catch (e) { logger.error("Voice", "Refresh rooms error", e); }
   }, [sessionId, getAuthHeaders, queryClient]);
 
+  const historyMutation = useMutation({
+    mutationFn: async (tool: "undo_last_action" | "redo") => {
+      const res = await apiRequest("POST", `/api/inspection/${sessionId}/tools`, { name: tool });
+      return res.json();
+    },
+    onSuccess: async (result, tool) => {
+      if (!result.success) {
+        logger.warn("Voice", `${tool} failed`, result.error);
+      }
+      await Promise.all([refreshRooms(), refreshLineItems()]);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/inspection/${sessionId}/commands`] });
+    },
+  });
+
   const handleCreateStructure = useCallback(async () => {
     if (!sessionId || !addStructureName.trim()) return;
     setCreatingStructure(true);
@@ -644,27 +672,6 @@ export default function ActiveInspection({ params }: { params: { id: string } })
     transcriptEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [transcript, agentPartialText]);
 
-  const retryableFetch = useCallback(async (
-    url: string,
-    options: RequestInit,
-    maxRetries = 1
-  ): Promise<Response> => {
-    let lastError: Error | null = null;
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        const res = await fetch(url, options);
-        if (res.ok || res.status < 500) return res;
-        lastError = new Error(`Server error: ${res.status}`);
-      } catch (e: any) {
-        lastError = e;
-      }
-      if (attempt < maxRetries) {
-        await new Promise((r) => setTimeout(r, 1000 * (attempt + 1)));
-      }
-    }
-    throw lastError || new Error("Request failed after retries");
-  }, []);
-
   const executeToolCall = useCallback(async (event: any, options?: { suppressResponseCreate?: boolean }) => {
     const { name, arguments: argsString, call_id } = event;
     let args: any;
@@ -688,12 +695,6 @@ export default function ActiveInspection({ params }: { params: { id: string } })
       }
     };
 
-    const toolValidationError = (message: string, details?: Record<string, unknown>, hint?: string) =>
-      buildToolError("VALIDATION_ERROR", message, details, hint);
-
-    const toolApiError = (message: string, details?: Record<string, unknown>, hint?: string) =>
-      buildToolError("API_ERROR", message, details, hint);
-
     /** Detect workflow enforcement rejection (403 from middleware) in a parsed response body */
     const isWorkflowRejection = (data: any): boolean =>
       data?.error?.code === "TOOL_NOT_ALLOWED" || data?.error?.code === "MISSING_CONTEXT";
@@ -709,6 +710,57 @@ export default function ActiveInspection({ params }: { params: { id: string } })
       } catch { return null; }
     };
 
+    /** Relay a server-executed tool and mirror what it changed in the page state */
+    const executeServerTool = async (): Promise<any> => {
+      if (!sessionId) return { success: false, error: { type: "CONTEXT_ERROR", code: "NO_SESSION", message: "No active session" } };
+      const toolRes = await resilientMutation(
+        "POST",
+        `/api/inspection/${sessionId}/tools`,
+        { name, args, callId: call_id },
+        { label: `Voice tool: ${name}`, skipQueue: WORKFLOW_TOOLS.has(name) || HISTORY_TOOLS.has(name) || READ_TOOLS.has(name) }
+      );
+      const toolResult = await toolRes.json();
+      if (toolRes.status === 202 && toolResult.queued) {
+        return { success: true, queued: true, message: "Saved offline — will sync when connected." };
+      }
+      if (name === "complete_flow_step" && toolResult.data?.next) setCurrentPhase(toolResult.data.next.phase);
+      if (!toolResult.success || WORKFLOW_TOOLS.has(name) || READ_TOOLS.has(name)) return toolResult;
+
+      const data = toolResult.data || {};
+      if (data.room) {
+        setCurrentRoomId(data.room.id);
+        setCurrentArea(data.room.name);
+        setCurrentStructure(data.room.structure);
+      }
+      if (name === "create_structure") {
+        setCurrentStructure(data.name);
+        queryClient.invalidateQueries({ queryKey: [`/api/inspection/${sessionId}/structures`] });
+      }
+      if (name === "set_inspection_context") {
+        if (args.phase) setCurrentPhase(args.phase);
+        if (args.structure) setCurrentStructure(args.structure);
+        if (args.area) setCurrentArea(args.area);
+        if (data.phaseValidation?.warnings?.length > 0) setPhaseValidation({ visible: true, ...data.phaseValidation });
+      }
+      if (data.autoScope?.itemsCreated > 0) {
+        setAutoScopeNotification({
+          visible: true,
+          count: data.autoScope.itemsCreated,
+          items: data.autoScope.items || [],
+          warnings: data.autoScope.warnings || [],
+        });
+        setTimeout(() => setAutoScopeNotification((prev) => ({ ...prev, visible: false })), 8000);
+      }
+      if (name === "skip_step") addTranscriptEntry("agent", `Step skipped: ${data.skipped} (${data.reason})`);
+      if (name === "complete_inspection") {
+        localStorage.removeItem(STORAGE_KEY);
+        setTimeout(() => setLocation(`/inspection/${claimId}/review`), 2000);
+      }
+      await refreshRooms();
+      if (LINE_ITEM_TOOLS.has(name)) await refreshLineItems();
+      return toolResult;
+    };
+
     logger.info("VoiceTool", `▶ ${name}`, { call_id, args });
     sendLogToServer(name, "call", { call_id, args });
 
@@ -716,967 +768,6 @@ export default function ActiveInspection({ params }: { params: { id: string } })
 
     try {
       switch (name) {
-        case "set_inspection_context": {
-          const prevPhase = currentPhase;
-          if (args.phase) setCurrentPhase(args.phase);
-          if (args.structure) setCurrentStructure(args.structure);
-          if (args.area) setCurrentArea(args.area);
-          let phaseValidationData: any = null;
-          if (sessionId) {
-            const headers = await getAuthHeaders();
-            const patchBody: any = {
-              currentPhase: args.phase,
-              currentStructure: args.structure,
-              currentStepIndex: args.phase ? (args.phase - 1) : undefined,
-            };
-            if (args.phase && args.phase > prevPhase) {
-              const completed: number[] = [];
-              for (let i = 1; i < args.phase; i++) completed.push(i);
-              patchBody.completedPhases = completed;
-            }
-            await fetch(`/api/inspection/${sessionId}`, {
-              method: "PATCH",
-              headers: { ...headers, "Content-Type": "application/json" },
-              body: JSON.stringify(patchBody),
-            });
-
-            if (args.phase && args.phase !== prevPhase) {
-              try {
-                const valRes = await fetch(`/api/inspection/${sessionId}/validate-phase`, { headers });
-                if (valRes.ok) {
-                  phaseValidationData = await valRes.json();
-                  const phaseWarnings = phaseValidationData.warnings || [];
-                  if (phaseWarnings.length > 0) {
-                    setPhaseValidation({
-                      visible: true,
-                      currentPhase: prevPhase,
-                      nextPhase: args.phase,
-                      warnings: phaseWarnings,
-                      missingItems: phaseValidationData.missingItems || [],
-                      completionScore: phaseValidationData.completionScore || 0,
-                    });
-                  }
-                }
-              } catch (e) {
-                logger.error("Voice", "Phase validation in tool call", e);
-              }
-            }
-          }
-          result = {
-            success: true,
-            context: { ...args, phaseName: args.phaseName || args.area },
-            phaseValidation: phaseValidationData ? {
-              completionScore: phaseValidationData.completionScore,
-              warnings: phaseValidationData.warnings || [],
-              missingItems: phaseValidationData.missingItems || [],
-              summary: (phaseValidationData.warnings?.length || 0) > 0
-                ? `Phase ${prevPhase} has ${phaseValidationData.warnings.length} warning(s): ${phaseValidationData.warnings.join("; ")}`
-                : `Phase ${prevPhase} is complete — no issues found.`,
-            } : undefined,
-          };
-          break;
-        }
-
-        case "create_structure": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const structHeaders = await getAuthHeaders();
-          const structRes = await fetch(`/api/inspection/${sessionId}/structures`, {
-            method: "POST",
-            headers: { ...structHeaders, "Content-Type": "application/json" },
-            body: JSON.stringify({
-              name: args.name,
-              structureType: args.structureType || "dwelling",
-            }),
-          });
-          const structure = await structRes.json();
-          if (!structRes.ok) {
-            result = isWorkflowRejection(structure) ? structure : { success: false, error: structure.message || "Failed to create structure" };
-            break;
-          }
-          if (args.name) setCurrentStructure(args.name);
-          await refreshRooms();
-          queryClient.invalidateQueries({ queryKey: [`/api/inspection/${sessionId}/structures`] });
-          result = { success: true, structureId: structure.id, name: structure.name, message: `Structure "${structure.name}" created.` };
-          break;
-        }
-
-        case "get_workflow_state": {
-          if (!sessionId) { result = { success: false, error: { type: "CONTEXT_ERROR", code: "NO_SESSION", message: "No active session" } }; break; }
-          const headers = await getAuthHeaders();
-          const wfRes = await fetch(`/api/inspection/${sessionId}/workflow`, { headers });
-          const wfPayload = await wfRes.json();
-          result = wfRes.ok ? { success: true, ...wfPayload } : { success: false, error: { type: "API_ERROR", code: "WORKFLOW_FETCH_FAILED", message: wfPayload?.message || "Failed to fetch workflow" } };
-          break;
-        }
-
-        case "set_phase": {
-          if (!sessionId) { result = { success: false, error: { type: "CONTEXT_ERROR", code: "NO_SESSION", message: "No active session" } }; break; }
-          const headers = await getAuthHeaders();
-          const phRes = await fetch(`/api/inspection/${sessionId}/workflow/set-phase`, { method: "POST", headers: { ...headers, "Content-Type": "application/json" }, body: JSON.stringify({ phase: args.phase, stepId: args.stepId }) });
-          result = await phRes.json();
-          break;
-        }
-
-        case "set_context": {
-          if (!sessionId) { result = { success: false, error: { type: "CONTEXT_ERROR", code: "NO_SESSION", message: "No active session" } }; break; }
-          const headers = await getAuthHeaders();
-          const ctxRes = await fetch(`/api/inspection/${sessionId}/workflow/set-context`, { method: "POST", headers: { ...headers, "Content-Type": "application/json" }, body: JSON.stringify(args) });
-          result = await ctxRes.json();
-          break;
-        }
-
-        case "get_inspection_state": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const hierHeaders = await getAuthHeaders();
-          const [hierRes, sessionRes] = await Promise.all([
-            fetch(`/api/inspection/${sessionId}/hierarchy`, { headers: hierHeaders }),
-            fetch(`/api/inspection/${sessionId}`, { headers: hierHeaders }),
-          ]);
-          const hierarchy = await hierRes.json();
-          const sessionData = sessionRes.ok ? await sessionRes.json() : null;
-          await refreshRooms();
-          const sessionPhaseNum = sessionData?.session?.currentPhase || currentPhase;
-          const sessionCompleted: number[] = sessionData?.session?.completedPhases || [];
-          result = {
-            success: true,
-            ...hierarchy,
-            currentPhase: sessionPhaseNum,
-            completedPhases: sessionCompleted,
-            currentStepIndex: sessionData?.session?.currentStepIndex || 0,
-            currentStructure: sessionData?.session?.currentStructure || currentStructure,
-            currentArea: currentArea || null,
-            summary: {
-              structureCount: hierarchy.structures?.length || 0,
-              totalRooms: hierarchy.structures?.reduce((sum: number, s: any) => sum + (s.rooms?.length || 0), 0) || 0,
-              totalSubAreas: hierarchy.structures?.reduce((sum: number, s: any) =>
-                sum + (s.rooms?.reduce((rsum: number, r: any) => rsum + (r.subAreas?.length || 0), 0) || 0), 0) || 0,
-            },
-            phaseProgress: `You are currently on Phase ${sessionPhaseNum}.${sessionCompleted.length > 0 ? ` Phases ${sessionCompleted.join(", ")} are complete.` : ""} Continue from the current phase — do NOT revisit completed phases unless the adjuster asks.`,
-          };
-          break;
-        }
-
-        case "list_rooms": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const listRooms = await fetchFreshRooms();
-          result = {
-            success: true,
-            rooms: listRooms.map((r: any) => ({
-              id: r.id,
-              name: r.name,
-              dimensions: r.dimensions || {},
-              damageCount: r.damageCount || 0,
-            })),
-            message: `Found ${listRooms.length} room(s).`,
-          };
-          break;
-        }
-
-        case "find_room": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const query = (args.roomNameQuery || "").toLowerCase().trim();
-          const allRooms = await fetchFreshRooms();
-          const levenshtein = (a: string, b: string) => {
-            const m = a.length, n = b.length;
-            const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
-            for (let i = 0; i <= m; i++) dp[i][0] = i;
-            for (let j = 0; j <= n; j++) dp[0][j] = j;
-            for (let i = 1; i <= m; i++) {
-              for (let j = 1; j <= n; j++) {
-                dp[i][j] = a[i - 1] === b[j - 1] ? dp[i - 1][j - 1]
-                  : 1 + Math.min(dp[i - 1][j], dp[i][j - 1], dp[i - 1][j - 1]);
-              }
-            }
-            return dp[m][n];
-          };
-          const score = (roomName: string) => {
-            const t = roomName.toLowerCase();
-            if (query === t) return 1;
-            if (t.includes(query)) return 0.95;
-            const d = levenshtein(query, t);
-            return Math.max(0, 1 - d / Math.max(query.length, t.length));
-          };
-          const matches = allRooms
-            .map((r: any) => ({ id: r.id, name: r.name, confidence: score(r.name) }))
-            .sort((a: any, b: any) => b.confidence - a.confidence)
-            .slice(0, 3);
-          result = { success: true, matches, message: matches.length ? `Top match: "${matches[0].name}" (${(matches[0].confidence * 100).toFixed(0)}% confidence)` : "No rooms found." };
-          break;
-        }
-
-        case "rename_room": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const newName = (args.newName || "").trim();
-          if (!newName) { result = { success: false, error: "Room name cannot be empty." }; break; }
-          const renameHeaders = await getJsonHeaders();
-          const renameRes = await fetch(`/api/inspection/${sessionId}/rooms/${args.roomId}`, {
-            method: "PATCH",
-            headers: renameHeaders,
-            body: JSON.stringify({ name: newName }),
-          });
-          const renameData = await renameRes.json();
-          if (!renameRes.ok) {
-            result = { success: false, error: renameData.message || "Failed to rename room" };
-            break;
-          }
-          await refreshRooms();
-          result = { success: true, message: `Room renamed to "${newName}". All damage and scope items have been updated.` };
-          break;
-        }
-
-        case "get_room_details": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const freshDetailRooms = await fetchFreshRooms();
-          const targetRoom = args.roomId
-            ? freshDetailRooms.find(r => r.id === args.roomId)
-            : freshDetailRooms.find(r => r.name === args.roomName);
-          if (!targetRoom) {
-            result = { success: false, error: `Room "${args.roomName || args.roomId}" not found` };
-            break;
-          }
-          const detailHeaders = await getAuthHeaders();
-          const [openingsRes, annotationsRes] = await Promise.all([
-            fetch(`/api/inspection/${sessionId}/rooms/${targetRoom.id}/openings`, { headers: detailHeaders }),
-            fetch(`/api/inspection/${sessionId}/rooms/${targetRoom.id}/annotations`, { headers: detailHeaders }),
-          ]);
-          const openings = openingsRes.ok ? await openingsRes.json() : [];
-          const annotations = annotationsRes.ok ? await annotationsRes.json() : [];
-          result = {
-            success: true,
-            room: {
-              id: targetRoom.id,
-              name: targetRoom.name,
-              status: targetRoom.status,
-              structure: targetRoom.structure,
-              roomType: targetRoom.roomType,
-              dimensions: targetRoom.dimensions,
-              damageCount: targetRoom.damageCount,
-              photoCount: targetRoom.photoCount,
-            },
-            openings,
-            annotations,
-          };
-          break;
-        }
-
-        case "create_room": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const dimensions = args.length && args.width
-            ? { length: args.length, width: args.width, height: args.height }
-            : undefined;
-          const roomBody = {
-            name: args.name,
-            roomType: args.roomType,
-            structure: args.structure,
-            viewType: args.viewType || "interior",
-            shapeType: args.shapeType || "rectangle",
-            dimensions,
-            floor: args.floor,
-            facetLabel: args.facetLabel,
-            pitch: args.pitch || args.roofPitch,
-            phase: args.phase,
-          };
-          const roomRes = await resilientMutation(
-            "POST",
-            `/api/inspection/${sessionId}/rooms`,
-            roomBody,
-            { label: `Create room: ${args.name}` }
-          );
-          const room = await roomRes.json();
-          if (roomRes.status === 202 && room.queued) {
-            result = { success: true, queued: true, message: "Room will be created when connected." };
-            break;
-          }
-          if (!roomRes.ok) {
-            result = isWorkflowRejection(room) ? room : { success: false, error: room.message || "Failed to create room" };
-            break;
-          }
-          setCurrentRoomId(room.id);
-          setCurrentArea(room.name);
-          if (args.structure) setCurrentStructure(args.structure);
-          await refreshRooms();
-          result = {
-            success: true,
-            roomId: room.id,
-            name: room.name,
-            structure: args.structure,
-            viewType: args.viewType,
-            _context: room._context,
-            message: `Room "${room.name}" created in ${args.structure || "Main Dwelling"}.`,
-          };
-          break;
-        }
-
-        case "create_sub_area": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const freshSubRooms = await fetchFreshRooms();
-          const parentRoom = freshSubRooms.find(r => r.name === args.parentRoomName);
-          if (!parentRoom) {
-            result = { success: false, error: `Parent room "${args.parentRoomName}" not found. Create it first.` };
-            break;
-          }
-          const subDimensions = args.length && args.width
-            ? { length: args.length, width: args.width, height: args.height }
-            : undefined;
-          const subHeaders = await getJsonHeaders();
-          const subRes = await fetch(`/api/inspection/${sessionId}/rooms`, {
-            method: "POST",
-            headers: subHeaders,
-            body: JSON.stringify({
-              name: args.name,
-              parentRoomId: parentRoom.id,
-              attachmentType: args.attachmentType,
-              structure: parentRoom.structure,
-              viewType: "interior",
-              dimensions: subDimensions,
-            }),
-          });
-          const subArea = await subRes.json();
-          if (!subRes.ok) {
-            result = { success: false, error: subArea.message || "Failed to create sub-area" };
-            break;
-          }
-          await refreshRooms();
-          result = {
-            success: true,
-            roomId: subArea.id,
-            name: subArea.name,
-            parentRoom: args.parentRoomName,
-            message: `Sub-area "${subArea.name}" created under "${args.parentRoomName}".`,
-          };
-          break;
-        }
-
-        case "add_opening": {
-          if (!sessionId) { result = toolValidationError("No active inspection session.", { sessionId }, "Start or resume an inspection session, then retry add_opening."); break; }
-          const freshRooms = await fetchFreshRooms();
-          const openingRoomNameArg = (args.roomName || "").trim();
-          let openingRoom = freshRooms.find(r => r.name === openingRoomNameArg);
-          if (!openingRoom && openingRoomNameArg) {
-            openingRoom = freshRooms.find(r => r.name.toLowerCase() === openingRoomNameArg.toLowerCase());
-          }
-          if (!openingRoom && openingRoomNameArg) {
-            openingRoom = freshRooms.find(r => r.name.toLowerCase().includes(openingRoomNameArg.toLowerCase()));
-          }
-          if (!openingRoom && args.roomId) {
-            openingRoom = freshRooms.find(r => r.id === args.roomId);
-          }
-          if (!openingRoom && currentRoomId) {
-            openingRoom = freshRooms.find(r => r.id === currentRoomId);
-          }
-          if (!openingRoom) {
-            const availableNames = freshRooms.map(r => r.name);
-            result = toolValidationError(
-              `Room "${args.roomName}" not found in this inspection.`,
-              { roomName: args.roomName, availableRooms: availableNames, currentRoomId },
-              `Available rooms: ${availableNames.join(", ") || "none yet"}. Call create_room("${args.roomName}", "interior", "Main Dwelling") to create it, or use one of the available rooms.`,
-            );
-            break;
-          }
-
-          logger.info("VoiceTool", "add_opening room resolution", {
-            call_id,
-            requestedRoomName: args.roomName,
-            resolvedRoomId: openingRoom.id,
-            resolvedRoomName: openingRoom.name,
-            usedFallback: !openingRoomNameArg,
-          });
-
-          const openType = (args.openingType || "").toLowerCase();
-          const defaultW = openType.includes("overhead") || openType.includes("garage") ? 16
-            : openType.includes("window") ? 3
-            : openType.includes("missing") ? 8
-            : openType.includes("french") || openType.includes("sliding") ? 6
-            : 3;
-          const defaultH = openType.includes("overhead") || openType.includes("garage") ? 8
-            : openType.includes("window") ? 4
-            : openType.includes("missing") ? 8
-            : 7;
-
-          const { widthFt: normalizedWidthFt, heightFt: normalizedHeightFt } = normalizeOpeningDimensions({ ...args, openingType: args.openingType }, { widthFt: defaultW, heightFt: defaultH });
-          const openQuantity = args.quantity || 1;
-          const wallDirection = normalizeWallDirection(args.wallDirection);
-
-          logger.info("VoiceTool", "add_opening normalized args", {
-            call_id,
-            roomName: openingRoom.name,
-            openingType: args.openingType,
-            widthFt: normalizedWidthFt,
-            heightFt: normalizedHeightFt,
-            fromAliases: {
-              width: args.width,
-              height: args.height,
-              widthFt: args.widthFt,
-              heightFt: args.heightFt,
-            },
-          });
-
-          const resolvedWallIndex = args.wallIndex ?? wallDirectionToIndex(wallDirection);
-
-          const openHeaders = await getJsonHeaders();
-          const openPayload: Record<string, unknown> = {
-            openingType: args.openingType,
-            ...(resolvedWallIndex !== undefined ? { wallIndex: resolvedWallIndex } : {}),
-            wallDirection,
-            widthFt: normalizedWidthFt,
-            heightFt: normalizedHeightFt,
-            quantity: openQuantity,
-            label: args.label || `${args.openingType}${wallDirection ? ` on ${wallDirection} wall` : ""}`,
-            opensInto: args.opensInto || null,
-            goesToFloor: args.openingType === "overhead_door",
-            goesToCeiling: false,
-            notes: args.notes || null,
-          };
-          const openRes = await fetch(`/api/inspection/${sessionId}/rooms/${openingRoom.id}/openings`, {
-            method: "POST",
-            headers: openHeaders,
-            body: JSON.stringify(openPayload),
-          });
-
-          logger.info("VoiceTool", "add_opening API response", { call_id, status: openRes.status, ok: openRes.ok, payload: openPayload });
-          const opening = await openRes.json();
-          if (!openRes.ok) {
-            result = isWorkflowRejection(opening) ? opening : toolApiError(
-              opening.message || "Failed to add opening",
-              { status: openRes.status, response: opening, payload: openPayload },
-              "Retry add_opening with required fields: roomName, openingType, widthFt, heightFt.",
-            );
-            break;
-          }
-
-          setCurrentRoomId(openingRoom.id);
-          setCurrentArea(openingRoom.name);
-          setCurrentStructure(openingRoom.structure || "Main Dwelling");
-
-          const allOpeningsRes = await fetch(`/api/inspection/${sessionId}/rooms/${openingRoom.id}/openings`, { headers: openHeaders });
-          const allOpenings = allOpeningsRes.ok ? await allOpeningsRes.json() : [];
-          const totalDeductionSF = allOpenings.reduce(
-            (sum: number, o: any) => sum + ((o.widthFt || o.width || 0) * (o.heightFt || o.height || 0) * (o.quantity || 1)), 0
-          );
-          const typeLabel = args.openingType.replace(/_/g, " ");
-          const opensLabel = args.opensInto === "E" ? "exterior" : args.opensInto ? `into ${args.opensInto}` : "";
-          const qtyLabel = openQuantity > 1 ? ` ×${openQuantity}` : "";
-          await refreshRooms();
-          result = {
-            success: true,
-            openingId: opening.id,
-            normalizedArgs: {
-              widthFt: normalizedWidthFt,
-              heightFt: normalizedHeightFt,
-              wallDirection,
-              quantity: openQuantity,
-            },
-            message: `Added ${typeLabel}${qtyLabel} (${normalizedWidthFt}' × ${normalizedHeightFt}')${opensLabel ? ` opening ${opensLabel}` : ""} to "${openingRoom.name}". Total wall deductions for this room: ${totalDeductionSF.toFixed(0)} SF.`,
-          };
-          break;
-        }
-
-        case "update_opening": {
-          if (!sessionId) { result = toolValidationError("No active inspection session.", { sessionId }, "Start or resume an inspection session, then retry update_opening."); break; }
-          const headers = await getAuthHeaders();
-          const rooms = await fetchFreshRooms();
-
-          let targetRoom = null as any;
-          if (args.roomName) {
-            targetRoom = rooms.find((r) => r.name === args.roomName) || rooms.find((r) => r.name.toLowerCase() === String(args.roomName).toLowerCase());
-          }
-          if (!targetRoom && currentRoomId) targetRoom = rooms.find((r) => r.id === currentRoomId);
-          if (!targetRoom) {
-            result = toolValidationError("Unable to resolve room for update_opening.", { roomName: args.roomName }, "Provide roomName that exists or select a room first.");
-            break;
-          }
-
-          const openingsRes = await fetch(`/api/inspection/${sessionId}/rooms/${targetRoom.id}/openings`, { headers });
-          const openings = openingsRes.ok ? await openingsRes.json() : [];
-          const selectorType = (args.openingType || "").toLowerCase();
-          const selectorWall = normalizeWallDirection(args.wallDirection);
-          const matches = openings.filter((o: any) => {
-            if (args.openingId && o.id === args.openingId) return true;
-            const typeMatch = selectorType ? String(o.openingType || "").toLowerCase() === selectorType : true;
-            const wallMatch = selectorWall ? normalizeWallDirection(o.wallDirection) === selectorWall : true;
-            return typeMatch && wallMatch;
-          });
-          const index = Number.isInteger(args.index) ? Math.max(0, args.index) : 0;
-          const target = matches[index];
-          if (!target) {
-            result = toolValidationError(
-              "No opening matched update selector.",
-              { roomName: targetRoom.name, selector: { openingId: args.openingId, openingType: args.openingType, wallDirection: args.wallDirection, index: args.index }, openings },
-              "Provide openingId, or refine selector with openingType/wallDirection/index.",
-            );
-            break;
-          }
-
-          setCurrentRoomId(targetRoom.id);
-          setCurrentArea(targetRoom.name);
-          setCurrentStructure(targetRoom.structure || "Main Dwelling");
-
-          const patchBody: Record<string, unknown> = {};
-          if (args.openingType) patchBody.openingType = args.openingType;
-          if (args.wallDirection) patchBody.wallDirection = selectorWall;
-          if (args.wallIndex !== undefined) patchBody.wallIndex = args.wallIndex;
-          if (args.positionOnWall !== undefined) {
-            let pos = Number(args.positionOnWall);
-            if (pos > 1) {
-              const wallLengthFt = targetRoom.widthFt || targetRoom.lengthFt || 10;
-              const fraction = Math.min(1, Math.max(0, pos / wallLengthFt));
-              patchBody.positionOnWall = Math.round(fraction * 100) / 100;
-              const existingNotes = args.notes || "";
-              const distNote = `${pos} ft from corner`;
-              patchBody.notes = existingNotes ? `${existingNotes}; ${distNote}` : distNote;
-            } else {
-              patchBody.positionOnWall = Math.min(1, Math.max(0, pos));
-            }
-          }
-          if (args.quantity !== undefined) patchBody.quantity = args.quantity;
-          if (args.label !== undefined) patchBody.label = args.label;
-          if (args.opensInto !== undefined) patchBody.opensInto = args.opensInto;
-          if (args.notes !== undefined && !patchBody.notes) patchBody.notes = args.notes;
-          if (args.widthFt !== undefined || args.width !== undefined) patchBody.widthFt = parseFeetValue(args.widthFt) ?? parseFeetValue(args.width);
-          if (args.heightFt !== undefined || args.height !== undefined) patchBody.heightFt = parseFeetValue(args.heightFt) ?? parseFeetValue(args.height);
-
-          const patchRes = await fetch(`/api/inspection/${sessionId}/rooms/${targetRoom.id}/openings/${target.id}`, {
-            method: "PATCH",
-            headers: { ...headers, "Content-Type": "application/json" },
-            body: JSON.stringify(patchBody),
-          });
-          const patchJson = await patchRes.json();
-          if (!patchRes.ok) {
-            result = isWorkflowRejection(patchJson) ? patchJson : toolApiError(
-              patchJson.message || "Failed to update opening",
-              { status: patchRes.status, response: patchJson, patchBody, openingId: target.id },
-              "Retry update_opening with valid fields and converted widthFt/heightFt values.",
-            );
-            break;
-          }
-
-          await refreshRooms();
-          result = { success: true, openingId: target.id, updated: patchJson, message: `Updated opening ${target.id} in ${targetRoom.name}.` };
-          break;
-        }
-
-        case "delete_opening": {
-          if (!sessionId) { result = toolValidationError("No active inspection session.", { sessionId }, "Start or resume an inspection session, then retry delete_opening."); break; }
-          const headers = await getAuthHeaders();
-          const rooms = await fetchFreshRooms();
-          const targetRoom = rooms.find((r) => r.name === args.roomName) || rooms.find((r) => r.name.toLowerCase() === String(args.roomName || "").toLowerCase()) || rooms.find((r) => r.id === currentRoomId);
-          if (!targetRoom) {
-            result = toolValidationError("Unable to resolve room for delete_opening.", { roomName: args.roomName }, "Provide roomName that exists or select a room first.");
-            break;
-          }
-          setCurrentRoomId(targetRoom.id);
-          setCurrentArea(targetRoom.name);
-          setCurrentStructure(targetRoom.structure || "Main Dwelling");
-
-          const openingsRes = await fetch(`/api/inspection/${sessionId}/rooms/${targetRoom.id}/openings`, { headers });
-          const openings = openingsRes.ok ? await openingsRes.json() : [];
-          const selectorType = (args.openingType || "").toLowerCase();
-          const selectorWall = normalizeWallDirection(args.wallDirection);
-          const matches = openings.filter((o: any) => {
-            if (args.openingId && o.id === args.openingId) return true;
-            const typeMatch = selectorType ? String(o.openingType || "").toLowerCase() === selectorType : true;
-            const wallMatch = selectorWall ? normalizeWallDirection(o.wallDirection) === selectorWall : true;
-            return typeMatch && wallMatch;
-          });
-          const index = Number.isInteger(args.index) ? Math.max(0, args.index) : 0;
-          const target = matches[index];
-          if (!target) {
-            result = toolValidationError(
-              "No opening matched delete selector.",
-              { roomName: targetRoom.name, selector: { openingId: args.openingId, openingType: args.openingType, wallDirection: args.wallDirection, index: args.index }, openings },
-              "Provide openingId, or refine selector with openingType/wallDirection/index.",
-            );
-            break;
-          }
-
-          const delRes = await fetch(`/api/inspection/${sessionId}/rooms/${targetRoom.id}/openings/${target.id}`, { method: "DELETE", headers });
-          if (!delRes.ok) {
-            const err = await delRes.json().catch(() => ({}));
-            result = isWorkflowRejection(err) ? err : toolApiError(
-              err.message || "Failed to delete opening",
-              { status: delRes.status, response: err, openingId: target.id },
-              "Retry delete_opening with a valid openingId or selector.",
-            );
-            break;
-          }
-
-          await refreshRooms();
-          result = { success: true, openingId: target.id, message: `Deleted opening ${target.id} from ${targetRoom.name}.` };
-          break;
-        }
-
-        case "set_room_adjacency": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const adjRooms = await fetchFreshRooms();
-          const adjRoomA = adjRooms.find(r => r.name === args.roomNameA);
-          const adjRoomB = adjRooms.find(r => r.name === args.roomNameB);
-          if (!adjRoomA) { result = { error: `Room "${args.roomNameA}" not found. Create it first with create_room.` }; break; }
-          if (!adjRoomB) { result = { error: `Room "${args.roomNameB}" not found. Create it first with create_room. I'll remember to link these rooms once "${args.roomNameB}" is created.` }; break; }
-          const adjHeaders = await getJsonHeaders();
-          const adjRes = await fetch(`/api/sessions/${sessionId}/adjacencies`, {
-            method: "POST",
-            headers: adjHeaders,
-            body: JSON.stringify({
-              roomIdA: adjRoomA.id,
-              roomIdB: adjRoomB.id,
-              wallDirectionA: args.wallDirectionA || null,
-              wallDirectionB: args.wallDirectionB || null,
-              sharedWallLengthFt: args.sharedWallLengthFt || null,
-            }),
-          });
-          if (!adjRes.ok) {
-            const adjErr = await adjRes.json();
-            result = { success: true, message: adjErr.error || `${args.roomNameA} and ${args.roomNameB} are already linked.` };
-            break;
-          }
-          const adjacency = await adjRes.json();
-          result = {
-            success: true,
-            adjacencyId: adjacency.id,
-            message: `Linked ${args.roomNameA} ↔ ${args.roomNameB}${args.wallDirectionA ? ` (${args.wallDirectionA} wall)` : ""}`,
-          };
-          break;
-        }
-
-        case "update_room_dimensions": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const dimRooms = await fetchFreshRooms();
-          const dimRoom = dimRooms.find(r => r.name === args.roomName);
-          if (!dimRoom) { result = { error: `Room "${args.roomName}" not found. Create it first with create_room.` }; break; }
-          const dimHeaders = await getJsonHeaders();
-          const dimBody: Record<string, any> = {};
-          if (args.length !== undefined) dimBody.length = args.length;
-          if (args.width !== undefined) dimBody.width = args.width;
-          if (args.height !== undefined) dimBody.height = args.height;
-          if (args.ceilingType !== undefined) dimBody.ceilingType = args.ceilingType;
-          const dimRes = await fetch(`/api/rooms/${dimRoom.id}/dimensions`, {
-            method: "PATCH",
-            headers: dimHeaders,
-            body: JSON.stringify(dimBody),
-          });
-          if (!dimRes.ok) {
-            result = { success: false, error: "Failed to update dimensions" };
-            break;
-          }
-          const updatedDimRoom = await dimRes.json();
-          const newDims = updatedDimRoom.dimensions || dimBody;
-          const rescopedCount = updatedDimRoom.rescopedItems || 0;
-          await refreshRooms();
-          if (rescopedCount > 0) await refreshLineItems();
-          result = {
-            success: true,
-            dimensions: newDims,
-            rescopedItems: rescopedCount,
-            message: `Updated ${args.roomName}: ${newDims.length || '?'}'×${newDims.width || '?'}'×${newDims.height || 8}'${newDims.dimVars ? ` (${newDims.dimVars.W} SF walls, ${newDims.dimVars.F} SF floor)` : ""}${rescopedCount > 0 ? `. ${rescopedCount} scope items updated with new quantities.` : ""}`,
-          };
-          break;
-        }
-
-        case "add_sketch_annotation": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const freshAnnotRooms = await fetchFreshRooms();
-          const annotRoom = freshAnnotRooms.find(r => r.name === args.roomName);
-          if (!annotRoom) {
-            result = { success: false, error: `Room "${args.roomName}" not found` };
-            break;
-          }
-          const annotHeaders = await getJsonHeaders();
-          const annotRes = await fetch(`/api/inspection/${sessionId}/rooms/${annotRoom.id}/annotations`, {
-            method: "POST",
-            headers: annotHeaders,
-            body: JSON.stringify({
-              annotationType: args.annotationType,
-              label: args.label,
-              value: args.value,
-              location: args.location,
-            }),
-          });
-          const annotation = await annotRes.json();
-          if (!annotRes.ok) {
-            result = isWorkflowRejection(annotation) ? annotation : { success: false, error: annotation.message || "Failed to add annotation" };
-            break;
-          }
-          result = {
-            success: true,
-            annotationId: annotation.id,
-            message: `Annotation "${args.label}: ${args.value}" added to "${args.roomName}".`,
-          };
-          break;
-        }
-
-        case "complete_room": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const freshCompleteRooms = await fetchFreshRooms();
-          const roomToComplete = freshCompleteRooms.find((r) => r.name === args.roomName);
-          if (roomToComplete) {
-            const completeHeaders = await getJsonHeaders();
-            await fetch(`/api/inspection/${sessionId}/rooms/${roomToComplete.id}/complete`, { method: "POST", headers: completeHeaders });
-            await refreshRooms();
-          }
-          result = { success: true, roomName: args.roomName };
-          break;
-        }
-
-        case "add_damage": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          // Resolve room: prefer explicit roomName, fall back to currentRoomId
-          let damageRoomId = currentRoomId;
-          if (args.roomName) {
-            const freshDmgRooms = await fetchFreshRooms();
-            const foundDmgRoom = freshDmgRooms.find(r => r.name === args.roomName);
-            if (foundDmgRoom) {
-              damageRoomId = foundDmgRoom.id;
-            } else {
-              result = { success: false, error: `Room "${args.roomName}" not found. Create it first with create_room.` };
-              break;
-            }
-          }
-          if (!damageRoomId) {
-            result = { success: false, error: "No room selected. Tell me which room the damage is in, or create a room first." };
-            break;
-          }
-          const measurements: any = {};
-          if (args.extent) measurements.extent = args.extent;
-          if (args.hitCount) measurements.hitCount = args.hitCount;
-          const damageBody = {
-            roomId: damageRoomId,
-            description: args.description,
-            damageType: args.damageType,
-            severity: args.severity,
-            location: args.location,
-            measurements: Object.keys(measurements).length > 0 ? measurements : undefined,
-          };
-          const damageRes = await resilientMutation(
-            "POST",
-            `/api/inspection/${sessionId}/damages`,
-            damageBody,
-            { label: `Record damage: ${args.description?.substring?.(0, 40) ?? "damage"}` }
-          );
-          const json = await damageRes.json();
-          if (damageRes.status === 202 && json.queued) {
-            result = { success: true, queued: true, message: "Damage will be recorded when connected." };
-            break;
-          }
-          const damage = json.damage ?? json;
-          await refreshRooms();
-
-          const autoScope = json.autoScope;
-          if (autoScope && autoScope.itemsCreated > 0) {
-            await refreshLineItems();
-            setAutoScopeNotification({
-              visible: true,
-              count: autoScope.itemsCreated,
-              items: autoScope.items || [],
-              warnings: autoScope.warnings || [],
-            });
-            setTimeout(() => setAutoScopeNotification((prev) => ({ ...prev, visible: false })), 8000);
-          }
-
-          result = {
-            success: true,
-            damageId: damage.id,
-            autoScope: autoScope ? {
-              itemsCreated: autoScope.itemsCreated,
-              summary: autoScope.items?.map((i: any) =>
-                `${i.code}: ${i.description} — ${i.quantity} ${i.unit} @ $${Number(i.unitPrice ?? 0).toFixed(2)} = $${Number(i.totalPrice ?? 0).toFixed(2)} [${i.source}]`
-              ).join("\n") || "No items matched",
-              warnings: autoScope.warnings,
-              dimensionsAvailable: autoScope.dimensionsAvailable,
-              dimensionWarning: autoScope.dimensionWarning,
-            } : undefined,
-          };
-          break;
-        }
-
-        case "add_line_item": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const { category, action, description, catalogCode, quantity, unit, unitPrice, depreciationType, wasteFactor } = args;
-
-          let finalUnitPrice = unitPrice || 0;
-          let finalUnit = unit || "EA";
-          let finalWasteFactor = wasteFactor || 0;
-          let isCodeUpgradeItem = false;
-          let catalogWarning: string | undefined;
-
-          if (catalogCode) {
-            try {
-              const catalogHeaders = await getAuthHeaders();
-              const catalogRes = await fetch(`/api/pricing/catalog/search?q=${encodeURIComponent(catalogCode)}`, { headers: catalogHeaders });
-              if (catalogRes.ok) {
-                const catalogItems = await catalogRes.json();
-                const matched = catalogItems.find((item: any) => item.code === catalogCode);
-                if (matched) {
-                  if (matched.isCodeUpgrade) {
-                    isCodeUpgradeItem = true;
-                  }
-                  const priceRes = await fetch(`/api/pricing/scope`, {
-                    method: "POST",
-                    headers: catalogHeaders,
-                    body: JSON.stringify({
-                      items: [{ code: catalogCode, quantity: quantity || 1 }],
-                      regionId: "US_NATIONAL",
-                      taxRate: 0.08,
-                    }),
-                  });
-                  if (priceRes.ok) {
-                    const priceData = await priceRes.json();
-                    if (priceData.items && priceData.items.length > 0) {
-                      const priced = priceData.items[0];
-                      finalUnitPrice = priced.unitPriceBreakdown.unitPrice;
-                      finalUnit = matched.unit || "EA";
-                      finalWasteFactor = matched.defaultWasteFactor || 0;
-                    }
-                  } else {
-                    catalogWarning = `Pricing lookup failed for ${catalogCode}; using provided price $${unitPrice || 0}.`;
-                  }
-                } else {
-                  catalogWarning = `Catalog code "${catalogCode}" not found; using provided price $${unitPrice || 0}.`;
-                }
-              }
-            } catch (e) {
-              logger.warn("Voice", "Catalog lookup failed, falling back to provided price", e);
-              catalogWarning = `Catalog lookup error for ${catalogCode}; using provided price $${unitPrice || 0}.`;
-            }
-          }
-
-          const effectiveDepType = isCodeUpgradeItem
-            ? "Paid When Incurred"
-            : (depreciationType || "Recoverable");
-
-          let lineRoomId = args.roomId || currentRoomId;
-          if (!lineRoomId && args.roomName) {
-            const freshLineRooms = await fetchFreshRooms();
-            const foundLineRoom = freshLineRooms.find(r => r.name.toLowerCase() === args.roomName.toLowerCase())
-              || freshLineRooms.find(r => r.name.toLowerCase().includes(args.roomName.toLowerCase()));
-            if (foundLineRoom) lineRoomId = foundLineRoom.id;
-          }
-
-          const qty = quantity || 1;
-          const totalPrice = qty * finalUnitPrice * (1 + (finalWasteFactor || 0) / 100);
-
-          const lineBody: Record<string, any> = {
-            roomId: lineRoomId,
-            damageId: args.damageId || null,
-            category: category || "General",
-            action: action || null,
-            description,
-            xactCode: catalogCode || null,
-            quantity: qty,
-            unit: finalUnit,
-            unitPrice: finalUnitPrice,
-            totalPrice,
-            depreciationType: effectiveDepType,
-            wasteFactor: finalWasteFactor,
-            coverageBucket: args.coverageBucket || args.coverage_bucket || undefined,
-            qualityGrade: args.quality_grade || undefined,
-            applyOAndP: args.apply_o_and_p || undefined,
-            age: args.age || undefined,
-            lifeExpectancy: args.lifeExpectancy || undefined,
-          };
-          const lineRes = await resilientMutation(
-            "POST",
-            `/api/inspection/${sessionId}/line-items`,
-            lineBody,
-            { label: `Add line item: ${description?.substring?.(0, 40) ?? "line item"}` }
-          );
-          const lineItem = await lineRes.json();
-          if (lineRes.status === 202 && lineItem.queued) {
-            result = { success: true, queued: true, message: "Line item will be added when connected." };
-            break;
-          }
-          await refreshLineItems();
-          result = {
-            success: true,
-            lineItemId: lineItem.id,
-            unitPrice: finalUnitPrice,
-            totalPrice,
-            description,
-            ...(catalogWarning ? { warning: catalogWarning } : {}),
-          };
-          break;
-        }
-
-        case "generate_scope": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const { damageId, roomId } = args;
-          if (!damageId || !roomId) {
-            result = { success: false, error: "damageId and roomId are required" };
-            break;
-          }
-          const scopeHeaders = await getAuthHeaders();
-          const scopeRes = await fetch(`/api/inspection/${sessionId}/scope/assemble`, {
-            method: "POST",
-            headers: scopeHeaders,
-            body: JSON.stringify({ roomId, damageId }),
-          });
-          const scopeData = await scopeRes.json();
-          if (!scopeRes.ok) {
-            result = { success: false, error: scopeData.message || "Scope assembly failed" };
-            break;
-          }
-          await refreshRooms();
-          await refreshLineItems();
-          result = {
-            success: true,
-            created: scopeData.created,
-            companions: scopeData.companions,
-            manualNeeded: scopeData.manualNeeded || [],
-            warnings: scopeData.warnings || [],
-            items: scopeData.items || [],
-            message: `Generated ${scopeData.created} scope items, ${scopeData.companions} companions.`,
-          };
-          break;
-        }
-
-        case "validate_scope": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const sid = args.sessionId ?? sessionId;
-          const valHeaders = await getAuthHeaders();
-          const valRes = await fetch(`/api/inspection/${sid}/scope/validate`, { headers: valHeaders });
-          const validation = await valRes.json();
-          if (!valRes.ok) {
-            result = { success: false, error: validation.message || "Validation failed" };
-            break;
-          }
-          result = {
-            success: true,
-            ...validation,
-            message: validation.valid
-              ? `Scope validation passed (score: ${validation.score})`
-              : `Scope has ${validation.errors?.length || 0} errors, ${validation.warnings?.length || 0} warnings.`,
-          };
-          break;
-        }
-
-        case "apply_peril_template": {
-          if (!sessionId || !args.roomId) { result = { success: false, error: "sessionId and roomId required" }; break; }
-          const tplHeaders = await getAuthHeaders();
-          const tplRes = await fetch(`/api/inspection/${sessionId}/scope/apply-template`, {
-            method: "POST",
-            headers: tplHeaders,
-            body: JSON.stringify({
-              roomId: args.roomId,
-              templateName: args.templateName,
-              includeAutoOnly: args.includeAutoOnly !== false,
-            }),
-          });
-          const tplData = await tplRes.json();
-          if (!tplRes.ok) {
-            result = { success: false, error: tplData.error || "Template application failed" };
-            break;
-          }
-          await refreshLineItems();
-          result = {
-            success: true,
-            templateName: tplData.templateName,
-            appliedCount: tplData.appliedCount,
-            appliedItems: tplData.appliedItems,
-            suggestedItems: tplData.suggestedItems,
-            message: `Applied ${tplData.appliedCount} items from "${tplData.templateName}".`,
-          };
-          break;
-        }
-
         case "trigger_photo_capture": {
           pendingPhotoCallRef.current = {
             call_id,
@@ -1692,786 +783,8 @@ export default function ActiveInspection({ params }: { params: { id: string } })
           return;
         }
 
-        case "add_water_classification": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const wcBody = {
-            waterSource: args.waterSource,
-            affectedArea: args.affectedArea,
-            visibleContamination: args.visibleContamination ?? false,
-            standingWaterStart: args.standingWaterStart,
-            standingWaterEnd: args.standingWaterEnd,
-            notes: args.notes,
-          };
-          const wcRes = await resilientMutation(
-            "POST",
-            `/api/inspection/${sessionId}/water-classification`,
-            wcBody,
-            { label: "Record water classification" }
-          );
-          const wcJson = await wcRes.json();
-          if (!wcRes.ok) {
-            result = { success: false, error: wcJson.message || "Failed to record water classification" };
-            break;
-          }
-          result = {
-            success: true,
-            classification: wcJson.classification,
-            companionsTriggered: wcJson.companionsTriggered || [],
-            message: `Water classified: Category ${wcJson.classification?.category}, Class ${wcJson.classification?.waterClass}. ${(wcJson.companionsTriggered?.length || 0) > 0 ? "Companion rules triggered." : ""}`,
-          };
-          break;
-        }
-
-        case "log_moisture_reading": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          let moistureRoomId = currentRoomId;
-          if (args.roomName) {
-            const freshMoistureRooms = await fetchFreshRooms();
-            const foundMoistureRoom = freshMoistureRooms.find(r => r.name.toLowerCase() === args.roomName.toLowerCase())
-              || freshMoistureRooms.find(r => r.name.toLowerCase().includes(args.roomName.toLowerCase()));
-            if (foundMoistureRoom) moistureRoomId = foundMoistureRoom.id;
-          }
-          if (!moistureRoomId) { result = { success: false, error: "No room selected. Specify roomName or select a room first." }; break; }
-          const moistureHeaders = await getAuthHeaders();
-          const moistureRes = await fetch(`/api/inspection/${sessionId}/moisture`, {
-            method: "POST",
-            headers: moistureHeaders,
-            body: JSON.stringify({
-              roomId: moistureRoomId,
-              location: args.location,
-              reading: args.reading,
-              materialType: args.materialType,
-              dryStandard: args.dryStandard,
-            }),
-          });
-          if (!moistureRes.ok) {
-            const moistureErr = await moistureRes.json().catch(() => ({}));
-            result = { success: false, error: moistureErr.message || "Failed to log moisture reading" };
-            break;
-          }
-          const moistureStatus = args.reading > 17 ? "wet" : args.reading > 14 ? "caution" : "dry";
-          result = { success: true, reading: args.reading, status: moistureStatus, location: args.location };
-          break;
-        }
-
-        case "get_progress": {
-          if (!sessionId) { result = { success: false }; break; }
-          const progressHeaders = await getAuthHeaders();
-          const progressRes = await fetch(`/api/inspection/${sessionId}`, { headers: progressHeaders });
-          const progress = await progressRes.json();
-          result = {
-            totalRooms: progress.rooms.length,
-            completedRooms: progress.rooms.filter((r: any) => r.status === "complete").length,
-            currentPhase: progress.session.currentPhase,
-            totalPhotos: progress.photoCount,
-            totalLineItems: progress.lineItemCount,
-          };
-          break;
-        }
-
-        case "get_estimate_summary": {
-          if (!sessionId) { result = { success: false }; break; }
-          const estHeaders = await getAuthHeaders();
-          const estRes = await fetch(`/api/inspection/${sessionId}/estimate-summary`, { headers: estHeaders });
-          result = await estRes.json();
-          break;
-        }
-
-        case "get_completeness": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const compHeaders = await getAuthHeaders();
-          const compRes = await retryableFetch(
-            `/api/inspection/${sessionId}/completeness`,
-            { headers: compHeaders }
-          );
-          if (!compRes.ok) {
-            result = { success: false, error: "Could not retrieve completeness" };
-            break;
-          }
-          const completeness = await compRes.json();
-          const gaps = completeness.scopeGaps || [];
-          const missingPhotos = completeness.missingPhotos || [];
-          const recommendations = (completeness.checklist || [])
-            .filter((c: any) => !c.satisfied)
-            .map((c: any) => c.item);
-          let voiceSummary = `Overall completeness: ${completeness.completenessScore || 0}%.`;
-          if (gaps.length > 0) {
-            voiceSummary += ` Scope gaps in ${gaps.length} room(s): ${gaps.map((g: any) => g.room).join(", ")}.`;
-          }
-          if (missingPhotos.length > 0) {
-            voiceSummary += ` Missing photos for: ${missingPhotos.map((p: any) => p.room).join(", ")}.`;
-          }
-          if (recommendations.length > 0) {
-            voiceSummary += ` Recommendations: ${recommendations.slice(0, 3).join("; ")}.`;
-          }
-          result = {
-            success: true,
-            overallScore: completeness.completenessScore || 0,
-            summary: voiceSummary,
-            scopeGaps: gaps,
-            missingPhotos,
-            recommendations,
-            perilSpecific: completeness.perilSpecificChecks || [],
-          };
-          break;
-        }
-
-        case "confirm_damage_suggestion": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          let confirmRoomId = currentRoomId;
-          if (args.roomName) {
-            const freshConfirmRooms = await fetchFreshRooms();
-            const foundConfirmRoom = freshConfirmRooms.find(r => r.name.toLowerCase() === args.roomName.toLowerCase())
-              || freshConfirmRooms.find(r => r.name.toLowerCase().includes(args.roomName.toLowerCase()));
-            if (foundConfirmRoom) confirmRoomId = foundConfirmRoom.id;
-          }
-          if (!confirmRoomId) {
-            result = { success: false, error: "No room selected. Specify roomName or select a room first." };
-            break;
-          }
-          if (!args.confirmed) {
-            result = { success: true, action: "rejected", message: "Damage suggestion dismissed" };
-            break;
-          }
-          const confirmHeaders = await getAuthHeaders();
-          const confirmRes = await fetch(`/api/inspection/${sessionId}/damages`, {
-            method: "POST",
-            headers: confirmHeaders,
-            body: JSON.stringify({
-              roomId: confirmRoomId,
-              description: `Photo-detected ${args.damageType}${args.location ? ` at ${args.location}` : ""}`,
-              damageType: args.damageType,
-              severity: args.severity || "moderate",
-              location: args.location || undefined,
-            }),
-          });
-          const confirmData = await confirmRes.json();
-          await refreshRooms();
-          const autoScope = confirmData.autoScope || null;
-          result = {
-            success: true,
-            action: "confirmed",
-            damageId: confirmData.damage?.id || confirmData.id,
-            autoScope: autoScope ? {
-              itemsCreated: autoScope.itemsCreated,
-              summary: autoScope.items?.map((i: any) =>
-                `${i.code}: ${i.description} — ${i.quantity} ${i.unit} @ $${Number(i.unitPrice ?? 0).toFixed(2)}`
-              ).join("\n") || "No items matched",
-              warnings: autoScope.warnings,
-            } : undefined,
-          };
-          if (autoScope?.itemsCreated > 0) {
-            await refreshLineItems();
-            await refreshEstimate();
-          }
-          break;
-        }
-
-        case "get_scope_gaps": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const gapHeaders = await getAuthHeaders();
-          const gapUrl = args.roomId
-            ? `/api/inspection/${sessionId}/completeness?roomId=${args.roomId}`
-            : `/api/inspection/${sessionId}/completeness`;
-          const gapRes = await fetch(gapUrl, { headers: gapHeaders });
-          if (!gapRes.ok) {
-            result = { success: false, error: "Could not retrieve scope gaps" };
-            break;
-          }
-          const gapData = await gapRes.json();
-          const gaps = gapData.scopeGaps || [];
-          let gapSummary = gaps.length === 0
-            ? "No scope gaps found — all documented damages have corresponding line items."
-            : `Found ${gaps.length} scope gap(s): ` +
-              gaps.map((g: any) => `${g.room}: ${g.issue}`).join("; ");
-          result = {
-            success: true,
-            gapCount: gaps.length,
-            summary: gapSummary,
-            gaps,
-            companionOmissions: gapData.companionOmissions || [],
-          };
-          break;
-        }
-
-        case "request_phase_validation": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const valHeaders = await getAuthHeaders();
-          const valRes = await retryableFetch(
-            `/api/inspection/${sessionId}/validate-phase`,
-            { headers: valHeaders }
-          );
-          if (!valRes.ok) {
-            result = { success: false, error: "Could not validate phase" };
-            break;
-          }
-          const validation = await valRes.json();
-          let valSummary = `Phase ${validation.currentPhase} completion: ${validation.completionScore}%.`;
-          if (validation.warnings?.length > 0) {
-            valSummary += ` Warnings: ${validation.warnings.join("; ")}`;
-          }
-          if (validation.missingItems?.length > 0) {
-            valSummary += ` Missing: ${validation.missingItems.join("; ")}`;
-          }
-          if (!validation.warnings?.length) {
-            valSummary += " All clear — ready to advance.";
-          }
-          result = {
-            success: true,
-            currentPhase: validation.currentPhase,
-            nextPhase: validation.nextPhase,
-            completionScore: validation.completionScore,
-            warnings: validation.warnings || [],
-            missingItems: validation.missingItems || [],
-            summary: valSummary,
-            canProceed: validation.canProceed,
-          };
-          break;
-        }
-
-        case "apply_smart_macro": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const macroHeaders = await getAuthHeaders();
-          const macroRes = await fetch(`/api/inspection/${sessionId}/smart-macro`, {
-            method: "POST",
-            headers: macroHeaders,
-            body: JSON.stringify({
-              macroType: args.macro_type,
-              severity: args.severity || "average",
-              wasteFactor: args.waste_factor,
-              roomId: currentRoomId,
-            }),
-          });
-          const macroData = await macroRes.json();
-          if (!macroRes.ok) {
-            result = { success: false, error: macroData.message || "Failed to apply smart macro" };
-            break;
-          }
-          await refreshLineItems();
-          result = {
-            success: true,
-            macroType: args.macro_type,
-            itemCount: macroData.itemCount,
-            message: macroData.message,
-          };
-          break;
-        }
-
-        case "check_related_items": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const relatedHeaders = await getAuthHeaders();
-          const relatedRes = await fetch(`/api/inspection/${sessionId}/check-related-items`, {
-            method: "POST",
-            headers: relatedHeaders,
-            body: JSON.stringify({
-              primaryCategory: args.primary_category,
-              actionTaken: args.action_taken,
-            }),
-          });
-          const relatedData = await relatedRes.json();
-          if (!relatedRes.ok) {
-            result = { success: false, error: relatedData.message || "Failed to check related items" };
-            break;
-          }
-          result = {
-            success: true,
-            suggestions: relatedData.suggestions,
-            message: relatedData.message,
-          };
-          break;
-        }
-
-        case "log_test_square": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const tsRoom = args.room_id ? rooms.find(r => r.name === args.room_id || String(r.id) === String(args.room_id)) : null;
-          const tsHeaders = await getAuthHeaders();
-          const tsRes = await fetch(`/api/inspection/${sessionId}/test-squares`, {
-            method: "POST",
-            headers: tsHeaders,
-            body: JSON.stringify({
-              roomId: tsRoom?.id || currentRoomId,
-              hailHits: args.hail_hits,
-              windCreases: args.wind_creases || 0,
-              pitch: args.pitch,
-              result: args.result,
-              notes: args.notes,
-            }),
-          });
-          const tsData = await tsRes.json();
-          if (!tsRes.ok) {
-            result = { success: false, error: tsData.message || "Failed to log test square" };
-            break;
-          }
-          result = {
-            success: true,
-            testSquareId: tsData.id,
-            hailHits: args.hail_hits,
-            pitch: args.pitch,
-            result: tsData.result,
-            analysis: tsData._analysis,
-            message: `Test square logged: ${args.hail_hits} hail hits at ${args.pitch} pitch. ${tsData._analysis?.recommendation || ""}`,
-          };
-          break;
-        }
-
-        case "skip_step": {
-          if (!args.passwordConfirmed) {
-            result = { success: false, error: "Voice password not confirmed. Ask the adjuster to say the voice password before skipping." };
-            break;
-          }
-          const skipDescription = args.stepDescription || "Unknown step";
-          const skipReason = args.reason || "Adjuster request";
-          addTranscriptEntry("agent", `Step skipped: ${skipDescription} (${skipReason})`);
-          result = {
-            success: true,
-            skipped: skipDescription,
-            reason: skipReason,
-            message: `Skipped "${skipDescription}". Proceed to next step.`,
-            nextAction: "Call get_inspection_state to see current progress, then advance to the next phase or area in the flow. Prompt the adjuster for what comes next.",
-          };
-          break;
-        }
-
-        case "update_line_item": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const { lineItemId: updateLiId, ...updateFields } = args;
-          if (!updateLiId) { result = { success: false, error: "lineItemId is required" }; break; }
-          const updateBody: Record<string, any> = {};
-          if (updateFields.quantity !== undefined) updateBody.quantity = String(updateFields.quantity);
-          if (updateFields.unitPrice !== undefined) updateBody.unitPrice = String(updateFields.unitPrice);
-          if (updateFields.description !== undefined) updateBody.description = updateFields.description;
-          if (updateFields.unit !== undefined) updateBody.unit = updateFields.unit;
-          if (updateFields.age !== undefined) updateBody.age = updateFields.age;
-          if (updateFields.depreciationType !== undefined) updateBody.depreciationType = updateFields.depreciationType;
-          // Recalculate totalPrice if quantity or unitPrice changed
-          if (updateBody.quantity !== undefined || updateBody.unitPrice !== undefined) {
-            try {
-              const liHeaders = await getAuthHeaders();
-              const existingRes = await fetch(`/api/inspection/${sessionId}/line-items`, { headers: liHeaders });
-              if (existingRes.ok) {
-                const allLiItems = await existingRes.json();
-                const existingItem = allLiItems.find((i: any) => i.id === updateLiId);
-                if (existingItem) {
-                  const newQty = updateBody.quantity !== undefined ? parseFloat(updateBody.quantity) : parseFloat(existingItem.quantity || "1");
-                  const newUp = updateBody.unitPrice !== undefined ? parseFloat(updateBody.unitPrice) : parseFloat(existingItem.unitPrice || "0");
-                  const waste = existingItem.wasteFactor || 0;
-                  updateBody.totalPrice = String((newQty * newUp * (1 + waste / 100)).toFixed(2));
-                }
-              }
-            } catch (e) {
-              logger.warn("Voice", "Price recalculation failed, total may be stale", e);
-            }
-          }
-          const updateLiHeaders = await getAuthHeaders();
-          const updateLiRes = await fetch(`/api/inspection/${sessionId}/line-items/${updateLiId}`, {
-            method: "PATCH",
-            headers: updateLiHeaders,
-            body: JSON.stringify(updateBody),
-          });
-          if (!updateLiRes.ok) {
-            const updateLiErr = await updateLiRes.json().catch(() => ({}));
-            result = isWorkflowRejection(updateLiErr) ? updateLiErr : { success: false, error: updateLiErr.message || "Failed to update line item" };
-            break;
-          }
-          const updatedLi = await updateLiRes.json();
-          await refreshLineItems();
-          result = {
-            success: true,
-            lineItemId: updatedLi.id,
-            description: updatedLi.description,
-            quantity: updatedLi.quantity,
-            unitPrice: updatedLi.unitPrice,
-            totalPrice: updatedLi.totalPrice,
-            message: `Updated: ${updatedLi.description} — ${updatedLi.quantity} ${updatedLi.unit || ""} @ $${Number(updatedLi.unitPrice || 0).toFixed(2)} = $${Number(updatedLi.totalPrice || 0).toFixed(2)}`,
-          };
-          break;
-        }
-
-        case "remove_line_item": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const removeLiId = args.lineItemId;
-          if (!removeLiId) { result = { success: false, error: "lineItemId is required" }; break; }
-          const removeLiHeaders = await getAuthHeaders();
-          const removeLiRes = await fetch(`/api/inspection/${sessionId}/line-items/${removeLiId}`, {
-            method: "DELETE",
-            headers: removeLiHeaders,
-          });
-          if (!removeLiRes.ok) {
-            result = { success: false, error: "Failed to remove line item" };
-            break;
-          }
-          await refreshLineItems();
-          result = {
-            success: true,
-            message: `Line item ${removeLiId} removed${args.reason ? `: ${args.reason}` : ""}`,
-          };
-          break;
-        }
-
-        case "get_room_scope": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          let scopeTargetRoomId = args.roomId;
-          if (!scopeTargetRoomId && args.roomName) {
-            const freshScopeRooms = await fetchFreshRooms();
-            const foundScopeRoom = freshScopeRooms.find(r => r.name === args.roomName);
-            if (foundScopeRoom) scopeTargetRoomId = foundScopeRoom.id;
-          }
-          if (!scopeTargetRoomId) scopeTargetRoomId = currentRoomId;
-          if (!scopeTargetRoomId) {
-            result = { success: false, error: "No room specified or selected" };
-            break;
-          }
-          const scopeHeaders = await getAuthHeaders();
-          const scopeRes = await fetch(`/api/inspection/${sessionId}/line-items`, { headers: scopeHeaders });
-          if (!scopeRes.ok) {
-            result = { success: false, error: "Failed to fetch line items" };
-            break;
-          }
-          const allScopeItems = await scopeRes.json();
-          const roomScopeItems = allScopeItems.filter((i: any) => i.roomId === scopeTargetRoomId);
-          const totalRCV = roomScopeItems.reduce((sum: number, i: any) => sum + parseFloat(i.totalPrice || "0"), 0);
-          result = {
-            success: true,
-            roomId: scopeTargetRoomId,
-            itemCount: roomScopeItems.length,
-            totalRCV: Math.round(totalRCV * 100) / 100,
-            items: roomScopeItems.map((i: any) => ({
-              id: i.id,
-              code: i.xactCode,
-              description: i.description,
-              quantity: i.quantity,
-              unit: i.unit,
-              unitPrice: i.unitPrice,
-              totalPrice: i.totalPrice,
-              source: i.provenance,
-            })),
-            summary: roomScopeItems.length > 0
-              ? roomScopeItems.map((i: any) => `${i.xactCode || "—"}: ${i.description} — ${i.quantity} ${i.unit || ""} @ $${Number(i.unitPrice || 0).toFixed(2)} = $${Number(i.totalPrice || 0).toFixed(2)}`).join("\n")
-              : "No items scoped for this room yet.",
-          };
-          break;
-        }
-
-        // ── Update Damage ──────────────────────────
-        case "update_damage": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          let updateDamageId = args.damageId;
-          if (!updateDamageId && args.roomName) {
-            const udRooms = await fetchFreshRooms();
-            const udRoom = udRooms.find((r: any) => r.name.toLowerCase() === args.roomName.toLowerCase())
-              || udRooms.find((r: any) => r.name.toLowerCase().includes(args.roomName.toLowerCase()));
-            if (udRoom) {
-              const udHeaders = await getAuthHeaders();
-              const udDamagesRes = await fetch(`/api/inspection/${sessionId}/damages?roomId=${udRoom.id}`, { headers: udHeaders });
-              if (udDamagesRes.ok) {
-                const udDamages = await udDamagesRes.json();
-                if (udDamages.length === 1) updateDamageId = udDamages[0].id;
-                else if (udDamages.length > 1) {
-                  result = { success: false, error: `Multiple damages in ${udRoom.name}. Specify damageId.`, damages: udDamages.map((d: any) => ({ id: d.id, description: d.description, damageType: d.damageType })) };
-                  break;
-                }
-              }
-            }
-          }
-          if (!updateDamageId) { result = { success: false, error: "Could not resolve damage. Provide damageId or roomName." }; break; }
-          const udBody: Record<string, any> = {};
-          if (args.description) udBody.description = args.description;
-          if (args.damageType) udBody.damageType = args.damageType;
-          if (args.severity) udBody.severity = args.severity;
-          if (args.location) udBody.location = args.location;
-          const udPatchHeaders = await getJsonHeaders();
-          const udPatchRes = await fetch(`/api/inspection/${sessionId}/damages/${updateDamageId}`, {
-            method: "PATCH", headers: udPatchHeaders, body: JSON.stringify(udBody),
-          });
-          if (!udPatchRes.ok) {
-            const udErr = await udPatchRes.json().catch(() => ({}));
-            result = { success: false, error: udErr.error || "Failed to update damage" };
-            break;
-          }
-          const udUpdated = await udPatchRes.json();
-          result = { success: true, damage: udUpdated, message: `Updated damage #${updateDamageId}.` };
-          break;
-        }
-
-        // ── Delete Damage ──────────────────────────
-        case "delete_damage": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          let delDamageId = args.damageId;
-          if (!delDamageId && args.roomName) {
-            const ddRooms = await fetchFreshRooms();
-            const ddRoom = ddRooms.find((r: any) => r.name.toLowerCase() === args.roomName.toLowerCase())
-              || ddRooms.find((r: any) => r.name.toLowerCase().includes(args.roomName.toLowerCase()));
-            if (ddRoom) {
-              const ddHeaders = await getAuthHeaders();
-              const ddDamagesRes = await fetch(`/api/inspection/${sessionId}/damages?roomId=${ddRoom.id}`, { headers: ddHeaders });
-              if (ddDamagesRes.ok) {
-                let ddDamages = await ddDamagesRes.json();
-                if (args.damageType) ddDamages = ddDamages.filter((d: any) => d.damageType === args.damageType);
-                if (ddDamages.length === 1) delDamageId = ddDamages[0].id;
-                else if (ddDamages.length > 1) {
-                  result = { success: false, error: `Multiple damages found. Specify damageId.`, damages: ddDamages.map((d: any) => ({ id: d.id, description: d.description })) };
-                  break;
-                }
-              }
-            }
-          }
-          if (!delDamageId) { result = { success: false, error: "Could not resolve damage. Provide damageId or roomName." }; break; }
-          const ddDelHeaders = await getAuthHeaders();
-          const ddDelRes = await fetch(`/api/inspection/${sessionId}/damages/${delDamageId}`, {
-            method: "DELETE", headers: ddDelHeaders,
-          });
-          if (!ddDelRes.ok) {
-            result = { success: false, error: "Failed to delete damage" };
-            break;
-          }
-          result = { success: true, message: `Deleted damage #${delDamageId}. Linked line items and photos keep their data but lose the damage link.` };
-          break;
-        }
-
-        // ── Update Test Square ──────────────────────────
-        case "update_test_square": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          if (!args.testSquareId) { result = { success: false, error: "testSquareId is required" }; break; }
-          const utsBody: Record<string, any> = {};
-          if (args.hailHits !== undefined) utsBody.hailHits = args.hailHits;
-          if (args.windCreases !== undefined) utsBody.windCreases = args.windCreases;
-          if (args.pitch) utsBody.pitch = args.pitch;
-          if (args.result) utsBody.result = args.result;
-          if (args.notes !== undefined) utsBody.notes = args.notes;
-          const utsHeaders = await getJsonHeaders();
-          const utsRes = await fetch(`/api/inspection/${sessionId}/test-squares/${args.testSquareId}`, {
-            method: "PATCH", headers: utsHeaders, body: JSON.stringify(utsBody),
-          });
-          if (!utsRes.ok) {
-            const utsErr = await utsRes.json().catch(() => ({}));
-            result = { success: false, error: utsErr.error || "Failed to update test square" };
-            break;
-          }
-          const utsUpdated = await utsRes.json();
-          result = { success: true, testSquare: utsUpdated, message: `Updated test square #${args.testSquareId}.` };
-          break;
-        }
-
-        // ── Delete Test Square ──────────────────────────
-        case "delete_test_square": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          if (!args.testSquareId) { result = { success: false, error: "testSquareId is required" }; break; }
-          const dtsHeaders = await getAuthHeaders();
-          const dtsRes = await fetch(`/api/inspection/${sessionId}/test-squares/${args.testSquareId}`, {
-            method: "DELETE", headers: dtsHeaders,
-          });
-          if (!dtsRes.ok) {
-            result = { success: false, error: "Failed to delete test square" };
-            break;
-          }
-          result = { success: true, message: `Deleted test square #${args.testSquareId}.` };
-          break;
-        }
-
-        // ── Update Moisture Reading ──────────────────────────
-        case "update_moisture_reading": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          if (!args.readingId) { result = { success: false, error: "readingId is required" }; break; }
-          const umrBody: Record<string, any> = {};
-          if (args.location) umrBody.location = args.location;
-          if (args.reading !== undefined) umrBody.reading = args.reading;
-          if (args.materialType) umrBody.materialType = args.materialType;
-          if (args.dryStandard !== undefined) umrBody.dryStandard = args.dryStandard;
-          const umrHeaders = await getJsonHeaders();
-          const umrRes = await fetch(`/api/inspection/${sessionId}/moisture/${args.readingId}`, {
-            method: "PATCH", headers: umrHeaders, body: JSON.stringify(umrBody),
-          });
-          if (!umrRes.ok) {
-            const umrErr = await umrRes.json().catch(() => ({}));
-            result = { success: false, error: umrErr.error || "Failed to update moisture reading" };
-            break;
-          }
-          const umrUpdated = await umrRes.json();
-          result = { success: true, reading: umrUpdated, message: `Updated moisture reading #${args.readingId}.` };
-          break;
-        }
-
-        // ── Delete Moisture Reading ──────────────────────────
-        case "delete_moisture_reading": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          if (!args.readingId) { result = { success: false, error: "readingId is required" }; break; }
-          const dmrHeaders = await getAuthHeaders();
-          const dmrRes = await fetch(`/api/inspection/${sessionId}/moisture/${args.readingId}`, {
-            method: "DELETE", headers: dmrHeaders,
-          });
-          if (!dmrRes.ok) {
-            result = { success: false, error: "Failed to delete moisture reading" };
-            break;
-          }
-          result = { success: true, message: `Deleted moisture reading #${args.readingId}.` };
-          break;
-        }
-
-        // ── Delete Scope Item ──────────────────────────
-        case "delete_scope_item": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          if (!args.scopeItemId) { result = { success: false, error: "scopeItemId is required" }; break; }
-          const dsiHeaders = await getAuthHeaders();
-          const dsiRes = await fetch(`/api/inspection/${sessionId}/scope/items/${args.scopeItemId}`, {
-            method: "DELETE", headers: dsiHeaders,
-          });
-          if (!dsiRes.ok) {
-            result = { success: false, error: "Failed to delete scope item" };
-            break;
-          }
-          result = { success: true, message: `Removed scope item #${args.scopeItemId} (soft-deleted — recoverable).` };
-          break;
-        }
-
-        // ── Delete Room ──────────────────────────
-        case "delete_room": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          if (!args.confirm) { result = { success: false, error: "Deletion requires confirm=true" }; break; }
-          let deleteRoomId = args.roomId;
-          if (!deleteRoomId && args.roomName) {
-            const drRooms = await fetchFreshRooms();
-            const drRoom = drRooms.find((r: any) => r.name.toLowerCase() === args.roomName.toLowerCase())
-              || drRooms.find((r: any) => r.name.toLowerCase().includes(args.roomName.toLowerCase()));
-            if (drRoom) deleteRoomId = drRoom.id;
-          }
-          if (!deleteRoomId) { result = { success: false, error: "Could not find room. Provide roomId or roomName." }; break; }
-          const drHeaders = await getAuthHeaders();
-          const drRes = await fetch(`/api/inspection/${sessionId}/rooms/${deleteRoomId}`, {
-            method: "DELETE", headers: drHeaders,
-          });
-          if (!drRes.ok) {
-            const drErr = await drRes.json().catch(() => ({}));
-            result = { success: false, error: drErr.message || "Failed to delete room" };
-            break;
-          }
-          await refreshRooms();
-          result = { success: true, message: `Deleted room #${deleteRoomId} and all its contents (openings, annotations, damages, moisture readings). Line items and scope items retain data but lost room link.` };
-          break;
-        }
-
-        // ── Update Structure ──────────────────────────
-        case "update_structure": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          let usStructureId = args.structureId;
-          if (!usStructureId && args.structureName) {
-            const usHeaders = await getAuthHeaders();
-            const usStructRes = await fetch(`/api/inspection/${sessionId}/structures`, { headers: usHeaders });
-            if (usStructRes.ok) {
-              const usStructures = await usStructRes.json();
-              const usMatch = usStructures.find((s: any) => s.name.toLowerCase() === args.structureName.toLowerCase())
-                || usStructures.find((s: any) => s.name.toLowerCase().includes(args.structureName.toLowerCase()));
-              if (usMatch) usStructureId = usMatch.id;
-            }
-          }
-          if (!usStructureId) { result = { success: false, error: "Could not find structure. Provide structureId or structureName." }; break; }
-          const usBody: Record<string, any> = {};
-          if (args.newName) usBody.name = args.newName;
-          if (args.structureType) usBody.structureType = args.structureType;
-          const usPatchHeaders = await getJsonHeaders();
-          const usPatchRes = await fetch(`/api/inspection/${sessionId}/structures/${usStructureId}`, {
-            method: "PATCH", headers: usPatchHeaders, body: JSON.stringify(usBody),
-          });
-          if (!usPatchRes.ok) {
-            const usErr = await usPatchRes.json().catch(() => ({}));
-            result = { success: false, error: usErr.message || "Failed to update structure" };
-            break;
-          }
-          const usUpdated = await usPatchRes.json();
-          result = { success: true, structure: usUpdated, message: `Updated structure #${usStructureId}.` };
-          break;
-        }
-
-        // ── Delete Structure ──────────────────────────
-        case "delete_structure": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          if (!args.confirm) { result = { success: false, error: "Deletion requires confirm=true" }; break; }
-          let dsStructureId = args.structureId;
-          if (!dsStructureId && args.structureName) {
-            const dsHeaders = await getAuthHeaders();
-            const dsStructRes = await fetch(`/api/inspection/${sessionId}/structures`, { headers: dsHeaders });
-            if (dsStructRes.ok) {
-              const dsStructures = await dsStructRes.json();
-              const dsMatch = dsStructures.find((s: any) => s.name.toLowerCase() === args.structureName.toLowerCase())
-                || dsStructures.find((s: any) => s.name.toLowerCase().includes(args.structureName.toLowerCase()));
-              if (dsMatch) dsStructureId = dsMatch.id;
-            }
-          }
-          if (!dsStructureId) { result = { success: false, error: "Could not find structure. Provide structureId or structureName." }; break; }
-          const cascade = args.cascade === true;
-          const dsDelHeaders = await getAuthHeaders();
-          const dsDelRes = await fetch(`/api/inspection/${sessionId}/structures/${dsStructureId}?cascade=${cascade}`, {
-            method: "DELETE", headers: dsDelHeaders,
-          });
-          if (!dsDelRes.ok) {
-            const dsErr = await dsDelRes.json().catch(() => ({}));
-            result = { success: false, error: dsErr.message || "Failed to delete structure" };
-            break;
-          }
-          await refreshRooms();
-          result = { success: true, message: `Deleted structure #${dsStructureId}${cascade ? " and all its rooms" : ""}.` };
-          break;
-        }
-
-        // ── List Photos ──────────────────────────
-        case "list_photos": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          const lpHeaders = await getAuthHeaders();
-          const lpRes = await fetch(`/api/inspection/${sessionId}/photos`, { headers: lpHeaders });
-          if (!lpRes.ok) {
-            result = { success: false, error: "Failed to fetch photos" };
-            break;
-          }
-          let lpPhotos = await lpRes.json();
-          if (args.roomName) {
-            const lpRooms = await fetchFreshRooms();
-            const lpRoom = lpRooms.find((r: any) => r.name.toLowerCase() === args.roomName.toLowerCase())
-              || lpRooms.find((r: any) => r.name.toLowerCase().includes(args.roomName.toLowerCase()));
-            if (lpRoom) lpPhotos = lpPhotos.filter((p: any) => p.roomId === lpRoom.id);
-          }
-          result = {
-            success: true,
-            count: lpPhotos.length,
-            photos: lpPhotos.map((p: any) => ({
-              id: p.id,
-              caption: p.caption || p.autoTag || "No caption",
-              photoType: p.photoType,
-              roomId: p.roomId,
-            })),
-            message: lpPhotos.length > 0
-              ? `Found ${lpPhotos.length} photo(s).`
-              : "No photos found.",
-          };
-          break;
-        }
-
-        // ── Delete Photo ──────────────────────────
-        case "delete_photo": {
-          if (!sessionId) { result = { success: false, error: "No session" }; break; }
-          if (!args.photoId) { result = { success: false, error: "photoId is required" }; break; }
-          if (!args.confirm) { result = { success: false, error: "Deletion requires confirm=true" }; break; }
-          const dpHeaders = await getAuthHeaders();
-          const dpRes = await fetch(`/api/inspection/${sessionId}/photos/${args.photoId}`, {
-            method: "DELETE", headers: dpHeaders,
-          });
-          if (!dpRes.ok) {
-            const dpErr = await dpRes.json().catch(() => ({}));
-            result = { success: false, error: dpErr.message || "Failed to delete photo" };
-            break;
-          }
-          result = { success: true, message: `Deleted photo #${args.photoId}.` };
-          break;
-        }
-
-        case "complete_inspection": {
-          if (!sessionId) { result = { success: false }; break; }
-          localStorage.removeItem(STORAGE_KEY);
-          result = { success: true, message: "Navigating to review page. The claim remains open until you explicitly mark it complete." };
-          setTimeout(() => setLocation(`/inspection/${claimId}/review`), 2000);
-          break;
-        }
-
         default:
-          result = { success: false, error: `Unknown tool: ${name}` };
+          result = isServerTool(name) ? await executeServerTool() : { success: false, error: `Unknown tool: ${name}` };
       }
     } catch (error: any) {
       logger.error("VoiceTool", `Tool execution error for ${name}`, error);
@@ -2491,7 +804,8 @@ export default function ActiveInspection({ params }: { params: { id: string } })
     logger.info("VoiceTool", `◀ ${name}`, { call_id, result });
     sendLogToServer(name, "result", { call_id, result });
     sendToolRoundTrip(result);
-  }, [sessionId, currentRoomId, fetchFreshRooms, refreshRooms, refreshLineItems, refreshEstimate, setLocation, getAuthHeaders, addTranscriptEntry, sendLogToServer, logVoiceTimeline]);
+    queryClient.invalidateQueries({ queryKey: [`/api/inspection/${sessionId}/commands`] });
+  }, [sessionId, claimId, refreshRooms, refreshLineItems, setLocation, addTranscriptEntry, sendLogToServer, logVoiceTimeline, queryClient]);
 
   const flushPendingToolCalls = useCallback(async () => {
     if (isDrainingToolQueueRef.current) return;
@@ -3403,6 +1717,28 @@ Say "One moment while I set things up" then immediately call get_inspection_stat
                 </Button>
               </>
             )}
+            <Button
+              size="sm"
+              variant="ghost"
+              className="text-muted-foreground hover:text-foreground h-8 px-2"
+              disabled={!commandHistory?.undo.length || historyMutation.isPending}
+              onClick={() => historyMutation.mutate("undo_last_action")}
+              title={commandHistory?.undo[0] ? `Undo: ${commandHistory.undo[0].label}` : "Nothing to undo"}
+              data-testid="button-undo"
+            >
+              <Undo2 size={14} />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="text-muted-foreground hover:text-foreground h-8 px-2"
+              disabled={!commandHistory?.redo.length || historyMutation.isPending}
+              onClick={() => historyMutation.mutate("redo")}
+              title={commandHistory?.redo[0] ? `Redo: ${commandHistory.redo[0].label}` : "Nothing to redo"}
+              data-testid="button-redo"
+            >
+              <Redo2 size={14} />
+            </Button>
             <Button size="sm" variant="ghost" className="text-muted-foreground hover:text-foreground h-8 w-8 p-0" onClick={() => setShowProgressTracker(true)} data-testid="button-progress-tracker-topbar">
               <Activity size={isMobile ? 18 : 14} />
             </Button>
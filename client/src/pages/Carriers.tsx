@@ -0,0 +1,256 @@
+import { useState } from "react";
+import Layout from "@/components/Layout";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowLeft, Building2, Loader2, Plus, Save } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useLocation } from "wouter";
+import { useAuth } from "@/contexts/AuthContext";
+
+// ── Types ─────────────────────────────────────────
+
+type DepreciationBasis = "rcv_full" | "rcv_before_op" | "materials_only";
+
+interface Carrier {
+  id: number;
+  code: string;
+  name: string;
+  xactnetCarrierId: string | null;
+  naicCode: string | null;
+  opThreshold: number;
+  taxOnOP: boolean;
+  taxOnLabor: boolean;
+  depreciationBasis: DepreciationBasis;
+  overheadPct: number;
+  profitPct: number;
+  opExcludedTrades: string[];
+  applyRoofSchedule: boolean;
+  laborEfficiency: number;
+  notes: string | null;
+  isActive: boolean;
+}
+
+type CarrierDraft = Omit<Carrier, "id">;
+
+const API = "/api/admin/carriers";
+
+const DEPRECIATION_BASIS_LABELS: Record<DepreciationBasis, string> = {
+  rcv_full: "Full RCV",
+  rcv_before_op: "RCV before O&P",
+  materials_only: "Materials only",
+};
+
+const EMPTY_CARRIER: CarrierDraft = {
+  code: "",
+  name: "",
+  xactnetCarrierId: null,
+  naicCode: null,
+  opThreshold: 3,
+  taxOnOP: false,
+  taxOnLabor: true,
+  depreciationBasis: "rcv_full",
+  overheadPct: 10,
+  profitPct: 10,
+  opExcludedTrades: [],
+  applyRoofSchedule: false,
+  laborEfficiency: 100,
+  notes: null,
+  isActive: true,
+};
+
+// ── Carrier Editor ────────────────────────────────
+
+function CarrierEditor({ carrier, canEdit, onSaved }: { carrier: Carrier | null; canEdit: boolean; onSaved: (c: Carrier) => void }) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<CarrierDraft>(() => {
+    if (!carrier) return EMPTY_CARRIER;
+    const { id: _id, ...rest } = carrier;
+    return rest;
+  });
+  const [excludedTrades, setExcludedTrades] = useState(draft.opExcludedTrades.join(", "));
+
+  const set = <K extends keyof CarrierDraft>(key: K, value: CarrierDraft[K]) => setDraft((d) => ({ ...d, [key]: value }));
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        ...draft,
+        opExcludedTrades: excludedTrades.split(",").map((t) => t.trim()).filter(Boolean),
+      };
+      const res = carrier
+        ? await apiRequest("PATCH", `${API}/${carrier.id}`, body)
+        : await apiRequest("POST", API, body);
+      return res.json() as Promise<Carrier>;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: [API] });
+      toast({ title: "Carrier saved", description: `${saved.name} (${saved.code})` });
+      onSaved(saved);
+    },
+    onError: (err: unknown) => {
+      toast({ title: "Error saving carrier", description: err instanceof Error ? err.message : "Unknown error", variant: "destructive" });
+    },
+  });
+
+  const numberField = (key: "opThreshold" | "overheadPct" | "profitPct" | "laborEfficiency", label: string) => (
+    <div>
+      <Label className="text-xs">{label}</Label>
+      <Input type="number" value={draft[key]} onChange={(e) => set(key, Number(e.target.value))} disabled={!canEdit} className="mt-1" />
+    </div>
+  );
+
+  const switchField = (key: "taxOnOP" | "taxOnLabor" | "applyRoofSchedule" | "isActive", label: string) => (
+    <label className="flex items-center justify-between gap-2 text-sm">
+      {label}
+      <Switch checked={draft[key]} onCheckedChange={(v) => set(key, v)} disabled={!canEdit} />
+    </label>
+  );
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label className="text-xs">Code</Label>
+          <Input value={draft.code} onChange={(e) => set("code", e.target.value.toUpperCase())} disabled={!canEdit} className="mt-1" placeholder="CARRIER_ACME" />
+        </div>
+        <div>
+          <Label className="text-xs">Name</Label>
+          <Input value={draft.name} onChange={(e) => set("name", e.target.value)} disabled={!canEdit} className="mt-1" />
+        </div>
+        <div>
+          <Label className="text-xs">XactNet carrier ID</Label>
+          <Input value={draft.xactnetCarrierId ?? ""} onChange={(e) => set("xactnetCarrierId", e.target.value || null)} disabled={!canEdit} className="mt-1" />
+        </div>
+        <div>
+          <Label className="text-xs">NAIC code</Label>
+          <Input value={draft.naicCode ?? ""} onChange={(e) => set("naicCode", e.target.value || null)} disabled={!canEdit} className="mt-1" />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {numberField("opThreshold", "O&P trade threshold")}
+        {numberField("overheadPct", "Overhead %")}
+        {numberField("profitPct", "Profit %")}
+        {numberField("laborEfficiency", "Labor efficiency %")}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label className="text-xs">Depreciation basis</Label>
+          <select
+            className="mt-1 w-full border border-border rounded-md px-2 py-2 bg-background text-sm"
+            value={draft.depreciationBasis}
+            onChange={(e) => set("depreciationBasis", e.target.value as DepreciationBasis)}
+            disabled={!canEdit}
+          >
+            {Object.entries(DEPRECIATION_BASIS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label className="text-xs">Trades excluded from O&P</Label>
+          <Input value={excludedTrades} onChange={(e) => setExcludedTrades(e.target.value)} disabled={!canEdit} className="mt-1" placeholder="MIT, DEM" />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-6 gap-y-2">
+        {switchField("taxOnLabor", "Tax labor")}
+        {switchField("taxOnOP", "Tax O&P")}
+        {switchField("applyRoofSchedule", "Roof depreciation schedule")}
+        {switchField("isActive", "Active")}
+      </div>
+
+      <div>
+        <Label className="text-xs">Notes</Label>
+        <Textarea value={draft.notes ?? ""} onChange={(e) => set("notes", e.target.value || null)} disabled={!canEdit} className="mt-1" rows={2} />
+      </div>
+
+      {canEdit && (
+        <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || !draft.code.trim() || !draft.name.trim()}>
+          {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Save className="h-4 w-4 mr-1" />}
+          Save Carrier
+        </Button>
+      )}
+    </Card>
+  );
+}
+
+// ── Main Page ─────────────────────────────────────
+
+export default function Carriers() {
+  const { role } = useAuth();
+  const [, setLocation] = useLocation();
+  const canEdit = role === "admin";
+  const [editing, setEditing] = useState<Carrier | "new" | null>(null);
+
+  const { data: carriers = [], isLoading } = useQuery<Carrier[]>({
+    queryKey: [API],
+  });
+
+  return (
+    <Layout title="Carriers">
+      <div className="p-4 max-w-3xl mx-auto pb-24">
+        <div className="flex items-center gap-3 mb-4">
+          <Button variant="ghost" size="icon" onClick={() => (editing ? setEditing(null) : setLocation("/settings"))}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-lg font-semibold flex items-center gap-2">
+              <Building2 className="h-5 w-5" />
+              {editing === "new" ? "New Carrier" : editing ? editing.name : "Carriers"}
+            </h1>
+            <p className="text-xs text-muted-foreground">
+              Carrier profiles set O&P, tax and depreciation rules for every claim assigned to them.
+            </p>
+          </div>
+          {!editing && canEdit && (
+            <Button size="sm" onClick={() => setEditing("new")}>
+              <Plus className="h-3 w-3 mr-1" /> New Carrier
+            </Button>
+          )}
+        </div>
+
+        {editing ? (
+          <CarrierEditor
+            key={editing === "new" ? "new" : editing.id}
+            carrier={editing === "new" ? null : editing}
+            canEdit={canEdit}
+            onSaved={() => setEditing(null)}
+          />
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : carriers.length === 0 ? (
+          <div className="text-center py-12">
+            <Building2 className="h-10 w-10 mx-auto mb-3 text-muted-foreground" />
+            <p className="text-muted-foreground text-sm">No carriers yet. Claims settle on the default rules.</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {carriers.map((c) => (
+              <Card key={c.id} className="p-3 cursor-pointer hover:bg-muted/50" onClick={() => setEditing(c)}>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate flex-1">{c.name}</span>
+                  {!c.isActive && <span className="text-[10px] uppercase rounded px-1.5 py-0.5 bg-muted text-muted-foreground">Inactive</span>}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {c.code} · O&P at {c.opThreshold}+ trades ({c.overheadPct}/{c.profitPct}) · {DEPRECIATION_BASIS_LABELS[c.depreciationBasis]}
+                  {!c.taxOnLabor && " · labor not taxed"}
+                  {c.applyRoofSchedule && " · roof schedule"}
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
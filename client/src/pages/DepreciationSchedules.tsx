@@ -0,0 +1,414 @@
+import { useEffect, useState } from "react";
+import Layout from "@/components/Layout";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { ArrowLeft, CalendarClock, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useLocation } from "wouter";
+import { useAuth } from "@/contexts/AuthContext";
+
+// ── Types ─────────────────────────────────────────
+
+interface CategoryEntry {
+  keywords: Array<{ match: string; life: number }>;
+  default: number;
+}
+
+interface RoofPaymentBand {
+  material: string;
+  maxAge: number;
+  paymentPercent: number;
+}
+
+interface VersionSummary {
+  id: number;
+  version: number;
+  effectiveFrom: string;
+  notes: string | null;
+  createdAt: string;
+}
+
+interface ScheduleVersion extends VersionSummary {
+  scheduleId: number;
+  lifeExpectancy: Record<string, CategoryEntry>;
+  roofPaymentSchedule: RoofPaymentBand[];
+}
+
+interface DepreciationSchedule {
+  id: number;
+  name: string;
+  carrierCode: string | null;
+  description: string | null;
+  isActive: boolean;
+  versions: VersionSummary[];
+}
+
+// Keywords are edited one per line as "match = years"
+interface CategoryDraft {
+  category: string;
+  defaultLife: string;
+  keywords: string;
+}
+
+const API = "/api/admin/depreciation-schedules";
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function toDrafts(table: Record<string, CategoryEntry>): CategoryDraft[] {
+  return Object.entries(table).map(([category, entry]) => ({
+    category,
+    defaultLife: String(entry.default),
+    keywords: entry.keywords.map((k) => `${k.match} = ${k.life}`).join("\n"),
+  }));
+}
+
+function fromDrafts(drafts: CategoryDraft[]): Record<string, CategoryEntry> {
+  const table: Record<string, CategoryEntry> = {};
+  for (const d of drafts) {
+    if (!d.category.trim()) continue;
+    const keywords = d.keywords
+      .split("\n")
+      .map((line) => line.split("="))
+      .filter((parts) => parts.length === 2 && parts[0].trim() && !Number.isNaN(parseFloat(parts[1])))
+      .map(([match, life]) => ({ match: match.trim(), life: parseFloat(life) }));
+    table[d.category.trim()] = { keywords, default: parseFloat(d.defaultLife) || 0 };
+  }
+  return table;
+}
+
+// ── Version Editor ────────────────────────────────
+
+function VersionEditor({ schedule, canEdit }: { schedule: DepreciationSchedule; canEdit: boolean }) {
+  const { toast } = useToast();
+  const latest = schedule.versions[schedule.versions.length - 1];
+  const [effectiveFrom, setEffectiveFrom] = useState(today());
+  const [notes, setNotes] = useState("");
+  const [categories, setCategories] = useState<CategoryDraft[]>([]);
+  const [roofBands, setRoofBands] = useState<RoofPaymentBand[]>([]);
+
+  const { data: version, isLoading } = useQuery<ScheduleVersion>({
+    queryKey: [`${API}/${schedule.id}/versions/${latest?.id}`],
+    enabled: !!latest,
+  });
+
+  useEffect(() => {
+    if (!version) return;
+    setCategories(toDrafts(version.lifeExpectancy));
+    setRoofBands(version.roofPaymentSchedule ?? []);
+  }, [version]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `${API}/${schedule.id}/versions`, {
+        effectiveFrom,
+        notes: notes || null,
+        lifeExpectancy: fromDrafts(categories),
+        roofPaymentSchedule: roofBands,
+      });
+      return res.json() as Promise<ScheduleVersion>;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: [API] });
+      setNotes("");
+      toast({ title: `Version ${saved.version} saved`, description: `Effective ${saved.effectiveFrom}` });
+    },
+    onError: (err: unknown) => {
+      toast({ title: "Error saving version", description: err instanceof Error ? err.message : "Unknown error", variant: "destructive" });
+    },
+  });
+
+  const updateCategory = (index: number, patch: Partial<CategoryDraft>) =>
+    setCategories((prev) => prev.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+  const updateBand = (index: number, patch: Partial<RoofPaymentBand>) =>
+    setRoofBands((prev) => prev.map((b, i) => (i === index ? { ...b, ...patch } : b)));
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="text-xs text-muted-foreground space-y-1">
+        {schedule.versions.slice().reverse().map((v) => (
+          <div key={v.id} className="flex items-center gap-2">
+            <CalendarClock className="h-3 w-3" />
+            <span className="font-medium text-foreground">v{v.version}</span>
+            <span>effective {v.effectiveFrom}</span>
+            {v.notes && <span className="truncate">· {v.notes}</span>}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label className="text-xs">New version effective from</Label>
+          <Input type="date" value={effectiveFrom} onChange={(e) => setEffectiveFrom(e.target.value)} disabled={!canEdit} className="mt-1" />
+        </div>
+        <div>
+          <Label className="text-xs">Notes</Label>
+          <Input value={notes} onChange={(e) => setNotes(e.target.value)} disabled={!canEdit} className="mt-1" placeholder="What changed" />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-semibold">Life Expectancy</h3>
+          {canEdit && (
+            <Button size="sm" variant="outline" onClick={() => setCategories((prev) => [...prev, { category: "", defaultLife: "0", keywords: "" }])}>
+              <Plus className="h-3 w-3 mr-1" /> Category
+            </Button>
+          )}
+        </div>
+        <div className="space-y-2">
+          {categories.map((c, i) => (
+            <div key={i} className="border rounded-lg p-2 grid grid-cols-[1fr_80px_auto] gap-2 items-start">
+              <div className="space-y-1">
+                <Input value={c.category} onChange={(e) => updateCategory(i, { category: e.target.value })} disabled={!canEdit} placeholder="Category" />
+                <Textarea
+                  value={c.keywords}
+                  onChange={(e) => updateCategory(i, { keywords: e.target.value })}
+                  disabled={!canEdit}
+                  rows={Math.max(1, c.keywords.split("\n").length)}
+                  className="text-xs font-mono"
+                  placeholder="metal roofing = 50"
+                />
+              </div>
+              <div>
+                <Input value={c.defaultLife} onChange={(e) => updateCategory(i, { defaultLife: e.target.value })} disabled={!canEdit} inputMode="decimal" />
+                <span className="text-[10px] text-muted-foreground">default yrs</span>
+              </div>
+              {canEdit && (
+                <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => setCategories((prev) => prev.filter((_, j) => j !== i))}>
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <div>
+            <h3 className="text-sm font-semibold">Roof Payment Schedule</h3>
+            <p className="text-xs text-muted-foreground">Percent of RCV paid on roofing by material and roof age. Leave material blank for any.</p>
+          </div>
+          {canEdit && (
+            <Button size="sm" variant="outline" onClick={() => setRoofBands((prev) => [...prev, { material: "", maxAge: 10, paymentPercent: 100 }])}>
+              <Plus className="h-3 w-3 mr-1" /> Band
+            </Button>
+          )}
+        </div>
+        {roofBands.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No roof schedule — roofing depreciates by life expectancy.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-muted-foreground text-left">
+                <th className="font-medium py-1">Material</th>
+                <th className="font-medium py-1 w-24">Up to age</th>
+                <th className="font-medium py-1 w-24">Pays %</th>
+                <th className="w-10" />
+              </tr>
+            </thead>
+            <tbody>
+              {roofBands.map((b, i) => (
+                <tr key={i}>
+                  <td className="py-1 pr-2">
+                    <Input value={b.material} onChange={(e) => updateBand(i, { material: e.target.value })} disabled={!canEdit} placeholder="Any" />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <Input type="number" value={b.maxAge} onChange={(e) => updateBand(i, { maxAge: Number(e.target.value) })} disabled={!canEdit} />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <Input type="number" value={b.paymentPercent} onChange={(e) => updateBand(i, { paymentPercent: Number(e.target.value) })} disabled={!canEdit} />
+                  </td>
+                  <td>
+                    {canEdit && (
+                      <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => setRoofBands((prev) => prev.filter((_, j) => j !== i))}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {canEdit && (
+        <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || !effectiveFrom}>
+          {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Save className="h-4 w-4 mr-1" />}
+          Save as New Version
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// ── Main Page ─────────────────────────────────────
+
+export default function DepreciationSchedules() {
+  const { toast } = useToast();
+  const { role } = useAuth();
+  const [, setLocation] = useLocation();
+  const canEdit = role === "admin";
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [showNew, setShowNew] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newCarrier, setNewCarrier] = useState("");
+  const [newEffective, setNewEffective] = useState(today());
+
+  const { data: schedules = [], isLoading } = useQuery<DepreciationSchedule[]>({
+    queryKey: [API],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", API, {
+        name: newName,
+        carrierCode: newCarrier || null,
+        effectiveFrom: newEffective,
+      });
+      return res.json() as Promise<DepreciationSchedule>;
+    },
+    onSuccess: (schedule) => {
+      queryClient.invalidateQueries({ queryKey: [API] });
+      setShowNew(false);
+      setNewName("");
+      setNewCarrier("");
+      setSelectedId(schedule.id);
+      toast({ title: "Schedule created", description: "Started from the standard life expectancy table." });
+    },
+    onError: (err: unknown) => {
+      toast({ title: "Error creating schedule", description: err instanceof Error ? err.message : "Unknown error", variant: "destructive" });
+    },
+  });
+
+  const activeMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      await apiRequest("PATCH", `${API}/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [API] });
+    },
+    onError: (err: unknown) => {
+      toast({ title: "Error updating schedule", description: err instanceof Error ? err.message : "Unknown error", variant: "destructive" });
+    },
+  });
+
+  const selected = schedules.find((s) => s.id === selectedId) ?? null;
+
+  return (
+    <Layout title="Depreciation Schedules">
+      <div className="p-4 max-w-3xl mx-auto pb-24">
+        <div className="flex items-center gap-3 mb-4">
+          <Button variant="ghost" size="icon" onClick={() => (selected ? setSelectedId(null) : setLocation("/settings"))}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-lg font-semibold flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              {selected ? selected.name : "Depreciation Schedules"}
+            </h1>
+            <p className="text-xs text-muted-foreground">
+              {selected
+                ? `${selected.carrierCode ?? "Default for carriers without a schedule"} · the version in force at the date of loss applies`
+                : "Carrier life expectancy tables and roof payment schedules, versioned by effective date."}
+            </p>
+          </div>
+          {!selected && canEdit && (
+            <Button size="sm" onClick={() => setShowNew(true)}>
+              <Plus className="h-3 w-3 mr-1" /> New Schedule
+            </Button>
+          )}
+        </div>
+
+        {selected ? (
+          <Card className="p-4">
+            <VersionEditor key={`${selected.id}-${selected.versions.length}`} schedule={selected} canEdit={canEdit} />
+          </Card>
+        ) : (
+          <>
+            {showNew && (
+              <Card className="p-4 mb-4 space-y-3">
+                <div className="grid grid-cols-3 gap-3">
+                  <div>
+                    <Label className="text-xs">Name</Label>
+                    <Input value={newName} onChange={(e) => setNewName(e.target.value)} className="mt-1" />
+                  </div>
+                  <div>
+                    <Label className="text-xs">Carrier code</Label>
+                    <Input value={newCarrier} onChange={(e) => setNewCarrier(e.target.value)} className="mt-1" placeholder="Blank = default" />
+                  </div>
+                  <div>
+                    <Label className="text-xs">Effective from</Label>
+                    <Input type="date" value={newEffective} onChange={(e) => setNewEffective(e.target.value)} className="mt-1" />
+                  </div>
+                </div>
+                <div className="flex gap-2 justify-end">
+                  <Button variant="ghost" size="sm" onClick={() => setShowNew(false)}>Cancel</Button>
+                  <Button size="sm" onClick={() => createMutation.mutate()} disabled={!newName.trim() || !newEffective || createMutation.isPending}>
+                    {createMutation.isPending && <Loader2 className="h-3 w-3 animate-spin mr-1" />}
+                    Create
+                  </Button>
+                </div>
+              </Card>
+            )}
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : schedules.length === 0 ? (
+              <div className="text-center py-12">
+                <CalendarClock className="h-10 w-10 mx-auto mb-3 text-muted-foreground" />
+                <p className="text-muted-foreground text-sm">
+                  No schedules yet. Every claim uses the standard life expectancy table.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {schedules.map((s) => {
+                  const latest = s.versions[s.versions.length - 1];
+                  return (
+                    <Card key={s.id} className="p-3 flex items-center gap-3 cursor-pointer hover:bg-muted/50" onClick={() => setSelectedId(s.id)}>
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium truncate">{s.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {s.carrierCode ?? "Default"} · {s.versions.length} version{s.versions.length === 1 ? "" : "s"}
+                          {latest && ` · latest effective ${latest.effectiveFrom}`}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                        <span className="text-xs text-muted-foreground">Active</span>
+                        <Switch
+                          checked={s.isActive}
+                          disabled={!canEdit || activeMutation.isPending}
+                          onCheckedChange={(isActive) => activeMutation.mutate({ id: s.id, isActive })}
+                        />
+                      </div>
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -1,9 +1,11 @@
 import React, { useState, useEffect } from "react";
 import { useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { apiRequest, getAuthHeaders } from "@/lib/queryClient";
+import { apiRequest, getAuthHeaders, queryClient } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import AIReviewPanel from "@/components/AIReviewPanel";
+import EstimateVersionsPanel from "@/components/EstimateVersionsPanel";
+import TaxJurisdictionPanel from "@/components/TaxJurisdictionPanel";
 import {
   FileSpreadsheet, FileText, Send, CheckCircle2,
   AlertTriangle, Download, Loader2, ChevronLeft, ShieldCheck,
@@ -83,6 +85,9 @@ export default function ExportPage({ params }: { params: { id: string } }) {
       setEsxUrl(url);
       return url;
     },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/inspection/${sessionId}/versions`] });
+    },
     onError: (error: Error) => {
       toast({ title: "ESX export failed", description: error.message, variant: "destructive" });
     },
@@ -113,6 +118,9 @@ export default function ExportPage({ params }: { params: { id: string } }) {
 
       return { success: true, message: "PDF downloaded successfully" };
     },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/inspection/${sessionId}/versions`] });
+    },
     onError: (error: Error) => {
       toast({ title: "PDF export failed", description: error.message, variant: "destructive" });
     },
@@ -504,6 +512,27 @@ export default function ExportPage({ params }: { params: { id: string } }) {
           </motion.div>
         )}
 
+        {/* Estimate Versions */}
+        {!validationLoading && sessionId && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.35 }}
+          >
+            <EstimateVersionsPanel sessionId={sessionId} />
+          </motion.div>
+        )}
+
+        {!validationLoading && claimId && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.4 }}
+          >
+            <TaxJurisdictionPanel claimId={claimId} />
+          </motion.div>
+        )}
+
       </div>
 
       {/* Bottom Link */}
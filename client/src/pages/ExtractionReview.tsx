@@ -6,7 +6,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useLocation } from "wouter";
-import { AlertCircle, Check, ArrowRight, Loader2, ShieldCheck, ShieldAlert, ShieldX, TrendingUp, CheckCircle2 } from "lucide-react";
+import { AlertCircle, Check, ArrowRight, Loader2, ShieldCheck, ShieldAlert, ShieldX, TrendingUp, CheckCircle2, BookOpen, X } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -22,6 +22,16 @@ interface Extraction {
   confirmedByUser: boolean;
 }
 
+interface EndorsementProposal {
+  id: number;
+  endorsementId: string;
+  formNumber: string;
+  effect: string;
+  title: string;
+  summary: string;
+  status: "pending" | "accepted" | "rejected";
+}
+
 const CONFIDENCE_CONFIG = {
   high: {
     label: "High",
@@ -533,11 +543,80 @@ function PolicyTab({ extraction }: { extraction: Extraction }) {
   );
 }
 
+function EndorsementProposalCard({ claimId, proposal }: { claimId: number; proposal: EndorsementProposal }) {
+  const { toast } = useToast();
+
+  const decideMutation = useMutation({
+    mutationFn: async (decision: "accept" | "reject") => {
+      await apiRequest("POST", `/api/claims/${claimId}/endorsement-proposals/${proposal.id}/${decision}`);
+      return decision;
+    },
+    onSuccess: (decision) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/claims/${claimId}/endorsement-proposals`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/claims/${claimId}/policy-rules`] });
+      toast({
+        title: decision === "accept" ? "Endorsement applied" : "Proposal rejected",
+        description: decision === "accept" ? proposal.summary : `${proposal.formNumber} will not change the policy rules.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div data-testid={`card-endorsement-proposal-${proposal.id}`} className="rounded-lg border border-emerald-200/60 bg-emerald-50/30 p-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="text-xs font-semibold text-emerald-800 flex items-center gap-1.5">
+            <BookOpen className="h-3.5 w-3.5" />
+            {proposal.formNumber} · {proposal.title}
+          </div>
+          <p className="text-xs text-emerald-700 mt-1">{proposal.summary}</p>
+        </div>
+        {proposal.status === "pending" ? (
+          <div className="flex gap-1.5 shrink-0">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => decideMutation.mutate("reject")}
+              disabled={decideMutation.isPending}
+              data-testid={`button-reject-proposal-${proposal.id}`}
+            >
+              <X className="h-3.5 w-3.5 mr-1" /> Reject
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => decideMutation.mutate("accept")}
+              disabled={decideMutation.isPending}
+              data-testid={`button-accept-proposal-${proposal.id}`}
+            >
+              {decideMutation.isPending ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <Check className="h-3.5 w-3.5 mr-1" />}
+              Accept
+            </Button>
+          </div>
+        ) : (
+          <Badge
+            variant="outline"
+            className={proposal.status === "accepted" ? "text-xs border-emerald-300 text-emerald-700" : "text-xs text-muted-foreground"}
+          >
+            {proposal.status === "accepted" ? "Applied" : "Rejected"}
+          </Badge>
+        )}
+      </div>
+    </div>
+  );
+}
+
 function EndorsementsTab({ extraction }: { extraction: Extraction }) {
   const data = extraction.extractedData || {};
   const conf = extraction.confidence || {};
   const endorsements = data.endorsements || [];
 
+  const { data: proposals } = useQuery<EndorsementProposal[]>({
+    queryKey: [`/api/claims/${extraction.claimId}/endorsement-proposals`],
+  });
+
   return (
     <div className="space-y-4">
       <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
@@ -567,6 +646,24 @@ function EndorsementsTab({ extraction }: { extraction: Extraction }) {
               <p className="text-xs text-blue-700">{end.claimImpact}</p>
             </div>
 
+            {proposals && (() => {
+              const matched = proposals.filter((p) => p.endorsementId === String(end.endorsementId || "").slice(0, 40));
+              if (matched.length === 0) {
+                return (
+                  <p data-testid={`text-endorsement-unmatched-${i}`} className="text-xs text-muted-foreground">
+                    No library change proposed for this form — apply any policy changes by hand.
+                  </p>
+                );
+              }
+              return (
+                <div className="space-y-2">
+                  {matched.map((proposal) => (
+                    <EndorsementProposalCard key={proposal.id} claimId={extraction.claimId} proposal={proposal} />
+                  ))}
+                </div>
+              );
+            })()}
+
             {end.keyProvisions && end.keyProvisions.length > 0 && (
               <div>
                 <div className="text-xs font-semibold text-muted-foreground mb-2">Key Provisions</div>
@@ -1,22 +1,24 @@
 import React, { useState, useEffect, useRef, useCallback } from "react";
 import { useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   ChevronLeft, ChevronDown, ChevronRight,
   Camera, CheckCircle2, AlertTriangle, FileText,
   ImageIcon, AlertCircle, X, Download, Loader2,
-  ChevronUp, MessageSquare, MapPin, Cloud, DollarSign,
+  ChevronUp, MessageSquare, MapPin, Cloud, DollarSign, Droplets,
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { cn } from "@/lib/utils";
 import { logger } from "@/lib/logger";
 import WeatherCorrelation from "@/components/WeatherCorrelation";
-import MoistureMap from "@/components/MoistureMap";
+import MoistureMap, { type DryingTrend } from "@/components/MoistureMap";
 import PropertySketch from "@/components/PropertySketch";
 import XactimateEstimateView from "@/components/XactimateEstimateView";
+import MatchingPanel from "@/components/MatchingPanel";
 
 export default function ReviewFinalize({ params }: { params: { id: string } }) {
   const claimId = parseInt(params.id);
@@ -218,6 +220,9 @@ export default function ReviewFinalize({ params }: { params: { id: string } }) {
             <TabsTrigger value="sketch" className="data-[state=active]:border-b-2 data-[state=active]:border-primary rounded-none text-xs md:text-sm px-2 md:px-4">
               <MapPin size={14} className="mr-0 md:mr-1.5" /> <span className="hidden md:inline">Sketch</span>
             </TabsTrigger>
+            <TabsTrigger value="drying" className="data-[state=active]:border-b-2 data-[state=active]:border-primary rounded-none text-xs md:text-sm px-2 md:px-4">
+              <Droplets size={14} className="mr-0 md:mr-1.5" /> <span className="hidden md:inline">Drying</span>
+            </TabsTrigger>
             <TabsTrigger value="weather" className="data-[state=active]:border-b-2 data-[state=active]:border-primary rounded-none text-xs md:text-sm px-2 md:px-4">
               <Cloud size={14} className="mr-0 md:mr-1.5" /> <span className="hidden md:inline">Weather</span>
             </TabsTrigger>
@@ -255,6 +260,10 @@ export default function ReviewFinalize({ params }: { params: { id: string } }) {
             <SketchTab rooms={rooms} sessionId={sessionId} estimateByRoom={estimateByRoom} claim={claim} />
           </TabsContent>
 
+          <TabsContent value="drying" className="flex-1 overflow-y-auto mt-0 p-0">
+            <DryingTab sessionId={sessionId} rooms={rooms} />
+          </TabsContent>
+
           <TabsContent value="weather" className="flex-1 overflow-y-auto mt-0 p-4">
             <WeatherCorrelation claimId={claimId} />
           </TabsContent>
@@ -859,6 +868,299 @@ function NotesTab({ transcriptEntries, sessionId }: any) {
   );
 }
 
+// ─── DRYING TAB ─────────────────────────────────────────
+
+interface DryingEquipmentEntry {
+  id: number;
+  equipmentType: string;
+  quantity: number;
+  placedOn: string;
+  removedOn: string | null;
+  days: number;
+  equipmentDays: number;
+}
+
+interface AtmosphericEntry {
+  id: number;
+  date: string;
+  placement: string;
+  temperatureF: number;
+  relativeHumidity: number;
+  grainsPerPound: number;
+}
+
+interface RoomDryingLog {
+  roomId: number;
+  roomName: string;
+  days: string[];
+  locations: DryingTrend[];
+  atmospherics: AtmosphericEntry[];
+  equipment: DryingEquipmentEntry[];
+  isDry: boolean;
+}
+
+interface DryingLogData {
+  rooms: RoomDryingLog[];
+  atmospherics: AtmosphericEntry[];
+  monitoringDays: number;
+}
+
+const EQUIPMENT_LABELS: Record<string, string> = {
+  air_mover: "Air mover",
+  dehumidifier: "Dehumidifier",
+  large_dehumidifier: "Large dehumidifier",
+  air_scrubber: "Air scrubber",
+};
+
+const PLACEMENT_LABELS: Record<string, string> = {
+  affected: "Affected",
+  unaffected: "Unaffected",
+  outside: "Outside",
+  dehu_exhaust: "Dehu exhaust",
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+function AtmosphericRows({ entries }: { entries: AtmosphericEntry[] }) {
+  return (
+    <>
+      {entries.map((a) => (
+        <tr key={a.id} className="border-t border-gray-100">
+          <td className="px-3 py-1.5">{a.date}</td>
+          <td className="px-3 py-1.5">{PLACEMENT_LABELS[a.placement] || a.placement}</td>
+          <td className="px-3 py-1.5 text-right font-mono">{a.temperatureF}°F</td>
+          <td className="px-3 py-1.5 text-right font-mono">{a.relativeHumidity}%</td>
+          <td className="px-3 py-1.5 text-right font-mono font-semibold">{a.grainsPerPound}</td>
+        </tr>
+      ))}
+    </>
+  );
+}
+
+function DryingTab({ sessionId, rooms }: { sessionId: number | null; rooms: any[] }) {
+  const { toast } = useToast();
+  const logKey = [`/api/inspection/${sessionId}/drying-log`];
+  const { data: log, isLoading } = useQuery<DryingLogData>({ queryKey: logKey, enabled: !!sessionId });
+
+  const [equipmentForm, setEquipmentForm] = useState({ roomId: "", equipmentType: "air_mover", quantity: "1", placedOn: today() });
+  const [atmosphericForm, setAtmosphericForm] = useState({ roomId: "", placement: "affected", temperatureF: "", relativeHumidity: "", readingDate: today() });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: logKey });
+  const onError = (error: Error) => toast({ title: "Drying log not saved", description: error.message, variant: "destructive" });
+
+  const addEquipment = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/inspection/${sessionId}/drying-equipment`, {
+      roomId: Number(equipmentForm.roomId),
+      equipmentType: equipmentForm.equipmentType,
+      quantity: Number(equipmentForm.quantity) || 1,
+      placedOn: equipmentForm.placedOn,
+    }),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const removeEquipment = useMutation({
+    mutationFn: (id: number) => apiRequest("PATCH", `/api/inspection/${sessionId}/drying-equipment/${id}`, { removedOn: today() }),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const addAtmospheric = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/inspection/${sessionId}/atmospheric-readings`, {
+      roomId: atmosphericForm.roomId ? Number(atmosphericForm.roomId) : null,
+      placement: atmosphericForm.placement,
+      temperatureF: Number(atmosphericForm.temperatureF),
+      relativeHumidity: Number(atmosphericForm.relativeHumidity),
+      readingDate: atmosphericForm.readingDate,
+    }),
+    onSuccess: () => {
+      setAtmosphericForm((f) => ({ ...f, temperatureF: "", relativeHumidity: "" }));
+      refresh();
+    },
+    onError,
+  });
+
+  const generateItems = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/inspection/${sessionId}/drying-log/line-items`);
+      return res.json() as Promise<{ created: number; updated: number; removed: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/inspection/${sessionId}/estimate-by-room`] });
+      toast({
+        title: "Equipment line items updated",
+        description: `${result.created} added, ${result.updated} updated, ${result.removed} removed`,
+      });
+    },
+    onError,
+  });
+
+  const inputClass = "h-8 rounded-md border border-gray-200 px-2 text-sm bg-white";
+
+  if (isLoading) {
+    return (
+      <div className="p-8 flex justify-center">
+        <Loader2 className="animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 md:p-5 space-y-4" data-testid="drying-tab">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-display font-semibold text-foreground">Drying Log</h3>
+          <p className="text-xs text-muted-foreground">{log?.monitoringDays || 0} monitoring day(s) logged</p>
+        </div>
+        <Button
+          size="sm"
+          onClick={() => generateItems.mutate()}
+          disabled={generateItems.isPending || !log?.rooms.length}
+          data-testid="button-generate-drying-items"
+        >
+          {generateItems.isPending && <Loader2 size={14} className="mr-1 animate-spin" />}
+          Generate Equipment Line Items
+        </Button>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-3">
+        <form
+          className="border border-gray-200 rounded-lg p-3 space-y-2"
+          onSubmit={(e) => { e.preventDefault(); addEquipment.mutate(); }}
+        >
+          <p className="text-xs font-semibold uppercase tracking-wider text-gray-500">Place Equipment</p>
+          <div className="flex flex-wrap gap-2">
+            <select className={inputClass} value={equipmentForm.roomId} onChange={(e) => setEquipmentForm({ ...equipmentForm, roomId: e.target.value })} data-testid="select-equipment-room">
+              <option value="">Room…</option>
+              {rooms.map((r: any) => <option key={r.id} value={r.id}>{r.name}</option>)}
+            </select>
+            <select className={inputClass} value={equipmentForm.equipmentType} onChange={(e) => setEquipmentForm({ ...equipmentForm, equipmentType: e.target.value })} data-testid="select-equipment-type">
+              {Object.entries(EQUIPMENT_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+            <input className={cn(inputClass, "w-16")} type="number" min={1} value={equipmentForm.quantity} onChange={(e) => setEquipmentForm({ ...equipmentForm, quantity: e.target.value })} data-testid="input-equipment-quantity" />
+            <input className={inputClass} type="date" value={equipmentForm.placedOn} onChange={(e) => setEquipmentForm({ ...equipmentForm, placedOn: e.target.value })} data-testid="input-equipment-placed" />
+            <Button type="submit" size="sm" variant="outline" disabled={!equipmentForm.roomId || addEquipment.isPending}>Add</Button>
+          </div>
+        </form>
+
+        <form
+          className="border border-gray-200 rounded-lg p-3 space-y-2"
+          onSubmit={(e) => { e.preventDefault(); addAtmospheric.mutate(); }}
+        >
+          <p className="text-xs font-semibold uppercase tracking-wider text-gray-500">Atmospheric Reading</p>
+          <div className="flex flex-wrap gap-2">
+            <select className={inputClass} value={atmosphericForm.roomId} onChange={(e) => setAtmosphericForm({ ...atmosphericForm, roomId: e.target.value })} data-testid="select-atmospheric-room">
+              <option value="">Whole job</option>
+              {rooms.map((r: any) => <option key={r.id} value={r.id}>{r.name}</option>)}
+            </select>
+            <select className={inputClass} value={atmosphericForm.placement} onChange={(e) => setAtmosphericForm({ ...atmosphericForm, placement: e.target.value })} data-testid="select-atmospheric-placement">
+              {Object.entries(PLACEMENT_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+            <input className={cn(inputClass, "w-20")} type="number" placeholder="°F" value={atmosphericForm.temperatureF} onChange={(e) => setAtmosphericForm({ ...atmosphericForm, temperatureF: e.target.value })} data-testid="input-atmospheric-temp" />
+            <input className={cn(inputClass, "w-20")} type="number" placeholder="RH %" value={atmosphericForm.relativeHumidity} onChange={(e) => setAtmosphericForm({ ...atmosphericForm, relativeHumidity: e.target.value })} data-testid="input-atmospheric-rh" />
+            <input className={inputClass} type="date" value={atmosphericForm.readingDate} onChange={(e) => setAtmosphericForm({ ...atmosphericForm, readingDate: e.target.value })} />
+            <Button type="submit" size="sm" variant="outline" disabled={!atmosphericForm.temperatureF || !atmosphericForm.relativeHumidity || addAtmospheric.isPending}>Add</Button>
+          </div>
+        </form>
+      </div>
+
+      {!log?.rooms.length && (
+        <p className="text-sm text-muted-foreground text-center py-6">
+          No drying log yet. Moisture readings, atmospheric readings and equipment will appear here by room.
+        </p>
+      )}
+
+      {log?.rooms.map((room) => (
+        <div key={room.roomId} className="border border-gray-200 rounded-lg p-3 space-y-3" data-testid={`drying-room-${room.roomId}`}>
+          <div className="flex items-center justify-between">
+            <h4 className="font-display font-semibold text-foreground">{room.roomName}</h4>
+            <span className={cn("text-[10px] font-bold px-2 py-0.5 rounded-full", room.isDry ? "bg-green-100 text-green-700" : "bg-amber-100 text-amber-700")}>
+              {room.isDry ? "Dry" : `Drying · ${room.days.length} day(s)`}
+            </span>
+          </div>
+
+          {room.locations.length > 0 && (
+            <MoistureMap
+              roomName={room.roomName}
+              readings={room.locations.filter((l) => l.latest != null).map((l, i) => ({
+                id: i,
+                location: l.location,
+                reading: l.latest!,
+                materialType: l.materialType || undefined,
+                dryStandard: l.dryStandard ?? undefined,
+              }))}
+              trends={room.locations}
+            />
+          )}
+
+          {room.equipment.length > 0 && (
+            <table className="w-full text-sm border border-gray-200 rounded-lg overflow-hidden">
+              <thead>
+                <tr className="bg-gray-50 text-[11px] uppercase tracking-wider text-gray-500">
+                  <th className="text-left px-3 py-2">Equipment</th>
+                  <th className="text-right px-3 py-2">Qty</th>
+                  <th className="text-left px-3 py-2">Placed</th>
+                  <th className="text-left px-3 py-2">Removed</th>
+                  <th className="text-right px-3 py-2">Equip. Days</th>
+                </tr>
+              </thead>
+              <tbody>
+                {room.equipment.map((e) => (
+                  <tr key={e.id} className="border-t border-gray-100">
+                    <td className="px-3 py-1.5">{EQUIPMENT_LABELS[e.equipmentType] || e.equipmentType}</td>
+                    <td className="px-3 py-1.5 text-right">{e.quantity}</td>
+                    <td className="px-3 py-1.5">{e.placedOn}</td>
+                    <td className="px-3 py-1.5">
+                      {e.removedOn || (
+                        <button
+                          className="text-xs text-primary underline"
+                          onClick={() => removeEquipment.mutate(e.id)}
+                          data-testid={`button-remove-equipment-${e.id}`}
+                        >
+                          Remove today
+                        </button>
+                      )}
+                    </td>
+                    <td className="px-3 py-1.5 text-right font-mono">{e.equipmentDays}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {room.atmospherics.length > 0 && (
+            <table className="w-full text-sm border border-gray-200 rounded-lg overflow-hidden">
+              <thead>
+                <tr className="bg-gray-50 text-[11px] uppercase tracking-wider text-gray-500">
+                  <th className="text-left px-3 py-2">Date</th>
+                  <th className="text-left px-3 py-2">Placement</th>
+                  <th className="text-right px-3 py-2">Temp</th>
+                  <th className="text-right px-3 py-2">RH</th>
+                  <th className="text-right px-3 py-2">GPP</th>
+                </tr>
+              </thead>
+              <tbody>
+                <AtmosphericRows entries={room.atmospherics} />
+              </tbody>
+            </table>
+          )}
+        </div>
+      ))}
+
+      {log && log.atmospherics.length > 0 && (
+        <div className="border border-gray-200 rounded-lg p-3 space-y-2">
+          <h4 className="font-display font-semibold text-foreground">Whole Job Atmospherics</h4>
+          <table className="w-full text-sm">
+            <tbody>
+              <AtmosphericRows entries={log.atmospherics} />
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ─── SKETCH TAB ─────────────────────────────────────────
 
 function SketchTab({ rooms, sessionId, estimateByRoom, claim }: { rooms: any[]; sessionId: number | null; estimateByRoom: any; claim: any }) {
@@ -887,6 +1189,8 @@ function SketchTab({ rooms, sessionId, estimateByRoom, claim }: { rooms: any[];
         expanded
       />
 
+      <MatchingPanel sessionId={sessionId} rooms={rooms} />
+
       <XactimateEstimateView
         data={estimateByRoom}
         claimNumber={claim?.claimNumber}
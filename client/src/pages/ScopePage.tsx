@@ -5,9 +5,10 @@ import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import {
   ChevronLeft, ChevronRight, ChevronDown, DollarSign,
-  Edit3, Trash2, AlertTriangle, Zap, Link2,
+  Edit3, Trash2, AlertTriangle, Zap, Link2, Scale,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import SettlementMath, { type SettlementCoverage, type SublimitDefinition } from "@/components/SettlementMath";
 
 export default function ScopePage({ params }: { params: { id: string } }) {
   const claimId = parseInt(params.id);
@@ -44,7 +45,7 @@ export default function ScopePage({ params }: { params: { id: string } }) {
   const briefing = briefingData as any;
 
   const [editingItem, setEditingItem] = useState<number | null>(null);
-  const [editForm, setEditForm] = useState({ quantity: 0, unitPrice: 0, age: null as number | null, lifeExpectancy: null as number | null });
+  const [editForm, setEditForm] = useState({ quantity: 0, unitPrice: 0, age: null as number | null, lifeExpectancy: null as number | null, sublimitKey: null as string | null, incurred: false });
   const [deleteConfirm, setDeleteConfirm] = useState<number | null>(null);
   const [collapsedRooms, setCollapsedRooms] = useState<Set<number>>(new Set());
 
@@ -76,9 +77,30 @@ export default function ScopePage({ params }: { params: { id: string } }) {
 
   const rawCovA = briefing?.coverageSnapshot?.coverageA;
   const coverageA = typeof rawCovA === "number" ? rawCovA : (typeof rawCovA === "object" && rawCovA?.limit ? Number(rawCovA.limit) : Number(rawCovA) || 0);
+  const { data: settlementData } = useQuery<{
+    coverages: SettlementCoverage[];
+    grandTotalDeductible: number;
+    grandTotalCoinsurancePenalty: number;
+    grandNetClaim: number;
+  }>({
+    queryKey: [`/api/inspection/${sessionId}/settlement`],
+    enabled: !!sessionId,
+  });
+  // Policy rules drive the deductible once the inspection has created them
+  const { data: policyRulesData } = useQuery<Array<{ coverageType: string; sublimits: SublimitDefinition[] | null }>>({
+    queryKey: [`/api/claims/${claimId}/policy-rules`],
+    enabled: !!claimId,
+  });
+  const sublimitsFor = (coverageBucket: string | null | undefined): SublimitDefinition[] =>
+    (policyRulesData || [])
+      .filter((r) => !coverageBucket || r.coverageType === coverageBucket)
+      .flatMap((r) => r.sublimits || []);
+  const settlement = settlementData?.coverages.length ? settlementData : null;
+
   const rawDed = briefing?.coverageSnapshot?.deductible;
-  const deductible = typeof rawDed === "number" ? rawDed : (typeof rawDed === "object" && rawDed?.limit ? Number(rawDed.limit) : Number(rawDed) || 0);
-  const netClaim = totalACV - deductible;
+  const briefingDeductible = typeof rawDed === "number" ? rawDed : (typeof rawDed === "object" && rawDed?.limit ? Number(rawDed.limit) : Number(rawDed) || 0);
+  const deductible = settlement ? settlement.grandTotalDeductible : briefingDeductible;
+  const netClaim = settlement ? settlement.grandNetClaim : totalACV - deductible;
   const policyUtilization = coverageA > 0 ? (totalRCV / coverageA) * 100 : 0;
 
   const updateMutation = useMutation({
@@ -93,6 +115,7 @@ export default function ScopePage({ params }: { params: { id: string } }) {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/inspection/${sessionId}/estimate-grouped`] });
       queryClient.invalidateQueries({ queryKey: [`/api/inspection/${sessionId}/estimate-by-room`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/inspection/${sessionId}/settlement`] });
       setEditingItem(null);
     },
   });
@@ -104,13 +127,14 @@ export default function ScopePage({ params }: { params: { id: string } }) {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/inspection/${sessionId}/estimate-grouped`] });
       queryClient.invalidateQueries({ queryKey: [`/api/inspection/${sessionId}/estimate-by-room`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/inspection/${sessionId}/settlement`] });
       setDeleteConfirm(null);
     },
   });
 
   const startEdit = (item: any) => {
     setEditingItem(item.id);
-    setEditForm({ quantity: item.quantity || 0, unitPrice: item.unitPrice || 0, age: item.age ?? null, lifeExpectancy: item.lifeExpectancy ?? null });
+    setEditForm({ quantity: item.quantity || 0, unitPrice: item.unitPrice || 0, age: item.age ?? null, lifeExpectancy: item.lifeExpectancy ?? null, sublimitKey: item.sublimitKey ?? null, incurred: !!item.incurred });
   };
 
   const fmt = (v: number) => v.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
@@ -248,6 +272,33 @@ export default function ScopePage({ params }: { params: { id: string } }) {
                                 className="w-20 border border-border rounded px-2 py-1 text-sm"
                               />
                             </div>
+                            {(sublimitsFor(item.coverageBucket).length > 0 || editForm.sublimitKey) && (
+                              <div>
+                                <label className="text-[10px] uppercase text-muted-foreground">Sublimit</label>
+                                <select
+                                  value={editForm.sublimitKey ?? ""}
+                                  onChange={(e) => setEditForm({ ...editForm, sublimitKey: e.target.value || null })}
+                                  className="block w-40 border border-border rounded px-2 py-1 text-sm bg-background"
+                                  data-testid={`select-sublimit-${item.id}`}
+                                >
+                                  <option value="">None</option>
+                                  {sublimitsFor(item.coverageBucket).map((d) => (
+                                    <option key={d.key} value={d.key}>{d.label}{d.additional ? " (additional)" : ""}</option>
+                                  ))}
+                                </select>
+                              </div>
+                            )}
+                            {item.depreciationType === "Paid When Incurred" && (
+                              <label className="flex items-center gap-1.5 self-end pb-1 text-xs text-muted-foreground">
+                                <input
+                                  type="checkbox"
+                                  checked={editForm.incurred}
+                                  onChange={(e) => setEditForm({ ...editForm, incurred: e.target.checked })}
+                                  data-testid={`checkbox-incurred-${item.id}`}
+                                />
+                                Work completed
+                              </label>
+                            )}
                           </div>
                           <div className="flex gap-2">
                             <Button size="sm" className="bg-primary text-primary-foreground text-xs"
@@ -257,6 +308,8 @@ export default function ScopePage({ params }: { params: { id: string } }) {
                                 totalPrice: Math.round(editForm.quantity * editForm.unitPrice * 100) / 100,
                                 age: editForm.age,
                                 lifeExpectancy: editForm.lifeExpectancy,
+                                sublimitKey: editForm.sublimitKey,
+                                ...(item.depreciationType === "Paid When Incurred" ? { incurred: editForm.incurred } : {}),
                               } })}
                               disabled={updateMutation.isPending}>
                               Save
@@ -289,6 +342,19 @@ export default function ScopePage({ params }: { params: { id: string } }) {
                               {item.provenance === "companion" && (
                                 <span className="inline-flex items-center gap-0.5 text-[9px] text-[#9D8BBF] font-medium"><Link2 size={8} /> Companion</span>
                               )}
+                              {item.provenance === "minimum" && (
+                                <span className="inline-flex items-center gap-0.5 text-[9px] text-amber-600 font-medium"><Scale size={8} /> Minimum charge</span>
+                              )}
+                              {item.isCodeUpgrade && (
+                                <span className="ml-1 inline-flex items-center text-[9px] text-orange-600 font-medium">
+                                  Ordinance or Law · {item.incurred ? "Incurred" : "Paid when incurred"}
+                                </span>
+                              )}
+                              {item.sublimitKey && (
+                                <span className="ml-1 inline-flex items-center text-[9px] text-sky-600 font-medium">
+                                  {sublimitsFor(item.coverageBucket).find((d) => d.key === item.sublimitKey)?.label || item.sublimitKey}
+                                </span>
+                              )}
                             </div>
                             <div className="px-2 py-2 text-xs text-right font-mono">{fmt(item.quantity)}</div>
                             <div className="px-2 py-2 text-xs text-center text-muted-foreground">{item.unit}</div>
@@ -409,6 +475,10 @@ export default function ScopePage({ params }: { params: { id: string } }) {
                 </p>
               </div>
 
+              {settlement && (
+                <SettlementMath claimId={claimId} sessionId={sessionId} coverages={settlement.coverages} />
+              )}
+
               {coverageA > 0 && (
                 <div className="mt-3">
                   <div className="flex justify-between text-[10px] text-white/40 mb-1">
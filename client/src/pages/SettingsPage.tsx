@@ -37,6 +37,8 @@ import {
   CheckCircle2,
   XCircle,
   RefreshCw,
+  CalendarClock,
+  Building2,
 } from "lucide-react";
 import OnboardingWizard, { resetOnboarding } from "@/components/OnboardingWizard";
 import { useMutation, useQuery } from "@tanstack/react-query";
@@ -403,6 +405,48 @@ export default function SettingsPage() {
           </div>
         </Card>
 
+        {/* ===== Carriers ===== */}
+        {(user?.role === "supervisor" || user?.role === "admin") && (
+          <Card className="p-5 border-border">
+            <SectionHeader
+              icon={Building2}
+              title="Carriers"
+              description="Carrier profiles driving O&P, tax and depreciation rules and export identifiers."
+            />
+            <div className="ml-13 mt-2">
+              <Button
+                variant="outline"
+                className="w-full justify-start gap-2 overflow-hidden"
+                onClick={() => setLocation("/settings/carriers")}
+              >
+                <Building2 className="h-4 w-4 flex-shrink-0" />
+                <span className="truncate">Manage Carriers</span>
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        {/* ===== Depreciation Schedules ===== */}
+        {(user?.role === "supervisor" || user?.role === "admin") && (
+          <Card className="p-5 border-border">
+            <SectionHeader
+              icon={CalendarClock}
+              title="Depreciation Schedules"
+              description="Carrier life expectancy tables and roof payment schedules applied by date of loss."
+            />
+            <div className="ml-13 mt-2">
+              <Button
+                variant="outline"
+                className="w-full justify-start gap-2 overflow-hidden"
+                onClick={() => setLocation("/settings/depreciation")}
+              >
+                <CalendarClock className="h-4 w-4 flex-shrink-0" />
+                <span className="truncate">Manage Depreciation Schedules</span>
+              </Button>
+            </div>
+          </Card>
+        )}
+
         {/* ===== Inspection Defaults ===== */}
         <Card className="p-5 border-border">
           <SectionHeader
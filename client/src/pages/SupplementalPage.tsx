@@ -7,6 +7,7 @@ import {
   ChevronLeft, Plus, Loader2, Send,
 } from "lucide-react";
 import { motion } from "framer-motion";
+import EstimateReconciliationPanel from "@/components/EstimateReconciliationPanel";
 
 export default function SupplementalPage({ params }: { params: { id: string } }) {
   const claimId = parseInt(params.id);
@@ -111,6 +112,8 @@ export default function SupplementalPage({ params }: { params: { id: string } })
           </motion.div>
         )}
 
+        {sessionId && <EstimateReconciliationPanel sessionId={sessionId} />}
+
         {/* Supplementals List */}
         {(supplementals as any)?.map((supplemental: any, idx: number) => (
           <motion.div
@@ -1,4 +1,4 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
 import Layout from "@/components/Layout";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -36,6 +36,10 @@ import {
   Star,
   Lock,
   Pencil,
+  Upload,
+  Download,
+  History,
+  PlayCircle,
 } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -44,12 +48,29 @@ import { useLocation } from "wouter";
 
 // ── Types ─────────────────────────────────────────
 
+type ConditionOp = "eq" | "neq" | "gt" | "gte" | "lt" | "lte" | "in" | "includes";
+
+interface Comparison {
+  fact: string;
+  op: ConditionOp;
+  value: string | number | Array<string | number>;
+}
+
+type StepCondition = Comparison | { all: StepCondition[] } | { any: StepCondition[] } | { not: StepCondition };
+
+interface StepLoop {
+  over: "structures" | "rooms";
+  types?: string[];
+}
+
 interface InspectionStep {
   id: string;
   phaseName: string;
   agentPrompt: string;
   requiredTools: string[];
   completionCriteria: string;
+  condition?: StepCondition;
+  loop?: StepLoop;
 }
 
 interface InspectionFlow {
@@ -63,6 +84,26 @@ interface InspectionFlow {
   steps: InspectionStep[];
   createdAt: string;
   updatedAt: string;
+  publishedVersion: FlowVersionSummary | null;
+  hasDraftChanges: boolean;
+}
+
+interface FlowVersionSummary {
+  id: number;
+  version: number;
+  name: string;
+  changelog: string;
+  changes: { added: string[]; removed: string[]; modified: string[]; reordered: boolean } | null;
+  stepCount: number;
+  publishedBy: string | null;
+  publishedAt: string;
+}
+
+interface FlowImportResult {
+  flowId: number;
+  name: string;
+  status: "created" | "updated" | "unchanged";
+  version: number | null;
 }
 
 const PERIL_TYPES = ["Hail", "Wind", "Water", "Fire", "General"] as const;
@@ -88,8 +129,50 @@ const AVAILABLE_TOOLS = [
   "check_related_items",
   "log_test_square",
   "complete_inspection",
+  "complete_flow_step",
+];
+
+const CONDITION_FACTS: Array<{ fact: string; label: string; numeric: boolean }> = [
+  { fact: "peril", label: "Peril", numeric: false },
+  { fact: "water.category", label: "Water category", numeric: true },
+  { fact: "water.class", label: "Water class", numeric: true },
+  { fact: "structure.count", label: "Structure count", numeric: true },
+  { fact: "structure.types", label: "Structure types", numeric: false },
+  { fact: "room.count", label: "Room count", numeric: true },
+  { fact: "testSquare.count", label: "Test squares", numeric: true },
+  { fact: "testSquare.failed", label: "Failed test squares", numeric: true },
+];
+
+const CONDITION_OPS: Array<{ op: ConditionOp; label: string }> = [
+  { op: "eq", label: "=" },
+  { op: "neq", label: "≠" },
+  { op: "gt", label: ">" },
+  { op: "gte", label: "≥" },
+  { op: "lt", label: "<" },
+  { op: "lte", label: "≤" },
+  { op: "in", label: "one of" },
+  { op: "includes", label: "includes" },
 ];
 
+/** Comparisons the row editor can show; null for nested any/not conditions built elsewhere */
+function conditionRows(condition?: StepCondition): Comparison[] | null {
+  if (!condition) return [];
+  if ("fact" in condition) return [condition];
+  if ("all" in condition && condition.all.every((c) => "fact" in c)) return condition.all as Comparison[];
+  return null;
+}
+
+function rowsToCondition(rows: Comparison[]): StepCondition | undefined {
+  if (rows.length === 0) return undefined;
+  return rows.length === 1 ? rows[0] : { all: rows };
+}
+
+function parseConditionValue(fact: string, op: ConditionOp, raw: string): Comparison["value"] {
+  const numeric = CONDITION_FACTS.find((f) => f.fact === fact)?.numeric;
+  const parse = (v: string) => (numeric && v.trim() !== "" && !Number.isNaN(Number(v)) ? Number(v) : v.trim());
+  return op === "in" ? raw.split(",").map(parse) : parse(raw);
+}
+
 const PERIL_COLORS: Record<string, string> = {
   Hail: "bg-blue-100 text-blue-800 border-blue-200",
   Wind: "bg-amber-100 text-amber-800 border-amber-200",
@@ -135,6 +218,14 @@ function StepEditor({
           #{index + 1}
         </span>
         <span className="font-medium flex-1 truncate">{step.phaseName || "Untitled Step"}</span>
+        {step.condition && (
+          <span className="px-1.5 py-0.5 text-[10px] rounded-full border bg-muted text-muted-foreground flex-shrink-0">Conditional</span>
+        )}
+        {step.loop && (
+          <span className="px-1.5 py-0.5 text-[10px] rounded-full border bg-muted text-muted-foreground flex-shrink-0">
+            Per {step.loop.over === "structures" ? "structure" : "room"}
+          </span>
+        )}
         <div className="flex items-center gap-1 flex-shrink-0">
           <Button
             variant="ghost"
@@ -225,14 +316,314 @@ function StepEditor({
               className="mt-1"
             />
           </div>
+
+          <StepBranchingEditor step={step} onUpdate={onUpdate} />
         </div>
       )}
     </div>
   );
 }
 
+// ── Step Branching Editor ─────────────────────────
+
+function StepBranchingEditor({
+  step,
+  onUpdate,
+}: {
+  step: InspectionStep;
+  onUpdate: (updated: InspectionStep) => void;
+}) {
+  const rows = conditionRows(step.condition);
+  // Kept as typed so a trailing comma survives until the next type is entered
+  const [loopTypes, setLoopTypes] = useState(step.loop?.types?.join(", ") || "");
+  const setRows = (next: Comparison[]) => onUpdate({ ...step, condition: rowsToCondition(next) });
+  const updateRow = (index: number, patch: Partial<Comparison>) =>
+    rows && setRows(rows.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Only run when (all must match)</Label>
+          {rows && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 text-xs"
+              onClick={() => setRows([...rows, { fact: "water.category", op: "eq", value: 3 }])}
+            >
+              <Plus className="h-3 w-3 mr-1" /> Condition
+            </Button>
+          )}
+        </div>
+        {rows === null ? (
+          <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+            <code className="flex-1 truncate">{JSON.stringify(step.condition)}</code>
+            <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={() => onUpdate({ ...step, condition: undefined })}>
+              Clear
+            </Button>
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="mt-1 text-xs text-muted-foreground">Always runs.</p>
+        ) : (
+          <div className="mt-1 space-y-1">
+            {rows.map((row, i) => (
+              <div key={i} className="flex items-center gap-1">
+                <Select value={row.fact} onValueChange={(fact) => updateRow(i, { fact })}>
+                  <SelectTrigger className="h-8 text-xs flex-1"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {CONDITION_FACTS.map((f) => <SelectItem key={f.fact} value={f.fact}>{f.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Select value={row.op} onValueChange={(op) => updateRow(i, { op: op as ConditionOp })}>
+                  <SelectTrigger className="h-8 text-xs w-24"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {CONDITION_OPS.map((o) => <SelectItem key={o.op} value={o.op}>{o.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="h-8 text-xs flex-1"
+                  value={Array.isArray(row.value) ? row.value.join(", ") : String(row.value)}
+                  onChange={(e) => updateRow(i, { value: parseConditionValue(row.fact, row.op, e.target.value) })}
+                  placeholder={row.op === "in" ? "e.g., 2, 3" : "value"}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-destructive"
+                  onClick={() => setRows(rows.filter((_, j) => j !== i))}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <Label className="text-xs">Repeat</Label>
+        <div className="mt-1 flex items-center gap-1">
+          <Select
+            value={step.loop?.over || "once"}
+            onValueChange={(over) =>
+              onUpdate({ ...step, loop: over === "once" ? undefined : { over: over as StepLoop["over"], types: step.loop?.types } })
+            }
+          >
+            <SelectTrigger className="h-8 text-xs w-44"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="once">Once</SelectItem>
+              <SelectItem value="structures">For each structure</SelectItem>
+              <SelectItem value="rooms">For each room</SelectItem>
+            </SelectContent>
+          </Select>
+          {step.loop && (
+            <Input
+              className="h-8 text-xs flex-1"
+              value={loopTypes}
+              onChange={(e) => {
+                setLoopTypes(e.target.value);
+                const types = e.target.value.split(",").map((t) => t.trim()).filter(Boolean);
+                onUpdate({ ...step, loop: { over: step.loop!.over, types: types.length > 0 ? types : undefined } });
+              }}
+              placeholder={step.loop.over === "structures" ? "Only types, e.g., garage, shed" : "Only view types, e.g., interior"}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // ── Flow Editor Component ─────────────────────────
 
+interface SimulationSession {
+  sessionId: number;
+  claimNumber: string;
+  insuredName: string | null;
+  completedAt: string | null;
+}
+
+interface GateSummary {
+  ok: boolean;
+  blockers: number;
+  warnings: number;
+  infos: number;
+}
+
+interface FlowSimulation {
+  source: "voice_log" | "command_log" | "none";
+  replayedCalls: number;
+  blockedCalls: Array<{ eventId: number; tool: string; phase: string; stepKey: string | null; code: string; message: string }>;
+  steps: Array<{ key: string; phaseName: string; status: "completed" | "skipped" | "in_progress" | "not_reached"; toolsUsed: string[]; unusedTools: string[] }>;
+  neverCompleted: string[];
+  gateFirings: Array<{ eventId: number | null; stepKey: string | null; trigger: string; gates: Record<string, GateSummary>; blocked: boolean; message: string }>;
+}
+
+const SIMULATED_STATUS_STYLES: Record<FlowSimulation["steps"][number]["status"], string> = {
+  completed: "bg-green-50 text-green-700 border-green-200",
+  in_progress: "bg-blue-50 text-blue-700 border-blue-200",
+  skipped: "bg-red-50 text-red-700 border-red-200",
+  not_reached: "bg-muted text-muted-foreground",
+};
+
+const SIMULATION_SOURCES: Record<FlowSimulation["source"], string> = {
+  voice_log: "voice tool log",
+  command_log: "action history (no voice tool log recorded)",
+  none: "no recorded tool calls",
+};
+
+/** Replays a completed inspection against the steps on screen, saved or not. */
+function FlowDryRun({ flowId, steps }: { flowId: number; steps: InspectionStep[] }) {
+  const { toast } = useToast();
+  const [sessionId, setSessionId] = useState<string>("");
+  const { data: sessions = [] } = useQuery<SimulationSession[]>({
+    queryKey: ["/api/flows", flowId, "simulate", "sessions"],
+  });
+
+  const simulateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/flows/${flowId}/simulate`, { sessionId: Number(sessionId), steps });
+      return (await res.json()) as FlowSimulation;
+    },
+    onError: (err: unknown) => {
+      toast({ title: "Dry run failed", description: err instanceof Error ? err.message : "Unknown error", variant: "destructive" });
+    },
+  });
+  const result = simulateMutation.data;
+  const stepName = (key: string | null) => result?.steps.find((s) => s.key === key)?.phaseName ?? "after the last step";
+
+  return (
+    <Card className="p-4 space-y-3">
+      <h3 className="font-semibold text-sm flex items-center gap-2">
+        <PlayCircle className="h-4 w-4" /> Dry Run
+      </h3>
+      <p className="text-xs text-muted-foreground">
+        Replay a completed inspection against these steps to see which calls would be blocked, which steps would never complete and where gates would fire.
+      </p>
+      <div className="flex items-center gap-2">
+        <Select value={sessionId} onValueChange={setSessionId}>
+          <SelectTrigger className="flex-1" data-testid="select-simulation-session">
+            <SelectValue placeholder={sessions.length ? "Choose a completed inspection" : "No completed inspections for this peril"} />
+          </SelectTrigger>
+          <SelectContent>
+            {sessions.map((s) => (
+              <SelectItem key={s.sessionId} value={String(s.sessionId)}>
+                {s.claimNumber}{s.insuredName ? ` — ${s.insuredName}` : ""}
+                {s.completedAt ? ` (${new Date(s.completedAt).toLocaleDateString()})` : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          onClick={() => simulateMutation.mutate()}
+          disabled={!sessionId || simulateMutation.isPending}
+          data-testid="button-run-simulation"
+        >
+          {simulateMutation.isPending ? <Loader2 className="h-3 w-3 animate-spin mr-1" /> : <PlayCircle className="h-3 w-3 mr-1" />}
+          Run
+        </Button>
+      </div>
+
+      {result && (
+        <div className="space-y-3 text-xs" data-testid="simulation-results">
+          <p className="text-muted-foreground">
+            Replayed {result.replayedCalls} call(s) from the {SIMULATION_SOURCES[result.source]}.{" "}
+            {result.blockedCalls.length} blocked, {result.neverCompleted.length} step(s) would never complete.
+          </p>
+
+          <div className="space-y-1">
+            {result.steps.map((step) => (
+              <div key={step.key} className="flex items-start gap-2">
+                <span className={`px-2 py-0.5 text-[10px] font-medium rounded-full border whitespace-nowrap ${SIMULATED_STATUS_STYLES[step.status]}`}>
+                  {step.status.replace("_", " ")}
+                </span>
+                <div className="min-w-0">
+                  <span className="font-medium">{step.phaseName}</span>
+                  {step.toolsUsed.length > 0 && <span className="text-muted-foreground"> · used {step.toolsUsed.join(", ")}</span>}
+                  {step.status !== "not_reached" && step.unusedTools.length > 0 && (
+                    <span className="text-muted-foreground"> · never called {step.unusedTools.join(", ")}</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {result.blockedCalls.length > 0 && (
+            <div>
+              <Label className="text-xs">Blocked calls</Label>
+              <ul className="mt-1 space-y-0.5">
+                {result.blockedCalls.map((call) => (
+                  <li key={call.eventId} className="text-red-700">
+                    <span className="font-mono">{call.tool}</span> in {stepName(call.stepKey)} ({call.phase}): {call.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {result.gateFirings.length > 0 && (
+            <div>
+              <Label className="text-xs">Gates</Label>
+              <ul className="mt-1 space-y-0.5">
+                {result.gateFirings.map((firing, i) => (
+                  <li key={i} className={firing.blocked ? "text-amber-700" : "text-muted-foreground"}>
+                    {stepName(firing.stepKey)}: {firing.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+function describeChanges(changes: FlowVersionSummary["changes"]): string {
+  if (!changes) return "First version";
+  const parts = [
+    changes.added.length ? `${changes.added.length} added` : "",
+    changes.removed.length ? `${changes.removed.length} removed` : "",
+    changes.modified.length ? `${changes.modified.length} modified` : "",
+    changes.reordered ? "reordered" : "",
+  ].filter(Boolean);
+  return parts.length ? parts.join(", ") : "Details only";
+}
+
+function VersionHistory({ flowId }: { flowId: number }) {
+  const { data: versions = [], isLoading } = useQuery<FlowVersionSummary[]>({
+    queryKey: ["/api/flows", flowId, "versions"],
+  });
+
+  return (
+    <Card className="p-4 space-y-2">
+      <h3 className="font-semibold text-sm flex items-center gap-2">
+        <History className="h-4 w-4" /> Published Versions
+      </h3>
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : versions.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Not published yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {versions.map((v) => (
+            <div key={v.id} className="text-xs border-l-2 pl-2" data-testid={`flow-version-${v.version}`}>
+              <div className="flex items-center gap-2">
+                <span className="font-medium">v{v.version}</span>
+                <span className="text-muted-foreground">{new Date(v.publishedAt).toLocaleDateString()}</span>
+                <span className="text-muted-foreground">· {v.stepCount} steps · {describeChanges(v.changes)}</span>
+              </div>
+              <p className="text-muted-foreground">{v.changelog}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
+
 function FlowEditor({
   flow,
   onBack,
@@ -247,8 +638,29 @@ function FlowEditor({
   const [isDefault, setIsDefault] = useState(flow.isDefault || false);
   const [steps, setSteps] = useState<InspectionStep[]>(flow.steps || []);
 
+  const [showPublish, setShowPublish] = useState(false);
+  const [changelog, setChangelog] = useState("");
+
   const isSystem = flow.isSystemDefault;
 
+  // Publishing saves first so the version matches what is on screen
+  const publishMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/flows/${flow.id}`, { name, perilType, description, isDefault, steps });
+      const res = await apiRequest("POST", `/api/flows/${flow.id}/publish`, { changelog });
+      return res.json();
+    },
+    onSuccess: (version: { version: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/flows"] });
+      setShowPublish(false);
+      setChangelog("");
+      toast({ title: `Published v${version.version}`, description: "New inspections will use this version." });
+    },
+    onError: (err: unknown) => {
+      toast({ title: "Error publishing flow", description: err instanceof Error ? err.message : "Unknown error", variant: "destructive" });
+    },
+  });
+
   const updateMutation = useMutation({
     mutationFn: async () => {
       await apiRequest("PUT", `/api/flows/${flow.id}`, {
@@ -305,9 +717,23 @@ function FlowEditor({
           <ArrowLeft className="h-4 w-4" />
         </Button>
         <div className="flex-1">
-          <h2 className="text-lg font-semibold">{isSystem ? "View System Flow" : "Edit Flow"}</h2>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            {isSystem ? "View System Flow" : "Edit Flow"}
+            {flow.publishedVersion && (
+              <span className="px-2 py-0.5 text-[10px] font-medium rounded-full border bg-muted" data-testid="badge-flow-version">
+                v{flow.publishedVersion.version}
+              </span>
+            )}
+            {!isSystem && flow.hasDraftChanges && (
+              <span className="px-2 py-0.5 text-[10px] font-medium rounded-full border border-amber-300 bg-amber-50 text-amber-700">
+                Unpublished changes
+              </span>
+            )}
+          </h2>
           <p className="text-xs text-muted-foreground">
-            {isSystem ? "System default flows are read-only. Clone to customize." : "Configure the inspection phases for this workflow."}
+            {isSystem
+              ? "System default flows are read-only. Clone to customize."
+              : "Saving updates the draft. Inspections already started keep the version they began with; publish to roll changes out."}
           </p>
         </div>
         {!isSystem && (
@@ -316,6 +742,11 @@ function FlowEditor({
             Save
           </Button>
         )}
+        {!isSystem && (
+          <Button variant="outline" onClick={() => setShowPublish(true)} data-testid="button-publish-flow">
+            Publish
+          </Button>
+        )}
       </div>
 
       <Card className="p-4 space-y-3">
@@ -385,6 +816,44 @@ function FlowEditor({
           </div>
         )}
       </div>
+
+      <FlowDryRun flowId={flow.id} steps={steps} />
+
+      <VersionHistory flowId={flow.id} />
+
+      <AlertDialog open={showPublish} onOpenChange={setShowPublish}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Publish Flow</AlertDialogTitle>
+            <AlertDialogDescription>
+              Saves your edits and publishes them as v{(flow.publishedVersion?.version ?? 0) + 1}. Inspections in progress stay on the version they started with.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div>
+            <Label className="text-xs">Changelog</Label>
+            <Input
+              value={changelog}
+              onChange={(e) => setChangelog(e.target.value)}
+              placeholder="What changed in this version?"
+              className="mt-1"
+              data-testid="input-flow-changelog"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                publishMutation.mutate();
+              }}
+              disabled={!changelog.trim() || publishMutation.isPending}
+            >
+              {publishMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+              Publish
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -420,6 +889,12 @@ function FlowCard({
             <span className="text-[10px] text-muted-foreground">
               {flow.steps?.length || 0} steps
             </span>
+            {flow.publishedVersion && (
+              <span className="text-[10px] text-muted-foreground">v{flow.publishedVersion.version}</span>
+            )}
+            {!flow.isSystemDefault && flow.hasDraftChanges && (
+              <span className="text-[10px] text-amber-600">Draft</span>
+            )}
           </div>
           {flow.description && (
             <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{flow.description}</p>
@@ -454,6 +929,7 @@ export default function WorkflowBuilder() {
   const [showNewFlow, setShowNewFlow] = useState(false);
   const [newFlowName, setNewFlowName] = useState("");
   const [newFlowPeril, setNewFlowPeril] = useState("General");
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const { data: flows = [], isLoading } = useQuery<InspectionFlow[]>({
     queryKey: ["/api/flows"],
@@ -512,6 +988,46 @@ export default function WorkflowBuilder() {
     },
   });
 
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("GET", "/api/flows/export");
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = "inspection-flows-export.json";
+      a.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (err: unknown) => {
+      toast({ title: "Error exporting flows", description: err instanceof Error ? err.message : "Unknown error", variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      let bundle: unknown;
+      try {
+        bundle = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} is not valid JSON`);
+      }
+      const res = await apiRequest("POST", "/api/flows/import", bundle);
+      return (await res.json()) as { imported: FlowImportResult[] };
+    },
+    onSuccess: ({ imported }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/flows"] });
+      const count = (status: FlowImportResult["status"]) => imported.filter((r) => r.status === status).length;
+      toast({
+        title: "Flows imported",
+        description: `${count("created")} created, ${count("updated")} updated, ${count("unchanged")} unchanged.`,
+      });
+    },
+    onError: (err: unknown) => {
+      toast({ title: "Error importing flows", description: err instanceof Error ? err.message : "Unknown error", variant: "destructive" });
+    },
+  });
+
   const filteredFlows = filterPeril === "all"
     ? flows
     : flows.filter((f) => f.perilType === filterPeril);
@@ -560,6 +1076,23 @@ export default function WorkflowBuilder() {
               Create and customize inspection flows for different peril types.
             </p>
           </div>
+          <Button size="sm" variant="outline" onClick={() => exportMutation.mutate()} disabled={exportMutation.isPending} data-testid="button-export-flows">
+            <Download className="h-3 w-3 mr-1" /> Export
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => importInputRef.current?.click()} disabled={importMutation.isPending} data-testid="button-import-flows">
+            {importMutation.isPending ? <Loader2 className="h-3 w-3 animate-spin mr-1" /> : <Upload className="h-3 w-3 mr-1" />} Import
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importMutation.mutate(file);
+              e.target.value = "";
+            }}
+          />
           <Button size="sm" onClick={() => setShowNewFlow(true)}>
             <Plus className="h-3 w-3 mr-1" /> New Flow
           </Button>
@@ -0,0 +1,23 @@
+CREATE TABLE IF NOT EXISTS "contents_items" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "claim_id" integer NOT NULL REFERENCES "claims"("id") ON DELETE CASCADE,
+  "description" text NOT NULL,
+  "category" varchar(50) DEFAULT 'General' NOT NULL,
+  "room_name" varchar(100),
+  "quantity" real DEFAULT 1 NOT NULL,
+  "age_years" real,
+  "condition" varchar(20),
+  "original_cost" real,
+  "replacement_source" varchar(200),
+  "replacement_price" real,
+  "life_expectancy" real,
+  "depreciation_type" varchar(30) DEFAULT 'Recoverable',
+  "depreciation_pct" real,
+  "depreciation_amount" real,
+  "source" varchar(20) DEFAULT 'manual',
+  "notes" text,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "contents_items_claim_id_idx" ON "contents_items" ("claim_id");
@@ -0,0 +1,40 @@
+CREATE TABLE IF NOT EXISTS "depreciation_holdbacks" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "claim_id" integer NOT NULL REFERENCES "claims"("id") ON DELETE CASCADE,
+  "coverage_type" varchar(20) NOT NULL,
+  "withheld_amount" real DEFAULT 0 NOT NULL,
+  "repair_deadline" timestamp,
+  "status" varchar(20) DEFAULT 'open' NOT NULL,
+  "notes" text,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "depreciation_holdbacks_claim_coverage_unique" ON "depreciation_holdbacks" ("claim_id", "coverage_type");
+
+CREATE TABLE IF NOT EXISTS "holdback_proofs" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "holdback_id" integer NOT NULL REFERENCES "depreciation_holdbacks"("id") ON DELETE CASCADE,
+  "claim_id" integer NOT NULL REFERENCES "claims"("id") ON DELETE CASCADE,
+  "file_name" text NOT NULL,
+  "file_size" integer,
+  "storage_path" text NOT NULL,
+  "description" text,
+  "uploaded_by" varchar REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "holdback_proofs_holdback_id_idx" ON "holdback_proofs" ("holdback_id");
+
+CREATE TABLE IF NOT EXISTS "holdback_releases" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "holdback_id" integer NOT NULL REFERENCES "depreciation_holdbacks"("id") ON DELETE CASCADE,
+  "claim_id" integer NOT NULL REFERENCES "claims"("id") ON DELETE CASCADE,
+  "amount" real NOT NULL,
+  "proof_id" integer REFERENCES "holdback_proofs"("id") ON DELETE SET NULL,
+  "released_by" varchar REFERENCES "users"("id"),
+  "notes" text,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "holdback_releases_holdback_id_idx" ON "holdback_releases" ("holdback_id");
@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS "claim_payments" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "claim_id" integer NOT NULL REFERENCES "claims"("id") ON DELETE CASCADE,
+  "entry_type" varchar(10) DEFAULT 'payment' NOT NULL,
+  "payment_type" varchar(20) NOT NULL,
+  "coverage_type" varchar(20) DEFAULT 'Coverage A' NOT NULL,
+  "payee" text NOT NULL,
+  "mortgagee" text,
+  "amount" real NOT NULL,
+  "method" varchar(10) DEFAULT 'check' NOT NULL,
+  "reference" varchar(100),
+  "related_payment_id" integer,
+  "memo" text,
+  "issued_by" varchar REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "claim_payments_claim_id_idx" ON "claim_payments" ("claim_id");
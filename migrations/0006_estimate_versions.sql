@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS "estimate_versions" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "session_id" integer NOT NULL REFERENCES "inspection_sessions"("id") ON DELETE CASCADE,
+  "claim_id" integer NOT NULL REFERENCES "claims"("id") ON DELETE CASCADE,
+  "version_number" integer NOT NULL,
+  "name" varchar(200) NOT NULL,
+  "trigger" varchar(20) DEFAULT 'manual' NOT NULL,
+  "snapshot" jsonb NOT NULL,
+  "totals" jsonb,
+  "created_by" varchar REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "estimate_versions_session_version_unique" ON "estimate_versions" ("session_id", "version_number");
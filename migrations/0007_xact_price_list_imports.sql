@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS "xact_price_list_imports" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "file_name" text NOT NULL,
+  "file_size" integer,
+  "price_list_id" varchar(64),
+  "price_list_name" varchar(64),
+  "region_id" varchar(50),
+  "status" varchar(20) DEFAULT 'pending' NOT NULL,
+  "stage" integer DEFAULT 0 NOT NULL,
+  "records_processed" integer DEFAULT 0 NOT NULL,
+  "counts" jsonb,
+  "diff" jsonb,
+  "error" text,
+  "started_by" varchar REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now(),
+  "completed_at" timestamp
+);
+
+CREATE INDEX IF NOT EXISTS "xact_price_list_imports_price_list_idx" ON "xact_price_list_imports" ("price_list_id");
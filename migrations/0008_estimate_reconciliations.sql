@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS "estimate_reconciliations" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "session_id" integer NOT NULL REFERENCES "inspection_sessions"("id") ON DELETE CASCADE,
+  "claim_id" integer NOT NULL REFERENCES "claims"("id") ON DELETE CASCADE,
+  "name" varchar(200) NOT NULL,
+  "source_type" varchar(10) NOT NULL,
+  "file_name" text NOT NULL,
+  "contractor_lines" jsonb NOT NULL,
+  "accepted_rows" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "supplemental_id" integer REFERENCES "supplemental_claims"("id") ON DELETE SET NULL,
+  "created_by" varchar REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "estimate_reconciliations_session_id_idx" ON "estimate_reconciliations" ("session_id");
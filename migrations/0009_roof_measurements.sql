@@ -0,0 +1,8 @@
+ALTER TABLE "line_items" ADD COLUMN IF NOT EXISTS "dimension_provenance" varchar(20);
+ALTER TABLE "scope_items" ADD COLUMN IF NOT EXISTS "dimension_provenance" varchar(20);
+
+-- Roof line items take their quantities from measured roof lines
+UPDATE "scope_line_items" SET "quantity_formula" = 'RIDGE_LF' WHERE "code" = 'RFG-RIDGE-LF';
+UPDATE "scope_line_items" SET "quantity_formula" = 'DRIP_EDGE_LF' WHERE "code" = 'RFG-DRIP-LF';
+UPDATE "scope_line_items" SET "quantity_formula" = 'VALLEY_LF' WHERE "code" = 'RFG-VALLEY-LF';
+UPDATE "scope_line_items" SET "quantity_formula" = 'FLASHING_LF' WHERE "code" = 'RFG-FLASH-LF';
@@ -0,0 +1,29 @@
+CREATE TABLE IF NOT EXISTS "depreciation_schedules" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "name" varchar(200) NOT NULL,
+  "carrier_code" varchar(50),
+  "description" text,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_by" varchar REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "depreciation_schedules_carrier_code_idx" ON "depreciation_schedules" ("carrier_code");
+
+CREATE TABLE IF NOT EXISTS "depreciation_schedule_versions" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "schedule_id" integer NOT NULL REFERENCES "depreciation_schedules"("id") ON DELETE CASCADE,
+  "version" integer NOT NULL,
+  "effective_from" varchar(10) NOT NULL,
+  "life_expectancy" jsonb NOT NULL,
+  "roof_payment_schedule" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "notes" text,
+  "created_by" varchar REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "depreciation_schedule_versions_schedule_version_unique" ON "depreciation_schedule_versions" ("schedule_id", "version");
+
+ALTER TABLE "claims" ADD COLUMN IF NOT EXISTS "depreciation_schedule_id" integer REFERENCES "depreciation_schedules"("id") ON DELETE SET NULL;
+ALTER TABLE "line_items" ADD COLUMN IF NOT EXISTS "depreciation_schedule_version_id" integer REFERENCES "depreciation_schedule_versions"("id") ON DELETE SET NULL;
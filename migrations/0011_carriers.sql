@@ -0,0 +1,32 @@
+CREATE TABLE IF NOT EXISTS "carriers" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "code" varchar(50) NOT NULL,
+  "name" varchar(200) NOT NULL,
+  "xactnet_carrier_id" varchar(50),
+  "naic_code" varchar(10),
+  "op_threshold" integer DEFAULT 3 NOT NULL,
+  "tax_on_op" boolean DEFAULT false NOT NULL,
+  "tax_on_labor" boolean DEFAULT true NOT NULL,
+  "depreciation_basis" varchar(20) DEFAULT 'rcv_full' NOT NULL,
+  "overhead_pct" real DEFAULT 10 NOT NULL,
+  "profit_pct" real DEFAULT 10 NOT NULL,
+  "op_excluded_trades" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "apply_roof_schedule" boolean DEFAULT false NOT NULL,
+  "labor_efficiency" real DEFAULT 100 NOT NULL,
+  "notes" text,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "carriers_code_unique" ON "carriers" ("code");
+
+ALTER TABLE "claims" ADD COLUMN IF NOT EXISTS "carrier_id" integer REFERENCES "carriers"("id") ON DELETE SET NULL;
+
+-- Profiles previously hardcoded in settlementRules.ts
+INSERT INTO "carriers" ("code", "name", "op_threshold", "tax_on_op", "tax_on_labor", "depreciation_basis", "overhead_pct", "profit_pct", "op_excluded_trades", "apply_roof_schedule", "notes")
+VALUES
+  ('CARRIER_STATE_FARM', 'State Farm', 3, false, false, 'rcv_before_op', 12, 8, '["MIT"]'::jsonb, true, 'FL-specific: non-taxable labor, roof depreciation'),
+  ('CARRIER_ALLSTATE', 'Allstate', 2, false, true, 'rcv_before_op', 10, 10, '["MIT","DEM"]'::jsonb, false, '2-trade O&P threshold, non-taxable O&P'),
+  ('CARRIER_HOMEOWNERS_STANDARD', 'Standard Homeowners', 3, false, true, 'rcv_full', 15, 15, '[]'::jsonb, false, 'High O&P rates')
+ON CONFLICT ("code") DO NOTHING;
@@ -0,0 +1,18 @@
+ALTER TABLE "xact_sales_tax" ADD COLUMN IF NOT EXISTS "jurisdiction_id" varchar(64);
+ALTER TABLE "xact_burden_tax" ADD COLUMN IF NOT EXISTS "jurisdiction_id" varchar(64);
+CREATE INDEX IF NOT EXISTS "xact_sales_tax_jurisdiction_idx" ON "xact_sales_tax" ("jurisdiction_id");
+CREATE INDEX IF NOT EXISTS "xact_burden_tax_jurisdiction_idx" ON "xact_burden_tax" ("jurisdiction_id");
+
+CREATE TABLE IF NOT EXISTS "tax_jurisdiction_areas" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "jurisdiction_id" varchar(64) NOT NULL REFERENCES "xact_jurisdiction"("id") ON DELETE CASCADE,
+  "state" varchar(2) NOT NULL,
+  "zip_prefix" varchar(10),
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "tax_jurisdiction_areas_state_idx" ON "tax_jurisdiction_areas" ("state");
+
+ALTER TABLE "claims" ADD COLUMN IF NOT EXISTS "tax_jurisdiction_id" varchar(64) REFERENCES "xact_jurisdiction"("id") ON DELETE SET NULL;
+
+ALTER TABLE "tax_rules" ADD COLUMN IF NOT EXISTS "source" varchar(20) DEFAULT 'manual' NOT NULL;
@@ -0,0 +1 @@
+ALTER TABLE "line_items" ADD COLUMN IF NOT EXISTS "xact_minimum_id" varchar(32) REFERENCES "xact_minimum"("id") ON DELETE SET NULL;
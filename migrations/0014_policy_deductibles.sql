@@ -0,0 +1,5 @@
+ALTER TABLE "policy_rules" ADD COLUMN IF NOT EXISTS "deductible_type" varchar(20) DEFAULT 'flat' NOT NULL;
+ALTER TABLE "policy_rules" ADD COLUMN IF NOT EXISTS "deductible_pct" real;
+ALTER TABLE "policy_rules" ADD COLUMN IF NOT EXISTS "peril_deductibles" jsonb DEFAULT '[]'::jsonb;
+ALTER TABLE "policy_rules" ADD COLUMN IF NOT EXISTS "coinsurance_pct" real;
+ALTER TABLE "policy_rules" ADD COLUMN IF NOT EXISTS "replacement_cost_value" real;
@@ -0,0 +1,2 @@
+ALTER TABLE "policy_rules" ADD COLUMN IF NOT EXISTS "sublimits" jsonb DEFAULT '[]'::jsonb;
+ALTER TABLE "line_items" ADD COLUMN IF NOT EXISTS "sublimit_key" varchar(40);
@@ -0,0 +1,2 @@
+ALTER TABLE "line_items" ADD COLUMN IF NOT EXISTS "is_code_upgrade" boolean DEFAULT false;
+ALTER TABLE "line_items" ADD COLUMN IF NOT EXISTS "incurred_at" timestamp;
@@ -0,0 +1,28 @@
+ALTER TABLE "moisture_readings" ADD COLUMN IF NOT EXISTS "reading_date" varchar(10);
+
+CREATE TABLE IF NOT EXISTS "atmospheric_readings" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "session_id" integer NOT NULL REFERENCES "inspection_sessions"("id") ON DELETE CASCADE,
+  "room_id" integer REFERENCES "inspection_rooms"("id") ON DELETE CASCADE,
+  "reading_date" varchar(10) NOT NULL,
+  "placement" varchar(20) DEFAULT 'affected' NOT NULL,
+  "temperature_f" real NOT NULL,
+  "relative_humidity" real NOT NULL,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "atmospheric_readings_session_id_idx" ON "atmospheric_readings" ("session_id");
+
+CREATE TABLE IF NOT EXISTS "drying_equipment" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "session_id" integer NOT NULL REFERENCES "inspection_sessions"("id") ON DELETE CASCADE,
+  "room_id" integer NOT NULL REFERENCES "inspection_rooms"("id") ON DELETE CASCADE,
+  "equipment_type" varchar(30) NOT NULL,
+  "quantity" integer DEFAULT 1 NOT NULL,
+  "placed_on" varchar(10) NOT NULL,
+  "removed_on" varchar(10),
+  "notes" text,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "drying_equipment_session_id_idx" ON "drying_equipment" ("session_id");
@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS "matching_assessments" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "session_id" integer NOT NULL REFERENCES "inspection_sessions"("id") ON DELETE CASCADE,
+  "room_id" integer NOT NULL REFERENCES "inspection_rooms"("id") ON DELETE CASCADE,
+  "material_availability" varchar(20) DEFAULT 'unknown' NOT NULL,
+  "line_of_sight" boolean DEFAULT true NOT NULL,
+  "continuous" boolean DEFAULT true NOT NULL,
+  "notes" text,
+  "recommendation" varchar(20) DEFAULT 'none' NOT NULL,
+  "recommendation_reason" text,
+  "rule_state" varchar(2),
+  "applied_at" timestamp,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "matching_assessments_room_unique" ON "matching_assessments" ("room_id");
+CREATE INDEX IF NOT EXISTS "matching_assessments_session_id_idx" ON "matching_assessments" ("session_id");
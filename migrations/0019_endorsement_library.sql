@@ -0,0 +1,20 @@
+ALTER TABLE "claims" ADD COLUMN IF NOT EXISTS "settlement_overrides" jsonb DEFAULT '{}'::jsonb;
+ALTER TABLE "policy_rules" ADD COLUMN IF NOT EXISTS "exclusions" jsonb DEFAULT '[]'::jsonb;
+
+CREATE TABLE IF NOT EXISTS "endorsement_proposals" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "claim_id" integer NOT NULL REFERENCES "claims"("id") ON DELETE CASCADE,
+  "endorsement_id" varchar(40) NOT NULL,
+  "form_number" varchar(20) NOT NULL,
+  "effect" varchar(40) NOT NULL,
+  "title" text NOT NULL,
+  "summary" text NOT NULL,
+  "policy_rule_change" jsonb,
+  "settlement_rule_change" jsonb,
+  "status" varchar(20) DEFAULT 'pending' NOT NULL,
+  "decided_by" varchar REFERENCES "users"("id"),
+  "decided_at" timestamp,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "endorsement_proposals_claim_form_effect_unique" ON "endorsement_proposals" ("claim_id", "form_number", "effect");
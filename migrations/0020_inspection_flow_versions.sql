@@ -0,0 +1,28 @@
+CREATE TABLE IF NOT EXISTS "inspection_flow_versions" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "flow_id" integer NOT NULL REFERENCES "inspection_flows"("id") ON DELETE CASCADE,
+  "version" integer NOT NULL,
+  "name" text NOT NULL,
+  "description" text,
+  "steps" jsonb NOT NULL,
+  "changelog" text NOT NULL,
+  "changes" jsonb,
+  "published_by" varchar REFERENCES "users"("id"),
+  "published_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "inspection_flow_versions_flow_version_unique" ON "inspection_flow_versions" ("flow_id", "version");
+
+ALTER TABLE "inspection_sessions" ADD COLUMN IF NOT EXISTS "active_flow_version_id" integer REFERENCES "inspection_flow_versions"("id") ON DELETE SET NULL;
+
+-- Existing flows become version 1 as they stand today, and sessions already
+-- following a flow are pinned to it
+INSERT INTO "inspection_flow_versions" ("flow_id", "version", "name", "description", "steps", "changelog", "published_by")
+SELECT f."id", 1, f."name", f."description", f."steps", 'Initial version', f."user_id"
+FROM "inspection_flows" f
+WHERE NOT EXISTS (SELECT 1 FROM "inspection_flow_versions" v WHERE v."flow_id" = f."id");
+
+UPDATE "inspection_sessions" s
+SET "active_flow_version_id" = v."id"
+FROM "inspection_flow_versions" v
+WHERE v."flow_id" = s."active_flow_id" AND v."version" = 1 AND s."active_flow_version_id" IS NULL;
@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS "gate_rule_packs" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "name" varchar(200) NOT NULL,
+  "description" text,
+  "carrier_id" integer REFERENCES "carriers"("id") ON DELETE CASCADE,
+  "flow_id" integer REFERENCES "inspection_flows"("id") ON DELETE CASCADE,
+  "rules" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "severity_overrides" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_by" varchar REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "gate_rule_packs_carrier_id_idx" ON "gate_rule_packs" ("carrier_id");
+CREATE INDEX IF NOT EXISTS "gate_rule_packs_flow_id_idx" ON "gate_rule_packs" ("flow_id");
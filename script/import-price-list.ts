@@ -0,0 +1,39 @@
+/**
+ * Import an XACTDOC price list from XACT_PRICE_LIST_DIR.
+ *
+ *   npm run db:import-price-list -- FLFM8X_NOV22.xml [REGION_ID]
+ *   npm run db:import-price-list -- --resume <importId>
+ */
+import { storage } from "../server/storage";
+import { resolvePriceListFile, runPriceListImport } from "../server/xactPriceListImporter";
+
+async function main() {
+  const args = process.argv.slice(2);
+  let importId: number;
+
+  if (args[0] === "--resume") {
+    importId = parseInt(args[1], 10);
+    if (isNaN(importId)) throw new Error("Usage: --resume <importId>");
+  } else {
+    const [fileName, regionId] = args;
+    if (!fileName) throw new Error("Usage: import-price-list <fileName> [regionId]");
+    if (!resolvePriceListFile(fileName)) throw new Error(`${fileName} is outside the price list directory`);
+    const run = await storage.createPriceListImport({
+      fileName,
+      regionId: regionId ? regionId.toUpperCase() : null,
+      status: "pending",
+    });
+    importId = run.id;
+  }
+
+  console.log(`Running price list import ${importId}...`);
+  const result = await runPriceListImport(importId);
+  console.log(JSON.stringify({ counts: result.counts, diff: result.diff }, null, 2));
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error("Price list import failed:", err);
+    process.exit(1);
+  });
@@ -0,0 +1,91 @@
+import type { ClaimPayment, InsertClaimPayment } from "@shared/schema";
+
+// ── Claim Payments Ledger ──
+//
+// The ledger is append-only. Voiding writes an offsetting negative entry and
+// reissuing writes a new payment that references the voided one, so the
+// full history of every check or EFT stays visible for audit.
+
+export const PAYMENT_TYPES = ["advance", "acv", "rd", "supplement"] as const;
+export type PaymentType = typeof PAYMENT_TYPES[number];
+
+export const PAYMENT_METHODS = ["check", "eft"] as const;
+
+/**
+ * Payment types netted against the ACV settlement. RD payments are drawn
+ * from the recoverable depreciation holdback, not the ACV net claim.
+ */
+export const SETTLEMENT_OFFSET_TYPES: readonly PaymentType[] = ["advance", "acv", "supplement"];
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+export function voidedPaymentIds(entries: ClaimPayment[]): Set<number> {
+  return new Set(
+    entries
+      .filter(e => e.entryType === "void" && e.relatedPaymentId != null)
+      .map(e => e.relatedPaymentId!),
+  );
+}
+
+/** Payments (original or reissued) that have not been voided. */
+export function activePayments(entries: ClaimPayment[]): ClaimPayment[] {
+  const voided = voidedPaymentIds(entries);
+  return entries.filter(e => e.entryType !== "void" && !voided.has(e.id));
+}
+
+/**
+ * Net amount paid per coverage, for the payment types that offset the
+ * settlement. Voids cancel their originals, so only active payments count.
+ */
+export function priorPaymentsByCoverage(
+  entries: ClaimPayment[],
+  types: readonly string[] = SETTLEMENT_OFFSET_TYPES,
+): Array<{ coverageType: string; amount: number }> {
+  const byCoverage = new Map<string, number>();
+  for (const payment of activePayments(entries)) {
+    if (!types.includes(payment.paymentType)) continue;
+    byCoverage.set(payment.coverageType, (byCoverage.get(payment.coverageType) || 0) + (Number(payment.amount) || 0));
+  }
+  return Array.from(byCoverage.entries()).map(([coverageType, amount]) => ({ coverageType, amount: round2(amount) }));
+}
+
+/** Returns a reason the payment cannot be voided, or null. */
+export function validateVoid(entries: ClaimPayment[], payment: ClaimPayment): string | null {
+  if (payment.entryType === "void") return "Void entries cannot themselves be voided";
+  if (voidedPaymentIds(entries).has(payment.id)) return "Payment has already been voided";
+  return null;
+}
+
+/** Builds the offsetting entry that voids a payment. */
+export function buildVoidEntry(payment: ClaimPayment, issuedBy: string | null, memo?: string): InsertClaimPayment {
+  return {
+    claimId: payment.claimId,
+    entryType: "void",
+    paymentType: payment.paymentType,
+    coverageType: payment.coverageType,
+    payee: payment.payee,
+    mortgagee: payment.mortgagee,
+    amount: -Math.abs(Number(payment.amount) || 0),
+    method: payment.method,
+    reference: payment.reference,
+    relatedPaymentId: payment.id,
+    memo: memo ?? null,
+    issuedBy,
+  };
+}
+
+export function summarizePayments(entries: ClaimPayment[]) {
+  const active = activePayments(entries);
+  const byType: Record<string, number> = {};
+  for (const payment of active) {
+    byType[payment.paymentType] = round2((byType[payment.paymentType] || 0) + (Number(payment.amount) || 0));
+  }
+  return {
+    totalPaid: round2(active.reduce((s, p) => s + (Number(p.amount) || 0), 0)),
+    byType,
+    byCoverage: priorPaymentsByCoverage(entries, PAYMENT_TYPES),
+    voidedCount: voidedPaymentIds(entries).size,
+  };
+}
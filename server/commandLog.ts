@@ -0,0 +1,352 @@
+import type { IStorage } from "./storage";
+import { emit, type InspectionEvent } from "./events";
+import type { DamageObservation, InspectionRoom, InspectionSessionEvent, Structure } from "@shared/schema";
+
+// ── Undoable command log ──
+//
+// Every mutating voice action is written to the session event log as a
+// command: the row-level operations it performed and the operations that
+// reverse them. Undo and redo are events too, so the undo and redo stacks are
+// rebuilt by replaying the log and nothing is ever rewritten.
+//
+// Undoing a delete (or redoing a create) inserts a fresh row with a new id.
+// The new id is stored on the undo/redo event and later operations that name
+// the old id, directly or through a foreign key, are redirected to it.
+//
+// Undo and redo emit the same inspection events as the original edits, so
+// subscribers such as the minimum charge sync see the restored rows.
+
+export const COMMAND_EXECUTED = "command.executed";
+export const COMMAND_UNDONE = "command.undone";
+export const COMMAND_REDONE = "command.redone";
+
+export type CommandEntity = "structure" | "room" | "opening" | "annotation" | "damage" | "lineItem" | "scopeItem";
+
+type Row = Record<string, unknown>;
+
+export type CommandOp =
+  | { op: "create"; entity: CommandEntity; id: number; values: Row }
+  | { op: "delete"; entity: CommandEntity; id: number; values: Row }
+  | { op: "update"; entity: CommandEntity; id: number; set: Row; previous: Row };
+
+export interface CommandInput {
+  tool: string;
+  label: string;
+  ops: CommandOp[];
+}
+
+export interface CommandEntry extends CommandInput {
+  id: number;
+  inverse: CommandOp[];
+  at: Date;
+}
+
+export interface CommandHistory {
+  /** Most recent last */
+  undo: CommandEntry[];
+  /** Most recently undone last */
+  redo: CommandEntry[];
+  /** "entity:id" → id of the row that replaced it */
+  ids: Map<string, number>;
+}
+
+interface EntityStore {
+  create(storage: IStorage, values: any): Promise<{ id: number }>;
+  update(storage: IStorage, id: number, values: any): Promise<unknown>;
+  remove(storage: IStorage, id: number): Promise<void>;
+}
+
+const ENTITY_STORES: Record<CommandEntity, EntityStore> = {
+  structure: {
+    create: (s, v) => s.createStructure(v),
+    update: (s, id, v) => s.updateStructure(id, v),
+    remove: (s, id) => s.deleteStructure(id, true),
+  },
+  room: {
+    create: (s, v) => s.createRoom(v),
+    update: (s, id, v) => s.updateRoom(id, v),
+    remove: (s, id) => s.deleteRoom(id),
+  },
+  opening: {
+    create: (s, v) => s.createOpening(v),
+    update: (s, id, v) => s.updateOpening(id, v),
+    remove: (s, id) => s.deleteOpening(id),
+  },
+  annotation: {
+    create: (s, v) => s.createSketchAnnotation(v),
+    update: (s, id, v) => s.updateSketchAnnotation(id, v),
+    remove: (s, id) => s.deleteSketchAnnotation(id),
+  },
+  damage: {
+    create: (s, v) => s.createDamage(v),
+    update: (s, id, v) => s.updateDamage(id, v),
+    remove: (s, id) => s.deleteDamage(id),
+  },
+  lineItem: {
+    create: (s, v) => s.createLineItem(v),
+    update: (s, id, v) => s.updateLineItem(id, v),
+    remove: (s, id) => s.deleteLineItem(id),
+  },
+  scopeItem: {
+    create: (s, v) => s.createScopeItem(v),
+    update: (s, id, v) => s.updateScopeItem(id, v),
+    remove: (s, id) => s.deleteScopeItem(id),
+  },
+};
+
+/** Foreign keys whose ids may have been replaced by a re-created row */
+const REFERENCES: Record<string, CommandEntity> = {
+  structureId: "structure",
+  roomId: "room",
+  parentRoomId: "room",
+  damageId: "damage",
+  parentScopeItemId: "scopeItem",
+};
+
+/** Columns the database assigns on insert */
+const GENERATED_COLUMNS = new Set(["id", "createdAt", "updatedAt"]);
+
+const idKey = (entity: CommandEntity, id: number) => `${entity}:${id}`;
+
+function resolveId(ids: Map<string, number>, entity: CommandEntity, id: number): number {
+  let current = id;
+  for (let next = ids.get(idKey(entity, current)); next !== undefined; next = ids.get(idKey(entity, current))) {
+    current = next;
+  }
+  return current;
+}
+
+/**
+ * Prepares logged values for a write: timestamps come back from JSON as
+ * strings and references follow re-created rows.
+ */
+function writableValues(values: Row, ids: Map<string, number>): Row {
+  const out: Row = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (GENERATED_COLUMNS.has(key)) continue;
+    if (REFERENCES[key] && typeof value === "number") {
+      out[key] = resolveId(ids, REFERENCES[key], value);
+    } else if (key.endsWith("At") && typeof value === "string") {
+      out[key] = new Date(value);
+    } else {
+      out[key] = value;
+    }
+  }
+  return out;
+}
+
+export function invertOp(op: CommandOp): CommandOp {
+  switch (op.op) {
+    case "create":
+      return { op: "delete", entity: op.entity, id: op.id, values: op.values };
+    case "delete":
+      return { op: "create", entity: op.entity, id: op.id, values: op.values };
+    case "update":
+      return { op: "update", entity: op.entity, id: op.id, set: op.previous, previous: op.set };
+  }
+}
+
+export function invertOps(ops: CommandOp[]): CommandOp[] {
+  return [...ops].reverse().map(invertOp);
+}
+
+/** The fields of a row that an update is about to change, for its inverse. */
+export function previousValues(row: Row, set: Row): Row {
+  return Object.fromEntries(Object.keys(set).map((key) => [key, row[key] ?? null]));
+}
+
+// ── Cascading deletes ──
+//
+// Deleting a damage, room or structure also removes or detaches rows the
+// database cascades to. These describe the delete as operations on every
+// affected row, children first, so undo re-creates the parent before its
+// children and re-links the rows that were detached. Taken before the delete.
+
+function detachOps(entity: CommandEntity, rows: Row[], key: string): CommandOp[] {
+  return rows.map((row) => ({ op: "update", entity, id: row.id as number, set: { [key]: null }, previous: { [key]: row[key] } }));
+}
+
+export async function deleteDamageOps(storage: IStorage, damage: DamageObservation): Promise<CommandOp[]> {
+  const [lineItems, scopeItems] = await Promise.all([
+    storage.getLineItems(damage.sessionId),
+    storage.getScopeItemsForDamage(damage.id),
+  ]);
+  return [
+    ...detachOps("lineItem", lineItems.filter((i) => i.damageId === damage.id), "damageId"),
+    ...detachOps("scopeItem", scopeItems, "damageId"),
+    { op: "delete", entity: "damage", id: damage.id, values: damage },
+  ];
+}
+
+export async function deleteRoomOps(storage: IStorage, room: InspectionRoom): Promise<CommandOp[]> {
+  const ops: CommandOp[] = [];
+  for (const child of await storage.getChildRooms(room.id)) ops.push(...(await deleteRoomOps(storage, child)));
+  const [openings, annotations, damages, lineItems, scopeItems] = await Promise.all([
+    storage.getOpeningsForRoom(room.id),
+    storage.getSketchAnnotations(room.id),
+    storage.getDamages(room.id),
+    storage.getLineItemsForRoom(room.id),
+    storage.getScopeItemsForRoom(room.id),
+  ]);
+  for (const damage of damages) ops.push(...(await deleteDamageOps(storage, damage)));
+  ops.push(
+    ...openings.map((o): CommandOp => ({ op: "delete", entity: "opening", id: o.id, values: o })),
+    ...annotations.map((a): CommandOp => ({ op: "delete", entity: "annotation", id: a.id, values: a })),
+    ...detachOps("lineItem", lineItems, "roomId"),
+    ...detachOps("scopeItem", scopeItems, "roomId"),
+    { op: "delete", entity: "room", id: room.id, values: room },
+  );
+  return ops;
+}
+
+export async function deleteStructureOps(storage: IStorage, structure: Structure): Promise<CommandOp[]> {
+  const rooms = await storage.getRoomsForStructure(structure.id);
+  const ids = new Set(rooms.map((r) => r.id));
+  const ops: CommandOp[] = [];
+  // Child rooms are covered by their parent's operations
+  for (const room of rooms.filter((r) => r.parentRoomId == null || !ids.has(r.parentRoomId))) {
+    ops.push(...(await deleteRoomOps(storage, room)));
+  }
+  ops.push({ op: "delete", entity: "structure", id: structure.id, values: structure });
+  return ops;
+}
+
+export async function recordCommand(storage: IStorage, sessionId: number, command: CommandInput): Promise<void> {
+  if (command.ops.length === 0) return;
+  // Round-trip through JSON so the logged rows look the same now as when replayed
+  const ops = JSON.parse(JSON.stringify(command.ops)) as CommandOp[];
+  await storage.addSessionEvent({
+    sessionId,
+    type: COMMAND_EXECUTED,
+    payloadJson: { tool: command.tool, label: command.label, ops, inverse: invertOps(ops) },
+  });
+}
+
+/** Replays the session's command events into undo and redo stacks. */
+export function buildCommandHistory(events: InspectionSessionEvent[]): CommandHistory {
+  const history: CommandHistory = { undo: [], redo: [], ids: new Map() };
+  const ordered = events
+    .filter((e) => e.type === COMMAND_EXECUTED || e.type === COMMAND_UNDONE || e.type === COMMAND_REDONE)
+    .sort((a, b) => a.id - b.id);
+
+  for (const event of ordered) {
+    const payload = (event.payloadJson || {}) as Record<string, any>;
+    if (event.type === COMMAND_EXECUTED) {
+      history.undo.push({
+        id: event.id,
+        tool: payload.tool,
+        label: payload.label,
+        ops: payload.ops || [],
+        inverse: payload.inverse || invertOps(payload.ops || []),
+        at: event.ts,
+      });
+      history.redo = [];
+      continue;
+    }
+
+    for (const [key, id] of Object.entries((payload.ids || {}) as Record<string, number>)) {
+      history.ids.set(key, id);
+    }
+    const [from, to] = event.type === COMMAND_UNDONE ? [history.undo, history.redo] : [history.redo, history.undo];
+    const index = from.findIndex((c) => c.id === payload.commandId);
+    if (index >= 0) to.push(...from.splice(index, 1));
+  }
+  return history;
+}
+
+export async function getCommandHistory(storage: IStorage, sessionId: number): Promise<CommandHistory> {
+  return buildCommandHistory(await storage.getSessionEvents(sessionId));
+}
+
+/** Applies operations in order and returns the ids of any rows it re-created. */
+async function applyOps(storage: IStorage, ops: CommandOp[], ids: Map<string, number>): Promise<Record<string, number>> {
+  const created: Record<string, number> = {};
+  for (const op of ops) {
+    const store = ENTITY_STORES[op.entity];
+    const currentId = resolveId(ids, op.entity, op.id);
+    if (op.op === "create") {
+      const row = await store.create(storage, writableValues(op.values, ids));
+      ids.set(idKey(op.entity, currentId), row.id);
+      created[idKey(op.entity, currentId)] = row.id;
+    } else if (op.op === "delete") {
+      await store.remove(storage, currentId);
+    } else {
+      await store.update(storage, currentId, writableValues(op.set, ids));
+    }
+  }
+  return created;
+}
+
+/** Domain events for rows an undo or redo changed, so subscribers re-run. */
+function commandEvents(
+  sessionId: number,
+  ops: CommandOp[],
+  ids: Map<string, number>,
+  direction: "undo" | "redo",
+  userId?: string
+): InspectionEvent[] {
+  const events: InspectionEvent[] = [];
+  for (const op of ops) {
+    const id = resolveId(ids, op.entity, op.id);
+    const base = { sessionId, userId, meta: { replayed: direction } };
+    if (op.entity === "lineItem") {
+      const type = op.op === "create" ? "inspection.lineItemAdded" : op.op === "update" ? "inspection.lineItemUpdated" : "inspection.lineItemDeleted";
+      events.push({ ...base, type, meta: { ...base.meta, lineItemId: id } });
+    } else if (op.entity === "room" && op.op === "create") {
+      events.push({ ...base, type: "inspection.roomCreated", meta: { ...base.meta, roomId: id } });
+    } else if (op.entity === "room" && op.op === "update" && op.set.status === "complete") {
+      events.push({ ...base, type: "inspection.roomCompleted", meta: { ...base.meta, roomId: id } });
+    } else if (op.entity === "damage" && op.op === "create") {
+      const roomId = typeof op.values.roomId === "number" ? resolveId(ids, "room", op.values.roomId) : undefined;
+      events.push({ ...base, type: "inspection.damageAdded", meta: { ...base.meta, roomId, damageId: id } });
+    }
+  }
+  return events;
+}
+
+async function replay(
+  storage: IStorage,
+  sessionId: number,
+  direction: "undo" | "redo",
+  count: number,
+  userId?: string
+): Promise<CommandEntry[]> {
+  const history = await getCommandHistory(storage, sessionId);
+  const [from, to] = direction === "undo" ? [history.undo, history.redo] : [history.redo, history.undo];
+  const replayed: CommandEntry[] = [];
+
+  while (replayed.length < count && from.length > 0) {
+    const command = from[from.length - 1];
+    const ops = direction === "undo" ? command.inverse : command.ops;
+    // A command's ops and its undo/redo event commit together; if an op
+    // fails, nothing is changed and the command stays where it was.
+    const ids = new Map(history.ids);
+    await storage.transaction(async (tx) => {
+      const created = await applyOps(tx, ops, ids);
+      await tx.addSessionEvent({
+        sessionId,
+        type: direction === "undo" ? COMMAND_UNDONE : COMMAND_REDONE,
+        payloadJson: { commandId: command.id, ids: created },
+      });
+    });
+    history.ids = ids;
+    to.push(from.pop()!);
+    replayed.push(command);
+    for (const event of commandEvents(sessionId, ops, ids, direction, userId)) emit(event);
+  }
+
+  if (replayed.some((c) => c.ops.some((op) => op.entity === "scopeItem"))) {
+    await storage.recalculateScopeSummary(sessionId);
+  }
+  return replayed;
+}
+
+/** Reverses the last `count` commands, most recent first. */
+export function undoCommands(storage: IStorage, sessionId: number, count = 1, userId?: string): Promise<CommandEntry[]> {
+  return replay(storage, sessionId, "undo", count, userId);
+}
+
+/** Re-applies the last `count` undone commands, most recently undone first. */
+export function redoCommands(storage: IStorage, sessionId: number, count = 1, userId?: string): Promise<CommandEntry[]> {
+  return replay(storage, sessionId, "redo", count, userId);
+}
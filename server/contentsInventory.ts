@@ -0,0 +1,369 @@
+import { calculateDepreciation, lookupContentsLifeExpectancy } from "./depreciationEngine";
+import { CONTENTS_TRADE_CODE, type SettlementItemInput } from "./estimateEngine";
+import { readZipEntries } from "./zipReader";
+import type { ContentsItem, InsertContentsItem } from "@shared/schema";
+
+// ── Contents Inventory (Coverage C) ──
+
+export const CONTENTS_CONDITIONS = ["new", "good", "average", "fair", "poor"] as const;
+
+export type ContentsImportRow = Omit<InsertContentsItem, "claimId">;
+
+export interface ContentsImportResult {
+  rows: ContentsImportRow[];
+  errors: Array<{ row: number; message: string }>;
+}
+
+/** Per-unit replacement cost, falling back to what the insured paid. */
+export function contentsUnitPrice(item: Pick<ContentsItem, "replacementPrice" | "originalCost">): number {
+  return Number(item.replacementPrice ?? item.originalCost) || 0;
+}
+
+/**
+ * Resolves life expectancy and depreciation for a contents item. An explicit
+ * lifeExpectancy wins; otherwise the contents category table is used.
+ */
+export function priceContentsItem(item: {
+  description: string;
+  category?: string | null;
+  quantity?: number | null;
+  ageYears?: number | null;
+  replacementPrice?: number | null;
+  originalCost?: number | null;
+  lifeExpectancy?: number | null;
+  depreciationType?: string | null;
+}): { lifeExpectancy: number; depreciationPercentage: number; depreciationAmount: number } {
+  const quantity = item.quantity ?? 1;
+  const totalPrice = Math.round(quantity * contentsUnitPrice({
+    replacementPrice: item.replacementPrice ?? null,
+    originalCost: item.originalCost ?? null,
+  }) * 100) / 100;
+  const lifeExpectancy = item.lifeExpectancy != null
+    ? item.lifeExpectancy
+    : lookupContentsLifeExpectancy(item.category || "", item.description);
+
+  return calculateDepreciation({
+    totalPrice,
+    age: item.ageYears,
+    lifeExpectancy,
+    depreciationType: item.depreciationType || "Recoverable",
+  });
+}
+
+/**
+ * Maps contents inventory rows into calculateSettlement input under
+ * Coverage C. Contents carry no labor, so the whole price is taxable.
+ */
+export function contentsItemsToSettlementInputs(items: ContentsItem[]): SettlementItemInput[] {
+  return items.map((item) => {
+    const quantity = Number(item.quantity) || 0;
+    const unitPrice = contentsUnitPrice(item);
+    const totalPrice = Math.round(quantity * unitPrice * 100) / 100;
+    return {
+      id: item.id,
+      description: item.description,
+      category: item.category || "Contents",
+      tradeCode: CONTENTS_TRADE_CODE,
+      quantity,
+      unitPrice,
+      totalPrice,
+      age: item.ageYears ?? null,
+      lifeExpectancy: item.lifeExpectancy ?? lookupContentsLifeExpectancy(item.category || "", item.description),
+      depreciationPercentage: null,
+      depreciationType: item.depreciationType || "Recoverable",
+      coverageBucket: "Coverage C",
+      structure: "Contents",
+      laborCost: 0,
+      materialCost: totalPrice,
+    };
+  });
+}
+
+export interface ContentsReportItem {
+  lineNumber: number;
+  description: string;
+  category: string;
+  roomName: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  taxAmount: number;
+  originalCost: number | null;
+  replacementSource: string;
+  condition: string;
+  age: number | null;
+  lifeExpectancy: number | null;
+  depreciationType: string;
+  depreciationPercentage: number;
+  depreciationAmount: number;
+  acv: number;
+}
+
+export interface ContentsReport {
+  items: ContentsReportItem[];
+  subtotal: number;
+  totalTax: number;
+  totalDepreciation: number;
+  totalRecoverableDepreciation: number;
+  totalNonRecoverableDepreciation: number;
+  totalACV: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Prices the inventory for the ESX and PDF exports. Contents carry no labor,
+ * so tax applies to the full replacement cost; depreciation is the stored
+ * amount, which was computed on the pre-tax price.
+ */
+export function buildContentsReport(items: ContentsItem[], taxRatePct: number): ContentsReport {
+  const reportItems = items.map((item, idx): ContentsReportItem => {
+    const quantity = Number(item.quantity) || 0;
+    const unitPrice = contentsUnitPrice(item);
+    const totalPrice = round2(quantity * unitPrice);
+    const taxAmount = round2(totalPrice * (taxRatePct / 100));
+    const depreciationAmount = Number(item.depreciationAmount) || 0;
+    return {
+      lineNumber: idx + 1,
+      description: item.description,
+      category: item.category || "General",
+      roomName: item.roomName || "Contents",
+      quantity,
+      unitPrice,
+      totalPrice,
+      taxAmount,
+      originalCost: item.originalCost != null ? Number(item.originalCost) : null,
+      replacementSource: item.replacementSource || "",
+      condition: item.condition || "",
+      age: item.ageYears != null ? Number(item.ageYears) : null,
+      lifeExpectancy: item.lifeExpectancy != null ? Number(item.lifeExpectancy) : null,
+      depreciationType: item.depreciationType || "Recoverable",
+      depreciationPercentage: Number(item.depreciationPercentage) || 0,
+      depreciationAmount,
+      acv: round2(totalPrice + taxAmount - depreciationAmount),
+    };
+  });
+
+  const sum = (pick: (i: ContentsReportItem) => number) => round2(reportItems.reduce((s, i) => s + pick(i), 0));
+  const subtotal = sum(i => i.totalPrice);
+  const totalTax = sum(i => i.taxAmount);
+  const totalDepreciation = sum(i => i.depreciationAmount);
+  return {
+    items: reportItems,
+    subtotal,
+    totalTax,
+    totalDepreciation,
+    totalRecoverableDepreciation: sum(i => (i.depreciationType === "Recoverable" ? i.depreciationAmount : 0)),
+    totalNonRecoverableDepreciation: sum(i => (i.depreciationType === "Non-Recoverable" ? i.depreciationAmount : 0)),
+    totalACV: round2(subtotal + totalTax - totalDepreciation),
+  };
+}
+
+// ── Import (CSV / XLSX) ──
+
+const HEADER_ALIASES: Record<string, keyof ContentsImportRow> = {
+  description: "description",
+  item: "description",
+  itemdescription: "description",
+  category: "category",
+  room: "roomName",
+  location: "roomName",
+  quantity: "quantity",
+  qty: "quantity",
+  age: "ageYears",
+  ageyears: "ageYears",
+  yearsold: "ageYears",
+  condition: "condition",
+  originalcost: "originalCost",
+  purchaseprice: "originalCost",
+  pricepaid: "originalCost",
+  replacementsource: "replacementSource",
+  source: "replacementSource",
+  vendor: "replacementSource",
+  retailer: "replacementSource",
+  replacementprice: "replacementPrice",
+  replacementcost: "replacementPrice",
+  rcv: "replacementPrice",
+  notes: "notes",
+};
+
+const NUMERIC_FIELDS = new Set<keyof ContentsImportRow>(["quantity", "ageYears", "originalCost", "replacementPrice"]);
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, "");
+}
+
+function parseNumber(value: string): number | null {
+  const cleaned = value.replace(/[$,\s]/g, "");
+  if (!cleaned) return null;
+  const n = Number(cleaned);
+  return Number.isFinite(n) ? n : NaN;
+}
+
+/** RFC 4180 CSV parser: quoted fields, escaped quotes and embedded newlines. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const src = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+function decodeXmlEntities(s: string): string {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCharCode(Number(n)))
+    .replace(/&amp;/g, "&");
+}
+
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.replace(/\d+$/, "");
+  let idx = 0;
+  for (const ch of letters) idx = idx * 26 + (ch.charCodeAt(0) - 64);
+  return idx - 1;
+}
+
+/** Reads the first worksheet of an XLSX workbook as a grid of strings. */
+export function parseXlsxRows(buf: Buffer): string[][] {
+  const entries = readZipEntries(buf);
+  const sheetName = Array.from(entries.keys())
+    .filter((name) => /^xl\/worksheets\/sheet\d+\.xml$/.test(name))
+    .sort((a, b) => Number(a.match(/\d+/)![0]) - Number(b.match(/\d+/)![0]))[0];
+  if (!sheetName) throw new Error("Workbook has no worksheets");
+
+  const sharedStrings: string[] = [];
+  const sstXml = entries.get("xl/sharedStrings.xml")?.toString("utf8");
+  if (sstXml) {
+    for (const si of Array.from(sstXml.matchAll(/<si>([\s\S]*?)<\/si>/g))) {
+      const text = Array.from(si[1].matchAll(/<t[^>]*>([\s\S]*?)<\/t>/g)).map((t) => t[1]).join("");
+      sharedStrings.push(decodeXmlEntities(text));
+    }
+  }
+
+  const sheetXml = entries.get(sheetName)!.toString("utf8");
+  const rows: string[][] = [];
+  for (const rowMatch of Array.from(sheetXml.matchAll(/<row[^>]*>([\s\S]*?)<\/row>/g))) {
+    const row: string[] = [];
+    for (const cell of Array.from(rowMatch[1].matchAll(/<c\s([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+      const attrs = cell[1];
+      const body = cell[2] || "";
+      const ref = attrs.match(/r="([A-Z]+\d+)"/)?.[1];
+      const type = attrs.match(/t="([^"]+)"/)?.[1];
+      let value = "";
+      if (type === "inlineStr") {
+        value = decodeXmlEntities(Array.from(body.matchAll(/<t[^>]*>([\s\S]*?)<\/t>/g)).map((t) => t[1]).join(""));
+      } else {
+        const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? "";
+        value = type === "s" ? sharedStrings[Number(raw)] ?? "" : decodeXmlEntities(raw);
+      }
+      const idx = ref ? columnIndex(ref) : row.length;
+      while (row.length < idx) row.push("");
+      row[idx] = value;
+    }
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => (c || "").trim() !== ""));
+}
+
+/**
+ * Converts a header + data grid into contents rows. Unknown columns are
+ * ignored; rows without a description or with unparseable numbers are
+ * reported as errors (1-based, counting the header as row 1).
+ */
+export function mapInventoryRows(grid: string[][]): ContentsImportResult {
+  if (grid.length === 0) return { rows: [], errors: [{ row: 1, message: "File is empty" }] };
+
+  const fields = grid[0].map((h) => HEADER_ALIASES[normalizeHeader(h || "")]);
+  if (!fields.includes("description")) {
+    return { rows: [], errors: [{ row: 1, message: "Missing a Description column" }] };
+  }
+
+  const rows: ContentsImportRow[] = [];
+  const errors: ContentsImportResult["errors"] = [];
+
+  grid.slice(1).forEach((cells, i) => {
+    const rowNumber = i + 2;
+    const row: Record<string, unknown> = { source: "import" };
+    let invalid: string | null = null;
+
+    fields.forEach((field, col) => {
+      if (!field) return;
+      const value = (cells[col] ?? "").trim();
+      if (!value) return;
+      if (NUMERIC_FIELDS.has(field)) {
+        const n = parseNumber(value);
+        if (n === null) return;
+        if (Number.isNaN(n) || n < 0) {
+          invalid = `Invalid ${field}: "${value}"`;
+          return;
+        }
+        row[field] = n;
+      } else if (field === "condition") {
+        const condition = value.toLowerCase();
+        row.condition = (CONTENTS_CONDITIONS as readonly string[]).includes(condition) ? condition : null;
+      } else {
+        row[field] = value;
+      }
+    });
+
+    if (invalid) {
+      errors.push({ row: rowNumber, message: invalid });
+      return;
+    }
+    if (!row.description) {
+      errors.push({ row: rowNumber, message: "Missing description" });
+      return;
+    }
+    rows.push(row as ContentsImportRow);
+  });
+
+  return { rows, errors };
+}
+
+export function parseContentsInventory(buf: Buffer, fileName: string): ContentsImportResult {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".xlsx")) {
+    return mapInventoryRows(parseXlsxRows(buf));
+  }
+  if (lower.endsWith(".csv") || lower.endsWith(".txt")) {
+    return mapInventoryRows(parseCsv(buf.toString("utf8")));
+  }
+  throw new Error("Unsupported inventory file type; upload a .csv or .xlsx file");
+}
@@ -0,0 +1,113 @@
+// ── Deductibles & Coinsurance ──
+//
+// A coverage's deductible is flat dollars or a percentage of its limit, and a
+// peril-specific deductible (wind/hail, hurricane, named storm) replaces the
+// all-other-perils one when the claim's peril matches. Coinsurance reduces the
+// loss by the ratio of the limit carried to the limit required
+// (replacement cost × coinsurance %) before the deductible comes off.
+
+export type DeductibleType = "flat" | "percentage";
+
+export interface PerilDeductible {
+  peril: string;
+  type: DeductibleType;
+  /** Dollars for a flat deductible, percent of the limit for a percentage one */
+  amount: number;
+}
+
+export interface DeductibleTerms {
+  policyLimit: number | null;
+  deductible: number | null;
+  deductibleType?: string | null;
+  deductiblePct?: number | null;
+  perilDeductibles?: PerilDeductible[] | null;
+}
+
+export interface CoinsuranceTerms {
+  policyLimit: number | null;
+  coinsurancePct?: number | null;
+  replacementCostValue?: number | null;
+}
+
+export interface ResolvedDeductible {
+  amount: number;
+  type: DeductibleType;
+  /** Percent applied to the limit; null for flat deductibles */
+  pct: number | null;
+  /** Limit the percentage was taken of; null for flat deductibles */
+  basis: number | null;
+  /** Peril entry that matched, null for the all-other-perils deductible */
+  peril: string | null;
+}
+
+export interface CoinsuranceResult {
+  pct: number;
+  replacementCostValue: number;
+  requiredLimit: number;
+  /** Limit carried ÷ limit required, capped at 1 */
+  ratio: number;
+  penalty: number;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function normalizePeril(value: string): string {
+  return value.toLowerCase().replace(/[^a-z]+/g, " ").trim();
+}
+
+/** "wind" matches "Wind/Hail"; "named storm" matches "Hurricane - named storm". */
+export function perilMatches(deductiblePeril: string, claimPeril: string): boolean {
+  const wanted = normalizePeril(deductiblePeril);
+  return wanted.length > 0 && normalizePeril(claimPeril).includes(wanted);
+}
+
+function deductibleOf(type: DeductibleType, value: number, policyLimit: number | null, peril: string | null): ResolvedDeductible {
+  if (type === "percentage") {
+    const basis = policyLimit ?? null;
+    return { amount: basis != null ? round2(basis * value / 100) : 0, type, pct: value, basis, peril };
+  }
+  return { amount: Math.max(value, 0), type, pct: null, basis: null, peril };
+}
+
+/**
+ * Deductible that applies to a coverage for the claim's peril. A percentage
+ * deductible on a coverage with no limit resolves to zero.
+ */
+export function resolveDeductible(terms: DeductibleTerms | undefined, peril?: string | null): ResolvedDeductible {
+  if (!terms) return deductibleOf("flat", 0, null, null);
+
+  const perilDeductible = peril
+    ? (terms.perilDeductibles || []).find(p => perilMatches(p.peril, peril))
+    : undefined;
+  if (perilDeductible) {
+    return deductibleOf(perilDeductible.type, Number(perilDeductible.amount) || 0, terms.policyLimit, perilDeductible.peril);
+  }
+
+  if (terms.deductibleType === "percentage" && terms.deductiblePct != null) {
+    return deductibleOf("percentage", terms.deductiblePct, terms.policyLimit, null);
+  }
+  return deductibleOf("flat", terms.deductible || 0, null, null);
+}
+
+/**
+ * Coinsurance test for a loss. Returns null when the coverage has no
+ * coinsurance clause or no replacement cost has been entered; a ratio of 1
+ * means the requirement is met and there is no penalty.
+ */
+export function calculateCoinsurance(loss: number, terms: CoinsuranceTerms | undefined): CoinsuranceResult | null {
+  const pct = terms?.coinsurancePct;
+  const replacementCostValue = terms?.replacementCostValue;
+  if (!pct || !replacementCostValue || terms?.policyLimit == null) return null;
+
+  const requiredLimit = round2(replacementCostValue * pct / 100);
+  const ratio = Math.min(1, terms.policyLimit / requiredLimit);
+  return {
+    pct,
+    replacementCostValue,
+    requiredLimit,
+    ratio: Math.round(ratio * 10000) / 10000,
+    penalty: round2(Math.max(loss, 0) * (1 - ratio)),
+  };
+}
@@ -1,8 +1,28 @@
-type CategoryEntry = {
+export type CategoryEntry = {
   keywords: Array<{ match: string; life: number }>;
   default: number;
 };
 
+/**
+ * One row of a carrier roof payment schedule: roofing whose description
+ * contains `material` (blank = any material) and whose age is at most
+ * `maxAge` is paid at `paymentPercent` of RCV.
+ */
+export type RoofPaymentBand = {
+  material: string;
+  maxAge: number;
+  paymentPercent: number;
+};
+
+/**
+ * A carrier depreciation schedule as the engine consumes it. Functions that
+ * take one fall back to LIFE_EXPECTANCY_TABLE when it is absent.
+ */
+export type DepreciationTable = {
+  lifeExpectancy: Record<string, CategoryEntry>;
+  roofPaymentSchedule?: RoofPaymentBand[];
+};
+
 export const LIFE_EXPECTANCY_TABLE: Record<string, CategoryEntry> = {
   roofing: {
     keywords: [
@@ -140,16 +160,24 @@ const TRADE_CODE_TO_CATEGORY: Record<string, string> = {
   gen: "general",
 };
 
-export function lookupLifeExpectancy(category: string, description: string): number {
+function structuralCategory(category: string): string {
   const catLower = category.toLowerCase().trim();
+  return TRADE_CODE_TO_CATEGORY[catLower] || catLower;
+}
+
+export function lookupLifeExpectancy(
+  category: string,
+  description: string,
+  table: Record<string, CategoryEntry> = LIFE_EXPECTANCY_TABLE
+): number {
   const descLower = description.toLowerCase().trim();
 
-  const mappedCat = TRADE_CODE_TO_CATEGORY[catLower] || catLower;
+  const mappedCat = structuralCategory(category);
 
-  const entry = LIFE_EXPECTANCY_TABLE[mappedCat];
+  const entry = table[mappedCat];
 
   if (!entry) {
-    for (const [tableCat, tableEntry] of Object.entries(LIFE_EXPECTANCY_TABLE)) {
+    for (const [tableCat, tableEntry] of Object.entries(table)) {
       for (const kw of tableEntry.keywords) {
         if (descLower.includes(kw.match)) {
           return kw.life;
@@ -171,6 +199,120 @@ export function lookupLifeExpectancy(category: string, description: string): num
   return entry.default;
 }
 
+/**
+ * Percent of RCV a roof payment schedule pays for a roofing item of the given
+ * age. Bands naming a material found in the description win over blank
+ * (any-material) bands; past the oldest band the last band applies.
+ * Returns null when no band covers the item.
+ */
+export function lookupRoofPaymentPercent(
+  bands: RoofPaymentBand[],
+  description: string,
+  age: number
+): number | null {
+  const descLower = description.toLowerCase();
+  const materialBands = bands.filter(b => b.material.trim() && descLower.includes(b.material.toLowerCase().trim()));
+  const candidates = (materialBands.length > 0 ? materialBands : bands.filter(b => !b.material.trim()))
+    .slice()
+    .sort((a, b) => a.maxAge - b.maxAge);
+  if (candidates.length === 0) return null;
+  const band = candidates.find(b => age <= b.maxAge) ?? candidates[candidates.length - 1];
+  return band.paymentPercent;
+}
+
+/**
+ * Useful life (years) for Coverage C personal property, keyed by contents
+ * category. Kept separate from the structural table so a contents category
+ * like "appliances" never shadows a building component lookup.
+ */
+export const CONTENTS_LIFE_EXPECTANCY_TABLE: Record<string, CategoryEntry> = {
+  electronics: {
+    keywords: [
+      { match: "television", life: 7 },
+      { match: "laptop", life: 4 },
+      { match: "computer", life: 5 },
+      { match: "phone", life: 3 },
+      { match: "tablet", life: 4 },
+      { match: "camera", life: 6 },
+      { match: "speaker", life: 10 },
+    ],
+    default: 5,
+  },
+  appliances: {
+    keywords: [
+      { match: "refrigerator", life: 13 },
+      { match: "washer", life: 11 },
+      { match: "dryer", life: 13 },
+      { match: "microwave", life: 9 },
+      { match: "vacuum", life: 8 },
+    ],
+    default: 10,
+  },
+  furniture: {
+    keywords: [
+      { match: "mattress", life: 10 },
+      { match: "sofa", life: 15 },
+      { match: "upholstered", life: 15 },
+      { match: "office chair", life: 10 },
+      { match: "solid wood", life: 25 },
+    ],
+    default: 20,
+  },
+  clothing: {
+    keywords: [
+      { match: "coat", life: 5 },
+      { match: "shoes", life: 3 },
+      { match: "suit", life: 6 },
+      { match: "children", life: 2 },
+    ],
+    default: 4,
+  },
+  linens: { keywords: [{ match: "towel", life: 4 }], default: 5 },
+  kitchenware: {
+    keywords: [
+      { match: "cookware", life: 10 },
+      { match: "small appliance", life: 7 },
+      { match: "china", life: 30 },
+    ],
+    default: 10,
+  },
+  tools: {
+    keywords: [
+      { match: "power tool", life: 10 },
+      { match: "hand tool", life: 20 },
+      { match: "lawn mower", life: 10 },
+    ],
+    default: 12,
+  },
+  "sporting goods": { keywords: [{ match: "bicycle", life: 10 }], default: 8 },
+  toys: { keywords: [], default: 5 },
+  books: { keywords: [], default: 20 },
+  decor: { keywords: [{ match: "rug", life: 15 }, { match: "lamp", life: 15 }], default: 15 },
+  jewelry: { keywords: [], default: 0 },
+  collectibles: { keywords: [], default: 0 },
+  general: { keywords: [], default: 10 },
+};
+
+export function lookupContentsLifeExpectancy(category: string, description: string): number {
+  const catLower = (category || "").toLowerCase().trim();
+  const descLower = (description || "").toLowerCase().trim();
+
+  const entry = CONTENTS_LIFE_EXPECTANCY_TABLE[catLower];
+  if (entry) {
+    for (const kw of entry.keywords) {
+      if (descLower.includes(kw.match)) return kw.life;
+    }
+    return entry.default;
+  }
+
+  for (const tableEntry of Object.values(CONTENTS_LIFE_EXPECTANCY_TABLE)) {
+    for (const kw of tableEntry.keywords) {
+      if (descLower.includes(kw.match)) return kw.life;
+    }
+  }
+  return CONTENTS_LIFE_EXPECTANCY_TABLE.general.default;
+}
+
 export function calculateDepreciation(params: {
   totalPrice: number;
   age?: number | null;
@@ -183,6 +325,7 @@ export function calculateDepreciation(params: {
     category?: number;
     waterClass?: number;
   };
+  schedule?: DepreciationTable | null;
 }): {
   lifeExpectancy: number;
   depreciationPercentage: number;
@@ -208,12 +351,22 @@ export function calculateDepreciation(params: {
   const lifeExpectancy =
     params.lifeExpectancy != null
       ? params.lifeExpectancy
-      : lookupLifeExpectancy(params.category || "", params.description || "");
+      : lookupLifeExpectancy(params.category || "", params.description || "", params.schedule?.lifeExpectancy);
 
   if (!params.age) {
     return { lifeExpectancy, depreciationPercentage: 0, depreciationAmount: 0 };
   }
 
+  const roofBands = params.schedule?.roofPaymentSchedule ?? [];
+  if (roofBands.length > 0 && [params.tradeCode, params.category].some(c => c && structuralCategory(c) === "roofing")) {
+    const paymentPercent = lookupRoofPaymentPercent(roofBands, params.description || "", params.age);
+    if (paymentPercent != null) {
+      const depreciationPercentage = Math.round(Math.max(0, Math.min(100, 100 - paymentPercent)) * 100) / 100;
+      const depreciationAmount = Math.round(params.totalPrice * depreciationPercentage / 100 * 100) / 100;
+      return { lifeExpectancy, depreciationPercentage, depreciationAmount };
+    }
+  }
+
   if (lifeExpectancy === 0) {
     return { lifeExpectancy: 0, depreciationPercentage: 0, depreciationAmount: 0 };
   }
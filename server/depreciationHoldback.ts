@@ -0,0 +1,113 @@
+import type { DepreciationHoldback, HoldbackProof, HoldbackRelease } from "@shared/schema";
+
+// ── Recoverable Depreciation Holdback ──
+//
+// After the ACV payment, recoverable depreciation is withheld per coverage
+// until the insured proves the repairs were completed. This module holds the
+// ledger math; routes handle persistence and events.
+
+export const HOLDBACK_STATUSES = ["open", "partially_released", "released", "closed"] as const;
+export type HoldbackStatus = typeof HOLDBACK_STATUSES[number];
+
+/** Typical policy window for completing repairs after the ACV payment. */
+export const DEFAULT_REPAIR_WINDOW_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface HoldbackLedger {
+  holdback: DepreciationHoldback;
+  withheld: number;
+  released: number;
+  remaining: number;
+  status: HoldbackStatus;
+  deadlinePassed: boolean;
+  daysUntilDeadline: number | null;
+  proofs: HoldbackProof[];
+  releases: HoldbackRelease[];
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Derives status from the amounts released. "closed" is set explicitly by
+ * the adjuster (e.g. the insured chose not to repair) and always sticks.
+ */
+export function holdbackStatus(current: string | null | undefined, withheld: number, released: number): HoldbackStatus {
+  if (current === "closed") return "closed";
+  if (released <= 0) return "open";
+  return released >= withheld - 0.005 ? "released" : "partially_released";
+}
+
+export function defaultRepairDeadline(from: Date = new Date()): Date {
+  return new Date(from.getTime() + DEFAULT_REPAIR_WINDOW_DAYS * DAY_MS);
+}
+
+export function buildHoldbackLedger(
+  holdback: DepreciationHoldback,
+  proofs: HoldbackProof[],
+  releases: HoldbackRelease[],
+  now: Date = new Date(),
+): HoldbackLedger {
+  const ownProofs = proofs.filter(p => p.holdbackId === holdback.id);
+  const ownReleases = releases.filter(r => r.holdbackId === holdback.id);
+  const withheld = round2(Number(holdback.withheldAmount) || 0);
+  const released = round2(ownReleases.reduce((s, r) => s + (Number(r.amount) || 0), 0));
+  const deadline = holdback.repairDeadline ? new Date(holdback.repairDeadline) : null;
+
+  return {
+    holdback,
+    withheld,
+    released,
+    remaining: round2(Math.max(0, withheld - released)),
+    status: holdbackStatus(holdback.status, withheld, released),
+    deadlinePassed: deadline != null && deadline.getTime() < now.getTime(),
+    daysUntilDeadline: deadline ? Math.ceil((deadline.getTime() - now.getTime()) / DAY_MS) : null,
+    proofs: ownProofs,
+    releases: ownReleases,
+  };
+}
+
+/**
+ * Returns a reason the release cannot be made, or null when it is allowed.
+ */
+export function validateRelease(
+  ledger: HoldbackLedger,
+  amount: number,
+  options: { overrideDeadline?: boolean } = {},
+): string | null {
+  if (ledger.status === "closed") return "Holdback is closed";
+  if (ledger.remaining <= 0) return "Recoverable depreciation has already been fully released";
+  if (!(amount > 0)) return "Release amount must be greater than zero";
+  if (round2(amount) > ledger.remaining) {
+    return `Release amount exceeds the remaining holdback of ${ledger.remaining.toFixed(2)}`;
+  }
+  if (ledger.proofs.length === 0) return "Upload proof of repair before releasing depreciation";
+  if (ledger.deadlinePassed && !options.overrideDeadline) return "The repair deadline has passed";
+  return null;
+}
+
+/** Recoverable depreciation withheld per coverage from a settlement summary. */
+export function holdbacksFromSettlement(
+  coverages: Array<{ coverageType: string; totalRecoverableDepreciation: number }>,
+): Array<{ coverageType: string; withheldAmount: number }> {
+  return coverages
+    .filter(c => (Number(c.totalRecoverableDepreciation) || 0) > 0)
+    .map(c => ({ coverageType: c.coverageType, withheldAmount: round2(Number(c.totalRecoverableDepreciation)) }));
+}
+
+/** Sum of released depreciation keyed by coverage type, for "RD paid to date". */
+export function rdPaidByCoverage(
+  holdbacks: DepreciationHoldback[],
+  releases: HoldbackRelease[],
+): Record<string, number> {
+  const coverageById = new Map(holdbacks.map(h => [h.id, h.coverageType]));
+  const paid: Record<string, number> = {};
+  for (const release of releases) {
+    const coverageType = coverageById.get(release.holdbackId);
+    if (!coverageType) continue;
+    paid[coverageType] = round2((paid[coverageType] || 0) + (Number(release.amount) || 0));
+  }
+  return paid;
+}
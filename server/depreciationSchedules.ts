@@ -0,0 +1,112 @@
+import type { IStorage } from "./storage";
+import type { Claim, DepreciationSchedule, DepreciationScheduleVersion } from "@shared/schema";
+import type { CategoryEntry, DepreciationTable, RoofPaymentBand } from "./depreciationEngine";
+
+// ── Depreciation Schedules ──
+//
+// A claim's schedule is, in order: the schedule pinned on the claim, the
+// active schedule for the claim's carrier, then the active default schedule
+// (no carrier code). Within a schedule the version in force is the latest
+// one effective on or before the date of loss. When nothing applies the
+// engine's built-in LIFE_EXPECTANCY_TABLE is used and no version is recorded.
+
+export interface AppliedDepreciationSchedule {
+  schedule: DepreciationSchedule;
+  version: DepreciationScheduleVersion;
+  table: DepreciationTable;
+}
+
+type ScheduleClaim = Pick<Claim, "dateOfLoss" | "depreciationScheduleId" | "carrierId">;
+
+/**
+ * Normalizes a date of loss ("2024-05-12", "05/12/2024", an ISO timestamp)
+ * to YYYY-MM-DD, or null when it cannot be read.
+ */
+export function parseLossDate(dateOfLoss: string | null | undefined): string | null {
+  if (!dateOfLoss) return null;
+  const trimmed = dateOfLoss.trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(trimmed)) return trimmed.slice(0, 10);
+  const parsed = new Date(trimmed);
+  if (Number.isNaN(parsed.getTime())) return null;
+  return parsed.toISOString().slice(0, 10);
+}
+
+export function versionInForce(
+  versions: DepreciationScheduleVersion[],
+  lossDate: string
+): DepreciationScheduleVersion | null {
+  let current: DepreciationScheduleVersion | null = null;
+  for (const v of versions) {
+    if (v.effectiveFrom > lossDate) continue;
+    if (
+      !current ||
+      v.effectiveFrom > current.effectiveFrom ||
+      (v.effectiveFrom === current.effectiveFrom && v.version > current.version)
+    ) {
+      current = v;
+    }
+  }
+  return current;
+}
+
+/**
+ * Schedules to try for a claim, most specific first: pinned, carrier, default.
+ */
+export function candidateSchedules(
+  schedules: DepreciationSchedule[],
+  claim: { depreciationScheduleId: number | null; carrierCode?: string | null }
+): DepreciationSchedule[] {
+  const result: DepreciationSchedule[] = [];
+  const pinned = claim.depreciationScheduleId != null
+    ? schedules.find(s => s.id === claim.depreciationScheduleId)
+    : undefined;
+  if (pinned) result.push(pinned);
+
+  const carrierCode = claim.carrierCode?.trim().toUpperCase();
+  if (carrierCode) {
+    for (const s of schedules) {
+      if (s.isActive && s.carrierCode?.trim().toUpperCase() === carrierCode && !result.includes(s)) result.push(s);
+    }
+  }
+  for (const s of schedules) {
+    if (s.isActive && !s.carrierCode && !result.includes(s)) result.push(s);
+  }
+  return result;
+}
+
+export function depreciationTableFor(version: DepreciationScheduleVersion): DepreciationTable {
+  return {
+    lifeExpectancy: (version.lifeExpectancy ?? {}) as Record<string, CategoryEntry>,
+    roofPaymentSchedule: (version.roofPaymentSchedule ?? []) as RoofPaymentBand[],
+  };
+}
+
+export async function resolveDepreciationSchedule(
+  storage: IStorage,
+  claim: ScheduleClaim,
+  today: Date = new Date()
+): Promise<AppliedDepreciationSchedule | null> {
+  const lossDate = parseLossDate(claim.dateOfLoss) ?? today.toISOString().slice(0, 10);
+  const carrier = claim.carrierId ? await storage.getCarrier(claim.carrierId) : undefined;
+  const schedules = await storage.getDepreciationSchedules();
+  const candidates = candidateSchedules(schedules, {
+    depreciationScheduleId: claim.depreciationScheduleId,
+    carrierCode: carrier?.code,
+  });
+  for (const schedule of candidates) {
+    const versions = await storage.getDepreciationScheduleVersions(schedule.id);
+    const version = versionInForce(versions, lossDate);
+    if (version) return { schedule, version, table: depreciationTableFor(version) };
+  }
+  return null;
+}
+
+export async function resolveClaimDepreciationSchedule(
+  storage: IStorage,
+  claimId: number | null | undefined
+): Promise<AppliedDepreciationSchedule | null> {
+  if (!claimId) return null;
+  const claim = await storage.getClaim(claimId);
+  if (!claim) return null;
+  return resolveDepreciationSchedule(storage, claim);
+}
@@ -0,0 +1,370 @@
+import type { IStorage } from "./storage";
+import type {
+  AtmosphericReading,
+  DryingEquipment,
+  InsertLineItem,
+  InspectionRoom,
+  LineItem,
+  MoistureReading,
+} from "@shared/schema";
+import { resolveClaimLaborBurden } from "./taxJurisdiction";
+
+// ── Drying Log ──
+//
+// A water job is dried over several days. Each visit the technician takes
+// moisture readings at the same locations, psychrometric readings in and
+// around the affected rooms, and sets or pulls equipment. The log built here
+// shows each location trending toward its dry standard and counts equipment
+// days, which become the per-day equipment and monitoring lines.
+
+export const DRYING_LOG_PROVENANCE = "drying_log";
+
+export const DRYING_EQUIPMENT_TYPES = ["air_mover", "dehumidifier", "large_dehumidifier", "air_scrubber"] as const;
+export type DryingEquipmentType = typeof DRYING_EQUIPMENT_TYPES[number];
+
+export const ATMOSPHERIC_PLACEMENTS = ["affected", "unaffected", "outside", "dehu_exhaust"] as const;
+
+/** Catalog code billed per equipment-day for each type of drying equipment */
+export const EQUIPMENT_CATALOG_CODES: Record<DryingEquipmentType, string> = {
+  air_mover: "MIT-AIRM-DAY",
+  dehumidifier: "MIT-DEHU-DAY",
+  large_dehumidifier: "MIT-DEHM-DAY",
+  air_scrubber: "MIT-AIRS-DAY",
+};
+
+export const MONITORING_CODE = "MIT-MONI-DAY";
+
+/** Drying-log days are calendar dates, YYYY-MM-DD */
+export const LOG_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SEA_LEVEL_KPA = 101.325;
+
+export interface DryingReadingPoint {
+  date: string;
+  reading: number;
+}
+
+export interface DryingLocationTrend {
+  location: string;
+  materialType: string | null;
+  dryStandard: number | null;
+  readings: DryingReadingPoint[];
+  latest: number | null;
+  isDry: boolean;
+}
+
+export interface AtmosphericEntry {
+  id: number;
+  date: string;
+  placement: string;
+  temperatureF: number;
+  relativeHumidity: number;
+  grainsPerPound: number;
+}
+
+export interface EquipmentEntry {
+  id: number;
+  equipmentType: string;
+  quantity: number;
+  placedOn: string;
+  removedOn: string | null;
+  days: number;
+  equipmentDays: number;
+}
+
+export interface RoomDryingLog {
+  roomId: number;
+  roomName: string;
+  days: string[];
+  locations: DryingLocationTrend[];
+  atmospherics: AtmosphericEntry[];
+  equipment: EquipmentEntry[];
+  equipmentDays: Partial<Record<DryingEquipmentType, number>>;
+  isDry: boolean;
+}
+
+export interface DryingLog {
+  rooms: RoomDryingLog[];
+  /** Readings not tied to a room: outside air, the unaffected area */
+  atmospherics: AtmosphericEntry[];
+  monitoringDays: number;
+}
+
+export interface DryingLineItem {
+  roomId: number;
+  code: string;
+  quantity: number;
+}
+
+export function todayLogDate(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function parseDay(day: string): number {
+  const [y, m, d] = day.split("-").map(Number);
+  return Date.UTC(y, m - 1, d);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((parseDay(to) - parseDay(from)) / DAY_MS);
+}
+
+/**
+ * Humidity ratio in grains of water per pound of dry air, at sea level.
+ * Saturation pressure uses the Magnus formula over water.
+ */
+export function grainsPerPound(temperatureF: number, relativeHumidity: number): number {
+  const tempC = (temperatureF - 32) * 5 / 9;
+  const saturationKpa = 0.61094 * Math.exp((17.625 * tempC) / (tempC + 243.04));
+  const vaporKpa = saturationKpa * Math.min(Math.max(relativeHumidity, 0), 100) / 100;
+  const ratio = 0.621945 * vaporKpa / (SEA_LEVEL_KPA - vaporKpa);
+  return Math.round(ratio * 7000 * 10) / 10;
+}
+
+/** Drying-log day for a moisture reading; older readings fall on the day they were taken. */
+export function readingDay(reading: Pick<MoistureReading, "readingDate" | "createdAt">): string | null {
+  if (reading.readingDate) return reading.readingDate;
+  return reading.createdAt ? new Date(reading.createdAt).toISOString().slice(0, 10) : null;
+}
+
+/**
+ * Billable days for a piece of equipment: one per night on site, and at least
+ * one. Equipment still running is counted through `asOf`.
+ */
+export function equipmentDays(equipment: Pick<DryingEquipment, "placedOn" | "removedOn">, asOf: string): number {
+  const end = equipment.removedOn || asOf;
+  return Math.max(1, daysBetween(equipment.placedOn, end));
+}
+
+function locationTrends(readings: MoistureReading[]): DryingLocationTrend[] {
+  const groups = new Map<string, MoistureReading[]>();
+  for (const reading of readings) {
+    const key = `${reading.location || "Unspecified"}|${reading.materialType || ""}`;
+    const group = groups.get(key);
+    if (group) group.push(reading);
+    else groups.set(key, [reading]);
+  }
+
+  return Array.from(groups.values()).map((group) => {
+    // Re-reads on the same day replace the earlier value
+    const byDay = new Map<string, number>();
+    let dryStandard: number | null = null;
+    for (const reading of [...group].sort((a, b) => a.id - b.id)) {
+      const day = readingDay(reading);
+      if (day) byDay.set(day, reading.reading);
+      if (reading.dryStandard != null) dryStandard = reading.dryStandard;
+    }
+    const points = Array.from(byDay.entries())
+      .map(([date, reading]) => ({ date, reading }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    const latest = points.length > 0 ? points[points.length - 1].reading : null;
+    return {
+      location: group[0].location || "Unspecified",
+      materialType: group[0].materialType,
+      dryStandard,
+      readings: points,
+      latest,
+      isDry: latest != null && dryStandard != null && latest <= dryStandard,
+    };
+  });
+}
+
+function atmosphericEntry(reading: AtmosphericReading): AtmosphericEntry {
+  return {
+    id: reading.id,
+    date: reading.readingDate,
+    placement: reading.placement,
+    temperatureF: reading.temperatureF,
+    relativeHumidity: reading.relativeHumidity,
+    grainsPerPound: grainsPerPound(reading.temperatureF, reading.relativeHumidity),
+  };
+}
+
+function byDate<T extends { date: string }>(a: T, b: T): number {
+  return a.date.localeCompare(b.date);
+}
+
+/**
+ * Assembles the drying log for a session. Only rooms with moisture readings,
+ * atmospheric readings or equipment are included.
+ */
+export function buildDryingLog(
+  rooms: Pick<InspectionRoom, "id" | "name">[],
+  readings: MoistureReading[],
+  atmospherics: AtmosphericReading[],
+  equipment: DryingEquipment[],
+  asOf: string
+): DryingLog {
+  const logs: RoomDryingLog[] = [];
+  const allDays = new Set<string>();
+
+  for (const room of rooms) {
+    const roomReadings = readings.filter((r) => r.roomId === room.id);
+    const roomAtmospherics = atmospherics.filter((a) => a.roomId === room.id).map(atmosphericEntry).sort(byDate);
+    const roomEquipment = equipment
+      .filter((e) => e.roomId === room.id)
+      .map((e) => {
+        const days = equipmentDays(e, asOf);
+        return {
+          id: e.id,
+          equipmentType: e.equipmentType,
+          quantity: e.quantity,
+          placedOn: e.placedOn,
+          removedOn: e.removedOn,
+          days,
+          equipmentDays: days * e.quantity,
+        };
+      })
+      .sort((a, b) => a.placedOn.localeCompare(b.placedOn));
+    if (roomReadings.length === 0 && roomAtmospherics.length === 0 && roomEquipment.length === 0) continue;
+
+    const days = new Set<string>();
+    for (const reading of roomReadings) {
+      const day = readingDay(reading);
+      if (day) days.add(day);
+    }
+    for (const entry of roomAtmospherics) days.add(entry.date);
+    days.forEach((day) => allDays.add(day));
+
+    const totals: Partial<Record<DryingEquipmentType, number>> = {};
+    for (const entry of roomEquipment) {
+      if (!(entry.equipmentType in EQUIPMENT_CATALOG_CODES)) continue;
+      const type = entry.equipmentType as DryingEquipmentType;
+      totals[type] = (totals[type] || 0) + entry.equipmentDays;
+    }
+
+    const locations = locationTrends(roomReadings);
+    logs.push({
+      roomId: room.id,
+      roomName: room.name,
+      days: Array.from(days).sort(),
+      locations,
+      atmospherics: roomAtmospherics,
+      equipment: roomEquipment,
+      equipmentDays: totals,
+      isDry: locations.length > 0 && locations.every((l) => l.isDry || l.dryStandard == null),
+    });
+  }
+
+  const sessionAtmospherics = atmospherics.filter((a) => a.roomId == null).map(atmosphericEntry).sort(byDate);
+  for (const entry of sessionAtmospherics) allDays.add(entry.date);
+
+  return { rooms: logs, atmospherics: sessionAtmospherics, monitoringDays: allDays.size };
+}
+
+/**
+ * Equipment and monitoring lines for a drying log: one per room and
+ * equipment type, quantity in equipment-days, plus one monitoring line for
+ * the job (a visit covers every room) placed in the first room logged.
+ */
+export function dryingLineItems(log: DryingLog): DryingLineItem[] {
+  const items: DryingLineItem[] = [];
+  for (const room of log.rooms) {
+    for (const type of DRYING_EQUIPMENT_TYPES) {
+      const quantity = room.equipmentDays[type];
+      if (quantity) items.push({ roomId: room.roomId, code: EQUIPMENT_CATALOG_CODES[type], quantity });
+    }
+  }
+  if (log.monitoringDays > 0 && log.rooms.length > 0) {
+    items.push({ roomId: log.rooms[0].roomId, code: MONITORING_CODE, quantity: log.monitoringDays });
+  }
+  return items;
+}
+
+export async function getSessionDryingLog(storage: IStorage, sessionId: number, asOf: string): Promise<DryingLog> {
+  const [rooms, readings, atmospherics, equipment] = await Promise.all([
+    storage.getRooms(sessionId),
+    storage.getMoistureReadingsForSession(sessionId),
+    storage.getAtmosphericReadingsForSession(sessionId),
+    storage.getDryingEquipmentForSession(sessionId),
+  ]);
+  return buildDryingLog(rooms, readings, atmospherics, equipment, asOf);
+}
+
+/**
+ * Brings a session's "drying_log" lines in line with its drying log. Lines
+ * are matched by room and code; quantities follow the log, and lines the log
+ * no longer calls for are removed. Prices come from the catalog the same way
+ * as a line added by code.
+ */
+export async function syncDryingLineItems(
+  storage: IStorage,
+  sessionId: number,
+  asOf: string
+): Promise<{ created: number; updated: number; removed: number }> {
+  const log = await getSessionDryingLog(storage, sessionId, asOf);
+  const wanted = dryingLineItems(log);
+  const lineItems = await storage.getLineItems(sessionId);
+
+  const stale = new Map<string, LineItem>();
+  const orphaned: LineItem[] = [];
+  for (const li of lineItems) {
+    if (li.provenance !== DRYING_LOG_PROVENANCE) continue;
+    const key = `${li.roomId}|${li.xactCode}`;
+    if (!stale.has(key)) stale.set(key, li);
+    else orphaned.push(li);
+  }
+
+  let laborBurdenPct: number | undefined;
+  async function unitPriceFor(code: string): Promise<number> {
+    let price = await storage.getRegionalPrice(code, "FLFM8X_NOV22", "install");
+    if (!price) price = await storage.getRegionalPrice(code, "US_NATIONAL", "install");
+    if (!price) return 0;
+    if (laborBurdenPct === undefined) {
+      const session = await storage.getInspectionSession(sessionId);
+      laborBurdenPct = await resolveClaimLaborBurden(storage, session ? await storage.getClaim(session.claimId) : null);
+    }
+    const cost =
+      (Number(price.materialCost) || 0) +
+      (Number(price.laborCost) || 0) * (1 + laborBurdenPct / 100) +
+      (Number(price.equipmentCost) || 0);
+    return Math.round(cost * 100) / 100;
+  }
+
+  let created = 0;
+  let updated = 0;
+  for (const item of wanted) {
+    const key = `${item.roomId}|${item.code}`;
+    const current = stale.get(key);
+    stale.delete(key);
+
+    if (current) {
+      if (Number(current.quantity) !== item.quantity) {
+        const unitPrice = Number(current.unitPrice) || 0;
+        await storage.updateLineItem(current.id, {
+          quantity: String(item.quantity),
+          totalPrice: String(Math.round(unitPrice * item.quantity * 100) / 100),
+        });
+        updated++;
+      }
+      continue;
+    }
+
+    const catalogItem = await storage.getScopeLineItemByCode(item.code);
+    const unitPrice = await unitPriceFor(item.code);
+    const line: InsertLineItem = {
+      sessionId,
+      roomId: item.roomId,
+      category: "Mitigation",
+      action: null,
+      description: catalogItem?.description || item.code,
+      xactCode: item.code,
+      quantity: String(item.quantity),
+      unit: "DAY",
+      unitPrice: String(unitPrice),
+      totalPrice: String(Math.round(unitPrice * item.quantity * 100) / 100),
+      tradeCode: "MIT",
+      depreciationType: "Recoverable",
+      provenance: DRYING_LOG_PROVENANCE,
+    };
+    await storage.createLineItem(line);
+    created++;
+  }
+
+  const removedLines = [...Array.from(stale.values()), ...orphaned];
+  for (const li of removedLines) {
+    await storage.deleteLineItem(li.id);
+  }
+  return { created, updated, removed: removedLines.length };
+}
@@ -0,0 +1,345 @@
+import type { IStorage } from "./storage";
+import type { EndorsementProposal, InsertEndorsementProposal, PolicyRule } from "@shared/schema";
+import type { SettlementRules } from "./settlementRules";
+import type { SublimitDefinition } from "./sublimits";
+import { ORDINANCE_OR_LAW, ensureOrdinanceLawRule } from "./ordinanceLaw";
+
+// ── Endorsement Library ──
+//
+// Endorsement extraction returns free-form text per form. The library lists
+// the forms whose effect on settlement is known, so an extracted endorsement
+// can be matched to one and turned into a concrete policy rule or settlement
+// rule change. Changes are stored as proposals and only take effect once the
+// adjuster accepts them on the extraction review.
+
+export type EndorsementEffect =
+  | "acv_roof_settlement"
+  | "roof_payment_schedule"
+  | "water_backup_sublimit"
+  | "cosmetic_hail_exclusion"
+  | "ordinance_law_increase";
+
+export interface EndorsementForm {
+  formNumber: string;
+  /** Edition the entry was written against; other editions still match */
+  edition: string | null;
+  title: string;
+  effect: EndorsementEffect;
+  /** Identifies the form by title when the number is missing or carrier-specific; checked in list order */
+  titlePattern: RegExp;
+}
+
+export const COSMETIC_HAIL_EXCLUSION = "cosmetic_hail";
+export const WATER_BACKUP_SUBLIMIT_KEY = "water_backup";
+
+export const ENDORSEMENT_LIBRARY: EndorsementForm[] = [
+  {
+    formNumber: "HO 88 02",
+    edition: "10 22",
+    title: "Roof Surfaces Payment Schedule",
+    effect: "roof_payment_schedule",
+    titlePattern: /roof\s+surfac\w*\s+payment\s+schedule/i,
+  },
+  {
+    formNumber: "HO 04 93",
+    edition: "05 11",
+    title: "Actual Cash Value Loss Settlement Windstorm or Hail Losses to Roof Surfacing",
+    effect: "acv_roof_settlement",
+    titlePattern: /actual\s+cash\s+value.*roof|roof.*actual\s+cash\s+value/i,
+  },
+  {
+    formNumber: "CP 10 36",
+    edition: "10 12",
+    title: "Limitations on Coverage for Roof Surfacing",
+    effect: "cosmetic_hail_exclusion",
+    titlePattern: /cosmetic/i,
+  },
+  {
+    formNumber: "HO 04 95",
+    edition: "05 11",
+    title: "Water Back-Up and Sump Discharge or Overflow",
+    effect: "water_backup_sublimit",
+    titlePattern: /sump\s+discharge/i,
+  },
+  {
+    formNumber: "HO 81 17",
+    edition: null,
+    title: "Water Back-Up and Sump Overflow",
+    effect: "water_backup_sublimit",
+    titlePattern: /water\s*back[\s-]*up/i,
+  },
+  {
+    formNumber: "HO 04 77",
+    edition: "05 11",
+    title: "Ordinance or Law Increased Amount of Coverage",
+    effect: "ordinance_law_increase",
+    titlePattern: /ordinance\s+or\s+law\s+increased/i,
+  },
+  {
+    formNumber: "HO 86 05",
+    edition: null,
+    title: "Ordinance or Law Increased Coverage",
+    effect: "ordinance_law_increase",
+    titlePattern: /ordinance\s+or\s+law/i,
+  },
+];
+
+/** Endorsement as returned by extractEndorsements */
+export interface ExtractedEndorsement {
+  endorsementId?: string | null;
+  title?: string | null;
+  formEdition?: string | null;
+  keyProvisions?: string[] | null;
+  modifiedSettlement?: string | null;
+  sublimits?: Array<{ description?: string | null; amount?: number | null }> | null;
+  roofPaymentSchedule?: { hasSchedule?: boolean; maxAge?: number | null; summary?: string | null } | null;
+}
+
+export interface EndorsementMatch {
+  form: EndorsementForm;
+  matchedBy: "form_number" | "title";
+  /** Whether the extracted edition is the one the library entry was written against */
+  editionMatches: boolean;
+}
+
+export interface PolicyRuleChange {
+  coverageType: string;
+  set?: { applyRoofSchedule?: boolean; roofScheduleAge?: number | null };
+  /** Limit as a percentage of the Coverage A limit, sized when applied */
+  limitPctOfCoverageA?: number;
+  sublimit?: SublimitDefinition;
+  exclusion?: string;
+}
+
+export type EndorsementProposalDraft = Pick<
+  InsertEndorsementProposal,
+  "endorsementId" | "formNumber" | "effect" | "title" | "summary"
+> & {
+  policyRuleChange: PolicyRuleChange | null;
+  settlementRuleChange: Partial<SettlementRules> | null;
+};
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** "HO 88 02 10 22" → "HO88021022" */
+export function normalizeFormNumber(value: string | null | undefined): string {
+  return (value || "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+/**
+ * Finds the library form for an extracted endorsement: by form number first
+ * (the extracted id usually carries the edition after the number), then by
+ * title.
+ */
+export function matchEndorsement(endorsement: ExtractedEndorsement): EndorsementMatch | null {
+  const extracted = normalizeFormNumber(endorsement.endorsementId);
+  const byNumber = extracted
+    ? ENDORSEMENT_LIBRARY.find((f) => extracted.startsWith(normalizeFormNumber(f.formNumber)))
+    : undefined;
+  const form = byNumber ?? ENDORSEMENT_LIBRARY.find((f) => f.titlePattern.test(endorsement.title || ""));
+  if (!form) return null;
+
+  const edition = normalizeFormNumber(endorsement.formEdition)
+    || (byNumber ? extracted.slice(normalizeFormNumber(form.formNumber).length) : "");
+  return {
+    form,
+    matchedBy: byNumber ? "form_number" : "title",
+    editionMatches: !form.edition || edition === normalizeFormNumber(form.edition),
+  };
+}
+
+function endorsementText(endorsement: ExtractedEndorsement): string {
+  return [endorsement.title, endorsement.modifiedSettlement, ...(endorsement.keyProvisions || [])]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function waterBackupAmount(endorsement: ExtractedEndorsement): number | null {
+  const sublimits = (endorsement.sublimits || []).filter((s) => typeof s.amount === "number" && s.amount > 0);
+  const sublimit = sublimits.find((s) => /water|back[\s-]*up|sump/i.test(s.description || "")) ?? sublimits[0];
+  if (sublimit) return sublimit.amount!;
+  const dollars = endorsementText(endorsement).match(/\$\s?(\d[\d,]*)/);
+  return dollars ? Number(dollars[1].replace(/,/g, "")) : null;
+}
+
+function ordinanceLawPctFromText(endorsement: ExtractedEndorsement): number | null {
+  const pct = endorsementText(endorsement).match(/(\d{1,3}(?:\.\d+)?)\s*%/);
+  return pct ? Number(pct[1]) : null;
+}
+
+/**
+ * Concrete change for a matched endorsement, or null when the extraction
+ * does not carry what the change needs (a water back-up form with no amount).
+ */
+export function proposeChange(
+  form: EndorsementForm,
+  endorsement: ExtractedEndorsement
+): Pick<EndorsementProposalDraft, "summary" | "policyRuleChange" | "settlementRuleChange"> | null {
+  switch (form.effect) {
+    case "acv_roof_settlement":
+      return {
+        summary: "Settle roof surfacing at actual cash value: roofing depreciation becomes non-recoverable at any roof age.",
+        policyRuleChange: { coverageType: "Coverage A", set: { applyRoofSchedule: true, roofScheduleAge: 0 } },
+        settlementRuleChange: { applyRoofDepreciationSchedule: true },
+      };
+    case "roof_payment_schedule": {
+      const schedule = endorsement.roofPaymentSchedule;
+      if (schedule && schedule.hasSchedule === false) return null;
+      const detail = schedule?.summary ? ` ${schedule.summary}` : "";
+      return {
+        summary: `Pay roof surfacing by the endorsement's payment schedule instead of replacement cost.${detail}`,
+        policyRuleChange: { coverageType: "Coverage A", set: { applyRoofSchedule: true, roofScheduleAge: 0 } },
+        settlementRuleChange: { applyRoofDepreciationSchedule: true },
+      };
+    }
+    case "water_backup_sublimit": {
+      const amount = waterBackupAmount(endorsement);
+      if (amount == null) return null;
+      return {
+        summary: `Cap water back-up and sump overflow losses at $${amount.toLocaleString("en-US")}.`,
+        policyRuleChange: {
+          coverageType: "Coverage A",
+          sublimit: { key: WATER_BACKUP_SUBLIMIT_KEY, label: "Water back-up", capType: "flat", amount },
+        },
+        settlementRuleChange: null,
+      };
+    }
+    case "cosmetic_hail_exclusion":
+      return {
+        summary: "Exclude cosmetic hail damage to roof surfacing; scope on minor hail damage is flagged in validation.",
+        policyRuleChange: { coverageType: "Coverage A", exclusion: COSMETIC_HAIL_EXCLUSION },
+        settlementRuleChange: null,
+      };
+    case "ordinance_law_increase": {
+      const pct = ordinanceLawPctFromText(endorsement);
+      if (pct == null || pct <= 0) return null;
+      return {
+        summary: `Raise Ordinance or Law coverage to ${pct}% of the Coverage A limit.`,
+        policyRuleChange: { coverageType: ORDINANCE_OR_LAW, limitPctOfCoverageA: pct },
+        settlementRuleChange: null,
+      };
+    }
+  }
+}
+
+/** One draft per library form and effect; the first endorsement for a form wins. */
+export function proposeEndorsementChanges(endorsements: ExtractedEndorsement[]): EndorsementProposalDraft[] {
+  const drafts = new Map<string, EndorsementProposalDraft>();
+  for (const endorsement of endorsements) {
+    const match = matchEndorsement(endorsement);
+    if (!match) continue;
+    const key = `${match.form.formNumber}|${match.form.effect}`;
+    if (drafts.has(key)) continue;
+    const change = proposeChange(match.form, endorsement);
+    if (!change) continue;
+    drafts.set(key, {
+      endorsementId: (endorsement.endorsementId || match.form.formNumber).slice(0, 40),
+      formNumber: match.form.formNumber,
+      effect: match.form.effect,
+      title: match.form.title,
+      ...change,
+    });
+  }
+  return Array.from(drafts.values());
+}
+
+/**
+ * Rebuilds a claim's pending proposals from its endorsements extraction.
+ * Accepted and rejected proposals are the adjuster's decisions and are left
+ * alone; pending ones the extraction no longer supports are removed.
+ */
+export async function syncEndorsementProposals(
+  storage: IStorage,
+  claimId: number,
+  extractedData: { endorsements?: ExtractedEndorsement[] } | null | undefined
+): Promise<EndorsementProposal[]> {
+  const drafts = proposeEndorsementChanges(extractedData?.endorsements || []);
+  const existing = await storage.getEndorsementProposals(claimId);
+  const keyOf = (p: { formNumber: string; effect: string }) => `${p.formNumber}|${p.effect}`;
+  const existingByKey = new Map(existing.map((p) => [keyOf(p), p]));
+  const draftKeys = new Set(drafts.map(keyOf));
+
+  for (const draft of drafts) {
+    const current = existingByKey.get(keyOf(draft));
+    if (!current) {
+      await storage.createEndorsementProposal({ claimId, ...draft });
+    } else if (current.status === "pending") {
+      await storage.updateEndorsementProposal(current.id, draft);
+    }
+  }
+  for (const proposal of existing) {
+    if (proposal.status === "pending" && !draftKeys.has(keyOf(proposal))) {
+      await storage.deleteEndorsementProposal(proposal.id);
+    }
+  }
+  return storage.getEndorsementProposals(claimId);
+}
+
+/** Field updates that bring a policy rule in line with an accepted change. */
+export function policyRuleUpdates(
+  rule: PolicyRule,
+  change: PolicyRuleChange,
+  coverageA?: Pick<PolicyRule, "policyLimit">
+): Partial<PolicyRule> {
+  const updates: Partial<PolicyRule> = { ...change.set };
+  if (change.limitPctOfCoverageA != null && coverageA?.policyLimit != null) {
+    updates.policyLimit = round2(coverageA.policyLimit * change.limitPctOfCoverageA / 100);
+  }
+  if (change.sublimit) {
+    const sublimits = ((rule.sublimits ?? []) as SublimitDefinition[]).filter((s) => s.key !== change.sublimit!.key);
+    updates.sublimits = [...sublimits, change.sublimit];
+  }
+  if (change.exclusion) {
+    const exclusions = (rule.exclusions ?? []) as string[];
+    if (!exclusions.includes(change.exclusion)) updates.exclusions = [...exclusions, change.exclusion];
+  }
+  return updates;
+}
+
+/**
+ * Applies every accepted proposal to the claim's policy rules and settlement
+ * overrides. Safe to repeat: sublimits replace by key, exclusions are added
+ * once. Claims without policy rules yet pick the changes up when their rules
+ * are created.
+ */
+export async function applyAcceptedEndorsements(
+  storage: IStorage,
+  claimId: number
+): Promise<{ policyRulesUpdated: number }> {
+  const [proposals, rules] = await Promise.all([
+    storage.getEndorsementProposals(claimId),
+    storage.getPolicyRulesForClaim(claimId),
+  ]);
+  const accepted = proposals.filter((p) => p.status === "accepted");
+
+  let policyRulesUpdated = 0;
+  if (rules.length > 0) {
+    for (const proposal of accepted) {
+      const change = proposal.policyRuleChange as PolicyRuleChange | null;
+      if (!change) continue;
+
+      let rule = rules.find((r) => r.coverageType === change.coverageType);
+      if (!rule && change.coverageType === ORDINANCE_OR_LAW) {
+        const claim = await storage.getClaim(claimId);
+        rule = claim ? (await ensureOrdinanceLawRule(storage, claim)) ?? undefined : undefined;
+        if (rule) rules.push(rule);
+      }
+      if (!rule) continue;
+
+      const coverageA = rules.find((r) => r.coverageType === "Coverage A");
+      const updated = await storage.updatePolicyRule(rule.id, policyRuleUpdates(rule, change, coverageA));
+      if (updated) rules[rules.indexOf(rule)] = updated;
+      policyRulesUpdated++;
+    }
+  }
+
+  const settlementOverrides = Object.assign(
+    {},
+    ...accepted.map((p) => (p.settlementRuleChange as Partial<SettlementRules> | null) ?? {})
+  ) as Partial<SettlementRules>;
+  await storage.updateClaimFields(claimId, { settlementOverrides });
+
+  return { policyRulesUpdated };
+}
@@ -4,11 +4,20 @@ import type { SettlementRules } from "./settlementRules";
 import {
   calculateTaxableBase,
   calculateDepreciationBasis,
-  resolveTaxRateWithRules,
+  resolveItemTaxRates,
   tradeQualifiesForOP,
   validateSettlementRules,
   getDefaultSettlementRules,
 } from "./settlementRules";
+import {
+  calculateCoinsurance,
+  resolveDeductible,
+  type CoinsuranceResult,
+  type CoinsuranceTerms,
+  type DeductibleTerms,
+  type ResolvedDeductible,
+} from "./deductibles";
+import { applySublimits, type SublimitDefinition, type SublimitResult } from "./sublimits";
 
 // ── Xactimate DIM_VARS: 14 calculated dimension variables ──
 export interface DimVarsResult {
@@ -243,7 +252,9 @@ export function generateSubroomXml(
       const heightUnits = Math.round(o.heightFt * 12000);
       const opensIntoAttr = o.opensInto ? ` opensInto="${escapeXmlVal(o.opensInto === "E" ? "Exterior" : o.opensInto)}"` : ' opensInto="Exterior"';
       const floorAttr = o.goesToFloor ? ' opensToFloor="1"' : "";
-      return `      <MISSWALL${opensIntoAttr} quantity="${o.quantity}" length="${lengthUnits}" height="${heightUnits}"${floorAttr}/>`;
+      const ceilingAttr = o.goesToCeiling ? ' opensToCeiling="1"' : "";
+      const typeAttr = o.openingType ? ` openingType="${escapeXmlVal(o.openingType)}"` : "";
+      return `      <MISSWALL${opensIntoAttr} quantity="${o.quantity}" length="${lengthUnits}" height="${heightUnits}"${floorAttr}${ceilingAttr}${typeAttr}/>`;
     }).join("\n");
 
     misswallsXml = `
@@ -252,7 +263,7 @@ ${misswallEntries}
     </MISSWALLS>`;
   }
 
-  return `  <SUBROOM printableDims="${printableDims}" type="${subroomType}" name="${escapeXmlVal(roomName)}">
+  return `  <SUBROOM printableDims="${escapeXmlVal(printableDims)}" type="${subroomType}" name="${escapeXmlVal(roomName)}">
     ${xpertVarsXml}
     <DIM_VARS_BEFORE_MW ${dimVarsAttrs(beforeMW)}/>
     ${misswallsXml}
@@ -281,6 +292,7 @@ export interface PricedLineItem {
   unitPriceBreakdown: UnitPriceBreakdown;
   totalPrice: number;
   tradeCode: string;
+  minimumId?: string | null;
 }
 
 export interface EstimateTotals {
@@ -317,6 +329,7 @@ export interface DepreciatedLineItem {
   acv: number;                        // rcv - depreciationAmount
   depreciationType: string;           // "Recoverable" | "Non-Recoverable" | "Paid When Incurred"
   coverageBucket: string;             // "Coverage A" | "Coverage B" | "Coverage C"
+  sublimitKey: string | null;
 }
 
 export interface TradeSubtotal {
@@ -336,10 +349,18 @@ export interface CoverageSummary {
   totalDepreciation: number;
   totalACV: number;
   deductible: number;
+  deductibleDetail: ResolvedDeductible;
+  coinsurance: CoinsuranceResult | null;
+  coinsurancePenalty: number;         // ACV × (1 − coinsurance ratio), taken before the deductible
+  sublimits: SublimitResult[];
+  sublimitOverage: number;            // Claimed above sublimit caps, cut before the deductible
+  paidWhenIncurredPending: number;    // RCV of Paid When Incurred work not yet done, held out of ACV
   policyLimit: number | null;
   netClaim: number;
   overLimitDeduction: number;
   itemCount: number;
+  priorPayments: number;              // Advances and earlier ACV/supplement payments
+  netClaimAfterPayments: number;      // netClaim - priorPayments; negative means overpaid
 }
 
 export interface SettlementSummary {
@@ -350,8 +371,13 @@ export interface SettlementSummary {
   grandTotalNonRecoverableDep: number;
   grandTotalACV: number;
   grandTotalDeductible: number;
+  grandTotalCoinsurancePenalty: number;
+  grandTotalSublimitOverage: number;
+  grandTotalPaidWhenIncurredPending: number;
   grandTotalOverLimit: number;
   grandNetClaim: number;
+  totalPriorPayments: number;
+  grandNetClaimAfterPayments: number;
   totalOverhead: number;
   totalProfit: number;
   qualifiesForOP: boolean;
@@ -427,7 +453,8 @@ export function deriveCoverageBucket(
 /**
  * Resolves the applicable tax rate for a line item based on its category
  * and the claim's tax rules. Falls back to the policy rule's flat taxRate
- * if no specific tax rules exist.
+ * if no specific tax rules exist. Manual rules win over rules generated
+ * from the policy or the claim's tax jurisdiction.
  *
  * @param category - The line item's category (e.g., "Roofing", "Cleaning")
  * @param taxRules - The claim's tax rules (from taxRules table)
@@ -442,12 +469,14 @@ export function resolveTaxRate(
     appliesToCategories: string[];
     appliesToCostType: string;
     isDefault: boolean;
+    source?: string | null;
   }>,
   fallbackRate: number = 8
 ): { taxRate: number; taxLabel: string; costType: string } {
   if (!taxRules || taxRules.length === 0) {
     return { taxRate: fallbackRate, taxLabel: "Sales Tax", costType: "all" };
   }
+  taxRules = [...taxRules].sort((a, b) => Number(!isManualTaxRule(a)) - Number(!isManualTaxRule(b)));
 
   const catLower = (category || "").toLowerCase();
 
@@ -487,7 +516,8 @@ export function resolveTaxRate(
  * 1. If age and lifeExpectancy are provided: depPct = min(age/life × 100, 100)
  * 2. If depreciationPercentage is provided (manual override): use that directly
  * 3. If neither: depPct = 0 (no depreciation)
- * 4. If depreciationType is "Paid When Incurred": ACV = 0 (deferred until work done)
+ * 4. If depreciationType is "Paid When Incurred": ACV = 0 (deferred until work done),
+ *    or the full RCV with no depreciation once the work has been incurred
  * 5. If applyRoofSchedule is true AND item is roofing: force Non-Recoverable
  */
 export function calculateItemDepreciation(
@@ -497,7 +527,8 @@ export function calculateItemDepreciation(
   depreciationPercentageOverride: number | null,
   depreciationType: string,
   applyRoofSchedule: boolean = false,
-  isRoofingItem: boolean = false
+  isRoofingItem: boolean = false,
+  incurred: boolean = false
 ): {
   depreciationPercentage: number;
   depreciationAmount: number;
@@ -520,11 +551,16 @@ export function calculateItemDepreciation(
     effectiveDepType = "Non-Recoverable";
   }
 
+  // Work that has been done is paid in full
+  if (effectiveDepType === "Paid When Incurred" && incurred) {
+    depPct = 0;
+  }
+
   // Calculate amounts
   const depreciationAmount = rcv * (depPct / 100);
 
   // Paid When Incurred: RCV is counted, but ACV is $0 until work is performed
-  const acv = effectiveDepType === "Paid When Incurred"
+  const acv = effectiveDepType === "Paid When Incurred" && !incurred
     ? 0
     : rcv - depreciationAmount;
 
@@ -536,6 +572,12 @@ export function calculateItemDepreciation(
   };
 }
 
+/**
+ * Trade code for Coverage C contents rows. Contents are replaced, not
+ * built, so they never carry O&P or count toward the O&P trade threshold.
+ */
+export const CONTENTS_TRADE_CODE = "CON";
+
 /**
  * Calculates the full settlement summary from line items and policy rules.
  *
@@ -546,9 +588,11 @@ export function calculateItemDepreciation(
  * 4. Per-item: add tax → gives RCV
  * 5. Per-item: calculate depreciation from configured basis → gives ACV
  * 6. Group by coverage bucket
- * 7. Per-coverage: sum ACV, subtract deductible → Net Claim
- * 8. Check policy limits → Over Limit Deduction
+ * 7. Per-coverage: sum ACV, subtract sublimit overages, coinsurance penalty
+ *    and the deductible for the claim's peril → Net Claim
+ * 8. Check policy limits (additional coverages sit outside them) → Over Limit Deduction
  * 9. Grand totals across all coverages → The Check Amount
+ * 10. Subtract prior payments (advances, earlier ACV/supplement checks) → Net Due
  */
 export type SettlementItemInput = {
   id: number;
@@ -568,22 +612,31 @@ export type SettlementItemInput = {
   taxRate?: number | null;
   laborCost?: number;
   materialCost?: number;
+  sublimitKey?: string | null;
+  /** Paid When Incurred work that has been done */
+  incurred?: boolean;
 };
 
-/** Converts tax rules (from DB) to the format expected by resolveTaxRateWithRules */
+/**
+ * Converts tax rules (from DB) to the format expected by resolveItemTaxRates.
+ * Manual rules are listed before generated (policy/jurisdiction) rules so
+ * they win when both match.
+ */
 export function taxRulesToCategoryFormat(
   taxRules: Array<{
     taxRate: number;
     appliesToCategories?: string[];
     appliesToCostType?: string;
+    source?: string | null;
   }>
 ): Array<{ category: string; taxRate: number; costType: "all" | "materials_only" | "labor_only" }> {
   const out: Array<{ category: string; taxRate: number; costType: "all" | "materials_only" | "labor_only" }> = [];
-  for (const r of taxRules) {
+  const ordered = [...taxRules].sort((a, b) => Number(!isManualTaxRule(a)) - Number(!isManualTaxRule(b)));
+  for (const r of ordered) {
     const costType =
-      r.appliesToCostType === "materials_only"
+      r.appliesToCostType === "materials_only" || r.appliesToCostType === "material"
         ? "materials_only"
-        : r.appliesToCostType === "labor_only"
+        : r.appliesToCostType === "labor_only" || r.appliesToCostType === "labor"
           ? "labor_only"
           : "all";
     const cats = r.appliesToCategories || [];
@@ -598,12 +651,17 @@ export function taxRulesToCategoryFormat(
   return out;
 }
 
+function isManualTaxRule(rule: { source?: string | null }): boolean {
+  return !rule.source || rule.source === "manual";
+}
+
+/** Limit, deductible and coinsurance terms for one coverage */
+export type CoverageTerms = { coverageType: string; sublimits?: SublimitDefinition[] | null }
+  & DeductibleTerms & Omit<CoinsuranceTerms, "policyLimit">;
+
 /** Extracts policy overrides and limits from policy rules (from DB) */
 export function getPolicyOverridesAndLimits(
-  policyRules: Array<{
-    coverageType: string;
-    policyLimit: number | null;
-    deductible: number | null;
+  policyRules: Array<CoverageTerms & {
     applyRoofSchedule?: boolean;
     overheadPct?: number;
     profitPct?: number;
@@ -612,12 +670,18 @@ export function getPolicyOverridesAndLimits(
   }>
 ): {
   overrides: Partial<SettlementRules>;
-  limits: Array<{ coverageType: string; policyLimit: number | null; deductible: number | null }>;
+  limits: CoverageTerms[];
 } {
   const limits = policyRules.map(p => ({
     coverageType: p.coverageType,
     policyLimit: p.policyLimit,
     deductible: p.deductible,
+    deductibleType: p.deductibleType,
+    deductiblePct: p.deductiblePct,
+    perilDeductibles: p.perilDeductibles,
+    coinsurancePct: p.coinsurancePct,
+    replacementCostValue: p.replacementCostValue,
+    sublimits: p.sublimits,
   }));
   const overrides: Partial<SettlementRules> = {};
   if (policyRules.length > 0) {
@@ -633,32 +697,35 @@ export function getPolicyOverridesAndLimits(
 
 /**
  * Main settlement calculator — Xactimate-compliant.
- * Accepts SettlementRules and policy limits/deductibles.
+ * Accepts SettlementRules and policy limits/deductibles; peril picks the
+ * peril-specific deductible where a coverage has one.
  */
 export function calculateSettlement(
   items: SettlementItemInput[],
   settlementRules: SettlementRules,
-  policyLimitsAndDeductibles: Array<{
-    coverageType: string;
-    policyLimit: number | null;
-    deductible: number | null;
-  }> = [],
+  policyLimitsAndDeductibles: CoverageTerms[] = [],
   taxRulesByCategory?: Array<{
     category: string;
     taxRate: number;
     costType: "all" | "materials_only" | "labor_only";
-  }>
+  }>,
+  priorPayments: Array<{ coverageType: string; amount: number }> = [],
+  peril: string | null = null
 ): SettlementSummary {
   validateSettlementRules(settlementRules);
   const limitsMap = new Map(
     policyLimitsAndDeductibles.map(p => [p.coverageType, p])
   );
+  const priorPaidMap = new Map<string, number>();
+  for (const p of priorPayments) {
+    priorPaidMap.set(p.coverageType, (priorPaidMap.get(p.coverageType) || 0) + p.amount);
+  }
 
   // ── Step 1: Group items by trade code ──
   const tradeGroups = new Map<string, SettlementItemInput[]>();
   const tradesSet = new Set<string>();
   for (const item of items) {
-    tradesSet.add(item.tradeCode);
+    if (item.tradeCode !== CONTENTS_TRADE_CODE) tradesSet.add(item.tradeCode);
     const existing = tradeGroups.get(item.tradeCode) || [];
     existing.push(item);
     tradeGroups.set(item.tradeCode, existing);
@@ -669,7 +736,8 @@ export function calculateSettlement(
   const tradeSubtotals: TradeSubtotal[] = [];
   for (const [tradeCode, tradeItems] of tradeGroups) {
     const subtotal = tradeItems.reduce((sum, i) => sum + (i.totalPrice || 0), 0);
-    const tradeIsEligible = tradeQualifiesForOP(tradesInvolved, tradeCode, settlementRules);
+    const tradeIsEligible = tradeCode !== CONTENTS_TRADE_CODE
+      && tradeQualifiesForOP(tradesInvolved, tradeCode, settlementRules);
     const overheadAmount = tradeIsEligible
       ? subtotal * (settlementRules.overheadPercentage / 100)
       : 0;
@@ -705,36 +773,32 @@ export function calculateSettlement(
 
     const bucket = deriveCoverageBucket(item.structure, item.coverageBucket);
 
-    let taxRatePct = settlementRules.defaultTaxRate;
-    if (item.taxRate != null) {
-      taxRatePct = item.taxRate;
-    } else {
-      taxRatePct =
-        resolveTaxRateWithRules(
-          item.category,
-          settlementRules,
-          taxRulesByCategory
-        ) * 100;
-    }
+    const itemTax = item.taxRate != null
+      ? { taxRate: item.taxRate, materialsOnly: false, laborTaxRate: 0 }
+      : resolveItemTaxRates(item.category, settlementRules, taxRulesByCategory);
+    const taxRatePct = itemTax.taxRate;
 
     const laborPortion = item.laborCost ?? (item.totalPrice || 0) * 0.3;
     const taxableBase = calculateTaxableBase(
       item.totalPrice || 0,
       laborPortion,
       itemOP,
-      settlementRules
+      itemTax.materialsOnly ? { ...settlementRules, taxOnLabor: false } : settlementRules
     );
 
-    const taxAmount = round2(taxableBase * (taxRatePct / 100));
+    const baseTax = round2(taxableBase * (taxRatePct / 100));
+    const laborTax = round2(laborPortion * (itemTax.laborTaxRate / 100));
+    totalTaxOnLabor += laborTax;
+    const taxAmount = round2(baseTax + laborTax);
 
     // Tax breakdown: allocate tax by portion of taxable base
     if (taxableBase > 0) {
       const matPortion = Math.max(0, (item.totalPrice || 0) - laborPortion);
-      if (settlementRules.taxOnLabor) {
-        totalTaxOnMaterials += round2(taxAmount * (matPortion / taxableBase));
-        totalTaxOnLabor += round2(taxAmount * (laborPortion / taxableBase));
+      if (settlementRules.taxOnLabor && !itemTax.materialsOnly) {
+        totalTaxOnMaterials += round2(baseTax * (matPortion / taxableBase));
+        totalTaxOnLabor += round2(baseTax * (laborPortion / taxableBase));
       } else {
-        totalTaxOnMaterials += taxAmount;
+        totalTaxOnMaterials += baseTax;
       }
     }
     if (settlementRules.taxOnOP && itemOP > 0) {
@@ -762,7 +826,8 @@ export function calculateSettlement(
       item.depreciationPercentage,
       item.depreciationType,
       settlementRules.applyRoofDepreciationSchedule,
-      isRoofing
+      isRoofing,
+      !!item.incurred
     );
 
     return {
@@ -782,6 +847,7 @@ export function calculateSettlement(
       acv: dep.acv,
       depreciationType: dep.effectiveDepType,
       coverageBucket: bucket,
+      sublimitKey: item.sublimitKey ?? null,
     };
   });
 
@@ -804,19 +870,34 @@ export function calculateSettlement(
     const totalNonRecDep = covItems
       .filter(i => i.depreciationType === "Non-Recoverable")
       .reduce((s, i) => s + i.depreciationAmount, 0);
+    // Incurred PWI work carries its full RCV as ACV, so only the rest is held back
     const totalPWIDep = covItems
       .filter(i => i.depreciationType === "Paid When Incurred")
-      .reduce((s, i) => s + i.rcv, 0);
+      .reduce((s, i) => s + i.rcv - i.acv, 0);
 
     const totalDepreciation = totalRecDep + totalNonRecDep;
     const totalACV = totalRCV - totalDepreciation - totalPWIDep;
-    const deductible = limitData?.deductible || 0;
+    const deductibleDetail = resolveDeductible(limitData, peril);
+    const deductible = deductibleDetail.amount;
+    const coinsurance = calculateCoinsurance(totalACV, limitData);
+    const coinsurancePenalty = coinsurance?.penalty ?? 0;
+    const sublimitOutcome = applySublimits(
+      covItems.map(i => ({
+        sublimitKey: i.sublimitKey,
+        acv: i.acv,
+        quantity: i.quantity,
+      })),
+      limitData?.sublimits || [],
+      limitData?.policyLimit ?? null
+    );
 
-    let netClaim = Math.max(totalACV - deductible, 0);
+    let netClaim = Math.max(totalACV - sublimitOutcome.totalOverage - coinsurancePenalty - deductible, 0);
     let overLimitDeduction = 0;
-    if (limitData?.policyLimit != null && netClaim > limitData.policyLimit) {
-      overLimitDeduction = netClaim - limitData.policyLimit;
-      netClaim = limitData.policyLimit;
+    // Additional coverages are paid on top of the limit
+    const subjectToLimit = Math.max(netClaim - sublimitOutcome.additionalAllowed, 0);
+    if (limitData?.policyLimit != null && subjectToLimit > limitData.policyLimit) {
+      overLimitDeduction = subjectToLimit - limitData.policyLimit;
+      netClaim -= overLimitDeduction;
     }
 
     coverages.push({
@@ -827,10 +908,18 @@ export function calculateSettlement(
       totalDepreciation: round2(totalDepreciation),
       totalACV: round2(Math.max(totalACV, 0)),
       deductible,
+      deductibleDetail,
+      coinsurance,
+      coinsurancePenalty,
+      sublimits: sublimitOutcome.results,
+      sublimitOverage: sublimitOutcome.totalOverage,
+      paidWhenIncurredPending: round2(totalPWIDep),
       policyLimit: limitData?.policyLimit ?? null,
       netClaim: round2(netClaim),
       overLimitDeduction: round2(overLimitDeduction),
       itemCount: covItems.length,
+      priorPayments: round2(priorPaidMap.get(coverageType) || 0),
+      netClaimAfterPayments: round2(netClaim - (priorPaidMap.get(coverageType) || 0)),
     });
   }
 
@@ -840,8 +929,13 @@ export function calculateSettlement(
   const grandTotalDep = coverages.reduce((s, c) => s + c.totalDepreciation, 0);
   const grandTotalACV = coverages.reduce((s, c) => s + c.totalACV, 0);
   const grandTotalDeductible = coverages.reduce((s, c) => s + c.deductible, 0);
+  const grandTotalCoinsurancePenalty = coverages.reduce((s, c) => s + c.coinsurancePenalty, 0);
+  const grandTotalSublimitOverage = coverages.reduce((s, c) => s + c.sublimitOverage, 0);
+  const grandTotalPWIPending = coverages.reduce((s, c) => s + c.paidWhenIncurredPending, 0);
   const grandTotalOverLimit = coverages.reduce((s, c) => s + c.overLimitDeduction, 0);
   const grandNetClaim = coverages.reduce((s, c) => s + c.netClaim, 0);
+  // Payments against a coverage with nothing in the estimate still reduce the check
+  const totalPriorPayments = Array.from(priorPaidMap.values()).reduce((s, v) => s + v, 0);
 
   return {
     coverages,
@@ -851,8 +945,13 @@ export function calculateSettlement(
     grandTotalNonRecoverableDep: round2(grandTotalNonRecDep),
     grandTotalACV: round2(grandTotalACV),
     grandTotalDeductible: round2(grandTotalDeductible),
+    grandTotalCoinsurancePenalty: round2(grandTotalCoinsurancePenalty),
+    grandTotalSublimitOverage: round2(grandTotalSublimitOverage),
+    grandTotalPaidWhenIncurredPending: round2(grandTotalPWIPending),
     grandTotalOverLimit: round2(grandTotalOverLimit),
     grandNetClaim: round2(grandNetClaim),
+    totalPriorPayments: round2(totalPriorPayments),
+    grandNetClaimAfterPayments: round2(grandNetClaim - totalPriorPayments),
     totalOverhead: round2(totalOverhead),
     totalProfit: round2(totalProfit),
     qualifiesForOP: tradesInvolved.length >= settlementRules.opThreshold,
@@ -936,18 +1035,20 @@ export async function getRegionalPrice(code: string, regionId: string, activityT
 }
 
 /**
- * Calculates the unit price and total price for a line item
+ * Calculates the unit price and total price for a line item.
+ * laborBurdenPct is the jurisdiction's combined burden tax rate, added to labor.
  */
 export function calculateLineItemPrice(
   catalogItem: any,
   regionalPrice: any,
   quantity: number,
-  overrideWasteFactor?: number
+  overrideWasteFactor?: number,
+  laborBurdenPct: number = 0
 ): PricedLineItem {
   const wasteFactor = overrideWasteFactor ?? (catalogItem?.defaultWasteFactor || 0);
 
   const materialCost = regionalPrice?.materialCost || 0;
-  const laborCost = regionalPrice?.laborCost || 0;
+  const laborCost = round2((regionalPrice?.laborCost || 0) * (1 + laborBurdenPct / 100));
   const equipmentCost = regionalPrice?.equipmentCost || 0;
 
   // Waste factor applies only to materials, not labor or equipment
@@ -970,6 +1071,7 @@ export function calculateLineItemPrice(
     },
     totalPrice,
     tradeCode: catalogItem.tradeCode,
+    minimumId: catalogItem.xactMinimumId ?? null,
   };
 }
 
@@ -0,0 +1,507 @@
+import type { InspectionRoom, LineItem } from "@shared/schema";
+import { parseCsv, parseXlsxRows } from "./contentsInventory";
+import { COMPLETE_TRADE_CODE_MAP } from "./tradeCodeMapping";
+import type { ParsedEsx } from "./esxParser";
+
+// ── Estimate Reconciliation ──
+//
+// Aligns a contractor's estimate with the session's line items. Lines pair up
+// within the same room on catalog code and description similarity; each row
+// is then classified and its dollars split into agreed (both sides carry it)
+// and disputed (the difference). Accepted rows count as agreed at the
+// contractor's figure.
+
+export const RECONCILIATION_STATUSES = [
+  "matched",
+  "quantity_diff",
+  "price_diff",
+  "missing_on_ours",
+  "missing_on_theirs",
+] as const;
+export type ReconciliationStatus = typeof RECONCILIATION_STATUSES[number];
+
+export interface ContractorLine {
+  /** 1-based position in the contractor's file; stable row identity. */
+  lineNo: number;
+  roomName: string | null;
+  trade: string | null;
+  xactCode: string | null;
+  description: string;
+  quantity: number;
+  unit: string | null;
+  unitPrice: number;
+  totalPrice: number;
+}
+
+export interface OurLine {
+  lineItemId: number;
+  roomName: string | null;
+  trade: string;
+  xactCode: string | null;
+  description: string;
+  quantity: number;
+  unit: string | null;
+  unitPrice: number;
+  totalPrice: number;
+}
+
+export interface ReconciliationRow {
+  key: string;
+  status: ReconciliationStatus;
+  trade: string;
+  roomName: string | null;
+  ours: OurLine | null;
+  theirs: ContractorLine | null;
+  /** Description similarity of a paired row, 0–1. */
+  similarity: number | null;
+  quantityDelta: number;
+  unitPriceDelta: number;
+  /** Theirs minus ours. */
+  totalDelta: number;
+  agreed: number;
+  disputed: number;
+  accepted: boolean;
+}
+
+export interface ReconciliationTotals {
+  trade: string;
+  rowCount: number;
+  ours: number;
+  theirs: number;
+  agreed: number;
+  disputed: number;
+}
+
+export interface ReconciliationView {
+  rows: ReconciliationRow[];
+  trades: ReconciliationTotals[];
+  totals: Omit<ReconciliationTotals, "trade">;
+  statusCounts: Record<ReconciliationStatus, number>;
+}
+
+export interface AcceptedRow {
+  rowKey: string;
+  status: ReconciliationStatus;
+  supplementalId: number;
+  acceptedBy: string | null;
+  acceptedAt: string;
+}
+
+/** Minimum description similarity for two lines without a shared code to pair up. */
+export const MIN_DESCRIPTION_SIMILARITY = 0.6;
+
+const QUANTITY_TOLERANCE = 0.005;
+const PRICE_TOLERANCE = 0.005;
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function normalize(value: string | null | undefined): string {
+  return (value || "").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+const XACT_CATEGORY_CODES = new Set(Object.values(COMPLETE_TRADE_CODE_MAP));
+
+/** Xactimate category code for a trade code, category name or catalog code. */
+export function tradeFor(...candidates: Array<string | null | undefined>): string {
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const upper = candidate.trim().toUpperCase();
+    if (XACT_CATEGORY_CODES.has(upper)) return upper;
+    const mapped = COMPLETE_TRADE_CODE_MAP[upper] ?? COMPLETE_TRADE_CODE_MAP[upper.split(/[-\s]/)[0]];
+    if (mapped) return mapped;
+  }
+  return "GEN";
+}
+
+function bigrams(value: string): Map<string, number> {
+  const text = normalize(value).replace(/[^a-z0-9 ]/g, "");
+  const grams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const gram = text.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+}
+
+/** Sørensen–Dice coefficient over character bigrams, 0–1. */
+export function descriptionSimilarity(a: string, b: string): number {
+  if (normalize(a) === normalize(b)) return 1;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  let total = 0;
+  for (const count of left.values()) total += count;
+  for (const count of right.values()) total += count;
+  if (total === 0) return 0;
+  let shared = 0;
+  for (const [gram, count] of left) shared += Math.min(count, right.get(gram) ?? 0);
+  return round2((2 * shared) / total);
+}
+
+// ── Contractor file parsing ──
+
+const HEADER_ALIASES: Record<string, keyof ContractorLine> = {
+  room: "roomName",
+  roomname: "roomName",
+  area: "roomName",
+  location: "roomName",
+  trade: "trade",
+  category: "trade",
+  cat: "trade",
+  code: "xactCode",
+  xactcode: "xactCode",
+  itemcode: "xactCode",
+  selector: "xactCode",
+  description: "description",
+  desc: "description",
+  item: "description",
+  quantity: "quantity",
+  qty: "quantity",
+  unit: "unit",
+  uom: "unit",
+  unitprice: "unitPrice",
+  unitcost: "unitPrice",
+  price: "unitPrice",
+  rate: "unitPrice",
+  total: "totalPrice",
+  totalprice: "totalPrice",
+  linetotal: "totalPrice",
+  extension: "totalPrice",
+  amount: "totalPrice",
+  rcv: "totalPrice",
+};
+
+const NUMERIC_COLUMNS = new Set<keyof ContractorLine>(["quantity", "unitPrice", "totalPrice"]);
+
+export interface ContractorImportResult {
+  lines: ContractorLine[];
+  errors: Array<{ row: number; message: string }>;
+}
+
+/**
+ * Converts a header + data grid into contractor lines. A missing unit price
+ * or total is derived from the other; rows with neither are rejected.
+ */
+export function mapContractorRows(grid: string[][]): ContractorImportResult {
+  if (grid.length === 0) return { lines: [], errors: [{ row: 1, message: "File is empty" }] };
+
+  const fields = grid[0].map((h) => HEADER_ALIASES[(h || "").toLowerCase().replace(/[^a-z]/g, "")]);
+  if (!fields.includes("description")) {
+    return { lines: [], errors: [{ row: 1, message: "Missing a Description column" }] };
+  }
+
+  const lines: ContractorLine[] = [];
+  const errors: ContractorImportResult["errors"] = [];
+
+  grid.slice(1).forEach((cells, i) => {
+    const rowNumber = i + 2;
+    const raw: Partial<Record<keyof ContractorLine, string>> = {};
+    fields.forEach((field, col) => {
+      const value = (cells[col] ?? "").trim();
+      if (field && value) raw[field] = value;
+    });
+
+    if (!raw.description) {
+      errors.push({ row: rowNumber, message: "Missing description" });
+      return;
+    }
+    const numbers: Partial<Record<"quantity" | "unitPrice" | "totalPrice", number>> = {};
+    for (const field of NUMERIC_COLUMNS) {
+      const value = raw[field];
+      if (!value) continue;
+      const n = Number(value.replace(/[$,\s]/g, ""));
+      if (!Number.isFinite(n)) {
+        errors.push({ row: rowNumber, message: `Invalid ${field}: "${value}"` });
+        return;
+      }
+      numbers[field as "quantity" | "unitPrice" | "totalPrice"] = n;
+    }
+    if (numbers.unitPrice == null && numbers.totalPrice == null) {
+      errors.push({ row: rowNumber, message: "Needs a unit price or a total" });
+      return;
+    }
+
+    const quantity = numbers.quantity ?? 1;
+    const unitPrice = numbers.unitPrice ?? (quantity ? round2(numbers.totalPrice! / quantity) : 0);
+    lines.push({
+      lineNo: lines.length + 1,
+      roomName: raw.roomName ?? null,
+      trade: raw.trade ?? null,
+      xactCode: raw.xactCode ?? null,
+      description: raw.description,
+      quantity,
+      unit: raw.unit ?? null,
+      unitPrice,
+      totalPrice: numbers.totalPrice ?? round2(quantity * unitPrice),
+    });
+  });
+
+  return { lines, errors };
+}
+
+export function parseContractorFile(buf: Buffer, fileName: string): ContractorImportResult {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".xlsx")) return mapContractorRows(parseXlsxRows(buf));
+  if (lower.endsWith(".csv") || lower.endsWith(".txt")) return mapContractorRows(parseCsv(buf.toString("utf8")));
+  throw new Error("Unsupported estimate file type; upload a .csv, .xlsx or .esx file");
+}
+
+/** Structure line items of a parsed ESX file as contractor lines. */
+export function contractorLinesFromEsx(parsed: ParsedEsx): ContractorLine[] {
+  return parsed.lineItems.map((line, i) => ({
+    lineNo: i + 1,
+    roomName: line.roomName,
+    trade: line.xactCategory || null,
+    xactCode: line.xactCode ?? (line.selector || null),
+    description: line.description,
+    quantity: line.quantity,
+    unit: line.unit,
+    unitPrice: line.unitPrice,
+    totalPrice: line.totalPrice,
+  }));
+}
+
+// ── Alignment ──
+
+export function toOurLines(lineItems: LineItem[], rooms: InspectionRoom[]): OurLine[] {
+  const roomNames = new Map(rooms.map((r) => [r.id, r.name]));
+  return lineItems.map((item) => ({
+    lineItemId: item.id,
+    roomName: item.roomId != null ? roomNames.get(item.roomId) ?? null : null,
+    trade: tradeFor(item.tradeCode, item.category, item.xactCode),
+    xactCode: item.xactCode,
+    description: item.description,
+    quantity: Number(item.quantity) || 0,
+    unit: item.unit,
+    unitPrice: Number(item.unitPrice) || 0,
+    totalPrice: Number(item.totalPrice) || 0,
+  }));
+}
+
+function classify(ours: OurLine | null, theirs: ContractorLine | null): ReconciliationStatus {
+  if (!ours) return "missing_on_ours";
+  if (!theirs) return "missing_on_theirs";
+  if (Math.abs(theirs.quantity - ours.quantity) > QUANTITY_TOLERANCE) return "quantity_diff";
+  if (Math.abs(theirs.unitPrice - ours.unitPrice) > PRICE_TOLERANCE) return "price_diff";
+  if (Math.abs(theirs.totalPrice - ours.totalPrice) > 0.01) return "price_diff";
+  return "matched";
+}
+
+export function rowKey(ours: OurLine | null, theirs: ContractorLine | null): string {
+  if (ours && theirs) return `o${ours.lineItemId}-t${theirs.lineNo}`;
+  return ours ? `o${ours.lineItemId}` : `t${theirs!.lineNo}`;
+}
+
+function buildRow(
+  ours: OurLine | null,
+  theirs: ContractorLine | null,
+  similarity: number | null,
+  accepted: Set<string>,
+): ReconciliationRow {
+  const key = rowKey(ours, theirs);
+  const status = classify(ours, theirs);
+  const ourTotal = ours?.totalPrice ?? 0;
+  const theirTotal = theirs?.totalPrice ?? 0;
+  const isAccepted = accepted.has(key);
+
+  let agreed: number;
+  let disputed: number;
+  if (isAccepted) {
+    // Accepting a missing-on-theirs row removes our line, so nothing is owed either way
+    agreed = status === "missing_on_theirs" ? 0 : theirTotal;
+    disputed = 0;
+  } else if (status === "missing_on_ours" || status === "missing_on_theirs") {
+    agreed = 0;
+    disputed = ourTotal + theirTotal;
+  } else {
+    agreed = Math.min(ourTotal, theirTotal);
+    disputed = Math.abs(theirTotal - ourTotal);
+  }
+
+  return {
+    key,
+    status,
+    trade: ours?.trade ?? tradeFor(theirs?.trade, theirs?.xactCode),
+    roomName: ours?.roomName ?? theirs?.roomName ?? null,
+    ours,
+    theirs,
+    similarity,
+    quantityDelta: round2((theirs?.quantity ?? 0) - (ours?.quantity ?? 0)),
+    unitPriceDelta: ours && theirs ? round2(theirs.unitPrice - ours.unitPrice) : 0,
+    totalDelta: round2(theirTotal - ourTotal),
+    agreed: round2(agreed),
+    disputed: round2(disputed),
+    accepted: isAccepted,
+  };
+}
+
+interface Candidate {
+  ours: OurLine;
+  theirs: ContractorLine;
+  score: number;
+  similarity: number;
+}
+
+/**
+ * Pairs contractor lines with ours. A contractor line whose room matches one
+ * of our rooms only pairs within that room; lines with an unknown or missing
+ * room may pair anywhere. A shared code pairs regardless of wording;
+ * otherwise descriptions must reach MIN_DESCRIPTION_SIMILARITY. Best-scoring
+ * pairs are taken first.
+ */
+export function alignEstimates(
+  ours: OurLine[],
+  theirs: ContractorLine[],
+  acceptedKeys: Iterable<string> = [],
+): ReconciliationView {
+  const accepted = new Set(acceptedKeys);
+  const ourRooms = new Set(ours.map((l) => normalize(l.roomName)));
+
+  const candidates: Candidate[] = [];
+  for (const t of theirs) {
+    const theirRoom = normalize(t.roomName);
+    const roomKnown = theirRoom !== "" && ourRooms.has(theirRoom);
+    for (const o of ours) {
+      const sameRoom = normalize(o.roomName) === theirRoom;
+      if (roomKnown && !sameRoom) continue;
+      const codeMatch = !!o.xactCode && !!t.xactCode && normalize(o.xactCode) === normalize(t.xactCode);
+      const similarity = descriptionSimilarity(o.description, t.description);
+      if (!codeMatch && similarity < MIN_DESCRIPTION_SIMILARITY) continue;
+      candidates.push({
+        ours: o,
+        theirs: t,
+        similarity,
+        score: (codeMatch ? 2 : 0) + (sameRoom ? 1 : 0) + similarity,
+      });
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score || a.theirs.lineNo - b.theirs.lineNo || a.ours.lineItemId - b.ours.lineItemId);
+
+  const usedOurs = new Set<number>();
+  const usedTheirs = new Set<number>();
+  const rows: ReconciliationRow[] = [];
+  for (const c of candidates) {
+    if (usedOurs.has(c.ours.lineItemId) || usedTheirs.has(c.theirs.lineNo)) continue;
+    usedOurs.add(c.ours.lineItemId);
+    usedTheirs.add(c.theirs.lineNo);
+    rows.push(buildRow(c.ours, c.theirs, c.similarity, accepted));
+  }
+  for (const t of theirs) {
+    if (!usedTheirs.has(t.lineNo)) rows.push(buildRow(null, t, null, accepted));
+  }
+  for (const o of ours) {
+    if (!usedOurs.has(o.lineItemId)) rows.push(buildRow(o, null, null, accepted));
+  }
+  rows.sort((a, b) =>
+    (a.roomName ?? "").localeCompare(b.roomName ?? "") ||
+    a.trade.localeCompare(b.trade) ||
+    (a.ours?.description ?? a.theirs?.description ?? "").localeCompare(b.ours?.description ?? b.theirs?.description ?? ""));
+
+  return summarizeRows(rows);
+}
+
+function summarizeRows(rows: ReconciliationRow[]): ReconciliationView {
+  const byTrade = new Map<string, ReconciliationTotals>();
+  const statusCounts = Object.fromEntries(RECONCILIATION_STATUSES.map((s) => [s, 0])) as Record<ReconciliationStatus, number>;
+  const overall = { rowCount: 0, ours: 0, theirs: 0, agreed: 0, disputed: 0 };
+
+  for (const row of rows) {
+    statusCounts[row.status]++;
+    if (!byTrade.has(row.trade)) {
+      byTrade.set(row.trade, { trade: row.trade, rowCount: 0, ours: 0, theirs: 0, agreed: 0, disputed: 0 });
+    }
+    for (const bucket of [byTrade.get(row.trade)!, overall]) {
+      bucket.rowCount++;
+      bucket.ours += row.ours?.totalPrice ?? 0;
+      bucket.theirs += row.theirs?.totalPrice ?? 0;
+      bucket.agreed += row.agreed;
+      bucket.disputed += row.disputed;
+    }
+  }
+
+  const rounded = <T extends { ours: number; theirs: number; agreed: number; disputed: number }>(t: T): T => ({
+    ...t,
+    ours: round2(t.ours),
+    theirs: round2(t.theirs),
+    agreed: round2(t.agreed),
+    disputed: round2(t.disputed),
+  });
+
+  return {
+    rows,
+    trades: Array.from(byTrade.values()).map(rounded).sort((a, b) => a.trade.localeCompare(b.trade)),
+    totals: rounded(overall),
+    statusCounts,
+  };
+}
+
+// ── Accepting into a supplemental ──
+
+export interface SupplementalChanges {
+  newLineItems: Array<{
+    category: string;
+    action: string | null;
+    description: string;
+    xactCode: string | null;
+    quantity: number;
+    unit: string | null;
+    unitPrice: number;
+    roomId: number | null;
+  }>;
+  modifiedLineItems: Array<{ id: number; quantity: number; unitPrice: number }>;
+  removedLineItemIds: number[];
+}
+
+/**
+ * Supplemental changes that adopt the contractor's side of each row:
+ * missing-on-ours lines are added, quantity/price differences modify our
+ * line, and missing-on-theirs lines are removed. Matched rows change nothing.
+ */
+export function supplementalChangesForRows(rows: ReconciliationRow[], rooms: InspectionRoom[]): SupplementalChanges {
+  const roomIds = new Map(rooms.map((r) => [normalize(r.name), r.id]));
+  const changes: SupplementalChanges = { newLineItems: [], modifiedLineItems: [], removedLineItemIds: [] };
+
+  for (const row of rows) {
+    if (row.status === "missing_on_ours" && row.theirs) {
+      changes.newLineItems.push({
+        category: row.trade,
+        action: null,
+        description: row.theirs.description,
+        xactCode: row.theirs.xactCode,
+        quantity: row.theirs.quantity,
+        unit: row.theirs.unit,
+        unitPrice: row.theirs.unitPrice,
+        roomId: roomIds.get(normalize(row.theirs.roomName)) ?? null,
+      });
+    } else if ((row.status === "quantity_diff" || row.status === "price_diff") && row.ours && row.theirs) {
+      changes.modifiedLineItems.push({
+        id: row.ours.lineItemId,
+        quantity: row.theirs.quantity,
+        unitPrice: row.theirs.unitPrice,
+      });
+    } else if (row.status === "missing_on_theirs" && row.ours) {
+      changes.removedLineItemIds.push(row.ours.lineItemId);
+    }
+  }
+  return changes;
+}
+
+/** Folds new changes into a supplemental's existing arrays; a later modification of the same line wins. */
+export function mergeSupplementalChanges(
+  existing: { newLineItems: unknown; modifiedLineItems: unknown; removedLineItemIds: unknown },
+  changes: SupplementalChanges,
+): SupplementalChanges {
+  const modified = new Map<number, SupplementalChanges["modifiedLineItems"][number]>();
+  for (const item of (existing.modifiedLineItems as SupplementalChanges["modifiedLineItems"]) || []) modified.set(item.id, item);
+  for (const item of changes.modifiedLineItems) modified.set(item.id, { ...modified.get(item.id), ...item });
+
+  return {
+    newLineItems: [...((existing.newLineItems as SupplementalChanges["newLineItems"]) || []), ...changes.newLineItems],
+    modifiedLineItems: Array.from(modified.values()),
+    removedLineItemIds: Array.from(new Set([
+      ...((existing.removedLineItemIds as number[]) || []),
+      ...changes.removedLineItemIds,
+    ])),
+  };
+}
@@ -0,0 +1,337 @@
+import type { IStorage } from "./storage";
+import type { SettlementSummary } from "./estimateEngine";
+import type {
+  EstimateVersion,
+  InspectionRoom,
+  LineItem,
+  PolicyRule,
+  RoomOpening,
+  TaxRule,
+} from "@shared/schema";
+
+// ── Estimate Versions ──
+//
+// A version freezes the line items, rooms, openings, settlement rules and
+// totals of a session. Totals come from the same settlement summary as the
+// exports, so a version shows what the adjuster saw. Diffs match lines by
+// their line item id, so an edited line shows up as "changed" rather than as
+// a remove/add pair.
+
+export const ESTIMATE_VERSION_TRIGGERS = ["manual", "esx_export", "pdf_export"] as const;
+export type EstimateVersionTrigger = typeof ESTIMATE_VERSION_TRIGGERS[number];
+
+export interface SnapshotLineItem {
+  id: number;
+  roomId: number | null;
+  roomName: string | null;
+  category: string;
+  action: string | null;
+  description: string;
+  xactCode: string | null;
+  quantity: number;
+  unit: string | null;
+  unitPrice: number;
+  totalPrice: number;
+  taxAmount: number;
+  depreciationType: string | null;
+  depreciationPercentage: number | null;
+  depreciationAmount: number;
+  coverageBucket: string | null;
+  applyOAndP: boolean;
+  sublimitKey: string | null;
+  isCodeUpgrade: boolean;
+  /** ISO timestamp; code upgrades are paid once incurred */
+  incurredAt: string | null;
+}
+
+export interface SnapshotRoom {
+  id: number;
+  name: string;
+  structure: string | null;
+  viewType: string | null;
+  dimensions: unknown;
+}
+
+export interface SnapshotOpening {
+  id: number;
+  roomId: number;
+  openingType: string;
+  widthFt: number | null;
+  heightFt: number | null;
+  quantity: number;
+}
+
+export interface EstimateTotals {
+  itemCount: number;
+  totalRCV: number;
+  totalTax: number;
+  totalDepreciation: number;
+  totalACV: number;
+  /** Net claim from the settlement engine; null when it could not be computed. */
+  grandNetClaim: number | null;
+}
+
+export interface EstimateSnapshot {
+  lineItems: SnapshotLineItem[];
+  rooms: SnapshotRoom[];
+  openings: SnapshotOpening[];
+  settlementRules: {
+    policyRules: Array<Pick<PolicyRule,
+      | "coverageType" | "policyLimit" | "deductible" | "deductibleType" | "deductiblePct" | "perilDeductibles"
+      | "coinsurancePct" | "replacementCostValue" | "sublimits"
+      | "applyRoofSchedule" | "overheadPct" | "profitPct" | "taxRate"
+    >>;
+    taxRules: Array<Pick<TaxRule, "taxLabel" | "taxRate" | "appliesToCategories" | "appliesToCostType" | "isDefault" | "source">>;
+  };
+  totals: EstimateTotals;
+}
+
+/** Line item fields compared when diffing two versions. */
+export const DIFF_LINE_FIELDS = [
+  "roomName",
+  "category",
+  "action",
+  "description",
+  "xactCode",
+  "quantity",
+  "unit",
+  "unitPrice",
+  "totalPrice",
+  "taxAmount",
+  "depreciationType",
+  "depreciationPercentage",
+  "depreciationAmount",
+  "coverageBucket",
+  "applyOAndP",
+  "sublimitKey",
+  "isCodeUpgrade",
+  "incurredAt",
+] as const satisfies ReadonlyArray<keyof SnapshotLineItem>;
+
+export interface LineFieldChange {
+  field: typeof DIFF_LINE_FIELDS[number];
+  from: unknown;
+  to: unknown;
+}
+
+export interface ChangedLine {
+  id: number;
+  from: SnapshotLineItem;
+  to: SnapshotLineItem;
+  changes: LineFieldChange[];
+  totalPriceDelta: number;
+}
+
+export interface EstimateDiff {
+  added: SnapshotLineItem[];
+  removed: SnapshotLineItem[];
+  changed: ChangedLine[];
+  unchangedCount: number;
+  rooms: { added: SnapshotRoom[]; removed: SnapshotRoom[] };
+  totals: Record<keyof EstimateTotals, { from: number | null; to: number | null; delta: number | null }>;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function num(value: unknown): number {
+  return Number(value) || 0;
+}
+
+export function buildEstimateSnapshot(input: {
+  lineItems: LineItem[];
+  rooms: InspectionRoom[];
+  openings: RoomOpening[];
+  policyRules: PolicyRule[];
+  taxRules: TaxRule[];
+  /** Settlement summary the exports use; totals fall back to line sums without it. */
+  settlement?: Pick<SettlementSummary,
+    | "grandTotalRCV" | "grandTotalDepreciation" | "grandTotalACV" | "grandNetClaim"
+    | "totalTaxOnMaterials" | "totalTaxOnLabor" | "totalTaxOnOP"
+  > | null;
+}): EstimateSnapshot {
+  const roomNames = new Map(input.rooms.map(r => [r.id, r.name]));
+
+  const lineItems: SnapshotLineItem[] = input.lineItems.map(item => ({
+    id: item.id,
+    roomId: item.roomId,
+    roomName: item.roomId != null ? roomNames.get(item.roomId) ?? null : null,
+    category: item.category,
+    action: item.action,
+    description: item.description,
+    xactCode: item.xactCode,
+    quantity: num(item.quantity),
+    unit: item.unit,
+    unitPrice: num(item.unitPrice),
+    totalPrice: num(item.totalPrice),
+    taxAmount: num(item.taxAmount),
+    depreciationType: item.depreciationType,
+    depreciationPercentage: item.depreciationPercentage ?? null,
+    depreciationAmount: num(item.depreciationAmount),
+    coverageBucket: item.coverageBucket,
+    applyOAndP: item.applyOAndP ?? false,
+    sublimitKey: item.sublimitKey ?? null,
+    isCodeUpgrade: item.isCodeUpgrade ?? false,
+    incurredAt: item.incurredAt ? new Date(item.incurredAt).toISOString() : null,
+  }));
+
+  const { settlement } = input;
+  const lineRCV = lineItems.reduce((s, i) => s + i.totalPrice, 0);
+  const lineDepreciation = lineItems.reduce((s, i) => s + Math.max(0, i.depreciationAmount), 0);
+  const totals: EstimateTotals = settlement
+    ? {
+        itemCount: lineItems.length,
+        totalRCV: round2(settlement.grandTotalRCV),
+        totalTax: round2(settlement.totalTaxOnMaterials + settlement.totalTaxOnLabor + settlement.totalTaxOnOP),
+        totalDepreciation: round2(settlement.grandTotalDepreciation),
+        totalACV: round2(settlement.grandTotalACV),
+        grandNetClaim: round2(settlement.grandNetClaim),
+      }
+    : {
+        itemCount: lineItems.length,
+        totalRCV: round2(lineRCV),
+        totalTax: round2(lineItems.reduce((s, i) => s + i.taxAmount, 0)),
+        totalDepreciation: round2(lineDepreciation),
+        totalACV: round2(lineRCV - lineDepreciation),
+        grandNetClaim: null,
+      };
+
+  return {
+    lineItems,
+    rooms: input.rooms.map(r => ({
+      id: r.id,
+      name: r.name,
+      structure: r.structure,
+      viewType: r.viewType,
+      dimensions: r.dimensions ?? null,
+    })),
+    openings: input.openings.map(o => ({
+      id: o.id,
+      roomId: o.roomId,
+      openingType: o.openingType,
+      widthFt: o.widthFt ?? o.width ?? null,
+      heightFt: o.heightFt ?? o.height ?? null,
+      quantity: o.quantity,
+    })),
+    settlementRules: {
+      policyRules: input.policyRules.map(r => ({
+        coverageType: r.coverageType,
+        policyLimit: r.policyLimit,
+        deductible: r.deductible,
+        deductibleType: r.deductibleType,
+        deductiblePct: r.deductiblePct,
+        perilDeductibles: r.perilDeductibles ?? [],
+        coinsurancePct: r.coinsurancePct,
+        replacementCostValue: r.replacementCostValue,
+        sublimits: r.sublimits ?? [],
+        applyRoofSchedule: r.applyRoofSchedule,
+        overheadPct: r.overheadPct,
+        profitPct: r.profitPct,
+        taxRate: r.taxRate,
+      })),
+      taxRules: input.taxRules.map(t => ({
+        taxLabel: t.taxLabel,
+        taxRate: t.taxRate,
+        appliesToCategories: t.appliesToCategories,
+        appliesToCostType: t.appliesToCostType,
+        isDefault: t.isDefault,
+        source: t.source,
+      })),
+    },
+    totals,
+  };
+}
+
+export function diffEstimateSnapshots(from: EstimateSnapshot, to: EstimateSnapshot): EstimateDiff {
+  const fromLines = new Map(from.lineItems.map(l => [l.id, l]));
+  const toLines = new Map(to.lineItems.map(l => [l.id, l]));
+
+  const added = to.lineItems.filter(l => !fromLines.has(l.id));
+  const removed = from.lineItems.filter(l => !toLines.has(l.id));
+  const changed: ChangedLine[] = [];
+  let unchangedCount = 0;
+
+  for (const next of to.lineItems) {
+    const prev = fromLines.get(next.id);
+    if (!prev) continue;
+    const changes: LineFieldChange[] = [];
+    for (const field of DIFF_LINE_FIELDS) {
+      // Versions taken before a field was snapshotted read as null
+      const a = prev[field] ?? null;
+      const b = next[field] ?? null;
+      if (a !== b) changes.push({ field, from: a, to: b });
+    }
+    if (changes.length === 0) {
+      unchangedCount++;
+      continue;
+    }
+    changed.push({
+      id: next.id,
+      from: prev,
+      to: next,
+      changes,
+      totalPriceDelta: round2(next.totalPrice - prev.totalPrice),
+    });
+  }
+
+  const fromRoomIds = new Set(from.rooms.map(r => r.id));
+  const toRoomIds = new Set(to.rooms.map(r => r.id));
+
+  const totals = {} as EstimateDiff["totals"];
+  for (const key of Object.keys(to.totals) as Array<keyof EstimateTotals>) {
+    const a = from.totals[key] ?? null;
+    const b = to.totals[key] ?? null;
+    totals[key] = { from: a, to: b, delta: a != null && b != null ? round2(b - a) : null };
+  }
+
+  return {
+    added,
+    removed,
+    changed,
+    unchangedCount,
+    rooms: {
+      added: to.rooms.filter(r => !fromRoomIds.has(r.id)),
+      removed: from.rooms.filter(r => !toRoomIds.has(r.id)),
+    },
+    totals,
+  };
+}
+
+/**
+ * Snapshots the session's current estimate and stores it as the next
+ * version. The settlement is best-effort: a claim with invalid settlement
+ * rules still gets its line items versioned, totalled from the lines.
+ */
+export async function createEstimateVersion(
+  storage: IStorage,
+  sessionId: number,
+  claimId: number,
+  options: { trigger: EstimateVersionTrigger; name: string; createdBy?: string | null },
+): Promise<EstimateVersion> {
+  const [lineItems, rooms, openings, policyRules, taxRules] = await Promise.all([
+    storage.getLineItems(sessionId),
+    storage.getRooms(sessionId),
+    storage.getOpeningsForSession(sessionId),
+    storage.getPolicyRulesForClaim(claimId),
+    storage.getTaxRulesForClaim(claimId),
+  ]);
+
+  let settlement: SettlementSummary | null = null;
+  try {
+    settlement = (await storage.getSettlementSummary(sessionId, claimId)) ?? null;
+  } catch {
+    settlement = null;
+  }
+
+  const snapshot = buildEstimateSnapshot({ lineItems, rooms, openings, policyRules, taxRules, settlement });
+  return storage.createEstimateVersion({
+    sessionId,
+    claimId,
+    name: options.name,
+    trigger: options.trigger,
+    snapshot,
+    totals: snapshot.totals,
+    createdBy: options.createdBy ?? null,
+  });
+}
@@ -2,12 +2,17 @@ import archiver from "archiver";
 import { IStorage } from "./storage";
 import {
   generateSubroomXml,
+  CONTENTS_TRADE_CODE,
   type RoomDimensions, type OpeningData
 } from "./estimateEngine";
 import type { SettlementRules } from "./settlementRules";
+import type { DepreciationTable } from "./depreciationEngine";
 import { getDefaultSettlementRules } from "./settlementRules";
 import { resolveCategory } from "./tradeCodeMapping";
 import type { XactdocMetadata } from "./xactdocMetadata";
+import type { Carrier, ContentsItem } from "@shared/schema";
+import { buildContentsReport, type ContentsReportItem } from "./contentsInventory";
+import { ORDINANCE_OR_LAW, PAID_WHEN_INCURRED } from "./ordinanceLaw";
 
 interface LineItemXML {
   id: number;
@@ -28,8 +33,11 @@ interface LineItemXML {
   depreciationAmount?: number;
   room?: string;
   provenance?: string;
+  /** Code upgrade exported under the Ordinance or Law level */
+  ordinanceLaw?: boolean;
 }
 
+
 export interface ESXOptions {
   claim: any;
   session: any;
@@ -42,6 +50,11 @@ export interface ESXOptions {
   removedItemIds?: number[];
   settlementRules?: SettlementRules;
   catalogMap?: Map<string, { xactCategoryCode: string | null; xactSelector: string | null; activityType: string | null }>;
+  contentsItems?: ContentsItem[];
+  depreciationSchedule?: DepreciationTable | null;
+  carrier?: Carrier | null;
+  laborBurdenPct?: number;
+  minimumMap?: Map<string, { cat: string | null; sel: string | null }>;
 }
 
 /**
@@ -59,13 +72,22 @@ export async function generateESXFile(sessionId: number, storage: IStorage): Pro
   const rooms = await storage.getRooms(sessionId);
   const briefing = await storage.getBriefing(session.claimId);
   const openings = await storage.getOpeningsForSession(sessionId);
+  const contentsItems = await storage.getContentsItemsForClaim(session.claimId);
 
   const { resolveSettlementRules } = await import("./settlementRules");
-  const settlementRules = await resolveSettlementRules(
-    String(session.claimId),
-    (claim as { carrierCode?: string }).carrierCode ?? null
+  const settlementRules = await resolveSettlementRules(String(session.claimId));
+  const carrier = claim.carrierId ? (await storage.getCarrier(claim.carrierId)) ?? null : null;
+
+  const { resolveClaimLaborBurden } = await import("./taxJurisdiction");
+  const laborBurdenPct = await resolveClaimLaborBurden(storage, claim);
+  const minimumIds = Array.from(new Set(items.map((i) => i.xactMinimumId).filter((id): id is string => !!id)));
+  const minimumMap = new Map(
+    (await storage.getXactMinimums(minimumIds)).map((m) => [m.id, { cat: m.cat, sel: m.sel }])
   );
 
+  const { resolveDepreciationSchedule } = await import("./depreciationSchedules");
+  const depreciationSchedule = await resolveDepreciationSchedule(storage, claim);
+
   const { scopeLineItems } = await import("@shared/schema");
   const { db } = await import("./db");
   const catalogItems = await db.select().from(scopeLineItems);
@@ -83,6 +105,11 @@ export async function generateESXFile(sessionId: number, storage: IStorage): Pro
     openings,
     settlementRules,
     catalogMap,
+    contentsItems,
+    depreciationSchedule: depreciationSchedule?.table,
+    carrier,
+    laborBurdenPct,
+    minimumMap,
   });
 }
 
@@ -103,6 +130,11 @@ export async function generateESXFromData(options: ESXOptions): Promise<Buffer>
     removedItemIds,
     settlementRules,
     catalogMap,
+    contentsItems,
+    depreciationSchedule,
+    carrier,
+    laborBurdenPct = 0,
+    minimumMap,
   } = options;
 
   const rules = settlementRules ?? getDefaultSettlementRules();
@@ -140,7 +172,7 @@ export async function generateESXFromData(options: ESXOptions): Promise<Buffer>
       if (regionalPrice) {
         const wasteFactor = Number(item.wasteFactor) || 0;
         const matCost = Number(regionalPrice.materialCost || 0) * (1 + wasteFactor / 100) * qty;
-        const labCost = Number(regionalPrice.laborCost || 0) * qty;
+        const labCost = Number(regionalPrice.laborCost || 0) * (1 + laborBurdenPct / 100) * qty;
         const equipCost = Number(regionalPrice.equipmentCost || 0) * qty;
 
         material = Math.round(matCost * 100) / 100;
@@ -185,6 +217,7 @@ export async function generateESXFromData(options: ESXOptions): Promise<Buffer>
       depreciationType: claim?.depreciationType ?? "Standard",
       tradeCode: item.tradeCode,
       waterClassification: waterClass,
+      schedule: depreciationSchedule,
     });
     depreciationPercentage = depResult.depreciationPercentage;
     depreciationAmount = depResult.depreciationAmount;
@@ -194,7 +227,15 @@ export async function generateESXFromData(options: ESXOptions): Promise<Buffer>
       depreciationAmount = 0;
     }
 
-    const acvTotal = Math.round((rcvTotal - depreciationAmount) * 100) / 100;
+    const ordinanceLaw = item.coverageBucket === ORDINANCE_OR_LAW;
+    // Code upgrades pay nothing until the work is done, then their full cost
+    if (ordinanceLaw && item.depreciationType === PAID_WHEN_INCURRED && item.incurredAt) {
+      depreciationPercentage = 0;
+      depreciationAmount = 0;
+    }
+    const acvTotal = ordinanceLaw && item.depreciationType === PAID_WHEN_INCURRED && !item.incurredAt
+      ? 0
+      : Math.round((rcvTotal - depreciationAmount) * 100) / 100;
 
     lineItemsXML.push({
       id: item.id,
@@ -215,6 +256,7 @@ export async function generateESXFromData(options: ESXOptions): Promise<Buffer>
       depreciationAmount,
       room: rooms.find((r: any) => r.id === item.roomId)?.name || "Unassigned",
       provenance: item.provenance,
+      ordinanceLaw,
     });
   }
 
@@ -234,6 +276,7 @@ export async function generateESXFromData(options: ESXOptions): Promise<Buffer>
     lineItemsXML,
     isSupplemental,
     supplementalReason,
+    carrier,
   });
 
   const validation = validateESXData({ lineItems: lineItemsXML, metadata, claim });
@@ -245,7 +288,8 @@ export async function generateESXFromData(options: ESXOptions): Promise<Buffer>
   // Generate XACTDOC.XML
   const xactdocXml = generateXactdocFromMetadata(metadata, isSupplemental, supplementalReason);
 
-  const roughdraftXml = generateRoughDraft(rooms, lineItemsXML, lineItems, openings || [], claim, catalogMap);
+  const contentsXML = buildContentsReport(contentsItems || [], rules.defaultTaxRate).items;
+  const roughdraftXml = generateRoughDraft(rooms, lineItemsXML, lineItems, openings || [], claim, catalogMap, contentsXML, minimumMap);
 
   // Create ZIP archive
   return new Promise((resolve, reject) => {
@@ -376,8 +420,9 @@ function generateXactdocFromMetadata(
 <XACTDOC>
   <XACTNET_INFO>
     <transactionId>${metadata.transactionId}</transactionId>
-    <carrierId>CLAIMSIQ</carrierId>
-    <carrierName>${escapeXml(metadata.carrierName)}</carrierName>
+    <carrierId>${escapeXml(metadata.carrierId)}</carrierId>
+    <carrierName>${escapeXml(metadata.carrierName)}</carrierName>${metadata.carrierNaicCode ? `
+    <naicCode>${escapeXml(metadata.carrierNaicCode)}</naicCode>` : ""}
     <CONTROL_POINTS>
       <CONTROL_POINT name="ASSIGNMENT" status="COMPLETE"/>
       <CONTROL_POINT name="${metadata.estimateType}" status="COMPLETE"/>
@@ -417,19 +462,71 @@ ${notesSection}
 </XACTDOC>`;
 }
 
-function generateRoughDraft(rooms: any[], lineItems: LineItemXML[], originalItems: any[], openings: any[] = [], claim?: any, catalogMap?: Map<string, { xactCategoryCode: string | null; xactSelector: string | null; activityType: string | null }>): string {
-  const roomGroups: { [key: string]: LineItemXML[] } = {};
-  lineItems.forEach((item) => {
-    const roomKey = item.room || "Unassigned";
-    if (!roomGroups[roomKey]) roomGroups[roomKey] = [];
-    roomGroups[roomKey].push(item);
-  });
+function generateContentsGroupXml(contents: ContentsReportItem[]): string {
+  if (contents.length === 0) return "";
+  const byRoom: Record<string, ContentsReportItem[]> = {};
+  for (const item of contents) {
+    if (!byRoom[item.roomName]) byRoom[item.roomName] = [];
+    byRoom[item.roomName].push(item);
+  }
 
-  let subroomsXml = "";
-  let itemGroupsXml = "";
+  let xml = `      <GROUP type="level" name="CONTENTS" coverage="C">\n`;
+  for (const [roomName, roomItems] of Object.entries(byRoom).sort(([a], [b]) => a.localeCompare(b))) {
+    xml += `        <GROUP type="room" name="${escapeXml(roomName)}">\n`;
+    xml += `          <ITEMS>\n`;
+    roomItems.forEach((item, idx) => {
+      const rcvTotal = item.totalPrice + item.taxAmount;
+      xml += `            <ITEM lineNum="${idx + 1}" cat="${CONTENTS_TRADE_CODE}" sel="${escapeXml(item.category.toUpperCase())}" act="+" desc="${escapeXml(item.description)}" qty="${item.quantity.toFixed(2)}" unit="EA" unitPrice="${item.unitPrice.toFixed(2)}" tax="${item.taxAmount.toFixed(2)}" acvTotal="${item.acv.toFixed(2)}" rcvTotal="${rcvTotal.toFixed(2)}" age="${item.age ?? 0}" life="${item.lifeExpectancy ?? 0}" condition="${escapeXml(item.condition)}" source="${escapeXml(item.replacementSource)}" depreciationPct="${item.depreciationPercentage.toFixed(2)}" depreciationAmt="${item.depreciationAmount.toFixed(2)}"/>\n`;
+    });
+    xml += `          </ITEMS>\n`;
+    xml += `        </GROUP>\n`;
+  }
+  xml += `      </GROUP>\n`;
+  return xml;
+}
+
+function generateRoughDraft(rooms: any[], lineItems: LineItemXML[], originalItems: any[], openings: any[] = [], claim?: any, catalogMap?: Map<string, { xactCategoryCode: string | null; xactSelector: string | null; activityType: string | null }>, contents: ContentsReportItem[] = [], minimumMap?: Map<string, { cat: string | null; sel: string | null }>): string {
+  const groupByRoom = (items: LineItemXML[]) => {
+    const groups: { [key: string]: LineItemXML[] } = {};
+    items.forEach((item) => {
+      const roomKey = item.room || "Unassigned";
+      if (!groups[roomKey]) groups[roomKey] = [];
+      groups[roomKey].push(item);
+    });
+    return Object.entries(groups).sort(([a], [b]) => a.localeCompare(b));
+  };
+
+  const perilType = claim?.perilType;
+  const actionToAct: Record<string, string> = {
+    "R&R": "&", "Detach & Reset": "O", "Repair": "R", "Paint": "P",
+    "Clean": "C", "Tear Off": "-", "Labor Only": "L", "Install": "+",
+  };
+
+  const actionToActInternal: Record<string, string> = {
+    "replace": "+", "install": "+", "remove": "-", "repair": "R",
+    "reset": "O", "clean": "C", "labor_only": "L",
+  };
+
+  const itemXml = (item: LineItemXML, idx: number): string => {
+    const origItem = originalItems.find((oi: any) => oi.id === item.id);
+    const tradeCode = origItem?.tradeCode || "";
+    const catEntry = origItem?.xactCode ? catalogMap?.get(origItem.xactCode) : undefined;
+    // Minimum charge lines have no catalog code; they export under the minimum's own cat/sel
+    const minEntry = origItem?.xactMinimumId ? minimumMap?.get(origItem.xactMinimumId) : undefined;
+    const xactCatFromCatalog = catEntry?.xactCategoryCode || minEntry?.cat || "";
+    const category = xactCatFromCatalog || resolveCategory(tradeCode, perilType) || (item.category || "").substring(0, 3).toUpperCase() || "GEN";
+    const act = item.provenance === "supplemental_new" ? "ADD" :
+      item.provenance === "supplemental_modified" ? "MOD" :
+      actionToAct[item.action] || actionToActInternal[catEntry?.activityType || ""] || "&";
+    const selector = catEntry?.xactSelector || minEntry?.sel || origItem?.xactCode || "GEN";
+    // code/category/unitPrice are ours; they let esxParser read the line back exactly
+    const codeAttr = origItem?.xactCode ? ` code="${escapeXml(origItem.xactCode)}"` : "";
+
+    return `            <ITEM lineNum="${idx + 1}" cat="${escapeXml(category)}" sel="${escapeXml(selector)}" act="${escapeXml(act)}"${codeAttr} category="${escapeXml(item.category || "")}" desc="${escapeXml(item.description)}" qty="${item.quantity.toFixed(2)}" unit="${escapeXml(item.unit)}" unitPrice="${item.unitPrice.toFixed(2)}" remove="0" replace="${item.rcvTotal.toFixed(2)}" total="${item.rcvTotal.toFixed(2)}" laborTotal="${item.laborTotal.toFixed(2)}" laborHours="${item.laborHours.toFixed(2)}" material="${item.material.toFixed(2)}" equipment="${(item.equipment ?? 0).toFixed(2)}" tax="${item.tax.toFixed(2)}" acvTotal="${item.acvTotal.toFixed(2)}" rcvTotal="${item.rcvTotal.toFixed(2)}" depreciationPct="${(item.depreciationPercentage ?? 0).toFixed(2)}" depreciationAmt="${(item.depreciationAmount ?? 0).toFixed(2)}"/>\n`;
+  };
 
-  Object.entries(roomGroups).sort(([a], [b]) => a.localeCompare(b)).forEach(([roomName, roomItems]) => {
-    roomItems.sort((a, b) => (a.description || "").localeCompare(b.description || ""));
+  let subroomsXml = "";
+  groupByRoom(lineItems).forEach(([roomName]) => {
     const room = rooms.find((r) => r.name === roomName);
     const dims: RoomDimensions = {
       length: room?.dimensions?.length || 10,
@@ -449,39 +546,31 @@ function generateRoughDraft(rooms: any[], lineItems: LineItemXML[], originalItem
     }));
 
     subroomsXml += generateSubroomXml(roomName, dims, roomOpeningsList) + "\n";
+  });
 
-    const isSketchRoom = room?.roomType?.startsWith("exterior_");
-    itemGroupsXml += `        <GROUP type="room" name="${escapeXml(roomName)}"${isSketchRoom ? ' source="Sketch" isRoom="1"' : ""}>\n`;
-    itemGroupsXml += `          <ITEMS>\n`;
-
-    const perilType = claim?.perilType;
-    const actionToAct: Record<string, string> = {
-      "R&R": "&", "Detach & Reset": "O", "Repair": "R", "Paint": "P",
-      "Clean": "C", "Tear Off": "-", "Labor Only": "L", "Install": "+",
-    };
-
-    const actionToActInternal: Record<string, string> = {
-      "replace": "+", "install": "+", "remove": "-", "repair": "R",
-      "reset": "O", "clean": "C", "labor_only": "L",
-    };
-
-    roomItems.forEach((item, idx) => {
-      const origItem = originalItems.find((oi: any) => oi.id === item.id);
-      const tradeCode = origItem?.tradeCode || "";
-      const catEntry = origItem?.xactCode ? catalogMap?.get(origItem.xactCode) : undefined;
-      const xactCatFromCatalog = catEntry?.xactCategoryCode || "";
-      const category = xactCatFromCatalog || resolveCategory(tradeCode, perilType) || (item.category || "").substring(0, 3).toUpperCase() || "GEN";
-      const act = item.provenance === "supplemental_new" ? "ADD" :
-        item.provenance === "supplemental_modified" ? "MOD" :
-        actionToAct[item.action] || actionToActInternal[catEntry?.activityType || ""] || "&";
-      const selector = catEntry?.xactSelector || origItem?.xactCode || "GEN";
-
-      itemGroupsXml += `            <ITEM lineNum="${idx + 1}" cat="${escapeXml(category)}" sel="${escapeXml(selector)}" act="${escapeXml(act)}" desc="${escapeXml(item.description)}" qty="${item.quantity.toFixed(2)}" unit="${escapeXml(item.unit)}" remove="0" replace="${item.rcvTotal.toFixed(2)}" total="${item.rcvTotal.toFixed(2)}" laborTotal="${item.laborTotal.toFixed(2)}" laborHours="${item.laborHours.toFixed(2)}" material="${item.material.toFixed(2)}" equipment="${(item.equipment ?? 0).toFixed(2)}" tax="${item.tax.toFixed(2)}" acvTotal="${item.acvTotal.toFixed(2)}" rcvTotal="${item.rcvTotal.toFixed(2)}" depreciationPct="${(item.depreciationPercentage ?? 0).toFixed(2)}" depreciationAmt="${(item.depreciationAmount ?? 0).toFixed(2)}"/>\n`;
+  const roomGroupsXml = (items: LineItemXML[]): string => {
+    let xml = "";
+    groupByRoom(items).forEach(([roomName, roomItems]) => {
+      roomItems.sort((a, b) => (a.description || "").localeCompare(b.description || ""));
+      const room = rooms.find((r) => r.name === roomName);
+      const isSketchRoom = room?.roomType?.startsWith("exterior_");
+      xml += `        <GROUP type="room" name="${escapeXml(roomName)}"${isSketchRoom ? ' source="Sketch" isRoom="1"' : ""}>\n`;
+      xml += `          <ITEMS>\n`;
+      roomItems.forEach((item, idx) => {
+        xml += itemXml(item, idx);
+      });
+      xml += `          </ITEMS>\n`;
+      xml += `        </GROUP>\n`;
     });
+    return xml;
+  };
 
-    itemGroupsXml += `          </ITEMS>\n`;
-    itemGroupsXml += `        </GROUP>\n`;
-  });
+  const itemGroupsXml = roomGroupsXml(lineItems.filter((i) => !i.ordinanceLaw));
+  const ordinanceLawItems = lineItems.filter((i) => i.ordinanceLaw);
+  // Code upgrades are estimated under their own coverage, outside the dwelling
+  const ordinanceLawXml = ordinanceLawItems.length > 0
+    ? `      <GROUP type="level" name="ORDINANCE OR LAW" coverage="OL">\n${roomGroupsXml(ordinanceLawItems)}      </GROUP>\n`
+    : "";
 
   return `<?xml version="1.0" encoding="UTF-8"?>
 <GENERIC_ROUGHDRAFT>
@@ -495,7 +584,7 @@ ${subroomsXml}
 ${itemGroupsXml}
         </GROUP>
       </GROUP>
-    </GROUP>
+${ordinanceLawXml}${generateContentsGroupXml(contents)}    </GROUP>
   </LINE_ITEM_DETAIL>
 </GENERIC_ROUGHDRAFT>`;
 }
@@ -0,0 +1,312 @@
+import type { IStorage } from "./storage";
+import type {
+  InsertInspectionRoom,
+  InsertLineItem,
+  InsertRoomOpening,
+  InspectionRoom,
+  InspectionSession,
+  LineItem,
+  RoomOpening,
+} from "@shared/schema";
+import type { OpeningData } from "./estimateEngine";
+import type { EsxLineItem, EsxRoom, ParsedEsx } from "./esxParser";
+
+// ── ESX Import ──
+//
+// Turns a parsed ESX file into a new inspection session, or lines it up
+// against an existing session. Lines match on room name plus catalog code
+// (or description when there is no code); anything more forgiving belongs in
+// reconciliation, not here.
+
+export const ESX_IMPORT_PROVENANCE = "esx_import";
+
+const ELEVATION_SIDES = ["front", "rear", "left", "right"] as const;
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function normalize(value: string | null | undefined): string {
+  return (value || "").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Room type and view type for an imported room. Elevations keep an
+ * "exterior_elevation_" type and sketch rooms an "exterior_" type, which is
+ * what the ESX generator keys on when the session is exported again.
+ */
+export function esxRoomClassification(room: EsxRoom): { roomType: string; viewType: string } {
+  if (room.dimensions.elevationType === "elevation") {
+    const name = room.name.toLowerCase();
+    const side = ELEVATION_SIDES.find((s) => name.includes(s)) ?? "front";
+    return { roomType: `exterior_elevation_${side}`, viewType: "elevation" };
+  }
+  if (room.isSketchRoom) return { roomType: "exterior_other", viewType: "exterior_other" };
+  return { roomType: "interior_other", viewType: "interior" };
+}
+
+export function esxRoomToInsert(room: EsxRoom, sessionId: number, structureId: number | null): InsertInspectionRoom {
+  const { roomType, viewType } = esxRoomClassification(room);
+  const { length, width, height } = room.dimensions;
+  return {
+    sessionId,
+    name: room.name,
+    roomType,
+    viewType,
+    structure: "Main Dwelling",
+    structureId,
+    dimensions: { length, width, height },
+    status: "completed",
+  };
+}
+
+export function esxOpeningToInsert(opening: OpeningData, sessionId: number, roomId: number): InsertRoomOpening {
+  return {
+    sessionId,
+    roomId,
+    openingType: opening.openingType,
+    widthFt: opening.widthFt,
+    heightFt: opening.heightFt,
+    quantity: opening.quantity,
+    opensInto: opening.opensInto,
+    goesToFloor: opening.goesToFloor,
+    goesToCeiling: opening.goesToCeiling,
+  };
+}
+
+export function esxLineItemToInsert(line: EsxLineItem, sessionId: number, roomId: number | null): InsertLineItem {
+  return {
+    sessionId,
+    roomId,
+    category: line.category,
+    action: line.action,
+    description: line.description,
+    xactCode: line.xactCode,
+    quantity: String(line.quantity),
+    unit: line.unit,
+    unitPrice: String(line.unitPrice),
+    totalPrice: String(line.totalPrice),
+    taxAmount: line.taxAmount,
+    age: line.age,
+    lifeExpectancy: line.lifeExpectancy,
+    depreciationPercentage: line.depreciationPercentage,
+    depreciationAmount: line.depreciationAmount,
+    provenance: ESX_IMPORT_PROVENANCE,
+  };
+}
+
+/**
+ * Fills in our catalog code for lines from other estimators, looked up by
+ * Xactimate category + selector. Lines that already carry a code are kept.
+ */
+export async function resolveEsxCatalogCodes(lines: EsxLineItem[]): Promise<EsxLineItem[]> {
+  if (lines.every((l) => l.xactCode)) return lines;
+
+  const { scopeLineItems } = await import("@shared/schema");
+  const { db } = await import("./db");
+  const catalog = await db.select().from(scopeLineItems);
+  const bySelector = new Map<string, string>();
+  for (const entry of catalog) {
+    if (entry.xactCategoryCode && entry.xactSelector) {
+      bySelector.set(`${entry.xactCategoryCode}|${entry.xactSelector}`.toUpperCase(), entry.code);
+    }
+  }
+
+  return lines.map((line) => line.xactCode
+    ? line
+    : { ...line, xactCode: bySelector.get(`${line.xactCategory}|${line.selector}`.toUpperCase()) ?? null });
+}
+
+export interface EsxImportResult {
+  session: InspectionSession;
+  rooms: InspectionRoom[];
+  openings: RoomOpening[];
+  lineItems: LineItem[];
+  /** Coverage C lines are not turned into session line items. */
+  skippedContents: number;
+}
+
+/** Creates a new inspection session on the claim holding the ESX rooms, openings and line items. */
+export async function importEsxAsSession(
+  storage: IStorage,
+  claimId: number,
+  parsed: ParsedEsx,
+): Promise<EsxImportResult> {
+  const session = await storage.createInspectionSession(claimId);
+  const structure = await storage.createStructure({
+    sessionId: session.id,
+    name: "Main Dwelling",
+    structureType: "dwelling",
+  });
+
+  const rooms: InspectionRoom[] = [];
+  const openings: RoomOpening[] = [];
+  const roomIds = new Map<string, number>();
+  for (const esxRoom of parsed.rooms) {
+    const room = await storage.createRoom(esxRoomToInsert(esxRoom, session.id, structure.id));
+    rooms.push(room);
+    roomIds.set(esxRoom.name, room.id);
+    for (const opening of esxRoom.openings) {
+      openings.push(await storage.createOpening(esxOpeningToInsert(opening, session.id, room.id)));
+    }
+  }
+
+  const lineItems: LineItem[] = [];
+  for (const line of parsed.lineItems) {
+    lineItems.push(await storage.createLineItem(
+      esxLineItemToInsert(line, session.id, roomIds.get(line.roomName) ?? null),
+    ));
+  }
+
+  return { session, rooms, openings, lineItems, skippedContents: parsed.contents.length };
+}
+
+// ── Comparison ──
+
+export interface EsxComparisonSide {
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  depreciationAmount: number;
+}
+
+export interface EsxComparisonLine {
+  roomName: string;
+  description: string;
+  xactCode: string | null;
+  lineItemId: number | null;
+  ours: EsxComparisonSide | null;
+  theirs: EsxComparisonSide | null;
+  quantityDelta: number;
+  totalPriceDelta: number;
+}
+
+export interface EsxComparisonTotals {
+  itemCount: number;
+  totalRCV: number;
+  totalDepreciation: number;
+  totalACV: number;
+}
+
+export interface EsxComparison {
+  /** Lines present on both sides; deltas are theirs minus ours. */
+  matched: EsxComparisonLine[];
+  onlyOurs: EsxComparisonLine[];
+  onlyTheirs: EsxComparisonLine[];
+  rooms: Array<{ roomName: string; ours: number; theirs: number; delta: number }>;
+  totals: { ours: EsxComparisonTotals; theirs: EsxComparisonTotals; delta: EsxComparisonTotals };
+}
+
+interface ComparableLine {
+  roomName: string;
+  description: string;
+  xactCode: string | null;
+  lineItemId: number | null;
+  side: EsxComparisonSide;
+}
+
+function matchKey(line: ComparableLine): string {
+  return `${normalize(line.roomName)}|${line.xactCode ? normalize(line.xactCode) : `desc:${normalize(line.description)}`}`;
+}
+
+function summarize(lines: ComparableLine[]): EsxComparisonTotals {
+  const totalRCV = round2(lines.reduce((s, l) => s + l.side.totalPrice, 0));
+  const totalDepreciation = round2(lines.reduce((s, l) => s + l.side.depreciationAmount, 0));
+  return { itemCount: lines.length, totalRCV, totalDepreciation, totalACV: round2(totalRCV - totalDepreciation) };
+}
+
+function toComparisonLine(ours: ComparableLine | null, theirs: ComparableLine | null): EsxComparisonLine {
+  const base = (ours ?? theirs)!;
+  return {
+    roomName: base.roomName,
+    description: base.description,
+    xactCode: base.xactCode,
+    lineItemId: ours?.lineItemId ?? null,
+    ours: ours?.side ?? null,
+    theirs: theirs?.side ?? null,
+    quantityDelta: round2((theirs?.side.quantity ?? 0) - (ours?.side.quantity ?? 0)),
+    totalPriceDelta: round2((theirs?.side.totalPrice ?? 0) - (ours?.side.totalPrice ?? 0)),
+  };
+}
+
+/** Lines up the ESX line items against a session's line items, room by room. */
+export function compareEsxWithSession(
+  parsed: ParsedEsx,
+  lineItems: LineItem[],
+  rooms: InspectionRoom[],
+): EsxComparison {
+  const roomNames = new Map(rooms.map((r) => [r.id, r.name]));
+
+  const ours: ComparableLine[] = lineItems.map((item) => ({
+    roomName: (item.roomId != null ? roomNames.get(item.roomId) : undefined) ?? "Unassigned",
+    description: item.description,
+    xactCode: item.xactCode,
+    lineItemId: item.id,
+    side: {
+      quantity: Number(item.quantity) || 0,
+      unitPrice: Number(item.unitPrice) || 0,
+      totalPrice: Number(item.totalPrice) || 0,
+      depreciationAmount: Number(item.depreciationAmount) || 0,
+    },
+  }));
+  const theirs: ComparableLine[] = parsed.lineItems.map((line) => ({
+    roomName: line.roomName,
+    description: line.description,
+    xactCode: line.xactCode,
+    lineItemId: null,
+    side: {
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      totalPrice: line.totalPrice,
+      depreciationAmount: line.depreciationAmount,
+    },
+  }));
+
+  // Duplicate keys pair off in order
+  const pending = new Map<string, ComparableLine[]>();
+  for (const line of ours) {
+    const key = matchKey(line);
+    if (!pending.has(key)) pending.set(key, []);
+    pending.get(key)!.push(line);
+  }
+
+  const matched: EsxComparisonLine[] = [];
+  const onlyTheirs: EsxComparisonLine[] = [];
+  for (const line of theirs) {
+    const candidate = pending.get(matchKey(line))?.shift();
+    if (candidate) matched.push(toComparisonLine(candidate, line));
+    else onlyTheirs.push(toComparisonLine(null, line));
+  }
+  const onlyOurs = Array.from(pending.values()).flat().map((line) => toComparisonLine(line, null));
+
+  const roomTotals = new Map<string, { roomName: string; ours: number; theirs: number }>();
+  const addToRoom = (line: ComparableLine, side: "ours" | "theirs") => {
+    const key = normalize(line.roomName);
+    if (!roomTotals.has(key)) roomTotals.set(key, { roomName: line.roomName, ours: 0, theirs: 0 });
+    roomTotals.get(key)![side] += line.side.totalPrice;
+  };
+  ours.forEach((l) => addToRoom(l, "ours"));
+  theirs.forEach((l) => addToRoom(l, "theirs"));
+
+  const oursTotals = summarize(ours);
+  const theirsTotals = summarize(theirs);
+
+  return {
+    matched,
+    onlyOurs,
+    onlyTheirs,
+    rooms: Array.from(roomTotals.values())
+      .map((r) => ({ roomName: r.roomName, ours: round2(r.ours), theirs: round2(r.theirs), delta: round2(r.theirs - r.ours) }))
+      .sort((a, b) => a.roomName.localeCompare(b.roomName)),
+    totals: {
+      ours: oursTotals,
+      theirs: theirsTotals,
+      delta: {
+        itemCount: theirsTotals.itemCount - oursTotals.itemCount,
+        totalRCV: round2(theirsTotals.totalRCV - oursTotals.totalRCV),
+        totalDepreciation: round2(theirsTotals.totalDepreciation - oursTotals.totalDepreciation),
+        totalACV: round2(theirsTotals.totalACV - oursTotals.totalACV),
+      },
+    },
+  };
+}
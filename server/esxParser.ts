@@ -0,0 +1,333 @@
+import { readZipEntries } from "./zipReader";
+import { readXmlElements, type XmlAncestor, type XmlElement } from "./xmlElementReader";
+import type { OpeningData, RoomDimensions } from "./estimateEngine";
+
+// ── ESX Parser ──
+//
+// Reads an ESX archive (XACTDOC.XML + GENERIC_ROUGHDRAFT.XML) back into rooms,
+// openings and line items. Dimensions come back in the shape
+// generateSubroomXml() takes, so a room read from one of our own exports
+// regenerates the identical SUBROOM block. Files from other estimators carry
+// fewer attributes; missing values are derived from what is there.
+
+export interface EsxRoom {
+  name: string;
+  /** SUBROOM type as written: "Box" or "Elevation". */
+  subroomType: string;
+  dimensions: RoomDimensions;
+  openings: OpeningData[];
+  /** Line item group was flagged source="Sketch" (exterior areas in our exports). */
+  isSketchRoom: boolean;
+}
+
+export interface EsxLineItem {
+  roomName: string;
+  /** Coverage of the enclosing level group; structure items default to "A". */
+  coverage: string;
+  lineNum: number;
+  /** Xactimate category code (cat). */
+  xactCategory: string;
+  /** Xactimate selector (sel). */
+  selector: string;
+  /** Our catalog code when the file was exported by us. */
+  xactCode: string | null;
+  category: string;
+  act: string;
+  action: string | null;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  totalPrice: number;
+  laborTotal: number;
+  laborHours: number;
+  material: number;
+  equipment: number;
+  taxAmount: number;
+  acvTotal: number;
+  depreciationPercentage: number;
+  depreciationAmount: number;
+  age: number | null;
+  lifeExpectancy: number | null;
+  condition: string | null;
+}
+
+export interface EsxHeader {
+  claimNumber: string | null;
+  policyNumber: string | null;
+  carrierName: string | null;
+  priceListId: string | null;
+  summary: { totalRCV: number; totalACV: number; totalDepreciation: number } | null;
+}
+
+export interface ParsedEsx {
+  header: EsxHeader;
+  rooms: EsxRoom[];
+  /** Structure line items (everything outside a coverage C level). */
+  lineItems: EsxLineItem[];
+  /** Contents line items from a coverage C level. */
+  contents: EsxLineItem[];
+}
+
+/** Xactimate activity code → the action names our line items use. */
+export const ESX_ACT_TO_ACTION: Record<string, string> = {
+  "&": "R&R",
+  "O": "Detach & Reset",
+  "R": "Repair",
+  "P": "Paint",
+  "C": "Clean",
+  "-": "Tear Off",
+  "L": "Labor Only",
+  "+": "Install",
+};
+
+const ROUGHDRAFT_ENTRY = "GENERIC_ROUGHDRAFT.XML";
+const XACTDOC_ENTRY = "XACTDOC.XML";
+
+function round4(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
+
+function num(value: string | undefined): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function optionalNum(value: string | undefined): number | null {
+  if (value == null || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+async function* single(buffer: Buffer): AsyncGenerator<Buffer> {
+  yield buffer;
+}
+
+/** Finds an archive entry by file name, ignoring case and folders. */
+function findEntry(entries: Map<string, Buffer>, fileName: string): Buffer | undefined {
+  for (const [name, data] of entries) {
+    if ((name.split("/").pop() || "").toUpperCase() === fileName) return data;
+  }
+  return undefined;
+}
+
+/** Parses printableDims such as `12' 6" x 10' x 8'` into feet. */
+export function parsePrintableDims(value: string): number[] {
+  return value.split(/\s*x\s*/i).map((part) => {
+    const match = part.match(/(-?\d+(?:\.\d+)?)'(?:\s*(\d+(?:\.\d+)?)")?/);
+    if (!match) return 0;
+    return round4(Number(match[1]) + (match[2] ? Number(match[2]) / 12 : 0));
+  });
+}
+
+/** Inverse of the opensInto mapping in generateSubroomXml(). */
+function parseOpensInto(value: string | undefined): string | null {
+  if (!value) return null;
+  return value === "Exterior" ? "E" : value;
+}
+
+/** Best guess for files that do not carry our openingType attribute. */
+function inferOpeningType(heightFt: number, goesToFloor: boolean, opensInto: string | null): string {
+  if (goesToFloor && opensInto === "E" && heightFt >= 6.5) return "overhead_door";
+  if (goesToFloor) return "standard_door";
+  return "window";
+}
+
+function buildRoom(subroom: XmlElement, vars: Record<string, number>, misswalls: XmlElement[]): EsxRoom {
+  const subroomType = subroom.attrs.type || "Box";
+  const isElevation = subroomType.toLowerCase() === "elevation";
+  const printed = parsePrintableDims(subroom.attrs.printableDims || "");
+
+  const inches = (name: string, fallbackFt: number) =>
+    vars[name] != null ? round4(vars[name] / 12) : fallbackFt;
+
+  const dimensions: RoomDimensions = isElevation
+    ? {
+        length: inches("ELLENGTH", printed[0] ?? 0),
+        width: 0,
+        height: inches("ELHEIGHT", printed[1] ?? 0),
+        elevationType: "elevation",
+      }
+    : {
+        length: inches("ROOMLENGTH", printed[0] ?? 0),
+        width: inches("ROOMWIDTH", printed[1] ?? 0),
+        height: inches("ROOMHEIGHT", printed[2] ?? 0),
+        elevationType: "box",
+      };
+
+  const openings: OpeningData[] = misswalls.map(({ attrs }) => {
+    // MISSWALL sizes are in thousandths of an inch; left unrounded so they re-encode exactly
+    const widthFt = num(attrs.length) / 12000;
+    const heightFt = num(attrs.height) / 12000;
+    const opensInto = parseOpensInto(attrs.opensInto);
+    const goesToFloor = attrs.opensToFloor === "1";
+    return {
+      openingType: attrs.openingType || inferOpeningType(heightFt, goesToFloor, opensInto),
+      widthFt,
+      heightFt,
+      quantity: Math.max(1, Math.round(num(attrs.quantity) || 1)),
+      opensInto,
+      goesToFloor,
+      goesToCeiling: attrs.opensToCeiling === "1",
+    };
+  });
+
+  return {
+    name: subroom.attrs.name || "Unnamed",
+    subroomType,
+    dimensions,
+    openings,
+    isSketchRoom: false,
+  };
+}
+
+function nearestGroup(ancestors: XmlAncestor[], predicate: (attrs: Record<string, string>) => boolean) {
+  for (let i = ancestors.length - 1; i >= 0; i--) {
+    if (ancestors[i].name === "GROUP" && predicate(ancestors[i].attrs)) return ancestors[i];
+  }
+  return undefined;
+}
+
+function buildLineItem(item: XmlElement): EsxLineItem {
+  const { attrs, ancestors } = item;
+  const room = nearestGroup(ancestors, (a) => a.type === "room");
+  const level = nearestGroup(ancestors, (a) => a.coverage != null);
+
+  const quantity = num(attrs.qty);
+  const totalPrice = num(attrs.rcvTotal ?? attrs.total ?? attrs.replace);
+  const unitPrice = attrs.unitPrice != null
+    ? num(attrs.unitPrice)
+    : quantity > 0 ? Math.round((totalPrice / quantity) * 100) / 100 : 0;
+  const act = attrs.act || "";
+
+  return {
+    roomName: room?.attrs.name || "Unassigned",
+    coverage: level?.attrs.coverage || "A",
+    lineNum: num(attrs.lineNum),
+    xactCategory: attrs.cat || "",
+    selector: attrs.sel || "",
+    xactCode: attrs.code || null,
+    category: attrs.category || attrs.cat || "GEN",
+    act,
+    action: ESX_ACT_TO_ACTION[act] ?? null,
+    description: attrs.desc || "",
+    quantity,
+    unit: attrs.unit || "EA",
+    unitPrice,
+    totalPrice,
+    laborTotal: num(attrs.laborTotal),
+    laborHours: num(attrs.laborHours),
+    material: num(attrs.material),
+    equipment: num(attrs.equipment),
+    taxAmount: num(attrs.tax),
+    acvTotal: attrs.acvTotal != null ? num(attrs.acvTotal) : totalPrice - num(attrs.depreciationAmt),
+    depreciationPercentage: num(attrs.depreciationPct),
+    depreciationAmount: num(attrs.depreciationAmt),
+    age: optionalNum(attrs.age),
+    lifeExpectancy: optionalNum(attrs.life),
+    condition: attrs.condition || null,
+  };
+}
+
+/** Reads rooms (from DIM) and line items (from LINE_ITEM_DETAIL) out of GENERIC_ROUGHDRAFT.XML. */
+export async function parseRoughDraftXml(xml: Buffer | string): Promise<Omit<ParsedEsx, "header">> {
+  const rooms: EsxRoom[] = [];
+  const lineItems: EsxLineItem[] = [];
+  const contents: EsxLineItem[] = [];
+  const sketchRooms = new Set<string>();
+
+  let vars: Record<string, number> = {};
+  let misswalls: XmlElement[] = [];
+
+  const buffer = typeof xml === "string" ? Buffer.from(xml, "utf8") : xml;
+  for await (const el of readXmlElements(single(buffer))) {
+    switch (el.name) {
+      case "XPERT_VAR":
+        if (el.attrs.name) vars[el.attrs.name] = num(el.attrs.value);
+        break;
+      case "MISSWALL":
+        misswalls.push(el);
+        break;
+      case "SUBROOM":
+        rooms.push(buildRoom(el, vars, misswalls));
+        vars = {};
+        misswalls = [];
+        break;
+      case "ITEM": {
+        if (!el.ancestors.some((a) => a.name === "LINE_ITEM_DETAIL")) break;
+        const line = buildLineItem(el);
+        (line.coverage === "C" ? contents : lineItems).push(line);
+        break;
+      }
+      case "GROUP":
+        if (el.attrs.type === "room" && el.attrs.source === "Sketch") sketchRooms.add(el.attrs.name);
+        break;
+    }
+  }
+
+  for (const room of rooms) room.isSketchRoom = sketchRooms.has(room.name);
+
+  // Rooms that only appear as line item groups still need a room record
+  const known = new Set(rooms.map((r) => r.name));
+  for (const line of lineItems) {
+    if (known.has(line.roomName)) continue;
+    known.add(line.roomName);
+    rooms.push({
+      name: line.roomName,
+      subroomType: "Box",
+      dimensions: { length: 0, width: 0, height: 0, elevationType: "box" },
+      openings: [],
+      isSketchRoom: sketchRooms.has(line.roomName),
+    });
+  }
+
+  return { rooms, lineItems, contents };
+}
+
+/** Reads claim identifiers, price list and summary totals out of XACTDOC.XML. */
+export async function parseXactdocXml(xml: Buffer | string): Promise<EsxHeader> {
+  const header: EsxHeader = {
+    claimNumber: null,
+    policyNumber: null,
+    carrierName: null,
+    priceListId: null,
+    summary: null,
+  };
+  const summary: Record<string, number> = {};
+
+  const buffer = typeof xml === "string" ? Buffer.from(xml, "utf8") : xml;
+  for await (const el of readXmlElements(single(buffer))) {
+    const parent = el.ancestors[el.ancestors.length - 1]?.name;
+    if (parent === "COVERAGE_LOSS" && el.name === "claimNumber") header.claimNumber = el.text || null;
+    else if (parent === "COVERAGE_LOSS" && el.name === "policyNumber") header.policyNumber = el.text || null;
+    else if (parent === "XACTNET_INFO" && el.name === "carrierName") header.carrierName = el.text || null;
+    else if (parent === "PARAMS" && el.name === "priceList") header.priceListId = el.text || null;
+    else if (parent === "SUMMARY" && /^total(RCV|ACV|Depreciation)$/.test(el.name)) summary[el.name] = num(el.text);
+  }
+
+  if (Object.keys(summary).length > 0) {
+    header.summary = {
+      totalRCV: summary.totalRCV ?? 0,
+      totalACV: summary.totalACV ?? 0,
+      totalDepreciation: summary.totalDepreciation ?? 0,
+    };
+  }
+  return header;
+}
+
+/**
+ * Parses an ESX archive. Throws when the buffer is not a ZIP or has no
+ * GENERIC_ROUGHDRAFT.XML; a missing XACTDOC.XML only leaves the header empty.
+ */
+export async function parseEsxFile(buffer: Buffer): Promise<ParsedEsx> {
+  const entries = readZipEntries(buffer);
+  const roughdraft = findEntry(entries, ROUGHDRAFT_ENTRY);
+  if (!roughdraft) throw new Error(`ESX archive has no ${ROUGHDRAFT_ENTRY}`);
+
+  const xactdoc = findEntry(entries, XACTDOC_ENTRY);
+  const header = xactdoc
+    ? await parseXactdocXml(xactdoc)
+    : { claimNumber: null, policyNumber: null, carrierName: null, priceListId: null, summary: null };
+
+  return { header, ...(await parseRoughDraftXml(roughdraft)) };
+}
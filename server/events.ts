@@ -43,7 +43,16 @@ export interface SupplementalEvent {
   meta?: Record<string, unknown>;
 }
 
-export type AppEvent = ClaimEvent | InspectionEvent | DocumentEvent | SupplementalEvent;
+export interface DepreciationEvent {
+  type: "depreciation.proofUploaded" | "depreciation.released" | "depreciation.fullyReleased";
+  claimId: number;
+  holdbackId: number;
+  coverageType: string;
+  userId?: string;
+  meta?: Record<string, unknown>;
+}
+
+export type AppEvent = ClaimEvent | InspectionEvent | DocumentEvent | SupplementalEvent | DepreciationEvent;
 
 export function emit(event: AppEvent): void {
   bus.emit(event.type, event);
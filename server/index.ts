@@ -258,6 +258,8 @@ process.on("SIGTERM", () => {
   try {
     const { registerAuditLogSubscriber } = await import("./subscribers/auditLog");
     registerAuditLogSubscriber();
+    const { registerMinimumChargeSubscriber } = await import("./subscribers/minimumCharges");
+    registerMinimumChargeSubscriber();
 
     const { registerRoutes } = await import("./routes");
     await registerRoutes(httpServer, app);
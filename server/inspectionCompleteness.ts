@@ -0,0 +1,176 @@
+import type { IStorage } from "./storage";
+import type { InspectionSession } from "@shared/schema";
+
+// ── Inspection completeness ──
+//
+// Shared by the completeness REST route and the voice tool executor. The
+// score weighs phase progress (50), completed rooms (30) and documentation
+// depth (20), capped a little ahead of the current phase so an early
+// inspection cannot look finished.
+
+export interface CompletenessCheck {
+  item: string;
+  satisfied: boolean;
+  evidence?: string;
+}
+
+export interface RoomGap {
+  room: string;
+  issue: string;
+}
+
+export interface CompletenessAssessment {
+  completenessScore: number;
+  checklist: CompletenessCheck[];
+  /** Rooms with damages but no line items */
+  scopeGaps: RoomGap[];
+  /** Rooms with damages but no photos */
+  missingPhotos: RoomGap[];
+  summary: {
+    totalRooms: number;
+    completedRooms: number;
+    totalDamages: number;
+    totalLineItems: number;
+    totalPhotos: number;
+    totalMoistureReadings: number;
+  };
+}
+
+export async function assessCompleteness(storage: IStorage, session: InspectionSession): Promise<CompletenessAssessment> {
+  const claim = await storage.getClaim(session.claimId);
+  const rooms = await storage.getRooms(session.id);
+  const allLineItems = await storage.getLineItems(session.id);
+  const allPhotos = await storage.getPhotos(session.id);
+  const allDamages = await storage.getDamagesForSession(session.id);
+  const moistureReadings = await storage.getMoistureReadingsForSession(session.id);
+
+  const perilType = claim?.perilType || "unknown";
+  const currentPhase = session.currentPhase || 1;
+  const totalPhases = 8;
+
+  const roomsWithDocs = rooms.filter(r => {
+    const hasDamage = allDamages.some(d => d.roomId === r.id);
+    const hasLineItem = allLineItems.some(li => li.roomId === r.id);
+    return hasDamage || hasLineItem;
+  });
+
+  const checklist: CompletenessCheck[] = [];
+
+  checklist.push({
+    item: "At least one room/area documented",
+    satisfied: rooms.length > 0,
+    evidence: `${rooms.length} rooms created`,
+  });
+  checklist.push({
+    item: "Rooms have damages or line items",
+    satisfied: roomsWithDocs.length > 0,
+    evidence: roomsWithDocs.length > 0 ? `${roomsWithDocs.length} rooms with documentation` : undefined,
+  });
+  checklist.push({
+    item: "Damage observations recorded",
+    satisfied: allDamages.length > 0,
+    evidence: `${allDamages.length} damage observations`,
+  });
+  checklist.push({
+    item: "Line items in estimate",
+    satisfied: allLineItems.length > 0,
+    evidence: `${allLineItems.length} line items`,
+  });
+  checklist.push({
+    item: "Inspection photos taken",
+    satisfied: allPhotos.length > 0,
+    evidence: `${allPhotos.length} photos`,
+  });
+
+  if (perilType === "water") {
+    checklist.push({
+      item: "Moisture readings recorded",
+      satisfied: moistureReadings.length > 0,
+      evidence: `${moistureReadings.length} moisture readings`,
+    });
+  }
+
+  if (perilType === "hail" || perilType === "wind") {
+    const elevationRooms = rooms.filter(r =>
+      r.roomType?.startsWith("exterior_elevation_") ||
+      r.viewType === "elevation" ||
+      /front|rear|left|right/i.test(r.name)
+    );
+    checklist.push({
+      item: "Elevations documented",
+      satisfied: elevationRooms.length > 0,
+      evidence: elevationRooms.length > 0
+        ? `${elevationRooms.length} elevations: ${elevationRooms.map(r => r.name).join(", ")}`
+        : undefined,
+    });
+  }
+
+  const completedRooms = rooms.filter(r => r.status === "complete").length;
+  const totalRooms = rooms.length;
+
+  const completedPhases = currentPhase - 1;
+  const phaseProgress = completedPhases / totalPhases;
+  const phaseComponent = phaseProgress * 50;
+
+  const roomRatio = totalRooms > 0 ? completedRooms / totalRooms : 0;
+  const roomComponent = roomRatio * 30;
+
+  let docScore = 0;
+  if (totalRooms > 0) {
+    const avgDamagesPerRoom = allDamages.length / totalRooms;
+    const avgItemsPerRoom = allLineItems.length / totalRooms;
+    const avgPhotosPerRoom = allPhotos.length / totalRooms;
+    const damageDepth = Math.min(avgDamagesPerRoom / 2, 1);
+    const itemDepth = Math.min(avgItemsPerRoom / 5, 1);
+    const photoDepth = Math.min(avgPhotosPerRoom / 2, 1);
+    docScore = ((damageDepth * 0.3) + (itemDepth * 0.4) + (photoDepth * 0.3));
+    if (perilType === "water" && moistureReadings.length > 0) {
+      docScore = Math.min(docScore + 0.1, 1);
+    }
+  }
+  const docComponent = docScore * 20;
+
+  const rawScore = phaseComponent + roomComponent + docComponent;
+
+  const phaseCap = ((currentPhase / totalPhases) * 100) + 15;
+  const completenessScore = Math.min(Math.round(rawScore), Math.round(phaseCap));
+
+  const scopeGaps: RoomGap[] = [];
+  for (const room of rooms) {
+    const roomDamages = allDamages.filter(d => d.roomId === room.id);
+    const roomItems = allLineItems.filter(li => li.roomId === room.id);
+    if (roomDamages.length > 0 && roomItems.length === 0) {
+      scopeGaps.push({
+        room: room.name,
+        issue: `${roomDamages.length} damage observation(s) but no line items`,
+      });
+    }
+  }
+
+  const missingPhotos: RoomGap[] = [];
+  for (const room of rooms) {
+    const roomDamages = allDamages.filter(d => d.roomId === room.id);
+    const roomPhotos = allPhotos.filter(p => p.roomId === room.id);
+    if (roomDamages.length > 0 && roomPhotos.length === 0) {
+      missingPhotos.push({
+        room: room.name,
+        issue: `${roomDamages.length} damage(s) documented but no photos`,
+      });
+    }
+  }
+
+  return {
+    completenessScore,
+    checklist,
+    scopeGaps,
+    missingPhotos,
+    summary: {
+      totalRooms: rooms.length,
+      completedRooms,
+      totalDamages: allDamages.length,
+      totalLineItems: allLineItems.length,
+      totalPhotos: allPhotos.length,
+      totalMoistureReadings: moistureReadings.length,
+    },
+  };
+}
@@ -0,0 +1,150 @@
+import type { IStorage } from "./storage";
+import type { DamageObservation, InspectionRoom } from "@shared/schema";
+import type { CommandOp } from "./commandLog";
+import { assembleScope, type ScopeAssemblyResult } from "./scopeAssemblyService";
+import { logger } from "./logger";
+
+// ── Damage recording ──
+//
+// Shared by the damages REST route and the voice tool executor. A new damage
+// is counted on its room and scoped straight away; every row written is
+// returned as an operation so the caller can log the whole thing as one
+// undoable command.
+
+export interface DamageInput {
+  description: string;
+  damageType?: string | null;
+  severity?: string | null;
+  location?: string | null;
+  measurements?: Record<string, unknown> | null;
+}
+
+export interface AutoScopeItem {
+  code: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  totalPrice: number;
+  source: "auto_scope" | "companion";
+}
+
+export interface AutoScopeSummary {
+  itemsCreated: number;
+  itemsGenerated: number;
+  items: AutoScopeItem[];
+  companionItems: number;
+  manualQuantityNeeded: ScopeAssemblyResult["manualQuantityNeeded"];
+  warnings: string[];
+  dimensionsAvailable: boolean;
+  dimensionWarning?: string;
+}
+
+export interface DamageRecordOutcome {
+  damage: DamageObservation;
+  /** Null when scope assembly failed; the damage is still recorded */
+  autoScope: AutoScopeSummary | null;
+  ops: CommandOp[];
+}
+
+async function unitPriceFor(storage: IStorage, catalogCode: string, activityType: string): Promise<number> {
+  const price = await storage.getRegionalPrice(catalogCode, "FLFM8X_NOV22", activityType)
+    ?? await storage.getRegionalPrice(catalogCode, "US_NATIONAL", activityType);
+  if (!price) return 0;
+  return (Number(price.materialCost) || 0) + (Number(price.laborCost) || 0) + (Number(price.equipmentCost) || 0);
+}
+
+/**
+ * Records a damage in a room of the session, then assembles its scope and
+ * prices a line item for every scope item, companions included. The room
+ * must already be checked to belong to the session.
+ */
+export async function recordDamage(
+  storage: IStorage,
+  sessionId: number,
+  room: InspectionRoom,
+  input: DamageInput
+): Promise<DamageRecordOutcome> {
+  const damage = await storage.createDamage({
+    sessionId,
+    roomId: room.id,
+    description: input.description,
+    damageType: input.damageType || null,
+    severity: input.severity || null,
+    location: input.location || null,
+    measurements: input.measurements || null,
+  });
+  const ops: CommandOp[] = [{ op: "create", entity: "damage", id: damage.id, values: damage }];
+  const counted = await storage.incrementRoomDamageCount(room.id);
+  if (counted) {
+    ops.push({ op: "update", entity: "room", id: room.id, set: { damageCount: counted.damageCount }, previous: { damageCount: room.damageCount } });
+  }
+
+  let autoScope: AutoScopeSummary | null = null;
+  try {
+    const result = await assembleScope(storage, sessionId, room, damage);
+    // Scope items already carry quantities derived from the catalog's quantityFormula
+    const scopeItems = [...result.created, ...result.companionItems];
+    for (const si of scopeItems) {
+      ops.push({ op: "create", entity: "scopeItem", id: si.id, values: si });
+    }
+
+    const items: AutoScopeItem[] = [];
+    for (const si of scopeItems) {
+      const catalogCode = si.catalogCode || "";
+      const unitPrice = catalogCode ? await unitPriceFor(storage, catalogCode, si.activityType || "install") : 0;
+      const quantity = parseFloat((si.quantity || 1).toFixed(2));
+      const totalPrice = unitPrice * quantity * (1 + (Number(si.wasteFactor) || 0) / 100);
+
+      const lineItem = await storage.createLineItem({
+        sessionId,
+        roomId: si.roomId,
+        damageId: si.damageId,
+        category: si.tradeCode,
+        action: si.activityType || "replace",
+        description: si.description,
+        xactCode: si.catalogCode,
+        quantity: String(quantity),
+        unit: si.unit || "EA",
+        unitPrice: String(unitPrice.toFixed(2)),
+        totalPrice: String(totalPrice.toFixed(2)),
+        tradeCode: si.tradeCode,
+        coverageType: si.coverageType || "A",
+        provenance: "auto_scope",
+        dimensionProvenance: si.dimensionProvenance,
+        wasteFactor: si.wasteFactor ? Math.round(si.wasteFactor) : null,
+        applyOAndP: false,
+      });
+      ops.push({ op: "create", entity: "lineItem", id: lineItem.id, values: lineItem });
+
+      items.push({
+        code: catalogCode,
+        description: si.description,
+        quantity,
+        unit: si.unit || "EA",
+        unitPrice,
+        totalPrice,
+        source: result.created.includes(si) ? "auto_scope" : "companion",
+      });
+    }
+
+    const dims = room.dimensions as Record<string, unknown> | null;
+    const dimensionsAvailable = !!(dims && (dims.length as number) > 0 && (dims.width as number) > 0);
+    autoScope = {
+      itemsCreated: scopeItems.length,
+      itemsGenerated: scopeItems.length,
+      items,
+      companionItems: result.companionItems.length,
+      manualQuantityNeeded: result.manualQuantityNeeded,
+      warnings: result.warnings,
+      dimensionsAvailable,
+      dimensionWarning: !dimensionsAvailable
+        ? "Room dimensions not set — quantities default to 1. Provide dimensions with update_room_dimensions for accurate quantities."
+        : undefined,
+    };
+  } catch (e) {
+    logger.warn(`Auto-scope failed for damage ${damage.id} in session ${sessionId}`, e);
+  }
+
+  return { damage, autoScope, ops };
+}
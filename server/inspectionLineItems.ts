@@ -0,0 +1,438 @@
+import type { IStorage } from "./storage";
+import type { LineItem } from "@shared/schema";
+import type { CommandOp } from "./commandLog";
+import { previousValues } from "./commandLog";
+import { calculateDepreciation } from "./depreciationEngine";
+import { resolveClaimDepreciationSchedule } from "./depreciationSchedules";
+import { resolveClaimLaborBurden } from "./taxJurisdiction";
+import { ensureOrdinanceLawRule, routeCodeUpgrade } from "./ordinanceLaw";
+
+// ── Line items ──
+//
+// Shared by the line item REST routes and the voice tool executor so that a
+// line item added or changed by voice is priced, routed to Ordinance or Law
+// and depreciated exactly like one entered in the estimate screen.
+
+export interface LineItemCreateInput {
+  roomId?: number | null;
+  damageId?: number | null;
+  category: string;
+  action?: string | null;
+  description: string;
+  xactCode?: string | null;
+  quantity?: number;
+  unit?: string | null;
+  unitPrice?: number;
+  depreciationType?: string | null;
+  wasteFactor?: number;
+  coverageBucket?: string;
+  qualityGrade?: string | null;
+  applyOAndP?: boolean;
+  macroSource?: string | null;
+  sublimitKey?: string | null;
+  isCodeUpgrade?: boolean;
+  age?: number | null;
+  lifeExpectancy?: number | null;
+  depreciationPercentage?: number | null;
+}
+
+export interface LineItemUpdateInput {
+  category?: string;
+  action?: string;
+  description?: string;
+  xactCode?: string;
+  quantity?: number;
+  unit?: string;
+  unitPrice?: number;
+  totalPrice?: number;
+  depreciationType?: string;
+  depreciationRate?: number | null;
+  wasteFactor?: number;
+  roomId?: number;
+  damageId?: number;
+  coverageBucket?: string;
+  qualityGrade?: string;
+  applyOAndP?: boolean;
+  macroSource?: string;
+  sublimitKey?: string | null;
+  isCodeUpgrade?: boolean;
+  incurred?: boolean;
+  age?: number | null;
+  lifeExpectancy?: number | null;
+}
+
+const CATEGORY_DEFAULT_CODES: Record<string, string[]> = {
+  "Roofing":       ["RFG-SHIN-AR", "RFG-SHIN-3T"],
+  "Siding":        ["SID-VINYL-SF", "SID-HARDI-SF"],
+  "Soffit/Fascia": ["SFF-ALUM-LF", "SFF-VINYL-LF"],
+  "Gutters":       ["GTR-ALUM-LF", "GTR-SEAM-LF"],
+  "Windows":       ["WIN-DBL-EA", "WIN-SGL-EA"],
+  "Doors":         ["DR-INT-EA", "DR-EXT-EA"],
+  "Drywall":       ["DRY-X-1-2", "DRY-X-5-8", "DRY-PATCH-SF"],
+  "Painting":      ["PNT-INT-SF", "PNT-CEILING-SF", "PNT-TRIM-LF"],
+  "Flooring":      ["FLR-CARPET-SF", "FLR-VINYL-SF", "FLR-LAMINATE-SF", "FLR-X-LAM"],
+  "Plumbing":      ["PLM-FIXTR-EA", "PLM-PIPE-LF"],
+  "Electrical":    ["ELC-OUTL-EA", "ELC-SWTCH-EA", "ELC-FIXTR-EA"],
+  "HVAC":          ["HVC-UNIT-EA"],
+  "Debris":        ["DEB-HAUL-EA", "DEB-DUMP-EA"],
+  "General":       ["GEN-LABOR-HR", "GEN-EQUIP-DAY"],
+  "Fencing":       ["FNC-WOOD-LF", "FNC-CHAIN-LF"],
+  "Cabinetry":     ["CAB-BASE-LF", "CAB-WALL-LF", "CAB-UPPER-LF"],
+};
+
+async function defaultWasteFactorFor(storage: IStorage, userId: string | undefined): Promise<number | null> {
+  const userSettings = userId ? await storage.getUserSettings(userId) : null;
+  const value = (userSettings as Record<string, unknown> | null)?.defaultWasteFactor;
+  return typeof value === "number" ? value : null;
+}
+
+async function regionalPriceFor(storage: IStorage, code: string) {
+  return await storage.getRegionalPrice(code, "FLFM8X_NOV22", "install")
+    ?? await storage.getRegionalPrice(code, "US_NATIONAL", "install");
+}
+
+/**
+ * Creates a line item priced from the catalog. Without an xactCode (or one
+ * the catalog does not know) and without a unit price, the category's
+ * default codes and a description match are tried. The room and damage must
+ * already be checked to belong to the session.
+ */
+export async function createInspectionLineItem(
+  storage: IStorage,
+  sessionId: number,
+  input: LineItemCreateInput,
+  options: { userId?: string } = {}
+): Promise<{ item: LineItem; catalogMatch: boolean }> {
+  const { category, description, unit, wasteFactor } = input;
+  const defaultWasteFactor = await defaultWasteFactorFor(storage, options.userId) ?? 0;
+  let wf = wasteFactor ?? defaultWasteFactor;
+  const qty = input.quantity || 1;
+  let up = input.unitPrice || 0;
+  let finalDescription = description;
+  let finalUnit = unit || null;
+  let catalogMatch = false;
+  let resolvedXactCode = input.xactCode || null;
+  let catalogCodeUpgrade = false;
+  const session = await storage.getInspectionSession(sessionId);
+  let laborBurdenPct: number | undefined;
+
+  async function lookupCatalogPrice(code: string): Promise<boolean> {
+    const catalogItem = await storage.getScopeLineItemByCode(code);
+    if (!catalogItem) return false;
+    catalogMatch = true;
+    resolvedXactCode = code;
+    catalogCodeUpgrade = !!catalogItem.isCodeUpgrade;
+    finalDescription = description || catalogItem.description || code;
+    finalUnit = unit || catalogItem.unit;
+    wf = wasteFactor ?? (
+      catalogItem.defaultWasteFactor != null
+        ? Math.round(catalogItem.defaultWasteFactor)
+        : defaultWasteFactor
+    );
+    const regionalPrice = await regionalPriceFor(storage, code);
+    if (regionalPrice) {
+      laborBurdenPct ??= await resolveClaimLaborBurden(
+        storage,
+        session ? await storage.getClaim(session.claimId) : null
+      );
+      const baseCost =
+        (Number(regionalPrice.materialCost) || 0) +
+        (Number(regionalPrice.laborCost) || 0) * (1 + laborBurdenPct / 100) +
+        (Number(regionalPrice.equipmentCost) || 0);
+      up = Math.round(baseCost * 100) / 100;
+    }
+    return true;
+  }
+
+  if (input.xactCode) {
+    await lookupCatalogPrice(input.xactCode);
+  }
+
+  if (!catalogMatch && up === 0) {
+    const descLower = (description || "").toLowerCase();
+    const candidateCodes: string[] = [];
+
+    if (category && CATEGORY_DEFAULT_CODES[category]) {
+      candidateCodes.push(...CATEGORY_DEFAULT_CODES[category]);
+    }
+
+    if (descLower) {
+      const allItems = await storage.getScopeLineItems();
+      const descMatch = allItems.find(item =>
+        item.description.toLowerCase().includes(descLower) ||
+        descLower.includes(item.description.toLowerCase())
+      );
+      if (descMatch) {
+        candidateCodes.unshift(descMatch.code);
+      }
+    }
+
+    for (const code of candidateCodes) {
+      const found = await lookupCatalogPrice(code);
+      if (found && up > 0) break;
+    }
+  }
+
+  let totalPrice = Math.round(qty * up * (1 + wf / 100) * 100) / 100;
+  if (input.applyOAndP) {
+    totalPrice = Math.round(totalPrice * 1.20 * 100) / 100; // 10% overhead + 10% profit (additive)
+  }
+
+  // Code upgrades go to Ordinance or Law; an explicit flag from the adjuster wins over the catalog
+  const codeUpgrade = routeCodeUpgrade(input.isCodeUpgrade ?? catalogCodeUpgrade);
+  if (codeUpgrade && session) {
+    const claim = await storage.getClaim(session.claimId);
+    if (claim) await ensureOrdinanceLawRule(storage, claim);
+  }
+  const finalDepreciationType = codeUpgrade?.depreciationType || input.depreciationType || "Recoverable";
+
+  const depSchedule = await resolveClaimDepreciationSchedule(storage, session?.claimId);
+  const depreciation = calculateDepreciation({
+    totalPrice,
+    age: input.age || null,
+    lifeExpectancy: input.lifeExpectancy || null,
+    category,
+    description: finalDescription,
+    depreciationType: finalDepreciationType,
+    schedule: depSchedule?.table,
+  });
+
+  const item = await storage.createLineItem({
+    sessionId,
+    roomId: input.roomId || null,
+    damageId: input.damageId || null,
+    category,
+    action: input.action || null,
+    description: finalDescription,
+    xactCode: resolvedXactCode,
+    quantity: qty,
+    unit: finalUnit,
+    unitPrice: up,
+    totalPrice,
+    depreciationType: finalDepreciationType,
+    wasteFactor: wf,
+    coverageBucket: codeUpgrade?.coverageBucket || input.coverageBucket || "Coverage A",
+    qualityGrade: input.qualityGrade || null,
+    applyOAndP: input.applyOAndP || false,
+    macroSource: input.macroSource || null,
+    sublimitKey: input.sublimitKey || null,
+    isCodeUpgrade: !!codeUpgrade,
+    age: input.age || null,
+    lifeExpectancy: depreciation.lifeExpectancy || null,
+    depreciationPercentage: input.depreciationPercentage ?? depreciation.depreciationPercentage,
+    depreciationAmount: depreciation.depreciationAmount,
+    depreciationScheduleVersionId: depSchedule?.version.id ?? null,
+  } as any);
+  return { item, catalogMatch };
+}
+
+/**
+ * Applies an update to a line item: marks it incurred, routes code upgrades
+ * and recomputes depreciation when the price inputs change. Returns undefined
+ * when the line item does not exist. Throws when roomId or damageId belong
+ * to another session.
+ */
+export async function updateInspectionLineItem(
+  storage: IStorage,
+  sessionId: number,
+  id: number,
+  fields: LineItemUpdateInput
+): Promise<{ item: LineItem; ops: CommandOp[] } | undefined> {
+  const existing = await storage.getLineItemById(id);
+  if (!existing) return undefined;
+
+  const { incurred, ...rest } = fields;
+  const updates: any = { ...rest };
+  if (incurred !== undefined) updates.incurredAt = incurred ? new Date() : null;
+  if (updates.isCodeUpgrade === true) {
+    const routing = routeCodeUpgrade(true)!;
+    updates.coverageBucket ??= routing.coverageBucket;
+    updates.depreciationType ??= routing.depreciationType;
+    const session = await storage.getInspectionSession(sessionId);
+    const claim = session ? await storage.getClaim(session.claimId) : undefined;
+    if (claim) await ensureOrdinanceLawRule(storage, claim);
+  } else if (updates.isCodeUpgrade === false) {
+    updates.coverageBucket ??= "Coverage A";
+    updates.depreciationType ??= "Recoverable";
+  }
+
+  if (updates.roomId !== undefined) {
+    const room = await storage.getRoom(updates.roomId);
+    if (!room || room.sessionId !== sessionId) throw new Error("roomId must belong to the target session");
+  }
+  if (updates.damageId !== undefined) {
+    const damage = await storage.getDamage(updates.damageId);
+    if (!damage || damage.sessionId !== sessionId) throw new Error("damageId must belong to the target session");
+  }
+
+  if (updates.age !== undefined || updates.lifeExpectancy !== undefined || updates.quantity !== undefined || updates.unitPrice !== undefined) {
+    const effectivePrice = updates.totalPrice ?? Number(existing.totalPrice) ?? 0;
+    const session = await storage.getInspectionSession(existing.sessionId);
+    const depSchedule = await resolveClaimDepreciationSchedule(storage, session?.claimId);
+    const depreciation = calculateDepreciation({
+      totalPrice: effectivePrice,
+      age: updates.age !== undefined ? updates.age : (existing.age ?? null),
+      lifeExpectancy: updates.lifeExpectancy !== undefined ? updates.lifeExpectancy : (existing.lifeExpectancy ?? null),
+      category: updates.category || existing.category,
+      description: updates.description || existing.description,
+      depreciationType: updates.depreciationType || existing.depreciationType || "Recoverable",
+      schedule: depSchedule?.table,
+    });
+    updates.lifeExpectancy = depreciation.lifeExpectancy || updates.lifeExpectancy || existing.lifeExpectancy;
+    updates.depreciationPercentage = depreciation.depreciationPercentage;
+    updates.depreciationAmount = depreciation.depreciationAmount;
+    updates.depreciationScheduleVersionId = depSchedule?.version.id ?? null;
+  }
+
+  const item = await storage.updateLineItem(id, updates);
+  if (!item) return undefined;
+  return { item, ops: [{ op: "update", entity: "lineItem", id, set: updates, previous: previousValues(existing, updates) }] };
+}
+
+// ── Smart macros ──
+
+export const SMART_MACRO_TYPES = ["roof_replacement_laminated", "roof_replacement_3tab", "interior_paint_walls_ceiling", "water_mitigation_dryout"] as const;
+
+export type SmartMacroType = (typeof SMART_MACRO_TYPES)[number];
+
+const SMART_MACRO_BUNDLES: Record<SmartMacroType, Array<{ category: string; action: string; description: string; xactCode: string; unit: string; defaultWaste: number; depreciationType: string }>> = {
+  roof_replacement_laminated: [
+    { category: "Roofing", action: "Tear Off", description: "Remove composition shingles - laminated", xactCode: "RFG-TEAR-LM", unit: "SQ", defaultWaste: 0, depreciationType: "Recoverable" },
+    { category: "Roofing", action: "Install", description: "Laminated composition shingles (architectural)", xactCode: "RFG-SHIN-AR", unit: "SQ", defaultWaste: 10, depreciationType: "Recoverable" },
+    { category: "Roofing", action: "Install", description: "Roofing felt - 15 lb.", xactCode: "RFG-FELT-15", unit: "SQ", defaultWaste: 10, depreciationType: "Recoverable" },
+    { category: "Roofing", action: "Install", description: "Ice & water barrier", xactCode: "RFG-ICE-WB", unit: "SQ", defaultWaste: 5, depreciationType: "Recoverable" },
+    { category: "Roofing", action: "R&R", description: "Drip edge - aluminum", xactCode: "RFG-DRIP-AL", unit: "LF", defaultWaste: 5, depreciationType: "Recoverable" },
+    { category: "Roofing", action: "Install", description: "Ridge vent - aluminum", xactCode: "RFG-RIDGE-V", unit: "LF", defaultWaste: 0, depreciationType: "Recoverable" },
+  ],
+  roof_replacement_3tab: [
+    { category: "Roofing", action: "Tear Off", description: "Remove composition shingles - 3 tab", xactCode: "RFG-TEAR-3T", unit: "SQ", defaultWaste: 0, depreciationType: "Recoverable" },
+    { category: "Roofing", action: "Install", description: "3-tab composition shingles", xactCode: "RFG-SHIN-3T", unit: "SQ", defaultWaste: 10, depreciationType: "Recoverable" },
+    { category: "Roofing", action: "Install", description: "Roofing felt - 15 lb.", xactCode: "RFG-FELT-15", unit: "SQ", defaultWaste: 10, depreciationType: "Recoverable" },
+    { category: "Roofing", action: "Install", description: "Ice & water barrier", xactCode: "RFG-ICE-WB", unit: "SQ", defaultWaste: 5, depreciationType: "Recoverable" },
+    { category: "Roofing", action: "R&R", description: "Drip edge - aluminum", xactCode: "RFG-DRIP-AL", unit: "LF", defaultWaste: 5, depreciationType: "Recoverable" },
+    { category: "Roofing", action: "Install", description: "Ridge vent - aluminum", xactCode: "RFG-RIDGE-V", unit: "LF", defaultWaste: 0, depreciationType: "Recoverable" },
+  ],
+  interior_paint_walls_ceiling: [
+    { category: "Painting", action: "Paint", description: "Seal/prime then paint walls - 2 coats", xactCode: "PTG-WALL-2C", unit: "SF", defaultWaste: 0, depreciationType: "Recoverable" },
+    { category: "Painting", action: "Paint", description: "Seal/prime then paint ceiling - 2 coats", xactCode: "PTG-CEIL-2C", unit: "SF", defaultWaste: 0, depreciationType: "Recoverable" },
+    { category: "Painting", action: "Paint", description: "Paint baseboard trim", xactCode: "PTG-TRIM-BS", unit: "LF", defaultWaste: 0, depreciationType: "Recoverable" },
+    { category: "Painting", action: "Paint", description: "Paint door/window casing trim", xactCode: "PTG-TRIM-CS", unit: "LF", defaultWaste: 0, depreciationType: "Recoverable" },
+  ],
+  water_mitigation_dryout: [
+    { category: "General", action: "Labor Only", description: "Water extraction - wet vacuum", xactCode: "WTR-EXTR-WV", unit: "SF", defaultWaste: 0, depreciationType: "Paid When Incurred" },
+    { category: "General", action: "Install", description: "Dehumidifier setup and monitoring", xactCode: "WTR-DEHU-SM", unit: "DAY", defaultWaste: 0, depreciationType: "Paid When Incurred" },
+    { category: "General", action: "Install", description: "Air mover / fan placement", xactCode: "WTR-AIRM-PL", unit: "DAY", defaultWaste: 0, depreciationType: "Paid When Incurred" },
+    { category: "General", action: "Labor Only", description: "Moisture monitoring and documentation", xactCode: "WTR-MONI-DC", unit: "HR", defaultWaste: 0, depreciationType: "Paid When Incurred" },
+    { category: "General", action: "Clean", description: "Anti-microbial treatment", xactCode: "WTR-ANTI-MC", unit: "SF", defaultWaste: 0, depreciationType: "Paid When Incurred" },
+  ],
+};
+
+export interface SmartMacroInput {
+  macroType: SmartMacroType;
+  severity?: "average" | "heavy" | "premium";
+  wasteFactor?: number;
+  roomId?: number | null;
+}
+
+/**
+ * Adds every line item of a macro bundle at quantity 1, priced from the
+ * regional price list. The room must already be checked to belong to the
+ * session.
+ */
+export async function applySmartMacro(storage: IStorage, sessionId: number, input: SmartMacroInput): Promise<LineItem[]> {
+  const { macroType, severity, wasteFactor, roomId } = input;
+  const createdItems: LineItem[] = [];
+  for (const template of SMART_MACRO_BUNDLES[macroType]) {
+    const wf = Number(wasteFactor ?? template.defaultWaste ?? 0);
+
+    // Look up catalog price for this line item
+    let unitPrice = 0;
+    let totalPrice = 0;
+    const catalogItem = await storage.getScopeLineItemByCode(template.xactCode);
+    if (catalogItem) {
+      const regionalPrice = await regionalPriceFor(storage, template.xactCode);
+      if (regionalPrice) {
+        const materialCost = Number(regionalPrice.materialCost) || 0;
+        const laborCost = Number(regionalPrice.laborCost) || 0;
+        const equipmentCost = Number(regionalPrice.equipmentCost) || 0;
+        unitPrice = Math.round((materialCost * (1 + wf / 100) + laborCost + equipmentCost) * 100) / 100;
+        totalPrice = unitPrice; // quantity is 1
+      }
+    }
+
+    const item = await storage.createLineItem({
+      sessionId,
+      roomId: roomId || null,
+      damageId: null,
+      category: template.category,
+      action: template.action,
+      description: severity === "premium" ? `${template.description} - Premium Grade` : template.description,
+      xactCode: template.xactCode,
+      quantity: "1",
+      unit: template.unit,
+      unitPrice: unitPrice.toFixed(2),
+      totalPrice: totalPrice.toFixed(2),
+      depreciationType: template.depreciationType,
+      wasteFactor: Math.round(wf),
+      coverageBucket: "Dwelling",
+      qualityGrade: severity === "premium" ? "High Grade" : severity === "heavy" ? "Standard" : null,
+      applyOAndP: false,
+      macroSource: macroType,
+    });
+    createdItems.push(item);
+  }
+  return createdItems;
+}
+
+// ── Related items (waterfall logic) ──
+
+export const RELATED_ITEM_CATEGORIES = ["Cabinetry", "Roofing", "Drywall", "Siding", "Flooring", "Plumbing", "Electrical", "Windows", "Doors"] as const;
+
+const RELATED_ITEMS_MAP: Record<string, Record<string, string[]>> = {
+  Cabinetry: {
+    default: ["Detach/Reset Plumbing (angle stops, P-trap, supply lines)", "Disconnect/Reconnect Electrical (disposal, dishwasher)", "Countertop Detach & Reset", "Backsplash R&R if adhered to cabinet"],
+    "Remove Vanity": ["Detach/Reset Plumbing (angle stops, P-trap, supply lines)", "Disconnect faucet and drain assembly", "Mirror removal if mounted to vanity"],
+    "R&R Kitchen Cabinets": ["Detach/Reset Plumbing (angle stops, P-trap, supply lines)", "Disconnect/Reconnect Electrical (disposal, dishwasher)", "Countertop Detach & Reset", "Backsplash R&R", "Appliance pullout and reset"],
+  },
+  Roofing: {
+    default: ["Drip edge R&R", "Ice & water barrier at eaves/valleys", "Pipe jack/roof boot replacement", "Step flashing at wall intersections", "Ridge cap shingles", "Satellite dish detach & reset"],
+    "Tear Off Shingles": ["Felt/underlayment replacement", "Valley metal re-flash", "Pipe jack/boot replacement", "Drip edge inspection/replacement", "Starter strip shingles"],
+  },
+  Drywall: {
+    default: ["Texture matching (knock-down, orange peel, smooth)", "Prime and paint to match (2 coats minimum)", "Baseboard R&R if removing lower drywall", "Outlet/switch plate removal and reset"],
+    "R&R Drywall": ["Texture matching (knock-down, orange peel, smooth)", "Prime and paint to match (2 coats minimum)", "Baseboard R&R if removing lower drywall", "Outlet/switch plate removal and reset", "Insulation replacement behind drywall"],
+  },
+  Siding: {
+    default: ["House wrap / moisture barrier behind siding", "J-channel and trim pieces", "Light fixture detach & reset", "Hose bib detach & reset", "Address numbers/mailbox detach & reset"],
+  },
+  Flooring: {
+    default: ["Baseboard/shoe mold R&R", "Transition strips at doorways", "Furniture move-out and move-back", "Subfloor inspection/replacement if water damage", "Underlayment/padding replacement"],
+  },
+  Plumbing: {
+    default: ["Access panel creation if behind wall", "Drywall repair after access", "Fixture detach & reset"],
+  },
+  Electrical: {
+    default: ["Permit fees if code requires", "Outlet/switch upgrade to current code", "GFCI protection if near water source"],
+  },
+  Windows: {
+    default: ["Interior casing/trim R&R", "Exterior trim/J-channel", "Flashing and sealant", "Window screen R&R", "Blinds/window treatment detach & reset"],
+  },
+  Doors: {
+    default: ["Door hardware R&R (hinges, handle, deadbolt)", "Weatherstripping replacement", "Threshold R&R", "Door casing/trim R&R", "Lockset re-key if exterior door"],
+  },
+};
+
+/** Items usually needed alongside the action; the category's defaults when the action has no list of its own. */
+export function relatedItems(primaryCategory: string, actionTaken?: string): { suggestions: string[]; message: string } {
+  const categoryMap = RELATED_ITEMS_MAP[primaryCategory];
+  if (!categoryMap) {
+    return { suggestions: [], message: "No related items found for this category." };
+  }
+  const suggestions = (actionTaken && categoryMap[actionTaken]) ? categoryMap[actionTaken] : categoryMap.default || [];
+  return {
+    suggestions,
+    message: suggestions.length > 0
+      ? `Check for: ${suggestions.join("; ")}`
+      : "No additional items suggested for this action.",
+  };
+}
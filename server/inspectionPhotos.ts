@@ -0,0 +1,25 @@
+import type { IStorage } from "./storage";
+import type { InspectionPhoto } from "@shared/schema";
+import { supabase, PHOTOS_BUCKET } from "./supabase";
+
+/**
+ * Deletes a photo, its file in storage and its count on the room. Shared by
+ * the photos REST route and the voice tool executor. Returns undefined when
+ * the photo does not exist.
+ */
+export async function deleteInspectionPhoto(storage: IStorage, photoId: number): Promise<InspectionPhoto | undefined> {
+  const deleted = await storage.deletePhoto(photoId);
+  if (!deleted) return undefined;
+
+  if (deleted.storagePath) {
+    await supabase.storage.from(PHOTOS_BUCKET).remove([deleted.storagePath]);
+  }
+
+  if (deleted.roomId) {
+    const room = await storage.getRoom(deleted.roomId);
+    if (room && (room.photoCount || 0) > 0) {
+      await storage.updateRoom(deleted.roomId, { photoCount: (room.photoCount || 1) - 1 });
+    }
+  }
+  return deleted;
+}
@@ -0,0 +1,251 @@
+import type { IStorage } from "./storage";
+import type { InspectionRoom } from "@shared/schema";
+import { previousValues, type CommandOp } from "./commandLog";
+import { calculateDimVars, type OpeningData, type RoomDimensions } from "./estimateEngine";
+import { deriveQuantity, type QuantityFormula } from "./scopeQuantityEngine";
+import { MATCHING_PROVENANCE, applyMatching } from "./matching";
+import { logger } from "./logger";
+
+// ── Room creation (L2/L3 hierarchy) and dimensions ──
+//
+// Shared by the rooms REST routes and the voice tool executor so that both
+// resolve structures, deduplicate elevations and stay idempotent by name in
+// the same way, and rescope a room the same way when its dimensions change.
+
+export const DEFAULT_STRUCTURE_NAME = "Main Dwelling";
+
+export interface RoomCreateInput {
+  name: string;
+  roomType?: string | null;
+  structure?: string | null;
+  structureId?: number | null;
+  viewType?: string | null;
+  shapeType?: string | null;
+  parentRoomId?: number | null;
+  attachmentType?: string | null;
+  dimensions?: unknown;
+  polygon?: unknown;
+  position?: unknown;
+  floor?: number | null;
+  facetLabel?: string | null;
+  pitch?: string | null;
+  phase?: number | null;
+}
+
+export interface RoomHierarchyContext {
+  structureName: string;
+  structureId: number | null;
+  siblingRooms: Array<{ id: number; name: string; status: string | null }>;
+  isSubArea: boolean;
+  parentRoomName: string | null | undefined;
+}
+
+export interface RoomCreateOutcome {
+  room: InspectionRoom;
+  /** False when an existing room was returned (or an elevation updated) instead */
+  created: boolean;
+  context?: RoomHierarchyContext;
+}
+
+function structureTypeForName(name: string): string {
+  const lower = name.toLowerCase();
+  if (lower.includes("garage")) return "garage";
+  if (lower.includes("shed")) return "shed";
+  if (lower.includes("fence")) return "fence";
+  return "dwelling";
+}
+
+/**
+ * Creates a room and makes it the session's current room. Elevations are
+ * unique per structure, so a repeat elevation refreshes the existing room's
+ * dimensions; any other repeat name returns the existing room unchanged.
+ * Throws when parentRoomId does not belong to the session.
+ */
+export async function createInspectionRoom(
+  storage: IStorage,
+  sessionId: number,
+  input: RoomCreateInput
+): Promise<RoomCreateOutcome> {
+  const structureName = input.structure || DEFAULT_STRUCTURE_NAME;
+
+  // Resolve structureId: use provided ID, or auto-create from legacy structure string
+  let structureId = input.structureId || null;
+  if (!structureId && input.structure) {
+    const existing = await storage.getStructureByName(sessionId, input.structure)
+      ?? await storage.createStructure({ sessionId, name: input.structure, structureType: structureTypeForName(input.structure) });
+    structureId = existing.id;
+  }
+
+  let parentRoom: InspectionRoom | undefined;
+  if (input.parentRoomId) {
+    parentRoom = await storage.getRoom(input.parentRoomId);
+    if (!parentRoom || parentRoom.sessionId !== sessionId) {
+      throw new Error("Invalid parentRoomId: parent room not found in this session");
+    }
+  }
+
+  if (input.roomType?.startsWith("exterior_elevation_")) {
+    const rooms = await storage.getRooms(sessionId);
+    const duplicate = rooms.find(
+      (r) => r.roomType === input.roomType && (r.structure || DEFAULT_STRUCTURE_NAME) === structureName
+    );
+    if (duplicate) {
+      const updated = input.dimensions
+        ? await storage.updateRoom(duplicate.id, { dimensions: input.dimensions, status: "in_progress" })
+        : undefined;
+      const room = updated || duplicate;
+      await storage.updateSessionRoom(sessionId, room.id);
+      return { room, created: false };
+    }
+  } else {
+    const existing = await storage.getRoomByName(sessionId, input.name);
+    if (existing) return { room: existing, created: false };
+  }
+
+  const room = await storage.createRoom({
+    sessionId,
+    name: input.name,
+    roomType: input.roomType || null,
+    structure: structureName,
+    structureId,
+    viewType: input.viewType || "interior",
+    shapeType: input.shapeType || "rectangle",
+    parentRoomId: input.parentRoomId || null,
+    attachmentType: input.attachmentType || null,
+    dimensions: input.dimensions || null,
+    polygon: input.polygon || null,
+    position: input.position || null,
+    floor: input.floor || 1,
+    facetLabel: input.facetLabel || null,
+    pitch: input.pitch || null,
+    status: "in_progress",
+    phase: input.phase || null,
+  });
+  await storage.updateSessionRoom(sessionId, room.id);
+
+  const siblings = structureId
+    ? (await storage.getRoomsForStructure(structureId)).filter((r) => r.id !== room.id && !r.parentRoomId)
+    : [];
+
+  return {
+    room,
+    created: true,
+    context: {
+      structureName,
+      structureId,
+      siblingRooms: siblings.map((s) => ({ id: s.id, name: s.name, status: s.status })),
+      isSubArea: !!input.parentRoomId,
+      parentRoomName: parentRoom?.name ?? null,
+    },
+  };
+}
+
+// ── Room dimensions ──
+
+export interface RoomDimensionsOutcome {
+  room: InspectionRoom | undefined;
+  /** Line items whose quantities were re-derived from the new dimensions */
+  rescopedItems: number;
+  ops: CommandOp[];
+}
+
+/**
+ * Merges dimension changes into the room, recalculates its DIM_VARS and
+ * re-derives the quantities of its formula-driven scope items and line
+ * items. Rescoping is best effort: a failure is logged and the new
+ * dimensions are kept.
+ */
+export async function updateInspectionRoomDimensions(
+  storage: IStorage,
+  room: InspectionRoom,
+  changes: Record<string, any>
+): Promise<RoomDimensionsOutcome> {
+  const roomId = room.id;
+  const existingDims = (room.dimensions as Record<string, any>) || {};
+  const merged = { ...existingDims, ...changes };
+
+  // Recalculate DIM_VARS when length/width/height are present
+  const dims = merged as RoomDimensions;
+  if (dims.length && dims.width) {
+    const openings = await storage.getOpeningsForRoom(roomId);
+    const openingData: OpeningData[] = openings.map((o) => ({
+      openingType: o.openingType,
+      widthFt: o.widthFt ?? o.width ?? 0,
+      heightFt: o.heightFt ?? o.height ?? 0,
+      quantity: o.quantity ?? 1,
+      opensInto: o.opensInto ?? null,
+      goesToFloor: o.goesToFloor ?? false,
+      goesToCeiling: o.goesToCeiling ?? false,
+    }));
+    const { beforeMW, afterMW } = calculateDimVars(dims, openingData);
+    merged.dimVars = afterMW;
+    merged.dimVarsBeforeMW = beforeMW;
+  }
+
+  const updated = await storage.updateRoomDimensions(roomId, merged);
+  const ops: CommandOp[] = [
+    { op: "update", entity: "room", id: roomId, set: { dimensions: merged }, previous: { dimensions: room.dimensions } },
+  ];
+
+  // Auto-rescope: re-derive quantities for existing scope items and line items
+  let rescopedItems = 0;
+  if (dims.length && dims.width) {
+    try {
+      const updatedRoom = await storage.getRoom(roomId);
+      if (updatedRoom) {
+        const openings = await storage.getOpeningsForRoom(roomId);
+        const netDeduction = openings.reduce((sum, o) =>
+          ((o.widthFt ?? o.width ?? 0) * (o.heightFt ?? o.height ?? 0) * (o.quantity ?? 1)) + sum, 0);
+        const annotations = updatedRoom.viewType === "roof_plan" ? await storage.getSketchAnnotations(roomId) : [];
+
+        // Re-derive scope item quantities
+        const roomScopeItems = await storage.getScopeItemsForRoom(roomId);
+        for (const si of roomScopeItems) {
+          if (si.status !== "active" || !si.catalogCode) continue;
+          // Matching items hold only the quantity beyond the damage scope; they are re-applied below
+          if (si.provenance === MATCHING_PROVENANCE) continue;
+          const formula = si.quantityFormula;
+          if (!formula || formula === "MANUAL" || formula === "EACH") continue;
+
+          const qResult = deriveQuantity(updatedRoom, formula as QuantityFormula, netDeduction, annotations);
+          if (qResult && qResult.quantity > 0) {
+            const set = { quantity: qResult.quantity, dimensionProvenance: qResult.dimensionProvenance };
+            await storage.updateScopeItem(si.id, set);
+            ops.push({ op: "update", entity: "scopeItem", id: si.id, set, previous: previousValues(si, set) });
+          }
+        }
+
+        // Re-derive line item quantities
+        const roomLineItems = await storage.getLineItemsForRoom(roomId);
+        for (const li of roomLineItems) {
+          if (!li.xactCode || li.provenance === "manual") continue;
+          const catalogItem = await storage.getScopeLineItemByCode(li.xactCode);
+          if (!catalogItem?.quantityFormula || catalogItem.quantityFormula === "MANUAL" || catalogItem.quantityFormula === "EACH") continue;
+
+          const qResult = deriveQuantity(updatedRoom, catalogItem.quantityFormula as QuantityFormula, netDeduction, annotations);
+          if (qResult && qResult.quantity > 0) {
+            const unitPrice = parseFloat(String(li.unitPrice) || "0");
+            const waste = li.wasteFactor || 0;
+            const totalPrice = qResult.quantity * unitPrice * (1 + waste / 100);
+            const set = {
+              quantity: String(qResult.quantity),
+              totalPrice: String(totalPrice.toFixed(2)),
+              dimensionProvenance: qResult.dimensionProvenance,
+            };
+            await storage.updateLineItem(li.id, set as any);
+            ops.push({ op: "update", entity: "lineItem", id: li.id, set, previous: previousValues(li, set) });
+            rescopedItems++;
+          }
+        }
+
+        for (const assessment of await storage.getMatchingAssessments(updatedRoom.sessionId)) {
+          if (assessment.appliedAt) await applyMatching(storage, updatedRoom.sessionId, assessment);
+        }
+      }
+    } catch (rescopeErr) {
+      logger.warn("DimUpdate", `Auto-rescope after dimension update failed for room ${roomId}`, rescopeErr as Error);
+    }
+  }
+
+  return { room: updated, rescopedItems, ops };
+}
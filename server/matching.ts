@@ -0,0 +1,243 @@
+import type { IStorage } from "./storage";
+import type { InsertScopeItem, InspectionRoom, MatchingAssessment, ScopeItem, SketchAnnotation } from "@shared/schema";
+import { deriveQuantity, type QuantityFormula } from "./scopeQuantityEngine";
+
+// ── Matching (uniform appearance) ──
+//
+// When a damaged shingle or siding course can no longer be matched, many
+// states require the insurer to replace undamaged material next to it so the
+// repair does not stand out. The adjuster records, per roof facet or
+// elevation, whether the material is available, whether the undamaged
+// material is seen together with the repair and whether it runs on without a
+// natural break. The state's rules turn that into a recommendation, and the
+// extra quantity is scoped as separate "matching" items so reviewers can tell
+// it apart from the quantity taken for direct damage.
+
+export const MATCHING_PROVENANCE = "matching";
+
+export const MATERIAL_AVAILABILITY = ["available", "unavailable", "unknown"] as const;
+export type MaterialAvailability = typeof MATERIAL_AVAILABILITY[number];
+
+export type MatchingRecommendation = "none" | "full_slope" | "full_elevation" | "full_roof";
+export type MatchingSurface = "roof" | "elevation";
+
+export interface MatchingRuleSet {
+  state: string | null;
+  /** Undamaged material must be replaced when the repair cannot match */
+  requiresMatch: boolean;
+  /** Matching reaches only material seen together with the repair */
+  requireLineOfSight: boolean;
+  /** An unmatched roof is replaced in full, not slope by slope */
+  fullRoof: boolean;
+  citation: string | null;
+}
+
+const DEFAULT_MATCHING_RULES: Omit<MatchingRuleSet, "state"> = {
+  requiresMatch: true,
+  requireLineOfSight: true,
+  fullRoof: false,
+  citation: "NAIC Unfair Property/Casualty Claims Settlement Practices Model Regulation",
+};
+
+/** States whose statute or regulation departs from the model regulation */
+const STATE_MATCHING_RULES: Record<string, Partial<Omit<MatchingRuleSet, "state">>> = {
+  CA: { citation: "Cal. Code Regs. tit. 10, § 2695.9(a)(2)" },
+  FL: { requireLineOfSight: false, citation: "Fla. Stat. § 626.9744" }, // "adjoining areas"
+  MN: { citation: "Minn. Stat. § 65A.26" },
+  OH: { citation: "Ohio Admin. Code 3901-1-54(I)(1)(b)" },
+};
+
+/** Trades whose material is matched on each kind of surface */
+const MATCHING_TRADES: Record<MatchingSurface, string[]> = {
+  roof: ["RFG"],
+  elevation: ["EXT"],
+};
+
+export interface MatchingInput {
+  materialAvailability: string;
+  lineOfSight: boolean;
+  continuous: boolean;
+}
+
+export interface MatchingDecision {
+  recommendation: MatchingRecommendation;
+  reason: string;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+export function matchingRulesForState(state: string | null | undefined): MatchingRuleSet {
+  const code = (state || "").trim().toUpperCase();
+  return { state: code || null, ...DEFAULT_MATCHING_RULES, ...STATE_MATCHING_RULES[code] };
+}
+
+/** Whether a room is a roof facet or an elevation; null for everything else. */
+export function matchingSurface(room: Pick<InspectionRoom, "viewType" | "roomType">): MatchingSurface | null {
+  if (room.viewType === "roof_plan" || room.roomType === "exterior_roof_slope") return "roof";
+  if (room.viewType === "elevation" || room.roomType?.startsWith("exterior_elevation_")) return "elevation";
+  return null;
+}
+
+export function recommendMatching(surface: MatchingSurface, input: MatchingInput, rules: MatchingRuleSet): MatchingDecision {
+  if (!rules.requiresMatch) {
+    return { recommendation: "none", reason: "The state does not require matching; the policy language governs." };
+  }
+  if (input.materialAvailability === "available") {
+    return { recommendation: "none", reason: "Matching material is available, so only the damaged area is replaced." };
+  }
+  if (input.materialAvailability !== "unavailable") {
+    return { recommendation: "none", reason: "Confirm whether matching material is available before recommending a match." };
+  }
+
+  const inSight = input.lineOfSight || !rules.requireLineOfSight;
+  if (surface === "roof") {
+    if (rules.fullRoof) {
+      return { recommendation: "full_roof", reason: "Material cannot be matched and the state requires the whole roof to match." };
+    }
+    if (input.continuous && inSight) {
+      return { recommendation: "full_roof", reason: "Material cannot be matched and the slopes are seen as one continuous roof." };
+    }
+    return { recommendation: "full_slope", reason: "Material cannot be matched; the match stops at the slope's natural break." };
+  }
+
+  if (input.continuous && inSight) {
+    return { recommendation: "full_elevation", reason: "Material cannot be matched and the elevation is seen as one continuous surface." };
+  }
+  return { recommendation: "none", reason: "The repair meets a natural break or is out of sight of the undamaged material." };
+}
+
+/** Facets on the same structure make up one roof. */
+function sameStructure(room: InspectionRoom, other: InspectionRoom): boolean {
+  if (room.structureId != null || other.structureId != null) return room.structureId === other.structureId;
+  return (room.structure || "Main Dwelling") === (other.structure || "Main Dwelling");
+}
+
+function isMatchable(item: ScopeItem, surface: MatchingSurface): boolean {
+  return item.provenance !== MATCHING_PROVENANCE &&
+    MATCHING_TRADES[surface].includes(item.tradeCode) &&
+    !!item.quantityFormula && item.quantityFormula !== "MANUAL" && item.quantityFormula !== "EACH";
+}
+
+/** Items in the assessed room whose material the match extends. */
+export function matchingSources(room: InspectionRoom, scopeItems: ScopeItem[]): ScopeItem[] {
+  const surface = matchingSurface(room);
+  if (!surface) return [];
+  return scopeItems.filter((si) => si.roomId === room.id && si.status === "active" && isMatchable(si, surface));
+}
+
+/**
+ * Extra scope for a recommendation: for each matched item, the quantity of
+ * its material on the surfaces being replaced beyond what is already scoped
+ * there. Quantities come from the same geometry formulas as damage scope.
+ */
+export function matchingScopeItems(
+  room: InspectionRoom,
+  rooms: InspectionRoom[],
+  scopeItems: ScopeItem[],
+  recommendation: MatchingRecommendation,
+  annotationsByRoom: Map<number, SketchAnnotation[]> = new Map()
+): InsertScopeItem[] {
+  if (recommendation === "none") return [];
+  const surface = matchingSurface(room);
+  if (!surface) return [];
+
+  const targets = recommendation === "full_roof"
+    ? rooms.filter((r) => matchingSurface(r) === "roof" && sameStructure(room, r))
+    : [room];
+
+  const sources = new Map<string, ScopeItem>();
+  for (const item of matchingSources(room, scopeItems)) {
+    const key = item.catalogCode || item.description;
+    if (!sources.has(key)) sources.set(key, item);
+  }
+
+  const items: InsertScopeItem[] = [];
+  for (const target of targets) {
+    for (const [key, source] of Array.from(sources.entries())) {
+      const derived = deriveQuantity(
+        target,
+        source.quantityFormula as QuantityFormula,
+        0,
+        annotationsByRoom.get(target.id) || []
+      );
+      if (!derived || derived.quantity <= 0 || derived.unit !== source.unit) continue;
+
+      const scoped = scopeItems
+        .filter((si) => si.roomId === target.id && si.status === "active" && si.provenance !== MATCHING_PROVENANCE)
+        .filter((si) => (si.catalogCode || si.description) === key)
+        .reduce((sum, si) => sum + (Number(si.quantity) || 0), 0);
+      const extra = round2(derived.quantity - scoped);
+      if (extra <= 0) continue;
+
+      items.push({
+        sessionId: source.sessionId,
+        roomId: target.id,
+        damageId: null,
+        catalogCode: source.catalogCode,
+        description: source.description,
+        tradeCode: source.tradeCode,
+        quantity: extra,
+        unit: source.unit,
+        quantityFormula: source.quantityFormula,
+        provenance: MATCHING_PROVENANCE,
+        coverageType: source.coverageType,
+        activityType: source.activityType,
+        wasteFactor: source.wasteFactor,
+        status: "active",
+        parentScopeItemId: source.id,
+        quantityIsPlaceholder: false,
+        dimensionProvenance: derived.dimensionProvenance,
+      });
+    }
+  }
+  return items;
+}
+
+/**
+ * Replaces the matching items generated from a room's assessment with those
+ * for its current recommendation. Items are tied to the damage item they
+ * extend through parentScopeItemId, so re-applying never stacks quantities.
+ */
+export async function applyMatching(
+  storage: IStorage,
+  sessionId: number,
+  assessment: MatchingAssessment
+): Promise<{ created: ScopeItem[]; removed: number }> {
+  const [rooms, scopeItems] = await Promise.all([
+    storage.getRooms(sessionId),
+    storage.getScopeItems(sessionId),
+  ]);
+  const room = rooms.find((r) => r.id === assessment.roomId);
+  if (!room) return { created: [], removed: 0 };
+
+  const sourceIds = new Set(matchingSources(room, scopeItems).map((si) => si.id));
+  const stale = scopeItems.filter(
+    (si) => si.provenance === MATCHING_PROVENANCE && si.parentScopeItemId != null && sourceIds.has(si.parentScopeItemId)
+  );
+  const remaining = scopeItems.filter((si) => !stale.includes(si));
+
+  const annotationsByRoom = new Map<number, SketchAnnotation[]>();
+  if (matchingSurface(room) === "roof") {
+    for (const r of rooms.filter((r) => matchingSurface(r) === "roof")) {
+      annotationsByRoom.set(r.id, await storage.getSketchAnnotations(r.id));
+    }
+  }
+
+  const toCreate = matchingScopeItems(
+    room,
+    rooms,
+    remaining,
+    assessment.recommendation as MatchingRecommendation,
+    annotationsByRoom
+  );
+
+  for (const si of stale) {
+    await storage.deleteScopeItem(si.id);
+  }
+  const created = await storage.createScopeItems(toCreate);
+  await storage.updateMatchingAssessment(assessment.id, { appliedAt: new Date() });
+  await storage.recalculateScopeSummary(sessionId);
+  return { created, removed: stale.length };
+}
@@ -0,0 +1,167 @@
+import type { IStorage } from "./storage";
+import type { InsertLineItem, LineItem, XactMinimum } from "@shared/schema";
+import type { PricedLineItem } from "./estimateEngine";
+
+// ── Minimum Charges ──
+//
+// Xactimate catalog items point at a minimum charge (scope_line_items
+// .xact_minimum_id). When the items sharing a minimum extend to less than its
+// amount, the estimate carries one extra line for the difference so a small
+// repair still prices at what a contractor charges to show up.
+
+export const MINIMUM_PROVENANCE = "minimum";
+
+type Minimum = Pick<XactMinimum, "id" | "description" | "amount" | "cat" | "sel">;
+
+export interface MinimumChargeItem {
+  minimumId?: string | null;
+  totalPrice: number;
+}
+
+export interface MinimumShortfall<T extends MinimumChargeItem = MinimumChargeItem> {
+  minimum: Minimum;
+  items: T[];
+  itemsTotal: number;
+  adjustment: number;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+export function minimumChargeDescription(minimum: Minimum): string {
+  return minimum.description?.trim() || "Minimum charge";
+}
+
+/**
+ * Groups items by minimum and returns the groups whose extended total is
+ * above zero but below the minimum amount, in order of first appearance.
+ */
+export function findMinimumShortfalls<T extends MinimumChargeItem>(
+  items: T[],
+  minimums: Minimum[]
+): MinimumShortfall<T>[] {
+  const minimumsById = new Map(minimums.map((m) => [m.id, m]));
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    if (!item.minimumId || !minimumsById.has(item.minimumId)) continue;
+    const group = groups.get(item.minimumId);
+    if (group) group.push(item);
+    else groups.set(item.minimumId, [item]);
+  }
+
+  const shortfalls: MinimumShortfall<T>[] = [];
+  for (const [minimumId, group] of Array.from(groups.entries())) {
+    const minimum = minimumsById.get(minimumId)!;
+    const amount = Number(minimum.amount) || 0;
+    const itemsTotal = round2(group.reduce((sum, item) => sum + (Number(item.totalPrice) || 0), 0));
+    if (itemsTotal <= 0 || itemsTotal >= amount) continue;
+    shortfalls.push({ minimum, items: group, itemsTotal, adjustment: round2(amount - itemsTotal) });
+  }
+  return shortfalls;
+}
+
+/** Adjustment lines for a priced scope; the shortfall is carried as labor. */
+export function minimumChargeItems(
+  pricedItems: PricedLineItem[],
+  minimums: Minimum[]
+): { items: PricedLineItem[]; shortfalls: MinimumShortfall<PricedLineItem>[] } {
+  const shortfalls = findMinimumShortfalls(pricedItems, minimums);
+  const items = shortfalls.map(({ minimum, items: group, adjustment }) => ({
+    code: [minimum.cat, minimum.sel].filter(Boolean).join(" ") || `MIN ${minimum.id}`,
+    description: minimumChargeDescription(minimum),
+    unit: "EA",
+    quantity: 1,
+    unitPriceBreakdown: {
+      materialCost: 0,
+      laborCost: adjustment,
+      equipmentCost: 0,
+      wasteFactor: 0,
+      unitPrice: adjustment,
+    },
+    totalPrice: adjustment,
+    tradeCode: group[0].tradeCode,
+    minimumId: minimum.id,
+  }));
+  return { items, shortfalls };
+}
+
+/**
+ * Brings a session's "minimum" lines in line with its current items: one line
+ * per minimum that is short, placed in the room of the first item it covers.
+ * Lines for minimums that are now met are removed.
+ */
+export async function syncMinimumCharges(
+  storage: IStorage,
+  sessionId: number
+): Promise<{ created: number; updated: number; removed: number }> {
+  const lineItems = await storage.getLineItems(sessionId);
+  const existing = lineItems.filter((li) => li.provenance === MINIMUM_PROVENANCE);
+  const scoped = lineItems.filter((li) => li.provenance !== MINIMUM_PROVENANCE && li.xactCode);
+
+  const codes = Array.from(new Set(scoped.map((li) => li.xactCode!)));
+  const catalog = await storage.getScopeLineItemsByCodes(codes);
+  const minimumIdByCode = new Map(catalog.map((c) => [c.code, c.xactMinimumId]));
+  const items = scoped.map((li) => ({
+    line: li,
+    minimumId: minimumIdByCode.get(li.xactCode!) ?? null,
+    totalPrice: Number(li.totalPrice) || 0,
+  }));
+
+  const minimumIds = Array.from(new Set(items.map((i) => i.minimumId).filter((id): id is string => !!id)));
+  const minimums = minimumIds.length > 0 ? await storage.getXactMinimums(minimumIds) : [];
+  const shortfalls = findMinimumShortfalls(items, minimums);
+
+  const stale = new Map<string, LineItem>();
+  const orphaned: LineItem[] = [];
+  for (const li of existing) {
+    if (li.xactMinimumId && !stale.has(li.xactMinimumId)) stale.set(li.xactMinimumId, li);
+    else orphaned.push(li);
+  }
+
+  let created = 0;
+  let updated = 0;
+  for (const { minimum, items: group, adjustment } of shortfalls) {
+    const first = group[0].line;
+    const current = stale.get(minimum.id);
+    stale.delete(minimum.id);
+
+    if (current) {
+      if (Number(current.totalPrice) !== adjustment || current.roomId !== first.roomId) {
+        await storage.updateLineItem(current.id, {
+          roomId: first.roomId,
+          unitPrice: String(adjustment),
+          totalPrice: String(adjustment),
+        });
+        updated++;
+      }
+      continue;
+    }
+
+    const line: InsertLineItem = {
+      sessionId,
+      roomId: first.roomId,
+      category: first.category,
+      action: null,
+      description: minimumChargeDescription(minimum),
+      quantity: "1",
+      unit: "EA",
+      unitPrice: String(adjustment),
+      totalPrice: String(adjustment),
+      tradeCode: first.tradeCode,
+      coverageType: first.coverageType,
+      coverageBucket: first.coverageBucket,
+      depreciationType: "Recoverable",
+      provenance: MINIMUM_PROVENANCE,
+      xactMinimumId: minimum.id,
+    };
+    await storage.createLineItem(line);
+    created++;
+  }
+
+  const removedLines = [...Array.from(stale.values()), ...orphaned];
+  for (const li of removedLines) {
+    await storage.deleteLineItem(li.id);
+  }
+  return { created, updated, removed: removedLines.length };
+}
@@ -289,6 +289,7 @@ Return a JSON object:
     "coverageB": { "label": "Other Structures", "limit": number | null },
     "coverageC": { "label": "Personal Property", "limit": number | null },
     "coverageD": { "label": "Loss of Use", "limit": number | null },
+    "ordinanceLaw": { "label": "Ordinance or Law", "limit": number | null },
     "deductible": number | null, "deductibleType": string | null,
     "lossSettlement": string,
     "summary": string
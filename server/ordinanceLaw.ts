@@ -0,0 +1,86 @@
+import type { IStorage } from "./storage";
+import type { Claim, InsertPolicyRule, PolicyRule } from "@shared/schema";
+
+// ── Ordinance or Law ──
+//
+// Code upgrades are items the current building code requires but the home
+// did not have before the loss (drip edge, ice & water shield, GFCI outlets,
+// arc-fault breakers). They are kept out of the dwelling estimate and carried
+// under their own Ordinance or Law coverage, which has its own limit and pays
+// only once the work has been done (Paid When Incurred).
+
+export const ORDINANCE_OR_LAW = "Ordinance or Law";
+export const PAID_WHEN_INCURRED = "Paid When Incurred";
+
+/** Ordinance or Law limit as a percent of the Coverage A limit */
+export const DEFAULT_ORDINANCE_LAW_PCT = 10;
+
+/** States whose policies default to a different Ordinance or Law percentage */
+const STATE_ORDINANCE_LAW_PCT: Record<string, number> = {
+  FL: 25, // Fla. Stat. 627.7011 requires offering 25% of the dwelling limit
+};
+
+export interface CodeUpgradeRouting {
+  coverageBucket: string;
+  depreciationType: string;
+  isCodeUpgrade: true;
+}
+
+export function ordinanceLawPct(state: string | null | undefined): number {
+  const code = (state || "").trim().toUpperCase();
+  return STATE_ORDINANCE_LAW_PCT[code] ?? DEFAULT_ORDINANCE_LAW_PCT;
+}
+
+/** Default Ordinance or Law limit for a claim; null when Coverage A has no limit. */
+export function ordinanceLawLimit(coverageALimit: number | null | undefined, state: string | null | undefined): number | null {
+  if (coverageALimit == null || !(coverageALimit > 0)) return null;
+  return Math.round(coverageALimit * ordinanceLawPct(state)) / 100;
+}
+
+/**
+ * Routing for a line item that the catalog (or the adjuster) flagged as a
+ * code upgrade. Returns null for ordinary items, which keep the bucket and
+ * depreciation type they were created with.
+ */
+export function routeCodeUpgrade(isCodeUpgrade: boolean | null | undefined): CodeUpgradeRouting | null {
+  if (!isCodeUpgrade) return null;
+  return { coverageBucket: ORDINANCE_OR_LAW, depreciationType: PAID_WHEN_INCURRED, isCodeUpgrade: true };
+}
+
+/**
+ * Policy rule for the Ordinance or Law coverage, sized from the Coverage A
+ * rule and the claim's state. O&P and tax follow the dwelling; there is no
+ * separate deductible.
+ */
+export function ordinanceLawRule(
+  claim: Pick<Claim, "id" | "state">,
+  coverageA: Pick<PolicyRule, "policyLimit" | "overheadPct" | "profitPct" | "taxRate"> | undefined,
+  explicitLimit?: number | null
+): InsertPolicyRule {
+  return {
+    claimId: claim.id,
+    coverageType: ORDINANCE_OR_LAW,
+    policyLimit: explicitLimit ?? ordinanceLawLimit(coverageA?.policyLimit, claim.state),
+    deductible: 0,
+    applyRoofSchedule: false,
+    overheadPct: coverageA?.overheadPct ?? 10,
+    profitPct: coverageA?.profitPct ?? 10,
+    taxRate: coverageA?.taxRate ?? 8,
+  };
+}
+
+/**
+ * Adds the Ordinance or Law rule to a claim whose policy rules were created
+ * before it had any code upgrades. Claims without rules yet get it when their
+ * rules are first created.
+ */
+export async function ensureOrdinanceLawRule(
+  storage: IStorage,
+  claim: Pick<Claim, "id" | "state">
+): Promise<PolicyRule | null> {
+  const rules = await storage.getPolicyRulesForClaim(claim.id);
+  if (rules.length === 0) return null;
+  const existing = rules.find(r => r.coverageType === ORDINANCE_OR_LAW);
+  if (existing) return existing;
+  return storage.createPolicyRule(ordinanceLawRule(claim, rules.find(r => r.coverageType === "Coverage A")));
+}
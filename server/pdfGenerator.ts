@@ -1,6 +1,7 @@
 import PDFDocument from "pdfkit";
 import { InspectionSession, InspectionRoom, DamageObservation, LineItem, InspectionPhoto } from "../shared/schema";
-import { Claim, MoistureReading } from "../shared/schema";
+import { Carrier, Claim, MoistureReading } from "../shared/schema";
+import type { ContentsReport } from "./contentsInventory";
 
 interface RoomEstimateItem {
   lineNumber: number;
@@ -19,6 +20,9 @@ interface RoomEstimateItem {
   lifeExpectancy: number | null;
   action: string | null;
   provenance: string | null;
+  coverageBucket?: string;
+  /** Paid When Incurred work that has been done */
+  incurred?: boolean;
 }
 
 interface RoomOpeningData {
@@ -113,14 +117,26 @@ interface PDFReportData {
       totalACV: number;
       deductible: number;
       netClaim: number;
+      totalRecoverableDepreciation?: number;
+      totalNonRecoverableDepreciation?: number;
+      policyLimit?: number | null;
+      overLimitDeduction?: number;
+      coinsurance?: { pct: number; requiredLimit: number; ratio: number; penalty: number } | null;
+      coinsurancePenalty?: number;
+      sublimits?: CoverageSublimit[];
+      sublimitOverage?: number;
+      rdPaidToDate?: number;
+      priorPayments?: number;
     }>;
   };
   inspectorName?: string;
   transcript?: any[];
   companyName?: string;
   adjusterLicense?: string;
+  carrier?: Pick<Carrier, "code" | "name" | "xactnetCarrierId" | "naicCode"> | null;
   roomEstimate?: RoomEstimateData;
   briefing?: BriefingData;
+  contents?: ContentsReport;
 }
 
 const MARGIN = 40;
@@ -239,6 +255,245 @@ function drawThickLine(doc: Doc, y: number) {
   doc.moveTo(MARGIN, y).lineTo(PAGE_WIDTH - MARGIN, y).lineWidth(1.5).stroke(COLORS.black);
 }
 
+// ── Coverage Sections ──────────────────────────────
+
+const COVERAGE_ORDER = ["Coverage A", "Coverage B", "Coverage C", "Coverage D", "Ordinance or Law"];
+
+const COVERAGE_NAMES: Record<string, string> = {
+  "Coverage A": "Dwelling",
+  "Coverage B": "Other Structures",
+  "Coverage C": "Contents",
+  "Coverage D": "Loss Of Use",
+};
+
+interface CoverageSublimit {
+  label: string;
+  additional: boolean;
+  claimed: number;
+  cap: number;
+  overage: number;
+  allowed: number;
+}
+
+interface CoverageSection {
+  coverageType: string;
+  label: string;
+  name: string;
+  rooms: RoomEstimate[];
+  lineItemTotal: number;
+  /** Line item total excluding contents, which never carry O&P. */
+  opEligibleTotal: number;
+  tax: number;
+  rcv: number;
+  recoverableDepreciation: number;
+  nonRecoverableDepreciation: number;
+  depreciation: number;
+  /** Paid When Incurred work not yet done; held out of the ACV until it is. */
+  paidWhenIncurred: number;
+  acv: number;
+  deductible: number;
+  policyLimit: number | null;
+  /** Coinsurance requirement when the policy has one; the penalty is taken before the deductible. */
+  coinsurance: { pct: number; requiredLimit: number; ratio: number } | null;
+  coinsurancePenalty: number;
+  sublimits: CoverageSublimit[];
+  /** Claimed above sublimit caps, cut before the deductible. */
+  sublimitOverage: number;
+  /** Paid by additional coverages, on top of the policy limit. */
+  additionalAllowed: number;
+  /** Recoverable depreciation already released from the holdback. */
+  rdPaidToDate: number;
+  /** Advances and earlier ACV/supplement payments netted from the settlement. */
+  priorPayments: number;
+}
+
+/**
+ * Normalizes the coverage labels used across line items, policy rules and
+ * stored breakdowns ("A", "Coverage A", "Coverage A - Dwelling", "Contents")
+ * to the "Coverage X" bucket key.
+ */
+function normalizeCoverageKey(coverageType: string | null | undefined): string {
+  const raw = (coverageType || "").trim();
+  const prefixed = raw.match(/^coverage\s+([a-d])\b/i);
+  if (prefixed) return `Coverage ${prefixed[1].toUpperCase()}`;
+  if (/^[a-d]$/i.test(raw)) return `Coverage ${raw.toUpperCase()}`;
+  const lower = raw.toLowerCase();
+  if (!lower || lower === "dwelling") return "Coverage A";
+  if (lower.startsWith("other structures")) return "Coverage B";
+  if (lower === "contents" || lower.startsWith("personal property")) return "Coverage C";
+  if (lower.startsWith("loss of use") || lower === "ale") return "Coverage D";
+  return raw;
+}
+
+function coverageName(coverageType: string): string {
+  return COVERAGE_NAMES[coverageType] || coverageType;
+}
+
+function coverageLabel(coverageType: string): string {
+  const name = COVERAGE_NAMES[coverageType];
+  return name ? `${coverageType} - ${name}` : coverageType;
+}
+
+function sliceRoomItems(room: RoomEstimate, items: RoomEstimateItem[]): RoomEstimate {
+  const subtotal = items.reduce((s, i) => s + i.totalPrice, 0);
+  const totalDepreciation = items.reduce((s, i) => s + i.depreciationAmount, 0);
+  return {
+    ...room,
+    items,
+    subtotal,
+    totalTax: items.reduce((s, i) => s + i.taxAmount, 0),
+    totalDepreciation,
+    totalRecoverableDepreciation: items
+      .filter(i => i.depreciationType === "Recoverable")
+      .reduce((s, i) => s + i.depreciationAmount, 0),
+    totalNonRecoverableDepreciation: items
+      .filter(i => i.depreciationType === "Non-Recoverable")
+      .reduce((s, i) => s + i.depreciationAmount, 0),
+    totalACV: subtotal - totalDepreciation,
+  };
+}
+
+const CONTENTS_ROOM_ID = -2;
+
+/**
+ * Presents the contents inventory as a single pseudo-room so it rolls into
+ * the Coverage C recap and settlement alongside any structural items.
+ */
+function contentsRoom(contents: ContentsReport): RoomEstimate {
+  return {
+    id: CONTENTS_ROOM_ID,
+    name: "Contents Inventory",
+    structure: "Contents",
+    items: contents.items.map((item) => ({
+      lineNumber: item.lineNumber,
+      description: item.description,
+      category: item.category,
+      quantity: item.quantity,
+      unit: "EA",
+      unitPrice: item.unitPrice,
+      totalPrice: item.totalPrice,
+      taxAmount: item.taxAmount,
+      depreciationAmount: item.depreciationAmount,
+      depreciationType: item.depreciationType,
+      depreciationPercentage: item.depreciationPercentage,
+      acv: item.acv,
+      age: item.age,
+      lifeExpectancy: item.lifeExpectancy,
+      action: null,
+      provenance: "contents",
+      coverageBucket: "Coverage C",
+    })),
+    subtotal: contents.subtotal,
+    totalTax: contents.totalTax,
+    totalDepreciation: contents.totalDepreciation,
+    totalRecoverableDepreciation: contents.totalRecoverableDepreciation,
+    totalNonRecoverableDepreciation: contents.totalNonRecoverableDepreciation,
+    totalACV: contents.totalACV,
+  };
+}
+
+/**
+ * Splits the room estimate into one section per coverage present on the
+ * claim. Deductibles and limits come from the coverage breakdown; the
+ * briefing deductible is only used for Coverage A when none was supplied.
+ */
+function buildCoverageSections(data: PDFReportData, re: RoomEstimateData, br?: BriefingData): CoverageSection[] {
+  const roomsByCoverage = new Map<string, RoomEstimate[]>();
+  for (const room of re.rooms) {
+    const itemsByCoverage = new Map<string, RoomEstimateItem[]>();
+    for (const item of room.items) {
+      const key = normalizeCoverageKey(item.coverageBucket);
+      if (!itemsByCoverage.has(key)) itemsByCoverage.set(key, []);
+      itemsByCoverage.get(key)!.push(item);
+    }
+    for (const [key, items] of Array.from(itemsByCoverage.entries())) {
+      if (!roomsByCoverage.has(key)) roomsByCoverage.set(key, []);
+      roomsByCoverage.get(key)!.push(items.length === room.items.length ? room : sliceRoomItems(room, items));
+    }
+  }
+  if (data.contents && data.contents.items.length > 0) {
+    if (!roomsByCoverage.has("Coverage C")) roomsByCoverage.set("Coverage C", []);
+    roomsByCoverage.get("Coverage C")!.push(contentsRoom(data.contents));
+  }
+  // Advances can be paid on a coverage with nothing estimated yet (e.g. ALE)
+  for (const entry of data.estimate.coverageBreakdown || []) {
+    const key = normalizeCoverageKey(entry.coverageType);
+    if ((Number(entry.priorPayments) || 0) > 0 && !roomsByCoverage.has(key)) roomsByCoverage.set(key, []);
+  }
+  if (roomsByCoverage.size === 0) roomsByCoverage.set("Coverage A", []);
+
+  const rank = (key: string) => {
+    const idx = COVERAGE_ORDER.indexOf(key);
+    return idx === -1 ? COVERAGE_ORDER.length : idx;
+  };
+  const keys = Array.from(roomsByCoverage.keys()).sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+
+  return keys.map((coverageType) => {
+    const rooms = roomsByCoverage.get(coverageType)!;
+    const lineItemTotal = rooms.reduce((s, r) => s + r.subtotal, 0);
+    const tax = rooms.reduce((s, r) => s + r.totalTax, 0);
+    const depreciation = rooms.reduce((s, r) => s + r.totalDepreciation, 0);
+    const paidWhenIncurred = rooms.reduce((s, r) => s + r.items
+      .filter(i => i.depreciationType === "Paid When Incurred" && !i.incurred)
+      .reduce((t, i) => t + i.totalPrice + i.taxAmount - i.depreciationAmount, 0), 0);
+    const breakdown = data.estimate.coverageBreakdown?.find(c => normalizeCoverageKey(c.coverageType) === coverageType);
+    const fallbackDeductible = coverageType === "Coverage A"
+      ? Number(br?.coverageSnapshot?.deductible ?? data.estimate.deductible) || 0
+      : 0;
+
+    return {
+      coverageType,
+      label: coverageLabel(coverageType),
+      name: coverageName(coverageType),
+      rooms,
+      lineItemTotal,
+      opEligibleTotal: rooms.filter(r => r.id !== CONTENTS_ROOM_ID).reduce((s, r) => s + r.subtotal, 0),
+      tax,
+      rcv: lineItemTotal + tax,
+      recoverableDepreciation: rooms.reduce((s, r) => s + r.totalRecoverableDepreciation, 0),
+      nonRecoverableDepreciation: rooms.reduce((s, r) => s + r.totalNonRecoverableDepreciation, 0),
+      depreciation,
+      paidWhenIncurred,
+      acv: lineItemTotal + tax - depreciation - paidWhenIncurred,
+      deductible: breakdown ? Number(breakdown.deductible) || 0 : fallbackDeductible,
+      policyLimit: breakdown?.policyLimit != null ? Number(breakdown.policyLimit) : null,
+      coinsurance: breakdown?.coinsurance ?? null,
+      coinsurancePenalty: Number(breakdown?.coinsurancePenalty) || 0,
+      sublimits: breakdown?.sublimits || [],
+      sublimitOverage: Number(breakdown?.sublimitOverage) || 0,
+      additionalAllowed: (breakdown?.sublimits || []).filter(s => s.additional).reduce((t, s) => t + s.allowed, 0),
+      rdPaidToDate: Number(breakdown?.rdPaidToDate) || 0,
+      priorPayments: Number(breakdown?.priorPayments) || 0,
+    };
+  });
+}
+
+export interface CoverageSettlementTerms {
+  deductible: number;
+  policyLimit: number | null;
+  coinsurancePenalty?: number;
+  sublimitOverage?: number;
+  additionalAllowed?: number;
+}
+
+/**
+ * Settles a coverage's ACV the way calculateSettlement does: sublimit
+ * overage, the coinsurance penalty and the deductible come off first, then
+ * anything above the limit, less what additional coverages pay on top of
+ * it, is reported as residual over limit.
+ */
+export function settleCoverage(acv: number, terms: CoverageSettlementTerms): { netClaim: number; overLimit: number } {
+  const { deductible, policyLimit } = terms;
+  let netClaim = Math.max(0, acv - (terms.sublimitOverage || 0) - (terms.coinsurancePenalty || 0) - deductible);
+  let overLimit = 0;
+  const subjectToLimit = Math.max(netClaim - (terms.additionalAllowed || 0), 0);
+  if (policyLimit != null && subjectToLimit > policyLimit) {
+    overLimit = subjectToLimit - policyLimit;
+    netClaim -= overLimit;
+  }
+  return { netClaim, overLimit };
+}
+
 export async function generateInspectionPDF(data: PDFReportData): Promise<Buffer> {
   return new Promise((resolve, reject) => {
     const doc = new PDFDocument({
@@ -263,17 +518,24 @@ export async function generateInspectionPDF(data: PDFReportData): Promise<Buffer
     const br = data.briefing;
 
     if (re) {
-      renderCoverageSummaryPage(doc, data, re, br);
+      const sections = buildCoverageSections(data, re, br);
+      renderCoverageSummaryPage(doc, data, sections, br);
       newPage(doc);
       renderClaimInfoPage(doc, data, br);
       newPage(doc);
-      renderEstimateRecapPage(doc, data, re);
+      renderEstimateRecapPage(doc, sections);
       renderLineItemPages(doc, data, re);
+      if (data.contents && data.contents.items.length > 0) {
+        renderContentsInventoryPages(doc, data.contents);
+      }
       renderCoverageRecapPage(doc, data, re);
-      renderSettlementSummaryPage(doc, data, re);
+      renderSettlementSummaryPage(doc, data, re, sections);
+      if (sections.length > 1) {
+        renderGrandTotalSettlementPage(doc, data, re, sections);
+      }
       renderRecapOfTaxes(doc, data, re);
       renderRecapByRoom(doc, data, re);
-      renderRecapByCategory(doc, data, re);
+      renderRecapByCategory(doc, data, re, sections);
     } else {
       renderLegacyCoverPage(doc, data);
       addFooter(doc);
@@ -300,7 +562,7 @@ export async function generateInspectionPDF(data: PDFReportData): Promise<Buffer
   });
 }
 
-function renderCoverageSummaryPage(doc: Doc, data: PDFReportData, re: RoomEstimateData, br?: BriefingData) {
+function renderCoverageSummaryPage(doc: Doc, data: PDFReportData, sections: CoverageSection[], br?: BriefingData) {
   addFooter(doc);
 
   const claim = data.claim;
@@ -335,13 +597,89 @@ function renderCoverageSummaryPage(doc: Doc, data: PDFReportData, re: RoomEstima
   doc.font(FONTS.bold, 9).text(claimNumber, rightCol + 85, y - 34);
   doc.font(FONTS.normal, 9).text("Date of Loss:", rightCol, y - 22);
   doc.text(dateOfLoss, rightCol + 85, y - 22);
+  if (data.carrier) {
+    doc.text("Carrier:", rightCol, y - 10);
+    doc.text(data.carrier.name, rightCol + 85, y - 10);
+  }
 
   y += 14;
   drawThickLine(doc, y);
   y += 10;
 
+  for (const section of sections) {
+    y = checkPageBreak(doc, 110, y);
+    y = renderCoverageSummaryBlock(doc, `Summary For ${section.label}`, {
+      rcv: section.rcv,
+      recDep: section.recoverableDepreciation,
+      nonRecDep: section.nonRecoverableDepreciation,
+      acv: section.acv,
+      sublimitOverage: section.sublimitOverage,
+      coinsurancePenalty: section.coinsurancePenalty,
+      deductible: section.deductible,
+      priorPayments: section.priorPayments,
+      ...settleCoverage(section.acv, section),
+    }, y);
+  }
+
+  if (sections.length > 1) {
+    const totals = sections.reduce((t, section) => {
+      const { netClaim, overLimit } = settleCoverage(section.acv, section);
+      return {
+        rcv: t.rcv + section.rcv,
+        recDep: t.recDep + section.recoverableDepreciation,
+        nonRecDep: t.nonRecDep + section.nonRecoverableDepreciation,
+        acv: t.acv + section.acv,
+        sublimitOverage: t.sublimitOverage + section.sublimitOverage,
+        coinsurancePenalty: t.coinsurancePenalty + section.coinsurancePenalty,
+        deductible: t.deductible + section.deductible,
+        netClaim: t.netClaim + netClaim,
+        overLimit: t.overLimit + overLimit,
+        priorPayments: t.priorPayments + section.priorPayments,
+      };
+    }, { rcv: 0, recDep: 0, nonRecDep: 0, acv: 0, sublimitOverage: 0, coinsurancePenalty: 0, deductible: 0, netClaim: 0, overLimit: 0, priorPayments: 0 });
+    y = checkPageBreak(doc, 110, y);
+    y = renderCoverageSummaryBlock(doc, "Summary For All Coverages", totals, y);
+  }
+
+  y = checkPageBreak(doc, 80, y);
+  doc.font(FONTS.bold, 10).fill(COLORS.black);
+  doc.text("Understanding Your Property Estimate", MARGIN, y, { width: CONTENT_WIDTH, align: "center" });
+  y += 14;
+
+  doc.font(FONTS.bold, 7).fill(COLORS.medGray);
+  const uomY = y;
+  const uomCol = 100;
+  const units = [
+    ["HR", "Hour"], ["LF", "Linear Foot"], ["EA", "Each"], ["SQ", "Square"], ["SF", "Square Foot"],
+    ["SY", "Square Yard"], ["DA", "Day"], ["CY", "Cubic Yard"], ["CF", "Cubic Foot"], ["RM", "Room"],
+  ];
+  doc.font(FONTS.normal, 7).fill(COLORS.medGray);
+  doc.text("Unit of Measure", MARGIN, uomY, { width: CONTENT_WIDTH, align: "center" });
+  y += 11;
+  let ux = MARGIN + 20;
+  for (let i = 0; i < units.length; i++) {
+    if (i === 5) { y += 10; ux = MARGIN + 20; }
+    doc.font(FONTS.bold, 6.5).text(`${units[i][0]}`, ux, y, { continued: true });
+    doc.font(FONTS.normal, 6.5).text(` – ${units[i][1]}`, { continued: false });
+    ux += uomCol;
+  }
+
+  y += 16;
+  doc.font(FONTS.bold, 10).fill(COLORS.black);
+  doc.text("Estimate: Property Damage Repair", MARGIN, y, { width: CONTENT_WIDTH, align: "center" });
+}
+
+function renderCoverageSummaryBlock(
+  doc: Doc,
+  title: string,
+  totals: {
+    rcv: number; recDep: number; nonRecDep: number; acv: number; sublimitOverage: number; coinsurancePenalty: number;
+    deductible: number; netClaim: number; overLimit: number; priorPayments: number;
+  },
+  y: number
+): number {
   doc.font(FONTS.bold, 12).fill(COLORS.black);
-  doc.text("Summary For Coverage A - Dwelling", MARGIN, y, { width: CONTENT_WIDTH, align: "center" });
+  doc.text(title, MARGIN, y, { width: CONTENT_WIDTH, align: "center" });
   y += 20;
 
   const col1 = MARGIN;
@@ -358,57 +696,52 @@ function renderCoverageSummaryPage(doc: Doc, data: PDFReportData, re: RoomEstima
   drawHLine(doc, y);
   y += 5;
 
-  const rcv = re.grandTotal + re.grandTax;
-  const recDep = re.grandRecoverableDepreciation;
-  const nonRecDep = re.grandNonRecoverableDepreciation;
-  const acv = rcv - re.grandDepreciation;
-  const deductible = br?.coverageSnapshot?.deductible ?? data.estimate.deductible ?? 0;
-
   doc.font(FONTS.bold, 10).fill(COLORS.black);
-  doc.text(`$${fmt(rcv)}`, col1, y, { width: 130, align: "center" });
-  doc.text(fmtParen(recDep), col2, y, { width: 130, align: "center" });
-  doc.text(fmtAngle(nonRecDep), col3, y, { width: 110, align: "center" });
-  doc.text(`$${fmt(acv)}`, col4, y, { width: 130, align: "center" });
+  doc.text(`$${fmt(totals.rcv)}`, col1, y, { width: 130, align: "center" });
+  doc.text(fmtParen(totals.recDep), col2, y, { width: 130, align: "center" });
+  doc.text(fmtAngle(totals.nonRecDep), col3, y, { width: 110, align: "center" });
+  doc.text(`$${fmt(totals.acv)}`, col4, y, { width: 130, align: "center" });
   y += 16;
 
   doc.font(FONTS.normal, 9).fill(COLORS.black);
+  if (totals.sublimitOverage > 0) {
+    doc.text("Less Sublimit Overage", col1, y);
+    doc.text(fmtParen(totals.sublimitOverage), col4, y, { width: 130, align: "center" });
+    y += 13;
+  }
+  if (totals.coinsurancePenalty > 0) {
+    doc.text("Less Coinsurance Penalty", col1, y);
+    doc.text(fmtParen(totals.coinsurancePenalty), col4, y, { width: 130, align: "center" });
+    y += 13;
+  }
   doc.text("Less Deductible", col1, y);
-  doc.text(fmtParen(deductible), col4, y, { width: 130, align: "center" });
+  doc.text(fmtParen(totals.deductible), col4, y, { width: 130, align: "center" });
   y += 13;
 
+  if (totals.overLimit > 0) {
+    doc.text("Less Amount Over Limit", col1, y);
+    doc.text(fmtParen(totals.overLimit), col4, y, { width: 130, align: "center" });
+    y += 13;
+  }
+
   doc.font(FONTS.bold, 10).fill(COLORS.black);
   doc.text("Total ACV Settlement", col1, y);
-  const settlement = Math.max(0, acv - deductible);
-  doc.text(`$${fmt(settlement)}`, col4, y, { width: 130, align: "center" });
+  doc.text(`$${fmt(totals.netClaim)}`, col4, y, { width: 130, align: "center" });
   y += 18;
-  drawThickLine(doc, y);
-  y += 12;
 
-  doc.font(FONTS.bold, 10).fill(COLORS.black);
-  doc.text("Understanding Your Property Estimate", MARGIN, y, { width: CONTENT_WIDTH, align: "center" });
-  y += 14;
-
-  doc.font(FONTS.bold, 7).fill(COLORS.medGray);
-  const uomY = y;
-  const uomCol = 100;
-  const units = [
-    ["HR", "Hour"], ["LF", "Linear Foot"], ["EA", "Each"], ["SQ", "Square"], ["SF", "Square Foot"],
-    ["SY", "Square Yard"], ["DA", "Day"], ["CY", "Cubic Yard"], ["CF", "Cubic Foot"], ["RM", "Room"],
-  ];
-  doc.font(FONTS.normal, 7).fill(COLORS.medGray);
-  doc.text("Unit of Measure", MARGIN, uomY, { width: CONTENT_WIDTH, align: "center" });
-  y += 11;
-  let ux = MARGIN + 20;
-  for (let i = 0; i < units.length; i++) {
-    if (i === 5) { y += 10; ux = MARGIN + 20; }
-    doc.font(FONTS.bold, 6.5).text(`${units[i][0]}`, ux, y, { continued: true });
-    doc.font(FONTS.normal, 6.5).text(` – ${units[i][1]}`, { continued: false });
-    ux += uomCol;
+  if (totals.priorPayments > 0) {
+    doc.font(FONTS.normal, 9).fill(COLORS.black);
+    doc.text("Less Prior Payments", col1, y);
+    doc.text(fmtParen(totals.priorPayments), col4, y, { width: 130, align: "center" });
+    y += 13;
+    doc.font(FONTS.bold, 10);
+    doc.text("Net Claim", col1, y);
+    doc.text(`$${fmt(totals.netClaim - totals.priorPayments)}`, col4, y, { width: 130, align: "center" });
+    y += 18;
   }
-
-  y += 16;
-  doc.font(FONTS.bold, 10).fill(COLORS.black);
-  doc.text("Estimate: Property Damage Repair", MARGIN, y, { width: CONTENT_WIDTH, align: "center" });
+  drawThickLine(doc, y);
+  y += 12;
+  return y;
 }
 
 function renderClaimInfoPage(doc: Doc, data: PDFReportData, br?: BriefingData) {
@@ -457,6 +790,14 @@ function renderClaimInfoPage(doc: Doc, data: PDFReportData, br?: BriefingData) {
   doc.font(FONTS.bold, 9).text("Reference Company:", MARGIN, y);
   doc.font(FONTS.normal, 9).text(data.companyName || "N/A", MARGIN + 115, y);
   y += 11;
+  if (data.carrier) {
+    const carrierIds = [data.carrier.xactnetCarrierId || data.carrier.code, data.carrier.naicCode && `NAIC ${data.carrier.naicCode}`]
+      .filter(Boolean)
+      .join(" · ");
+    doc.font(FONTS.bold, 9).text("Insurance Carrier:", MARGIN, y);
+    doc.font(FONTS.normal, 9).text(`${data.carrier.name} (${carrierIds})`, MARGIN + 115, y);
+    y += 11;
+  }
 
   if (data.adjusterLicense) {
     doc.font(FONTS.bold, 9).text("Adjuster License #:", MARGIN, y);
@@ -492,6 +833,10 @@ function renderClaimInfoPage(doc: Doc, data: PDFReportData, br?: BriefingData) {
   const covC = extractLimit(br?.coverageSnapshot?.coverageC);
   const covD = extractLimit(br?.coverageSnapshot?.coverageD);
   const ded = Number(br?.coverageSnapshot?.deductible) || data.estimate.deductible || 0;
+  const deductibleFor = (coverageType: string, fallback: number) => {
+    const entry = data.estimate.coverageBreakdown?.find(c => normalizeCoverageKey(c.coverageType) === coverageType);
+    return entry ? Number(entry.deductible) || 0 : fallback;
+  };
 
   doc.rect(MARGIN, y, CONTENT_WIDTH, 12).fill(COLORS.headerBg);
   doc.font(FONTS.bold, 7).fill(COLORS.black);
@@ -501,11 +846,15 @@ function renderClaimInfoPage(doc: Doc, data: PDFReportData, br?: BriefingData) {
   y += 14;
 
   const coverageRows = [
-    ["Coverage A - Dwelling", ded, covA],
-    ["Coverage B - Other Structures Blanket", 0, covB],
-    ["Coverage C - Personal Property", 0, covC],
-    ["Coverage D - Loss Of Use", 0, covD],
+    ["Coverage A - Dwelling", deductibleFor("Coverage A", ded), covA],
+    ["Coverage B - Other Structures Blanket", deductibleFor("Coverage B", 0), covB],
+    ["Coverage C - Personal Property", deductibleFor("Coverage C", 0), covC],
+    ["Coverage D - Loss Of Use", deductibleFor("Coverage D", 0), covD],
   ];
+  const ordinanceLaw = data.estimate.coverageBreakdown?.find(c => normalizeCoverageKey(c.coverageType) === "Ordinance or Law");
+  if (ordinanceLaw) {
+    coverageRows.push(["Ordinance or Law", Number(ordinanceLaw.deductible) || 0, Number(ordinanceLaw.policyLimit) || 0]);
+  }
 
   for (const [name, d, limit] of coverageRows) {
     doc.font(FONTS.normal, 7.5).fill(COLORS.black);
@@ -562,12 +911,19 @@ function renderClaimInfoPage(doc: Doc, data: PDFReportData, br?: BriefingData) {
   y += 10;
 }
 
-function renderEstimateRecapPage(doc: Doc, data: PDFReportData, re: RoomEstimateData) {
+function renderEstimateRecapPage(doc: Doc, sections: CoverageSection[]) {
+  sections.forEach((section, idx) => {
+    if (idx > 0) newPage(doc);
+    renderEstimateRecapForCoverage(doc, section);
+  });
+}
+
+function renderEstimateRecapForCoverage(doc: Doc, section: CoverageSection) {
   let y = MARGIN;
   y = addCompanyHeader(doc, y);
 
   doc.font(FONTS.bold, 13).fill(COLORS.black);
-  doc.text("Estimate Recap For Coverage A - Dwelling", MARGIN, y, { width: CONTENT_WIDTH, align: "center", lineBreak: false });
+  doc.text(`Estimate Recap For ${section.label}`, MARGIN, y, { width: CONTENT_WIDTH, align: "center", lineBreak: false });
   y += 25;
 
   const descX = MARGIN;
@@ -588,7 +944,7 @@ function renderEstimateRecapPage(doc: Doc, data: PDFReportData, re: RoomEstimate
   y += 6;
 
   const structureGroups: Record<string, RoomEstimate[]> = {};
-  for (const room of re.rooms) {
+  for (const room of section.rooms) {
     const key = room.structure || "Dwelling";
     if (!structureGroups[key]) structureGroups[key] = [];
     structureGroups[key].push(room);
@@ -614,14 +970,12 @@ function renderEstimateRecapPage(doc: Doc, data: PDFReportData, re: RoomEstimate
   drawThickLine(doc, y);
   y += 8;
 
-  const totalRCV = re.grandTotal + re.grandTax;
-  const totalACV = totalRCV - re.grandDepreciation;
   doc.font(FONTS.bold, 9).fill(COLORS.black);
   doc.text("Total", descX + 5, y, { width: 240, lineBreak: false });
-  doc.text(fmt(totalRCV), rcvX, y, { width: 65, align: "right", lineBreak: false });
-  doc.text(fmt(re.grandRecoverableDepreciation), recDepX, y, { width: 65, align: "right", lineBreak: false });
-  doc.text(fmt(re.grandNonRecoverableDepreciation), nonRecDepX, y, { width: 70, align: "right", lineBreak: false });
-  doc.text(fmt(totalACV), acvX, y, { width: 65, align: "right", lineBreak: false });
+  doc.text(fmt(section.rcv), rcvX, y, { width: 65, align: "right", lineBreak: false });
+  doc.text(fmt(section.recoverableDepreciation), recDepX, y, { width: 65, align: "right", lineBreak: false });
+  doc.text(fmt(section.nonRecoverableDepreciation), nonRecDepX, y, { width: 70, align: "right", lineBreak: false });
+  doc.text(fmt(section.acv), acvX, y, { width: 65, align: "right", lineBreak: false });
 }
 
 function renderRoomDimensionsBlock(doc: Doc, y: number, room: RoomEstimate): number {
@@ -862,6 +1216,103 @@ function drawLineItem(doc: Doc, y: number, item: RoomEstimateItem): number {
   return y;
 }
 
+const CONTENTS_COL = {
+  descX: MARGIN,
+  descW: 150,
+  catX: 195,
+  catW: 55,
+  qtyX: 252,
+  qtyW: 28,
+  priceX: 282,
+  priceW: 50,
+  taxX: 334,
+  taxW: 38,
+  ageX: 374,
+  ageW: 45,
+  depPctX: 421,
+  depPctW: 30,
+  deprecX: 453,
+  deprecW: 50,
+  acvX: PAGE_WIDTH - MARGIN - 50,
+  acvW: 50,
+};
+
+function drawContentsHeader(doc: Doc, y: number): number {
+  const c = CONTENTS_COL;
+  doc.rect(MARGIN, y, CONTENT_WIDTH, 14).fill(COLORS.headerBg);
+  doc.font(FONTS.bold, 6.5).fill(COLORS.black);
+  doc.text("DESCRIPTION", c.descX + 5, y + 4, { width: c.descW, lineBreak: false });
+  doc.text("CATEGORY", c.catX, y + 4, { width: c.catW, lineBreak: false });
+  doc.text("QTY", c.qtyX, y + 4, { width: c.qtyW, align: "right", lineBreak: false });
+  doc.text("REPL. PRICE", c.priceX, y + 4, { width: c.priceW, align: "right", lineBreak: false });
+  doc.text("TAX", c.taxX, y + 4, { width: c.taxW, align: "right", lineBreak: false });
+  doc.text("AGE/LIFE", c.ageX, y + 4, { width: c.ageW, align: "right", lineBreak: false });
+  doc.text("DEP %", c.depPctX, y + 4, { width: c.depPctW, align: "right", lineBreak: false });
+  doc.text("DEPREC.", c.deprecX, y + 4, { width: c.deprecW, align: "right", lineBreak: false });
+  doc.text("ACV", c.acvX, y + 4, { width: c.acvW, align: "right", lineBreak: false });
+  return y + 16;
+}
+
+/**
+ * Coverage C schedule of the insured's contents inventory. Printed as its
+ * own section rather than inside the room line item pages.
+ */
+function renderContentsInventoryPages(doc: Doc, contents: ContentsReport) {
+  const c = CONTENTS_COL;
+  newPage(doc);
+  let y = MARGIN;
+  y = addCompanyHeader(doc, y);
+
+  doc.font(FONTS.bold, 13).fill(COLORS.black);
+  doc.text(`Contents Inventory - ${coverageLabel("Coverage C")}`, MARGIN, y, { width: CONTENT_WIDTH, align: "center", lineBreak: false });
+  y += 22;
+  y = drawContentsHeader(doc, y);
+
+  for (const item of contents.items) {
+    y = checkPageBreak(doc, 26, y);
+    if (y === MARGIN) {
+      y = addCompanyHeader(doc, y);
+      doc.font(FONTS.bold, 10).fill(COLORS.black);
+      doc.text("CONTINUED - Contents Inventory", MARGIN, y, { width: CONTENT_WIDTH, align: "center", lineBreak: false });
+      y += 14;
+      y = drawContentsHeader(doc, y);
+    }
+
+    doc.font(FONTS.normal, 8).fill(COLORS.black);
+    doc.text(`${item.lineNumber}. ${item.description}`, c.descX + 5, y, { width: c.descW - 5, lineBreak: false, ellipsis: true });
+    doc.text(item.category, c.catX, y, { width: c.catW, lineBreak: false, ellipsis: true });
+    doc.text(String(item.quantity), c.qtyX, y, { width: c.qtyW, align: "right", lineBreak: false });
+    doc.text(fmt(item.unitPrice), c.priceX, y, { width: c.priceW, align: "right", lineBreak: false });
+    doc.text(fmt(item.taxAmount), c.taxX, y, { width: c.taxW, align: "right", lineBreak: false });
+    doc.text(fmtAgeLife(item.age, item.lifeExpectancy), c.ageX, y, { width: c.ageW, align: "right", lineBreak: false });
+    doc.text(fmtDepPercent(item.depreciationPercentage, item.depreciationType), c.depPctX, y, { width: c.depPctW, align: "right", lineBreak: false });
+    doc.text(fmtDeprecAmount(item.depreciationAmount, item.depreciationType), c.deprecX, y, { width: c.deprecW, align: "right", lineBreak: false });
+    doc.text(fmt(item.acv), c.acvX, y, { width: c.acvW, align: "right", lineBreak: false });
+    y += 11;
+
+    const details = [
+      item.roomName,
+      item.condition ? `Condition: ${item.condition}` : "",
+      item.originalCost != null ? `Paid: ${fmt(item.originalCost)}` : "",
+      item.replacementSource ? `Source: ${item.replacementSource}` : "",
+    ].filter(Boolean).join("  |  ");
+    doc.font(FONTS.normal, 7).fill(COLORS.medGray);
+    doc.text(details, c.descX + 15, y, { width: CONTENT_WIDTH - 20, lineBreak: false, ellipsis: true });
+    y += 12;
+  }
+
+  y = checkPageBreak(doc, 24, y);
+  y += 3;
+  drawThickLine(doc, y);
+  y += 6;
+  doc.font(FONTS.bold, 8).fill(COLORS.black);
+  doc.text("Contents Totals:", c.descX + 5, y, { width: c.descW, lineBreak: false });
+  doc.text(fmt(contents.subtotal), c.priceX, y, { width: c.priceW, align: "right", lineBreak: false });
+  doc.text(fmt(contents.totalTax), c.taxX, y, { width: c.taxW, align: "right", lineBreak: false });
+  doc.text(fmt(contents.totalDepreciation), c.deprecX, y, { width: c.deprecW, align: "right", lineBreak: false });
+  doc.text(fmt(contents.totalACV), c.acvX, y, { width: c.acvW, align: "right", lineBreak: false });
+}
+
 function renderGrandTotalAreasInline(doc: Doc, re: RoomEstimateData, startY: number): number {
   let totalSFWalls = 0, totalSFCeiling = 0, totalSFFloor = 0;
   let totalSYFlooring = 0, totalLFFloorPerim = 0, totalLFCeilPerim = 0;
@@ -984,7 +1435,7 @@ function renderCoverageRecapPage(doc: Doc, data: PDFReportData, re: RoomEstimate
       const covRcvPct = totalCovRCV > 0 ? ((cov.totalRCV || 0) / totalCovRCV) * 100 : 0;
       const covAcvPct = totalCovACV > 0 ? ((cov.totalACV || 0) / totalCovACV) * 100 : 0;
       doc.font(FONTS.normal, 9).fill(COLORS.black);
-      doc.text(cov.coverageType || "Dwelling", covLabelX + 5, y, { width: covLabelW, lineBreak: false });
+      doc.text(coverageLabel(normalizeCoverageKey(cov.coverageType)), covLabelX + 5, y, { width: covLabelW, lineBreak: false });
       doc.text(fmt(cov.totalRCV || 0), itemTotalX, y, { width: itemTotalW, align: "right", lineBreak: false });
       doc.text(`${covRcvPct.toFixed(2)}%`, pct1X, y, { width: pct1W, align: "right", lineBreak: false });
       doc.text(fmt(cov.totalACV || 0), acvTotalX, y, { width: acvTotalW, align: "right", lineBreak: false });
@@ -1021,32 +1472,40 @@ function renderCoverageRecapPage(doc: Doc, data: PDFReportData, re: RoomEstimate
   doc.text("100.00%", pct2X, y, { width: pct2W, align: "right", lineBreak: false });
 }
 
-function renderSettlementSummaryPage(doc: Doc, data: PDFReportData, re: RoomEstimateData) {
+function renderSettlementSummaryPage(doc: Doc, data: PDFReportData, re: RoomEstimateData, sections: CoverageSection[]) {
+  const overheadAmt = Number((data.estimate as any).overheadAmount) || 0;
+  const profitAmt = Number((data.estimate as any).profitAmount) || 0;
+
+  for (const section of sections) {
+    // O&P is reported as an estimate-level total, so each coverage carries
+    // its share in proportion to its line item total.
+    const share = re.grandTotal > 0 ? section.opEligibleTotal / re.grandTotal : (sections.length === 1 ? 1 : 0);
+    renderCoverageSettlement(doc, section, overheadAmt * share, profitAmt * share);
+  }
+}
+
+function renderCoverageSettlement(doc: Doc, section: CoverageSection, overheadAmt: number, profitAmt: number) {
   newPage(doc);
   let y = MARGIN;
   y = addCompanyHeader(doc, y);
-  const br = data.briefing;
 
   doc.font(FONTS.bold, 13).fill(COLORS.black);
-  doc.text("Summary for Dwelling", MARGIN, y, { width: CONTENT_WIDTH, align: "center", lineBreak: false });
+  doc.text(`Summary for ${section.name}`, MARGIN, y, { width: CONTENT_WIDTH, align: "center", lineBreak: false });
   y += 25;
 
   const labelX = MARGIN + 30;
   const valX = PAGE_WIDTH - MARGIN - 100;
   const valW = 100;
 
-  const lineItemTotal = re.grandTotal;
-  const materialTax = re.grandTax;
-  const overheadAmt = Number((data.estimate as any).overheadAmount) || 0;
-  const profitAmt = Number((data.estimate as any).profitAmount) || 0;
+  const lineItemTotal = section.lineItemTotal;
+  const materialTax = section.tax;
   const subtotal = lineItemTotal + materialTax;
   const rcv = subtotal + overheadAmt + profitAmt;
-  const totalDep = re.grandDepreciation;
-  const acv = rcv - totalDep;
-  const deductible = br?.coverageSnapshot?.deductible ?? data.estimate.deductible ?? 0;
-  const netClaim = Math.max(0, acv - deductible);
-  const nonRecDep = re.grandNonRecoverableDepreciation;
-  const recDep = re.grandRecoverableDepreciation;
+  const totalDep = section.depreciation;
+  const acv = rcv - totalDep - section.paidWhenIncurred;
+  const deductible = section.deductible;
+  const { netClaim, overLimit } = settleCoverage(acv, section);
+  const recDep = section.recoverableDepreciation;
 
   doc.font(FONTS.normal, 10).fill(COLORS.black);
   doc.text("Line Item Total", labelX, y, { lineBreak: false });
@@ -1089,7 +1548,14 @@ function renderSettlementSummaryPage(doc: Doc, data: PDFReportData, re: RoomEsti
   doc.font(FONTS.normal, 10);
   doc.text("Less Depreciation", labelX, y, { lineBreak: false });
   doc.text(fmtParen(totalDep), valX, y, { width: valW, align: "right", lineBreak: false });
-  y += 18;
+  y += 16;
+
+  if (section.paidWhenIncurred > 0) {
+    doc.text("Less Paid When Incurred", labelX, y, { lineBreak: false });
+    doc.text(fmtParen(section.paidWhenIncurred), valX, y, { width: valW, align: "right", lineBreak: false });
+    y += 16;
+  }
+  y += 2;
   drawHLine(doc, y, labelX, valX + valW);
   y += 8;
 
@@ -1098,17 +1564,62 @@ function renderSettlementSummaryPage(doc: Doc, data: PDFReportData, re: RoomEsti
   doc.text(`$${fmt(acv)}`, valX, y, { width: valW, align: "right", lineBreak: false });
   y += 16;
 
+  const claimedSublimits = section.sublimits.filter(s => s.claimed > 0);
+  if (claimedSublimits.length > 0) {
+    doc.font(FONTS.normal, 8.5).fill(COLORS.medGray);
+    for (const sub of claimedSublimits) {
+      const kind = sub.additional ? "additional coverage" : "sublimit";
+      doc.text(
+        `${sub.label} (${kind}): claimed ${fmt(sub.claimed)}, cap ${fmt(sub.cap)}, over ${fmt(sub.overage)}`,
+        labelX + 10, y, { lineBreak: false },
+      );
+      y += 13;
+    }
+    doc.fill(COLORS.black);
+  }
+
   doc.font(FONTS.normal, 10);
+  if (section.sublimitOverage > 0) {
+    doc.text("Less Sublimit Overage", labelX, y, { lineBreak: false });
+    doc.text(fmtParen(section.sublimitOverage), valX, y, { width: valW, align: "right", lineBreak: false });
+    y += 16;
+  }
+  if (section.coinsurancePenalty > 0) {
+    const coins = section.coinsurance;
+    const terms = coins ? ` (${coins.pct}% required, ${(coins.ratio * 100).toFixed(1)}% carried)` : "";
+    doc.text(`Less Coinsurance Penalty${terms}`, labelX, y, { lineBreak: false });
+    doc.text(fmtParen(section.coinsurancePenalty), valX, y, { width: valW, align: "right", lineBreak: false });
+    y += 16;
+  }
   doc.text("Less Deductible", labelX, y, { lineBreak: false });
   doc.text(fmtParen(deductible), valX, y, { width: valW, align: "right", lineBreak: false });
-  y += 18;
+  y += 16;
+
+  if (overLimit > 0) {
+    doc.text("Less Amount Over Limit", labelX, y, { lineBreak: false });
+    doc.text(fmtParen(overLimit), valX, y, { width: valW, align: "right", lineBreak: false });
+    y += 16;
+  }
+  y += 2;
   drawHLine(doc, y, labelX, valX + valW);
   y += 8;
 
   doc.font(FONTS.bold, 11);
   doc.text("Net Claim", labelX, y, { lineBreak: false });
   doc.text(`$${fmt(netClaim)}`, valX, y, { width: valW, align: "right", lineBreak: false });
-  y += 25;
+  y += 18;
+
+  if (section.priorPayments > 0) {
+    doc.font(FONTS.normal, 10);
+    doc.text("Less Prior Payments", labelX, y, { lineBreak: false });
+    doc.text(fmtParen(section.priorPayments), valX, y, { width: valW, align: "right", lineBreak: false });
+    y += 18;
+    doc.font(FONTS.bold, 11);
+    doc.text("Net Claim After Prior Payments", labelX, y, { lineBreak: false });
+    doc.text(`$${fmt(netClaim - section.priorPayments)}`, valX, y, { width: valW, align: "right", lineBreak: false });
+    y += 18;
+  }
+  y += 7;
 
   drawThickLine(doc, y);
   y += 14;
@@ -1128,13 +1639,156 @@ function renderSettlementSummaryPage(doc: Doc, data: PDFReportData, re: RoomEsti
   doc.text(fmt(recDep), valX, y, { width: valW, align: "right", lineBreak: false });
   y += 18;
 
+  if (section.rdPaidToDate > 0) {
+    doc.font(FONTS.normal, 10);
+    doc.text("RD Paid To Date", labelX, y, { lineBreak: false });
+    doc.text(fmtParen(section.rdPaidToDate), valX, y, { width: valW, align: "right", lineBreak: false });
+    y += 16;
+    doc.text("Remaining Recoverable Depreciation", labelX, y, { lineBreak: false });
+    doc.text(fmt(Math.max(0, recDep - section.rdPaidToDate)), valX, y, { width: valW, align: "right", lineBreak: false });
+    y += 18;
+  }
+
   doc.font(FONTS.normal, 10);
-  const netIfRecovered = netClaim + recDep;
+  const netIfRecovered = section.policyLimit != null
+    ? Math.min(netClaim + recDep, section.policyLimit + section.additionalAllowed)
+    : netClaim + recDep;
   doc.text("Net Claim if Depreciation is Recovered", labelX, y, { lineBreak: false });
   doc.font(FONTS.bold, 10);
   doc.text(`$${fmt(netIfRecovered)}`, valX, y, { width: valW, align: "right", lineBreak: false });
 }
 
+function renderGrandTotalSettlementPage(doc: Doc, data: PDFReportData, re: RoomEstimateData, sections: CoverageSection[]) {
+  newPage(doc);
+  let y = MARGIN;
+  y = addCompanyHeader(doc, y);
+
+  doc.font(FONTS.bold, 13).fill(COLORS.black);
+  doc.text("Summary for All Coverages", MARGIN, y, { width: CONTENT_WIDTH, align: "center", lineBreak: false });
+  y += 25;
+
+  const overheadAmt = Number((data.estimate as any).overheadAmount) || 0;
+  const profitAmt = Number((data.estimate as any).profitAmount) || 0;
+
+  const covX = MARGIN;
+  const covW = 150;
+  const cols = [
+    { label: "RCV", x: 190, w: 70 },
+    { label: "Depreciation", x: 262, w: 68 },
+    { label: "ACV", x: 332, w: 68 },
+    { label: "Deductible", x: 402, w: 62 },
+    { label: "Net Claim", x: 466, w: 66 },
+  ];
+
+  doc.rect(MARGIN, y, CONTENT_WIDTH, 16).fill(COLORS.headerBg);
+  doc.font(FONTS.bold, 8).fill(COLORS.black);
+  doc.text("Coverage", covX + 5, y + 4, { width: covW, lineBreak: false });
+  for (const col of cols) {
+    doc.text(col.label, col.x, y + 4, { width: col.w, align: "right", lineBreak: false });
+  }
+  y += 20;
+
+  const totals = { rcv: 0, dep: 0, acv: 0, sublimitOverage: 0, coinsurancePenalty: 0, deductible: 0, overLimit: 0, netClaim: 0, priorPayments: 0, recDep: 0, rdPaid: 0, netIfRecovered: 0 };
+
+  for (const section of sections) {
+    const share = re.grandTotal > 0 ? section.opEligibleTotal / re.grandTotal : 0;
+    const rcv = section.rcv + (overheadAmt + profitAmt) * share;
+    const acv = rcv - section.depreciation - section.paidWhenIncurred;
+    const { netClaim, overLimit } = settleCoverage(acv, section);
+
+    y = checkPageBreak(doc, 16, y);
+    doc.font(FONTS.normal, 9).fill(COLORS.black);
+    doc.text(section.label, covX + 5, y, { width: covW, lineBreak: false });
+    const values = [rcv, section.depreciation, acv, section.deductible, netClaim];
+    values.forEach((v, i) => {
+      doc.text(fmt(v), cols[i].x, y, { width: cols[i].w, align: "right", lineBreak: false });
+    });
+    y += 16;
+
+    totals.rcv += rcv;
+    totals.dep += section.depreciation;
+    totals.acv += acv;
+    totals.sublimitOverage += section.sublimitOverage;
+    totals.coinsurancePenalty += section.coinsurancePenalty;
+    totals.deductible += section.deductible;
+    totals.overLimit += overLimit;
+    totals.netClaim += netClaim;
+    totals.priorPayments += section.priorPayments;
+    totals.recDep += section.recoverableDepreciation;
+    totals.rdPaid += section.rdPaidToDate;
+    totals.netIfRecovered += section.policyLimit != null
+      ? Math.min(netClaim + section.recoverableDepreciation, section.policyLimit + section.additionalAllowed)
+      : netClaim + section.recoverableDepreciation;
+  }
+
+  drawThickLine(doc, y);
+  y += 8;
+  doc.font(FONTS.bold, 9).fill(COLORS.black);
+  doc.text("Total", covX + 5, y, { width: covW, lineBreak: false });
+  [totals.rcv, totals.dep, totals.acv, totals.deductible, totals.netClaim].forEach((v, i) => {
+    doc.text(fmt(v), cols[i].x, y, { width: cols[i].w, align: "right", lineBreak: false });
+  });
+  y += 30;
+
+  const labelX = MARGIN + 30;
+  const valX = PAGE_WIDTH - MARGIN - 100;
+  const valW = 100;
+
+  if (totals.sublimitOverage > 0) {
+    doc.font(FONTS.normal, 10);
+    doc.text("Total Sublimit Overage", labelX, y, { lineBreak: false });
+    doc.text(fmtParen(totals.sublimitOverage), valX, y, { width: valW, align: "right", lineBreak: false });
+    y += 16;
+  }
+
+  if (totals.coinsurancePenalty > 0) {
+    doc.font(FONTS.normal, 10);
+    doc.text("Total Coinsurance Penalty", labelX, y, { lineBreak: false });
+    doc.text(fmtParen(totals.coinsurancePenalty), valX, y, { width: valW, align: "right", lineBreak: false });
+    y += 16;
+  }
+
+  if (totals.overLimit > 0) {
+    doc.font(FONTS.normal, 10);
+    doc.text("Total Amount Over Limit(s)", labelX, y, { lineBreak: false });
+    doc.text(fmtParen(totals.overLimit), valX, y, { width: valW, align: "right", lineBreak: false });
+    y += 16;
+  }
+
+  doc.font(FONTS.bold, 11);
+  doc.text("Total Net Claim", labelX, y, { lineBreak: false });
+  doc.text(`$${fmt(totals.netClaim)}`, valX, y, { width: valW, align: "right", lineBreak: false });
+  y += 18;
+
+  if (totals.priorPayments > 0) {
+    doc.font(FONTS.normal, 10);
+    doc.text("Less Prior Payments", labelX, y, { lineBreak: false });
+    doc.text(fmtParen(totals.priorPayments), valX, y, { width: valW, align: "right", lineBreak: false });
+    y += 16;
+    doc.font(FONTS.bold, 11);
+    doc.text("Net Claim After Prior Payments", labelX, y, { lineBreak: false });
+    doc.text(`$${fmt(totals.netClaim - totals.priorPayments)}`, valX, y, { width: valW, align: "right", lineBreak: false });
+    y += 18;
+  }
+
+  doc.font(FONTS.normal, 10);
+  doc.text("Total Recoverable Depreciation", labelX, y, { lineBreak: false });
+  doc.text(fmt(totals.recDep), valX, y, { width: valW, align: "right", lineBreak: false });
+  y += 18;
+
+  if (totals.rdPaid > 0) {
+    doc.text("Total RD Paid To Date", labelX, y, { lineBreak: false });
+    doc.text(fmtParen(totals.rdPaid), valX, y, { width: valW, align: "right", lineBreak: false });
+    y += 18;
+  }
+  drawHLine(doc, y, labelX, valX + valW);
+  y += 8;
+
+  doc.text("Net Claim if Depreciation is Recovered", labelX, y, { lineBreak: false });
+  doc.font(FONTS.bold, 10);
+  doc.text(`$${fmt(totals.netIfRecovered)}`, valX, y, { width: valW, align: "right", lineBreak: false });
+}
+
 function renderRecapOfTaxes(doc: Doc, data: PDFReportData, re: RoomEstimateData) {
   newPage(doc);
   let y = MARGIN;
@@ -1317,7 +1971,7 @@ function renderRecapByRoom(doc: Doc, data: PDFReportData, re: RoomEstimateData)
   doc.text(fmt(totalACV), acvX, y, { width: acvW, align: "right", lineBreak: false });
 }
 
-function renderRecapByCategory(doc: Doc, data: PDFReportData, re: RoomEstimateData) {
+function renderRecapByCategory(doc: Doc, data: PDFReportData, re: RoomEstimateData, sections: CoverageSection[]) {
   newPage(doc);
   let y = MARGIN;
   y = addCompanyHeader(doc, y);
@@ -1350,10 +2004,36 @@ function renderRecapByCategory(doc: Doc, data: PDFReportData, re: RoomEstimateDa
   drawHLine(doc, y);
   y += 6;
 
+  const categoryCoverage = new Map<string, Map<string, number>>();
+  for (const section of sections) {
+    for (const room of section.rooms) {
+      for (const item of room.items) {
+        const cat = item.category || "General";
+        if (!categoryCoverage.has(cat)) categoryCoverage.set(cat, new Map());
+        const byCoverage = categoryCoverage.get(cat)!;
+        byCoverage.set(section.name, (byCoverage.get(section.name) || 0) + item.totalPrice + item.taxAmount);
+      }
+    }
+  }
+
+  const renderAllocation = (shares: Array<[string, number]>, total: number, indent: string) => {
+    for (const [name, amount] of shares) {
+      const pct = total > 0 ? (amount / total) * 100 : 100;
+      doc.font(FONTS.normal, 8).fill(COLORS.medGray);
+      doc.text(`${indent}Coverage: ${name}`, itemsLabelX, y, { lineBreak: false });
+      doc.text(`@`, itemsLabelX + 195, y, { lineBreak: false });
+      doc.text(`${pct.toFixed(2)}% =`, itemsLabelX + 215, y, { lineBreak: false });
+      doc.text(fmt(amount), rcvX, y, { width: rcvW, align: "right", lineBreak: false });
+      y += 12;
+    }
+  };
+
   let subtotalRCV = 0, subtotalDep = 0, subtotalACV = 0;
 
   for (const cat of recap) {
-    y = checkPageBreak(doc, 30, y);
+    const shares: Array<[string, number]> = Array.from(categoryCoverage.get(cat.category)?.entries() || []);
+    if (shares.length === 0) shares.push([sections[0]?.name || "Dwelling", cat.rcv]);
+    y = checkPageBreak(doc, 18 + shares.length * 12, y);
     doc.font(FONTS.bold, 9).fill(COLORS.black);
     doc.text(cat.category.toUpperCase(), itemsLabelX, y, { width: 290, lineBreak: false });
     doc.text(fmt(cat.rcv), rcvX, y, { width: rcvW, align: "right", lineBreak: false });
@@ -1361,12 +2041,7 @@ function renderRecapByCategory(doc: Doc, data: PDFReportData, re: RoomEstimateDa
     doc.text(fmt(cat.acv), acvX, y, { width: acvW, align: "right", lineBreak: false });
     y += 14;
 
-    doc.font(FONTS.normal, 8).fill(COLORS.medGray);
-    doc.text(`   Coverage: Dwelling`, itemsLabelX, y, { lineBreak: false });
-    doc.text(`@`, itemsLabelX + 195, y, { lineBreak: false });
-    doc.text(`100.00% =`, itemsLabelX + 215, y, { lineBreak: false });
-    doc.text(fmt(cat.rcv), rcvX, y, { width: rcvW, align: "right", lineBreak: false });
-    y += 12;
+    renderAllocation(shares, cat.rcv, "   ");
 
     subtotalRCV += cat.rcv;
     subtotalDep += cat.depreciation;
@@ -1390,12 +2065,11 @@ function renderRecapByCategory(doc: Doc, data: PDFReportData, re: RoomEstimateDa
   doc.text(fmt(re.grandTax), acvX, y, { width: acvW, align: "right", lineBreak: false });
   y += 13;
 
-  doc.font(FONTS.normal, 8).fill(COLORS.medGray);
-  doc.text(`    Coverage: Dwelling`, itemsLabelX, y, { lineBreak: false });
-  doc.text(`@`, itemsLabelX + 195, y, { lineBreak: false });
-  doc.text(`100.00% =`, itemsLabelX + 215, y, { lineBreak: false });
-  doc.text(fmt(re.grandTax), rcvX, y, { width: rcvW, align: "right", lineBreak: false });
-  y += 16;
+  const taxShares: Array<[string, number]> = sections.length > 1
+    ? sections.filter(sec => sec.tax > 0).map(sec => [sec.name, sec.tax])
+    : [[sections[0]?.name || "Dwelling", re.grandTax]];
+  renderAllocation(taxShares, re.grandTax, "    ");
+  y += 4;
 
   drawThickLine(doc, y);
   y += 8;
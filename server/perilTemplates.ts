@@ -6,6 +6,10 @@
  * starting point.
  */
 
+import type { IStorage } from "./storage";
+import type { Claim, InspectionRoom, ScopeItem } from "@shared/schema";
+import { deriveQuantity, type QuantityFormula } from "./scopeQuantityEngine";
+
 export interface PerilTemplate {
   perilType: string;
   name: string;
@@ -253,3 +257,83 @@ export function getMatchingTemplates(perilType: string, roomType: string): Peril
     });
   });
 }
+
+export interface AppliedTemplateItem extends ScopeItem {
+  perilNotes?: string;
+  needsManualQuantity: boolean;
+}
+
+export interface PerilTemplateOutcome {
+  templateName: string;
+  appliedItems: AppliedTemplateItem[];
+  /** Items the template only suggests; returned when includeAutoOnly is set */
+  suggestedItems: Array<{ catalogCode: string; perilNotes?: string }>;
+}
+
+/**
+ * Applies the named template (or the first that matches the claim's peril
+ * and the room's type) to the room as scope items, with quantities derived
+ * from the room's geometry. Returns the names of the matching templates
+ * instead when none applies.
+ */
+export async function applyPerilTemplate(
+  storage: IStorage,
+  claim: Claim,
+  room: InspectionRoom,
+  options: { templateName?: string; includeAutoOnly?: boolean; defaultWasteFactor?: number | null }
+): Promise<PerilTemplateOutcome | { availableTemplates: string[] }> {
+  const { templateName, includeAutoOnly = true, defaultWasteFactor = null } = options;
+  const perilType = (claim.perilType || "water").toLowerCase().replace(/_/g, " ").split(" ")[0] || "water";
+  const roomType = room.roomType || "interior_bedroom";
+
+  const templates = getMatchingTemplates(perilType, roomType);
+  const annotations = room.viewType === "roof_plan" ? await storage.getSketchAnnotations(room.id) : [];
+  const template = templateName ? templates.find((t) => t.name === templateName) : templates[0];
+  if (!template) return { availableTemplates: templates.map((t) => t.name) };
+
+  const appliedItems: AppliedTemplateItem[] = [];
+  const suggestedItems: PerilTemplateOutcome["suggestedItems"] = [];
+  for (const templateItem of template.items) {
+    if (includeAutoOnly && !templateItem.autoInclude) {
+      suggestedItems.push({ catalogCode: templateItem.catalogCode, perilNotes: templateItem.perilNotes });
+      continue;
+    }
+
+    const catalogItem = await storage.getScopeLineItemByCode(templateItem.catalogCode);
+    if (!catalogItem) continue;
+
+    const formula = (catalogItem.quantityFormula || "MANUAL") as QuantityFormula;
+    const qResult = formula !== "MANUAL" ? deriveQuantity(room, formula, 0, annotations) : null;
+    const quantity = (qResult?.quantity ?? 1) * (templateItem.quantityMultiplier || 1);
+
+    if (quantity <= 0) continue;
+
+    const scopeItem = await storage.createScopeItem({
+      sessionId: room.sessionId,
+      roomId: room.id,
+      damageId: null,
+      catalogCode: templateItem.catalogCode,
+      description: catalogItem.description,
+      tradeCode: catalogItem.tradeCode,
+      quantity,
+      unit: catalogItem.unit,
+      quantityFormula: catalogItem.quantityFormula,
+      provenance: "template",
+      dimensionProvenance: qResult?.dimensionProvenance ?? null,
+      coverageType: (catalogItem.coverageType as string) || "A",
+      activityType: (catalogItem.activityType as string) || "replace",
+      wasteFactor: catalogItem.defaultWasteFactor ?? defaultWasteFactor,
+      status: "active",
+      parentScopeItemId: null,
+    });
+
+    appliedItems.push({
+      ...scopeItem,
+      perilNotes: templateItem.perilNotes,
+      needsManualQuantity: !qResult || qResult.quantity === 0,
+    });
+  }
+
+  await storage.recalculateScopeSummary(room.sessionId);
+  return { templateName: template.name, appliedItems, suggestedItems };
+}
@@ -6,6 +6,7 @@
  */
 
 import type { IStorage } from "./storage";
+import type { InspectionSession } from "@shared/schema";
 
 export interface PhaseValidationResult {
   canProceed: boolean;
@@ -280,3 +281,28 @@ async function validatePhase7(storage: IStorage, sessionId: number): Promise<Pha
 
   return { canProceed: true, warnings, missingItems, completionScore: score };
 }
+
+/**
+ * Validates the session's current phase (or the given one) against the
+ * claim's peril, honouring the adjuster's photo verification setting.
+ */
+export async function validateSessionPhase(
+  storage: IStorage,
+  session: InspectionSession,
+  userId: string | undefined,
+  phase?: number
+): Promise<PhaseValidationResult & { currentPhase: number; nextPhase: number }> {
+  const claim = await storage.getClaim(session.claimId);
+  const userSettings = userId ? await storage.getUserSettings(userId) : null;
+  const requirePhotoVerification =
+    (userSettings as Record<string, unknown> | null)?.requirePhotoVerification !== false;
+  const currentPhase = phase ?? (session.currentPhase || 1);
+  const validation = await validatePhaseTransition(
+    storage,
+    session.id,
+    currentPhase,
+    claim?.perilType || undefined,
+    { requirePhotoVerification }
+  );
+  return { currentPhase, nextPhase: currentPhase + 1, ...validation };
+}
@@ -1,4 +1,5 @@
 import type { Briefing, Claim, InspectionFlow, InspectionStep } from "@shared/schema";
+import { describeCondition, describeLoop } from "./workflow/flowEngine";
 
 /**
  * Builds dynamic flow instructions from an InspectionFlow's steps array.
@@ -12,10 +13,14 @@ function buildFlowInstructions(flow: InspectionFlow): string {
 
   return steps.map((step, index) =>
     `Phase ${index + 1}: ${step.phaseName}\n` +
+    (step.condition ? `Only when: ${describeCondition(step.condition)}\n` : "") +
+    (step.loop ? `Repeat for: ${describeLoop(step.loop)}\n` : "") +
     `Goal: ${step.agentPrompt}\n` +
     `Required Tools: ${step.requiredTools.length > 0 ? step.requiredTools.join(", ") : "None specified"}\n` +
     `Completion Criteria: ${step.completionCriteria}`
-  ).join("\n\n");
+  ).join("\n\n") +
+    "\n\nWhen a step's completion criteria are met, call complete_flow_step. It returns the next applicable step — " +
+    "conditional steps are added or skipped based on what has been recorded, so follow the step it returns rather than the numbering above.";
 }
 
 /**
@@ -223,6 +228,8 @@ You maintain a mental model of the building sketch. These constraints are MANDAT
 
    ${flowSection}
 
+   **CORRECTIONS:** When the adjuster says "undo that", "scratch that" or "go back", call undo_last_action (with count for "undo the last three"). "Redo" or "put it back" calls redo. Read back the result's message so the adjuster knows what was reversed.
+
 2. **Ambiguity Resolution:** Only ask for specifics when the adjuster's statement is genuinely incomplete — i.e., you cannot determine the REQUIRED tool parameters. Examples of VAGUE (ask): "fix the fascia" (which room? what damage?). Examples of CLEAR (just act): "add a 3-foot window on the north wall of the kitchen" (call add_opening immediately). When in doubt, call the tool first with what you have, let the result guide the next question.
 
 ## Tool-Call Examples (Follow These Patterns Exactly)
@@ -588,7 +595,7 @@ Without a peril-specific protocol, follow exterior-to-interior progression:
     - GFCI outlets in kitchens/bathrooms — if existing outlets weren't GFCI, replacement with GFCI is a code upgrade.
     - Arc-fault breakers — if upgrading from standard breakers.
     - Hardwired smoke detectors — if upgrading from battery-only.
-    When you detect a code upgrade item, automatically set depreciationType to "Paid When Incurred" and inform the adjuster: "Ice & Water Barrier is a code upgrade — I'm marking it as Paid When Incurred. The insured won't receive payment for this until the work is completed and receipts are submitted."
+    When you detect a code upgrade item, call add_line_item with isCodeUpgrade: true. Catalog items flagged as code upgrades are routed automatically. Code upgrades are estimated under Ordinance or Law, with its own limit, as Paid When Incurred. Inform the adjuster: "Ice & Water Barrier is a code upgrade — I've put it under Ordinance or Law as Paid When Incurred. The insured won't receive payment for this until the work is completed and receipts are submitted."
     If uncertain whether an item is a code upgrade, ask: "Was [item] present on the original roof/system, or is this being added to meet current building code?"
 
 16. **Steep Charge by Roof Pitch:** When creating a roof slope room, always capture the pitch. Steep charges apply as follows:
@@ -1073,6 +1080,7 @@ export const realtimeTools = [
         lifeExpectancy: { type: "number", description: "Expected useful life in years (e.g., 30 for architectural shingles)." },
         coverageBucket: { type: "string", enum: ["Coverage A", "Coverage B", "Coverage C"] },
         coverage_bucket: { type: "string", enum: ["Dwelling", "Other_Structures", "Code_Upgrade", "Contents"] },
+        isCodeUpgrade: { type: "boolean", description: "True when the item is required only by current building code (Ordinance or Law). Catalog code upgrades are detected automatically." },
         quality_grade: { type: "string", description: "Material grade (e.g., 'MDF', 'Pine', 'Standard')." },
         apply_o_and_p: { type: "boolean", description: "Whether to apply 10% Overhead + 10% Profit markup." }
       },
@@ -1488,5 +1496,23 @@ export const realtimeTools = [
     name: "set_context",
     description: "Set workflow room/elevation/view context for subsequent tools.",
     parameters: { type: "object", properties: { sessionId: { type: "integer" }, roomId: { type: "integer" }, roomName: { type: "string" }, elevationId: { type: "integer" }, viewType: { type: "string" } }, required: [] }
+  },
+  {
+    type: "function",
+    name: "undo_last_action",
+    description: "Reverses the most recent inspection changes (rooms, openings, annotations, damages and their line items and scope, including auto-added companions). Use when the adjuster says 'undo', 'scratch that' or 'go back'.",
+    parameters: { type: "object", properties: { count: { type: "integer", description: "How many actions to undo, most recent first (default 1, max 20)" } }, required: [] }
+  },
+  {
+    type: "function",
+    name: "redo",
+    description: "Re-applies actions reversed by undo_last_action, most recently undone first. Not available once a new change has been made.",
+    parameters: { type: "object", properties: { count: { type: "integer", description: "How many actions to redo (default 1, max 20)" } }, required: [] }
+  },
+  {
+    type: "function",
+    name: "complete_flow_step",
+    description: "Marks the current inspection flow step complete and returns the next applicable step with its goal, tools and completion criteria. Steps that depend on water category, structures or test square results are chosen automatically.",
+    parameters: { type: "object", properties: {}, required: [] }
   }
 ];
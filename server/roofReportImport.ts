@@ -0,0 +1,522 @@
+import type { IStorage } from "./storage";
+import type { InspectionRoom, SketchAnnotation, Structure } from "@shared/schema";
+import { readXmlElements, type XmlElement } from "./xmlElementReader";
+import { MATCHING_PROVENANCE, applyMatching } from "./matching";
+import {
+  deriveQuantity,
+  ROOF_LINE_ANNOTATION,
+  ROOF_LINE_KINDS,
+  ROOF_LINE_LABELS,
+  type QuantityFormula,
+  type RoofLineKind,
+} from "./scopeQuantityEngine";
+
+// ── Roof Measurement Reports ──
+//
+// Reads third-party aerial roof reports (JSON or XML) into one shape and
+// turns them into roof_plan facets. Facet polygons stay in plan view, in
+// feet, so the sketch draws the roof as seen from above; sloped area comes
+// from the report, or from plan area and pitch. Ridge, hip, valley, eave and
+// rake lengths become roof_line annotations on the facets they bound, which
+// is where scopeQuantityEngine reads them.
+
+export interface RoofPoint {
+  x: number;
+  y: number;
+}
+
+export interface RoofReportFacet {
+  label: string;
+  /** Rise per 12 of run. */
+  pitch: number | null;
+  /** Sloped (true) area in SF as reported. */
+  areaSf: number | null;
+  /** Plan-view outline in feet; empty when the report has no geometry. */
+  points: RoofPoint[];
+}
+
+export interface RoofReportLine {
+  kind: RoofLineKind;
+  lengthFt: number;
+  /** Labels of the facets this line bounds; empty for roof-wide totals. */
+  facets: string[];
+}
+
+export interface RoofReport {
+  provider: string | null;
+  reportId: string | null;
+  facets: RoofReportFacet[];
+  lines: RoofReportLine[];
+  warnings: string[];
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value == null || value === "") return null;
+  const n = typeof value === "number" ? value : Number(String(value).replace(/[,\s]|sq\s*ft|sf|ft|'/gi, ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+/** "7/12", "7:12", "7 in 12" or a bare rise. */
+export function parsePitch(value: unknown): number | null {
+  if (value == null || value === "") return null;
+  const match = String(value).match(/^\s*(\d+(?:\.\d+)?)\s*(?:(?:\/|:|in)\s*12)?\s*$/i);
+  return match ? Number(match[1]) : null;
+}
+
+export function formatPitch(rise: number | null): string | null {
+  return rise == null ? null : `${round2(rise)}/12`;
+}
+
+const LINE_KIND_ALIASES: Record<string, RoofLineKind> = {
+  ridge: "ridge",
+  ridges: "ridge",
+  hip: "hip",
+  hips: "hip",
+  valley: "valley",
+  valleys: "valley",
+  eave: "eave",
+  eaves: "eave",
+  rake: "rake",
+  rakes: "rake",
+  gable: "rake",
+  flashing: "flashing",
+  wallflashing: "flashing",
+  stepflashing: "step_flashing",
+};
+
+export function roofLineKind(value: unknown): RoofLineKind | null {
+  return LINE_KIND_ALIASES[String(value ?? "").toLowerCase().replace(/[^a-z]/g, "")] ?? null;
+}
+
+function parsePoint(value: unknown): RoofPoint | null {
+  if (Array.isArray(value)) {
+    const [x, y] = value.map(toNumber);
+    return x != null && y != null ? { x, y } : null;
+  }
+  if (value && typeof value === "object") {
+    const x = toNumber((value as Record<string, unknown>).x);
+    const y = toNumber((value as Record<string, unknown>).y);
+    return x != null && y != null ? { x, y } : null;
+  }
+  return null;
+}
+
+/** "x,y x,y ..." or "x,y,z;x,y,z" point lists; z is dropped. */
+function parsePointList(value: string): RoofPoint[] {
+  return value
+    .split(/[\s;]+/)
+    .map((pair) => parsePoint(pair.split(",")))
+    .filter((p): p is RoofPoint => p !== null);
+}
+
+function facetLabels(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map((v) => String(v).trim()).filter(Boolean);
+  if (typeof value === "string") return value.split(/[,\s]+/).filter(Boolean);
+  return [];
+}
+
+function pick(obj: Record<string, unknown>, ...keys: string[]): unknown {
+  const lowered = new Map(Object.keys(obj).map((k) => [k.toLowerCase(), k]));
+  for (const key of keys) {
+    const actual = lowered.get(key.toLowerCase());
+    if (actual !== undefined && obj[actual] != null) return obj[actual];
+  }
+  return undefined;
+}
+
+/** Accepts the common JSON layouts: facets with points plus either a line list or roof-wide totals. */
+export function parseRoofReportJson(data: unknown): RoofReport {
+  if (!data || typeof data !== "object") throw new Error("Roof report JSON must be an object");
+  let root = data as Record<string, unknown>;
+  const nested = pick(root, "report", "roof", "roofReport");
+  if (nested && typeof nested === "object" && !Array.isArray(nested)) root = nested as Record<string, unknown>;
+
+  const report: RoofReport = {
+    provider: (pick(root, "provider", "vendor", "source") as string) ?? null,
+    reportId: pick(root, "reportId", "id", "orderId") != null ? String(pick(root, "reportId", "id", "orderId")) : null,
+    facets: [],
+    lines: [],
+    warnings: [],
+  };
+
+  const facets = pick(root, "facets", "faces", "roofFacets", "planes");
+  if (!Array.isArray(facets)) throw new Error("Roof report has no facets");
+  facets.forEach((raw, i) => {
+    const facet = (raw ?? {}) as Record<string, unknown>;
+    const points = pick(facet, "points", "polygon", "vertices");
+    report.facets.push({
+      label: String(pick(facet, "label", "facetLabel", "id", "name") ?? `F${i + 1}`),
+      pitch: parsePitch(pick(facet, "pitch", "slope")),
+      areaSf: toNumber(pick(facet, "area", "areaSf", "areaSqFt", "slopedArea")),
+      points: typeof points === "string"
+        ? parsePointList(points)
+        : Array.isArray(points) ? points.map(parsePoint).filter((p): p is RoofPoint => p !== null) : [],
+    });
+  });
+
+  const lines = pick(root, "lines", "edges");
+  if (Array.isArray(lines)) {
+    for (const raw of lines) {
+      const line = (raw ?? {}) as Record<string, unknown>;
+      addLine(report, pick(line, "type", "kind"), pick(line, "length", "lengthFt"), facetLabels(pick(line, "facets", "facetIds", "faces")));
+    }
+  }
+  const totals = pick(root, "measurements", "totals", "lengths");
+  if (totals && typeof totals === "object") {
+    for (const [key, value] of Object.entries(totals as Record<string, unknown>)) {
+      if (roofLineKind(key)) addLine(report, key, value, []);
+    }
+  }
+  return report;
+}
+
+function addLine(report: RoofReport, kindValue: unknown, lengthValue: unknown, facets: string[]): void {
+  const kind = roofLineKind(kindValue);
+  const lengthFt = toNumber(lengthValue);
+  if (!kind) {
+    report.warnings.push(`Skipped line of unknown type "${kindValue}"`);
+    return;
+  }
+  if (lengthFt == null || lengthFt < 0) {
+    report.warnings.push(`Skipped ${kind} line with invalid length "${lengthValue}"`);
+    return;
+  }
+  if (lengthFt > 0) report.lines.push({ kind, lengthFt, facets });
+}
+
+async function* single(buffer: Buffer): AsyncGenerator<Buffer> {
+  yield buffer;
+}
+
+const XML_FACET_NAMES = new Set(["facet", "face", "rooffacet", "plane"]);
+const XML_POINT_NAMES = new Set(["point", "vertex", "pt"]);
+const XML_LINE_NAMES = new Set(["line", "edge"]);
+const XML_REPORT_NAMES = new Set(["report", "roofreport", "roof"]);
+
+function attr(el: XmlElement, ...names: string[]): string | undefined {
+  return pick(el.attrs, ...names) as string | undefined;
+}
+
+/**
+ * XML reports: FACET/FACE elements with pitch and area attributes and either
+ * a points attribute or POINT children; LINE/EDGE elements with type, length
+ * and facets; roof-wide totals as RIDGE/VALLEY/... elements or as attributes
+ * of a MEASUREMENTS element.
+ */
+export async function parseRoofReportXml(buffer: Buffer): Promise<RoofReport> {
+  const report: RoofReport = { provider: null, reportId: null, facets: [], lines: [], warnings: [] };
+  // Elements close child-first, so points gather here until their facet closes
+  let pendingPoints: RoofPoint[] = [];
+
+  for await (const el of readXmlElements(single(buffer))) {
+    const name = el.name.replace(/^.*:/, "").toLowerCase().replace(/[^a-z]/g, "");
+    if (XML_POINT_NAMES.has(name)) {
+      const point = parsePoint({ x: attr(el, "x"), y: attr(el, "y") });
+      if (point) pendingPoints.push(point);
+    } else if (XML_FACET_NAMES.has(name)) {
+      const pointsAttr = attr(el, "points", "polygon");
+      report.facets.push({
+        label: attr(el, "label", "id", "name") ?? `F${report.facets.length + 1}`,
+        pitch: parsePitch(attr(el, "pitch", "slope")),
+        areaSf: toNumber(attr(el, "area", "areaSf", "slopedArea")),
+        points: pointsAttr ? parsePointList(pointsAttr) : pendingPoints,
+      });
+      pendingPoints = [];
+    } else if (XML_LINE_NAMES.has(name)) {
+      addLine(report, attr(el, "type", "kind"), attr(el, "length", "lengthFt"), facetLabels(attr(el, "facets", "faces")));
+    } else if (name === "measurements" || name === "totals") {
+      for (const [key, value] of Object.entries(el.attrs)) {
+        if (roofLineKind(key)) addLine(report, key, value, []);
+      }
+    } else if (roofLineKind(name) && (el.text || attr(el, "length"))) {
+      addLine(report, name, attr(el, "length") ?? el.text, []);
+    } else if (XML_REPORT_NAMES.has(name)) {
+      report.provider = attr(el, "provider", "vendor", "source") ?? report.provider;
+      report.reportId = attr(el, "reportId", "id", "orderId") ?? report.reportId;
+    }
+  }
+  if (report.facets.length === 0) throw new Error("Roof report has no facets");
+  return report;
+}
+
+export async function parseRoofReport(buffer: Buffer, fileName: string): Promise<RoofReport> {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".json")) {
+    let data: unknown;
+    try {
+      data = JSON.parse(buffer.toString("utf8"));
+    } catch {
+      throw new Error("Roof report is not valid JSON");
+    }
+    return parseRoofReportJson(data);
+  }
+  if (lower.endsWith(".xml")) return parseRoofReportXml(buffer);
+  throw new Error("Unsupported roof report type; upload a .json or .xml file");
+}
+
+// ── Facet planning ──
+
+/** Ratio of sloped to plan area for a pitch. */
+export function pitchFactor(rise: number | null): number {
+  return Math.sqrt(1 + ((rise ?? 0) / 12) ** 2);
+}
+
+export function polygonArea(points: RoofPoint[]): number {
+  let twice = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    twice += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(twice) / 2;
+}
+
+export interface RoofFacetPlan {
+  label: string;
+  pitch: string | null;
+  slopedAreaSf: number;
+  planAreaSf: number;
+  /** Polygon in the sketch's shape: points relative to the bounding box corner. */
+  polygon: {
+    points: RoofPoint[];
+    origin: RoofPoint;
+    boundingBox: { width: number; height: number };
+    shapeType: "custom";
+    openingEdges: number[];
+  };
+  /** Bounding box corner in report coordinates, so facets keep their layout. */
+  position: RoofPoint;
+  dimensions: {
+    length: number;
+    width: number;
+    height: number;
+    dimVars: { R: number; SQ: number };
+  };
+  lines: Partial<Record<RoofLineKind, number>>;
+}
+
+/**
+ * Facet polygons, areas and line shares. A line listing its facets is split
+ * evenly between them (a ridge shared by two slopes counts half on each);
+ * roof-wide totals are apportioned by sloped area. Facets without geometry
+ * get a square of the right plan area.
+ */
+export function planRoofFacets(report: RoofReport): { facets: RoofFacetPlan[]; warnings: string[] } {
+  const warnings = [...report.warnings];
+  const seen = new Set<string>();
+  const facets: RoofFacetPlan[] = report.facets.map((facet, i) => {
+    let label = facet.label.trim().slice(0, 10) || `F${i + 1}`;
+    if (seen.has(label)) label = `F${i + 1}`;
+    seen.add(label);
+
+    const factor = pitchFactor(facet.pitch);
+    let points = facet.points.length >= 3 ? facet.points : [];
+    let planArea = points.length ? polygonArea(points) : 0;
+    const slopedArea = facet.areaSf ?? planArea * factor;
+    if (!points.length) {
+      if (!facet.areaSf) warnings.push(`Facet ${label} has neither an outline nor an area`);
+      planArea = slopedArea / factor;
+      const side = Math.sqrt(planArea);
+      points = [{ x: 0, y: 0 }, { x: side, y: 0 }, { x: side, y: side }, { x: 0, y: side }];
+    }
+
+    const minX = Math.min(...points.map((p) => p.x));
+    const minY = Math.min(...points.map((p) => p.y));
+    const relative = points.map((p) => ({ x: round2(p.x - minX), y: round2(p.y - minY) }));
+    const width = round2(Math.max(...relative.map((p) => p.x)));
+    const height = round2(Math.max(...relative.map((p) => p.y)));
+
+    return {
+      label,
+      pitch: formatPitch(facet.pitch),
+      slopedAreaSf: round2(slopedArea),
+      planAreaSf: round2(planArea),
+      polygon: {
+        points: relative,
+        origin: { x: 0, y: 0 },
+        boundingBox: { width, height },
+        shapeType: "custom",
+        openingEdges: [],
+      },
+      position: { x: round2(minX), y: round2(minY) },
+      dimensions: {
+        length: width,
+        width: height,
+        height: 0,
+        dimVars: { R: round2(slopedArea), SQ: round2(slopedArea / 100) },
+      },
+      lines: {},
+    };
+  });
+
+  const byLabel = new Map(facets.map((f) => [f.label.toLowerCase(), f]));
+  const totalArea = facets.reduce((sum, f) => sum + f.slopedAreaSf, 0);
+  const add = (facet: RoofFacetPlan, kind: RoofLineKind, length: number) => {
+    facet.lines[kind] = round2((facet.lines[kind] ?? 0) + length);
+  };
+
+  for (const line of report.lines) {
+    const targets = line.facets.map((l) => byLabel.get(l.toLowerCase())).filter((f): f is RoofFacetPlan => !!f);
+    if (line.facets.length > 0 && targets.length === line.facets.length) {
+      targets.forEach((f) => add(f, line.kind, line.lengthFt / targets.length));
+      continue;
+    }
+    if (line.facets.length > 0) {
+      warnings.push(`${line.kind} line names unknown facets (${line.facets.join(", ")}); apportioned by area`);
+    }
+    if (totalArea > 0) {
+      facets.forEach((f) => add(f, line.kind, line.lengthFt * (f.slopedAreaSf / totalArea)));
+    }
+  }
+
+  return { facets, warnings };
+}
+
+// ── Import ──
+
+export interface RoofReportImportResult {
+  structure: Structure;
+  facets: InspectionRoom[];
+  annotations: SketchAnnotation[];
+  created: number;
+  updated: number;
+  requantifiedItems: number;
+  warnings: string[];
+}
+
+function annotationsFor(plan: RoofFacetPlan, roomId: number, source: string) {
+  return ROOF_LINE_KINDS
+    .filter((kind) => (plan.lines[kind] ?? 0) > 0)
+    .map((kind) => ({
+      roomId,
+      annotationType: ROOF_LINE_ANNOTATION,
+      label: ROOF_LINE_LABELS[kind],
+      value: String(plan.lines[kind]),
+      location: `${plan.label} · ${source}`.slice(0, 100),
+    }));
+}
+
+/**
+ * Creates (or, matched on facet label, updates) the structure's roof facets
+ * from a report, replaces their roof_line annotations, and re-derives the
+ * quantities of scope and line items already on those facets.
+ */
+export async function importRoofReport(
+  storage: IStorage,
+  sessionId: number,
+  report: RoofReport,
+  structureId?: number | null,
+): Promise<RoofReportImportResult> {
+  const { facets: plans, warnings } = planRoofFacets(report);
+
+  let structure = structureId ? await storage.getStructure(structureId) : undefined;
+  if (!structure) structure = await storage.getStructureByName(sessionId, "Main Dwelling");
+  if (!structure) {
+    structure = await storage.createStructure({ sessionId, name: "Main Dwelling", structureType: "dwelling" });
+  }
+
+  const existing = (await storage.getRoomsForStructure(structure.id))
+    .filter((r) => r.viewType === "roof_plan" && r.facetLabel);
+  const existingByLabel = new Map(existing.map((r) => [r.facetLabel!.toLowerCase(), r]));
+  const source = report.provider ? `${report.provider} report` : "Roof report";
+  const measured = { length: "measured", width: "measured", height: "measured" };
+
+  const facets: InspectionRoom[] = [];
+  const annotations: SketchAnnotation[] = [];
+  let created = 0;
+  let updated = 0;
+  let requantifiedItems = 0;
+
+  for (const plan of plans) {
+    const geometry = {
+      polygon: plan.polygon,
+      position: plan.position,
+      dimensions: plan.dimensions,
+      dimensionProvenance: measured,
+      pitch: plan.pitch,
+      shapeType: "custom",
+    };
+
+    const match = existingByLabel.get(plan.label.toLowerCase());
+    let room: InspectionRoom | undefined;
+    if (match) {
+      room = await storage.updateRoom(match.id, geometry);
+      for (const old of await storage.getSketchAnnotations(match.id)) {
+        if (old.annotationType === ROOF_LINE_ANNOTATION) await storage.deleteSketchAnnotation(old.id);
+      }
+      updated++;
+    }
+    if (!room) {
+      room = await storage.createRoom({
+        sessionId,
+        name: `Roof Facet ${plan.label}`,
+        roomType: "exterior_roof_slope",
+        structure: structure.name,
+        structureId: structure.id,
+        viewType: "roof_plan",
+        facetLabel: plan.label,
+        status: "in_progress",
+        ...geometry,
+      });
+      created++;
+    }
+    facets.push(room);
+
+    const roomAnnotations: SketchAnnotation[] = [];
+    for (const data of annotationsFor(plan, room.id, source)) {
+      roomAnnotations.push(await storage.createSketchAnnotation(data));
+    }
+    annotations.push(...roomAnnotations);
+    if (match) requantifiedItems += await requantifyFacetItems(storage, room, roomAnnotations);
+  }
+
+  // Matching quantities are measured against the new facet areas
+  if (requantifiedItems > 0) {
+    for (const assessment of await storage.getMatchingAssessments(sessionId)) {
+      if (assessment.appliedAt) await applyMatching(storage, sessionId, assessment);
+    }
+  }
+
+  return { structure, facets, annotations, created, updated, requantifiedItems, warnings };
+}
+
+/** Re-derives scope and line item quantities on a facet whose measurements changed. */
+async function requantifyFacetItems(
+  storage: IStorage,
+  room: InspectionRoom,
+  annotations: SketchAnnotation[],
+): Promise<number> {
+  let count = 0;
+  for (const si of await storage.getScopeItemsForRoom(room.id)) {
+    if (si.status !== "active" || !si.quantityFormula || si.quantityFormula === "EACH") continue;
+    if (si.provenance === MATCHING_PROVENANCE) continue;
+    const qResult = deriveQuantity(room, si.quantityFormula as QuantityFormula, 0, annotations);
+    if (qResult && qResult.quantity > 0) {
+      await storage.updateScopeItem(si.id, {
+        quantity: qResult.quantity,
+        dimensionProvenance: qResult.dimensionProvenance,
+        quantityIsPlaceholder: false,
+      });
+    }
+  }
+  for (const li of await storage.getLineItemsForRoom(room.id)) {
+    if (!li.xactCode || li.provenance === "manual") continue;
+    const catalogItem = await storage.getScopeLineItemByCode(li.xactCode);
+    if (!catalogItem?.quantityFormula || catalogItem.quantityFormula === "EACH") continue;
+    const qResult = deriveQuantity(room, catalogItem.quantityFormula as QuantityFormula, 0, annotations);
+    if (!qResult || qResult.quantity <= 0) continue;
+    const unitPrice = Number(li.unitPrice) || 0;
+    const totalPrice = qResult.quantity * unitPrice * (1 + (li.wasteFactor || 0) / 100);
+    await storage.updateLineItem(li.id, {
+      quantity: String(qResult.quantity),
+      totalPrice: totalPrice.toFixed(2),
+      dimensionProvenance: qResult.dimensionProvenance,
+    });
+    count++;
+  }
+  return count;
+}
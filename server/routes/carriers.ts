@@ -0,0 +1,93 @@
+import { Router } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { authenticateRequest, requireRole } from "../auth";
+import { param, parseIntParam } from "../utils";
+import { logger } from "../logger";
+
+const carrierBodySchema = z.object({
+  code: z.string().trim().min(1).max(50).regex(/^[A-Za-z0-9_-]+$/, "Letters, digits, _ and - only"),
+  name: z.string().trim().min(1).max(200),
+  xactnetCarrierId: z.string().trim().max(50).nullable().optional(),
+  naicCode: z.string().trim().max(10).nullable().optional(),
+  opThreshold: z.number().int().min(1).max(20).optional(),
+  taxOnOP: z.boolean().optional(),
+  taxOnLabor: z.boolean().optional(),
+  depreciationBasis: z.enum(["rcv_full", "rcv_before_op", "materials_only"]).optional(),
+  overheadPct: z.number().min(0).max(100).optional(),
+  profitPct: z.number().min(0).max(100).optional(),
+  opExcludedTrades: z.array(z.string().trim().min(1).max(10)).optional(),
+  applyRoofSchedule: z.boolean().optional(),
+  laborEfficiency: z.number().gt(0).max(200).optional(),
+  notes: z.string().max(2000).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const carrierUpdateSchema = carrierBodySchema.partial().strict();
+
+function normalizeCodes<T extends { code?: string; opExcludedTrades?: string[] }>(data: T): T {
+  return {
+    ...data,
+    ...(data.code !== undefined && { code: data.code.toUpperCase() }),
+    ...(data.opExcludedTrades !== undefined && { opExcludedTrades: data.opExcludedTrades.map(t => t.toUpperCase()) }),
+  };
+}
+
+export function carriersRouter(): Router {
+  const router = Router();
+
+  // Any signed-in user can read profiles so claims can be assigned a carrier
+  router.get("/", authenticateRequest, async (req, res) => {
+    try {
+      res.json(await storage.getCarriers());
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.post("/", authenticateRequest, requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = carrierBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid carrier", errors: parsed.error.flatten().fieldErrors });
+      }
+      const data = normalizeCodes(parsed.data);
+      if (await storage.getCarrierByCode(data.code)) {
+        return res.status(409).json({ message: `Carrier code ${data.code} already exists` });
+      }
+      const carrier = await storage.createCarrier(data);
+      logger.info("Carriers", `Created carrier ${carrier.code}`);
+      res.status(201).json(carrier);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.patch("/:id", authenticateRequest, requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseIntParam(param(req.params.id), res, "carrier id");
+      if (id === null) return;
+      const parsed = carrierUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid carrier update", errors: parsed.error.flatten().fieldErrors });
+      }
+      const updates = normalizeCodes(parsed.data);
+      if (updates.code) {
+        const existing = await storage.getCarrierByCode(updates.code);
+        if (existing && existing.id !== id) {
+          return res.status(409).json({ message: `Carrier code ${updates.code} already exists` });
+        }
+      }
+      const carrier = await storage.updateCarrier(id, updates);
+      if (!carrier) return res.status(404).json({ message: "Carrier not found" });
+      res.json(carrier);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  return router;
+}
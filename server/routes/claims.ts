@@ -13,6 +13,9 @@ import { getWeatherCorrelation } from "../weatherService";
 import { initSessionWorkflow } from "../workflow/orchestrator";
 import { geocodeClaimAddress } from "../geocodingService";
 import { applySlaToClaimData } from "../slaEngine";
+import { applyJurisdictionTaxRules, resolveClaimTaxJurisdiction, type ResolvedTaxJurisdiction } from "../taxJurisdiction";
+import { ORDINANCE_OR_LAW, ordinanceLawRule } from "../ordinanceLaw";
+import { applyAcceptedEndorsements, syncEndorsementProposals } from "../endorsementLibrary";
 
 const createClaimSchema = z.object({
   claimNumber: z.string().min(1).max(50),
@@ -23,6 +26,7 @@ const createClaimSchema = z.object({
   zip: z.string().nullable().optional(),
   dateOfLoss: z.string().nullable().optional(),
   perilType: z.string().nullable().optional(),
+  carrierId: z.number().int().positive().nullable().optional(),
   status: z.string().optional(),
 });
 
@@ -48,13 +52,43 @@ const updateClaimSchema = z.object({
   zip: z.string().max(20).nullable().optional(),
   dateOfLoss: z.string().max(50).nullable().optional(),
   perilType: z.string().max(100).nullable().optional(),
+  carrierId: z.number().int().positive().nullable().optional(),
+  depreciationScheduleId: z.number().int().positive().nullable().optional(),
   status: z.string().max(50).optional(),
 }).strict();
 
+const perilDeductibleSchema = z.object({
+  peril: z.string().trim().min(1).max(50),
+  type: z.enum(["flat", "percentage"]),
+  amount: z.number().nonnegative(),
+}).refine((d) => d.type !== "percentage" || d.amount <= 100, { message: "Percentage deductible must be 0-100", path: ["amount"] });
+
+const sublimitSchema = z.object({
+  key: z.string().trim().regex(/^[a-z0-9_]{1,40}$/, "Use lowercase letters, digits and underscores"),
+  label: z.string().trim().min(1).max(80),
+  capType: z.enum(["flat", "percent_of_limit", "percent_of_loss", "per_item"]),
+  amount: z.number().nonnegative(),
+  aggregateCap: z.number().nonnegative().nullable().optional(),
+  additional: z.boolean().optional(),
+});
+
+const sublimitsSchema = z.array(sublimitSchema).max(20)
+  .refine((list) => new Set(list.map((s) => s.key)).size === list.length, { message: "Sublimit keys must be unique" });
+
+const policyTermsSchema = {
+  deductibleType: z.enum(["flat", "percentage"]).optional(),
+  deductiblePct: z.number().min(0).max(100).nullable().optional(),
+  perilDeductibles: z.array(perilDeductibleSchema).max(10).optional(),
+  coinsurancePct: z.number().positive().max(100).nullable().optional(),
+  replacementCostValue: z.number().positive().nullable().optional(),
+  sublimits: sublimitsSchema.optional(),
+};
+
 const policyRuleSchema = z.object({
-  coverageType: z.enum(["Coverage A", "Coverage B", "Coverage C", "Coverage D"]),
+  coverageType: z.enum(["Coverage A", "Coverage B", "Coverage C", "Coverage D", ORDINANCE_OR_LAW]),
   policyLimit: z.number().positive().nullable().optional(),
   deductible: z.number().nonnegative().nullable().optional(),
+  ...policyTermsSchema,
   applyRoofSchedule: z.boolean().optional(),
   roofScheduleAge: z.number().positive().nullable().optional(),
   overheadPct: z.number().nonnegative().default(10),
@@ -67,11 +101,16 @@ const policyRuleUpdateSchema = z.object({
   coverageName: z.string().optional(),
   policyLimit: z.number().nonnegative().optional(),
   deductible: z.number().nonnegative().optional(),
+  ...policyTermsSchema,
   opRate: z.number().min(0).max(1).optional(),
   taxRate: z.number().min(0).max(1).optional(),
   roofSchedule: z.boolean().optional(),
 }).strict();
 
+const taxJurisdictionOverrideSchema = z.object({
+  jurisdictionId: z.string().trim().min(1).max(64).nullable(),
+});
+
 const taxRuleSchema = z.object({
   taxLabel: z.string().min(1).max(50),
   taxRate: z.number().nonnegative(),
@@ -130,12 +169,17 @@ async function ensurePolicyRules(claimId: number, userId?: string) {
   const briefing = await storage.getBriefing(claimId);
   const coverage = briefing?.coverageSnapshot as any;
 
+  // Briefings report a percentage deductible as the percent itself (e.g., 2 for 2%)
+  const percentageDeductible = coverage?.deductibleType === "percentage" && typeof coverage?.deductible === "number";
+
   const rules: Array<any> = [];
   rules.push({
     claimId,
     coverageType: "Coverage A",
     policyLimit: coverage?.coverageA?.limit || null,
-    deductible: coverage?.deductible || 1000,
+    deductible: percentageDeductible ? null : coverage?.deductible || 1000,
+    deductibleType: percentageDeductible ? "percentage" : "flat",
+    deductiblePct: percentageDeductible ? coverage.deductible : null,
     applyRoofSchedule: coverage?.roofSchedule?.applies || false,
     roofScheduleAge: coverage?.roofSchedule?.ageThreshold || null,
     overheadPct: defaultOverhead,
@@ -169,11 +213,20 @@ async function ensurePolicyRules(claimId: number, userId?: string) {
     });
   }
 
+  // Code upgrades are routed to Ordinance or Law, sized by the claim's state unless the policy states it
+  const claim = await storage.getClaim(claimId);
+  if (claim) {
+    rules.push(ordinanceLawRule(claim, rules[0], coverage?.ordinanceLaw?.limit || null));
+  }
+
   const created = [];
   for (const rule of rules) {
     created.push(await storage.createPolicyRule(rule));
   }
 
+  // Endorsement changes the adjuster accepted before the rules existed
+  await applyAcceptedEndorsements(storage, claimId);
+
   const existingTax = await storage.getTaxRulesForClaim(claimId);
   if (existingTax.length === 0) {
     await storage.createTaxRule({
@@ -183,12 +236,32 @@ async function ensurePolicyRules(claimId: number, userId?: string) {
       appliesToCategories: [],
       appliesToCostType: "all",
       isDefault: true,
+      source: "policy",
     });
   }
 
   return created;
 }
 
+async function reapplyJurisdictionTaxRules(claimId: number) {
+  const existing = await storage.getTaxRulesForClaim(claimId);
+  if (existing.length > 0) await applyJurisdictionTaxRules(storage, claimId);
+}
+
+function taxJurisdictionResponse(
+  claim: { taxJurisdictionId: string | null },
+  resolved: ResolvedTaxJurisdiction | null,
+  taxRules: Array<{ source: string }>
+) {
+  return {
+    jurisdiction: resolved?.jurisdiction ?? null,
+    source: resolved?.source ?? null,
+    area: resolved?.area ?? null,
+    overrideId: claim.taxJurisdictionId,
+    rules: taxRules,
+  };
+}
+
 async function generateAndPersistBriefing(claimId: number) {
   const exts = await storage.getExtractions(claimId);
   const fnolExt = exts.find((e) => e.documentType === "fnol");
@@ -336,6 +409,9 @@ export function claimsRouter(): Router {
       if (!parsed.success) {
         return res.status(400).json({ message: "Invalid claim data", errors: parsed.error.flatten().fieldErrors });
       }
+      if (parsed.data.carrierId != null && !(await storage.getCarrier(parsed.data.carrierId))) {
+        return res.status(400).json({ message: "Carrier not found" });
+      }
       const claimData = await applySlaToClaimData({ ...parsed.data, assignedTo: req.user?.id ?? null });
       const claim = await storage.createClaim(claimData);
       emit({ type: "claim.created", claimId: claim.id, userId: req.user?.id });
@@ -396,12 +472,24 @@ export function claimsRouter(): Router {
         emit({ type: "claim.statusChanged", claimId: id, userId: req.user?.id, meta: { status } });
         return res.json(updated);
       }
+      if (otherFields.carrierId != null && !(await storage.getCarrier(otherFields.carrierId))) {
+        return res.status(400).json({ message: "Carrier not found" });
+      }
+      if (otherFields.depreciationScheduleId != null && !(await storage.getDepreciationSchedule(otherFields.depreciationScheduleId))) {
+        return res.status(400).json({ message: "Depreciation schedule not found" });
+      }
       const editableFields: any = {};
-      for (const key of ['insuredName', 'propertyAddress', 'city', 'state', 'zip', 'dateOfLoss', 'perilType'] as const) {
+      for (const key of ['insuredName', 'propertyAddress', 'city', 'state', 'zip', 'dateOfLoss', 'perilType', 'carrierId', 'depreciationScheduleId'] as const) {
         if (otherFields[key] !== undefined) editableFields[key] = otherFields[key];
       }
       if (Object.keys(editableFields).length > 0) {
         const updated = await storage.updateClaimFields(id, editableFields);
+        // A moved loss location can change the tax jurisdiction of a claim whose taxes are already set up
+        if (editableFields.state !== undefined || editableFields.zip !== undefined) {
+          reapplyJurisdictionTaxRules(id).catch((e) =>
+            logger.apiError("BG", "applyJurisdictionTaxRules", e),
+          );
+        }
         return res.json(updated);
       }
       res.status(400).json({ message: "No valid update fields" });
@@ -595,6 +683,49 @@ export function claimsRouter(): Router {
     }
   });
 
+  // ── Tax Jurisdiction ───────────────────────────
+
+  router.get("/:claimId/tax-jurisdiction", authenticateRequest, async (req, res) => {
+    try {
+      const authorized = await resolveAuthorizedClaim(req, res, "claimId");
+      if (!authorized) return;
+      const { claim, claimId } = authorized;
+      const resolved = await resolveClaimTaxJurisdiction(storage, claim);
+      const rules = await storage.getTaxRulesForClaim(claimId);
+      res.json(taxJurisdictionResponse(claim, resolved, rules));
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Sets (or clears, with null) the adjuster's jurisdiction override and
+  // regenerates the jurisdiction tax rules
+  router.put("/:claimId/tax-jurisdiction", authenticateRequest, async (req, res) => {
+    try {
+      const authorized = await resolveAuthorizedClaim(req, res, "claimId");
+      if (!authorized) return;
+      const { claimId } = authorized;
+      const parsed = taxJurisdictionOverrideSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid tax jurisdiction", errors: parsed.error.flatten().fieldErrors });
+      }
+      const { jurisdictionId } = parsed.data;
+      if (jurisdictionId && !(await storage.getTaxJurisdiction(jurisdictionId))) {
+        return res.status(400).json({ message: "Tax jurisdiction not found" });
+      }
+      const claim = await storage.updateClaimFields(claimId, { taxJurisdictionId: jurisdictionId });
+      if (!claim) return res.status(404).json({ message: "Claim not found" });
+      const applied = await applyJurisdictionTaxRules(storage, claimId);
+      const rules = await storage.getTaxRulesForClaim(claimId);
+      logger.info("TaxJurisdiction", `Claim ${claimId} jurisdiction ${applied?.jurisdiction.id ?? "none"} (${applied?.source ?? "unresolved"})`);
+      res.json(taxJurisdictionResponse(claim, applied, rules));
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // ── Documents (claim-scoped) ────────────────────
 
   router.get("/:id/documents", authenticateRequest, async (req, res) => {
@@ -795,6 +926,14 @@ export function claimsRouter(): Router {
         }
       }
 
+      if (documentType === "endorsements") {
+        try {
+          await syncEndorsementProposals(storage, claimId, extractResult.extractedData);
+        } catch (syncError: any) {
+          logger.warn("Endorsements", "Failed to match endorsements to the library", { message: syncError.message });
+        }
+      }
+
       const allDocs = await storage.getDocuments(claimId);
       const allParsed = allDocs.length >= 3 && allDocs.every(d => d.status === "parsed");
       if (allParsed) {
@@ -864,6 +1003,8 @@ export function claimsRouter(): Router {
         if (Object.keys(fnolFields).length > 0) {
           await storage.updateClaimFields(claimId, fnolFields);
         }
+      } else if (param(req.params.type) === "endorsements") {
+        await syncEndorsementProposals(storage, claimId, req.body.extractedData);
       }
 
       res.json(updated);
@@ -923,6 +1064,56 @@ export function claimsRouter(): Router {
     }
   });
 
+  // ── Endorsement Proposals ──────────────────────
+
+  router.get("/:id/endorsement-proposals", authenticateRequest, async (req, res) => {
+    try {
+      const authorized = await resolveAuthorizedClaim(req, res, "id");
+      if (!authorized) return;
+      const { claimId } = authorized;
+      res.json(await storage.getEndorsementProposals(claimId));
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.post("/:id/endorsement-proposals/:proposalId/:decision", authenticateRequest, async (req, res) => {
+    try {
+      const authorized = await resolveAuthorizedClaim(req, res, "id");
+      if (!authorized) return;
+      const { claimId } = authorized;
+      const proposalId = parseIntParam(param(req.params.proposalId), res, "proposal id");
+      if (proposalId === null) return;
+      const decision = param(req.params.decision);
+      if (decision !== "accept" && decision !== "reject") {
+        return res.status(400).json({ message: "Decision must be accept or reject" });
+      }
+
+      const proposals = await storage.getEndorsementProposals(claimId);
+      const proposal = proposals.find((p) => p.id === proposalId);
+      if (!proposal) {
+        return res.status(404).json({ message: "Endorsement proposal not found for this claim" });
+      }
+      if (proposal.status !== "pending") {
+        return res.status(409).json({ message: `Proposal was already ${proposal.status}` });
+      }
+
+      const updated = await storage.updateEndorsementProposal(proposalId, {
+        status: decision === "accept" ? "accepted" : "rejected",
+        decidedBy: req.user?.id ?? null,
+        decidedAt: new Date(),
+      });
+      if (decision === "accept") {
+        await applyAcceptedEndorsements(storage, claimId);
+      }
+      res.json(updated);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // ── Briefing ───────────────────────────────────
 
   router.post("/:id/briefing/generate", authenticateRequest, async (req, res) => {
@@ -991,9 +1182,9 @@ export function claimsRouter(): Router {
       await initSessionWorkflow({ claimId, sessionId: session.id, peril: claim?.perilType || "General" });
       await storage.updateClaimStatus(claimId, "inspecting");
       emit({ type: "inspection.started", sessionId: session.id, claimId, userId: req.user?.id });
-      ensurePolicyRules(claimId, req.user?.id).catch((e) =>
-        logger.apiError("BG", "ensurePolicyRules", e),
-      );
+      ensurePolicyRules(claimId, req.user?.id)
+        .then(() => applyJurisdictionTaxRules(storage, claimId))
+        .catch((e) => logger.apiError("BG", "ensurePolicyRules", e));
       res.status(201).json({ sessionId: session.id, session });
     } catch (error: any) {
       logger.apiError(req.method, req.path, error);
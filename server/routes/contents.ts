@@ -0,0 +1,189 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { authenticateRequest } from "../auth";
+import { requireClaimAccess } from "../authorization";
+import { param, parseIntParam, MAX_DOCUMENT_BYTES, decodeBase64Payload } from "../utils";
+import { logger } from "../logger";
+import { z } from "zod";
+import {
+  CONTENTS_CONDITIONS,
+  contentsUnitPrice,
+  parseContentsInventory,
+  priceContentsItem,
+} from "../contentsInventory";
+import type { ContentsItem, InsertContentsItem } from "@shared/schema";
+
+const contentsItemSchema = z.object({
+  description: z.string().min(1).max(500),
+  category: z.string().min(1).max(50).default("General"),
+  roomName: z.string().max(100).nullable().optional(),
+  quantity: z.number().positive().default(1),
+  ageYears: z.number().nonnegative().nullable().optional(),
+  condition: z.enum(CONTENTS_CONDITIONS).nullable().optional(),
+  originalCost: z.number().nonnegative().nullable().optional(),
+  replacementSource: z.string().max(200).nullable().optional(),
+  replacementPrice: z.number().nonnegative().nullable().optional(),
+  lifeExpectancy: z.number().nonnegative().nullable().optional(),
+  depreciationType: z.enum(["Recoverable", "Non-Recoverable", "Paid When Incurred"]).default("Recoverable"),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+const contentsItemUpdateSchema = contentsItemSchema.partial().strict();
+
+const importBodySchema = z.object({
+  fileName: z.string().min(1),
+  fileBase64: z.string().min(1),
+  replaceExisting: z.boolean().default(false),
+});
+
+/** Recomputes the stored life expectancy and depreciation for an item. */
+function withDepreciation<T extends Partial<InsertContentsItem> & { description: string }>(item: T): T {
+  const { lifeExpectancy, depreciationPercentage, depreciationAmount } = priceContentsItem(item);
+  return { ...item, lifeExpectancy, depreciationPercentage, depreciationAmount };
+}
+
+function summarizeContents(items: ContentsItem[]) {
+  let totalRCV = 0;
+  let totalDepreciation = 0;
+  for (const item of items) {
+    totalRCV += (Number(item.quantity) || 0) * contentsUnitPrice(item);
+    totalDepreciation += Number(item.depreciationAmount) || 0;
+  }
+  return {
+    itemCount: items.length,
+    totalRCV: Math.round(totalRCV * 100) / 100,
+    totalDepreciation: Math.round(totalDepreciation * 100) / 100,
+    totalACV: Math.round((totalRCV - totalDepreciation) * 100) / 100,
+  };
+}
+
+export function contentsRouter() {
+  const router = Router({ mergeParams: true });
+
+  async function resolveClaimId(req: any, res: any): Promise<number | null> {
+    const claimId = parseIntParam(param(req.params.claimId), res, "claim id");
+    if (claimId === null) return null;
+    const claim = await requireClaimAccess(req, res, claimId);
+    return claim ? claimId : null;
+  }
+
+  async function resolveItem(req: any, res: any, claimId: number): Promise<ContentsItem | null> {
+    const itemId = parseIntParam(param(req.params.itemId), res, "contents item id");
+    if (itemId === null) return null;
+    const item = await storage.getContentsItem(itemId);
+    if (!item || item.claimId !== claimId) {
+      res.status(404).json({ message: "Contents item not found for this claim" });
+      return null;
+    }
+    return item;
+  }
+
+  router.get("/", authenticateRequest, async (req, res) => {
+    try {
+      const claimId = await resolveClaimId(req, res);
+      if (claimId === null) return;
+      const items = await storage.getContentsItemsForClaim(claimId);
+      res.json({ items, totals: summarizeContents(items) });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.post("/", authenticateRequest, async (req, res) => {
+    try {
+      const claimId = await resolveClaimId(req, res);
+      if (claimId === null) return;
+      const parsed = contentsItemSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid contents item", errors: parsed.error.flatten().fieldErrors });
+      }
+      const item = await storage.createContentsItem(withDepreciation({ claimId, ...parsed.data, source: "manual" }));
+      res.status(201).json(item);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.patch("/:itemId", authenticateRequest, async (req, res) => {
+    try {
+      const claimId = await resolveClaimId(req, res);
+      if (claimId === null) return;
+      const existing = await resolveItem(req, res, claimId);
+      if (!existing) return;
+      const parsed = contentsItemUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid contents item update", errors: parsed.error.flatten().fieldErrors });
+      }
+      // An explicit life expectancy sticks; otherwise re-derive it when the category or description changes
+      const merged = { ...existing, ...parsed.data };
+      if (parsed.data.lifeExpectancy === undefined && (parsed.data.category || parsed.data.description)) {
+        merged.lifeExpectancy = null;
+      }
+      const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...fields } = withDepreciation(merged);
+      const item = await storage.updateContentsItem(existing.id, fields);
+      res.json(item);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.delete("/:itemId", authenticateRequest, async (req, res) => {
+    try {
+      const claimId = await resolveClaimId(req, res);
+      if (claimId === null) return;
+      const existing = await resolveItem(req, res, claimId);
+      if (!existing) return;
+      await storage.deleteContentsItem(existing.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.post("/import", authenticateRequest, async (req, res) => {
+    try {
+      const claimId = await resolveClaimId(req, res);
+      if (claimId === null) return;
+      const parsed = importBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid import payload", errors: parsed.error.flatten().fieldErrors });
+      }
+      const { fileName, fileBase64, replaceExisting } = parsed.data;
+      const { buffer, wasTruncated } = decodeBase64Payload(fileBase64, MAX_DOCUMENT_BYTES);
+      if (wasTruncated) {
+        return res.status(413).json({ message: "Inventory file exceeds the upload size limit" });
+      }
+
+      let result;
+      try {
+        result = parseContentsInventory(buffer, fileName);
+      } catch (parseError: any) {
+        return res.status(422).json({ message: parseError.message || "Could not read inventory file" });
+      }
+      if (result.rows.length === 0) {
+        return res.status(422).json({ message: "No inventory rows could be imported", errors: result.errors });
+      }
+
+      if (replaceExisting) {
+        const existing = await storage.getContentsItemsForClaim(claimId);
+        for (const item of existing.filter((i) => i.source === "import")) {
+          await storage.deleteContentsItem(item.id);
+        }
+      }
+
+      const created = await storage.createContentsItems(
+        result.rows.map((row) => withDepreciation({ ...row, claimId })),
+      );
+      res.status(201).json({ imported: created.length, errors: result.errors, items: created });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,188 @@
+import { Router } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { authenticateRequest, requireRole } from "../auth";
+import { param, parseIntParam } from "../utils";
+import { logger } from "../logger";
+import { LIFE_EXPECTANCY_TABLE, type CategoryEntry } from "../depreciationEngine";
+import type { DepreciationScheduleVersion } from "@shared/schema";
+
+const categoryEntrySchema = z.object({
+  keywords: z.array(z.object({
+    match: z.string().trim().min(1).max(100),
+    life: z.number().min(0).max(200),
+  })),
+  default: z.number().min(0).max(200),
+});
+
+const lifeExpectancySchema = z.record(z.string().trim().min(1).max(50), categoryEntrySchema)
+  .refine(table => Object.keys(table).length > 0, "At least one category is required");
+
+const roofPaymentBandSchema = z.object({
+  material: z.string().trim().max(100),
+  maxAge: z.number().min(0).max(200),
+  paymentPercent: z.number().min(0).max(100),
+});
+
+const effectiveFromSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+const versionBodySchema = z.object({
+  effectiveFrom: effectiveFromSchema,
+  lifeExpectancy: lifeExpectancySchema,
+  roofPaymentSchedule: z.array(roofPaymentBandSchema).default([]),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+const createScheduleSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  carrierCode: z.string().trim().max(50).nullable().optional(),
+  description: z.string().max(2000).nullable().optional(),
+  effectiveFrom: effectiveFromSchema,
+  lifeExpectancy: lifeExpectancySchema.optional(),
+  roofPaymentSchedule: z.array(roofPaymentBandSchema).default([]),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+const updateScheduleSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  carrierCode: z.string().trim().max(50).nullable().optional(),
+  description: z.string().max(2000).nullable().optional(),
+  isActive: z.boolean().optional(),
+}).strict();
+
+// Lookups lowercase the category and description, so store keys and
+// keyword matches the same way
+function normalizeLifeExpectancy(table: Record<string, CategoryEntry>): Record<string, CategoryEntry> {
+  const result: Record<string, CategoryEntry> = {};
+  for (const [category, entry] of Object.entries(table)) {
+    result[category.toLowerCase()] = {
+      keywords: entry.keywords.map(k => ({ match: k.match.toLowerCase(), life: k.life })),
+      default: entry.default,
+    };
+  }
+  return result;
+}
+
+function versionSummary(v: DepreciationScheduleVersion) {
+  return { id: v.id, version: v.version, effectiveFrom: v.effectiveFrom, notes: v.notes, createdBy: v.createdBy, createdAt: v.createdAt };
+}
+
+export function depreciationSchedulesRouter(): Router {
+  const router = Router();
+
+  router.get("/", authenticateRequest, requireRole("supervisor", "admin"), async (req, res) => {
+    try {
+      const schedules = await storage.getDepreciationSchedules();
+      const result = await Promise.all(schedules.map(async (s) => ({
+        ...s,
+        versions: (await storage.getDepreciationScheduleVersions(s.id)).map(versionSummary),
+      })));
+      res.json(result);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // The built-in table new schedules start from
+  router.get("/builtin", authenticateRequest, requireRole("supervisor", "admin"), async (_req, res) => {
+    res.json({ lifeExpectancy: LIFE_EXPECTANCY_TABLE, roofPaymentSchedule: [] });
+  });
+
+  router.post("/", authenticateRequest, requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = createScheduleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid depreciation schedule", errors: parsed.error.flatten().fieldErrors });
+      }
+      const { name, carrierCode, description, effectiveFrom, lifeExpectancy, roofPaymentSchedule, notes } = parsed.data;
+      const schedule = await storage.createDepreciationSchedule({
+        name,
+        carrierCode: carrierCode ? carrierCode.toUpperCase() : null,
+        description: description ?? null,
+        createdBy: req.user?.id ?? null,
+      });
+      const version = await storage.createDepreciationScheduleVersion({
+        scheduleId: schedule.id,
+        effectiveFrom,
+        lifeExpectancy: normalizeLifeExpectancy(lifeExpectancy ?? LIFE_EXPECTANCY_TABLE),
+        roofPaymentSchedule,
+        notes: notes ?? null,
+        createdBy: req.user?.id ?? null,
+      });
+      logger.info("DepreciationSchedules", `Created schedule ${schedule.id} "${name}" (${schedule.carrierCode ?? "default"})`);
+      res.status(201).json({ ...schedule, versions: [versionSummary(version)] });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.patch("/:id", authenticateRequest, requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseIntParam(param(req.params.id), res, "schedule id");
+      if (id === null) return;
+      const parsed = updateScheduleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid depreciation schedule update", errors: parsed.error.flatten().fieldErrors });
+      }
+      const updates = { ...parsed.data };
+      if (updates.carrierCode !== undefined) {
+        updates.carrierCode = updates.carrierCode ? updates.carrierCode.toUpperCase() : null;
+      }
+      const schedule = await storage.updateDepreciationSchedule(id, updates);
+      if (!schedule) return res.status(404).json({ message: "Depreciation schedule not found" });
+      res.json(schedule);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.get("/:id/versions/:versionId", authenticateRequest, requireRole("supervisor", "admin"), async (req, res) => {
+    try {
+      const id = parseIntParam(param(req.params.id), res, "schedule id");
+      if (id === null) return;
+      const versionId = parseIntParam(param(req.params.versionId), res, "version id");
+      if (versionId === null) return;
+      const version = await storage.getDepreciationScheduleVersion(versionId);
+      if (!version || version.scheduleId !== id) {
+        return res.status(404).json({ message: "Schedule version not found" });
+      }
+      res.json(version);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Versions are never edited in place: line items record the version they
+  // were depreciated under, so a change is always a new version
+  router.post("/:id/versions", authenticateRequest, requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseIntParam(param(req.params.id), res, "schedule id");
+      if (id === null) return;
+      const schedule = await storage.getDepreciationSchedule(id);
+      if (!schedule) return res.status(404).json({ message: "Depreciation schedule not found" });
+      const parsed = versionBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid schedule version", errors: parsed.error.flatten().fieldErrors });
+      }
+      const version = await storage.createDepreciationScheduleVersion({
+        scheduleId: id,
+        effectiveFrom: parsed.data.effectiveFrom,
+        lifeExpectancy: normalizeLifeExpectancy(parsed.data.lifeExpectancy),
+        roofPaymentSchedule: parsed.data.roofPaymentSchedule,
+        notes: parsed.data.notes ?? null,
+        createdBy: req.user?.id ?? null,
+      });
+      logger.info("DepreciationSchedules", `Schedule ${id} v${version.version} effective ${version.effectiveFrom}`);
+      res.status(201).json(version);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  return router;
+}
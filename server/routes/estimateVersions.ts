@@ -0,0 +1,119 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { authenticateRequest } from "../auth";
+import { requireSessionAccess } from "../authorization";
+import { param, parseIntParam } from "../utils";
+import { logger } from "../logger";
+import { z } from "zod";
+import {
+  createEstimateVersion,
+  diffEstimateSnapshots,
+  type EstimateSnapshot,
+} from "../estimateVersions";
+import type { EstimateVersion, InspectionSession } from "@shared/schema";
+
+const versionBodySchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+});
+
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().positive(),
+  to: z.coerce.number().int().positive(),
+});
+
+function versionHeader(version: EstimateVersion) {
+  const { snapshot: _snapshot, ...header } = version;
+  return header;
+}
+
+export function estimateVersionsRouter() {
+  const router = Router({ mergeParams: true });
+
+  async function resolveSession(req: any, res: any): Promise<InspectionSession | null> {
+    const sessionId = parseIntParam(param(req.params.sessionId), res, "session id");
+    if (sessionId === null) return null;
+    return requireSessionAccess(req, res, sessionId);
+  }
+
+  async function loadVersion(res: any, sessionId: number, versionId: number): Promise<EstimateVersion | null> {
+    const version = await storage.getEstimateVersion(versionId);
+    if (!version || version.sessionId !== sessionId) {
+      res.status(404).json({ message: `Estimate version ${versionId} not found for this session` });
+      return null;
+    }
+    return version;
+  }
+
+  router.get("/", authenticateRequest, async (req, res) => {
+    try {
+      const session = await resolveSession(req, res);
+      if (!session) return;
+      const versions = await storage.getEstimateVersions(session.id);
+      res.json(versions.map(versionHeader));
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.post("/", authenticateRequest, async (req, res) => {
+    try {
+      const session = await resolveSession(req, res);
+      if (!session) return;
+      const parsed = versionBodySchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid estimate version", errors: parsed.error.flatten().fieldErrors });
+      }
+      const version = await createEstimateVersion(storage, session.id, session.claimId, {
+        trigger: "manual",
+        name: parsed.data.name || "Manual snapshot",
+        createdBy: req.user?.id ?? null,
+      });
+      res.status(201).json(versionHeader(version));
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Registered before /:versionId so "diff" is not parsed as an id
+  router.get("/diff", authenticateRequest, async (req, res) => {
+    try {
+      const session = await resolveSession(req, res);
+      if (!session) return;
+      const parsed = diffQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "from and to version ids are required", errors: parsed.error.flatten().fieldErrors });
+      }
+      const from = await loadVersion(res, session.id, parsed.data.from);
+      if (!from) return;
+      const to = await loadVersion(res, session.id, parsed.data.to);
+      if (!to) return;
+      res.json({
+        from: versionHeader(from),
+        to: versionHeader(to),
+        diff: diffEstimateSnapshots(from.snapshot as EstimateSnapshot, to.snapshot as EstimateSnapshot),
+      });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.get("/:versionId", authenticateRequest, async (req, res) => {
+    try {
+      const session = await resolveSession(req, res);
+      if (!session) return;
+      const versionId = parseIntParam(param(req.params.versionId), res, "version id");
+      if (versionId === null) return;
+      const version = await loadVersion(res, session.id, versionId);
+      if (!version) return;
+      res.json(version);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  return router;
+}
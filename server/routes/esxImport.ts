@@ -0,0 +1,125 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { authenticateRequest } from "../auth";
+import { requireClaimAccess } from "../authorization";
+import { param, parseIntParam, MAX_DOCUMENT_BYTES, decodeBase64Payload } from "../utils";
+import { logger } from "../logger";
+import { emit } from "../events";
+import { z } from "zod";
+import { parseEsxFile, type ParsedEsx } from "../esxParser";
+import { compareEsxWithSession, importEsxAsSession, resolveEsxCatalogCodes } from "../esxImport";
+
+const esxFileSchema = z.object({
+  fileName: z.string().min(1),
+  fileBase64: z.string().min(1),
+});
+
+const compareBodySchema = esxFileSchema.extend({
+  sessionId: z.number().int().positive().optional(),
+});
+
+export function esxImportRouter() {
+  const router = Router({ mergeParams: true });
+
+  async function resolveClaimId(req: any, res: any): Promise<number | null> {
+    const claimId = parseIntParam(param(req.params.claimId), res, "claim id");
+    if (claimId === null) return null;
+    const claim = await requireClaimAccess(req, res, claimId);
+    return claim ? claimId : null;
+  }
+
+  /** Decodes and parses the uploaded file, answering 413/422 itself when it cannot. */
+  async function readEsx(res: any, fileBase64: string): Promise<ParsedEsx | null> {
+    const { buffer, wasTruncated } = decodeBase64Payload(fileBase64, MAX_DOCUMENT_BYTES);
+    if (wasTruncated) {
+      res.status(413).json({ message: "ESX file exceeds the upload size limit" });
+      return null;
+    }
+    let parsed: ParsedEsx;
+    try {
+      parsed = await parseEsxFile(buffer);
+    } catch (parseError: any) {
+      res.status(422).json({ message: parseError.message || "Could not read ESX file" });
+      return null;
+    }
+    return { ...parsed, lineItems: await resolveEsxCatalogCodes(parsed.lineItems) };
+  }
+
+  // Bootstrap a new inspection session from the ESX file
+  router.post("/import", authenticateRequest, async (req, res) => {
+    try {
+      const claimId = await resolveClaimId(req, res);
+      if (claimId === null) return;
+      const parsed = esxFileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid ESX payload", errors: parsed.error.flatten().fieldErrors });
+      }
+
+      const active = await storage.getActiveSessionForClaim(claimId);
+      if (active) {
+        return res.status(409).json({
+          message: "Claim already has an active inspection session; compare the ESX against it instead",
+          sessionId: active.id,
+        });
+      }
+
+      const esx = await readEsx(res, parsed.data.fileBase64);
+      if (!esx) return;
+      if (esx.rooms.length === 0 && esx.lineItems.length === 0) {
+        return res.status(422).json({ message: "ESX file contains no rooms or line items" });
+      }
+
+      const result = await importEsxAsSession(storage, claimId, esx);
+      logger.info("EsxImport", `Imported ${parsed.data.fileName} into session ${result.session.id} (claim ${claimId})`);
+      if (result.lineItems.length > 0) emit({ type: "inspection.lineItemAdded", sessionId: result.session.id, claimId, userId: req.user?.id });
+      res.status(201).json({
+        session: result.session,
+        header: esx.header,
+        rooms: result.rooms.length,
+        openings: result.openings.length,
+        lineItems: result.lineItems.length,
+        skippedContents: result.skippedContents,
+      });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Line the ESX file up against a session (the claim's active session by default)
+  router.post("/compare", authenticateRequest, async (req, res) => {
+    try {
+      const claimId = await resolveClaimId(req, res);
+      if (claimId === null) return;
+      const parsed = compareBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid ESX payload", errors: parsed.error.flatten().fieldErrors });
+      }
+
+      const session = parsed.data.sessionId
+        ? await storage.getInspectionSession(parsed.data.sessionId)
+        : (await storage.getActiveSessionForClaim(claimId)) ?? (await storage.getLatestSessionForClaim(claimId));
+      if (!session || session.claimId !== claimId) {
+        return res.status(404).json({ message: "Inspection session not found for this claim" });
+      }
+
+      const esx = await readEsx(res, parsed.data.fileBase64);
+      if (!esx) return;
+
+      const [lineItems, rooms] = await Promise.all([
+        storage.getLineItems(session.id),
+        storage.getRooms(session.id),
+      ]);
+      res.json({
+        sessionId: session.id,
+        header: esx.header,
+        comparison: compareEsxWithSession(esx, lineItems, rooms),
+      });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  return router;
+}
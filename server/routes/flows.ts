@@ -1,24 +1,57 @@
 import { Router } from "express";
 import { storage } from "../storage";
 import { authenticateRequest, requireRole } from "../auth";
+import { isPrivilegedRole, requireSessionAccess } from "../authorization";
 import { logger } from "../logger";
 import { z } from "zod";
-import { param } from "../utils";
+import { param, parseIntParam } from "../utils";
+import { inspectionStepsSchema } from "../workflow/flowEngine";
+import {
+  buildFlowBundle,
+  flowBundleSchema,
+  hasDraftChanges,
+  importFlowBundle,
+  publishFlowVersion,
+} from "../workflow/flowVersions";
+import { simulateFlow } from "../workflow/flowSimulator";
+import { realtimeTools } from "../realtime";
+import type { InspectionFlow, InspectionFlowVersion, InspectionStep } from "@shared/schema";
 
 const flowBodySchema = z.object({
   name: z.string().min(1),
   perilType: z.string().min(1),
   description: z.string().optional(),
   isDefault: z.boolean().optional(),
-  steps: z.array(z.object({
-    id: z.string(),
-    phaseName: z.string(),
-    agentPrompt: z.string(),
-    requiredTools: z.array(z.string()),
-    completionCriteria: z.string(),
-  })),
+  steps: inspectionStepsSchema,
 });
 
+const simulateBodySchema = z.object({
+  sessionId: z.coerce.number().int().positive(),
+  // Unsaved edits from the builder; defaults to the saved draft
+  steps: inspectionStepsSchema.optional(),
+});
+
+const publishBodySchema = z.object({
+  changelog: z.string().trim().min(1, "Describe what changed in this version"),
+});
+
+function versionSummary(v: InspectionFlowVersion) {
+  return {
+    id: v.id, version: v.version, name: v.name, changelog: v.changelog, changes: v.changes,
+    stepCount: v.steps.length, publishedBy: v.publishedBy, publishedAt: v.publishedAt,
+  };
+}
+
+/** The flow's draft alongside where it stands relative to its published versions. */
+async function withVersionInfo(flow: InspectionFlow) {
+  const latest = await storage.getLatestInspectionFlowVersion(flow.id);
+  return {
+    ...flow,
+    publishedVersion: latest ? versionSummary(latest) : null,
+    hasDraftChanges: hasDraftChanges(flow, latest),
+  };
+}
+
 export function flowsRouter() {
   const router = Router();
 
@@ -43,7 +76,42 @@ export function flowsRouter() {
       if (perilType && typeof perilType === "string") {
         flows = flows.filter(f => f.perilType === perilType);
       }
-      res.json(flows);
+      res.json(await Promise.all(flows.map(withVersionInfo)));
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.get("/export", authenticateRequest, async (req, res) => {
+    try {
+      const ids = typeof req.query.ids === "string"
+        ? req.query.ids.split(",").map((id) => parseInt(id)).filter((id) => !Number.isNaN(id))
+        : null;
+      const flows = (await storage.getInspectionFlows(req.user!.id))
+        .filter((f) => userCanAccessFlow(f, req.user!.id))
+        .filter((f) => !ids || ids.includes(f.id));
+      const entries = await Promise.all(flows.map(async (flow) => ({
+        flow,
+        version: await storage.getLatestInspectionFlowVersion(flow.id),
+      })));
+      const availableTools = Object.fromEntries(realtimeTools.map((t) => [t.name, t.description]));
+      res.setHeader("Content-Disposition", 'attachment; filename="inspection-flows-export.json"');
+      res.json(buildFlowBundle(entries, availableTools));
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.post("/import", authenticateRequest, async (req, res) => {
+    try {
+      const parsed = flowBundleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid flow bundle", errors: parsed.error.issues });
+      }
+      const imported = await importFlowBundle(storage, parsed.data, req.user!.id);
+      res.json({ imported });
     } catch (error: any) {
       logger.apiError(req.method, req.path, error);
       res.status(500).json({ message: "Internal server error" });
@@ -58,7 +126,7 @@ export function flowsRouter() {
       if (!userCanAccessFlow(flow, req.user!.id)) {
         return res.status(403).json({ message: "Cannot access flows owned by other users" });
       }
-      res.json(flow);
+      res.json(await withVersionInfo(flow));
     } catch (error: any) {
       logger.apiError(req.method, req.path, error);
       res.status(500).json({ message: "Internal server error" });
@@ -76,7 +144,8 @@ export function flowsRouter() {
         userId: req.user!.id,
         isSystemDefault: false,
       });
-      res.status(201).json(flow);
+      await publishFlowVersion(storage, flow, { changelog: "Initial version", publishedBy: req.user!.id });
+      res.status(201).json(await withVersionInfo(flow));
     } catch (error: any) {
       logger.apiError(req.method, req.path, error);
       res.status(500).json({ message: "Internal server error" });
@@ -101,8 +170,9 @@ export function flowsRouter() {
         return res.status(400).json({ message: "Invalid flow data", errors: parsed.error.issues });
       }
 
+      // Edits land in the draft; sessions keep their pinned version until the next publish
       const flow = await storage.updateInspectionFlow(id, parsed.data);
-      res.json(flow);
+      res.json(flow ? await withVersionInfo(flow) : flow);
     } catch (error: any) {
       logger.apiError(req.method, req.path, error);
       res.status(500).json({ message: "Internal server error" });
@@ -147,7 +217,123 @@ export function flowsRouter() {
         userId: req.user!.id,
         steps: source.steps as any,
       });
-      res.status(201).json(flow);
+      await publishFlowVersion(storage, flow, { changelog: `Cloned from ${source.name}`, publishedBy: req.user!.id });
+      res.status(201).json(await withVersionInfo(flow));
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.get("/:id/versions", authenticateRequest, async (req, res) => {
+    try {
+      const id = parseIntParam(param(req.params.id), res, "flow id");
+      if (id === null) return;
+      const flow = await storage.getInspectionFlow(id);
+      if (!flow) return res.status(404).json({ message: "Flow not found" });
+      if (!userCanAccessFlow(flow, req.user!.id)) {
+        return res.status(403).json({ message: "Cannot access flows owned by other users" });
+      }
+      const versions = await storage.getInspectionFlowVersions(id);
+      res.json(versions.map(versionSummary).reverse());
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.get("/:id/versions/:versionId", authenticateRequest, async (req, res) => {
+    try {
+      const id = parseIntParam(param(req.params.id), res, "flow id");
+      if (id === null) return;
+      const versionId = parseIntParam(param(req.params.versionId), res, "version id");
+      if (versionId === null) return;
+      const flow = await storage.getInspectionFlow(id);
+      if (!flow) return res.status(404).json({ message: "Flow not found" });
+      if (!userCanAccessFlow(flow, req.user!.id)) {
+        return res.status(403).json({ message: "Cannot access flows owned by other users" });
+      }
+      const version = await storage.getInspectionFlowVersion(versionId);
+      if (!version || version.flowId !== id) return res.status(404).json({ message: "Flow version not found" });
+      res.json(version);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.post("/:id/publish", authenticateRequest, async (req, res) => {
+    try {
+      const id = parseIntParam(param(req.params.id), res, "flow id");
+      if (id === null) return;
+      const flow = await storage.getInspectionFlow(id);
+      if (!flow) return res.status(404).json({ message: "Flow not found" });
+      if (flow.isSystemDefault || flow.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Cannot publish flows owned by other users" });
+      }
+      const parsed = publishBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid publish request", errors: parsed.error.issues });
+      }
+      const version = await publishFlowVersion(storage, flow, { changelog: parsed.data.changelog, publishedBy: req.user!.id });
+      if (!version) {
+        return res.status(409).json({ message: "No changes since the last published version" });
+      }
+      res.status(201).json(version);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.get("/:id/simulate/sessions", authenticateRequest, async (req, res) => {
+    try {
+      const id = parseIntParam(param(req.params.id), res, "flow id");
+      if (id === null) return;
+      const flow = await storage.getInspectionFlow(id);
+      if (!flow) return res.status(404).json({ message: "Flow not found" });
+      if (!userCanAccessFlow(flow, req.user!.id)) {
+        return res.status(403).json({ message: "Cannot access flows owned by other users" });
+      }
+      const pagination = { limit: 100, offset: 0 };
+      const claims = isPrivilegedRole(req.user?.role)
+        ? await storage.getClaims(pagination)
+        : await storage.getClaimsForUser(req.user!.id, pagination);
+      const matching = flow.perilType === "General"
+        ? claims
+        : claims.filter((c) => c.perilType?.toLowerCase() === flow.perilType.toLowerCase());
+      const sessions = (await Promise.all(matching.map(async (claim) =>
+        (await storage.getInspectionSessionsForClaim(claim.id))
+          .filter((s) => s.status === "completed")
+          .map((s) => ({ sessionId: s.id, claimId: claim.id, claimNumber: claim.claimNumber, insuredName: claim.insuredName, completedAt: s.completedAt }))
+      ))).flat();
+      sessions.sort((a, b) => new Date(b.completedAt ?? 0).getTime() - new Date(a.completedAt ?? 0).getTime());
+      res.json(sessions.slice(0, 25));
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.post("/:id/simulate", authenticateRequest, async (req, res) => {
+    try {
+      const id = parseIntParam(param(req.params.id), res, "flow id");
+      if (id === null) return;
+      const flow = await storage.getInspectionFlow(id);
+      if (!flow) return res.status(404).json({ message: "Flow not found" });
+      if (!userCanAccessFlow(flow, req.user!.id)) {
+        return res.status(403).json({ message: "Cannot access flows owned by other users" });
+      }
+      const parsed = simulateBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid simulation request", errors: parsed.error.issues });
+      }
+      const session = await requireSessionAccess(req, res, parsed.data.sessionId);
+      if (!session) return;
+
+      const steps = parsed.data.steps ?? ((flow.steps as InspectionStep[]) || []);
+      const simulation = await simulateFlow(steps as InspectionStep[], session.id, storage, flow.id);
+      res.json(simulation);
     } catch (error: any) {
       logger.apiError(req.method, req.path, error);
       res.status(500).json({ message: "Internal server error" });
@@ -0,0 +1,148 @@
+import { Router } from "express";
+import { z } from "zod";
+import type { GateRule } from "@shared/schema";
+import { storage } from "../storage";
+import { authenticateRequest, requireRole } from "../auth";
+import { param, parseIntParam } from "../utils";
+import { logger } from "../logger";
+import {
+  evaluateGateRule,
+  gateRulesSchema,
+  loadGateRuleData,
+  severityOverridesSchema,
+} from "../workflow/validators/rulePacks";
+
+const packBodySchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).nullable().optional(),
+  carrierId: z.number().int().positive().nullable().optional(),
+  flowId: z.number().int().positive().nullable().optional(),
+  rules: gateRulesSchema,
+  severityOverrides: severityOverridesSchema.optional(),
+  isActive: z.boolean().optional(),
+});
+
+const packUpdateSchema = packBodySchema.partial().strict();
+
+/** The carrier and flow a pack is scoped to must exist; null scopes it to all. */
+async function scopeError(data: { carrierId?: number | null; flowId?: number | null }): Promise<string | null> {
+  if (data.carrierId != null && !(await storage.getCarrier(data.carrierId))) return "Carrier not found";
+  if (data.flowId != null && !(await storage.getInspectionFlow(data.flowId))) return "Inspection flow not found";
+  return null;
+}
+
+export function gateRulePacksRouter(): Router {
+  const router = Router();
+
+  router.get("/", authenticateRequest, requireRole("supervisor", "admin"), async (req, res) => {
+    try {
+      res.json(await storage.getGateRulePacks());
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.get("/:id", authenticateRequest, requireRole("supervisor", "admin"), async (req, res) => {
+    try {
+      const id = parseIntParam(param(req.params.id), res, "pack id");
+      if (id === null) return;
+      const pack = await storage.getGateRulePack(id);
+      if (!pack) return res.status(404).json({ message: "Gate rule pack not found" });
+      res.json(pack);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.post("/", authenticateRequest, requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = packBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid gate rule pack", errors: parsed.error.issues });
+      }
+      const scope = await scopeError(parsed.data);
+      if (scope) return res.status(400).json({ message: scope });
+      const pack = await storage.createGateRulePack({
+        ...parsed.data,
+        rules: parsed.data.rules as GateRule[],
+        createdBy: req.user?.id ?? null,
+      });
+      logger.info("GateRulePacks", `Created pack ${pack.id} "${pack.name}" (carrier ${pack.carrierId ?? "any"}, flow ${pack.flowId ?? "any"})`);
+      res.status(201).json(pack);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.patch("/:id", authenticateRequest, requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseIntParam(param(req.params.id), res, "pack id");
+      if (id === null) return;
+      const parsed = packUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid gate rule pack update", errors: parsed.error.issues });
+      }
+      const scope = await scopeError(parsed.data);
+      if (scope) return res.status(400).json({ message: scope });
+      const { rules, ...updates } = parsed.data;
+      const pack = await storage.updateGateRulePack(id, {
+        ...updates,
+        ...(rules !== undefined && { rules: rules as GateRule[] }),
+      });
+      if (!pack) return res.status(404).json({ message: "Gate rule pack not found" });
+      res.json(pack);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.delete("/:id", authenticateRequest, requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseIntParam(param(req.params.id), res, "pack id");
+      if (id === null) return;
+      if (!(await storage.deleteGateRulePack(id))) {
+        return res.status(404).json({ message: "Gate rule pack not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Checks a pack's rules against an existing session, active or not, without
+  // touching it; severity overrides are not applied
+  router.post("/:id/evaluate", authenticateRequest, requireRole("supervisor", "admin"), async (req, res) => {
+    try {
+      const id = parseIntParam(param(req.params.id), res, "pack id");
+      if (id === null) return;
+      const parsed = z.object({ sessionId: z.number().int().positive() }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "sessionId is required", errors: parsed.error.issues });
+      }
+      const pack = await storage.getGateRulePack(id);
+      if (!pack) return res.status(404).json({ message: "Gate rule pack not found" });
+      if (!(await storage.getInspectionSession(parsed.data.sessionId))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      const rules = gateRulesSchema.safeParse(pack.rules);
+      if (!rules.success) {
+        return res.status(422).json({ message: "Pack has invalid rules", errors: rules.error.issues });
+      }
+      const data = await loadGateRuleData(parsed.data.sessionId);
+      const issues = (rules.data as GateRule[]).flatMap((rule) =>
+        evaluateGateRule(rule, data).map((issue) => ({ ...issue, gate: rule.gate, pack: { id: pack.id, name: pack.name, ruleId: rule.id } }))
+      );
+      res.json({ sessionId: parsed.data.sessionId, issues });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  return router;
+}
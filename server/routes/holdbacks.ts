@@ -0,0 +1,271 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { authenticateRequest } from "../auth";
+import { requireClaimAccess } from "../authorization";
+import { param, parseIntParam, MAX_DOCUMENT_BYTES, decodeBase64Payload, uploadToSupabase } from "../utils";
+import { logger } from "../logger";
+import { emit } from "../events";
+import { z } from "zod";
+import {
+  buildHoldbackLedger,
+  defaultRepairDeadline,
+  holdbacksFromSettlement,
+  holdbackStatus,
+  validateRelease,
+} from "../depreciationHoldback";
+import type { DepreciationHoldback } from "@shared/schema";
+
+const PROOF_CONTENT_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+};
+
+const syncBodySchema = z.object({
+  sessionId: z.number().int().positive().optional(),
+  repairDeadline: z.coerce.date().optional(),
+});
+
+const holdbackUpdateSchema = z.object({
+  repairDeadline: z.coerce.date().nullable().optional(),
+  notes: z.string().max(2000).nullable().optional(),
+  closed: z.boolean().optional(),
+}).strict();
+
+const proofBodySchema = z.object({
+  fileName: z.string().min(1),
+  fileBase64: z.string().min(1),
+  description: z.string().max(500).optional(),
+});
+
+const releaseBodySchema = z.object({
+  amount: z.number().positive().optional(),
+  full: z.boolean().optional(),
+  proofId: z.number().int().positive().optional(),
+  notes: z.string().max(2000).optional(),
+  overrideDeadline: z.boolean().optional(),
+}).refine(b => b.full || b.amount != null, { message: "Provide an amount or set full: true", path: ["amount"] });
+
+export function holdbacksRouter() {
+  const router = Router({ mergeParams: true });
+
+  async function resolveClaimId(req: any, res: any): Promise<number | null> {
+    const claimId = parseIntParam(param(req.params.claimId), res, "claim id");
+    if (claimId === null) return null;
+    const claim = await requireClaimAccess(req, res, claimId);
+    return claim ? claimId : null;
+  }
+
+  async function resolveHoldback(req: any, res: any, claimId: number): Promise<DepreciationHoldback | null> {
+    const holdbackId = parseIntParam(param(req.params.holdbackId), res, "holdback id");
+    if (holdbackId === null) return null;
+    const holdback = await storage.getHoldback(holdbackId);
+    if (!holdback || holdback.claimId !== claimId) {
+      res.status(404).json({ message: "Holdback not found for this claim" });
+      return null;
+    }
+    return holdback;
+  }
+
+  async function loadLedger(holdback: DepreciationHoldback) {
+    const proofs = await storage.getHoldbackProofsForClaim(holdback.claimId);
+    const releases = await storage.getHoldbackReleasesForClaim(holdback.claimId);
+    return buildHoldbackLedger(holdback, proofs, releases);
+  }
+
+  router.get("/", authenticateRequest, async (req, res) => {
+    try {
+      const claimId = await resolveClaimId(req, res);
+      if (claimId === null) return;
+      const holdbacks = await storage.getHoldbacksForClaim(claimId);
+      const proofs = await storage.getHoldbackProofsForClaim(claimId);
+      const releases = await storage.getHoldbackReleasesForClaim(claimId);
+      const ledgers = holdbacks.map(h => buildHoldbackLedger(h, proofs, releases));
+      res.json({
+        holdbacks: ledgers,
+        totals: {
+          withheld: ledgers.reduce((s, l) => s + l.withheld, 0),
+          released: ledgers.reduce((s, l) => s + l.released, 0),
+          remaining: ledgers.reduce((s, l) => s + l.remaining, 0),
+        },
+      });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Creates or refreshes the per-coverage holdbacks from the current settlement
+  router.post("/sync", authenticateRequest, async (req, res) => {
+    try {
+      const claimId = await resolveClaimId(req, res);
+      if (claimId === null) return;
+      const parsed = syncBodySchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid holdback sync request", errors: parsed.error.flatten().fieldErrors });
+      }
+
+      let sessionId = parsed.data.sessionId;
+      if (sessionId != null) {
+        const session = await storage.getInspectionSession(sessionId);
+        if (!session || session.claimId !== claimId) {
+          return res.status(404).json({ message: "Inspection session not found for this claim" });
+        }
+      } else {
+        sessionId = (await storage.getLatestSessionForClaim(claimId))?.id;
+        if (sessionId == null) {
+          return res.status(409).json({ message: "Claim has no inspection session to settle" });
+        }
+      }
+
+      const summary = await storage.getSettlementSummary(sessionId, claimId);
+      const existing = await storage.getHoldbacksForClaim(claimId);
+      const releases = await storage.getHoldbackReleasesForClaim(claimId);
+
+      const synced: DepreciationHoldback[] = [];
+      for (const { coverageType, withheldAmount } of holdbacksFromSettlement(summary?.coverages || [])) {
+        const current = existing.find(h => h.coverageType === coverageType);
+        const released = releases
+          .filter(r => current && r.holdbackId === current.id)
+          .reduce((s, r) => s + (Number(r.amount) || 0), 0);
+        synced.push(await storage.upsertHoldback({
+          claimId,
+          coverageType,
+          withheldAmount,
+          repairDeadline: current?.repairDeadline ?? parsed.data.repairDeadline ?? defaultRepairDeadline(),
+          status: holdbackStatus(current?.status, withheldAmount, released),
+          notes: current?.notes ?? null,
+        }));
+      }
+      res.json({ holdbacks: synced });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.patch("/:holdbackId", authenticateRequest, async (req, res) => {
+    try {
+      const claimId = await resolveClaimId(req, res);
+      if (claimId === null) return;
+      const holdback = await resolveHoldback(req, res, claimId);
+      if (!holdback) return;
+      const parsed = holdbackUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid holdback update", errors: parsed.error.flatten().fieldErrors });
+      }
+      const { closed, ...fields } = parsed.data;
+      const updates: Record<string, unknown> = { ...fields };
+      if (closed !== undefined) {
+        const ledger = await loadLedger({ ...holdback, status: closed ? "closed" : "open" });
+        updates.status = ledger.status;
+      }
+      const updated = await storage.updateHoldback(holdback.id, updates);
+      res.json(updated);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.post("/:holdbackId/proofs", authenticateRequest, async (req, res) => {
+    try {
+      const claimId = await resolveClaimId(req, res);
+      if (claimId === null) return;
+      const holdback = await resolveHoldback(req, res, claimId);
+      if (!holdback) return;
+      const parsed = proofBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid proof of repair upload", errors: parsed.error.flatten().fieldErrors });
+      }
+      const { fileName, fileBase64, description } = parsed.data;
+      const contentType = PROOF_CONTENT_TYPES[fileName.split(".").pop()?.toLowerCase() || ""];
+      if (!contentType) {
+        return res.status(400).json({ message: "Proof of repair must be a PDF, JPEG or PNG file" });
+      }
+      const { buffer, wasTruncated } = decodeBase64Payload(fileBase64, MAX_DOCUMENT_BYTES);
+      if (wasTruncated) {
+        return res.status(413).json({ message: "File exceeds max upload size (25MB)" });
+      }
+
+      const storagePath = await uploadToSupabase(claimId, "proof_of_repair", buffer, `${Date.now()}-${fileName}`, contentType);
+      const proof = await storage.createHoldbackProof({
+        holdbackId: holdback.id,
+        claimId,
+        fileName,
+        fileSize: buffer.length,
+        storagePath,
+        description: description ?? null,
+        uploadedBy: req.user?.id ?? null,
+      });
+      emit({
+        type: "depreciation.proofUploaded",
+        claimId,
+        holdbackId: holdback.id,
+        coverageType: holdback.coverageType,
+        userId: req.user?.id,
+        meta: { proofId: proof.id },
+      });
+      res.status(201).json(proof);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.post("/:holdbackId/releases", authenticateRequest, async (req, res) => {
+    try {
+      const claimId = await resolveClaimId(req, res);
+      if (claimId === null) return;
+      const holdback = await resolveHoldback(req, res, claimId);
+      if (!holdback) return;
+      const parsed = releaseBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid release", errors: parsed.error.flatten().fieldErrors });
+      }
+
+      const ledger = await loadLedger(holdback);
+      const amount = parsed.data.full ? ledger.remaining : parsed.data.amount!;
+      if (parsed.data.proofId != null && !ledger.proofs.some(p => p.id === parsed.data.proofId)) {
+        return res.status(404).json({ message: "Proof of repair not found for this holdback" });
+      }
+      const rejection = validateRelease(ledger, amount, { overrideDeadline: parsed.data.overrideDeadline });
+      if (rejection) {
+        return res.status(409).json({ message: rejection });
+      }
+
+      const release = await storage.createHoldbackRelease({
+        holdbackId: holdback.id,
+        claimId,
+        amount,
+        proofId: parsed.data.proofId ?? null,
+        releasedBy: req.user?.id ?? null,
+        notes: parsed.data.notes ?? null,
+      });
+      const released = ledger.released + amount;
+      const status = holdbackStatus(holdback.status, ledger.withheld, released);
+      await storage.updateHoldback(holdback.id, { status });
+
+      const remaining = Math.max(0, Math.round((ledger.withheld - released) * 100) / 100);
+      const event = {
+        claimId,
+        holdbackId: holdback.id,
+        coverageType: holdback.coverageType,
+        userId: req.user?.id,
+        meta: { releaseId: release.id, amount, released, remaining },
+      };
+      emit({ type: "depreciation.released", ...event });
+      if (status === "released") {
+        emit({ type: "depreciation.fullyReleased", ...event });
+      }
+
+      res.status(201).json({ release, status, released, remaining });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  return router;
+}
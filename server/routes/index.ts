@@ -7,6 +7,17 @@ import { settingsRouter } from "./settings";
 import { profileRouter } from "./profile";
 import { adminRouter } from "./admin";
 import { claimsRouter } from "./claims";
+import { contentsRouter } from "./contents";
+import { holdbacksRouter } from "./holdbacks";
+import { paymentsRouter } from "./payments";
+import { estimateVersionsRouter } from "./estimateVersions";
+import { esxImportRouter } from "./esxImport";
+import { reconciliationsRouter } from "./reconciliations";
+import { roofReportsRouter } from "./roofReports";
+import { depreciationSchedulesRouter } from "./depreciationSchedules";
+import { carriersRouter } from "./carriers";
+import { gateRulePacksRouter } from "./gateRulePacks";
+import { taxJurisdictionsRouter } from "./taxJurisdictions";
 import { documentsRouter } from "./documents";
 import { flowsRouter } from "./flows";
 import { pricingRouter } from "./pricing";
@@ -73,7 +84,18 @@ export async function registerRoutes(
   app.use("/api/settings", settingsRouter());
   app.use("/api", profileRouter());
   app.use("/api/admin", adminRouter());
+  app.use("/api/admin/depreciation-schedules", depreciationSchedulesRouter());
+  app.use("/api/admin/carriers", carriersRouter());
+  app.use("/api/admin/gate-rule-packs", gateRulePacksRouter());
+  app.use("/api/tax-jurisdictions", taxJurisdictionsRouter());
   app.use("/api/claims", claimsRouter());
+  app.use("/api/claims/:claimId/contents", contentsRouter());
+  app.use("/api/claims/:claimId/holdbacks", holdbacksRouter());
+  app.use("/api/claims/:claimId/payments", paymentsRouter());
+  app.use("/api/inspection/:sessionId/versions", estimateVersionsRouter());
+  app.use("/api/claims/:claimId/esx", esxImportRouter());
+  app.use("/api/inspection/:sessionId/reconciliations", reconciliationsRouter());
+  app.use("/api/inspection/:sessionId/roof-report", roofReportsRouter());
   app.use("/api/documents", documentsRouter());
   app.use("/api/flows", flowsRouter());
   app.use("/api/pricing", pricingRouter());
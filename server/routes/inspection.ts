@@ -14,9 +14,50 @@ import { assembleScope } from "../scopeAssemblyService";
 import { handleWaterDamageProtocol } from "../waterProtocol";
 import { deriveQuantity, type QuantityFormula } from "../scopeQuantityEngine";
 import { calculateDepreciation, lookupLifeExpectancy } from "../depreciationEngine";
-import { calculateItemDepreciation } from "../estimateEngine";
-import { advance, canAdvance, getAllowedTools, getWorkflowState, runGates, setWorkflowState, validateToolForWorkflow } from "../workflow/orchestrator";
+import { resolveClaimDepreciationSchedule } from "../depreciationSchedules";
+import { resolveClaimLaborBurden } from "../taxJurisdiction";
+import { syncMinimumCharges } from "../minimumCharges";
+import {
+  MATCHING_PROVENANCE,
+  MATERIAL_AVAILABILITY,
+  applyMatching,
+  matchingRulesForState,
+  matchingSurface,
+  recommendMatching,
+} from "../matching";
+import {
+  ATMOSPHERIC_PLACEMENTS,
+  DRYING_EQUIPMENT_TYPES,
+  LOG_DATE,
+  getSessionDryingLog,
+  syncDryingLineItems,
+  todayLogDate,
+} from "../dryingLog";
+import { ensureOrdinanceLawRule, routeCodeUpgrade } from "../ordinanceLaw";
+import { calculateItemDepreciation, deriveCoverageBucket, type CoverageSummary } from "../estimateEngine";
+import { buildContentsReport, type ContentsReport } from "../contentsInventory";
+import { rdPaidByCoverage } from "../depreciationHoldback";
+import { priorPaymentsByCoverage } from "../claimPayments";
+import { createEstimateVersion, type EstimateVersionTrigger } from "../estimateVersions";
+import { createInspectionRoom, updateInspectionRoomDimensions } from "../inspectionRooms";
+import { assessCompleteness } from "../inspectionCompleteness";
+import { deleteInspectionPhoto } from "../inspectionPhotos";
+import { recordDamage } from "../inspectionDamages";
+import { RELATED_ITEM_CATEGORIES, SMART_MACRO_TYPES, applySmartMacro, createInspectionLineItem, relatedItems, updateInspectionLineItem } from "../inspectionLineItems";
+import { recordTestSquare } from "../testSquares";
+import {
+  deleteDamageOps,
+  deleteRoomOps,
+  deleteStructureOps,
+  getCommandHistory,
+  previousValues,
+  recordCommand,
+  type CommandInput,
+  type CommandOp,
+} from "../commandLog";
+import { advance, canAdvance, completeFlowStep, getAllowedTools, getFlowPosition, getWorkflowState, runGates, setWorkflowState, validateToolForWorkflow } from "../workflow/orchestrator";
 import { runAllWorkflowGates } from "../workflow/validators";
+import { executeTool } from "../workflow/toolExecutor";
 import { toolFailure, toolSuccess } from "@shared/contracts/tools";
 
 const sessionUpdateSchema = z.object({
@@ -101,7 +142,7 @@ const openingCreateSchema = z.object({
 });
 
 const sketchAnnotationCreateSchema = z.object({
-  annotationType: z.enum(["hail_count", "wind_damage", "damage", "pitch", "storm_direction", "facet_label", "material_note", "custom"]),
+  annotationType: z.enum(["hail_count", "wind_damage", "damage", "pitch", "storm_direction", "facet_label", "material_note", "roof_line", "custom"]),
   label: z.string().min(1).max(100),
   value: z.string().max(50).nullable().optional(),
   location: z.string().max(100).nullable().optional(),
@@ -109,7 +150,7 @@ const sketchAnnotationCreateSchema = z.object({
 });
 
 const sketchAnnotationUpdateSchema = z.object({
-  annotationType: z.enum(["hail_count", "wind_damage", "damage", "pitch", "storm_direction", "facet_label", "material_note", "custom"]).optional(),
+  annotationType: z.enum(["hail_count", "wind_damage", "damage", "pitch", "storm_direction", "facet_label", "material_note", "roof_line", "custom"]).optional(),
   label: z.string().min(1).max(100).optional(),
   value: z.string().max(50).nullable().optional(),
   location: z.string().max(100).nullable().optional(),
@@ -148,6 +189,8 @@ const lineItemCreateSchema = z.object({
   qualityGrade: z.string().max(30).nullable().optional(),
   applyOAndP: z.boolean().optional(),
   macroSource: z.string().max(50).nullable().optional(),
+  sublimitKey: z.string().trim().min(1).max(40).nullable().optional(),
+  isCodeUpgrade: z.boolean().optional(),
   // ── Financial / Depreciation fields ──
   age: z.number().nonnegative().nullable().optional(),
   lifeExpectancy: z.number().positive().nullable().optional(),
@@ -164,17 +207,23 @@ const testSquareCreateSchema = z.object({
 });
 
 const smartMacroSchema = z.object({
-  macroType: z.enum(["roof_replacement_laminated", "roof_replacement_3tab", "interior_paint_walls_ceiling", "water_mitigation_dryout"]),
+  macroType: z.enum(SMART_MACRO_TYPES),
   severity: z.enum(["average", "heavy", "premium"]).optional(),
   wasteFactor: z.number().nonnegative().optional(),
   roomId: z.number().int().positive().nullable().optional(),
 });
 
 const checkRelatedItemsSchema = z.object({
-  primaryCategory: z.enum(["Cabinetry", "Roofing", "Drywall", "Siding", "Flooring", "Plumbing", "Electrical", "Windows", "Doors"]),
+  primaryCategory: z.enum(RELATED_ITEM_CATEGORIES),
   actionTaken: z.string().optional(),
 });
 
+const toolExecutionSchema = z.object({
+  name: z.string().min(1).max(60),
+  args: z.record(z.unknown()).optional(),
+  callId: z.string().max(100).optional(),
+});
+
 const adjacencyCreateSchema = z.object({
   roomIdA: z.number().int().positive(),
   roomIdB: z.number().int().positive(),
@@ -210,6 +259,29 @@ export function resolveToolName(method: string, path: string): string | null {
   return null;
 }
 
+// Exports must still succeed if the version snapshot cannot be written
+async function snapshotExportedEstimate(
+  session: { id: number; claimId: number },
+  trigger: EstimateVersionTrigger,
+  name: string,
+  createdBy: string | null,
+): Promise<void> {
+  try {
+    await createEstimateVersion(storage, session.id, session.claimId, { trigger, name, createdBy });
+  } catch (e) {
+    logger.warn(`Failed to snapshot estimate version for session ${session.id}`, e);
+  }
+}
+
+// The change is already saved; a missing undo entry must not fail the request
+async function recordUndoable(sessionId: number, command: CommandInput): Promise<void> {
+  try {
+    await recordCommand(storage, sessionId, command);
+  } catch (e) {
+    logger.warn(`Failed to record undoable command ${command.tool} for session ${sessionId}`, e);
+  }
+}
+
 export async function registerInspectionRoutes(app: Express): Promise<void> {
 
   // Workflow tool-allowlist tracking middleware (warn-only, never blocks)
@@ -481,6 +553,30 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
     }
   });
 
+  app.get("/api/inspection/:sessionId/flow", authenticateRequest, async (req, res) => {
+    try {
+      const sessionId = parseInt(param(req.params.sessionId));
+      const position = await getFlowPosition(sessionId, storage);
+      if (!position) return res.status(404).json({ message: "No active inspection flow" });
+      res.json(position);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/inspection/:sessionId/flow/advance", authenticateRequest, async (req, res) => {
+    try {
+      const sessionId = parseInt(param(req.params.sessionId));
+      const result = await completeFlowStep(sessionId, storage);
+      if (!result) return res.status(404).json({ message: "No active inspection flow" });
+      res.json(result);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   app.post("/api/inspection/:sessionId/gates/run", authenticateRequest, async (req, res) => {
     try {
       const sessionId = parseInt(param(req.params.sessionId));
@@ -565,29 +661,44 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
     }
   });
 
+  // Single entry point for voice tools; failures come back as ToolResult envelopes, not HTTP errors
+  app.post("/api/inspection/:sessionId/tools", authenticateRequest, async (req, res) => {
+    try {
+      const sessionId = parseInt(param(req.params.sessionId));
+      const parsed = toolExecutionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid tool call", errors: parsed.error.flatten().fieldErrors });
+      }
+      const result = await executeTool(storage, sessionId, { ...parsed.data, userId: req.user?.id });
+      res.json(result);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/inspection/:sessionId/commands", authenticateRequest, async (req, res) => {
+    try {
+      const sessionId = parseInt(param(req.params.sessionId));
+      const history = await getCommandHistory(storage, sessionId);
+      // Most recent first, as they would be undone or redone
+      const summarize = (entries: typeof history.undo) =>
+        entries.slice(-10).reverse().map((c) => ({ id: c.id, tool: c.tool, label: c.label, at: c.at }));
+      res.json({ undo: summarize(history.undo), redo: summarize(history.redo) });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   app.get("/api/inspection/:sessionId/validate-phase", authenticateRequest, async (req, res) => {
     try {
       const sessionId = parseInt(param(req.params.sessionId));
       const session = await storage.getInspectionSession(sessionId);
       if (!session) return res.status(404).json({ message: "Session not found" });
-      const claim = await storage.getClaim(session.claimId);
-      const userSettings = await storage.getUserSettings(req.user!.id);
-      const requirePhotoVerification =
-        (userSettings as Record<string, unknown> | null)?.requirePhotoVerification !== false;
-      const currentPhase = req.query.phase ? parseInt(req.query.phase as string) : (session.currentPhase || 1);
-      const { validatePhaseTransition } = await import("../phaseValidation");
-      const validation = await validatePhaseTransition(
-        storage,
-        sessionId,
-        currentPhase,
-        claim?.perilType || undefined,
-        { requirePhotoVerification }
-      );
-      res.json({
-        currentPhase,
-        nextPhase: currentPhase + 1,
-        ...validation,
-      });
+      const phase = req.query.phase ? parseInt(req.query.phase as string) : undefined;
+      const { validateSessionPhase } = await import("../phaseValidation");
+      res.json(await validateSessionPhase(storage, session, req.user!.id, phase));
     } catch (error: any) {
       logger.apiError(req.method, req.path, error);
       res.status(500).json({ message: "Internal server error" });
@@ -645,9 +756,15 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
 
   app.delete("/api/inspection/:sessionId/structures/:structureId", authenticateRequest, async (req, res) => {
     try {
+      const sessionId = parseInt(param(req.params.sessionId));
       const structureId = parseInt(param(req.params.structureId));
       const cascade = req.query.cascade === "true" || req.query.cascade === "1";
+      const structure = await storage.getStructure(structureId);
+      const ops = structure ? await deleteStructureOps(storage, structure) : [];
       await storage.deleteStructure(structureId, cascade);
+      if (structure) {
+        await recordUndoable(sessionId, { tool: "delete_structure", label: `Deleted structure "${structure.name}".`, ops });
+      }
       res.status(204).send();
     } catch (error: any) {
       if (error?.message?.includes("Cannot delete structure")) {
@@ -679,101 +796,19 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
       if (!parsed.success) {
         return res.status(400).json({ message: "Invalid room data", errors: parsed.error.flatten().fieldErrors });
       }
-      const { name, roomType, structure, structureId, viewType, shapeType,
-              parentRoomId, attachmentType, dimensions, polygon, position,
-              floor, facetLabel, pitch, phase } = parsed.data;
-      const structureName = structure || "Main Dwelling";
-
-      // Resolve structureId: use provided ID, or auto-create from legacy structure string
-      let resolvedStructureId = structureId || null;
-      if (!resolvedStructureId && structure) {
-        let existingStruct = await storage.getStructureByName(sessionId, structure);
-        if (!existingStruct) {
-          const sType = structure.toLowerCase().includes("garage") ? "garage"
-            : structure.toLowerCase().includes("shed") ? "shed"
-            : structure.toLowerCase().includes("fence") ? "fence"
-            : "dwelling";
-          existingStruct = await storage.createStructure({
-            sessionId,
-            name: structure,
-            structureType: sType,
-          });
-        }
-        resolvedStructureId = existingStruct.id;
-      }
-
-      // Validate parentRoomId if provided (L3 subroom)
-      if (parentRoomId) {
-        const parentRoom = await storage.getRoom(parentRoomId);
-        if (!parentRoom || parentRoom.sessionId !== sessionId) {
-          return res.status(400).json({ message: "Invalid parentRoomId: parent room not found in this session" });
-        }
+      const outcome = await createInspectionRoom(storage, sessionId, parsed.data);
+      if (!outcome.created) {
+        return res.json(outcome.room); // idempotent
       }
-
-      // Check for duplicate: elevation rooms update dimensions, others return existing
-      const isElevation = roomType && roomType.startsWith("exterior_elevation_");
-      if (isElevation) {
-        const existingRooms = await storage.getRooms(sessionId);
-        const duplicate = existingRooms.find(
-          (r) => r.roomType === roomType && (r.structure || "Main Dwelling") === structureName
-        );
-        if (duplicate) {
-          if (dimensions) {
-            const updated = await storage.updateRoom(duplicate.id, { dimensions, status: "in_progress" });
-            if (updated) {
-              await storage.updateSessionRoom(sessionId, updated.id);
-              return res.status(200).json(updated);
-            }
-          }
-          await storage.updateSessionRoom(sessionId, duplicate.id);
-          return res.status(200).json(duplicate);
-        }
-      } else {
-        const existingRoom = await storage.getRoomByName(sessionId, name);
-        if (existingRoom) {
-          return res.json(existingRoom); // idempotent
-        }
-      }
-
-
-      const room = await storage.createRoom({
-        sessionId,
-        name,
-        roomType: roomType || null,
-        structure: structureName,
-        structureId: resolvedStructureId,
-        viewType: viewType || "interior",
-        shapeType: shapeType || "rectangle",
-        parentRoomId: parentRoomId || null,
-        attachmentType: attachmentType || null,
-        dimensions: dimensions || null,
-        polygon: polygon || null,
-        position: position || null,
-        floor: floor || 1,
-        facetLabel: facetLabel || null,
-        pitch: pitch || null,
-        status: "in_progress",
-        phase: phase || null,
-      });
-      await storage.updateSessionRoom(sessionId, room.id);
+      const { room, context } = outcome;
       emit({ type: "inspection.roomCreated", sessionId, claimId: (await storage.getInspectionSession(sessionId))?.claimId, userId: req.user?.id, meta: { roomId: room.id } });
 
       // Return enriched response with hierarchy context
-      const siblings = resolvedStructureId
-        ? (await storage.getRoomsForStructure(resolvedStructureId)).filter(r => r.id !== room.id && !r.parentRoomId)
-        : [];
-
-      res.status(201).json({
-        ...room,
-        _context: {
-          structureName: structure || "Main Dwelling",
-          structureId: resolvedStructureId,
-          siblingRooms: siblings.map(s => ({ id: s.id, name: s.name, status: s.status })),
-          isSubArea: !!parentRoomId,
-          parentRoomName: parentRoomId ? (await storage.getRoom(parentRoomId))?.name : null,
-        },
-      });
+      res.status(201).json({ ...room, _context: context });
     } catch (error: any) {
+      if (error?.message?.startsWith("Invalid parentRoomId")) {
+        return res.status(400).json({ message: error.message });
+      }
       logger.apiError(req.method, req.path, error); res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -820,8 +855,12 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
 
   app.delete("/api/inspection/:sessionId/rooms/:roomId", authenticateRequest, async (req, res) => {
     try {
+      const sessionId = parseInt(param(req.params.sessionId));
       const roomId = parseInt(param(req.params.roomId));
+      const room = await storage.getRoom(roomId);
+      const ops = room ? await deleteRoomOps(storage, room) : [];
       await storage.deleteRoom(roomId);
+      if (room) await recordUndoable(sessionId, { tool: "delete_room", label: `Deleted room "${room.name}".`, ops });
       res.json({ success: true });
     } catch (error: any) {
       logger.apiError(req.method, req.path, error); res.status(500).json({ message: "Internal server error" });
@@ -1071,76 +1110,9 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
         return res.status(400).json({ error: "roomId must belong to the target sessionId" });
       }
 
-      const existingDims = (room.dimensions as Record<string, any>) || {};
-      const merged = { ...existingDims, ...req.body };
-
-      // Recalculate DIM_VARS when length/width/height are present
-      const dims = merged as RoomDimensions;
-      if (dims.length && dims.width) {
-        const openings = await storage.getOpeningsForRoom(roomId);
-        const openingData: OpeningData[] = openings.map((o) => ({
-          openingType: o.openingType,
-          widthFt: o.widthFt ?? o.width ?? 0,
-          heightFt: o.heightFt ?? o.height ?? 0,
-          quantity: o.quantity ?? 1,
-          opensInto: o.opensInto ?? null,
-          goesToFloor: o.goesToFloor ?? false,
-          goesToCeiling: o.goesToCeiling ?? false,
-        }));
-        const { beforeMW, afterMW } = calculateDimVars(dims, openingData);
-        merged.dimVars = afterMW;
-        merged.dimVarsBeforeMW = beforeMW;
-      }
-
-      const updated = await storage.updateRoomDimensions(roomId, merged);
-
-      // Auto-rescope: re-derive quantities for existing scope items and line items
-      let rescopedItems = 0;
-      if (dims.length && dims.width) {
-        try {
-          const updatedRoom = await storage.getRoom(roomId);
-          if (updatedRoom) {
-            const openings = await storage.getOpeningsForRoom(roomId);
-            const netDeduction = openings.reduce((sum, o) =>
-              ((o.widthFt ?? o.width ?? 0) * (o.heightFt ?? o.height ?? 0) * (o.quantity ?? 1)) + sum, 0);
-
-            // Re-derive scope item quantities
-            const roomScopeItems = await storage.getScopeItemsForRoom(roomId);
-            for (const si of roomScopeItems) {
-              if (si.status !== "active" || !si.catalogCode) continue;
-              const formula = si.quantityFormula;
-              if (!formula || formula === "MANUAL" || formula === "EACH") continue;
-
-              const qResult = deriveQuantity(updatedRoom, formula as QuantityFormula, netDeduction);
-              if (qResult && qResult.quantity > 0) {
-                await storage.updateScopeItem(si.id, { quantity: qResult.quantity });
-              }
-            }
-
-            // Re-derive line item quantities
-            const roomLineItems = await storage.getLineItemsForRoom(roomId);
-            for (const li of roomLineItems) {
-              if (!li.xactCode || li.provenance === "manual") continue;
-              const catalogItem = await storage.getScopeLineItemByCode(li.xactCode);
-              if (!catalogItem?.quantityFormula || catalogItem.quantityFormula === "MANUAL" || catalogItem.quantityFormula === "EACH") continue;
-
-              const qResult = deriveQuantity(updatedRoom, catalogItem.quantityFormula as QuantityFormula, netDeduction);
-              if (qResult && qResult.quantity > 0) {
-                const unitPrice = parseFloat(String(li.unitPrice) || "0");
-                const waste = li.wasteFactor || 0;
-                const totalPrice = qResult.quantity * unitPrice * (1 + waste / 100);
-                await storage.updateLineItem(li.id, {
-                  quantity: String(qResult.quantity),
-                  totalPrice: String(totalPrice.toFixed(2)),
-                } as any);
-                rescopedItems++;
-              }
-            }
-          }
-        } catch (rescopeErr) {
-          logger.warn("DimUpdate", `Auto-rescope after dimension update failed for room ${roomId}`, rescopeErr as Error);
-        }
-      }
+      const { room: updated, rescopedItems, ops } = await updateInspectionRoomDimensions(storage, room, req.body);
+      if (rescopedItems > 0) emit({ type: "inspection.lineItemUpdated", sessionId: room.sessionId, userId: req.user?.id, meta: { roomId } });
+      await recordUndoable(room.sessionId, { tool: "update_room_dimensions", label: `Updated the dimensions of ${room.name}.`, ops });
 
       res.json({ ...updated, rescopedItems });
     } catch (error: any) {
@@ -1228,94 +1200,12 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
       if (!room || room.sessionId !== sessionId) {
         return res.status(400).json({ message: "roomId must belong to the target session" });
       }
-      const damage = await storage.createDamage({
-        sessionId,
-        roomId: normalizedRoomId,
-        description,
-        damageType: damageType || null,
-        severity: severity || null,
-        location: location || null,
-        measurements: measurements || null,
+      const { damage, autoScope, ops } = await recordDamage(storage, sessionId, room, {
+        description, damageType, severity, location, measurements,
       });
-      await storage.incrementRoomDamageCount(normalizedRoomId);
       emit({ type: "inspection.damageAdded", sessionId, userId: req.user?.id, meta: { roomId: normalizedRoomId, damageId: damage.id } });
-
-      // Auto-trigger scope assembly
-      let autoScope: Record<string, unknown> | null = null;
-      try {
-        if (room) {
-          const { assembleScope } = await import("../scopeAssemblyService");
-          const result = await assembleScope(storage, sessionId, room, damage);
-          const itemsCreated = result.created.length + result.companionItems.length;
-          const items: Array<{ code: string; description: string; quantity: number; unit: string; unitPrice?: number; totalPrice?: number; source: string }> = [];
-
-          async function lookupPrice(catalogCode: string, activityType: string | null): Promise<number> {
-            const act = activityType || "install";
-            let rp = await storage.getRegionalPrice(catalogCode, "FLFM8X_NOV22", act);
-            if (!rp) rp = await storage.getRegionalPrice(catalogCode, "US_NATIONAL", act);
-            if (!rp) return 0;
-            return (Number(rp.materialCost) || 0) + (Number(rp.laborCost) || 0) + (Number(rp.equipmentCost) || 0);
-          }
-
-          // Derive quantities using the catalog's quantityFormula via scopeQuantityEngine
-          // (scope items already have derived quantities from assembleScope v5)
-          const allScopeItems = [...result.created, ...result.companionItems];
-          for (const si of allScopeItems) {
-            const actType = si.activityType || "install";
-            const catalogCode = si.catalogCode || "";
-            const up = catalogCode ? await lookupPrice(catalogCode, actType) : 0;
-            // Use the quantity already derived by assembleScope (via scopeQuantityEngine)
-            // which uses the catalog's quantityFormula field for accurate derivation
-            const qty = parseFloat((si.quantity || 1).toFixed(2));
-            const total = up * qty * (1 + (Number(si.wasteFactor) || 0) / 100);
-
-            const lineItem = await storage.createLineItem({
-              sessionId,
-              roomId: si.roomId,
-              damageId: si.damageId,
-              category: si.tradeCode,
-              action: si.activityType || "replace",
-              description: si.description,
-              xactCode: si.catalogCode,
-              quantity: String(qty),
-              unit: si.unit || "EA",
-              unitPrice: String(up.toFixed(2)),
-              totalPrice: String(total.toFixed(2)),
-              tradeCode: si.tradeCode,
-              coverageType: si.coverageType || "A",
-              provenance: "auto_scope",
-              wasteFactor: si.wasteFactor ? Math.round(si.wasteFactor) : null,
-              applyOAndP: false,
-            });
-
-            items.push({
-              code: catalogCode,
-              description: si.description,
-              quantity: qty,
-              unit: si.unit || "EA",
-              unitPrice: up,
-              totalPrice: total,
-              source: result.created.includes(si) ? "auto_scope" : "companion",
-            });
-          }
-          const roomDims = room.dimensions as Record<string, unknown> | null;
-          const dimensionsAvailable = !!(roomDims && (roomDims.length as number) > 0 && (roomDims.width as number) > 0);
-          autoScope = {
-            itemsCreated,
-            itemsGenerated: itemsCreated,
-            items,
-            companionItems: result.companionItems.length,
-            manualQuantityNeeded: result.manualQuantityNeeded,
-            warnings: result.warnings,
-            dimensionsAvailable,
-            dimensionWarning: !dimensionsAvailable
-              ? "Room dimensions not set — quantities default to 1. Provide dimensions with update_room_dimensions for accurate quantities."
-              : undefined,
-          };
-        }
-      } catch (scopeErr) {
-        logger.apiError(req.method, req.path, scopeErr as Error);
-      }
+      if (autoScope?.itemsCreated) emit({ type: "inspection.lineItemAdded", sessionId, userId: req.user?.id, meta: { damageId: damage.id } });
+      await recordUndoable(sessionId, { tool: "add_damage", label: `Added damage "${description}" in ${room.name}.`, ops });
 
       res.status(201).json({ damage, autoScope });
     } catch (error: any) {
@@ -1344,9 +1234,19 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
 
   app.patch("/api/inspection/:sessionId/damages/:damageId", authenticateRequest, async (req, res) => {
     try {
+      const sessionId = Number(req.params.sessionId);
+      const damageId = Number(req.params.damageId);
       const updates = damageUpdateSchema.parse(req.body);
-      const updated = await storage.updateDamage(Number(req.params.damageId), updates);
+      const existing = await storage.getDamage(damageId);
+      const updated = await storage.updateDamage(damageId, updates);
       if (!updated) return res.status(404).json({ error: "Damage not found" });
+      if (existing) {
+        await recordUndoable(sessionId, {
+          tool: "update_damage",
+          label: `Updated damage "${updated.description}".`,
+          ops: [{ op: "update", entity: "damage", id: damageId, set: updates, previous: previousValues(existing, updates) }],
+        });
+      }
       res.json(updated);
     } catch (error: any) {
       logger.apiError(req.method, req.path, error); res.status(500).json({ message: "Internal server error" });
@@ -1355,7 +1255,11 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
 
   app.delete("/api/inspection/:sessionId/damages/:damageId", authenticateRequest, async (req, res) => {
     try {
+      const sessionId = Number(req.params.sessionId);
+      const damage = await storage.getDamage(Number(req.params.damageId));
+      const ops = damage ? await deleteDamageOps(storage, damage) : [];
       await storage.deleteDamage(Number(req.params.damageId));
+      if (damage) await recordUndoable(sessionId, { tool: "delete_damage", label: `Deleted damage "${damage.description}".`, ops });
       res.json({ success: true });
     } catch (error: any) {
       logger.apiError(req.method, req.path, error); res.status(500).json({ message: "Internal server error" });
@@ -1393,7 +1297,7 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
       if (!parsed.success) {
         return res.status(400).json({ message: "Invalid line item data", errors: parsed.error.flatten().fieldErrors });
       }
-      const { roomId, damageId, category, action, description, xactCode, quantity, unit, unitPrice, depreciationType, wasteFactor, coverageBucket, qualityGrade, applyOAndP, macroSource, age, lifeExpectancy, depreciationPercentage } = parsed.data;
+      const { roomId, damageId } = parsed.data;
       if (roomId != null) {
         const room = await storage.getRoom(roomId);
         if (!room || room.sessionId !== sessionId) {
@@ -1406,129 +1310,13 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
           return res.status(400).json({ message: "damageId must belong to the target session" });
         }
       }
-      const userSettings = await storage.getUserSettings(req.user!.id);
-      const defaultWasteFactor =
-        typeof (userSettings as Record<string, unknown> | null)?.defaultWasteFactor === "number"
-          ? ((userSettings as Record<string, unknown>).defaultWasteFactor as number)
-          : 0;
-      let wf = wasteFactor ?? defaultWasteFactor;
-      const qty = quantity || 1;
-      let up = unitPrice || 0;
-      let finalDescription = description;
-      let finalUnit = unit || null;
-      let catalogMatch = false;
-      let resolvedXactCode = xactCode || null;
-
-      async function lookupCatalogPrice(code: string): Promise<boolean> {
-        const catalogItem = await storage.getScopeLineItemByCode(code);
-        if (!catalogItem) return false;
-        catalogMatch = true;
-        resolvedXactCode = code;
-        finalDescription = description || catalogItem.description || code;
-        finalUnit = unit || catalogItem.unit;
-        wf = wasteFactor ?? (
-          catalogItem.defaultWasteFactor != null
-            ? Math.round(catalogItem.defaultWasteFactor)
-            : defaultWasteFactor
-        );
-        let regionalPrice = await storage.getRegionalPrice(code, "FLFM8X_NOV22", "install");
-        if (!regionalPrice) regionalPrice = await storage.getRegionalPrice(code, "US_NATIONAL", "install");
-        if (regionalPrice) {
-          const baseCost =
-            (Number(regionalPrice.materialCost) || 0) +
-            (Number(regionalPrice.laborCost) || 0) +
-            (Number(regionalPrice.equipmentCost) || 0);
-          up = baseCost;
-        }
-        return true;
-      }
-
-      if (xactCode) {
-        await lookupCatalogPrice(xactCode);
-      }
-
-      if (!catalogMatch && up === 0) {
-        const CATEGORY_DEFAULT_CODES: Record<string, string[]> = {
-          "Roofing":       ["RFG-SHIN-AR", "RFG-SHIN-3T"],
-          "Siding":        ["SID-VINYL-SF", "SID-HARDI-SF"],
-          "Soffit/Fascia": ["SFF-ALUM-LF", "SFF-VINYL-LF"],
-          "Gutters":       ["GTR-ALUM-LF", "GTR-SEAM-LF"],
-          "Windows":       ["WIN-DBL-EA", "WIN-SGL-EA"],
-          "Doors":         ["DR-INT-EA", "DR-EXT-EA"],
-          "Drywall":       ["DRY-X-1-2", "DRY-X-5-8", "DRY-PATCH-SF"],
-          "Painting":      ["PNT-INT-SF", "PNT-CEILING-SF", "PNT-TRIM-LF"],
-          "Flooring":      ["FLR-CARPET-SF", "FLR-VINYL-SF", "FLR-LAMINATE-SF", "FLR-X-LAM"],
-          "Plumbing":      ["PLM-FIXTR-EA", "PLM-PIPE-LF"],
-          "Electrical":    ["ELC-OUTL-EA", "ELC-SWTCH-EA", "ELC-FIXTR-EA"],
-          "HVAC":          ["HVC-UNIT-EA"],
-          "Debris":        ["DEB-HAUL-EA", "DEB-DUMP-EA"],
-          "General":       ["GEN-LABOR-HR", "GEN-EQUIP-DAY"],
-          "Fencing":       ["FNC-WOOD-LF", "FNC-CHAIN-LF"],
-          "Cabinetry":     ["CAB-BASE-LF", "CAB-WALL-LF", "CAB-UPPER-LF"],
-        };
-
-        const descLower = (description || "").toLowerCase();
-        const candidateCodes: string[] = [];
-
-        if (category && CATEGORY_DEFAULT_CODES[category]) {
-          candidateCodes.push(...CATEGORY_DEFAULT_CODES[category]);
-        }
-
-        if (descLower) {
-          const allItems = await storage.getScopeLineItems();
-          const descMatch = allItems.find(item =>
-            item.description.toLowerCase().includes(descLower) ||
-            descLower.includes(item.description.toLowerCase())
-          );
-          if (descMatch) {
-            candidateCodes.unshift(descMatch.code);
-          }
-        }
-
-        for (const code of candidateCodes) {
-          const found = await lookupCatalogPrice(code);
-          if (found && up > 0) break;
-        }
-      }
-
-      let totalPrice = Math.round(qty * up * (1 + wf / 100) * 100) / 100;
-      if (applyOAndP) {
-        totalPrice = Math.round(totalPrice * 1.20 * 100) / 100; // 10% overhead + 10% profit (additive)
-      }
-
-      const depreciation = calculateDepreciation({
-        totalPrice,
-        age: age || null,
-        lifeExpectancy: lifeExpectancy || null,
-        category,
-        description: finalDescription,
-        depreciationType: depreciationType || "Recoverable",
-      });
-
-      const item = await storage.createLineItem({
-        sessionId,
-        roomId: roomId || null,
-        damageId: damageId || null,
-        category,
-        action: action || null,
-        description: finalDescription,
-        xactCode: resolvedXactCode,
-        quantity: qty,
-        unit: finalUnit,
-        unitPrice: up,
-        totalPrice,
-        depreciationType: depreciationType || "Recoverable",
-        wasteFactor: wf,
-        coverageBucket: coverageBucket || "Coverage A",
-        qualityGrade: qualityGrade || null,
-        applyOAndP: applyOAndP || false,
-        macroSource: macroSource || null,
-        age: age || null,
-        lifeExpectancy: depreciation.lifeExpectancy || null,
-        depreciationPercentage: depreciationPercentage ?? depreciation.depreciationPercentage,
-        depreciationAmount: depreciation.depreciationAmount,
-      } as any);
+      const { item, catalogMatch } = await createInspectionLineItem(storage, sessionId, parsed.data, { userId: req.user!.id });
       emit({ type: "inspection.lineItemAdded", sessionId, userId: req.user?.id, meta: { lineItemId: item.id } });
+      await recordUndoable(sessionId, {
+        tool: "add_line_item",
+        label: `Added line item "${item.description}".`,
+        ops: [{ op: "create", entity: "lineItem", id: item.id, values: item }],
+      });
       res.status(201).json({ ...item, catalogMatch });
     } catch (error: any) {
       logger.apiError(req.method, req.path, error); res.status(500).json({ message: "Internal server error" });
@@ -1555,6 +1343,18 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
     }
   });
 
+  app.get("/api/inspection/:sessionId/settlement", authenticateRequest, async (req, res) => {
+    try {
+      const sessionId = parseInt(param(req.params.sessionId));
+      const session = await storage.getInspectionSession(sessionId);
+      if (!session) return res.status(404).json({ message: "Session not found" });
+      const { depreciatedItems, ...summary } = await storage.getSettlementSummary(sessionId, session.claimId);
+      res.json(summary);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error); res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   app.patch("/api/inspection/:sessionId/line-items/:id", authenticateRequest, async (req, res) => {
     try {
       const id = parseInt(param(req.params.id));
@@ -1577,6 +1377,9 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
         qualityGrade: z.string().optional(),
         applyOAndP: z.boolean().optional(),
         macroSource: z.string().optional(),
+        sublimitKey: z.string().trim().min(1).max(40).nullable().optional(),
+        isCodeUpgrade: z.boolean().optional(),
+        incurred: z.boolean().optional(),
         age: z.number().nullable().optional(),
         lifeExpectancy: z.number().nullable().optional(),
       }).strict();
@@ -1585,41 +1388,22 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
         return res.status(400).json({ message: "Invalid update fields", errors: parsed.error.flatten() });
       }
 
-      const updates: any = { ...parsed.data };
-
-      if (updates.roomId !== undefined) {
-        const room = await storage.getRoom(updates.roomId);
-        if (!room || room.sessionId !== sessionId) {
-          return res.status(400).json({ message: "roomId must belong to the target session" });
-        }
-      }
-      if (updates.damageId !== undefined) {
-        const damage = await storage.getDamage(updates.damageId);
-        if (!damage || damage.sessionId !== sessionId) {
-          return res.status(400).json({ message: "damageId must belong to the target session" });
-        }
-      }
-
-      if (updates.age !== undefined || updates.lifeExpectancy !== undefined || updates.quantity !== undefined || updates.unitPrice !== undefined) {
-        const existing = await storage.getLineItemById(id);
-        if (existing) {
-          const effectivePrice = updates.totalPrice ?? Number(existing.totalPrice) ?? 0;
-          const depreciation = calculateDepreciation({
-            totalPrice: effectivePrice,
-            age: updates.age !== undefined ? updates.age : (existing.age ?? null),
-            lifeExpectancy: updates.lifeExpectancy !== undefined ? updates.lifeExpectancy : (existing.lifeExpectancy ?? null),
-            category: updates.category || existing.category,
-            description: updates.description || existing.description,
-            depreciationType: updates.depreciationType || existing.depreciationType || "Recoverable",
-          });
-          updates.lifeExpectancy = depreciation.lifeExpectancy || updates.lifeExpectancy || existing.lifeExpectancy;
-          updates.depreciationPercentage = depreciation.depreciationPercentage;
-          updates.depreciationAmount = depreciation.depreciationAmount;
-        }
+      let updated;
+      try {
+        updated = await updateInspectionLineItem(storage, sessionId, id, parsed.data);
+      } catch (e: any) {
+        if (e.message?.endsWith("must belong to the target session")) return res.status(400).json({ message: e.message });
+        throw e;
       }
-
-      const item = await storage.updateLineItem(id, updates);
+      const item = updated?.item;
       if (item?.sessionId) emit({ type: "inspection.lineItemUpdated", sessionId: item.sessionId, userId: req.user?.id, meta: { lineItemId: id } });
+      if (updated) {
+        await recordUndoable(sessionId, {
+          tool: "update_line_item",
+          label: `Updated line item "${updated.item.description}".`,
+          ops: updated.ops,
+        });
+      }
       res.json(item);
     } catch (error: any) {
       logger.apiError(req.method, req.path, error); res.status(500).json({ message: "Internal server error" });
@@ -1630,8 +1414,16 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
     try {
       const id = parseInt(param(req.params.id));
       const sessionId = parseInt(param(req.params.sessionId));
+      const item = await storage.getLineItemById(id);
       await storage.deleteLineItem(id);
       emit({ type: "inspection.lineItemDeleted", sessionId, userId: req.user?.id, meta: { lineItemId: id } });
+      if (item) {
+        await recordUndoable(sessionId, {
+          tool: "remove_line_item",
+          label: `Removed line item "${item.description}".`,
+          ops: [{ op: "delete", entity: "lineItem", id, values: item }],
+        });
+      }
       res.status(204).send();
     } catch (error: any) {
       logger.apiError(req.method, req.path, error); res.status(500).json({ message: "Internal server error" });
@@ -1640,38 +1432,6 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
 
   // ── Smart Macros ─────────────────────────────────
 
-  const SMART_MACRO_BUNDLES: Record<string, Array<{ category: string; action: string; description: string; xactCode: string; unit: string; defaultWaste: number; depreciationType: string }>> = {
-    roof_replacement_laminated: [
-      { category: "Roofing", action: "Tear Off", description: "Remove composition shingles - laminated", xactCode: "RFG-TEAR-LM", unit: "SQ", defaultWaste: 0, depreciationType: "Recoverable" },
-      { category: "Roofing", action: "Install", description: "Laminated composition shingles (architectural)", xactCode: "RFG-SHIN-AR", unit: "SQ", defaultWaste: 10, depreciationType: "Recoverable" },
-      { category: "Roofing", action: "Install", description: "Roofing felt - 15 lb.", xactCode: "RFG-FELT-15", unit: "SQ", defaultWaste: 10, depreciationType: "Recoverable" },
-      { category: "Roofing", action: "Install", description: "Ice & water barrier", xactCode: "RFG-ICE-WB", unit: "SQ", defaultWaste: 5, depreciationType: "Recoverable" },
-      { category: "Roofing", action: "R&R", description: "Drip edge - aluminum", xactCode: "RFG-DRIP-AL", unit: "LF", defaultWaste: 5, depreciationType: "Recoverable" },
-      { category: "Roofing", action: "Install", description: "Ridge vent - aluminum", xactCode: "RFG-RIDGE-V", unit: "LF", defaultWaste: 0, depreciationType: "Recoverable" },
-    ],
-    roof_replacement_3tab: [
-      { category: "Roofing", action: "Tear Off", description: "Remove composition shingles - 3 tab", xactCode: "RFG-TEAR-3T", unit: "SQ", defaultWaste: 0, depreciationType: "Recoverable" },
-      { category: "Roofing", action: "Install", description: "3-tab composition shingles", xactCode: "RFG-SHIN-3T", unit: "SQ", defaultWaste: 10, depreciationType: "Recoverable" },
-      { category: "Roofing", action: "Install", description: "Roofing felt - 15 lb.", xactCode: "RFG-FELT-15", unit: "SQ", defaultWaste: 10, depreciationType: "Recoverable" },
-      { category: "Roofing", action: "Install", description: "Ice & water barrier", xactCode: "RFG-ICE-WB", unit: "SQ", defaultWaste: 5, depreciationType: "Recoverable" },
-      { category: "Roofing", action: "R&R", description: "Drip edge - aluminum", xactCode: "RFG-DRIP-AL", unit: "LF", defaultWaste: 5, depreciationType: "Recoverable" },
-      { category: "Roofing", action: "Install", description: "Ridge vent - aluminum", xactCode: "RFG-RIDGE-V", unit: "LF", defaultWaste: 0, depreciationType: "Recoverable" },
-    ],
-    interior_paint_walls_ceiling: [
-      { category: "Painting", action: "Paint", description: "Seal/prime then paint walls - 2 coats", xactCode: "PTG-WALL-2C", unit: "SF", defaultWaste: 0, depreciationType: "Recoverable" },
-      { category: "Painting", action: "Paint", description: "Seal/prime then paint ceiling - 2 coats", xactCode: "PTG-CEIL-2C", unit: "SF", defaultWaste: 0, depreciationType: "Recoverable" },
-      { category: "Painting", action: "Paint", description: "Paint baseboard trim", xactCode: "PTG-TRIM-BS", unit: "LF", defaultWaste: 0, depreciationType: "Recoverable" },
-      { category: "Painting", action: "Paint", description: "Paint door/window casing trim", xactCode: "PTG-TRIM-CS", unit: "LF", defaultWaste: 0, depreciationType: "Recoverable" },
-    ],
-    water_mitigation_dryout: [
-      { category: "General", action: "Labor Only", description: "Water extraction - wet vacuum", xactCode: "WTR-EXTR-WV", unit: "SF", defaultWaste: 0, depreciationType: "Paid When Incurred" },
-      { category: "General", action: "Install", description: "Dehumidifier setup and monitoring", xactCode: "WTR-DEHU-SM", unit: "DAY", defaultWaste: 0, depreciationType: "Paid When Incurred" },
-      { category: "General", action: "Install", description: "Air mover / fan placement", xactCode: "WTR-AIRM-PL", unit: "DAY", defaultWaste: 0, depreciationType: "Paid When Incurred" },
-      { category: "General", action: "Labor Only", description: "Moisture monitoring and documentation", xactCode: "WTR-MONI-DC", unit: "HR", defaultWaste: 0, depreciationType: "Paid When Incurred" },
-      { category: "General", action: "Clean", description: "Anti-microbial treatment", xactCode: "WTR-ANTI-MC", unit: "SF", defaultWaste: 0, depreciationType: "Paid When Incurred" },
-    ],
-  };
-
   app.post("/api/inspection/:sessionId/smart-macro", authenticateRequest, async (req, res) => {
     try {
       const sessionId = parseInt(param(req.params.sessionId));
@@ -1679,11 +1439,7 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
       if (!parsed.success) {
         return res.status(400).json({ message: "Invalid smart macro data", errors: parsed.error.flatten().fieldErrors });
       }
-      const { macroType, severity, wasteFactor, roomId } = parsed.data;
-      const bundle = SMART_MACRO_BUNDLES[macroType];
-      if (!bundle) {
-        return res.status(400).json({ message: `Unknown macro type: ${macroType}` });
-      }
+      const { macroType, roomId } = parsed.data;
       if (roomId != null) {
         const room = await storage.getRoom(roomId);
         if (!room || room.sessionId !== sessionId) {
@@ -1691,47 +1447,8 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
         }
       }
 
-      const createdItems = [];
-      for (const template of bundle) {
-        const wf = Number(wasteFactor ?? template.defaultWaste ?? 0);
-
-        // Look up catalog price for this line item
-        let unitPrice = 0;
-        let totalPrice = 0;
-        const catalogItem = await lookupCatalogItem(template.xactCode);
-        if (catalogItem) {
-          let regionalPrice = await getRegionalPrice(template.xactCode, "FLFM8X_NOV22", "install");
-          if (!regionalPrice) regionalPrice = await getRegionalPrice(template.xactCode, "US_NATIONAL", "install");
-          if (regionalPrice) {
-            const materialCost = Number(regionalPrice.materialCost) || 0;
-            const laborCost = Number(regionalPrice.laborCost) || 0;
-            const equipmentCost = Number(regionalPrice.equipmentCost) || 0;
-            unitPrice = Math.round((materialCost * (1 + wf / 100) + laborCost + equipmentCost) * 100) / 100;
-            totalPrice = unitPrice; // quantity is 1
-          }
-        }
-
-        const item = await storage.createLineItem({
-          sessionId,
-          roomId: roomId || null,
-          damageId: null,
-          category: template.category,
-          action: template.action,
-          description: severity === "premium" ? `${template.description} - Premium Grade` : template.description,
-          xactCode: template.xactCode,
-          quantity: "1",
-          unit: template.unit,
-          unitPrice: unitPrice.toFixed(2),
-          totalPrice: totalPrice.toFixed(2),
-          depreciationType: template.depreciationType,
-          wasteFactor: Math.round(wf),
-          coverageBucket: "Dwelling",
-          qualityGrade: severity === "premium" ? "High Grade" : severity === "heavy" ? "Standard" : null,
-          applyOAndP: false,
-          macroSource: macroType,
-        });
-        createdItems.push(item);
-      }
+      const createdItems = await applySmartMacro(storage, sessionId, parsed.data);
+      if (createdItems.length > 0) emit({ type: "inspection.lineItemAdded", sessionId, userId: req.user?.id, meta: { macroType } });
 
       res.status(201).json({
         macroType,
@@ -1746,40 +1463,6 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
 
   // ── Related Items (Waterfall Logic) ────────────
 
-  const RELATED_ITEMS_MAP: Record<string, Record<string, string[]>> = {
-    Cabinetry: {
-      default: ["Detach/Reset Plumbing (angle stops, P-trap, supply lines)", "Disconnect/Reconnect Electrical (disposal, dishwasher)", "Countertop Detach & Reset", "Backsplash R&R if adhered to cabinet"],
-      "Remove Vanity": ["Detach/Reset Plumbing (angle stops, P-trap, supply lines)", "Disconnect faucet and drain assembly", "Mirror removal if mounted to vanity"],
-      "R&R Kitchen Cabinets": ["Detach/Reset Plumbing (angle stops, P-trap, supply lines)", "Disconnect/Reconnect Electrical (disposal, dishwasher)", "Countertop Detach & Reset", "Backsplash R&R", "Appliance pullout and reset"],
-    },
-    Roofing: {
-      default: ["Drip edge R&R", "Ice & water barrier at eaves/valleys", "Pipe jack/roof boot replacement", "Step flashing at wall intersections", "Ridge cap shingles", "Satellite dish detach & reset"],
-      "Tear Off Shingles": ["Felt/underlayment replacement", "Valley metal re-flash", "Pipe jack/boot replacement", "Drip edge inspection/replacement", "Starter strip shingles"],
-    },
-    Drywall: {
-      default: ["Texture matching (knock-down, orange peel, smooth)", "Prime and paint to match (2 coats minimum)", "Baseboard R&R if removing lower drywall", "Outlet/switch plate removal and reset"],
-      "R&R Drywall": ["Texture matching (knock-down, orange peel, smooth)", "Prime and paint to match (2 coats minimum)", "Baseboard R&R if removing lower drywall", "Outlet/switch plate removal and reset", "Insulation replacement behind drywall"],
-    },
-    Siding: {
-      default: ["House wrap / moisture barrier behind siding", "J-channel and trim pieces", "Light fixture detach & reset", "Hose bib detach & reset", "Address numbers/mailbox detach & reset"],
-    },
-    Flooring: {
-      default: ["Baseboard/shoe mold R&R", "Transition strips at doorways", "Furniture move-out and move-back", "Subfloor inspection/replacement if water damage", "Underlayment/padding replacement"],
-    },
-    Plumbing: {
-      default: ["Access panel creation if behind wall", "Drywall repair after access", "Fixture detach & reset"],
-    },
-    Electrical: {
-      default: ["Permit fees if code requires", "Outlet/switch upgrade to current code", "GFCI protection if near water source"],
-    },
-    Windows: {
-      default: ["Interior casing/trim R&R", "Exterior trim/J-channel", "Flashing and sealant", "Window screen R&R", "Blinds/window treatment detach & reset"],
-    },
-    Doors: {
-      default: ["Door hardware R&R (hinges, handle, deadbolt)", "Weatherstripping replacement", "Threshold R&R", "Door casing/trim R&R", "Lockset re-key if exterior door"],
-    },
-  };
-
   app.post("/api/inspection/:sessionId/check-related-items", authenticateRequest, async (req, res) => {
     try {
       const parsed = checkRelatedItemsSchema.safeParse(req.body);
@@ -1787,22 +1470,10 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
         return res.status(400).json({ message: "Invalid request", errors: parsed.error.flatten().fieldErrors });
       }
       const { primaryCategory, actionTaken } = parsed.data;
-      const categoryMap = RELATED_ITEMS_MAP[primaryCategory];
-      if (!categoryMap) {
-        return res.json({ suggestions: [], message: "No related items found for this category." });
-      }
-
-      const suggestions = (actionTaken && categoryMap[actionTaken])
-        ? categoryMap[actionTaken]
-        : categoryMap.default || [];
-
       res.json({
         primaryCategory,
         actionTaken: actionTaken || null,
-        suggestions,
-        message: suggestions.length > 0
-          ? `Check for: ${suggestions.join("; ")}`
-          : "No additional items suggested for this action.",
+        ...relatedItems(primaryCategory, actionTaken),
       });
     } catch (error: any) {
       logger.apiError(req.method, req.path, error); res.status(500).json({ message: "Internal server error" });
@@ -1818,7 +1489,7 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
       if (!parsed.success) {
         return res.status(400).json({ message: "Invalid test square data", errors: parsed.error.flatten().fieldErrors });
       }
-      const { roomId, hailHits, windCreases, pitch, result, notes } = parsed.data;
+      const { roomId } = parsed.data;
       if (roomId != null) {
         const room = await storage.getRoom(roomId);
         if (!room || room.sessionId !== sessionId) {
@@ -1826,33 +1497,8 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
         }
       }
 
-      const testSquare = await storage.createTestSquare({
-        sessionId,
-        roomId: roomId || null,
-        hailHits,
-        windCreases: windCreases || 0,
-        pitch,
-        result: result || (hailHits >= 8 ? "fail" : "pass"),
-        notes: notes || null,
-      });
-
-      // Determine steep charge applicability
-      const pitchParts = pitch.split("/");
-      const pitchRise = parseInt(pitchParts[0]) || 0;
-      const steepCharge = pitchRise > 7;
-
-      res.status(201).json({
-        ...testSquare,
-        _analysis: {
-          steepCharge,
-          steepChargeNote: steepCharge ? `Pitch ${pitch} exceeds 7/12 — steep charge applies to labor.` : null,
-          recommendation: hailHits >= 8
-            ? "Test square FAILS — sufficient damage for full slope replacement."
-            : hailHits >= 4
-              ? "Borderline — consider additional test squares on this facet."
-              : "Test square passes — damage below replacement threshold.",
-        },
-      });
+      const { testSquare, analysis } = await recordTestSquare(storage, sessionId, parsed.data);
+      res.status(201).json({ ...testSquare, _analysis: analysis });
     } catch (error: any) {
       logger.apiError(req.method, req.path, error); res.status(500).json({ message: "Internal server error" });
     }
@@ -1952,82 +1598,25 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
       if (!claim) return res.status(404).json({ error: "Claim not found" });
 
       const room = await storage.getRoom(roomId);
-      if (!room) return res.status(404).json({ error: "Room not found" });
-
-      const { getMatchingTemplates } = await import("../perilTemplates");
-      const { lookupCatalogItem } = await import("../estimateEngine");
-      const { deriveQuantity } = await import("../scopeQuantityEngine");
+      if (!room || room.sessionId !== sessionId) return res.status(404).json({ error: "Room not found" });
 
-      const perilType = (claim.perilType || "water").toLowerCase().replace(/_/g, " ").split(" ")[0] || "water";
-      const roomType = room.roomType || "interior_bedroom";
-
-      const templates = getMatchingTemplates(perilType, roomType);
-      const template = templateName
-        ? templates.find((t: { name: string }) => t.name === templateName)
-        : templates[0];
-
-      if (!template) {
-        return res.status(404).json({
-          error: "No matching template found",
-          availableTemplates: templates.map((t: { name: string }) => t.name),
-        });
-      }
-
-      const appliedItems: unknown[] = [];
-      const suggestedItems: unknown[] = [];
       const userSettings = await storage.getUserSettings(req.user!.id);
       const defaultWasteFactor =
         typeof (userSettings as Record<string, unknown> | null)?.defaultWasteFactor === "number"
           ? ((userSettings as Record<string, unknown>).defaultWasteFactor as number)
           : null;
 
-      for (const templateItem of template.items) {
-        if (includeAutoOnly && !templateItem.autoInclude) {
-          suggestedItems.push({ catalogCode: templateItem.catalogCode, perilNotes: templateItem.perilNotes });
-          continue;
-        }
-
-        const catalogItem = await lookupCatalogItem(templateItem.catalogCode);
-        if (!catalogItem) continue;
-
-        const formula = (catalogItem.quantityFormula || "MANUAL") as import("../scopeQuantityEngine").QuantityFormula;
-        const qResult = formula !== "MANUAL" ? deriveQuantity(room, formula) : null;
-        const quantity = (qResult?.quantity ?? 1) * (templateItem.quantityMultiplier || 1);
-
-        if (quantity <= 0) continue;
-
-        const scopeItem = await storage.createScopeItem({
-          sessionId,
-          roomId,
-          damageId: null,
-          catalogCode: templateItem.catalogCode,
-          description: catalogItem.description,
-          tradeCode: catalogItem.tradeCode,
-          quantity,
-          unit: catalogItem.unit,
-          quantityFormula: catalogItem.quantityFormula,
-          provenance: "template",
-          coverageType: (catalogItem.coverageType as string) || "A",
-          activityType: (catalogItem.activityType as string) || "replace",
-          wasteFactor: catalogItem.defaultWasteFactor ?? defaultWasteFactor,
-          status: "active",
-          parentScopeItemId: null,
-        });
-
-        appliedItems.push({
-          ...scopeItem,
-          perilNotes: templateItem.perilNotes,
-          needsManualQuantity: !qResult || qResult.quantity === 0,
-        });
+      const { applyPerilTemplate } = await import("../perilTemplates");
+      const outcome = await applyPerilTemplate(storage, claim, room, { templateName, includeAutoOnly, defaultWasteFactor });
+      if ("availableTemplates" in outcome) {
+        return res.status(404).json({ error: "No matching template found", availableTemplates: outcome.availableTemplates });
       }
 
-      await storage.recalculateScopeSummary(sessionId);
-
       res.json({
-        templateName: template.name,
-        appliedCount: appliedItems.length,
-        appliedItems,
-        suggestedItems,
+        templateName: outcome.templateName,
+        appliedCount: outcome.appliedItems.length,
+        appliedItems: outcome.appliedItems,
+        suggestedItems: outcome.suggestedItems,
       });
     } catch (error: any) {
       logger.apiError(req.method, req.path, error);
@@ -2071,8 +1660,16 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
       if (wasteFactor !== undefined) updates.wasteFactor = wasteFactor;
       if (status !== undefined) updates.status = status;
 
+      const existing = await storage.getScopeItem(id);
       const item = await storage.updateScopeItem(id, updates as any);
       if (item) await storage.recalculateScopeSummary(sessionId);
+      if (item && existing) {
+        await recordUndoable(sessionId, {
+          tool: "update_scope_item",
+          label: `Updated scope item "${item.description}".`,
+          ops: [{ op: "update", entity: "scopeItem", id, set: updates, previous: previousValues(existing, updates) }],
+        });
+      }
       res.json(item);
     } catch (error: any) {
       logger.apiError(req.method, req.path, error);
@@ -2082,9 +1679,20 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
 
   app.delete("/api/inspection/:sessionId/scope/items/:id", authenticateRequest, async (req, res) => {
     try {
-      await storage.deleteScopeItem(Number(req.params.id));
+      const id = Number(req.params.id);
+      const existing = await storage.getScopeItem(id);
+      await storage.deleteScopeItem(id);
       const sessionId = Number(req.params.sessionId);
       await storage.recalculateScopeSummary(sessionId);
+      // Scope items are soft-deleted, so undo sets the status back
+      if (existing) {
+        const set = { status: "removed" };
+        await recordUndoable(sessionId, {
+          tool: "delete_scope_item",
+          label: `Deleted scope item "${existing.description}".`,
+          ops: [{ op: "update", entity: "scopeItem", id, set, previous: previousValues(existing, set) }],
+        });
+      }
       res.json({ success: true });
     } catch (error: any) {
       logger.apiError(req.method, req.path, error);
@@ -2092,6 +1700,96 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
     }
   });
 
+  // ── Matching (uniform appearance) ─────────────────
+
+  app.get("/api/inspection/:sessionId/matching", authenticateRequest, async (req, res) => {
+    try {
+      const sessionId = parseInt(param(req.params.sessionId));
+      const session = await storage.getInspectionSession(sessionId);
+      if (!session) return res.status(404).json({ message: "Session not found" });
+      const claim = await storage.getClaim(session.claimId);
+      const [assessments, scopeItems] = await Promise.all([
+        storage.getMatchingAssessments(sessionId),
+        storage.getScopeItems(sessionId),
+      ]);
+      res.json({
+        rules: matchingRulesForState(claim?.state),
+        assessments,
+        items: scopeItems.filter((si) => si.provenance === MATCHING_PROVENANCE),
+      });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/inspection/:sessionId/matching/:roomId", authenticateRequest, async (req, res) => {
+    try {
+      const sessionId = parseInt(param(req.params.sessionId));
+      const roomId = parseInt(param(req.params.roomId));
+      const parsed = z.object({
+        materialAvailability: z.enum(MATERIAL_AVAILABILITY),
+        lineOfSight: z.boolean(),
+        continuous: z.boolean(),
+        notes: z.string().nullable().optional(),
+      }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid matching assessment", errors: parsed.error.flatten().fieldErrors });
+      }
+      const room = await storage.getRoom(roomId);
+      if (!room || room.sessionId !== sessionId) {
+        return res.status(400).json({ message: "roomId must belong to the target session" });
+      }
+      const surface = matchingSurface(room);
+      if (!surface) {
+        return res.status(400).json({ message: "Matching applies to roof facets and elevations only" });
+      }
+
+      const session = await storage.getInspectionSession(sessionId);
+      const claim = session ? await storage.getClaim(session.claimId) : undefined;
+      const rules = matchingRulesForState(claim?.state);
+      const decision = recommendMatching(surface, parsed.data, rules);
+      const previous = await storage.getMatchingAssessmentForRoom(roomId);
+      let assessment = await storage.upsertMatchingAssessment({
+        sessionId,
+        roomId,
+        ...parsed.data,
+        notes: parsed.data.notes ?? null,
+        recommendation: decision.recommendation,
+        recommendationReason: decision.reason,
+        ruleState: rules.state,
+        appliedAt: previous?.appliedAt ?? null,
+      });
+
+      // A recommendation already in the scope follows the assessment
+      let applied: { created: number; removed: number } | null = null;
+      if (assessment.appliedAt) {
+        const result = await applyMatching(storage, sessionId, assessment);
+        applied = { created: result.created.length, removed: result.removed };
+        assessment = (await storage.getMatchingAssessmentForRoom(roomId)) ?? assessment;
+      }
+      res.json({ assessment, rules, applied });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/inspection/:sessionId/matching/:roomId/apply", authenticateRequest, async (req, res) => {
+    try {
+      const sessionId = parseInt(param(req.params.sessionId));
+      const assessment = await storage.getMatchingAssessmentForRoom(parseInt(param(req.params.roomId)));
+      if (!assessment || assessment.sessionId !== sessionId) {
+        return res.status(404).json({ message: "Matching assessment not found" });
+      }
+      const result = await applyMatching(storage, sessionId, assessment);
+      res.json({ created: result.created, removed: result.removed });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   app.get("/api/inspection/:sessionId/layout/validate", authenticateRequest, async (req, res) => {
     try {
       const sessionId = parseInt(param(req.params.sessionId));
@@ -2185,6 +1883,7 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
             tradeCode: scopeItem.tradeCode,
             coverageType: scopeItem.coverageType || "A",
             provenance: "auto_scope",
+            dimensionProvenance: scopeItem.dimensionProvenance,
             wasteFactor: scopeItem.wasteFactor ? Math.round(scopeItem.wasteFactor) : null,
             applyOAndP: false,
           });
@@ -2192,6 +1891,7 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
         }
       }
 
+      if (createdLineItems.length > 0) emit({ type: "inspection.lineItemAdded", sessionId, userId: req.user?.id, meta: { roomId } });
       res.json({ created: totalCreated, warnings: allWarnings, lineItems: createdLineItems });
     } catch (error: any) {
       logger.apiError(req.method, req.path, error);
@@ -2256,6 +1956,7 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
               tradeCode: scopeItem.tradeCode,
               coverageType: scopeItem.coverageType || "A",
               provenance: "auto_scope",
+              dimensionProvenance: scopeItem.dimensionProvenance,
               wasteFactor: scopeItem.wasteFactor ? Math.round(scopeItem.wasteFactor) : null,
               applyOAndP: false,
             });
@@ -2264,6 +1965,7 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
         }
       }
 
+      if (createdLineItems.length > 0) emit({ type: "inspection.lineItemAdded", sessionId, userId: req.user?.id });
       res.json({
         created: totalCreated,
         rooms: rooms.length,
@@ -2442,20 +2144,9 @@ export async function registerInspectionRoutes(app: Express): Promise<void> {
       if (isNaN(photoId)) {
         return res.status(400).json({ message: "Invalid photoId" });
       }
-      const deleted = await storage.deletePhoto(photoId);
+      const deleted = await deleteInspectionPhoto(storage, photoId);
       if (!deleted) return res.status(404).json({ message: "Photo not found" });
 
-      if (deleted.storagePath) {
-        await supabase.storage.from(PHOTOS_BUCKET).remove([deleted.storagePath]);
-      }
-
-      if (deleted.roomId) {
-        const room = await storage.getRoom(deleted.roomId);
-        if (room && (room.photoCount || 0) > 0) {
-          await storage.updateRoom(deleted.roomId, { photoCount: (room.photoCount || 1) - 1 });
-        }
-      }
-
       res.json({ success: true });
     } catch (error: any) {
       logger.apiError(req.method, req.path, error); res.status(500).json({ message: "Internal server error" });
@@ -2683,7 +2374,7 @@ IMPORTANT RULES:
   app.post("/api/inspection/:sessionId/moisture", authenticateRequest, async (req, res) => {
     try {
       const sessionId = parseInt(param(req.params.sessionId));
-      const { roomId, location, reading, materialType, dryStandard } = req.body;
+      const { roomId, location, reading, materialType, dryStandard, readingDate } = req.body;
       if (!roomId || reading === undefined) {
         return res.status(400).json({ message: "roomId and reading are required" });
       }
@@ -2699,6 +2390,7 @@ IMPORTANT RULES:
         reading,
         materialType: materialType || null,
         dryStandard: dryStandard || null,
+        readingDate: typeof readingDate === "string" && LOG_DATE.test(readingDate) ? readingDate : null,
       });
       res.status(201).json(entry);
     } catch (error: any) {
@@ -2732,6 +2424,7 @@ IMPORTANT RULES:
         reading: z.number().optional(),
         materialType: z.string().optional(),
         dryStandard: z.number().nullable().optional(),
+        readingDate: z.string().regex(LOG_DATE).nullable().optional(),
       }).parse(req.body);
       const updated = await storage.updateMoistureReading(Number(req.params.id), updates);
       if (!updated) return res.status(404).json({ error: "Moisture reading not found" });
@@ -2750,6 +2443,149 @@ IMPORTANT RULES:
     }
   });
 
+  // ── Drying Log ────────────────────────────────────
+
+  app.get("/api/inspection/:sessionId/drying-log", authenticateRequest, async (req, res) => {
+    try {
+      const sessionId = parseInt(param(req.params.sessionId));
+      const asOf = typeof req.query.asOf === "string" && LOG_DATE.test(req.query.asOf) ? req.query.asOf : todayLogDate();
+      res.json(await getSessionDryingLog(storage, sessionId, asOf));
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error); res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/inspection/:sessionId/atmospheric-readings", authenticateRequest, async (req, res) => {
+    try {
+      const sessionId = parseInt(param(req.params.sessionId));
+      const parsed = z.object({
+        roomId: z.number().int().nullable().optional(),
+        readingDate: z.string().regex(LOG_DATE).optional(),
+        placement: z.enum(ATMOSPHERIC_PLACEMENTS).default("affected"),
+        temperatureF: z.number(),
+        relativeHumidity: z.number().min(0).max(100),
+      }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid atmospheric reading", errors: parsed.error.flatten().fieldErrors });
+      }
+      const { roomId, readingDate, ...reading } = parsed.data;
+      if (roomId != null) {
+        const room = await storage.getRoom(roomId);
+        if (!room || room.sessionId !== sessionId) {
+          return res.status(400).json({ message: "roomId must belong to the target session" });
+        }
+      }
+      const entry = await storage.createAtmosphericReading({
+        sessionId,
+        roomId: roomId ?? null,
+        readingDate: readingDate || todayLogDate(),
+        ...reading,
+      });
+      res.status(201).json(entry);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error); res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/inspection/:sessionId/atmospheric-readings/:id", authenticateRequest, async (req, res) => {
+    try {
+      await storage.deleteAtmosphericReading(Number(req.params.id));
+      res.json({ success: true });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error); res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/inspection/:sessionId/drying-equipment", authenticateRequest, async (req, res) => {
+    try {
+      const sessionId = parseInt(param(req.params.sessionId));
+      const parsed = z.object({
+        roomId: z.number().int(),
+        equipmentType: z.enum(DRYING_EQUIPMENT_TYPES),
+        quantity: z.number().int().min(1).default(1),
+        placedOn: z.string().regex(LOG_DATE).optional(),
+        removedOn: z.string().regex(LOG_DATE).nullable().optional(),
+        notes: z.string().nullable().optional(),
+      }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid drying equipment", errors: parsed.error.flatten().fieldErrors });
+      }
+      const room = await storage.getRoom(parsed.data.roomId);
+      if (!room || room.sessionId !== sessionId) {
+        return res.status(400).json({ message: "roomId must belong to the target session" });
+      }
+      const placedOn = parsed.data.placedOn || todayLogDate();
+      if (parsed.data.removedOn && parsed.data.removedOn < placedOn) {
+        return res.status(400).json({ message: "removedOn cannot be before placedOn" });
+      }
+      const equipment = await storage.createDryingEquipment({
+        sessionId,
+        roomId: parsed.data.roomId,
+        equipmentType: parsed.data.equipmentType,
+        quantity: parsed.data.quantity,
+        placedOn,
+        removedOn: parsed.data.removedOn ?? null,
+        notes: parsed.data.notes ?? null,
+      });
+      res.status(201).json(equipment);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error); res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/inspection/:sessionId/drying-equipment/:id", authenticateRequest, async (req, res) => {
+    try {
+      const sessionId = parseInt(param(req.params.sessionId));
+      const parsed = z.object({
+        quantity: z.number().int().min(1).optional(),
+        placedOn: z.string().regex(LOG_DATE).optional(),
+        removedOn: z.string().regex(LOG_DATE).nullable().optional(),
+        notes: z.string().nullable().optional(),
+      }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid drying equipment", errors: parsed.error.flatten().fieldErrors });
+      }
+      const existing = await storage.getDryingEquipment(Number(req.params.id));
+      if (!existing || existing.sessionId !== sessionId) {
+        return res.status(404).json({ message: "Drying equipment not found" });
+      }
+      const placedOn = parsed.data.placedOn ?? existing.placedOn;
+      const removedOn = parsed.data.removedOn !== undefined ? parsed.data.removedOn : existing.removedOn;
+      if (removedOn && removedOn < placedOn) {
+        return res.status(400).json({ message: "removedOn cannot be before placedOn" });
+      }
+      const updated = await storage.updateDryingEquipment(existing.id, parsed.data);
+      res.json(updated);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error); res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/inspection/:sessionId/drying-equipment/:id", authenticateRequest, async (req, res) => {
+    try {
+      await storage.deleteDryingEquipment(Number(req.params.id));
+      res.json({ success: true });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error); res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/inspection/:sessionId/drying-log/line-items", authenticateRequest, async (req, res) => {
+    try {
+      const sessionId = parseInt(param(req.params.sessionId));
+      const session = await storage.getInspectionSession(sessionId);
+      if (!session) return res.status(404).json({ message: "Session not found" });
+      const asOf = typeof req.body?.asOf === "string" && LOG_DATE.test(req.body.asOf) ? req.body.asOf : todayLogDate();
+      const result = await syncDryingLineItems(storage, sessionId, asOf);
+      if (result.created || result.updated || result.removed) {
+        emit({ type: "inspection.lineItemUpdated", sessionId, userId: req.user?.id });
+      }
+      res.json(result);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error); res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // ── Transcript ────────────────────────────────────
 
   app.post("/api/inspection/:sessionId/transcript", authenticateRequest, async (req, res) => {
@@ -2784,142 +2620,7 @@ IMPORTANT RULES:
       const session = await storage.getInspectionSession(sessionId);
       if (!session) return res.status(404).json({ message: "Session not found" });
 
-      const claim = await storage.getClaim(session.claimId);
-      const rooms = await storage.getRooms(sessionId);
-      const allLineItems = await storage.getLineItems(sessionId);
-      const allPhotos = await storage.getPhotos(sessionId);
-      const allDamages = await storage.getDamagesForSession(sessionId);
-      const moistureReadings = await storage.getMoistureReadingsForSession(sessionId);
-
-      const perilType = claim?.perilType || "unknown";
-      const currentPhase = (session as any).currentPhase || 1;
-      const totalPhases = 8;
-
-      const roomsWithDocs = rooms.filter(r => {
-        const hasDamage = allDamages.some(d => d.roomId === r.id);
-        const hasLineItem = allLineItems.some(li => li.roomId === r.id);
-        return hasDamage || hasLineItem;
-      });
-
-      const checklist: Array<{ item: string; satisfied: boolean; evidence?: string }> = [];
-
-      checklist.push({
-        item: "At least one room/area documented",
-        satisfied: rooms.length > 0,
-        evidence: `${rooms.length} rooms created`,
-      });
-      checklist.push({
-        item: "Rooms have damages or line items",
-        satisfied: roomsWithDocs.length > 0,
-        evidence: roomsWithDocs.length > 0 ? `${roomsWithDocs.length} rooms with documentation` : undefined,
-      });
-      checklist.push({
-        item: "Damage observations recorded",
-        satisfied: allDamages.length > 0,
-        evidence: `${allDamages.length} damage observations`,
-      });
-      checklist.push({
-        item: "Line items in estimate",
-        satisfied: allLineItems.length > 0,
-        evidence: `${allLineItems.length} line items`,
-      });
-      checklist.push({
-        item: "Inspection photos taken",
-        satisfied: allPhotos.length > 0,
-        evidence: `${allPhotos.length} photos`,
-      });
-
-      if (perilType === "water") {
-        checklist.push({
-          item: "Moisture readings recorded",
-          satisfied: moistureReadings.length > 0,
-          evidence: `${moistureReadings.length} moisture readings`,
-        });
-      }
-
-      if (perilType === "hail" || perilType === "wind") {
-        const elevationRooms = rooms.filter(r =>
-          r.roomType?.startsWith("exterior_elevation_") ||
-          r.viewType === "elevation" ||
-          /front|rear|left|right/i.test(r.name)
-        );
-        checklist.push({
-          item: "Elevations documented",
-          satisfied: elevationRooms.length > 0,
-          evidence: elevationRooms.length > 0
-            ? `${elevationRooms.length} elevations: ${elevationRooms.map(r => r.name).join(", ")}`
-            : undefined,
-        });
-      }
-
-      const completedRooms = rooms.filter(r => r.status === "complete").length;
-      const totalRooms = rooms.length;
-
-      const completedPhases = currentPhase - 1;
-      const phaseProgress = completedPhases / totalPhases;
-      const phaseComponent = phaseProgress * 50;
-
-      const roomRatio = totalRooms > 0 ? completedRooms / totalRooms : 0;
-      const roomComponent = roomRatio * 30;
-
-      let docScore = 0;
-      if (totalRooms > 0) {
-        const avgDamagesPerRoom = allDamages.length / totalRooms;
-        const avgItemsPerRoom = allLineItems.length / totalRooms;
-        const avgPhotosPerRoom = allPhotos.length / totalRooms;
-        const damageDepth = Math.min(avgDamagesPerRoom / 2, 1);
-        const itemDepth = Math.min(avgItemsPerRoom / 5, 1);
-        const photoDepth = Math.min(avgPhotosPerRoom / 2, 1);
-        docScore = ((damageDepth * 0.3) + (itemDepth * 0.4) + (photoDepth * 0.3));
-        if (perilType === "water" && moistureReadings.length > 0) {
-          docScore = Math.min(docScore + 0.1, 1);
-        }
-      }
-      const docComponent = docScore * 20;
-
-      const rawScore = phaseComponent + roomComponent + docComponent;
-
-      const phaseCap = ((currentPhase / totalPhases) * 100) + 15;
-      const completenessScore = Math.min(Math.round(rawScore), Math.round(phaseCap));
-
-      const scopeGaps: Array<{ room: string; issue: string }> = [];
-      for (const room of rooms) {
-        const roomDamages = allDamages.filter(d => d.roomId === room.id);
-        const roomItems = allLineItems.filter(li => li.roomId === room.id);
-        if (roomDamages.length > 0 && roomItems.length === 0) {
-          scopeGaps.push({
-            room: room.name,
-            issue: `${roomDamages.length} damage observation(s) but no line items`,
-          });
-        }
-      }
-
-      const missingPhotos: Array<{ room: string; issue: string }> = [];
-      for (const room of rooms) {
-        const roomDamages = allDamages.filter(d => d.roomId === room.id);
-        const roomPhotos = allPhotos.filter(p => p.roomId === room.id);
-        if (roomDamages.length > 0 && roomPhotos.length === 0) {
-          missingPhotos.push({
-            room: room.name,
-            issue: `${roomDamages.length} damage(s) documented but no photos`,
-          });
-        }
-      }
-
-      res.json({
-        completenessScore,
-        checklist,
-        scopeGaps,
-        missingPhotos,
-        summary: {
-          totalRooms: rooms.length,
-          completedRooms,
-          totalDamages: allDamages.length,
-          totalLineItems: allLineItems.length,
-          totalPhotos: allPhotos.length,
-          totalMoistureReadings: moistureReadings.length,
-        },
-      });
+      res.json(await assessCompleteness(storage, session));
     } catch (error: any) {
       logger.apiError(req.method, req.path, error); res.status(500).json({ message: "Internal server error" });
     }
@@ -2941,6 +2642,7 @@ IMPORTANT RULES:
       let applyRoofSchedule = false;
       let roofScheduleAge: number | null = null;
       let roofDepPct: number | null = null;
+      const depSchedule = await resolveClaimDepreciationSchedule(storage, claimId);
 
       if (claimId) {
         const briefing = await storage.getBriefing(claimId);
@@ -3016,7 +2718,7 @@ IMPORTANT RULES:
 
           let itemLife = item.lifeExpectancy != null ? Number(item.lifeExpectancy) : null;
           if ((itemLife == null || itemLife === 0) && !isLabor && !isRemovalItem) {
-            const lookedUp = lookupLifeExpectancy(category, description);
+            const lookedUp = lookupLifeExpectancy(category, description, depSchedule?.table.lifeExpectancy);
             if (lookedUp > 0) itemLife = lookedUp;
           }
 
@@ -3034,7 +2736,8 @@ IMPORTANT RULES:
             depPctOverride,
             baseDepType,
             applyRoofSchedule,
-            isRoofing
+            isRoofing,
+            item.incurredAt != null
           );
 
           return {
@@ -3056,6 +2759,10 @@ IMPORTANT RULES:
             age: itemAge,
             lifeExpectancy: itemLife,
             provenance: item.provenance,
+            coverageBucket: item.coverageBucket,
+            sublimitKey: item.sublimitKey,
+            isCodeUpgrade: !!item.isCodeUpgrade,
+            incurred: item.incurredAt != null,
           };
         });
 
@@ -3261,7 +2968,10 @@ IMPORTANT RULES:
       if (!session) return res.status(404).json({ message: "Session not found" });
 
       const claim = await storage.getClaim(session.claimId);
+      // The line-item subscriber syncs minimums in the background; make sure the export has them
+      await syncMinimumCharges(storage, sessionId);
       const esxBuffer = await generateESXFile(sessionId, storage);
+      await snapshotExportedEstimate(session, "esx_export", "ESX export", req.user?.id ?? null);
 
       const fileName = `${claim?.claimNumber || "estimate"}_export.esx`;
       res.setHeader("Content-Type", "application/zip");
@@ -3297,6 +3007,8 @@ IMPORTANT RULES:
       const exportPrefs = (userSettings as Record<string, any> | null) || {};
 
       const claim = await storage.getClaim(session.claimId);
+      // Same as the ESX export: the PDF must carry the current minimum lines
+      await syncMinimumCharges(storage, sessionId);
       const rooms = await storage.getRooms(sessionId);
       const items = await storage.getLineItems(sessionId);
       const photos = exportPrefs.includePhotosInExport !== false ? await storage.getPhotos(sessionId) : [];
@@ -3328,6 +3040,10 @@ IMPORTANT RULES:
       let roofScheduleAge: number | null = null;
       let roofDepPct: number | null = null;
       let briefingData: any = null;
+      let contentsReport: ContentsReport | undefined;
+      let rdPaidPdf: Record<string, number> = {};
+      let priorPaidPdf: Record<string, number> = {};
+      const depSchedule = await resolveClaimDepreciationSchedule(storage, session.claimId);
 
       if (session.claimId) {
         const briefing = await storage.getBriefing(session.claimId);
@@ -3346,6 +3062,19 @@ IMPORTANT RULES:
         if (applyRoofSchedule && roofScheduleAge != null && propertyAge != null && propertyAge >= roofScheduleAge) {
           roofDepPct = 75;
         }
+        const contentsItems = await storage.getContentsItemsForClaim(session.claimId);
+        if (contentsItems.length > 0) {
+          const { resolveSettlementRules } = await import("../settlementRules");
+          const settlementRules = await resolveSettlementRules(String(session.claimId));
+          contentsReport = buildContentsReport(contentsItems, settlementRules.defaultTaxRate);
+        }
+        rdPaidPdf = rdPaidByCoverage(
+          await storage.getHoldbacksForClaim(session.claimId),
+          await storage.getHoldbackReleasesForClaim(session.claimId),
+        );
+        for (const { coverageType, amount } of priorPaymentsByCoverage(await storage.getPaymentsForClaim(session.claimId))) {
+          priorPaidPdf[coverageType] = amount;
+        }
       }
 
       const ROOFING_CATS_PDF = ["roofing", "roof"];
@@ -3384,7 +3113,7 @@ IMPORTANT RULES:
           }
           let itemLife = item.lifeExpectancy != null ? Number(item.lifeExpectancy) : null;
           if ((itemLife == null || itemLife === 0) && !isLabor && !isRemovalItem) {
-            const lookedUp = lookupLifeExpectancy(category, description);
+            const lookedUp = lookupLifeExpectancy(category, description, depSchedule?.table.lifeExpectancy);
             if (lookedUp > 0) itemLife = lookedUp;
           }
           let depPctOverride = Number(item.depreciationPercentage) || null;
@@ -3392,7 +3121,7 @@ IMPORTANT RULES:
             depPctOverride = roofDepPct;
           }
           let baseDepType = item.depreciationType || "Recoverable";
-          const depResult = calculateItemDepreciation(rcv, itemAge, itemLife, depPctOverride, baseDepType, applyRoofSchedule, isRoofing);
+          const depResult = calculateItemDepreciation(rcv, itemAge, itemLife, depPctOverride, baseDepType, applyRoofSchedule, isRoofing, item.incurredAt != null);
 
           return {
             lineNumber: globalLineNum,
@@ -3411,6 +3140,8 @@ IMPORTANT RULES:
             lifeExpectancy: itemLife,
             action: item.action,
             provenance: item.provenance,
+            coverageBucket: deriveCoverageBucket(room?.structure, item.coverageBucket),
+            incurred: item.incurredAt != null,
           };
         });
 
@@ -3454,6 +3185,7 @@ IMPORTANT RULES:
       const grandNonRecDepPdf = roomSectionsPdf.reduce((s, r) => s + (r.totalNonRecoverableDepreciation || 0), 0);
       const grandACVPdf = grandTotalPdf - grandDepPdf;
       const estimateExt = estimate as Record<string, unknown> | null;
+      const settlementPdf = session.claimId ? await storage.getSettlementSummary(sessionId, session.claimId) : null;
 
       const catRecapMap = new Map<string, { itemCount: number; rcv: number; depreciation: number; acv: number }>();
       for (const roomSec of roomSectionsPdf) {
@@ -3495,24 +3227,37 @@ IMPORTANT RULES:
           itemCount: items.length,
           categories,
           coverageBreakdown: (() => {
-            const stored = (estimateExt?.["coverageBreakdown"] as any[]) || [];
-            if (stored.length > 0) return stored.map((c: any) => ({
-              coverageType: c.coverageType || "Dwelling",
-              totalRCV: Number(c.totalRCV) || 0,
-              totalACV: Number(c.totalACV) || 0,
-              deductible: Number(c.deductible) || 0,
-              netClaim: Number(c.netClaim) || 0,
+            // Deductibles, coinsurance and sublimits as the settlement summary
+            // resolves them, so the report's net claim matches it
+            const breakdown = ((settlementPdf?.coverages || []) as CoverageSummary[]).map((c) => ({
+              coverageType: c.coverageType,
+              totalRCV: c.totalRCV,
+              totalACV: c.totalACV,
+              totalRecoverableDepreciation: c.totalRecoverableDepreciation,
+              totalNonRecoverableDepreciation: c.totalNonRecoverableDepreciation,
+              deductible: c.deductible,
+              deductibleDetail: c.deductibleDetail,
+              coinsurance: c.coinsurance,
+              coinsurancePenalty: c.coinsurancePenalty,
+              sublimits: c.sublimits,
+              sublimitOverage: c.sublimitOverage,
+              policyLimit: c.policyLimit,
+              overLimitDeduction: c.overLimitDeduction,
+              netClaim: c.netClaim,
+              rdPaidToDate: rdPaidPdf[c.coverageType] || 0,
+              priorPayments: priorPaidPdf[c.coverageType] || 0,
             }));
-            const ded = Number(estimateExt?.["deductible"]) || 0;
-            const totalRCVVal = grandTotalPdf + grandTaxPdf;
-            const totalACVVal = totalRCVVal - grandDepPdf;
-            return [{
-              coverageType: "Coverage A - Dwelling",
-              totalRCV: parseFloat(totalRCVVal.toFixed(2)),
-              totalACV: parseFloat(totalACVVal.toFixed(2)),
-              deductible: ded,
-              netClaim: parseFloat(Math.max(0, totalACVVal - ded).toFixed(2)),
-            }];
+            for (const coverageType of Object.keys(priorPaidPdf)) {
+              if (breakdown.some(c => c.coverageType === coverageType)) continue;
+              breakdown.push({
+                coverageType, totalRCV: 0, totalACV: 0, totalRecoverableDepreciation: 0, totalNonRecoverableDepreciation: 0,
+                deductible: 0, deductibleDetail: { amount: 0, type: "flat", pct: null, basis: null, peril: null },
+                coinsurance: null, coinsurancePenalty: 0, sublimits: [], sublimitOverage: 0,
+                policyLimit: null, overLimitDeduction: 0, netClaim: 0,
+                rdPaidToDate: rdPaidPdf[coverageType] || 0, priorPayments: priorPaidPdf[coverageType],
+              });
+            }
+            return breakdown.sort((a, b) => a.coverageType.localeCompare(b.coverageType));
           })(),
         },
         roomEstimate: {
@@ -3530,14 +3275,17 @@ IMPORTANT RULES:
           coverageSnapshot: (briefingData.coverageSnapshot as any) || {},
           propertyProfile: (briefingData.propertyProfile as any) || {},
         } : undefined,
+        contents: contentsReport,
         inspectorName: (await storage.getUser(req.user!.id))?.fullName || 'Claims IQ Agent',
         transcript,
         companyName: exportPrefs.companyName || 'Claims IQ',
         adjusterLicense: exportPrefs.adjusterLicenseNumber || '',
+        carrier: claim?.carrierId ? (await storage.getCarrier(claim.carrierId)) ?? null : null,
       };
 
       // Generate the PDF buffer
       const pdfBuffer = await generateInspectionPDF(pdfData);
+      await snapshotExportedEstimate(session, "pdf_export", "PDF report", req.user?.id ?? null);
 
       // Send as attachment
       res.setHeader("Content-Type", "application/pdf");
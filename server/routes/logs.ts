@@ -1,13 +1,43 @@
 import { Router } from "express";
 import { authenticateRequest } from "../auth";
+import { requireSessionAccess } from "../authorization";
 import { logger } from "../logger";
+import { storage } from "../storage";
+import { VOICE_TOOL_CALL, VOICE_TOOL_RESULT } from "../workflow/flowSimulator";
+
+/**
+ * Voice tool calls and results also go to the session's event log so that a
+ * completed inspection can be replayed against a different flow (see
+ * workflow/flowSimulator.ts). Timeline diagnostics stay in the server log only.
+ */
+async function recordVoiceToolEvent(sessionId: number, toolName: string, type: string, data: any) {
+  if (type === "call") {
+    await storage.addSessionEvent({
+      sessionId,
+      type: VOICE_TOOL_CALL,
+      payloadJson: { tool: toolName, callId: data?.call_id ?? null, args: data?.args ?? {} },
+    });
+  } else if (type === "result") {
+    const result = data?.result;
+    await storage.addSessionEvent({
+      sessionId,
+      type: VOICE_TOOL_RESULT,
+      payloadJson: {
+        tool: toolName,
+        callId: data?.call_id ?? null,
+        success: result?.success !== false,
+        errorCode: result?.error?.code ?? null,
+      },
+    });
+  }
+}
 
 export function logsRouter() {
   const router = Router();
 
   router.post("/voice-tool", authenticateRequest, async (req, res) => {
     try {
-      const { toolName, type, data } = req.body;
+      const { toolName, type, data, sessionId } = req.body;
       if (type === "call") {
         logger.voiceToolCall(toolName, data);
       } else if (type === "result") {
@@ -15,6 +45,13 @@ export function logsRouter() {
       } else if (type === "error") {
         logger.voiceToolError(toolName, data);
       }
+
+      const normalizedSessionId = sessionId == null ? null : Number.parseInt(String(sessionId), 10);
+      if (normalizedSessionId != null && !Number.isNaN(normalizedSessionId) && toolName !== "voice_timeline") {
+        const session = await requireSessionAccess(req, res, normalizedSessionId);
+        if (!session) return;
+        await recordVoiceToolEvent(normalizedSessionId, toolName, type, data);
+      }
       res.json({ ok: true });
     } catch (error: any) {
       res.status(500).json({ message: "Log write failed" });
@@ -0,0 +1,171 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { authenticateRequest } from "../auth";
+import { requireClaimAccess } from "../authorization";
+import { param, parseIntParam } from "../utils";
+import { logger } from "../logger";
+import { z } from "zod";
+import {
+  PAYMENT_METHODS,
+  PAYMENT_TYPES,
+  buildVoidEntry,
+  summarizePayments,
+  validateVoid,
+} from "../claimPayments";
+import type { ClaimPayment, InsertClaimPayment } from "@shared/schema";
+
+const paymentBodySchema = z.object({
+  paymentType: z.enum(PAYMENT_TYPES),
+  coverageType: z.string().min(1).max(20).default("Coverage A"),
+  payee: z.string().min(1).max(500),
+  mortgagee: z.string().max(500).nullable().optional(),
+  amount: z.number().positive(),
+  method: z.enum(PAYMENT_METHODS).default("check"),
+  reference: z.string().max(100).nullable().optional(),
+  memo: z.string().max(2000).nullable().optional(),
+});
+
+const voidBodySchema = z.object({
+  memo: z.string().max(2000).optional(),
+});
+
+const reissueBodySchema = z.object({
+  payee: z.string().min(1).max(500).optional(),
+  mortgagee: z.string().max(500).nullable().optional(),
+  amount: z.number().positive().optional(),
+  method: z.enum(PAYMENT_METHODS).optional(),
+  reference: z.string().max(100).nullable().optional(),
+  memo: z.string().max(2000).optional(),
+});
+
+export function paymentsRouter() {
+  const router = Router({ mergeParams: true });
+
+  async function resolveClaimId(req: any, res: any): Promise<number | null> {
+    const claimId = parseIntParam(param(req.params.claimId), res, "claim id");
+    if (claimId === null) return null;
+    const claim = await requireClaimAccess(req, res, claimId);
+    return claim ? claimId : null;
+  }
+
+  async function resolvePayment(req: any, res: any, claimId: number): Promise<ClaimPayment | null> {
+    const paymentId = parseIntParam(param(req.params.paymentId), res, "payment id");
+    if (paymentId === null) return null;
+    const payment = await storage.getPayment(paymentId);
+    if (!payment || payment.claimId !== claimId) {
+      res.status(404).json({ message: "Payment not found for this claim" });
+      return null;
+    }
+    return payment;
+  }
+
+  router.get("/", authenticateRequest, async (req, res) => {
+    try {
+      const claimId = await resolveClaimId(req, res);
+      if (claimId === null) return;
+      const payments = await storage.getPaymentsForClaim(claimId);
+      res.json({ payments, summary: summarizePayments(payments) });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.post("/", authenticateRequest, async (req, res) => {
+    try {
+      const claimId = await resolveClaimId(req, res);
+      if (claimId === null) return;
+      const parsed = paymentBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid payment", errors: parsed.error.flatten().fieldErrors });
+      }
+      const [payment] = await storage.createPaymentEntries([{
+        claimId,
+        entryType: "payment",
+        ...parsed.data,
+        issuedBy: req.user?.id ?? null,
+      }]);
+      res.status(201).json(payment);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.post("/:paymentId/void", authenticateRequest, async (req, res) => {
+    try {
+      const claimId = await resolveClaimId(req, res);
+      if (claimId === null) return;
+      const payment = await resolvePayment(req, res, claimId);
+      if (!payment) return;
+      const parsed = voidBodySchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid void request", errors: parsed.error.flatten().fieldErrors });
+      }
+      const rejection = validateVoid(await storage.getPaymentsForClaim(claimId), payment);
+      if (rejection) {
+        return res.status(409).json({ message: rejection });
+      }
+      const [voidEntry] = await storage.createPaymentEntries([
+        buildVoidEntry(payment, req.user?.id ?? null, parsed.data.memo),
+      ]);
+      res.status(201).json(voidEntry);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Voids the payment (if not already voided) and issues its replacement
+  router.post("/:paymentId/reissue", authenticateRequest, async (req, res) => {
+    try {
+      const claimId = await resolveClaimId(req, res);
+      if (claimId === null) return;
+      const payment = await resolvePayment(req, res, claimId);
+      if (!payment) return;
+      if (payment.entryType === "void") {
+        return res.status(409).json({ message: "Void entries cannot be reissued" });
+      }
+      const parsed = reissueBodySchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid reissue request", errors: parsed.error.flatten().fieldErrors });
+      }
+
+      const entries = await storage.getPaymentsForClaim(claimId);
+      if (entries.some(e => e.entryType === "reissue" && e.relatedPaymentId === payment.id)) {
+        return res.status(409).json({ message: "Payment has already been reissued" });
+      }
+
+      const issuedBy = req.user?.id ?? null;
+      const toCreate: InsertClaimPayment[] = [];
+      if (!validateVoid(entries, payment)) {
+        toCreate.push(buildVoidEntry(payment, issuedBy, parsed.data.memo ?? "Voided for reissue"));
+      }
+      toCreate.push({
+        claimId,
+        entryType: "reissue",
+        paymentType: payment.paymentType,
+        coverageType: payment.coverageType,
+        payee: parsed.data.payee ?? payment.payee,
+        mortgagee: parsed.data.mortgagee !== undefined ? parsed.data.mortgagee : payment.mortgagee,
+        amount: parsed.data.amount ?? Number(payment.amount),
+        method: parsed.data.method ?? payment.method,
+        reference: parsed.data.reference ?? null,
+        relatedPaymentId: payment.id,
+        memo: parsed.data.memo ?? null,
+        issuedBy,
+      });
+
+      const created = await storage.createPaymentEntries(toCreate);
+      res.status(201).json({
+        void: created.length > 1 ? created[0] : null,
+        payment: created[created.length - 1],
+      });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  return router;
+}
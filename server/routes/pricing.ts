@@ -2,8 +2,13 @@ import { Router } from "express";
 import { storage } from "../storage";
 import { authenticateRequest, requireRole } from "../auth";
 import { logger } from "../logger";
-import { param } from "../utils";
+import { param, parseIntParam } from "../utils";
 import { calculateLineItemPrice, calculateEstimateTotals, validateEstimate } from "../estimateEngine";
+import { minimumChargeItems } from "../minimumCharges";
+import { laborBurdenRate } from "../taxJurisdiction";
+import { isPriceListImportRunning, resolvePriceListFile, runPriceListImport } from "../xactPriceListImporter";
+import { z } from "zod";
+import fs from "fs";
 
 function normalizeRegionId(regionId: unknown): string | undefined {
   if (typeof regionId !== "string") return undefined;
@@ -12,6 +17,18 @@ function normalizeRegionId(regionId: unknown): string | undefined {
   return trimmed.toUpperCase().replace(/-/g, "_");
 }
 
+const priceListImportSchema = z.object({
+  fileName: z.string().min(1).max(500),
+  regionId: z.string().min(1).max(50).optional(),
+});
+
+/** Imports can run for minutes on a full price list, so they continue after the response. */
+function startPriceListImport(importId: number) {
+  runPriceListImport(importId).catch((error) => {
+    logger.error("PriceListImport", `Price list import ${importId} failed`, error);
+  });
+}
+
 function normalizePercentToDecimal(value: unknown): number | undefined {
   if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
     return undefined;
@@ -63,7 +80,7 @@ export function pricingRouter() {
 
   router.post("/scope", authenticateRequest, async (req, res) => {
     try {
-      const { items, regionId, taxRate, overheadPercent, profitPercent } = req.body;
+      const { items, regionId, taxRate, overheadPercent, profitPercent, jurisdictionId } = req.body;
 
       let effectiveRegion = normalizeRegionId(regionId);
       let effectiveTaxRate = taxRate;
@@ -88,6 +105,10 @@ export function pricingRouter() {
         return res.status(400).json({ message: "items array required" });
       }
 
+      const laborBurdenPct = typeof jurisdictionId === "string" && jurisdictionId
+        ? laborBurdenRate(await storage.getJurisdictionBurdenTaxes(jurisdictionId))
+        : 0;
+
       const pricedItems = [];
 
       for (const item of items) {
@@ -99,13 +120,29 @@ export function pricingRouter() {
         if (!regionalPrice) {
           return res.status(404).json({ message: `Regional price for ${item.code} in region ${effectiveRegion} not found` });
         }
-        const priced = calculateLineItemPrice(catalogItem, regionalPrice, item.quantity, item.wasteFactor);
+        const priced = calculateLineItemPrice(catalogItem, regionalPrice, item.quantity, item.wasteFactor, laborBurdenPct);
         pricedItems.push(priced);
       }
 
+      const minimumIds = Array.from(new Set(pricedItems.map(i => i.minimumId).filter((id): id is string => !!id)));
+      const minimums = await storage.getXactMinimums(minimumIds);
+      const { items: minimumItems, shortfalls } = minimumChargeItems(pricedItems, minimums);
+      pricedItems.push(...minimumItems);
+
       const totals = calculateEstimateTotals(pricedItems, effectiveTaxRate, effectiveOverhead, effectiveProfit);
 
-      res.json({ items: pricedItems, totals, appliedSettings: { region: effectiveRegion, taxRate: effectiveTaxRate } });
+      res.json({
+        items: pricedItems,
+        totals,
+        minimumCharges: shortfalls.map(({ minimum, itemsTotal, adjustment }) => ({
+          minimumId: minimum.id,
+          description: minimum.description,
+          amount: Number(minimum.amount),
+          itemsTotal,
+          adjustment,
+        })),
+        appliedSettings: { region: effectiveRegion, taxRate: effectiveTaxRate, laborBurdenPct },
+      });
     } catch (error: any) {
       logger.apiError(req.method, req.path, error);
       res.status(500).json({ message: "Internal server error" });
@@ -142,6 +179,78 @@ export function pricingRouter() {
     }
   });
 
+  // ── XACTDOC price list imports (admin) ──────────
+
+  router.get("/price-lists/imports", authenticateRequest, requireRole("admin"), async (req, res) => {
+    try {
+      res.json(await storage.getPriceListImports());
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.get("/price-lists/imports/:importId", authenticateRequest, requireRole("admin"), async (req, res) => {
+    try {
+      const importId = parseIntParam(param(req.params.importId), res, "import id");
+      if (importId === null) return;
+      const run = await storage.getPriceListImport(importId);
+      if (!run) return res.status(404).json({ message: "Price list import not found" });
+      res.json({ ...run, running: isPriceListImportRunning(importId) });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.post("/price-lists/imports", authenticateRequest, requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = priceListImportSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid price list import", errors: parsed.error.flatten().fieldErrors });
+      }
+      const filePath = resolvePriceListFile(parsed.data.fileName);
+      if (!filePath) {
+        return res.status(400).json({ message: "fileName must be inside the price list directory" });
+      }
+      if (!fs.existsSync(filePath)) {
+        return res.status(404).json({ message: `Price list file ${parsed.data.fileName} not found` });
+      }
+      const run = await storage.createPriceListImport({
+        fileName: parsed.data.fileName,
+        regionId: normalizeRegionId(parsed.data.regionId) ?? null,
+        status: "pending",
+        startedBy: req.user?.id ?? null,
+      });
+      startPriceListImport(run.id);
+      res.status(202).json(run);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Continues a failed or interrupted import from its last committed batch
+  router.post("/price-lists/imports/:importId/resume", authenticateRequest, requireRole("admin"), async (req, res) => {
+    try {
+      const importId = parseIntParam(param(req.params.importId), res, "import id");
+      if (importId === null) return;
+      const run = await storage.getPriceListImport(importId);
+      if (!run) return res.status(404).json({ message: "Price list import not found" });
+      if (run.status === "completed") {
+        return res.status(409).json({ message: "Price list import already completed" });
+      }
+      if (isPriceListImportRunning(importId)) {
+        return res.status(409).json({ message: "Price list import is already running" });
+      }
+      startPriceListImport(importId);
+      res.status(202).json(run);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   router.post("/seed", authenticateRequest, requireRole("admin"), async (_req, res) => {
     res.json({ message: "Seed endpoint disabled — only Xactimate data is used" });
   });
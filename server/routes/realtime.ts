@@ -5,6 +5,7 @@ import { requireClaimAccess, requireSessionAccess } from "../authorization";
 import { buildSystemInstructions, realtimeTools } from "../realtime";
 import { logger } from "../logger";
 import { getAllowedTools, getWorkflowState, initSessionWorkflow } from "../workflow/orchestrator";
+import { sessionFlowVersion } from "../workflow/flowVersions";
 
 export function realtimeRouter() {
   const router = Router();
@@ -27,8 +28,9 @@ export function realtimeRouter() {
       if (sessionId != null && Number.isNaN(normalizedSessionId as number)) {
         return res.status(400).json({ message: "sessionId must be a number when provided" });
       }
+      let authorizedSession = null;
       if (normalizedSessionId != null) {
-        const authorizedSession = await requireSessionAccess(req, res, normalizedSessionId);
+        authorizedSession = await requireSessionAccess(req, res, normalizedSessionId);
         if (!authorizedSession) return;
         if (authorizedSession.claimId !== normalizedClaimId) {
           return res.status(400).json({ message: "sessionId does not belong to claimId" });
@@ -57,6 +59,9 @@ export function realtimeRouter() {
       } else {
         inspectionFlow = await storage.getDefaultFlowForPeril(perilType, req.user!.id);
       }
+      // A resumed session keeps the version it started with, even if the flow was republished since
+      const flowVersion = inspectionFlow ? await sessionFlowVersion(storage, inspectionFlow, authorizedSession) : null;
+      const pinnedFlow = inspectionFlow && flowVersion ? { ...inspectionFlow, steps: flowVersion.steps } : undefined;
 
       const VALID_VOICES = ['alloy', 'ash', 'ballad', 'coral', 'echo', 'sage', 'shimmer', 'verse', 'marin', 'cedar'];
       const voiceModel = VALID_VOICES.includes(s.voiceModel) ? s.voiceModel : 'alloy';
@@ -84,7 +89,7 @@ export function realtimeRouter() {
         ? `\n\n## WORKFLOW TRACKING\nCurrent Phase: ${workflowState.phase}\nUse set_phase to update tracking when moving between areas. All tools are available regardless of phase — never refuse a tool call because of phase.`
         : "";
       const instructions =
-        buildSystemInstructions(briefing, claim, inspectionFlow || undefined, {
+        buildSystemInstructions(briefing, claim, pinnedFlow, {
           measurementUnit: s.measurementUnit === "metric" ? "metric" : "imperial",
           requirePhotoVerification: s.requirePhotoVerification !== false,
         }) +
@@ -133,6 +138,7 @@ export function realtimeRouter() {
         const sessionUpdates: any = { voiceSessionId: data.id };
         if (inspectionFlow?.id) {
           sessionUpdates.activeFlowId = inspectionFlow.id;
+          sessionUpdates.activeFlowVersionId = flowVersion?.id ?? null;
         }
         await storage.updateSession(normalizedSessionId, sessionUpdates);
       }
@@ -158,7 +164,7 @@ export function realtimeRouter() {
       }
 
       const session = normalizedSessionId != null ? await storage.getInspectionSession(normalizedSessionId) : null;
-      const flowSteps = inspectionFlow ? (inspectionFlow.steps as any[]) || [] : [];
+      const flowSteps = pinnedFlow ? (pinnedFlow.steps as any[]) || [] : [];
 
       let hierarchySummary: string | null = null;
       if (normalizedSessionId != null) {
@@ -194,6 +200,7 @@ export function realtimeRouter() {
           id: inspectionFlow.id,
           name: inspectionFlow.name,
           perilType: inspectionFlow.perilType,
+          version: flowVersion?.version ?? null,
           stepCount: flowSteps.length,
           steps: flowSteps.map((s: any, i: number) => ({
             phase: i + 1,
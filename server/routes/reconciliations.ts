@@ -0,0 +1,225 @@
+import { Router } from "express";
+import { emit } from "../events";
+import { storage } from "../storage";
+import { authenticateRequest } from "../auth";
+import { requireSessionAccess } from "../authorization";
+import { param, parseIntParam, MAX_DOCUMENT_BYTES, decodeBase64Payload } from "../utils";
+import { logger } from "../logger";
+import { z } from "zod";
+import { parseEsxFile } from "../esxParser";
+import { resolveEsxCatalogCodes } from "../esxImport";
+import {
+  alignEstimates,
+  contractorLinesFromEsx,
+  mergeSupplementalChanges,
+  parseContractorFile,
+  supplementalChangesForRows,
+  toOurLines,
+  type AcceptedRow,
+  type ContractorImportResult,
+  type ContractorLine,
+} from "../estimateReconciliation";
+import type { EstimateReconciliation, InspectionSession, SupplementalClaim } from "@shared/schema";
+
+const createBodySchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  fileName: z.string().min(1),
+  fileBase64: z.string().min(1),
+});
+
+const acceptBodySchema = z.object({
+  rowKeys: z.array(z.string().min(1)).min(1).max(500),
+});
+
+function reconciliationHeader(reconciliation: EstimateReconciliation) {
+  const { contractorLines, ...header } = reconciliation;
+  return { ...header, lineCount: (contractorLines as ContractorLine[]).length };
+}
+
+export function reconciliationsRouter() {
+  const router = Router({ mergeParams: true });
+
+  async function resolveSession(req: any, res: any): Promise<InspectionSession | null> {
+    const sessionId = parseIntParam(param(req.params.sessionId), res, "session id");
+    if (sessionId === null) return null;
+    return requireSessionAccess(req, res, sessionId);
+  }
+
+  async function resolveReconciliation(req: any, res: any, sessionId: number): Promise<EstimateReconciliation | null> {
+    const reconciliationId = parseIntParam(param(req.params.reconciliationId), res, "reconciliation id");
+    if (reconciliationId === null) return null;
+    const reconciliation = await storage.getEstimateReconciliation(reconciliationId);
+    if (!reconciliation || reconciliation.sessionId !== sessionId) {
+      res.status(404).json({ message: "Reconciliation not found for this session" });
+      return null;
+    }
+    return reconciliation;
+  }
+
+  async function buildView(reconciliation: EstimateReconciliation) {
+    const [lineItems, rooms] = await Promise.all([
+      storage.getLineItems(reconciliation.sessionId),
+      storage.getRooms(reconciliation.sessionId),
+    ]);
+    const accepted = (reconciliation.acceptedRows as AcceptedRow[]).map((a) => a.rowKey);
+    return {
+      rooms,
+      view: alignEstimates(toOurLines(lineItems, rooms), reconciliation.contractorLines as ContractorLine[], accepted),
+    };
+  }
+
+  router.get("/", authenticateRequest, async (req, res) => {
+    try {
+      const session = await resolveSession(req, res);
+      if (!session) return;
+      const reconciliations = await storage.getEstimateReconciliations(session.id);
+      res.json(reconciliations.map(reconciliationHeader));
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.post("/", authenticateRequest, async (req, res) => {
+    try {
+      const session = await resolveSession(req, res);
+      if (!session) return;
+      const parsed = createBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid estimate upload", errors: parsed.error.flatten().fieldErrors });
+      }
+      const { fileName, fileBase64 } = parsed.data;
+      const { buffer, wasTruncated } = decodeBase64Payload(fileBase64, MAX_DOCUMENT_BYTES);
+      if (wasTruncated) {
+        return res.status(413).json({ message: "Estimate file exceeds the upload size limit" });
+      }
+
+      const lower = fileName.toLowerCase();
+      const sourceType = lower.endsWith(".esx") ? "esx" : lower.endsWith(".xlsx") ? "xlsx" : "csv";
+      let result: ContractorImportResult;
+      try {
+        if (sourceType === "esx") {
+          const esx = await parseEsxFile(buffer);
+          result = {
+            lines: contractorLinesFromEsx({ ...esx, lineItems: await resolveEsxCatalogCodes(esx.lineItems) }),
+            errors: [],
+          };
+        } else {
+          result = parseContractorFile(buffer, fileName);
+        }
+      } catch (parseError: any) {
+        return res.status(422).json({ message: parseError.message || "Could not read estimate file" });
+      }
+      if (result.lines.length === 0) {
+        return res.status(422).json({ message: "No estimate lines could be read", errors: result.errors });
+      }
+
+      const reconciliation = await storage.createEstimateReconciliation({
+        sessionId: session.id,
+        claimId: session.claimId,
+        name: parsed.data.name ?? fileName,
+        sourceType,
+        fileName,
+        contractorLines: result.lines,
+        acceptedRows: [],
+        createdBy: req.user?.id ?? null,
+      });
+      const { view } = await buildView(reconciliation);
+      res.status(201).json({ ...reconciliationHeader(reconciliation), errors: result.errors, ...view });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.get("/:reconciliationId", authenticateRequest, async (req, res) => {
+    try {
+      const session = await resolveSession(req, res);
+      if (!session) return;
+      const reconciliation = await resolveReconciliation(req, res, session.id);
+      if (!reconciliation) return;
+      const { view } = await buildView(reconciliation);
+      res.json({ ...reconciliationHeader(reconciliation), ...view });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Adopt the contractor's side of the given rows into the reconciliation's draft supplemental
+  router.post("/:reconciliationId/accept", authenticateRequest, async (req, res) => {
+    try {
+      const session = await resolveSession(req, res);
+      if (!session) return;
+      const reconciliation = await resolveReconciliation(req, res, session.id);
+      if (!reconciliation) return;
+      const parsed = acceptBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid accept request", errors: parsed.error.flatten().fieldErrors });
+      }
+
+      const { rooms, view } = await buildView(reconciliation);
+      const rowsByKey = new Map(view.rows.map((r) => [r.key, r]));
+      const missing = parsed.data.rowKeys.filter((key) => !rowsByKey.has(key));
+      if (missing.length > 0) {
+        return res.status(404).json({
+          message: "Rows not found; the estimate may have re-aligned after line item changes",
+          rowKeys: missing,
+        });
+      }
+      const rows = parsed.data.rowKeys
+        .map((key) => rowsByKey.get(key)!)
+        .filter((row) => row.status !== "matched" && !row.accepted);
+      if (rows.length === 0) {
+        return res.status(409).json({ message: "Rows are already matched or accepted" });
+      }
+
+      let supplemental: SupplementalClaim | undefined = reconciliation.supplementalId
+        ? await storage.getSupplemental(reconciliation.supplementalId)
+        : undefined;
+      if (!supplemental || supplemental.status !== "draft") {
+        supplemental = await storage.createSupplementalClaim({
+          originalSessionId: session.id,
+          claimId: session.claimId,
+          reason: `Contractor estimate reconciliation: ${reconciliation.name}`,
+          newLineItems: [],
+          removedLineItemIds: [],
+          modifiedLineItems: [],
+          status: "draft",
+        });
+        emit({ type: "supplemental.created", supplementalId: supplemental.id, sessionId: session.id, userId: req.user?.id });
+      }
+
+      const merged = mergeSupplementalChanges(supplemental, supplementalChangesForRows(rows, rooms));
+      const updatedSupplemental = await storage.updateSupplemental(supplemental.id, merged);
+
+      const acceptedAt = new Date().toISOString();
+      const acceptedRows: AcceptedRow[] = [
+        ...(reconciliation.acceptedRows as AcceptedRow[]),
+        ...rows.map((row) => ({
+          rowKey: row.key,
+          status: row.status,
+          supplementalId: supplemental!.id,
+          acceptedBy: req.user?.id ?? null,
+          acceptedAt,
+        })),
+      ];
+      const updated = await storage.updateEstimateReconciliation(reconciliation.id, {
+        acceptedRows,
+        supplementalId: supplemental.id,
+      });
+
+      const { view: nextView } = await buildView(updated ?? { ...reconciliation, acceptedRows });
+      res.json({
+        ...reconciliationHeader(updated ?? reconciliation),
+        supplemental: updatedSupplemental ?? supplemental,
+        ...nextView,
+      });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  return router;
+}
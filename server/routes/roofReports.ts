@@ -0,0 +1,72 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { authenticateRequest } from "../auth";
+import { requireSessionAccess } from "../authorization";
+import { param, parseIntParam, MAX_DOCUMENT_BYTES, decodeBase64Payload } from "../utils";
+import { logger } from "../logger";
+import { emit } from "../events";
+import { z } from "zod";
+import { importRoofReport, parseRoofReport, type RoofReport } from "../roofReportImport";
+
+const roofReportBodySchema = z.object({
+  fileName: z.string().min(1),
+  fileBase64: z.string().min(1),
+  structureId: z.number().int().positive().optional(),
+});
+
+export function roofReportsRouter() {
+  const router = Router({ mergeParams: true });
+
+  // Create or refresh the structure's roof facets from an aerial measurement report
+  router.post("/", authenticateRequest, async (req, res) => {
+    try {
+      const sessionId = parseIntParam(param(req.params.sessionId), res, "session id");
+      if (sessionId === null) return;
+      const session = await requireSessionAccess(req, res, sessionId);
+      if (!session) return;
+      const parsed = roofReportBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid roof report upload", errors: parsed.error.flatten().fieldErrors });
+      }
+      const { fileName, fileBase64, structureId } = parsed.data;
+
+      if (structureId) {
+        const structure = await storage.getStructure(structureId);
+        if (!structure || structure.sessionId !== sessionId) {
+          return res.status(404).json({ message: "Structure not found for this session" });
+        }
+      }
+
+      const { buffer, wasTruncated } = decodeBase64Payload(fileBase64, MAX_DOCUMENT_BYTES);
+      if (wasTruncated) {
+        return res.status(413).json({ message: "Roof report exceeds the upload size limit" });
+      }
+      let report: RoofReport;
+      try {
+        report = await parseRoofReport(buffer, fileName);
+      } catch (parseError: any) {
+        return res.status(422).json({ message: parseError.message || "Could not read roof report" });
+      }
+
+      const result = await importRoofReport(storage, sessionId, report, structureId);
+      logger.info("RoofReport", `Imported ${result.facets.length} facets from ${fileName} into session ${sessionId}`);
+      if (result.requantifiedItems > 0) emit({ type: "inspection.lineItemUpdated", sessionId, userId: req.user?.id });
+      res.status(201).json({
+        provider: report.provider,
+        reportId: report.reportId,
+        structureId: result.structure.id,
+        facets: result.facets,
+        annotations: result.annotations,
+        created: result.created,
+        updated: result.updated,
+        requantifiedItems: result.requantifiedItems,
+        warnings: result.warnings,
+      });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  return router;
+}
@@ -85,6 +85,9 @@ export function supplementalRouter() {
       }
 
       const { generateESXFromData } = await import("../esxGenerator");
+      const { resolveSettlementRules } = await import("../settlementRules");
+      const settlementRules = await resolveSettlementRules(String(claim.id));
+      const carrier = claim.carrierId ? (await storage.getCarrier(claim.carrierId)) ?? null : null;
 
       const esxBuffer = await generateESXFromData({
         claim,
@@ -94,6 +97,8 @@ export function supplementalRouter() {
         isSupplemental: true,
         supplementalReason: supplemental.reason || 'Supplemental claim',
         removedItemIds: Array.from(removedIds),
+        settlementRules,
+        carrier,
       });
 
       res.setHeader("Content-Type", "application/zip");
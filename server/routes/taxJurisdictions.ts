@@ -0,0 +1,73 @@
+import { Router } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { authenticateRequest, requireRole } from "../auth";
+import { param, parseIntParam } from "../utils";
+import { logger } from "../logger";
+
+const areaBodySchema = z.object({
+  jurisdictionId: z.string().trim().min(1).max(64),
+  state: z.string().trim().length(2),
+  zipPrefix: z.string().trim().regex(/^\d{1,5}$/, "Use 1-5 leading zip digits").nullable().optional(),
+});
+
+export function taxJurisdictionsRouter(): Router {
+  const router = Router();
+
+  // Any signed-in user can list jurisdictions so adjusters can override a claim's
+  router.get("/", authenticateRequest, async (req, res) => {
+    try {
+      res.json(await storage.getTaxJurisdictions());
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.get("/areas", authenticateRequest, requireRole("supervisor", "admin"), async (req, res) => {
+    try {
+      const state = typeof req.query.state === "string" ? req.query.state : undefined;
+      res.json(await storage.getTaxJurisdictionAreas(state));
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.post("/areas", authenticateRequest, requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = areaBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid jurisdiction area", errors: parsed.error.flatten().fieldErrors });
+      }
+      const { jurisdictionId, state, zipPrefix } = parsed.data;
+      if (!(await storage.getTaxJurisdiction(jurisdictionId))) {
+        return res.status(400).json({ message: "Tax jurisdiction not found" });
+      }
+      const area = await storage.createTaxJurisdictionArea({
+        jurisdictionId,
+        state: state.toUpperCase(),
+        zipPrefix: zipPrefix || null,
+      });
+      logger.info("TaxJurisdiction", `Mapped ${area.state}${area.zipPrefix ? ` ${area.zipPrefix}*` : ""} to ${jurisdictionId}`);
+      res.status(201).json(area);
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.delete("/areas/:id", authenticateRequest, requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseIntParam(param(req.params.id), res, "area id");
+      if (id === null) return;
+      await storage.deleteTaxJurisdictionArea(id);
+      res.json({ success: true });
+    } catch (error: any) {
+      logger.apiError(req.method, req.path, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  return router;
+}
@@ -547,6 +547,8 @@ export async function assembleScope(
   // Check if room has usable dimensions for quantity derivation
   const dims = room.dimensions as Record<string, unknown> | null;
   const hasDimensions = !!(dims && (dims.length as number) > 0 && (dims.width as number) > 0);
+  // Roof facets carry measured ridge/valley/eave lengths as sketch annotations
+  const annotations = room.viewType === "roof_plan" ? await storage.getSketchAnnotations(room.id) : [];
 
   const itemsToCreate: InsertScopeItem[] = [];
 
@@ -558,12 +560,14 @@ export async function assembleScope(
     // Derive quantity from room geometry using catalog's quantityFormula
     let quantity = 1;
     let quantityFormula: string | null = catalogItem.quantityFormula || null;
+    let dimensionProvenance: string | null = null;
 
     if (quantityFormula && quantityFormula !== "MANUAL" && quantityFormula !== "EACH") {
       if (hasDimensions) {
-        const qResult = deriveQuantity(room, quantityFormula as QuantityFormula, netWallDeduction);
+        const qResult = deriveQuantity(room, quantityFormula as QuantityFormula, netWallDeduction, annotations);
         if (qResult && qResult.quantity > 0) {
           quantity = qResult.quantity;
+          dimensionProvenance = qResult.dimensionProvenance;
         } else {
           // Formula didn't produce a usable quantity
           result.manualQuantityNeeded.push({
@@ -612,6 +616,7 @@ export async function assembleScope(
       status: "active",
       parentScopeItemId: null,
       quantityIsPlaceholder: isPlaceholder,
+      dimensionProvenance,
       lastQuantityRecalcAt: isPlaceholder ? new Date() : undefined,
     });
   }
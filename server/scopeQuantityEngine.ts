@@ -7,9 +7,12 @@
  *
  * This engine maps quantity formula codes to those dimension values.
  * All quantities are deterministic — no AI estimation.
+ *
+ * Roof line formulas (ridge, valley, eave, ...) read "roof_line" sketch
+ * annotations, which the roof measurement report importer writes per facet.
  */
 
-import type { InspectionRoom } from "@shared/schema";
+import type { InspectionRoom, SketchAnnotation } from "@shared/schema";
 
 // Quantity formula codes (stored in scopeLineItems.quantityFormula)
 export type QuantityFormula =
@@ -23,6 +26,13 @@ export type QuantityFormula =
   | "FLOOR_SY"
   | "ROOF_SF"
   | "ROOF_SQ"
+  | "RIDGE_LF"
+  | "HIP_LF"
+  | "VALLEY_LF"
+  | "EAVE_LF"
+  | "RAKE_LF"
+  | "DRIP_EDGE_LF"
+  | "FLASHING_LF"
   | "VOLUME_CF"
   | "MANUAL"
   | "EACH";
@@ -43,11 +53,72 @@ export interface RoomDimVars {
   V?: number;
 }
 
+export type DimensionSource = "measured" | "estimated" | "defaulted";
+
 export interface QuantityResult {
   quantity: number;
   unit: string;
   formula: QuantityFormula;
   derivation: string;
+  /** Where the dimensions behind the quantity came from. */
+  dimensionProvenance: DimensionSource;
+}
+
+// ── Roof lines ──
+
+export const ROOF_LINE_ANNOTATION = "roof_line";
+
+export const ROOF_LINE_KINDS = ["ridge", "hip", "valley", "eave", "rake", "flashing", "step_flashing"] as const;
+export type RoofLineKind = typeof ROOF_LINE_KINDS[number];
+
+/** Annotation labels for each roof line kind; the label is how a line's kind is read back. */
+export const ROOF_LINE_LABELS: Record<RoofLineKind, string> = {
+  ridge: "Ridge",
+  hip: "Hip",
+  valley: "Valley",
+  eave: "Eave",
+  rake: "Rake",
+  flashing: "Flashing",
+  step_flashing: "Step flashing",
+};
+
+type RoofLineAnnotation = Pick<SketchAnnotation, "annotationType" | "label" | "value">;
+
+/** Sums a facet's roof_line annotations by kind; kinds without annotations are absent. */
+export function roofLineLengths(annotations: RoofLineAnnotation[]): Partial<Record<RoofLineKind, number>> {
+  const byLabel = new Map(ROOF_LINE_KINDS.map((kind) => [ROOF_LINE_LABELS[kind].toLowerCase(), kind]));
+  const lengths: Partial<Record<RoofLineKind, number>> = {};
+  for (const annotation of annotations) {
+    if (annotation.annotationType !== ROOF_LINE_ANNOTATION) continue;
+    const kind = byLabel.get(annotation.label.trim().toLowerCase());
+    const value = Number(annotation.value);
+    if (!kind || !Number.isFinite(value)) continue;
+    lengths[kind] = (lengths[kind] ?? 0) + value;
+  }
+  return lengths;
+}
+
+const ROOF_LINE_FORMULAS: Partial<Record<QuantityFormula, { kinds: RoofLineKind[]; label: string }>> = {
+  RIDGE_LF: { kinds: ["ridge", "hip"], label: "Ridge + hip" },
+  HIP_LF: { kinds: ["hip"], label: "Hip" },
+  VALLEY_LF: { kinds: ["valley"], label: "Valley" },
+  EAVE_LF: { kinds: ["eave"], label: "Eave" },
+  RAKE_LF: { kinds: ["rake"], label: "Rake" },
+  DRIP_EDGE_LF: { kinds: ["eave", "rake"], label: "Eave + rake" },
+  FLASHING_LF: { kinds: ["flashing", "step_flashing"], label: "Flashing" },
+};
+
+/**
+ * Provenance of a room's dimensions: the weakest of its recorded provenance,
+ * or "measured" when the room has length and width but no record.
+ */
+function roomDimensionSource(room: InspectionRoom, length: number, width: number): DimensionSource {
+  const recorded = room.dimensionProvenance as Partial<Record<string, DimensionSource>> | null;
+  const values = recorded ? Object.values(recorded) : [];
+  if (values.includes("defaulted")) return "defaulted";
+  if (values.includes("estimated")) return "estimated";
+  if (values.length > 0) return "measured";
+  return length > 0 && width > 0 ? "measured" : "defaulted";
 }
 
 /**
@@ -56,8 +127,15 @@ export interface QuantityResult {
 export function deriveQuantity(
   room: InspectionRoom,
   formula: QuantityFormula,
-  netWallDeduction: number = 0
+  netWallDeduction: number = 0,
+  annotations: RoofLineAnnotation[] = []
 ): QuantityResult | null {
+  const roofLine = ROOF_LINE_FORMULAS[formula];
+  if (roofLine) {
+    const result = deriveRoofLineQuantity(formula, roofLine, annotations);
+    if (result) return result;
+  }
+
   const dims = room.dimensions as Record<string, unknown> | null;
   if (!dims) return null;
 
@@ -72,6 +150,7 @@ export function deriveQuantity(
   const perimeterLF = dimVars.PF ?? ((length + width) * 2);
   const ceilingPerimLF = dimVars.PC ?? perimeterLF;
   const volumeCF = dimVars.V ?? (length * width * height);
+  const dimensionProvenance = roomDimensionSource(room, length, width);
 
   switch (formula) {
     case "FLOOR_SF":
@@ -80,6 +159,7 @@ export function deriveQuantity(
         unit: "SF",
         formula,
         derivation: `Floor area: ${length}' × ${width}' = ${round2(floorSF)} SF`,
+        dimensionProvenance,
       };
 
     case "CEILING_SF":
@@ -88,6 +168,7 @@ export function deriveQuantity(
         unit: "SF",
         formula,
         derivation: `Ceiling area: ${length}' × ${width}' = ${round2(ceilingSF)} SF`,
+        dimensionProvenance,
       };
 
     case "WALL_SF":
@@ -96,6 +177,7 @@ export function deriveQuantity(
         unit: "SF",
         formula,
         derivation: `Gross wall area: perimeter ${round2(perimeterLF)} LF × ${height}' height = ${round2(grossWallSF)} SF`,
+        dimensionProvenance,
       };
 
     case "WALL_SF_NET": {
@@ -105,6 +187,7 @@ export function deriveQuantity(
         unit: "SF",
         formula,
         derivation: `Net wall area: ${round2(grossWallSF)} SF gross - ${round2(netWallDeduction)} SF openings = ${round2(netWallSF)} SF`,
+        dimensionProvenance,
       };
     }
 
@@ -115,6 +198,7 @@ export function deriveQuantity(
         unit: "SF",
         formula,
         derivation: `Walls + ceiling: ${round2(grossWallSF)} SF walls + ${round2(ceilingSF)} SF ceiling = ${round2(wallsCeilSF)} SF`,
+        dimensionProvenance,
       };
     }
 
@@ -124,6 +208,7 @@ export function deriveQuantity(
         unit: "LF",
         formula,
         derivation: `Floor perimeter: (${length}' + ${width}') × 2 = ${round2(perimeterLF)} LF`,
+        dimensionProvenance,
       };
 
     case "CEILING_PERIM_LF":
@@ -132,6 +217,7 @@ export function deriveQuantity(
         unit: "LF",
         formula,
         derivation: `Ceiling perimeter: ${round2(ceilingPerimLF)} LF`,
+        dimensionProvenance,
       };
 
     case "FLOOR_SY": {
@@ -141,6 +227,7 @@ export function deriveQuantity(
         unit: "SY",
         formula,
         derivation: `Floor area in SY: ${round2(floorSF)} SF ÷ 9 = ${round2(floorSY)} SY`,
+        dimensionProvenance,
       };
     }
 
@@ -151,6 +238,7 @@ export function deriveQuantity(
         unit: "SF",
         formula,
         derivation: `Roof area: ${round2(roofSF)} SF`,
+        dimensionProvenance,
       };
     }
 
@@ -161,15 +249,27 @@ export function deriveQuantity(
         unit: "SQ",
         formula,
         derivation: `Roof squares: ${round2(roofSquares)} SQ`,
+        dimensionProvenance,
       };
     }
 
+    case "DRIP_EDGE_LF":
+      // No measured eaves/rakes: the plan perimeter is the usual stand-in
+      return {
+        quantity: round2(perimeterLF),
+        unit: "LF",
+        formula,
+        derivation: `Drip edge from perimeter: ${round2(perimeterLF)} LF`,
+        dimensionProvenance,
+      };
+
     case "VOLUME_CF":
       return {
         quantity: round2(volumeCF),
         unit: "CF",
         formula,
         derivation: `Volume: ${length}' × ${width}' × ${height}' = ${round2(volumeCF)} CF`,
+        dimensionProvenance,
       };
 
     case "EACH":
@@ -178,6 +278,7 @@ export function deriveQuantity(
         unit: "EA",
         formula,
         derivation: "Count-based item: 1 EA",
+        dimensionProvenance,
       };
 
     case "MANUAL":
@@ -188,19 +289,38 @@ export function deriveQuantity(
   }
 }
 
+function deriveRoofLineQuantity(
+  formula: QuantityFormula,
+  roofLine: { kinds: RoofLineKind[]; label: string },
+  annotations: RoofLineAnnotation[]
+): QuantityResult | null {
+  const lengths = roofLineLengths(annotations);
+  const measured = roofLine.kinds.filter((kind) => lengths[kind] !== undefined);
+  if (measured.length === 0) return null;
+  const total = measured.reduce((sum, kind) => sum + lengths[kind]!, 0);
+  return {
+    quantity: round2(total),
+    unit: "LF",
+    formula,
+    derivation: `${roofLine.label} from roof report: ${measured.map((k) => `${round2(lengths[k]!)} LF ${k.replace("_", " ")}`).join(" + ")} = ${round2(total)} LF`,
+    dimensionProvenance: "measured",
+  };
+}
+
 /**
  * Derives quantities for all applicable catalog items in a room.
  */
 export function deriveRoomQuantities(
   room: InspectionRoom,
   catalogItems: Array<{ code: string; quantityFormula: string | null; unit: string }>,
-  netWallDeduction: number = 0
+  netWallDeduction: number = 0,
+  annotations: RoofLineAnnotation[] = []
 ): Map<string, QuantityResult> {
   const results = new Map<string, QuantityResult>();
 
   for (const item of catalogItems) {
     if (!item.quantityFormula) continue;
-    const result = deriveQuantity(room, item.quantityFormula as QuantityFormula, netWallDeduction);
+    const result = deriveQuantity(room, item.quantityFormula as QuantityFormula, netWallDeduction, annotations);
     if (result) {
       results.set(item.code, result);
     }
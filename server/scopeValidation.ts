@@ -9,6 +9,7 @@ import { IStorage } from "./storage";
 import type { ScopeItem, InspectionRoom, DamageObservation, ScopeLineItem, InspectionSession } from "@shared/schema";
 import { calculateOpeningDeductions } from "./openingDeductionService";
 import { companionEngine } from "./companionEngine";
+import { COSMETIC_HAIL_EXCLUSION } from "./endorsementLibrary";
 
 export interface ValidationResult {
   valid: boolean;
@@ -261,6 +262,13 @@ export async function validateScopeCompleteness(
   const companionIssues = await validateCompanionsPostAutoAdd(storage, sessionId);
   issues.push(...companionIssues);
 
+  // ── 11. Endorsement exclusions ─────────────────────
+  if (session?.claimId) {
+    const policyRules = await storage.getPolicyRulesForClaim(session.claimId);
+    const exclusions = policyRules.flatMap(r => (r.exclusions ?? []) as string[]);
+    issues.push(...validatePolicyExclusions(exclusions, scopeItems, damages));
+  }
+
   // ── Calculate score ────────────────────────────────
   const errors = issues.filter(i => i.severity === "error");
   const warnings = issues.filter(i => i.severity === "warning");
@@ -313,6 +321,33 @@ export async function validateCompanionsPostAutoAdd(
   return issues;
 }
 
+/**
+ * Flags scope the claim's accepted endorsements exclude. A cosmetic hail
+ * exclusion leaves minor hail damage (no loss of function) unpaid.
+ */
+export function validatePolicyExclusions(
+  exclusions: string[],
+  items: ScopeItem[],
+  damages: DamageObservation[]
+): ValidationIssue[] {
+  if (!exclusions.includes(COSMETIC_HAIL_EXCLUSION)) return [];
+
+  const cosmetic = new Set(
+    damages
+      .filter(d => (d.damageType || "").toLowerCase().includes("hail") && d.severity === "minor")
+      .map(d => d.id)
+  );
+  return items
+    .filter(i => i.status === "active" && i.damageId != null && cosmetic.has(i.damageId))
+    .map(i => ({
+      category: "policy_exclusion",
+      severity: "warning" as const,
+      message: `"${i.description}" is scoped on minor hail damage, which the cosmetic hail exclusion does not cover.`,
+      roomId: i.roomId ?? undefined,
+      scopeItemId: i.id,
+    }));
+}
+
 /**
  * Water classification warning checks for Category 3 and Class 4.
  */
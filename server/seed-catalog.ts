@@ -32,6 +32,7 @@ const ENHANCED_CATALOG: EnhancedCatalogItem[] = [
   { code: "MIT-DEHU-DAY", trade: "MIT", desc: "Dehumidifier per day", unit: "DAY", waste: 0, quantityFormula: "MANUAL", activityType: "labor_only", coverageType: "A", xactCategoryCode: "WTR", xactSelector: "DEHU", notes: "Standard dehumidifier. Typically 3-5 day minimum.", scopeConditions: { damage_types: ["water_intrusion", "water_stain"] }, companionRules: { auto_adds: ["MIT-MONI-DAY"] } },
   { code: "MIT-AIRM-DAY", trade: "MIT", desc: "Air mover per day", unit: "DAY", waste: 0, quantityFormula: "MANUAL", activityType: "labor_only", coverageType: "A", xactCategoryCode: "WTR", xactSelector: "AIRM", notes: "Air mover/fan. Typically 3-5 day minimum.", scopeConditions: { damage_types: ["water_intrusion", "water_stain"] }, companionRules: {} },
   { code: "MIT-DEHM-DAY", trade: "MIT", desc: "Large dehumidifier per day", unit: "DAY", waste: 0, quantityFormula: "MANUAL", activityType: "labor_only", coverageType: "A", xactCategoryCode: "WTR", xactSelector: "DEHM", notes: "Large/industrial dehumidifier.", scopeConditions: { damage_types: ["water_intrusion"], severity: ["severe"] }, companionRules: { auto_adds: ["MIT-MONI-DAY"] } },
+  { code: "MIT-AIRS-DAY", trade: "MIT", desc: "Air scrubber (negative air machine) per day", unit: "DAY", waste: 0, quantityFormula: "MANUAL", activityType: "labor_only", coverageType: "A", xactCategoryCode: "WTR", xactSelector: "NAFAN", notes: "HEPA air scrubber for Category 2/3 water or mold.", scopeConditions: { damage_types: ["water_intrusion", "mold"], severity: ["severe"] }, companionRules: {} },
   { code: "MIT-APPL-SF", trade: "MIT", desc: "Apply antimicrobial treatment, per SF", unit: "SF", waste: 5, quantityFormula: "WALLS_CEILING_SF", activityType: "clean", coverageType: "A", xactCategoryCode: "WTR", xactSelector: "ANTI", notes: "Antimicrobial/antifungal application.", scopeConditions: { damage_types: ["water_intrusion", "mold"], severity: ["moderate", "severe"] }, companionRules: {} },
   { code: "MIT-MOLD-SF", trade: "MIT", desc: "Mold remediation, per SF", unit: "SF", waste: 10, quantityFormula: "WALL_SF", activityType: "clean", coverageType: "A", xactCategoryCode: "WTR", xactSelector: "MOLD", notes: "Professional mold remediation.", scopeConditions: { damage_types: ["mold"], severity: ["moderate", "severe"] }, companionRules: { requires: ["MIT-CONT-DAY"], auto_adds: ["MIT-APPL-SF"] } },
   { code: "MIT-DEMO-SF", trade: "MIT", desc: "Flood cut drywall (up to 4 ft), per SF", unit: "SF", waste: 0, quantityFormula: "MANUAL", activityType: "remove", coverageType: "A", xactCategoryCode: "WTR", xactSelector: "FLDC", notes: "Flood cut: remove drywall up to 4' height.", scopeConditions: { damage_types: ["water_intrusion"], surfaces: ["wall"], severity: ["moderate", "severe"] }, companionRules: { auto_adds: ["MIT-APPL-SF", "DRY-SHEET-SF"] } },
@@ -120,12 +121,12 @@ const ENHANCED_CATALOG: EnhancedCatalogItem[] = [
   { code: "RFG-METAL-SF", trade: "RFG", desc: "Metal roofing, per SF", unit: "SF", waste: 8, quantityFormula: "ROOF_SF", activityType: "replace", coverageType: "A", xactCategoryCode: "RFG", xactSelector: "METAL", notes: "Metal roofing.", scopeConditions: { damage_types: ["wind", "hail"], surfaces: ["roof"] }, companionRules: { auto_adds: ["RFG-UNDER-SF"] } },
   { code: "RFG-UNDER-SF", trade: "RFG", desc: "Roofing underlayment, per SF", unit: "SF", waste: 10, quantityFormula: "ROOF_SF", activityType: "install", coverageType: "A", xactCategoryCode: "RFG", xactSelector: "UNDER", notes: "Roofing underlayment.", scopeConditions: null, companionRules: {} },
   { code: "RFG-FELT-SQ", trade: "RFG", desc: "Roofing felt, per SQ", unit: "SQ", waste: 5, quantityFormula: "ROOF_SQ", activityType: "install", coverageType: "A", xactCategoryCode: "RFG", xactSelector: "FELT", notes: "Roofing felt.", scopeConditions: null, companionRules: {} },
-  { code: "RFG-RIDGE-LF", trade: "RFG", desc: "Ridge cap shingles, per LF", unit: "LF", waste: 8, quantityFormula: "CEILING_PERIM_LF", activityType: "install", coverageType: "A", xactCategoryCode: "RFG", xactSelector: "RIDGE", notes: "Ridge cap.", scopeConditions: null, companionRules: {} },
-  { code: "RFG-DRIP-LF", trade: "RFG", desc: "Drip edge, per LF", unit: "LF", waste: 0, quantityFormula: "PERIMETER_LF", activityType: "install", coverageType: "A", xactCategoryCode: "RFG", xactSelector: "DRIP", notes: "Drip edge.", scopeConditions: null, companionRules: {} },
-  { code: "RFG-FLASH-LF", trade: "RFG", desc: "Flashing (roof penetration), per LF", unit: "LF", waste: 5, quantityFormula: "MANUAL", activityType: "install", coverageType: "A", xactCategoryCode: "RFG", xactSelector: "FLASH", notes: "Flashing at penetrations.", scopeConditions: null, companionRules: {} },
+  { code: "RFG-RIDGE-LF", trade: "RFG", desc: "Ridge cap shingles, per LF", unit: "LF", waste: 8, quantityFormula: "RIDGE_LF", activityType: "install", coverageType: "A", xactCategoryCode: "RFG", xactSelector: "RIDGE", notes: "Ridge cap.", scopeConditions: null, companionRules: {} },
+  { code: "RFG-DRIP-LF", trade: "RFG", desc: "Drip edge, per LF", unit: "LF", waste: 0, quantityFormula: "DRIP_EDGE_LF", activityType: "install", coverageType: "A", xactCategoryCode: "RFG", xactSelector: "DRIP", notes: "Drip edge.", scopeConditions: null, companionRules: {} },
+  { code: "RFG-FLASH-LF", trade: "RFG", desc: "Flashing (roof penetration), per LF", unit: "LF", waste: 5, quantityFormula: "FLASHING_LF", activityType: "install", coverageType: "A", xactCategoryCode: "RFG", xactSelector: "FLASH", notes: "Flashing at penetrations.", scopeConditions: null, companionRules: {} },
   { code: "RFG-ICE-SF", trade: "RFG", desc: "Ice/water shield, per SF", unit: "SF", waste: 8, quantityFormula: "ROOF_SF", activityType: "install", coverageType: "A", xactCategoryCode: "RFG", xactSelector: "ICE", notes: "Ice/water shield.", scopeConditions: { damage_types: ["water_intrusion"], surfaces: ["roof"] }, companionRules: {} },
   { code: "RFG-VENT-EA", trade: "RFG", desc: "Roof vent installation, each", unit: "EA", waste: 0, quantityFormula: "EACH", activityType: "install", coverageType: "A", xactCategoryCode: "RFG", xactSelector: "VENT", notes: "Roof vent.", scopeConditions: null, companionRules: {} },
-  { code: "RFG-VALLEY-LF", trade: "RFG", desc: "Valley flashing, per LF", unit: "LF", waste: 5, quantityFormula: "MANUAL", activityType: "install", coverageType: "A", xactCategoryCode: "RFG", xactSelector: "VALLEY", notes: "Valley flashing.", scopeConditions: null, companionRules: {} },
+  { code: "RFG-VALLEY-LF", trade: "RFG", desc: "Valley flashing, per LF", unit: "LF", waste: 5, quantityFormula: "VALLEY_LF", activityType: "install", coverageType: "A", xactCategoryCode: "RFG", xactSelector: "VALLEY", notes: "Valley flashing.", scopeConditions: null, companionRules: {} },
 
   // ─── WIN: Windows ────────────────────────────────────────────────────────
   { code: "WIN-DOUBLE-EA", trade: "WIN", desc: "Double-hung window, each", unit: "EA", waste: 5, quantityFormula: "EACH", activityType: "replace", coverageType: "A", xactCategoryCode: "WDV", xactSelector: "DH", notes: "Double-hung window.", scopeConditions: { damage_types: ["wind", "hail"], surfaces: ["window"] }, companionRules: { auto_adds: ["WIN-SEAL-LF"] } },
@@ -197,6 +198,7 @@ const REGIONAL_PRICES: Record<string, { material: number; labor: number; equipme
   "MIT-DEHU-DAY": { material: 25.00, labor: 15.00, equipment: 50.00 },
   "MIT-AIRM-DAY": { material: 10.00, labor: 10.00, equipment: 40.00 },
   "MIT-DEHM-DAY": { material: 35.00, labor: 20.00, equipment: 75.00 },
+  "MIT-AIRS-DAY": { material: 15.00, labor: 10.00, equipment: 70.00 },
   "MIT-APPL-SF": { material: 0.25, labor: 0.75, equipment: 0.25 },
   "MIT-MOLD-SF": { material: 0.50, labor: 2.50, equipment: 0.50 },
   "MIT-DEMO-SF": { material: 0.25, labor: 1.00, equipment: 0.25 },
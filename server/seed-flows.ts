@@ -6,6 +6,8 @@
  */
 import { db } from "./db";
 import { logger } from "./logger";
+import { storage } from "./storage";
+import { publishFlowVersion } from "./workflow/flowVersions";
 import { inspectionFlows } from "@shared/schema";
 import type { InspectionStep } from "@shared/schema";
 import { and, eq } from "drizzle-orm";
@@ -50,6 +52,14 @@ const hailSteps: InspectionStep[] = [
     requiredTools: ["log_test_square", "add_sketch_annotation", "trigger_photo_capture", "apply_peril_template"],
     completionCriteria: "Test square completed on all roof slopes with hit counts recorded.",
   },
+  {
+    id: "hail_replacement_justification",
+    phaseName: "Replacement Justification",
+    agentPrompt: "At least one test square failed. For each failed slope, confirm the hit count against the 8-per-square threshold, note any brittleness test results, and record why repair is not feasible (discontinued material, matching, brittle shingles). Photograph the marked test square with hits circled. This justification supports full slope replacement in the estimate.",
+    requiredTools: ["add_sketch_annotation", "trigger_photo_capture", "add_damage"],
+    completionCriteria: "Each failed slope has a documented replacement justification with photos.",
+    condition: { fact: "testSquare.failed", op: "gte", value: 1 },
+  },
   {
     id: makeId("hail", 6),
     phaseName: "Roof Accessories & Penetrations",
@@ -71,6 +81,14 @@ const hailSteps: InspectionStep[] = [
     requiredTools: ["create_room", "add_opening", "add_damage", "add_line_item", "trigger_photo_capture", "apply_peril_template"],
     completionCriteria: "All 4 elevations inspected with openings documented.",
   },
+  {
+    id: "hail_detached_structure",
+    phaseName: "Detached Structure",
+    agentPrompt: "Inspect this detached structure the same way as the main dwelling: roof overview and a test square if it has shingles, then each elevation for siding, gutter and trim damage. Coverage for other structures may fall under Coverage B, so keep its rooms under this structure.",
+    requiredTools: ["create_room", "log_test_square", "add_opening", "add_damage", "add_line_item", "trigger_photo_capture"],
+    completionCriteria: "Roof and elevations of this structure inspected and documented.",
+    loop: { over: "structures", types: ["garage", "shed", "carport", "pool", "other"] },
+  },
   {
     id: makeId("hail", 9),
     phaseName: "Interior Inspection",
@@ -196,6 +214,14 @@ const waterSteps: InspectionStep[] = [
     requiredTools: ["apply_smart_macro", "add_line_item", "trigger_photo_capture"],
     completionCriteria: "Mitigation equipment documented, drying plan established.",
   },
+  {
+    id: "water_antimicrobial",
+    phaseName: "Antimicrobial & Containment (Category 3)",
+    agentPrompt: "Category 3 water requires antimicrobial treatment of all affected surfaces and containment to keep contamination out of unaffected areas. Document containment barriers and negative air, antimicrobial application per affected room, and removal of porous materials (carpet, pad, drywall below the flood cut) that cannot be cleaned. Category 3 contents in affected rooms are generally non-salvageable unless non-porous.",
+    requiredTools: ["add_line_item", "apply_smart_macro", "trigger_photo_capture"],
+    completionCriteria: "Antimicrobial, containment and porous material removal documented for every affected room.",
+    condition: { fact: "water.category", op: "eq", value: 3 },
+  },
   {
     id: makeId("water", 7),
     phaseName: "Content & Personal Property",
@@ -374,16 +400,20 @@ export async function seedInspectionFlows(): Promise<number> {
       .limit(1);
 
     if (existing.length === 0) {
-      await db.insert(inspectionFlows).values(flowData);
+      const [flow] = await db.insert(inspectionFlows).values(flowData).returning();
+      await publishFlowVersion(storage, flow, { changelog: "Initial version", publishedBy: null });
       count++;
       logger.info("SeedFlows", `Seeded: ${flowData.name} (${flowData.perilType})`);
     } else {
-      // Update existing system default with latest steps
-      await db
+      // Update existing system default with latest steps; in-progress sessions
+      // stay on the version they pinned
+      const [flow] = await db
         .update(inspectionFlows)
         .set({ steps: flowData.steps, description: flowData.description, updatedAt: new Date() })
-        .where(eq(inspectionFlows.id, existing[0].id));
-      logger.info("SeedFlows", `Updated: ${flowData.name} (${flowData.perilType})`);
+        .where(eq(inspectionFlows.id, existing[0].id))
+        .returning();
+      const version = await publishFlowVersion(storage, flow, { changelog: "Updated system default steps", publishedBy: null });
+      logger.info("SeedFlows", `Updated: ${flowData.name} (${flowData.perilType})${version ? ` to v${version.version}` : ""}`);
     }
   }
   return count;
@@ -1,3 +1,5 @@
+import type { Carrier, PolicyRule } from "@shared/schema";
+
 // ── Settlement Rules Engine ──
 
 /**
@@ -27,29 +29,38 @@ export interface SettlementRules {
 }
 
 /**
- * Factory function: resolves settlement rules from claim + policy data.
+ * Factory function: resolves settlement rules from the claim's carrier profile
+ * and policy data. An explicit carrierCode takes precedence over the carrier
+ * referenced on the claim.
  */
 export async function resolveSettlementRules(
   claimId: string,
-  carrierCode: string | null,
+  carrierCode?: string | null,
   overrides?: Partial<SettlementRules>
 ): Promise<SettlementRules> {
   let rules = getDefaultSettlementRules();
 
-  if (carrierCode) {
-    const carrierRules = await loadCarrierSettlementRules(carrierCode);
-    if (carrierRules) {
-      rules = { ...rules, ...carrierRules };
-    }
-  }
-
+  let claimInfo: ClaimSettlementInfo | null = null;
   try {
-    const claim = await loadClaimTaxInfo(claimId);
-    if (claim?.taxRate != null) {
-      rules.defaultTaxRate = claim.taxRate;
-    }
+    claimInfo = await loadClaimTaxInfo(claimId);
   } catch {
-    // Claim not found; continue with current rate
+    // Claim not found; continue with defaults
+  }
+
+  const carrierRules = carrierCode
+    ? await loadCarrierSettlementRules(carrierCode)
+    : claimInfo?.carrier ? carrierSettlementRules(claimInfo.carrier) : null;
+  if (carrierRules) {
+    rules = { ...rules, ...carrierRules };
+  }
+
+  if (claimInfo?.taxRate != null) {
+    rules.defaultTaxRate = claimInfo.taxRate;
+  }
+
+  // Changes the adjuster accepted from the claim's endorsements
+  if (claimInfo?.settlementOverrides) {
+    rules = { ...rules, ...claimInfo.settlementOverrides };
   }
 
   if (overrides) {
@@ -76,61 +87,62 @@ export function getDefaultSettlementRules(): SettlementRules {
   };
 }
 
-const CARRIER_RULES: Map<string, Partial<SettlementRules>> = new Map([
-  [
-    "CARRIER_STATE_FARM",
-    {
-      opThreshold: 3,
-      taxOnOP: false,
-      taxOnLabor: false,
-      depreciationBasis: "rcv_before_op",
-      overheadPercentage: 12,
-      profitPercentage: 8,
-      opExcludedTrades: ["MIT"],
-      applyRoofDepreciationSchedule: true,
-      description: "State Farm (FL-specific): non-taxable labor, roof depreciation",
-    },
-  ],
-  [
-    "CARRIER_ALLSTATE",
-    {
-      opThreshold: 2,
-      taxOnOP: false,
-      taxOnLabor: true,
-      depreciationBasis: "rcv_before_op",
-      overheadPercentage: 10,
-      profitPercentage: 10,
-      opExcludedTrades: ["MIT", "DEM"],
-      applyRoofDepreciationSchedule: false,
-      description: "Allstate: 2-trade O&P threshold, non-taxable O&P",
-    },
-  ],
-  [
-    "CARRIER_HOMEOWNERS_STANDARD",
-    {
-      opThreshold: 3,
-      taxOnOP: false,
-      taxOnLabor: true,
-      depreciationBasis: "rcv_full",
-      overheadPercentage: 15,
-      profitPercentage: 15,
-      opExcludedTrades: [],
-      applyRoofDepreciationSchedule: false,
-      description: "Standard homeowners (high O&P rates)",
-    },
-  ],
-]);
+/**
+ * Settlement rules a carrier profile overrides. Everything not on the
+ * profile (default tax rate) keeps its default.
+ */
+export function carrierSettlementRules(carrier: Carrier): Partial<SettlementRules> {
+  return {
+    opThreshold: carrier.opThreshold,
+    taxOnOP: carrier.taxOnOP,
+    taxOnLabor: carrier.taxOnLabor,
+    depreciationBasis: carrier.depreciationBasis as SettlementRules["depreciationBasis"],
+    overheadPercentage: carrier.overheadPct,
+    profitPercentage: carrier.profitPct,
+    opExcludedTrades: ((carrier.opExcludedTrades ?? []) as string[]).map(t => t.toUpperCase()),
+    applyRoofDepreciationSchedule: carrier.applyRoofSchedule,
+    laborEfficiency: carrier.laborEfficiency,
+    carrierCode: carrier.code,
+    description: carrier.notes ? `${carrier.name}: ${carrier.notes}` : carrier.name,
+  };
+}
+
+/**
+ * Claim-level tax rate: the Coverage A policy rule's rate, else the first
+ * policy rule that carries one.
+ */
+export function claimTaxRate(policyRules: Array<Pick<PolicyRule, "coverageType" | "taxRate">>): number | null {
+  const rule = policyRules.find(r => r.coverageType === "Coverage A" && r.taxRate != null)
+    ?? policyRules.find(r => r.taxRate != null);
+  return rule?.taxRate != null ? Number(rule.taxRate) : null;
+}
+
+interface ClaimSettlementInfo {
+  carrier: Carrier | null;
+  taxRate: number | null;
+  settlementOverrides: Partial<SettlementRules> | null;
+}
 
 async function loadCarrierSettlementRules(
   carrierCode: string
 ): Promise<Partial<SettlementRules> | null> {
-  const cached = CARRIER_RULES.get(carrierCode.toUpperCase());
-  return cached ?? null;
+  const { storage } = await import("./storage");
+  const carrier = await storage.getCarrierByCode(carrierCode);
+  return carrier ? carrierSettlementRules(carrier) : null;
 }
 
-async function loadClaimTaxInfo(_claimId: string): Promise<{ taxRate?: number } | null> {
-  // Future: read from claim.taxRate or policy.taxRate in database
-  return null;
+async function loadClaimTaxInfo(claimId: string): Promise<ClaimSettlementInfo | null> {
+  const id = parseInt(claimId, 10);
+  if (Number.isNaN(id)) return null;
+  const { storage } = await import("./storage");
+  const claim = await storage.getClaim(id);
+  if (!claim) return null;
+  const carrier = claim.carrierId ? (await storage.getCarrier(claim.carrierId)) ?? null : null;
+  return {
+    carrier,
+    taxRate: claimTaxRate(await storage.getPolicyRulesForClaim(id)),
+    settlementOverrides: (claim.settlementOverrides as Partial<SettlementRules> | null) ?? null,
+  };
 }
 
 export function validateSettlementRules(rules: SettlementRules): void {
@@ -203,32 +215,63 @@ export function calculateDepreciationBasis(
   }
 }
 
+export interface CategoryTaxRule {
+  category: string;
+  taxRate: number;
+  costType: "all" | "materials_only" | "labor_only";
+}
+
 /**
- * Resolves the tax rate for a line item.
+ * First rule matching the category, else the first rule with no category
+ * (applies to everything). Labor-only rules are matched separately.
  */
-export function resolveTaxRateWithRules(
+function matchCategoryTaxRule(
   category: string,
-  rules: SettlementRules,
-  taxRules?: Array<{
-    category: string;
-    taxRate: number;
-    costType: "all" | "materials_only" | "labor_only";
-  }>
-): number {
-  if (!taxRules || taxRules.length === 0) {
-    return rules.defaultTaxRate / 100;
-  }
-
+  taxRules: CategoryTaxRule[],
+  laborOnly: boolean
+): CategoryTaxRule | null {
+  const candidates = taxRules.filter(r => (r.costType === "labor_only") === laborOnly);
   const catLower = (category || "").toLowerCase();
 
-  for (const rule of taxRules) {
+  for (const rule of candidates) {
     const ruleCat = (rule.category || "").toLowerCase();
     if (ruleCat && (catLower.includes(ruleCat) || ruleCat.includes(catLower))) {
-      return rule.taxRate / 100;
+      return rule;
     }
   }
+  return candidates.find(r => !r.category) ?? null;
+}
 
-  return rules.defaultTaxRate / 100;
+/**
+ * Resolves the tax rate for a line item.
+ */
+export function resolveTaxRateWithRules(
+  category: string,
+  rules: SettlementRules,
+  taxRules?: CategoryTaxRule[]
+): number {
+  return resolveItemTaxRates(category, rules, taxRules).taxRate / 100;
+}
+
+/**
+ * Resolves a line item's tax as percentages: the rate on its taxable base,
+ * whether that rate covers materials only, and any separate labor tax.
+ */
+export function resolveItemTaxRates(
+  category: string,
+  rules: SettlementRules,
+  taxRules?: CategoryTaxRule[]
+): { taxRate: number; materialsOnly: boolean; laborTaxRate: number } {
+  if (!taxRules || taxRules.length === 0) {
+    return { taxRate: rules.defaultTaxRate, materialsOnly: false, laborTaxRate: 0 };
+  }
+  const rule = matchCategoryTaxRule(category, taxRules, false);
+  const laborRule = matchCategoryTaxRule(category, taxRules, true);
+  return {
+    taxRate: rule ? rule.taxRate : rules.defaultTaxRate,
+    materialsOnly: rule?.costType === "materials_only",
+    laborTaxRate: laborRule?.taxRate ?? 0,
+  };
 }
 
 /**
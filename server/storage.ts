@@ -1,8 +1,8 @@
-import { db } from "./db";
+import { db as defaultDb } from "./db";
 import {
   claims, documents, extractions, briefings,
   inspectionSessions, inspectionRooms, damageObservations,
-  lineItems, inspectionPhotos, moistureReadings, voiceTranscripts,
+  lineItems, inspectionPhotos, moistureReadings, atmosphericReadings, dryingEquipment, voiceTranscripts,
   supplementalClaims, structures, roomOpenings, sketchAnnotations, sketchTemplates,
   testSquares,
   policyRules,
@@ -23,11 +23,29 @@ import {
   type LineItem, type InsertLineItem,
   type InspectionPhoto, type InsertInspectionPhoto,
   type MoistureReading, type InsertMoistureReading,
+  type AtmosphericReading, type InsertAtmosphericReading,
+  type DryingEquipment, type InsertDryingEquipment,
   type TestSquare, type InsertTestSquare,
   type VoiceTranscript, type InsertVoiceTranscript,
   type SupplementalClaim, type InsertSupplementalClaim,
   type PolicyRule, type InsertPolicyRule,
+  endorsementProposals, type EndorsementProposal, type InsertEndorsementProposal,
   type TaxRule, type InsertTaxRule,
+  contentsItems, type ContentsItem, type InsertContentsItem,
+  depreciationHoldbacks, type DepreciationHoldback, type InsertDepreciationHoldback,
+  holdbackProofs, type HoldbackProof, type InsertHoldbackProof,
+  holdbackReleases, type HoldbackRelease, type InsertHoldbackRelease,
+  claimPayments, type ClaimPayment, type InsertClaimPayment,
+  estimateVersions, type EstimateVersion, type InsertEstimateVersion,
+  estimateReconciliations, type EstimateReconciliation, type InsertEstimateReconciliation,
+  carriers, type Carrier, type InsertCarrier,
+  gateRulePacks, type GateRulePack, type InsertGateRulePack,
+  depreciationSchedules, type DepreciationSchedule, type InsertDepreciationSchedule,
+  depreciationScheduleVersions, type DepreciationScheduleVersion, type InsertDepreciationScheduleVersion,
+  xactPriceListImports, type XactPriceListImport, type InsertXactPriceListImport,
+  xactJurisdiction, xactSalesTax, type XactJurisdiction, type XactSalesTax,
+  xactBurdenTax, xactMinimum, type XactBurdenTax, type XactMinimum,
+  taxJurisdictionAreas, type TaxJurisdictionArea, type InsertTaxJurisdictionArea,
   scopeLineItems, regionalPriceSets,
   scopeTrades, scopeItems, scopeSummary,
   type ScopeLineItem, type InsertScopeLineItem,
@@ -35,17 +53,30 @@ import {
   type ScopeTrade, type InsertScopeTrade,
   type ScopeItem, type InsertScopeItem,
   type ScopeSummary, type InsertScopeSummary,
+  matchingAssessments, type MatchingAssessment, type InsertMatchingAssessment,
   userSettings, type UserSettings,
   inspectionFlows, type InspectionFlow, type InsertInspectionFlow,
+  inspectionFlowVersions, type InspectionFlowVersion, type InsertInspectionFlowVersion,
   inspectionSessionEvents, type InspectionSessionEvent, type InsertInspectionSessionEvent,
   dailyItineraries, type DailyItinerary, type InsertDailyItinerary,
   adjusterNotifications, type AdjusterNotification, type InsertAdjusterNotification,
   ms365Tokens, type Ms365Token, type InsertMs365Token,
   ms365OauthStates, type Ms365OauthState,
 } from "@shared/schema";
-import { eq, and, desc, sql, or, asc, inArray } from "drizzle-orm";
+import { eq, and, desc, sql, or, asc, inArray, isNull } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import type { PostgresJsQueryResultHKT } from "drizzle-orm/postgres-js";
+import type * as schema from "@shared/schema";
+import type { PerilDeductible } from "./deductibles";
+import type { SublimitDefinition } from "./sublimits";
+
+/** The database or an open transaction on it */
+type Database = PgDatabase<PostgresJsQueryResultHKT, typeof schema>;
 
 export interface IStorage {
+  /** Runs `fn` against a storage whose writes commit or roll back together. */
+  transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T>;
+
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
@@ -65,7 +96,7 @@ export interface IStorage {
   deleteClaim(id: number): Promise<boolean>;
   deleteAllClaims(): Promise<number>;
   updateClaimStatus(id: number, status: string): Promise<Claim | undefined>;
-  updateClaimFields(id: number, fields: Partial<Pick<Claim, 'insuredName' | 'propertyAddress' | 'city' | 'state' | 'zip' | 'dateOfLoss' | 'perilType' | 'assignedTo'>>): Promise<Claim | undefined>;
+  updateClaimFields(id: number, fields: Partial<Pick<Claim, 'insuredName' | 'propertyAddress' | 'city' | 'state' | 'zip' | 'dateOfLoss' | 'perilType' | 'assignedTo' | 'carrierId' | 'depreciationScheduleId' | 'taxJurisdictionId' | 'settlementOverrides'>>): Promise<Claim | undefined>;
 
   getAllDocuments(pagination?: { limit: number; offset: number }): Promise<Document[]>;
   getAllDocumentsCount(): Promise<number>;
@@ -200,8 +231,16 @@ export interface IStorage {
   getMoistureReading(id: number): Promise<MoistureReading | undefined>;
   getMoistureReadings(roomId: number): Promise<MoistureReading[]>;
   getMoistureReadingsForSession(sessionId: number): Promise<MoistureReading[]>;
-  updateMoistureReading(id: number, updates: Partial<Pick<MoistureReading, 'location' | 'reading' | 'materialType' | 'dryStandard'>>): Promise<MoistureReading | undefined>;
+  updateMoistureReading(id: number, updates: Partial<Pick<MoistureReading, 'location' | 'reading' | 'materialType' | 'dryStandard' | 'readingDate'>>): Promise<MoistureReading | undefined>;
   deleteMoistureReading(id: number): Promise<void>;
+  createAtmosphericReading(data: InsertAtmosphericReading): Promise<AtmosphericReading>;
+  getAtmosphericReadingsForSession(sessionId: number): Promise<AtmosphericReading[]>;
+  deleteAtmosphericReading(id: number): Promise<void>;
+  createDryingEquipment(data: InsertDryingEquipment): Promise<DryingEquipment>;
+  getDryingEquipment(id: number): Promise<DryingEquipment | undefined>;
+  getDryingEquipmentForSession(sessionId: number): Promise<DryingEquipment[]>;
+  updateDryingEquipment(id: number, updates: Partial<Pick<DryingEquipment, 'quantity' | 'placedOn' | 'removedOn' | 'notes'>>): Promise<DryingEquipment | undefined>;
+  deleteDryingEquipment(id: number): Promise<void>;
 
   // Test squares (forensic hail/wind documentation)
   createTestSquare(data: InsertTestSquare): Promise<TestSquare>;
@@ -219,6 +258,8 @@ export interface IStorage {
   getScopeLineItems(): Promise<ScopeLineItem[]>;
   getScopeLineItemByCode(code: string): Promise<ScopeLineItem | undefined>;
   getScopeLineItemsByTrade(tradeCode: string): Promise<ScopeLineItem[]>;
+  getScopeLineItemsByCodes(codes: string[]): Promise<ScopeLineItem[]>;
+  getXactMinimums(ids: string[]): Promise<XactMinimum[]>;
   getRegionalPrice(lineItemCode: string, regionId: string, activityType?: string): Promise<RegionalPriceSet | undefined>;
   getRegionalPricesForCode(lineItemCode: string, regionId: string): Promise<RegionalPriceSet[]>;
   getRegionalPricesForRegion(regionId: string): Promise<RegionalPriceSet[]>;
@@ -238,6 +279,12 @@ export interface IStorage {
   deleteScopeItem(id: number): Promise<void>;
   getActiveScopeItemCount(sessionId: number): Promise<number>;
 
+  // ── Matching Assessments ─────────────────────────
+  getMatchingAssessments(sessionId: number): Promise<MatchingAssessment[]>;
+  getMatchingAssessmentForRoom(roomId: number): Promise<MatchingAssessment | undefined>;
+  upsertMatchingAssessment(data: InsertMatchingAssessment): Promise<MatchingAssessment>;
+  updateMatchingAssessment(id: number, updates: Partial<InsertMatchingAssessment>): Promise<MatchingAssessment | undefined>;
+
   // ── Scope Summary ────────────────────────────────
   upsertScopeSummary(sessionId: number, tradeCode: string, data: Partial<InsertScopeSummary>): Promise<ScopeSummary>;
   getScopeSummary(sessionId: number): Promise<ScopeSummary[]>;
@@ -261,6 +308,10 @@ export interface IStorage {
   getDefaultFlowForPeril(perilType: string, userId?: string): Promise<InspectionFlow | undefined>;
   updateInspectionFlow(id: number, updates: Partial<InsertInspectionFlow>): Promise<InspectionFlow | undefined>;
   deleteInspectionFlow(id: number): Promise<boolean>;
+  getInspectionFlowVersions(flowId: number): Promise<InspectionFlowVersion[]>;
+  getInspectionFlowVersion(id: number): Promise<InspectionFlowVersion | undefined>;
+  getLatestInspectionFlowVersion(flowId: number): Promise<InspectionFlowVersion | undefined>;
+  createInspectionFlowVersion(data: Omit<InsertInspectionFlowVersion, "version">): Promise<InspectionFlowVersion>;
 
   // ── Policy Rules ──────────────────────────
   createPolicyRule(data: InsertPolicyRule): Promise<PolicyRule>;
@@ -268,10 +319,90 @@ export interface IStorage {
   getPolicyRule(claimId: number, coverageType: string): Promise<PolicyRule | undefined>;
   updatePolicyRule(id: number, updates: Partial<PolicyRule>): Promise<PolicyRule | undefined>;
 
+  // ── Endorsement Proposals ─────────────────
+  createEndorsementProposal(data: InsertEndorsementProposal): Promise<EndorsementProposal>;
+  getEndorsementProposals(claimId: number): Promise<EndorsementProposal[]>;
+  updateEndorsementProposal(id: number, updates: Partial<InsertEndorsementProposal>): Promise<EndorsementProposal | undefined>;
+  deleteEndorsementProposal(id: number): Promise<void>;
+
   // ── Tax Rules ────────────────────────────────
   createTaxRule(data: InsertTaxRule): Promise<TaxRule>;
   getTaxRulesForClaim(claimId: number): Promise<TaxRule[]>;
   deleteTaxRule(id: number): Promise<void>;
+  deleteTaxRulesBySource(claimId: number, sources: string[]): Promise<void>;
+
+  // ── Tax Jurisdictions ────────────────────────
+  getTaxJurisdictions(): Promise<XactJurisdiction[]>;
+  getTaxJurisdiction(id: string): Promise<XactJurisdiction | undefined>;
+  getJurisdictionSalesTaxes(jurisdictionId: string): Promise<XactSalesTax[]>;
+  getJurisdictionBurdenTaxes(jurisdictionId: string): Promise<XactBurdenTax[]>;
+  getTaxJurisdictionAreas(state?: string): Promise<TaxJurisdictionArea[]>;
+  createTaxJurisdictionArea(data: InsertTaxJurisdictionArea): Promise<TaxJurisdictionArea>;
+  deleteTaxJurisdictionArea(id: number): Promise<void>;
+
+  // ── Contents Inventory ───────────────────────
+  createContentsItem(data: InsertContentsItem): Promise<ContentsItem>;
+  createContentsItems(data: InsertContentsItem[]): Promise<ContentsItem[]>;
+  getContentsItemsForClaim(claimId: number): Promise<ContentsItem[]>;
+  getContentsItem(id: number): Promise<ContentsItem | undefined>;
+  updateContentsItem(id: number, updates: Partial<InsertContentsItem>): Promise<ContentsItem | undefined>;
+  deleteContentsItem(id: number): Promise<void>;
+
+  // ── Depreciation Holdback ──────────────────────
+  getHoldbacksForClaim(claimId: number): Promise<DepreciationHoldback[]>;
+  getHoldback(id: number): Promise<DepreciationHoldback | undefined>;
+  upsertHoldback(data: InsertDepreciationHoldback): Promise<DepreciationHoldback>;
+  updateHoldback(id: number, updates: Partial<InsertDepreciationHoldback>): Promise<DepreciationHoldback | undefined>;
+  createHoldbackProof(data: InsertHoldbackProof): Promise<HoldbackProof>;
+  getHoldbackProofsForClaim(claimId: number): Promise<HoldbackProof[]>;
+  createHoldbackRelease(data: InsertHoldbackRelease): Promise<HoldbackRelease>;
+  getHoldbackReleasesForClaim(claimId: number): Promise<HoldbackRelease[]>;
+
+  // ── Claim Payments (append-only) ───────────────
+  createPaymentEntries(entries: InsertClaimPayment[]): Promise<ClaimPayment[]>;
+  getPaymentsForClaim(claimId: number): Promise<ClaimPayment[]>;
+  getPayment(id: number): Promise<ClaimPayment | undefined>;
+
+  // ── Estimate Versions ──────────────────────────
+  createEstimateVersion(data: Omit<InsertEstimateVersion, "versionNumber">): Promise<EstimateVersion>;
+  getEstimateVersions(sessionId: number): Promise<EstimateVersion[]>;
+  getEstimateVersion(id: number): Promise<EstimateVersion | undefined>;
+
+  // ── Estimate Reconciliations ───────────────────
+  createEstimateReconciliation(data: InsertEstimateReconciliation): Promise<EstimateReconciliation>;
+  getEstimateReconciliations(sessionId: number): Promise<EstimateReconciliation[]>;
+  getEstimateReconciliation(id: number): Promise<EstimateReconciliation | undefined>;
+  updateEstimateReconciliation(id: number, updates: Partial<InsertEstimateReconciliation>): Promise<EstimateReconciliation | undefined>;
+
+  // ── Carriers ───────────────────────────────────
+  getCarriers(): Promise<Carrier[]>;
+  getCarrier(id: number): Promise<Carrier | undefined>;
+  getCarrierByCode(code: string): Promise<Carrier | undefined>;
+  createCarrier(data: InsertCarrier): Promise<Carrier>;
+  updateCarrier(id: number, updates: Partial<InsertCarrier>): Promise<Carrier | undefined>;
+
+  // ── Gate Rule Packs ────────────────────────────
+  getGateRulePacks(): Promise<GateRulePack[]>;
+  getGateRulePack(id: number): Promise<GateRulePack | undefined>;
+  getApplicableGateRulePacks(scope: { carrierId: number | null; flowId: number | null }): Promise<GateRulePack[]>;
+  createGateRulePack(data: InsertGateRulePack): Promise<GateRulePack>;
+  updateGateRulePack(id: number, updates: Partial<InsertGateRulePack>): Promise<GateRulePack | undefined>;
+  deleteGateRulePack(id: number): Promise<boolean>;
+
+  // ── Depreciation Schedules ─────────────────────
+  getDepreciationSchedules(): Promise<DepreciationSchedule[]>;
+  getDepreciationSchedule(id: number): Promise<DepreciationSchedule | undefined>;
+  createDepreciationSchedule(data: InsertDepreciationSchedule): Promise<DepreciationSchedule>;
+  updateDepreciationSchedule(id: number, updates: Partial<InsertDepreciationSchedule>): Promise<DepreciationSchedule | undefined>;
+  getDepreciationScheduleVersions(scheduleId: number): Promise<DepreciationScheduleVersion[]>;
+  getDepreciationScheduleVersion(id: number): Promise<DepreciationScheduleVersion | undefined>;
+  createDepreciationScheduleVersion(data: Omit<InsertDepreciationScheduleVersion, "version">): Promise<DepreciationScheduleVersion>;
+
+  // ── Price List Imports ─────────────────────────
+  createPriceListImport(data: InsertXactPriceListImport): Promise<XactPriceListImport>;
+  getPriceListImports(): Promise<XactPriceListImport[]>;
+  getPriceListImport(id: number): Promise<XactPriceListImport | undefined>;
+  updatePriceListImport(id: number, updates: Partial<InsertXactPriceListImport>): Promise<XactPriceListImport | undefined>;
 
   // ── Settlement Summary ──────────────────────────
   getSettlementSummary(sessionId: number, claimId: number): Promise<any>;
@@ -315,14 +446,20 @@ export interface IStorage {
 }
 
 export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: Database = defaultDb) {}
+
+  async transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction((tx) => fn(new DatabaseStorage(tx)));
+  }
+
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
     const normalizedUsername = username.trim().toLowerCase();
-    const [user] = await db
+    const [user] = await this.db
       .select()
       .from(users)
       .where(sql`lower(${users.username}) = ${normalizedUsername}`)
@@ -332,7 +469,7 @@ export class DatabaseStorage implements IStorage {
 
   async getUserByEmail(email: string): Promise<User | undefined> {
     const normalizedEmail = email.trim().toLowerCase();
-    const [user] = await db
+    const [user] = await this.db
       .select()
       .from(users)
       .where(sql`lower(${users.email}) = ${normalizedEmail}`)
@@ -347,7 +484,7 @@ export class DatabaseStorage implements IStorage {
     }
 
     if (normalizedIdentifier.includes("@")) {
-      const [user] = await db
+      const [user] = await this.db
         .select()
         .from(users)
         .where(sql`lower(${users.email}) = ${normalizedIdentifier}`)
@@ -355,7 +492,7 @@ export class DatabaseStorage implements IStorage {
       return user;
     }
 
-    const [user] = await db
+    const [user] = await this.db
       .select()
       .from(users)
       .where(sql`lower(${users.username}) = ${normalizedIdentifier}`)
@@ -364,12 +501,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values(insertUser).returning();
+    const [user] = await this.db.insert(users).values(insertUser).returning();
     return user;
   }
 
   async getUserBySupabaseId(supabaseAuthId: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.supabaseAuthId, supabaseAuthId));
+    const [user] = await this.db.select().from(users).where(eq(users.supabaseAuthId, supabaseAuthId));
     return user;
   }
 
@@ -379,7 +516,7 @@ export class DatabaseStorage implements IStorage {
 
     const existingBySupabaseId = await this.getUserBySupabaseId(supabaseAuthId);
     if (existingBySupabaseId) {
-      const [updated] = await db
+      const [updated] = await this.db
         .update(users)
         .set({
           email: normalizedEmail || existingBySupabaseId.email,
@@ -398,7 +535,7 @@ export class DatabaseStorage implements IStorage {
           throw new Error("Account already linked to a different Supabase identity");
         }
 
-        const [linked] = await db
+        const [linked] = await this.db
           .update(users)
           .set({
             supabaseAuthId,
@@ -417,7 +554,7 @@ export class DatabaseStorage implements IStorage {
         .replace(/[^a-z0-9_]+/g, "_")
         .replace(/^_+|_+$/g, "") || "user";
 
-    const [newUser] = await db
+    const [newUser] = await this.db
       .insert(users)
       .values({
         username: `${baseUsername}_${Date.now().toString(36)}`,
@@ -433,7 +570,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateUserLastLogin(userId: string): Promise<User | undefined> {
-    const [user] = await db
+    const [user] = await this.db
       .update(users)
       .set({ lastLoginAt: new Date() })
       .where(eq(users.id, userId))
@@ -442,11 +579,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAllUsers(): Promise<User[]> {
-    return db.select().from(users).orderBy(users.fullName);
+    return this.db.select().from(users).orderBy(users.fullName);
   }
 
   async getClaimsForUser(userId: string, pagination?: { limit: number; offset: number }): Promise<Claim[]> {
-    let query = db
+    let query = this.db
       .select()
       .from(claims)
       .where(eq(claims.assignedTo, userId))
@@ -458,7 +595,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getClaimsForUserCount(userId: string): Promise<number> {
-    const [result] = await db
+    const [result] = await this.db
       .select({ count: sql<number>`count(*)::int` })
       .from(claims)
       .where(eq(claims.assignedTo, userId));
@@ -466,12 +603,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createClaim(data: InsertClaim): Promise<Claim> {
-    const [claim] = await db.insert(claims).values(data).returning();
+    const [claim] = await this.db.insert(claims).values(data).returning();
     return claim;
   }
 
   async getClaims(pagination?: { limit: number; offset: number }): Promise<Claim[]> {
-    let query = db.select().from(claims).orderBy(desc(claims.createdAt));
+    let query = this.db.select().from(claims).orderBy(desc(claims.createdAt));
     if (pagination) {
       query = query.limit(pagination.limit).offset(pagination.offset) as any;
     }
@@ -479,33 +616,33 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getClaimsCount(): Promise<number> {
-    const [result] = await db
+    const [result] = await this.db
       .select({ count: sql<number>`count(*)::int` })
       .from(claims);
     return result?.count ?? 0;
   }
 
   async getClaim(id: number): Promise<Claim | undefined> {
-    const [claim] = await db.select().from(claims).where(eq(claims.id, id));
+    const [claim] = await this.db.select().from(claims).where(eq(claims.id, id));
     return claim;
   }
 
   async deleteClaim(id: number): Promise<boolean> {
-    return db.transaction(async (tx) => {
+    return this.db.transaction(async (tx) => {
       const [deleted] = await tx.delete(claims).where(eq(claims.id, id)).returning();
       return !!deleted;
     });
   }
 
   async deleteAllClaims(): Promise<number> {
-    return db.transaction(async (tx) => {
+    return this.db.transaction(async (tx) => {
       const deleted = await tx.delete(claims).returning();
       return deleted.length;
     });
   }
 
   async updateClaimStatus(id: number, status: string): Promise<Claim | undefined> {
-    const [claim] = await db
+    const [claim] = await this.db
       .update(claims)
       .set({ status, updatedAt: new Date() })
       .where(eq(claims.id, id))
@@ -513,8 +650,8 @@ export class DatabaseStorage implements IStorage {
     return claim;
   }
 
-  async updateClaimFields(id: number, fields: Partial<Pick<Claim, 'insuredName' | 'propertyAddress' | 'city' | 'state' | 'zip' | 'dateOfLoss' | 'perilType' | 'assignedTo'>>): Promise<Claim | undefined> {
-    const [claim] = await db
+  async updateClaimFields(id: number, fields: Partial<Pick<Claim, 'insuredName' | 'propertyAddress' | 'city' | 'state' | 'zip' | 'dateOfLoss' | 'perilType' | 'assignedTo' | 'carrierId' | 'depreciationScheduleId' | 'taxJurisdictionId' | 'settlementOverrides'>>): Promise<Claim | undefined> {
+    const [claim] = await this.db
       .update(claims)
       .set({ ...fields, updatedAt: new Date() })
       .where(eq(claims.id, id))
@@ -523,12 +660,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createDocument(data: InsertDocument): Promise<Document> {
-    const [doc] = await db.insert(documents).values(data).returning();
+    const [doc] = await this.db.insert(documents).values(data).returning();
     return doc;
   }
 
   async getAllDocuments(pagination?: { limit: number; offset: number }): Promise<Document[]> {
-    let query = db.select().from(documents);
+    let query = this.db.select().from(documents);
     if (pagination) {
       query = query.limit(pagination.limit).offset(pagination.offset) as any;
     }
@@ -536,14 +673,14 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAllDocumentsCount(): Promise<number> {
-    const [result] = await db
+    const [result] = await this.db
       .select({ count: sql<number>`count(*)::int` })
       .from(documents);
     return result?.count ?? 0;
   }
 
   async getDocumentsForUser(userId: string, pagination?: { limit: number; offset: number }): Promise<Document[]> {
-    let query = db
+    let query = this.db
       .select({
         id: documents.id,
         claimId: documents.claimId,
@@ -566,7 +703,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getDocumentsForUserCount(userId: string): Promise<number> {
-    const [result] = await db
+    const [result] = await this.db
       .select({ count: sql<number>`count(*)::int` })
       .from(documents)
       .innerJoin(claims, eq(documents.claimId, claims.id))
@@ -575,16 +712,16 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getDocumentById(id: number): Promise<Document | undefined> {
-    const [doc] = await db.select().from(documents).where(eq(documents.id, id));
+    const [doc] = await this.db.select().from(documents).where(eq(documents.id, id));
     return doc;
   }
 
   async getDocuments(claimId: number): Promise<Document[]> {
-    return db.select().from(documents).where(eq(documents.claimId, claimId));
+    return this.db.select().from(documents).where(eq(documents.claimId, claimId));
   }
 
   async getDocument(claimId: number, documentType: string): Promise<Document | undefined> {
-    const [doc] = await db
+    const [doc] = await this.db
       .select()
       .from(documents)
       .where(and(eq(documents.claimId, claimId), eq(documents.documentType, documentType)));
@@ -594,12 +731,12 @@ export class DatabaseStorage implements IStorage {
   async updateDocumentStatus(id: number, status: string, rawText?: string): Promise<Document | undefined> {
     const update: any = { status };
     if (rawText !== undefined) update.rawText = rawText;
-    const [doc] = await db.update(documents).set(update).where(eq(documents.id, id)).returning();
+    const [doc] = await this.db.update(documents).set(update).where(eq(documents.id, id)).returning();
     return doc;
   }
 
   async updateDocumentStoragePath(id: number, storagePath: string, fileName: string, fileSize: number): Promise<Document | undefined> {
-    const [doc] = await db
+    const [doc] = await this.db
       .update(documents)
       .set({ storagePath, fileName, fileSize })
       .where(eq(documents.id, id))
@@ -608,7 +745,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateDocumentError(id: number, errorMessage: string): Promise<Document | undefined> {
-    const [doc] = await db
+    const [doc] = await this.db
       .update(documents)
       .set({ status: "error", errorMessage })
       .where(eq(documents.id, id))
@@ -617,16 +754,16 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createExtraction(data: InsertExtraction): Promise<Extraction> {
-    const [ext] = await db.insert(extractions).values(data).returning();
+    const [ext] = await this.db.insert(extractions).values(data).returning();
     return ext;
   }
 
   async getExtractions(claimId: number): Promise<Extraction[]> {
-    return db.select().from(extractions).where(eq(extractions.claimId, claimId));
+    return this.db.select().from(extractions).where(eq(extractions.claimId, claimId));
   }
 
   async getExtraction(claimId: number, documentType: string): Promise<Extraction | undefined> {
-    const [ext] = await db
+    const [ext] = await this.db
       .select()
       .from(extractions)
       .where(and(eq(extractions.claimId, claimId), eq(extractions.documentType, documentType)));
@@ -634,7 +771,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateExtraction(id: number, extractedData: any): Promise<Extraction | undefined> {
-    const [ext] = await db
+    const [ext] = await this.db
       .update(extractions)
       .set({ extractedData, updatedAt: new Date() })
       .where(eq(extractions.id, id))
@@ -643,7 +780,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async confirmExtraction(id: number): Promise<Extraction | undefined> {
-    const [ext] = await db
+    const [ext] = await this.db
       .update(extractions)
       .set({ confirmedByUser: true, updatedAt: new Date() })
       .where(eq(extractions.id, id))
@@ -652,17 +789,17 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createBriefing(data: InsertBriefing): Promise<Briefing> {
-    const [briefing] = await db.insert(briefings).values(data).returning();
+    const [briefing] = await this.db.insert(briefings).values(data).returning();
     return briefing;
   }
 
   async getBriefing(claimId: number): Promise<Briefing | undefined> {
-    const [briefing] = await db.select().from(briefings).where(eq(briefings.claimId, claimId));
+    const [briefing] = await this.db.select().from(briefings).where(eq(briefings.claimId, claimId));
     return briefing;
   }
 
   async updateBriefing(claimId: number, data: Partial<InsertBriefing>): Promise<Briefing | undefined> {
-    const [briefing] = await db
+    const [briefing] = await this.db
       .update(briefings)
       .set(data)
       .where(eq(briefings.claimId, claimId))
@@ -671,7 +808,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createInspectionSession(claimId: number): Promise<InspectionSession> {
-    const [session] = await db.insert(inspectionSessions).values({ claimId }).returning();
+    const [session] = await this.db.insert(inspectionSessions).values({ claimId }).returning();
     return session;
   }
 
@@ -679,7 +816,7 @@ export class DatabaseStorage implements IStorage {
     claimId: number,
     inspectorId?: string | null,
   ): Promise<{ session: InspectionSession; created: boolean }> {
-    return db.transaction(async (tx) => {
+    return this.db.transaction(async (tx) => {
       await tx.execute(sql`SELECT pg_advisory_xact_lock(${claimId})`);
 
       const existingSessions = await tx
@@ -710,16 +847,16 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getInspectionSession(sessionId: number): Promise<InspectionSession | undefined> {
-    const [session] = await db.select().from(inspectionSessions).where(eq(inspectionSessions.id, sessionId));
+    const [session] = await this.db.select().from(inspectionSessions).where(eq(inspectionSessions.id, sessionId));
     return session;
   }
 
   async getInspectionSessionsForClaim(claimId: number): Promise<InspectionSession[]> {
-    return db.select().from(inspectionSessions).where(eq(inspectionSessions.claimId, claimId));
+    return this.db.select().from(inspectionSessions).where(eq(inspectionSessions.claimId, claimId));
   }
 
   async getActiveSessionForClaim(claimId: number): Promise<InspectionSession | undefined> {
-    const sessions = await db.select().from(inspectionSessions)
+    const sessions = await this.db.select().from(inspectionSessions)
       .where(and(
         eq(inspectionSessions.claimId, claimId),
         or(
@@ -734,7 +871,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getLatestSessionForClaim(claimId: number): Promise<InspectionSession | undefined> {
-    const [session] = await db.select().from(inspectionSessions)
+    const [session] = await this.db.select().from(inspectionSessions)
       .where(eq(inspectionSessions.claimId, claimId))
       .orderBy(desc(inspectionSessions.id))
       .limit(1);
@@ -742,27 +879,27 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateSessionPhase(sessionId: number, phase: number): Promise<InspectionSession | undefined> {
-    const [session] = await db.update(inspectionSessions).set({ currentPhase: phase }).where(eq(inspectionSessions.id, sessionId)).returning();
+    const [session] = await this.db.update(inspectionSessions).set({ currentPhase: phase }).where(eq(inspectionSessions.id, sessionId)).returning();
     return session;
   }
 
   async updateSessionRoom(sessionId: number, roomId: number): Promise<InspectionSession | undefined> {
-    const [session] = await db.update(inspectionSessions).set({ currentRoomId: roomId }).where(eq(inspectionSessions.id, sessionId)).returning();
+    const [session] = await this.db.update(inspectionSessions).set({ currentRoomId: roomId }).where(eq(inspectionSessions.id, sessionId)).returning();
     return session;
   }
 
   async updateSessionStatus(sessionId: number, status: string): Promise<InspectionSession | undefined> {
-    const [session] = await db.update(inspectionSessions).set({ status }).where(eq(inspectionSessions.id, sessionId)).returning();
+    const [session] = await this.db.update(inspectionSessions).set({ status }).where(eq(inspectionSessions.id, sessionId)).returning();
     return session;
   }
 
   async updateSession(sessionId: number, updates: Partial<InspectionSession>): Promise<InspectionSession | undefined> {
-    const [session] = await db.update(inspectionSessions).set(updates).where(eq(inspectionSessions.id, sessionId)).returning();
+    const [session] = await this.db.update(inspectionSessions).set(updates).where(eq(inspectionSessions.id, sessionId)).returning();
     return session;
   }
 
   async completeSession(sessionId: number): Promise<InspectionSession | undefined> {
-    const [session] = await db.update(inspectionSessions)
+    const [session] = await this.db.update(inspectionSessions)
       .set({ status: "completed", completedAt: new Date() })
       .where(eq(inspectionSessions.id, sessionId)).returning();
     return session;
@@ -771,27 +908,27 @@ export class DatabaseStorage implements IStorage {
   // ── Structures ───────────────────────────────────────
 
   async createStructure(data: InsertStructure): Promise<Structure> {
-    const [structure] = await db.insert(structures).values(data).returning();
+    const [structure] = await this.db.insert(structures).values(data).returning();
     return structure;
   }
 
   async getStructures(sessionId: number): Promise<Structure[]> {
-    return db.select().from(structures).where(eq(structures.sessionId, sessionId)).orderBy(structures.sortOrder);
+    return this.db.select().from(structures).where(eq(structures.sessionId, sessionId)).orderBy(structures.sortOrder);
   }
 
   async getStructure(structureId: number): Promise<Structure | undefined> {
-    const [structure] = await db.select().from(structures).where(eq(structures.id, structureId));
+    const [structure] = await this.db.select().from(structures).where(eq(structures.id, structureId));
     return structure;
   }
 
   async getStructureByName(sessionId: number, name: string): Promise<Structure | undefined> {
-    const [structure] = await db.select().from(structures)
+    const [structure] = await this.db.select().from(structures)
       .where(and(eq(structures.sessionId, sessionId), eq(structures.name, name)));
     return structure;
   }
 
   async updateStructure(structureId: number, updates: Partial<Structure>): Promise<Structure | undefined> {
-    const [structure] = await db.update(structures).set(updates).where(eq(structures.id, structureId)).returning();
+    const [structure] = await this.db.update(structures).set(updates).where(eq(structures.id, structureId)).returning();
     return structure;
   }
 
@@ -805,74 +942,74 @@ export class DatabaseStorage implements IStorage {
         await this.deleteRoom(room.id);
       }
     }
-    await db.delete(structures).where(eq(structures.id, structureId));
+    await this.db.delete(structures).where(eq(structures.id, structureId));
   }
 
   // ── Rooms ──────────────────────────────────────────
 
   async createRoom(data: InsertInspectionRoom): Promise<InspectionRoom> {
-    const [room] = await db.insert(inspectionRooms).values(data).returning();
+    const [room] = await this.db.insert(inspectionRooms).values(data).returning();
     return room;
   }
 
   async getRooms(sessionId: number): Promise<InspectionRoom[]> {
-    return db.select().from(inspectionRooms).where(eq(inspectionRooms.sessionId, sessionId)).orderBy(inspectionRooms.createdAt);
+    return this.db.select().from(inspectionRooms).where(eq(inspectionRooms.sessionId, sessionId)).orderBy(inspectionRooms.createdAt);
   }
 
   async getRoomsForStructure(structureId: number): Promise<InspectionRoom[]> {
-    return db.select().from(inspectionRooms)
+    return this.db.select().from(inspectionRooms)
       .where(eq(inspectionRooms.structureId, structureId))
       .orderBy(inspectionRooms.createdAt);
   }
 
   async getChildRooms(parentRoomId: number): Promise<InspectionRoom[]> {
-    return db.select().from(inspectionRooms)
+    return this.db.select().from(inspectionRooms)
       .where(eq(inspectionRooms.parentRoomId, parentRoomId))
       .orderBy(inspectionRooms.createdAt);
   }
 
   async getRoom(roomId: number): Promise<InspectionRoom | undefined> {
-    const [room] = await db.select().from(inspectionRooms).where(eq(inspectionRooms.id, roomId));
+    const [room] = await this.db.select().from(inspectionRooms).where(eq(inspectionRooms.id, roomId));
     return room;
   }
 
   async getRoomByName(sessionId: number, name: string): Promise<InspectionRoom | undefined> {
-    const [room] = await db.select().from(inspectionRooms)
+    const [room] = await this.db.select().from(inspectionRooms)
       .where(and(eq(inspectionRooms.sessionId, sessionId), eq(inspectionRooms.name, name)));
     return room;
   }
 
   async updateRoom(roomId: number, updates: Partial<InsertInspectionRoom>): Promise<InspectionRoom | undefined> {
-    const [room] = await db.update(inspectionRooms).set(updates).where(eq(inspectionRooms.id, roomId)).returning();
+    const [room] = await this.db.update(inspectionRooms).set(updates).where(eq(inspectionRooms.id, roomId)).returning();
     return room;
   }
 
   async updateRoomStatus(roomId: number, status: string): Promise<InspectionRoom | undefined> {
-    const [room] = await db.update(inspectionRooms).set({ status }).where(eq(inspectionRooms.id, roomId)).returning();
+    const [room] = await this.db.update(inspectionRooms).set({ status }).where(eq(inspectionRooms.id, roomId)).returning();
     return room;
   }
 
   async updateRoomGeometry(roomId: number, polygon: any, position: any): Promise<InspectionRoom | undefined> {
-    const [room] = await db.update(inspectionRooms).set({ polygon, position }).where(eq(inspectionRooms.id, roomId)).returning();
+    const [room] = await this.db.update(inspectionRooms).set({ polygon, position }).where(eq(inspectionRooms.id, roomId)).returning();
     return room;
   }
 
   async completeRoom(roomId: number): Promise<InspectionRoom | undefined> {
-    const [room] = await db.update(inspectionRooms)
+    const [room] = await this.db.update(inspectionRooms)
       .set({ status: "complete", completedAt: new Date() })
       .where(eq(inspectionRooms.id, roomId)).returning();
     return room;
   }
 
   async incrementRoomDamageCount(roomId: number): Promise<InspectionRoom | undefined> {
-    const [room] = await db.update(inspectionRooms)
+    const [room] = await this.db.update(inspectionRooms)
       .set({ damageCount: sql`${inspectionRooms.damageCount} + 1` })
       .where(eq(inspectionRooms.id, roomId)).returning();
     return room;
   }
 
   async incrementRoomPhotoCount(roomId: number): Promise<InspectionRoom | undefined> {
-    const [room] = await db.update(inspectionRooms)
+    const [room] = await this.db.update(inspectionRooms)
       .set({ photoCount: sql`${inspectionRooms.photoCount} + 1` })
       .where(eq(inspectionRooms.id, roomId)).returning();
     return room;
@@ -880,103 +1017,103 @@ export class DatabaseStorage implements IStorage {
 
   async deleteRoom(roomId: number): Promise<void> {
     // Clean up adjacencies referencing this room (explicit for safety alongside FK cascade)
-    await db.delete(roomAdjacencies).where(
+    await this.db.delete(roomAdjacencies).where(
       or(
         eq(roomAdjacencies.roomIdA, roomId),
         eq(roomAdjacencies.roomIdB, roomId),
       )
     );
 
-    const childRooms = await db.select({ id: inspectionRooms.id }).from(inspectionRooms)
+    const childRooms = await this.db.select({ id: inspectionRooms.id }).from(inspectionRooms)
       .where(eq(inspectionRooms.parentRoomId, roomId));
     const childIds = childRooms.map(c => c.id);
     for (const childId of childIds) {
       // Clean up adjacencies for child room
-      await db.delete(roomAdjacencies).where(
+      await this.db.delete(roomAdjacencies).where(
         or(
           eq(roomAdjacencies.roomIdA, childId),
           eq(roomAdjacencies.roomIdB, childId),
         )
       );
-      await db.delete(roomOpenings).where(eq(roomOpenings.roomId, childId));
-      await db.delete(sketchAnnotations).where(eq(sketchAnnotations.roomId, childId));
+      await this.db.delete(roomOpenings).where(eq(roomOpenings.roomId, childId));
+      await this.db.delete(sketchAnnotations).where(eq(sketchAnnotations.roomId, childId));
     }
     if (childIds.length > 0) {
-      await db.delete(inspectionRooms).where(eq(inspectionRooms.parentRoomId, roomId));
+      await this.db.delete(inspectionRooms).where(eq(inspectionRooms.parentRoomId, roomId));
     }
-    await db.delete(roomOpenings).where(eq(roomOpenings.roomId, roomId));
-    await db.delete(sketchAnnotations).where(eq(sketchAnnotations.roomId, roomId));
-    await db.delete(inspectionRooms).where(eq(inspectionRooms.id, roomId));
+    await this.db.delete(roomOpenings).where(eq(roomOpenings.roomId, roomId));
+    await this.db.delete(sketchAnnotations).where(eq(sketchAnnotations.roomId, roomId));
+    await this.db.delete(inspectionRooms).where(eq(inspectionRooms.id, roomId));
   }
 
   // ── Room Openings (L4: Deductions) ─────────────────
 
   async createRoomOpening(data: InsertRoomOpening): Promise<RoomOpening> {
-    const [opening] = await db.insert(roomOpenings).values(data).returning();
+    const [opening] = await this.db.insert(roomOpenings).values(data).returning();
     return opening;
   }
 
   async getRoomOpenings(roomId: number): Promise<RoomOpening[]> {
-    return db.select().from(roomOpenings).where(eq(roomOpenings.roomId, roomId)).orderBy(roomOpenings.id);
+    return this.db.select().from(roomOpenings).where(eq(roomOpenings.roomId, roomId)).orderBy(roomOpenings.id);
   }
 
   async deleteRoomOpening(id: number): Promise<void> {
-    await db.delete(roomOpenings).where(eq(roomOpenings.id, id));
+    await this.db.delete(roomOpenings).where(eq(roomOpenings.id, id));
   }
 
   // ── Wall Openings (enhanced CRUD with session-level queries) ──
 
   async createOpening(data: InsertRoomOpening): Promise<RoomOpening> {
-    const [opening] = await db.insert(roomOpenings).values(data).returning();
+    const [opening] = await this.db.insert(roomOpenings).values(data).returning();
     return opening;
   }
 
   async getOpening(id: number): Promise<RoomOpening | undefined> {
-    const [opening] = await db.select().from(roomOpenings).where(eq(roomOpenings.id, id));
+    const [opening] = await this.db.select().from(roomOpenings).where(eq(roomOpenings.id, id));
     return opening;
   }
 
   async updateOpening(id: number, updates: Partial<Pick<RoomOpening, "wallDirection" | "wallIndex" | "positionOnWall" | "widthFt" | "heightFt" | "width" | "height" | "quantity" | "label" | "openingType" | "opensInto" | "notes">>): Promise<RoomOpening | undefined> {
-    const [updated] = await db.update(roomOpenings).set(updates as any).where(eq(roomOpenings.id, id)).returning();
+    const [updated] = await this.db.update(roomOpenings).set(updates as any).where(eq(roomOpenings.id, id)).returning();
     return updated;
   }
 
   async getOpeningsForRoom(roomId: number): Promise<RoomOpening[]> {
-    return db.select().from(roomOpenings).where(eq(roomOpenings.roomId, roomId)).orderBy(roomOpenings.id);
+    return this.db.select().from(roomOpenings).where(eq(roomOpenings.roomId, roomId)).orderBy(roomOpenings.id);
   }
 
   async getOpeningsForSession(sessionId: number): Promise<RoomOpening[]> {
-    return db.select().from(roomOpenings).where(eq(roomOpenings.sessionId, sessionId)).orderBy(roomOpenings.id);
+    return this.db.select().from(roomOpenings).where(eq(roomOpenings.sessionId, sessionId)).orderBy(roomOpenings.id);
   }
 
   async deleteOpening(id: number): Promise<void> {
-    await db.delete(roomOpenings).where(eq(roomOpenings.id, id));
+    await this.db.delete(roomOpenings).where(eq(roomOpenings.id, id));
   }
 
   async createAdjacency(data: InsertRoomAdjacency): Promise<RoomAdjacency> {
-    const [adjacency] = await db.insert(roomAdjacencies).values(data).returning();
+    const [adjacency] = await this.db.insert(roomAdjacencies).values(data).returning();
     return adjacency;
   }
 
   async getAdjacency(id: number): Promise<RoomAdjacency | undefined> {
-    const [adjacency] = await db.select().from(roomAdjacencies).where(eq(roomAdjacencies.id, id)).limit(1);
+    const [adjacency] = await this.db.select().from(roomAdjacencies).where(eq(roomAdjacencies.id, id)).limit(1);
     return adjacency;
   }
 
   async getAdjacenciesForRoom(roomId: number): Promise<RoomAdjacency[]> {
-    return db.select().from(roomAdjacencies)
+    return this.db.select().from(roomAdjacencies)
       .where(
         sql`${roomAdjacencies.roomIdA} = ${roomId} OR ${roomAdjacencies.roomIdB} = ${roomId}`
       );
   }
 
   async getAdjacenciesForSession(sessionId: number): Promise<RoomAdjacency[]> {
-    return db.select().from(roomAdjacencies)
+    return this.db.select().from(roomAdjacencies)
       .where(eq(roomAdjacencies.sessionId, sessionId));
   }
 
   async updateAdjacency(id: number, updates: Partial<Pick<RoomAdjacency, 'wallDirectionA' | 'wallDirectionB' | 'sharedWallLengthFt' | 'openingId'>>): Promise<RoomAdjacency | undefined> {
-    const [updated] = await db
+    const [updated] = await this.db
       .update(roomAdjacencies)
       .set(updates)
       .where(eq(roomAdjacencies.id, id))
@@ -985,7 +1122,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteAdjacency(id: number): Promise<void> {
-    await db.delete(roomAdjacencies).where(eq(roomAdjacencies.id, id));
+    await this.db.delete(roomAdjacencies).where(eq(roomAdjacencies.id, id));
   }
 
   async getAdjacentRooms(roomId: number): Promise<Array<{ adjacency: RoomAdjacency; room: InspectionRoom }>> {
@@ -1000,7 +1137,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateRoomDimensions(roomId: number, dimensions: Record<string, any>): Promise<InspectionRoom | undefined> {
-    const [updated] = await db.update(inspectionRooms)
+    const [updated] = await this.db.update(inspectionRooms)
       .set({ dimensions })
       .where(eq(inspectionRooms.id, roomId))
       .returning();
@@ -1010,22 +1147,22 @@ export class DatabaseStorage implements IStorage {
   // ── Sketch Annotations (L5: Metadata) ──────────────
 
   async createSketchAnnotation(data: InsertSketchAnnotation): Promise<SketchAnnotation> {
-    const [annotation] = await db.insert(sketchAnnotations).values(data).returning();
+    const [annotation] = await this.db.insert(sketchAnnotations).values(data).returning();
     return annotation;
   }
 
   async getSketchAnnotation(id: number): Promise<SketchAnnotation | undefined> {
-    const [annotation] = await db.select().from(sketchAnnotations).where(eq(sketchAnnotations.id, id));
+    const [annotation] = await this.db.select().from(sketchAnnotations).where(eq(sketchAnnotations.id, id));
     return annotation;
   }
 
   async updateSketchAnnotation(id: number, updates: Partial<Pick<SketchAnnotation, "annotationType" | "label" | "value" | "location" | "position">>): Promise<SketchAnnotation | undefined> {
-    const [updated] = await db.update(sketchAnnotations).set(updates as any).where(eq(sketchAnnotations.id, id)).returning();
+    const [updated] = await this.db.update(sketchAnnotations).set(updates as any).where(eq(sketchAnnotations.id, id)).returning();
     return updated;
   }
 
   async getSketchAnnotations(roomId: number): Promise<SketchAnnotation[]> {
-    return db.select().from(sketchAnnotations).where(eq(sketchAnnotations.roomId, roomId));
+    return this.db.select().from(sketchAnnotations).where(eq(sketchAnnotations.roomId, roomId));
   }
 
   async getSketchAnnotationsForSession(sessionId: number): Promise<SketchAnnotation[]> {
@@ -1041,24 +1178,24 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteSketchAnnotation(id: number): Promise<void> {
-    await db.delete(sketchAnnotations).where(eq(sketchAnnotations.id, id));
+    await this.db.delete(sketchAnnotations).where(eq(sketchAnnotations.id, id));
   }
 
   // ── Sketch Templates ──────────────────────────────
 
   async getSketchTemplates(category?: string): Promise<SketchTemplate[]> {
     if (category) {
-      return db.select().from(sketchTemplates)
+      return this.db.select().from(sketchTemplates)
         .where(and(eq(sketchTemplates.category, category), eq(sketchTemplates.isActive, true)))
         .orderBy(sketchTemplates.sortOrder);
     }
-    return db.select().from(sketchTemplates)
+    return this.db.select().from(sketchTemplates)
       .where(eq(sketchTemplates.isActive, true))
       .orderBy(sketchTemplates.sortOrder);
   }
 
   async getSketchTemplate(id: number): Promise<SketchTemplate | undefined> {
-    const [template] = await db.select().from(sketchTemplates).where(eq(sketchTemplates.id, id));
+    const [template] = await this.db.select().from(sketchTemplates).where(eq(sketchTemplates.id, id));
     return template;
   }
 
@@ -1136,25 +1273,25 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createDamage(data: InsertDamageObservation): Promise<DamageObservation> {
-    const [damage] = await db.insert(damageObservations).values(data).returning();
+    const [damage] = await this.db.insert(damageObservations).values(data).returning();
     return damage;
   }
 
   async getDamage(id: number): Promise<DamageObservation | undefined> {
-    const [damage] = await db.select().from(damageObservations).where(eq(damageObservations.id, id)).limit(1);
+    const [damage] = await this.db.select().from(damageObservations).where(eq(damageObservations.id, id)).limit(1);
     return damage;
   }
 
   async getDamages(roomId: number): Promise<DamageObservation[]> {
-    return db.select().from(damageObservations).where(eq(damageObservations.roomId, roomId));
+    return this.db.select().from(damageObservations).where(eq(damageObservations.roomId, roomId));
   }
 
   async getDamagesForSession(sessionId: number): Promise<DamageObservation[]> {
-    return db.select().from(damageObservations).where(eq(damageObservations.sessionId, sessionId));
+    return this.db.select().from(damageObservations).where(eq(damageObservations.sessionId, sessionId));
   }
 
   async updateDamage(id: number, updates: Partial<Pick<DamageObservation, 'description' | 'damageType' | 'severity' | 'location' | 'measurements'>>): Promise<DamageObservation | undefined> {
-    const [updated] = await db
+    const [updated] = await this.db
       .update(damageObservations)
       .set(updates)
       .where(eq(damageObservations.id, id))
@@ -1163,26 +1300,26 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteDamage(id: number): Promise<void> {
-    await db.delete(damageObservations).where(eq(damageObservations.id, id));
+    await this.db.delete(damageObservations).where(eq(damageObservations.id, id));
     // FK cascade: lineItems.damageId → SET NULL, inspectionPhotos.damageId → SET NULL, scopeItems.damageId → SET NULL
   }
 
   async createLineItem(data: InsertLineItem): Promise<LineItem> {
-    const [item] = await db.insert(lineItems).values(data).returning();
+    const [item] = await this.db.insert(lineItems).values(data).returning();
     return item;
   }
 
   async getLineItemById(id: number): Promise<LineItem | undefined> {
-    const [item] = await db.select().from(lineItems).where(eq(lineItems.id, id)).limit(1);
+    const [item] = await this.db.select().from(lineItems).where(eq(lineItems.id, id)).limit(1);
     return item;
   }
 
   async getLineItems(sessionId: number): Promise<LineItem[]> {
-    return db.select().from(lineItems).where(eq(lineItems.sessionId, sessionId)).orderBy(lineItems.createdAt);
+    return this.db.select().from(lineItems).where(eq(lineItems.sessionId, sessionId)).orderBy(lineItems.createdAt);
   }
 
   async getLineItemsForRoom(roomId: number): Promise<LineItem[]> {
-    return db.select().from(lineItems).where(eq(lineItems.roomId, roomId));
+    return this.db.select().from(lineItems).where(eq(lineItems.roomId, roomId));
   }
 
   async getEstimateSummary(sessionId: number): Promise<{ totalRCV: number; totalDepreciation: number; totalACV: number; itemCount: number; subtotalMaterial: number; subtotalLabor: number; subtotalEquipment: number }> {
@@ -1201,62 +1338,62 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateLineItem(id: number, updates: Partial<LineItem>): Promise<LineItem | undefined> {
-    const [item] = await db.update(lineItems).set(updates).where(eq(lineItems.id, id)).returning();
+    const [item] = await this.db.update(lineItems).set(updates).where(eq(lineItems.id, id)).returning();
     return item;
   }
 
   async deleteLineItem(id: number): Promise<void> {
-    await db.delete(lineItems).where(eq(lineItems.id, id));
+    await this.db.delete(lineItems).where(eq(lineItems.id, id));
   }
 
   async createPhoto(data: InsertInspectionPhoto): Promise<InspectionPhoto> {
-    const [photo] = await db.insert(inspectionPhotos).values(data).returning();
+    const [photo] = await this.db.insert(inspectionPhotos).values(data).returning();
     return photo;
   }
 
   async getPhoto(id: number): Promise<InspectionPhoto | undefined> {
-    const [photo] = await db.select().from(inspectionPhotos).where(eq(inspectionPhotos.id, id)).limit(1);
+    const [photo] = await this.db.select().from(inspectionPhotos).where(eq(inspectionPhotos.id, id)).limit(1);
     return photo;
   }
 
   async getPhotos(sessionId: number): Promise<InspectionPhoto[]> {
-    return db.select().from(inspectionPhotos).where(eq(inspectionPhotos.sessionId, sessionId));
+    return this.db.select().from(inspectionPhotos).where(eq(inspectionPhotos.sessionId, sessionId));
   }
 
   async getPhotosForRoom(roomId: number): Promise<InspectionPhoto[]> {
-    return db.select().from(inspectionPhotos).where(eq(inspectionPhotos.roomId, roomId));
+    return this.db.select().from(inspectionPhotos).where(eq(inspectionPhotos.roomId, roomId));
   }
 
   async updatePhoto(id: number, updates: Partial<InspectionPhoto>): Promise<InspectionPhoto | undefined> {
-    const [photo] = await db.update(inspectionPhotos).set(updates).where(eq(inspectionPhotos.id, id)).returning();
+    const [photo] = await this.db.update(inspectionPhotos).set(updates).where(eq(inspectionPhotos.id, id)).returning();
     return photo;
   }
 
   async deletePhoto(id: number): Promise<InspectionPhoto | undefined> {
-    const [photo] = await db.delete(inspectionPhotos).where(eq(inspectionPhotos.id, id)).returning();
+    const [photo] = await this.db.delete(inspectionPhotos).where(eq(inspectionPhotos.id, id)).returning();
     return photo;
   }
 
   async createMoistureReading(data: InsertMoistureReading): Promise<MoistureReading> {
-    const [reading] = await db.insert(moistureReadings).values(data).returning();
+    const [reading] = await this.db.insert(moistureReadings).values(data).returning();
     return reading;
   }
 
   async getMoistureReading(id: number): Promise<MoistureReading | undefined> {
-    const [reading] = await db.select().from(moistureReadings).where(eq(moistureReadings.id, id)).limit(1);
+    const [reading] = await this.db.select().from(moistureReadings).where(eq(moistureReadings.id, id)).limit(1);
     return reading;
   }
 
   async getMoistureReadings(roomId: number): Promise<MoistureReading[]> {
-    return db.select().from(moistureReadings).where(eq(moistureReadings.roomId, roomId));
+    return this.db.select().from(moistureReadings).where(eq(moistureReadings.roomId, roomId));
   }
 
   async getMoistureReadingsForSession(sessionId: number): Promise<MoistureReading[]> {
-    return db.select().from(moistureReadings).where(eq(moistureReadings.sessionId, sessionId));
+    return this.db.select().from(moistureReadings).where(eq(moistureReadings.sessionId, sessionId));
   }
 
-  async updateMoistureReading(id: number, updates: Partial<Pick<MoistureReading, 'location' | 'reading' | 'materialType' | 'dryStandard'>>): Promise<MoistureReading | undefined> {
-    const [updated] = await db
+  async updateMoistureReading(id: number, updates: Partial<Pick<MoistureReading, 'location' | 'reading' | 'materialType' | 'dryStandard' | 'readingDate'>>): Promise<MoistureReading | undefined> {
+    const [updated] = await this.db
       .update(moistureReadings)
       .set(updates)
       .where(eq(moistureReadings.id, id))
@@ -1265,29 +1402,69 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteMoistureReading(id: number): Promise<void> {
-    await db.delete(moistureReadings).where(eq(moistureReadings.id, id));
+    await this.db.delete(moistureReadings).where(eq(moistureReadings.id, id));
+  }
+
+  async createAtmosphericReading(data: InsertAtmosphericReading): Promise<AtmosphericReading> {
+    const [reading] = await this.db.insert(atmosphericReadings).values(data).returning();
+    return reading;
+  }
+
+  async getAtmosphericReadingsForSession(sessionId: number): Promise<AtmosphericReading[]> {
+    return this.db.select().from(atmosphericReadings).where(eq(atmosphericReadings.sessionId, sessionId));
+  }
+
+  async deleteAtmosphericReading(id: number): Promise<void> {
+    await this.db.delete(atmosphericReadings).where(eq(atmosphericReadings.id, id));
+  }
+
+  async createDryingEquipment(data: InsertDryingEquipment): Promise<DryingEquipment> {
+    const [equipment] = await this.db.insert(dryingEquipment).values(data).returning();
+    return equipment;
+  }
+
+  async getDryingEquipment(id: number): Promise<DryingEquipment | undefined> {
+    const [equipment] = await this.db.select().from(dryingEquipment).where(eq(dryingEquipment.id, id)).limit(1);
+    return equipment;
+  }
+
+  async getDryingEquipmentForSession(sessionId: number): Promise<DryingEquipment[]> {
+    return this.db.select().from(dryingEquipment).where(eq(dryingEquipment.sessionId, sessionId));
+  }
+
+  async updateDryingEquipment(id: number, updates: Partial<Pick<DryingEquipment, 'quantity' | 'placedOn' | 'removedOn' | 'notes'>>): Promise<DryingEquipment | undefined> {
+    const [updated] = await this.db
+      .update(dryingEquipment)
+      .set(updates)
+      .where(eq(dryingEquipment.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteDryingEquipment(id: number): Promise<void> {
+    await this.db.delete(dryingEquipment).where(eq(dryingEquipment.id, id));
   }
 
   async createTestSquare(data: InsertTestSquare): Promise<TestSquare> {
-    const [sq] = await db.insert(testSquares).values(data).returning();
+    const [sq] = await this.db.insert(testSquares).values(data).returning();
     return sq;
   }
 
   async getTestSquare(id: number): Promise<TestSquare | undefined> {
-    const [square] = await db.select().from(testSquares).where(eq(testSquares.id, id)).limit(1);
+    const [square] = await this.db.select().from(testSquares).where(eq(testSquares.id, id)).limit(1);
     return square;
   }
 
   async getTestSquares(sessionId: number): Promise<TestSquare[]> {
-    return db.select().from(testSquares).where(eq(testSquares.sessionId, sessionId));
+    return this.db.select().from(testSquares).where(eq(testSquares.sessionId, sessionId));
   }
 
   async getTestSquaresForRoom(roomId: number): Promise<TestSquare[]> {
-    return db.select().from(testSquares).where(eq(testSquares.roomId, roomId));
+    return this.db.select().from(testSquares).where(eq(testSquares.roomId, roomId));
   }
 
   async updateTestSquare(id: number, updates: Partial<Pick<TestSquare, 'hailHits' | 'windCreases' | 'pitch' | 'result' | 'notes' | 'roomId'>>): Promise<TestSquare | undefined> {
-    const [updated] = await db
+    const [updated] = await this.db
       .update(testSquares)
       .set(updates)
       .where(eq(testSquares.id, id))
@@ -1296,35 +1473,45 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteTestSquare(id: number): Promise<void> {
-    await db.delete(testSquares).where(eq(testSquares.id, id));
+    await this.db.delete(testSquares).where(eq(testSquares.id, id));
   }
 
   async addTranscript(data: InsertVoiceTranscript): Promise<VoiceTranscript> {
-    const [entry] = await db.insert(voiceTranscripts).values(data).returning();
+    const [entry] = await this.db.insert(voiceTranscripts).values(data).returning();
     return entry;
   }
 
   async getTranscript(sessionId: number): Promise<VoiceTranscript[]> {
-    return db.select().from(voiceTranscripts).where(eq(voiceTranscripts.sessionId, sessionId)).orderBy(voiceTranscripts.timestamp);
+    return this.db.select().from(voiceTranscripts).where(eq(voiceTranscripts.sessionId, sessionId)).orderBy(voiceTranscripts.timestamp);
   }
 
   async getScopeLineItems(): Promise<ScopeLineItem[]> {
-    return db.select().from(scopeLineItems).where(eq(scopeLineItems.isActive, true)).orderBy(scopeLineItems.sortOrder);
+    return this.db.select().from(scopeLineItems).where(eq(scopeLineItems.isActive, true)).orderBy(scopeLineItems.sortOrder);
   }
 
   async getScopeLineItemByCode(code: string): Promise<ScopeLineItem | undefined> {
-    const [item] = await db.select().from(scopeLineItems).where(eq(scopeLineItems.code, code)).limit(1);
+    const [item] = await this.db.select().from(scopeLineItems).where(eq(scopeLineItems.code, code)).limit(1);
     return item;
   }
 
   async getScopeLineItemsByTrade(tradeCode: string): Promise<ScopeLineItem[]> {
-    return db.select().from(scopeLineItems)
+    return this.db.select().from(scopeLineItems)
       .where(and(eq(scopeLineItems.tradeCode, tradeCode), eq(scopeLineItems.isActive, true)))
       .orderBy(scopeLineItems.sortOrder);
   }
 
+  async getScopeLineItemsByCodes(codes: string[]): Promise<ScopeLineItem[]> {
+    if (codes.length === 0) return [];
+    return this.db.select().from(scopeLineItems).where(inArray(scopeLineItems.code, codes));
+  }
+
+  async getXactMinimums(ids: string[]): Promise<XactMinimum[]> {
+    if (ids.length === 0) return [];
+    return this.db.select().from(xactMinimum).where(inArray(xactMinimum.id, ids));
+  }
+
   async getRegionalPrice(lineItemCode: string, regionId: string, activityType?: string): Promise<RegionalPriceSet | undefined> {
-    const rows = await db.select().from(regionalPriceSets)
+    const rows = await this.db.select().from(regionalPriceSets)
       .where(and(eq(regionalPriceSets.lineItemCode, lineItemCode), eq(regionalPriceSets.regionId, regionId)));
 
     if (rows.length === 0) return undefined;
@@ -1342,74 +1529,105 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getRegionalPricesForCode(lineItemCode: string, regionId: string): Promise<RegionalPriceSet[]> {
-    return db.select().from(regionalPriceSets)
+    return this.db.select().from(regionalPriceSets)
       .where(and(eq(regionalPriceSets.lineItemCode, lineItemCode), eq(regionalPriceSets.regionId, regionId)));
   }
 
   async getRegionalPricesForRegion(regionId: string): Promise<RegionalPriceSet[]> {
-    return db.select().from(regionalPriceSets).where(eq(regionalPriceSets.regionId, regionId));
+    return this.db.select().from(regionalPriceSets).where(eq(regionalPriceSets.regionId, regionId));
   }
 
   // ── Scope Trades ─────────────────────────────────
 
   async getScopeTrades(): Promise<ScopeTrade[]> {
-    return db.select().from(scopeTrades).where(eq(scopeTrades.isActive, true)).orderBy(scopeTrades.sortOrder);
+    return this.db.select().from(scopeTrades).where(eq(scopeTrades.isActive, true)).orderBy(scopeTrades.sortOrder);
   }
 
   async getScopeTradeByCode(code: string): Promise<ScopeTrade | undefined> {
-    const [trade] = await db.select().from(scopeTrades).where(eq(scopeTrades.code, code)).limit(1);
+    const [trade] = await this.db.select().from(scopeTrades).where(eq(scopeTrades.code, code)).limit(1);
     return trade;
   }
 
   // ── Scope Items ──────────────────────────────────
 
   async createScopeItem(data: InsertScopeItem): Promise<ScopeItem> {
-    const [item] = await db.insert(scopeItems).values(data).returning();
+    const [item] = await this.db.insert(scopeItems).values(data).returning();
     return item;
   }
 
   async getScopeItem(id: number): Promise<ScopeItem | undefined> {
-    const [item] = await db.select().from(scopeItems).where(eq(scopeItems.id, id)).limit(1);
+    const [item] = await this.db.select().from(scopeItems).where(eq(scopeItems.id, id)).limit(1);
     return item;
   }
 
   async createScopeItems(data: InsertScopeItem[]): Promise<ScopeItem[]> {
     if (data.length === 0) return [];
-    return db.insert(scopeItems).values(data).returning();
+    return this.db.insert(scopeItems).values(data).returning();
   }
 
   async getScopeItems(sessionId: number): Promise<ScopeItem[]> {
-    return db.select().from(scopeItems)
+    return this.db.select().from(scopeItems)
       .where(and(eq(scopeItems.sessionId, sessionId), eq(scopeItems.status, "active")))
       .orderBy(scopeItems.tradeCode, scopeItems.createdAt);
   }
 
   async getScopeItemsForRoom(roomId: number): Promise<ScopeItem[]> {
-    return db.select().from(scopeItems)
+    return this.db.select().from(scopeItems)
       .where(and(eq(scopeItems.roomId, roomId), eq(scopeItems.status, "active")));
   }
 
   async getScopeItemsForDamage(damageId: number): Promise<ScopeItem[]> {
-    return db.select().from(scopeItems)
+    return this.db.select().from(scopeItems)
       .where(and(eq(scopeItems.damageId, damageId), eq(scopeItems.status, "active")));
   }
 
   async updateScopeItem(id: number, updates: Partial<ScopeItem>): Promise<ScopeItem | undefined> {
-    const [item] = await db.update(scopeItems).set(updates).where(eq(scopeItems.id, id)).returning();
+    const [item] = await this.db.update(scopeItems).set(updates).where(eq(scopeItems.id, id)).returning();
     return item;
   }
 
   async deleteScopeItem(id: number): Promise<void> {
-    await db.update(scopeItems).set({ status: "removed" }).where(eq(scopeItems.id, id));
+    await this.db.update(scopeItems).set({ status: "removed" }).where(eq(scopeItems.id, id));
   }
 
   async getActiveScopeItemCount(sessionId: number): Promise<number> {
-    const result = await db.select({ count: sql<number>`count(*)` })
+    const result = await this.db.select({ count: sql<number>`count(*)` })
       .from(scopeItems)
       .where(and(eq(scopeItems.sessionId, sessionId), eq(scopeItems.status, "active")));
     return result[0]?.count || 0;
   }
 
+  // ── Matching Assessments ─────────────────────────
+
+  async getMatchingAssessments(sessionId: number): Promise<MatchingAssessment[]> {
+    return this.db.select().from(matchingAssessments).where(eq(matchingAssessments.sessionId, sessionId));
+  }
+
+  async getMatchingAssessmentForRoom(roomId: number): Promise<MatchingAssessment | undefined> {
+    const [row] = await this.db.select().from(matchingAssessments).where(eq(matchingAssessments.roomId, roomId)).limit(1);
+    return row;
+  }
+
+  async upsertMatchingAssessment(data: InsertMatchingAssessment): Promise<MatchingAssessment> {
+    const now = new Date();
+    const [row] = await this.db.insert(matchingAssessments)
+      .values({ ...data, updatedAt: now })
+      .onConflictDoUpdate({
+        target: matchingAssessments.roomId,
+        set: { ...data, updatedAt: now },
+      })
+      .returning();
+    return row;
+  }
+
+  async updateMatchingAssessment(id: number, updates: Partial<InsertMatchingAssessment>): Promise<MatchingAssessment | undefined> {
+    const [row] = await this.db.update(matchingAssessments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(matchingAssessments.id, id))
+      .returning();
+    return row;
+  }
+
   // ── Scope Summary ────────────────────────────────
 
   async upsertScopeSummary(
@@ -1418,7 +1636,7 @@ export class DatabaseStorage implements IStorage {
     data: Partial<InsertScopeSummary>
   ): Promise<ScopeSummary> {
     const now = new Date();
-    const [row] = await db.insert(scopeSummary)
+    const [row] = await this.db.insert(scopeSummary)
       .values({ sessionId, tradeCode, ...data, updatedAt: now })
       .onConflictDoUpdate({
         target: [scopeSummary.sessionId, scopeSummary.tradeCode],
@@ -1429,7 +1647,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getScopeSummary(sessionId: number): Promise<ScopeSummary[]> {
-    return db.select().from(scopeSummary)
+    return this.db.select().from(scopeSummary)
       .where(eq(scopeSummary.sessionId, sessionId))
       .orderBy(scopeSummary.tradeCode);
   }
@@ -1467,46 +1685,46 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createSupplementalClaim(data: InsertSupplementalClaim): Promise<SupplementalClaim> {
-    const [claim] = await db.insert(supplementalClaims).values(data).returning();
+    const [claim] = await this.db.insert(supplementalClaims).values(data).returning();
     return claim;
   }
 
   async getSupplementalsForSession(sessionId: number): Promise<SupplementalClaim[]> {
-    return db.select().from(supplementalClaims).where(eq(supplementalClaims.originalSessionId, sessionId)).orderBy(desc(supplementalClaims.createdAt));
+    return this.db.select().from(supplementalClaims).where(eq(supplementalClaims.originalSessionId, sessionId)).orderBy(desc(supplementalClaims.createdAt));
   }
 
   async getSupplemental(id: number): Promise<SupplementalClaim | undefined> {
-    const [claim] = await db.select().from(supplementalClaims).where(eq(supplementalClaims.id, id));
+    const [claim] = await this.db.select().from(supplementalClaims).where(eq(supplementalClaims.id, id));
     return claim;
   }
 
   async updateSupplemental(id: number, updates: Partial<SupplementalClaim>): Promise<SupplementalClaim | undefined> {
-    const [claim] = await db.update(supplementalClaims).set(updates).where(eq(supplementalClaims.id, id)).returning();
+    const [claim] = await this.db.update(supplementalClaims).set(updates).where(eq(supplementalClaims.id, id)).returning();
     return claim;
   }
 
   async submitSupplemental(id: number): Promise<SupplementalClaim | undefined> {
-    const [claim] = await db.update(supplementalClaims).set({ status: "submitted", submittedAt: new Date() }).where(eq(supplementalClaims.id, id)).returning();
+    const [claim] = await this.db.update(supplementalClaims).set({ status: "submitted", submittedAt: new Date() }).where(eq(supplementalClaims.id, id)).returning();
     return claim;
   }
 
   async approveSupplemental(id: number): Promise<SupplementalClaim | undefined> {
-    const [claim] = await db.update(supplementalClaims).set({ status: "approved", approvedAt: new Date() }).where(eq(supplementalClaims.id, id)).returning();
+    const [claim] = await this.db.update(supplementalClaims).set({ status: "approved", approvedAt: new Date() }).where(eq(supplementalClaims.id, id)).returning();
     return claim;
   }
 
   async updateUserProfile(userId: string, updates: { fullName?: string; title?: string; avatarUrl?: string }): Promise<User | undefined> {
-    const [user] = await db.update(users).set(updates).where(eq(users.id, userId)).returning();
+    const [user] = await this.db.update(users).set(updates).where(eq(users.id, userId)).returning();
     return user;
   }
 
   async getUserSettings(userId: string): Promise<Record<string, any> | null> {
-    const [row] = await db.select().from(userSettings).where(eq(userSettings.userId, userId));
+    const [row] = await this.db.select().from(userSettings).where(eq(userSettings.userId, userId));
     return row ? (row.settings as Record<string, any>) : null;
   }
 
   async upsertUserSettings(userId: string, settings: Record<string, any>): Promise<UserSettings> {
-    const [existing] = await db
+    const [existing] = await this.db
       .select()
       .from(userSettings)
       .where(eq(userSettings.userId, userId))
@@ -1517,7 +1735,7 @@ export class DatabaseStorage implements IStorage {
       ...settings,
     };
 
-    const [row] = await db
+    const [row] = await this.db
       .insert(userSettings)
       .values({ userId, settings: mergedSettings, updatedAt: new Date() })
       .onConflictDoUpdate({
@@ -1531,33 +1749,33 @@ export class DatabaseStorage implements IStorage {
   // ── Inspection Flows ──────────────────────────────
 
   async createInspectionFlow(data: InsertInspectionFlow): Promise<InspectionFlow> {
-    const [flow] = await db.insert(inspectionFlows).values(data).returning();
+    const [flow] = await this.db.insert(inspectionFlows).values(data).returning();
     return flow;
   }
 
   async getInspectionFlows(userId?: string): Promise<InspectionFlow[]> {
     // Return system defaults + user's custom flows
     if (userId) {
-      return db.select().from(inspectionFlows)
+      return this.db.select().from(inspectionFlows)
         .where(
           sql`${inspectionFlows.isSystemDefault} = true OR ${inspectionFlows.userId} = ${userId}`
         )
         .orderBy(inspectionFlows.perilType, inspectionFlows.name);
     }
-    return db.select().from(inspectionFlows)
+    return this.db.select().from(inspectionFlows)
       .where(eq(inspectionFlows.isSystemDefault, true))
       .orderBy(inspectionFlows.perilType, inspectionFlows.name);
   }
 
   async getInspectionFlow(id: number): Promise<InspectionFlow | undefined> {
-    const [flow] = await db.select().from(inspectionFlows).where(eq(inspectionFlows.id, id));
+    const [flow] = await this.db.select().from(inspectionFlows).where(eq(inspectionFlows.id, id));
     return flow;
   }
 
   async getDefaultFlowForPeril(perilType: string, userId?: string): Promise<InspectionFlow | undefined> {
     // First try user's default for this peril
     if (userId) {
-      const [userFlow] = await db.select().from(inspectionFlows)
+      const [userFlow] = await this.db.select().from(inspectionFlows)
         .where(
           and(
             eq(inspectionFlows.userId, userId),
@@ -1569,7 +1787,7 @@ export class DatabaseStorage implements IStorage {
       if (userFlow) return userFlow;
     }
     // Fall back to system default for this peril
-    const [systemFlow] = await db.select().from(inspectionFlows)
+    const [systemFlow] = await this.db.select().from(inspectionFlows)
       .where(
         and(
           eq(inspectionFlows.isSystemDefault, true),
@@ -1580,7 +1798,7 @@ export class DatabaseStorage implements IStorage {
       .limit(1);
     if (systemFlow) return systemFlow;
     // Fall back to "General" system default
-    const [generalFlow] = await db.select().from(inspectionFlows)
+    const [generalFlow] = await this.db.select().from(inspectionFlows)
       .where(
         and(
           eq(inspectionFlows.isSystemDefault, true),
@@ -1593,7 +1811,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateInspectionFlow(id: number, updates: Partial<InsertInspectionFlow>): Promise<InspectionFlow | undefined> {
-    const [flow] = await db.update(inspectionFlows)
+    const [flow] = await this.db.update(inspectionFlows)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(inspectionFlows.id, id))
       .returning();
@@ -1601,14 +1819,50 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteInspectionFlow(id: number): Promise<boolean> {
-    const [deleted] = await db.delete(inspectionFlows).where(eq(inspectionFlows.id, id)).returning();
+    const [deleted] = await this.db.delete(inspectionFlows).where(eq(inspectionFlows.id, id)).returning();
     return !!deleted;
   }
 
+  async getInspectionFlowVersions(flowId: number): Promise<InspectionFlowVersion[]> {
+    return this.db.select().from(inspectionFlowVersions)
+      .where(eq(inspectionFlowVersions.flowId, flowId))
+      .orderBy(asc(inspectionFlowVersions.version));
+  }
+
+  async getInspectionFlowVersion(id: number): Promise<InspectionFlowVersion | undefined> {
+    const [version] = await this.db.select().from(inspectionFlowVersions).where(eq(inspectionFlowVersions.id, id));
+    return version;
+  }
+
+  async getLatestInspectionFlowVersion(flowId: number): Promise<InspectionFlowVersion | undefined> {
+    const [version] = await this.db.select().from(inspectionFlowVersions)
+      .where(eq(inspectionFlowVersions.flowId, flowId))
+      .orderBy(desc(inspectionFlowVersions.version))
+      .limit(1);
+    return version;
+  }
+
+  async createInspectionFlowVersion(data: Omit<InsertInspectionFlowVersion, "version">): Promise<InspectionFlowVersion> {
+    return this.db.transaction(async (tx) => {
+      // Lock the flow so concurrent publishes number their versions one after the other
+      await tx.select({ id: inspectionFlows.id }).from(inspectionFlows)
+        .where(eq(inspectionFlows.id, data.flowId))
+        .for("update");
+      const [{ latest }] = await tx
+        .select({ latest: sql<number>`coalesce(max(${inspectionFlowVersions.version}), 0)` })
+        .from(inspectionFlowVersions)
+        .where(eq(inspectionFlowVersions.flowId, data.flowId));
+      const [version] = await tx.insert(inspectionFlowVersions)
+        .values({ ...data, version: Number(latest) + 1 })
+        .returning();
+      return version;
+    });
+  }
+
   // ── Policy Rules ──────────────────────────
 
   async createPolicyRule(data: InsertPolicyRule): Promise<PolicyRule> {
-    const [rule] = await db.insert(policyRules)
+    const [rule] = await this.db.insert(policyRules)
       .values(data)
       .onConflictDoUpdate({
         target: [policyRules.claimId, policyRules.coverageType],
@@ -1619,48 +1873,423 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getPolicyRulesForClaim(claimId: number): Promise<PolicyRule[]> {
-    return db.select().from(policyRules).where(eq(policyRules.claimId, claimId));
+    return this.db.select().from(policyRules).where(eq(policyRules.claimId, claimId));
   }
 
   async getPolicyRule(claimId: number, coverageType: string): Promise<PolicyRule | undefined> {
-    const [rule] = await db.select().from(policyRules)
+    const [rule] = await this.db.select().from(policyRules)
       .where(and(eq(policyRules.claimId, claimId), eq(policyRules.coverageType, coverageType)));
     return rule;
   }
 
   async updatePolicyRule(id: number, updates: Partial<PolicyRule>): Promise<PolicyRule | undefined> {
-    const [rule] = await db.update(policyRules).set(updates).where(eq(policyRules.id, id)).returning();
+    const [rule] = await this.db.update(policyRules).set(updates).where(eq(policyRules.id, id)).returning();
     return rule;
   }
 
+  // ── Endorsement Proposals ─────────────────
+
+  async createEndorsementProposal(data: InsertEndorsementProposal): Promise<EndorsementProposal> {
+    const [proposal] = await this.db.insert(endorsementProposals).values(data).returning();
+    return proposal;
+  }
+
+  async getEndorsementProposals(claimId: number): Promise<EndorsementProposal[]> {
+    return this.db.select().from(endorsementProposals)
+      .where(eq(endorsementProposals.claimId, claimId))
+      .orderBy(asc(endorsementProposals.id));
+  }
+
+  async updateEndorsementProposal(id: number, updates: Partial<InsertEndorsementProposal>): Promise<EndorsementProposal | undefined> {
+    const [proposal] = await this.db.update(endorsementProposals).set(updates).where(eq(endorsementProposals.id, id)).returning();
+    return proposal;
+  }
+
+  async deleteEndorsementProposal(id: number): Promise<void> {
+    await this.db.delete(endorsementProposals).where(eq(endorsementProposals.id, id));
+  }
+
   // ── Tax Rules ──────────────────────────
 
   async createTaxRule(data: InsertTaxRule): Promise<TaxRule> {
-    const [rule] = await db.insert(taxRules).values(data).returning();
+    const [rule] = await this.db.insert(taxRules).values(data).returning();
     return rule;
   }
 
   async getTaxRulesForClaim(claimId: number): Promise<TaxRule[]> {
-    return db.select().from(taxRules).where(eq(taxRules.claimId, claimId));
+    return this.db.select().from(taxRules).where(eq(taxRules.claimId, claimId));
   }
 
   async deleteTaxRule(id: number): Promise<void> {
-    await db.delete(taxRules).where(eq(taxRules.id, id));
+    await this.db.delete(taxRules).where(eq(taxRules.id, id));
+  }
+
+  async deleteTaxRulesBySource(claimId: number, sources: string[]): Promise<void> {
+    if (sources.length === 0) return;
+    await this.db.delete(taxRules).where(and(eq(taxRules.claimId, claimId), inArray(taxRules.source, sources)));
+  }
+
+  // ── Tax Jurisdictions ─────────────────────────
+
+  async getTaxJurisdictions(): Promise<XactJurisdiction[]> {
+    return this.db.select().from(xactJurisdiction).orderBy(xactJurisdiction.name);
+  }
+
+  async getTaxJurisdiction(id: string): Promise<XactJurisdiction | undefined> {
+    const [jurisdiction] = await this.db.select().from(xactJurisdiction).where(eq(xactJurisdiction.id, id));
+    return jurisdiction;
+  }
+
+  async getJurisdictionSalesTaxes(jurisdictionId: string): Promise<XactSalesTax[]> {
+    return this.db.select().from(xactSalesTax).where(eq(xactSalesTax.jurisdictionId, jurisdictionId));
+  }
+
+  async getJurisdictionBurdenTaxes(jurisdictionId: string): Promise<XactBurdenTax[]> {
+    return this.db.select().from(xactBurdenTax).where(eq(xactBurdenTax.jurisdictionId, jurisdictionId));
+  }
+
+  async getTaxJurisdictionAreas(state?: string): Promise<TaxJurisdictionArea[]> {
+    if (state) {
+      return this.db.select().from(taxJurisdictionAreas).where(eq(taxJurisdictionAreas.state, state.toUpperCase()));
+    }
+    return this.db.select().from(taxJurisdictionAreas).orderBy(taxJurisdictionAreas.state, taxJurisdictionAreas.zipPrefix);
+  }
+
+  async createTaxJurisdictionArea(data: InsertTaxJurisdictionArea): Promise<TaxJurisdictionArea> {
+    const [area] = await this.db.insert(taxJurisdictionAreas).values(data).returning();
+    return area;
+  }
+
+  async deleteTaxJurisdictionArea(id: number): Promise<void> {
+    await this.db.delete(taxJurisdictionAreas).where(eq(taxJurisdictionAreas.id, id));
+  }
+
+  // ── Contents Inventory ───────────────────────
+
+  async createContentsItem(data: InsertContentsItem): Promise<ContentsItem> {
+    const [item] = await this.db.insert(contentsItems).values(data).returning();
+    return item;
+  }
+
+  async createContentsItems(data: InsertContentsItem[]): Promise<ContentsItem[]> {
+    if (data.length === 0) return [];
+    return this.db.insert(contentsItems).values(data).returning();
+  }
+
+  async getContentsItemsForClaim(claimId: number): Promise<ContentsItem[]> {
+    return this.db.select().from(contentsItems)
+      .where(eq(contentsItems.claimId, claimId))
+      .orderBy(asc(contentsItems.id));
+  }
+
+  async getContentsItem(id: number): Promise<ContentsItem | undefined> {
+    const [item] = await this.db.select().from(contentsItems).where(eq(contentsItems.id, id));
+    return item;
+  }
+
+  async updateContentsItem(id: number, updates: Partial<InsertContentsItem>): Promise<ContentsItem | undefined> {
+    const [item] = await this.db.update(contentsItems)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(contentsItems.id, id))
+      .returning();
+    return item;
+  }
+
+  async deleteContentsItem(id: number): Promise<void> {
+    await this.db.delete(contentsItems).where(eq(contentsItems.id, id));
+  }
+
+  // ── Depreciation Holdback ──────────────────────
+
+  async getHoldbacksForClaim(claimId: number): Promise<DepreciationHoldback[]> {
+    return this.db.select().from(depreciationHoldbacks)
+      .where(eq(depreciationHoldbacks.claimId, claimId))
+      .orderBy(asc(depreciationHoldbacks.coverageType));
+  }
+
+  async getHoldback(id: number): Promise<DepreciationHoldback | undefined> {
+    const [holdback] = await this.db.select().from(depreciationHoldbacks).where(eq(depreciationHoldbacks.id, id));
+    return holdback;
+  }
+
+  async upsertHoldback(data: InsertDepreciationHoldback): Promise<DepreciationHoldback> {
+    const now = new Date();
+    const { claimId: _claimId, coverageType: _coverageType, ...updates } = data;
+    const [holdback] = await this.db.insert(depreciationHoldbacks)
+      .values({ ...data, updatedAt: now })
+      .onConflictDoUpdate({
+        target: [depreciationHoldbacks.claimId, depreciationHoldbacks.coverageType],
+        set: { ...updates, updatedAt: now },
+      })
+      .returning();
+    return holdback;
+  }
+
+  async updateHoldback(id: number, updates: Partial<InsertDepreciationHoldback>): Promise<DepreciationHoldback | undefined> {
+    const [holdback] = await this.db.update(depreciationHoldbacks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(depreciationHoldbacks.id, id))
+      .returning();
+    return holdback;
+  }
+
+  async createHoldbackProof(data: InsertHoldbackProof): Promise<HoldbackProof> {
+    const [proof] = await this.db.insert(holdbackProofs).values(data).returning();
+    return proof;
+  }
+
+  async getHoldbackProofsForClaim(claimId: number): Promise<HoldbackProof[]> {
+    return this.db.select().from(holdbackProofs)
+      .where(eq(holdbackProofs.claimId, claimId))
+      .orderBy(asc(holdbackProofs.createdAt));
+  }
+
+  async createHoldbackRelease(data: InsertHoldbackRelease): Promise<HoldbackRelease> {
+    const [release] = await this.db.insert(holdbackReleases).values(data).returning();
+    return release;
+  }
+
+  async getHoldbackReleasesForClaim(claimId: number): Promise<HoldbackRelease[]> {
+    return this.db.select().from(holdbackReleases)
+      .where(eq(holdbackReleases.claimId, claimId))
+      .orderBy(asc(holdbackReleases.createdAt));
+  }
+
+  // ── Claim Payments (append-only) ───────────────
+
+  async createPaymentEntries(entries: InsertClaimPayment[]): Promise<ClaimPayment[]> {
+    if (entries.length === 0) return [];
+    // A void and its reissue must land together
+    return this.db.transaction(async (tx) => {
+      const created: ClaimPayment[] = [];
+      for (const entry of entries) {
+        const [row] = await tx.insert(claimPayments).values(entry).returning();
+        created.push(row);
+      }
+      return created;
+    });
+  }
+
+  async getPaymentsForClaim(claimId: number): Promise<ClaimPayment[]> {
+    return this.db.select().from(claimPayments)
+      .where(eq(claimPayments.claimId, claimId))
+      .orderBy(asc(claimPayments.id));
+  }
+
+  async getPayment(id: number): Promise<ClaimPayment | undefined> {
+    const [payment] = await this.db.select().from(claimPayments).where(eq(claimPayments.id, id));
+    return payment;
+  }
+
+  // ── Estimate Versions ──────────────────────────
+
+  async createEstimateVersion(data: Omit<InsertEstimateVersion, "versionNumber">): Promise<EstimateVersion> {
+    return this.db.transaction(async (tx) => {
+      const [{ latest }] = await tx
+        .select({ latest: sql<number>`coalesce(max(${estimateVersions.versionNumber}), 0)` })
+        .from(estimateVersions)
+        .where(eq(estimateVersions.sessionId, data.sessionId));
+      const [version] = await tx.insert(estimateVersions)
+        .values({ ...data, versionNumber: Number(latest) + 1 })
+        .returning();
+      return version;
+    });
+  }
+
+  async getEstimateVersions(sessionId: number): Promise<EstimateVersion[]> {
+    return this.db.select().from(estimateVersions)
+      .where(eq(estimateVersions.sessionId, sessionId))
+      .orderBy(asc(estimateVersions.versionNumber));
+  }
+
+  async getEstimateVersion(id: number): Promise<EstimateVersion | undefined> {
+    const [version] = await this.db.select().from(estimateVersions).where(eq(estimateVersions.id, id));
+    return version;
+  }
+
+  // ── Estimate Reconciliations ───────────────────
+
+  async createEstimateReconciliation(data: InsertEstimateReconciliation): Promise<EstimateReconciliation> {
+    const [reconciliation] = await this.db.insert(estimateReconciliations).values(data).returning();
+    return reconciliation;
+  }
+
+  async getEstimateReconciliations(sessionId: number): Promise<EstimateReconciliation[]> {
+    return this.db.select().from(estimateReconciliations)
+      .where(eq(estimateReconciliations.sessionId, sessionId))
+      .orderBy(desc(estimateReconciliations.createdAt));
+  }
+
+  async getEstimateReconciliation(id: number): Promise<EstimateReconciliation | undefined> {
+    const [reconciliation] = await this.db.select().from(estimateReconciliations).where(eq(estimateReconciliations.id, id));
+    return reconciliation;
+  }
+
+  async updateEstimateReconciliation(id: number, updates: Partial<InsertEstimateReconciliation>): Promise<EstimateReconciliation | undefined> {
+    const [reconciliation] = await this.db.update(estimateReconciliations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(estimateReconciliations.id, id))
+      .returning();
+    return reconciliation;
+  }
+
+  // ── Carriers ───────────────────────────────────
+
+  async getCarriers(): Promise<Carrier[]> {
+    return this.db.select().from(carriers).orderBy(asc(carriers.name));
+  }
+
+  async getCarrier(id: number): Promise<Carrier | undefined> {
+    const [carrier] = await this.db.select().from(carriers).where(eq(carriers.id, id));
+    return carrier;
+  }
+
+  async getCarrierByCode(code: string): Promise<Carrier | undefined> {
+    const [carrier] = await this.db.select().from(carriers).where(eq(carriers.code, code.trim().toUpperCase()));
+    return carrier;
+  }
+
+  async createCarrier(data: InsertCarrier): Promise<Carrier> {
+    const [carrier] = await this.db.insert(carriers).values(data).returning();
+    return carrier;
+  }
+
+  async updateCarrier(id: number, updates: Partial<InsertCarrier>): Promise<Carrier | undefined> {
+    const [carrier] = await this.db.update(carriers)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(carriers.id, id))
+      .returning();
+    return carrier;
+  }
+
+  // ── Gate Rule Packs ────────────────────────────
+
+  async getGateRulePacks(): Promise<GateRulePack[]> {
+    return this.db.select().from(gateRulePacks).orderBy(asc(gateRulePacks.name));
+  }
+
+  async getGateRulePack(id: number): Promise<GateRulePack | undefined> {
+    const [pack] = await this.db.select().from(gateRulePacks).where(eq(gateRulePacks.id, id));
+    return pack;
+  }
+
+  async getApplicableGateRulePacks(scope: { carrierId: number | null; flowId: number | null }): Promise<GateRulePack[]> {
+    return this.db.select().from(gateRulePacks)
+      .where(and(
+        eq(gateRulePacks.isActive, true),
+        scope.carrierId != null
+          ? or(isNull(gateRulePacks.carrierId), eq(gateRulePacks.carrierId, scope.carrierId))
+          : isNull(gateRulePacks.carrierId),
+        scope.flowId != null
+          ? or(isNull(gateRulePacks.flowId), eq(gateRulePacks.flowId, scope.flowId))
+          : isNull(gateRulePacks.flowId),
+      ))
+      .orderBy(asc(gateRulePacks.id));
+  }
+
+  async createGateRulePack(data: InsertGateRulePack): Promise<GateRulePack> {
+    const [pack] = await this.db.insert(gateRulePacks).values(data).returning();
+    return pack;
+  }
+
+  async updateGateRulePack(id: number, updates: Partial<InsertGateRulePack>): Promise<GateRulePack | undefined> {
+    const [pack] = await this.db.update(gateRulePacks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(gateRulePacks.id, id))
+      .returning();
+    return pack;
+  }
+
+  async deleteGateRulePack(id: number): Promise<boolean> {
+    const [deleted] = await this.db.delete(gateRulePacks).where(eq(gateRulePacks.id, id)).returning();
+    return !!deleted;
+  }
+
+  // ── Depreciation Schedules ─────────────────────
+
+  async getDepreciationSchedules(): Promise<DepreciationSchedule[]> {
+    return this.db.select().from(depreciationSchedules).orderBy(asc(depreciationSchedules.name));
+  }
+
+  async getDepreciationSchedule(id: number): Promise<DepreciationSchedule | undefined> {
+    const [schedule] = await this.db.select().from(depreciationSchedules).where(eq(depreciationSchedules.id, id));
+    return schedule;
+  }
+
+  async createDepreciationSchedule(data: InsertDepreciationSchedule): Promise<DepreciationSchedule> {
+    const [schedule] = await this.db.insert(depreciationSchedules).values(data).returning();
+    return schedule;
+  }
+
+  async updateDepreciationSchedule(id: number, updates: Partial<InsertDepreciationSchedule>): Promise<DepreciationSchedule | undefined> {
+    const [schedule] = await this.db.update(depreciationSchedules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(depreciationSchedules.id, id))
+      .returning();
+    return schedule;
+  }
+
+  async getDepreciationScheduleVersions(scheduleId: number): Promise<DepreciationScheduleVersion[]> {
+    return this.db.select().from(depreciationScheduleVersions)
+      .where(eq(depreciationScheduleVersions.scheduleId, scheduleId))
+      .orderBy(asc(depreciationScheduleVersions.version));
+  }
+
+  async getDepreciationScheduleVersion(id: number): Promise<DepreciationScheduleVersion | undefined> {
+    const [version] = await this.db.select().from(depreciationScheduleVersions).where(eq(depreciationScheduleVersions.id, id));
+    return version;
+  }
+
+  async createDepreciationScheduleVersion(data: Omit<InsertDepreciationScheduleVersion, "version">): Promise<DepreciationScheduleVersion> {
+    return this.db.transaction(async (tx) => {
+      const [{ latest }] = await tx
+        .select({ latest: sql<number>`coalesce(max(${depreciationScheduleVersions.version}), 0)` })
+        .from(depreciationScheduleVersions)
+        .where(eq(depreciationScheduleVersions.scheduleId, data.scheduleId));
+      const [version] = await tx.insert(depreciationScheduleVersions)
+        .values({ ...data, version: Number(latest) + 1 })
+        .returning();
+      return version;
+    });
+  }
+
+  // ── Price List Imports ─────────────────────────
+
+  async createPriceListImport(data: InsertXactPriceListImport): Promise<XactPriceListImport> {
+    const [run] = await this.db.insert(xactPriceListImports).values(data).returning();
+    return run;
+  }
+
+  async getPriceListImports(): Promise<XactPriceListImport[]> {
+    return this.db.select().from(xactPriceListImports).orderBy(desc(xactPriceListImports.createdAt));
+  }
+
+  async getPriceListImport(id: number): Promise<XactPriceListImport | undefined> {
+    const [run] = await this.db.select().from(xactPriceListImports).where(eq(xactPriceListImports.id, id));
+    return run;
+  }
+
+  async updatePriceListImport(id: number, updates: Partial<InsertXactPriceListImport>): Promise<XactPriceListImport | undefined> {
+    const [run] = await this.db.update(xactPriceListImports)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(xactPriceListImports.id, id))
+      .returning();
+    return run;
   }
 
   // ── Settlement Summary ──────────────────────────
 
 
   async addSessionEvent(data: InsertInspectionSessionEvent): Promise<InspectionSessionEvent> {
-    const [event] = await db.insert(inspectionSessionEvents).values(data).returning();
+    const [event] = await this.db.insert(inspectionSessionEvents).values(data).returning();
     return event;
   }
 
   async getSessionEvents(sessionId: number, since?: string): Promise<InspectionSessionEvent[]> {
     if (since) {
-      return db.select().from(inspectionSessionEvents).where(and(eq(inspectionSessionEvents.sessionId, sessionId), sql`${inspectionSessionEvents.ts} >= ${new Date(since)}`)).orderBy(inspectionSessionEvents.ts);
+      return this.db.select().from(inspectionSessionEvents).where(and(eq(inspectionSessionEvents.sessionId, sessionId), sql`${inspectionSessionEvents.ts} >= ${new Date(since)}`)).orderBy(inspectionSessionEvents.ts);
     }
-    return db.select().from(inspectionSessionEvents).where(eq(inspectionSessionEvents.sessionId, sessionId)).orderBy(inspectionSessionEvents.ts);
+    return this.db.select().from(inspectionSessionEvents).where(eq(inspectionSessionEvents.sessionId, sessionId)).orderBy(inspectionSessionEvents.ts);
   }
 
   async getSettlementSummary(sessionId: number, claimId: number): Promise<any> {
@@ -1689,6 +2318,8 @@ export class DatabaseStorage implements IStorage {
         depreciationType: item.depreciationType || "Recoverable",
         coverageBucket: (item as any).coverageBucket || "Coverage A",
         structure: room?.structure || null,
+        sublimitKey: item.sublimitKey,
+        incurred: item.incurredAt != null,
       };
     });
 
@@ -1698,10 +2329,22 @@ export class DatabaseStorage implements IStorage {
       calculateSettlement,
     } = await import("./estimateEngine");
 
+    // Contents inventory settles under Coverage C alongside the structural items
+    const { contentsItemsToSettlementInputs } = await import("./contentsInventory");
+    const contents = contentsItemsToSettlementInputs(await this.getContentsItemsForClaim(claimId));
+    const { priorPaymentsByCoverage } = await import("./claimPayments");
+    const priorPayments = priorPaymentsByCoverage(await this.getPaymentsForClaim(claimId));
+
     const policyInput = rules.map(r => ({
       coverageType: r.coverageType,
       policyLimit: r.policyLimit,
       deductible: r.deductible,
+      deductibleType: r.deductibleType,
+      deductiblePct: r.deductiblePct,
+      perilDeductibles: (r.perilDeductibles || []) as PerilDeductible[],
+      coinsurancePct: r.coinsurancePct,
+      replacementCostValue: r.replacementCostValue,
+      sublimits: (r.sublimits || []) as SublimitDefinition[],
       applyRoofSchedule: r.applyRoofSchedule || false,
       overheadPct: r.overheadPct || 10,
       profitPct: r.profitPct || 10,
@@ -1714,41 +2357,41 @@ export class DatabaseStorage implements IStorage {
         taxRate: t.taxRate,
         appliesToCategories: (t.appliesToCategories || []) as string[],
         appliesToCostType: t.appliesToCostType || "all",
+        source: t.source,
       }))
     );
 
     const { resolveSettlementRules } = await import("./settlementRules");
-    const claim = await this.getClaim(claimId);
-    const baseRules = await resolveSettlementRules(
-      String(claimId),
-      (claim as { carrierCode?: string })?.carrierCode ?? null
-    );
+    const baseRules = await resolveSettlementRules(String(claimId));
 
     const { overrides, limits } = getPolicyOverridesAndLimits(policyInput);
     const settlementRules = { ...baseRules, ...overrides };
 
-    return calculateSettlement(mapped, settlementRules, limits, taxRulesByCategory);
+    const claim = await this.getClaim(claimId);
+    return calculateSettlement(
+      [...mapped, ...contents], settlementRules, limits, taxRulesByCategory, priorPayments, claim?.perilType ?? null
+    );
   }
 
   // ── Scheduling & Location ──────────────────────
 
   async updateClaimScheduling(id: number, fields: Partial<Pick<Claim, 'scheduledDate' | 'scheduledTimeSlot' | 'priority' | 'slaDeadline' | 'estimatedDurationMin' | 'calendarEventId'>>): Promise<Claim | undefined> {
-    const [updated] = await db.update(claims).set({ ...fields, updatedAt: new Date() }).where(eq(claims.id, id)).returning();
+    const [updated] = await this.db.update(claims).set({ ...fields, updatedAt: new Date() }).where(eq(claims.id, id)).returning();
     return updated;
   }
 
   async updateClaimLocation(id: number, latitude: number, longitude: number): Promise<Claim | undefined> {
-    const [updated] = await db.update(claims).set({ latitude, longitude, updatedAt: new Date() }).where(eq(claims.id, id)).returning();
+    const [updated] = await this.db.update(claims).set({ latitude, longitude, updatedAt: new Date() }).where(eq(claims.id, id)).returning();
     return updated;
   }
 
   async updateClaimRouteOrder(id: number, routeOrder: number): Promise<Claim | undefined> {
-    const [updated] = await db.update(claims).set({ routeOrder, updatedAt: new Date() }).where(eq(claims.id, id)).returning();
+    const [updated] = await this.db.update(claims).set({ routeOrder, updatedAt: new Date() }).where(eq(claims.id, id)).returning();
     return updated;
   }
 
   async getClaimsForDate(userId: string, date: string): Promise<Claim[]> {
-    return db.select().from(claims)
+    return this.db.select().from(claims)
       .where(and(eq(claims.assignedTo, userId), eq(claims.scheduledDate, date)))
       .orderBy(asc(claims.routeOrder));
   }
@@ -1756,30 +2399,30 @@ export class DatabaseStorage implements IStorage {
   // ── Daily Itineraries ──────────────────────────
 
   async createItinerary(data: InsertDailyItinerary): Promise<DailyItinerary> {
-    const [itinerary] = await db.insert(dailyItineraries).values(data).returning();
+    const [itinerary] = await this.db.insert(dailyItineraries).values(data).returning();
     return itinerary;
   }
 
   async getItinerary(userId: string, date: string): Promise<DailyItinerary | undefined> {
-    const [itinerary] = await db.select().from(dailyItineraries)
+    const [itinerary] = await this.db.select().from(dailyItineraries)
       .where(and(eq(dailyItineraries.userId, userId), eq(dailyItineraries.date, date)));
     return itinerary;
   }
 
   async updateItinerary(id: number, data: Partial<InsertDailyItinerary>): Promise<DailyItinerary | undefined> {
-    const [updated] = await db.update(dailyItineraries).set(data).where(eq(dailyItineraries.id, id)).returning();
+    const [updated] = await this.db.update(dailyItineraries).set(data).where(eq(dailyItineraries.id, id)).returning();
     return updated;
   }
 
   // ── Adjuster Notifications ─────────────────────
 
   async createNotification(data: InsertAdjusterNotification): Promise<AdjusterNotification> {
-    const [notification] = await db.insert(adjusterNotifications).values(data).returning();
+    const [notification] = await this.db.insert(adjusterNotifications).values(data).returning();
     return notification;
   }
 
   async getNotificationById(id: number): Promise<AdjusterNotification | undefined> {
-    const [notification] = await db.select().from(adjusterNotifications).where(eq(adjusterNotifications.id, id));
+    const [notification] = await this.db.select().from(adjusterNotifications).where(eq(adjusterNotifications.id, id));
     return notification;
   }
 
@@ -1788,13 +2431,13 @@ export class DatabaseStorage implements IStorage {
     if (unreadOnly) {
       conditions.push(eq(adjusterNotifications.read, false));
     }
-    return db.select().from(adjusterNotifications)
+    return this.db.select().from(adjusterNotifications)
       .where(and(...conditions))
       .orderBy(desc(adjusterNotifications.createdAt));
   }
 
   async markNotificationRead(id: number): Promise<AdjusterNotification | undefined> {
-    const [updated] = await db.update(adjusterNotifications)
+    const [updated] = await this.db.update(adjusterNotifications)
       .set({ read: true })
       .where(eq(adjusterNotifications.id, id))
       .returning();
@@ -1802,7 +2445,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async markAllNotificationsRead(userId: string): Promise<void> {
-    await db.update(adjusterNotifications)
+    await this.db.update(adjusterNotifications)
       .set({ read: true })
       .where(and(eq(adjusterNotifications.userId, userId), eq(adjusterNotifications.read, false)));
   }
@@ -1812,27 +2455,27 @@ export class DatabaseStorage implements IStorage {
   async saveMs365Token(userId: string, tokenData: Omit<InsertMs365Token, 'userId'>): Promise<Ms365Token> {
     const existing = await this.getMs365Token(userId);
     if (existing) {
-      const [updated] = await db.update(ms365Tokens)
+      const [updated] = await this.db.update(ms365Tokens)
         .set({ ...tokenData, updatedAt: new Date() })
         .where(eq(ms365Tokens.userId, userId))
         .returning();
       return updated;
     }
-    const [token] = await db.insert(ms365Tokens).values({ ...tokenData, userId }).returning();
+    const [token] = await this.db.insert(ms365Tokens).values({ ...tokenData, userId }).returning();
     return token;
   }
 
   async getMs365Token(userId: string): Promise<Ms365Token | undefined> {
-    const [token] = await db.select().from(ms365Tokens).where(eq(ms365Tokens.userId, userId));
+    const [token] = await this.db.select().from(ms365Tokens).where(eq(ms365Tokens.userId, userId));
     return token;
   }
 
   async deleteMs365Token(userId: string): Promise<void> {
-    await db.delete(ms365Tokens).where(eq(ms365Tokens.userId, userId));
+    await this.db.delete(ms365Tokens).where(eq(ms365Tokens.userId, userId));
   }
 
   async getAllActiveSessions(): Promise<InspectionSession[]> {
-    return db.select().from(inspectionSessions)
+    return this.db.select().from(inspectionSessions)
       .where(or(
         eq(inspectionSessions.status, "active"),
         eq(inspectionSessions.status, "in_progress"),
@@ -1841,28 +2484,28 @@ export class DatabaseStorage implements IStorage {
 
   async getRoomsBySessionIds(sessionIds: number[]): Promise<InspectionRoom[]> {
     if (sessionIds.length === 0) return [];
-    return db.select().from(inspectionRooms).where(inArray(inspectionRooms.sessionId, sessionIds));
+    return this.db.select().from(inspectionRooms).where(inArray(inspectionRooms.sessionId, sessionIds));
   }
 
   async getLineItemsBySessionIds(sessionIds: number[]): Promise<LineItem[]> {
     if (sessionIds.length === 0) return [];
-    return db.select().from(lineItems).where(inArray(lineItems.sessionId, sessionIds));
+    return this.db.select().from(lineItems).where(inArray(lineItems.sessionId, sessionIds));
   }
 
   async getPhotosBySessionIds(sessionIds: number[]): Promise<InspectionPhoto[]> {
     if (sessionIds.length === 0) return [];
-    return db.select().from(inspectionPhotos).where(inArray(inspectionPhotos.sessionId, sessionIds));
+    return this.db.select().from(inspectionPhotos).where(inArray(inspectionPhotos.sessionId, sessionIds));
   }
 
   async getDamagesBySessionIds(sessionIds: number[]): Promise<DamageObservation[]> {
     if (sessionIds.length === 0) return [];
-    return db.select().from(damageObservations).where(inArray(damageObservations.sessionId, sessionIds));
+    return this.db.select().from(damageObservations).where(inArray(damageObservations.sessionId, sessionIds));
   }
 
   async getEstimateSummaryBatch(sessionIds: number[]): Promise<Map<number, { totalRCV: number }>> {
     const result = new Map<number, { totalRCV: number }>();
     if (sessionIds.length === 0) return result;
-    const rows = await db
+    const rows = await this.db
       .select({
         sessionId: lineItems.sessionId,
         totalRCV: sql<number>`coalesce(sum(${lineItems.totalPrice}::numeric), 0)::float`,
@@ -1878,26 +2521,26 @@ export class DatabaseStorage implements IStorage {
 
   async getUsersByIds(ids: string[]): Promise<User[]> {
     if (ids.length === 0) return [];
-    return db.select().from(users).where(inArray(users.id, ids));
+    return this.db.select().from(users).where(inArray(users.id, ids));
   }
 
   async createOauthState(state: string, userId: string, expiresAt: Date): Promise<Ms365OauthState> {
-    const [row] = await db.insert(ms365OauthStates).values({ state, userId, expiresAt }).returning();
+    const [row] = await this.db.insert(ms365OauthStates).values({ state, userId, expiresAt }).returning();
     return row;
   }
 
   async consumeOauthState(state: string): Promise<{ userId: string } | undefined> {
     await this.cleanupExpiredOauthStates();
-    const [row] = await db.select().from(ms365OauthStates)
+    const [row] = await this.db.select().from(ms365OauthStates)
       .where(eq(ms365OauthStates.state, state));
     if (!row) return undefined;
-    await db.delete(ms365OauthStates).where(eq(ms365OauthStates.id, row.id));
+    await this.db.delete(ms365OauthStates).where(eq(ms365OauthStates.id, row.id));
     if (row.expiresAt < new Date()) return undefined;
     return { userId: row.userId };
   }
 
   async cleanupExpiredOauthStates(): Promise<void> {
-    await db.delete(ms365OauthStates)
+    await this.db.delete(ms365OauthStates)
       .where(sql`${ms365OauthStates.expiresAt} < now()`);
   }
 }
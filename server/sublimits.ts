@@ -0,0 +1,113 @@
+// ── Sublimits & Additional Coverages ──
+//
+// A coverage's policy rule can carry sublimits (mold remediation capped at a
+// flat amount) and additional coverages (debris removal at a percentage of
+// the loss, trees and shrubs capped per plant, ordinance or law at a
+// percentage of the limit). Line items opt in with a sublimitKey; anything
+// above the cap is cut from the claim, and additional coverages are paid on
+// top of the coverage limit instead of within it.
+
+export type SublimitCapType = "flat" | "percent_of_limit" | "percent_of_loss" | "per_item";
+
+export interface SublimitDefinition {
+  key: string;
+  label: string;
+  capType: SublimitCapType;
+  /** Dollars for flat and per_item caps, percent for the percentage caps */
+  amount: number;
+  /** Overall cap for a per_item sublimit (e.g., $500 per tree, $5,000 in total) */
+  aggregateCap?: number | null;
+  /** Paid in addition to the coverage limit rather than within it */
+  additional?: boolean;
+}
+
+export interface SublimitItem {
+  sublimitKey?: string | null;
+  acv: number;
+  quantity: number;
+}
+
+export interface SublimitResult {
+  key: string;
+  label: string;
+  capType: SublimitCapType;
+  additional: boolean;
+  itemCount: number;
+  claimed: number;
+  cap: number;
+  overage: number;
+  allowed: number;
+}
+
+export interface SublimitOutcome {
+  results: SublimitResult[];
+  /** Claimed amounts above their caps, removed from the coverage's loss */
+  totalOverage: number;
+  /** Allowed amounts under additional coverages, paid outside the limit */
+  additionalAllowed: number;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Applies a coverage's sublimits to its items. The base loss for
+ * percent_of_loss caps is the ACV of the items outside any sublimit.
+ */
+export function applySublimits(
+  items: SublimitItem[],
+  definitions: SublimitDefinition[],
+  policyLimit: number | null
+): SublimitOutcome {
+  const byKey = new Map<string, SublimitDefinition>();
+  for (const def of definitions) {
+    if (def.key && !byKey.has(def.key)) byKey.set(def.key, def);
+  }
+
+  const baseLoss = items
+    .filter(i => !i.sublimitKey || !byKey.has(i.sublimitKey))
+    .reduce((s, i) => s + i.acv, 0);
+
+  const results: SublimitResult[] = [];
+  for (const def of Array.from(byKey.values())) {
+    const tagged = items.filter(i => i.sublimitKey === def.key);
+    const claimed = tagged.reduce((s, i) => s + i.acv, 0);
+    const amount = Number(def.amount) || 0;
+
+    let cap: number;
+    let allowed: number;
+    if (def.capType === "per_item") {
+      const perItemCap = tagged.reduce((s, i) => s + amount * (i.quantity || 1), 0);
+      const perItemAllowed = tagged.reduce((s, i) => s + Math.min(i.acv, amount * (i.quantity || 1)), 0);
+      cap = def.aggregateCap != null ? Math.min(perItemCap, def.aggregateCap) : perItemCap;
+      allowed = def.aggregateCap != null ? Math.min(perItemAllowed, def.aggregateCap) : perItemAllowed;
+    } else {
+      cap = def.capType === "percent_of_limit"
+        ? (policyLimit != null ? policyLimit * amount / 100 : 0)
+        : def.capType === "percent_of_loss"
+          ? Math.max(baseLoss, 0) * amount / 100
+          : amount;
+      allowed = Math.min(claimed, cap);
+    }
+    allowed = Math.max(allowed, 0);
+
+    results.push({
+      key: def.key,
+      label: def.label || def.key,
+      capType: def.capType,
+      additional: !!def.additional,
+      itemCount: tagged.length,
+      claimed: round2(claimed),
+      cap: round2(cap),
+      overage: round2(Math.max(claimed - allowed, 0)),
+      allowed: round2(allowed),
+    });
+  }
+
+  return {
+    results,
+    totalOverage: round2(results.reduce((s, r) => s + r.overage, 0)),
+    additionalAllowed: round2(results.filter(r => r.additional).reduce((s, r) => s + r.allowed, 0)),
+  };
+}
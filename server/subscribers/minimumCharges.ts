@@ -0,0 +1,35 @@
+import { on, type AppEvent } from "../events";
+import { storage } from "../storage";
+import { logger } from "../logger";
+import { syncMinimumCharges } from "../minimumCharges";
+
+// Syncs run one at a time per session so two quick edits can't both create
+// the same minimum line.
+const pendingSyncs = new Map<number, Promise<void>>();
+
+function queueSync(sessionId: number): void {
+  const previous = pendingSyncs.get(sessionId) ?? Promise.resolve();
+  const next = previous
+    .then(async () => {
+      const result = await syncMinimumCharges(storage, sessionId);
+      if (result.created || result.updated || result.removed) {
+        logger.info("MinimumCharges", `Session ${sessionId}: ${result.created} added, ${result.updated} updated, ${result.removed} removed`);
+      }
+    })
+    .catch((error) => {
+      logger.error("MinimumCharges", `Minimum charge sync failed for session ${sessionId}`, error);
+    });
+  pendingSyncs.set(sessionId, next);
+  next.finally(() => {
+    if (pendingSyncs.get(sessionId) === next) pendingSyncs.delete(sessionId);
+  });
+}
+
+export function registerMinimumChargeSubscriber(): void {
+  const handler = (event: AppEvent) => {
+    if ("sessionId" in event) queueSync(event.sessionId);
+  };
+  on("inspection.lineItemAdded", handler);
+  on("inspection.lineItemUpdated", handler);
+  on("inspection.lineItemDeleted", handler);
+}
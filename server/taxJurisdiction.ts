@@ -0,0 +1,155 @@
+import type { IStorage } from "./storage";
+import type {
+  Claim, InsertTaxRule, TaxJurisdictionArea, TaxRule, XactBurdenTax, XactJurisdiction, XactSalesTax,
+} from "@shared/schema";
+
+// ── Tax Jurisdictions ──
+//
+// A claim's jurisdiction is the adjuster's override when set, otherwise the
+// tax_jurisdiction_areas row that best matches the loss state/zip. The
+// jurisdiction's XACTDOC sales taxes become the claim's "jurisdiction" tax
+// rules; manual rules are never touched and still take precedence. Its
+// burden taxes (FICA, unemployment, workers' comp) are added to labor cost
+// when line items are priced.
+
+export type JurisdictionSource = "override" | "location";
+
+export interface ResolvedTaxJurisdiction {
+  jurisdiction: XactJurisdiction;
+  source: JurisdictionSource;
+  area: TaxJurisdictionArea | null;
+}
+
+type JurisdictionClaim = Pick<Claim, "state" | "zip" | "taxJurisdictionId">;
+
+type TaxRuleDraft = Omit<InsertTaxRule, "claimId">;
+
+function digits(value: string | null | undefined): string {
+  return (value ?? "").replace(/\D/g, "");
+}
+
+/**
+ * Best area for a loss location: same state, zip starting with the area's
+ * prefix, longest prefix first. A state-wide row (no prefix) is the fallback.
+ */
+export function matchJurisdictionArea(
+  areas: TaxJurisdictionArea[],
+  location: { state: string | null; zip: string | null }
+): TaxJurisdictionArea | null {
+  const state = location.state?.trim().toUpperCase();
+  if (!state) return null;
+  const zip = digits(location.zip);
+
+  let best: TaxJurisdictionArea | null = null;
+  let bestLength = -1;
+  for (const area of areas) {
+    if (area.state.toUpperCase() !== state) continue;
+    const prefix = digits(area.zipPrefix);
+    if (prefix && !zip.startsWith(prefix)) continue;
+    if (prefix.length > bestLength) {
+      best = area;
+      bestLength = prefix.length;
+    }
+  }
+  return best;
+}
+
+/**
+ * Maps XACTDOC sales tax rows to tax rules. Cleaning taxes apply to the
+ * Cleaning category, labor taxes to labor cost, and the material tax is the
+ * default for everything else.
+ */
+export function salesTaxRules(salesTaxes: Array<Pick<XactSalesTax, "type" | "rate">>): TaxRuleDraft[] {
+  const categoryRules: TaxRuleDraft[] = [];
+  const generalRules: TaxRuleDraft[] = [];
+  let hasDefault = false;
+
+  for (const tax of salesTaxes) {
+    const type = tax.type.trim();
+    const lower = type.toLowerCase();
+    const rule = {
+      taxLabel: type.slice(0, 50),
+      taxRate: Number(tax.rate) || 0,
+      source: "jurisdiction",
+    };
+    const materialOnly = lower.includes("mtl") || lower.includes("material");
+
+    if (lower.includes("clean")) {
+      categoryRules.push({
+        ...rule,
+        appliesToCategories: ["Cleaning"],
+        appliesToCostType: materialOnly ? "material" : "all",
+        isDefault: false,
+      });
+    } else if (lower.includes("labor")) {
+      generalRules.push({ ...rule, appliesToCategories: [], appliesToCostType: "labor", isDefault: false });
+    } else {
+      generalRules.push({ ...rule, appliesToCategories: [], appliesToCostType: "material", isDefault: !hasDefault });
+      hasDefault = true;
+    }
+  }
+
+  // A cleaning rule on the full price wins over a cleaning materials-only rule
+  categoryRules.sort((a, b) => Number(a.appliesToCostType !== "all") - Number(b.appliesToCostType !== "all"));
+  return [...categoryRules, ...generalRules];
+}
+
+/** Combined labor burden percent for a jurisdiction's burden tax rows. */
+export function laborBurdenRate(burdenTaxes: Array<Pick<XactBurdenTax, "rate">>): number {
+  const total = burdenTaxes.reduce((sum, tax) => sum + (Number(tax.rate) || 0), 0);
+  return Math.round(total * 10000) / 10000;
+}
+
+export async function resolveClaimTaxJurisdiction(
+  storage: IStorage,
+  claim: JurisdictionClaim
+): Promise<ResolvedTaxJurisdiction | null> {
+  if (claim.taxJurisdictionId) {
+    const jurisdiction = await storage.getTaxJurisdiction(claim.taxJurisdictionId);
+    if (jurisdiction) return { jurisdiction, source: "override", area: null };
+  }
+
+  if (!claim.state) return null;
+  const area = matchJurisdictionArea(await storage.getTaxJurisdictionAreas(claim.state), claim);
+  if (!area) return null;
+  const jurisdiction = await storage.getTaxJurisdiction(area.jurisdictionId);
+  return jurisdiction ? { jurisdiction, source: "location", area } : null;
+}
+
+/**
+ * Regenerates the claim's jurisdiction tax rules. When the jurisdiction has
+ * sales taxes they also replace the generic rule created with the policy
+ * rules; otherwise that rule is left as the claim's tax.
+ */
+export async function applyJurisdictionTaxRules(
+  storage: IStorage,
+  claimId: number
+): Promise<(ResolvedTaxJurisdiction & { rules: TaxRule[] }) | null> {
+  const claim = await storage.getClaim(claimId);
+  if (!claim) return null;
+
+  const resolved = await resolveClaimTaxJurisdiction(storage, claim);
+  const drafts = resolved
+    ? salesTaxRules(await storage.getJurisdictionSalesTaxes(resolved.jurisdiction.id))
+    : [];
+
+  await storage.deleteTaxRulesBySource(claimId, drafts.length > 0 ? ["jurisdiction", "policy"] : ["jurisdiction"]);
+  if (!resolved) return null;
+
+  const rules: TaxRule[] = [];
+  for (const draft of drafts) {
+    rules.push(await storage.createTaxRule({ claimId, ...draft }));
+  }
+  return { ...resolved, rules };
+}
+
+/** Labor burden percent for the claim's jurisdiction; 0 when none resolves. */
+export async function resolveClaimLaborBurden(
+  storage: IStorage,
+  claim: JurisdictionClaim | null | undefined
+): Promise<number> {
+  if (!claim) return 0;
+  const resolved = await resolveClaimTaxJurisdiction(storage, claim);
+  if (!resolved) return 0;
+  return laborBurdenRate(await storage.getJurisdictionBurdenTaxes(resolved.jurisdiction.id));
+}
@@ -0,0 +1,56 @@
+import type { IStorage } from "./storage";
+import type { TestSquare } from "@shared/schema";
+
+// ── Hail test squares ──
+//
+// Shared by the test squares REST route and the voice tool executor. A
+// 10x10 ft square with eight or more hail hits fails, which supports full
+// slope replacement; a pitch above 7/12 adds a steep charge to the labor.
+
+export interface TestSquareInput {
+  roomId?: number | null;
+  hailHits: number;
+  windCreases?: number;
+  pitch: string;
+  result?: "pass" | "fail" | "brittle_test_failure";
+  notes?: string | null;
+}
+
+export interface TestSquareAnalysis {
+  steepCharge: boolean;
+  steepChargeNote: string | null;
+  recommendation: string;
+}
+
+export function analyzeTestSquare(hailHits: number, pitch: string): TestSquareAnalysis {
+  const pitchRise = parseInt(pitch.split("/")[0]) || 0;
+  const steepCharge = pitchRise > 7;
+  return {
+    steepCharge,
+    steepChargeNote: steepCharge ? `Pitch ${pitch} exceeds 7/12 — steep charge applies to labor.` : null,
+    recommendation: hailHits >= 8
+      ? "Test square FAILS — sufficient damage for full slope replacement."
+      : hailHits >= 4
+        ? "Borderline — consider additional test squares on this facet."
+        : "Test square passes — damage below replacement threshold.",
+  };
+}
+
+/** The room must already be checked to belong to the session. */
+export async function recordTestSquare(
+  storage: IStorage,
+  sessionId: number,
+  input: TestSquareInput
+): Promise<{ testSquare: TestSquare; analysis: TestSquareAnalysis }> {
+  const { roomId, hailHits, windCreases, pitch, result, notes } = input;
+  const testSquare = await storage.createTestSquare({
+    sessionId,
+    roomId: roomId || null,
+    hailHits,
+    windCreases: windCreases || 0,
+    pitch,
+    result: result || (hailHits >= 8 ? "fail" : "pass"),
+    notes: notes || null,
+  });
+  return { testSquare, analysis: analyzeTestSquare(hailHits, pitch) };
+}
@@ -53,14 +53,15 @@ export async function uploadToSupabase(
   claimId: number,
   documentType: string,
   fileBuffer: Buffer,
-  fileName: string
+  fileName: string,
+  contentType: string = "application/pdf"
 ): Promise<string> {
   const safeFileName = sanitizeStorageFileName(fileName);
   const storagePath = `claims/${claimId}/${documentType}/${safeFileName}`;
   const { error } = await supabase.storage
     .from(DOCUMENTS_BUCKET)
     .upload(storagePath, fileBuffer, {
-      contentType: "application/pdf",
+      contentType,
       upsert: true,
     });
   if (error) throw new Error(`Storage upload failed: ${error.message}`);
@@ -6,7 +6,7 @@
  */
 
 import type { WaterClassification } from "./companionEngine";
-import { storage } from "./storage";
+import { storage, type IStorage } from "./storage";
 import { logger } from "./logger";
 
 export interface WaterProtocolResponses {
@@ -179,11 +179,12 @@ export function processWaterDamageResponses(
  */
 export async function handleWaterDamageProtocol(
   sessionId: number,
-  responses: WaterProtocolResponses
+  responses: WaterProtocolResponses,
+  store: IStorage = storage
 ): Promise<WaterClassificationResult> {
   const classification = processWaterDamageResponses(responses);
 
-  await storage.updateSession(sessionId, {
+  await store.updateSession(sessionId, {
     waterClassification: classification as unknown as Record<string, unknown>,
   });
 
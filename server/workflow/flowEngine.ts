@@ -0,0 +1,207 @@
+import { z } from "zod";
+import type { IStorage } from "../storage";
+import type { FlowFact, InspectionStep, StepCondition, StepLoop } from "@shared/schema";
+
+// ── Inspection flow branching ──
+//
+// A flow's steps are a template. Conditions are evaluated against facts read
+// from the session (peril, water classification, structures, rooms, test
+// squares) and looping steps are repeated once per matching structure or room,
+// giving the concrete step list for this inspection. Progress is tracked by
+// step key rather than index so that the list can grow or shrink as facts
+// change: a step that becomes applicable behind the current position (e.g.
+// antimicrobial once the water is classified Category 3) is picked up next.
+
+export const FLOW_FACTS = [
+  "peril",
+  "water.category",
+  "water.class",
+  "structure.count",
+  "structure.types",
+  "room.count",
+  "testSquare.count",
+  "testSquare.failed",
+] as const satisfies readonly FlowFact[];
+
+export const stepConditionSchema: z.ZodType<StepCondition> = z.lazy(() =>
+  z.union([
+    z.object({ all: z.array(stepConditionSchema).min(1) }),
+    z.object({ any: z.array(stepConditionSchema).min(1) }),
+    z.object({ not: stepConditionSchema }),
+    z.object({
+      fact: z.enum(FLOW_FACTS),
+      op: z.enum(["eq", "neq", "gt", "gte", "lt", "lte", "in", "includes"]),
+      value: z.union([z.string(), z.number(), z.array(z.union([z.string(), z.number()]))]),
+    }),
+  ])
+);
+
+export const stepLoopSchema: z.ZodType<StepLoop> = z.object({
+  over: z.enum(["structures", "rooms"]),
+  types: z.array(z.string().min(1)).optional(),
+});
+
+export const inspectionStepSchema = z.object({
+  id: z.string(),
+  phaseName: z.string(),
+  agentPrompt: z.string(),
+  requiredTools: z.array(z.string()),
+  completionCriteria: z.string(),
+  condition: stepConditionSchema.optional(),
+  loop: stepLoopSchema.optional(),
+});
+
+export const inspectionStepsSchema = z.array(inspectionStepSchema).refine(
+  (steps) => new Set(steps.map((s) => s.id)).size === steps.length,
+  { message: "Step ids must be unique; progress is tracked by step id" },
+);
+
+export interface FlowFacts {
+  peril: string;
+  water: { category: number; waterClass: number } | null;
+  structures: Array<{ id: number; name: string; structureType: string }>;
+  rooms: Array<{ id: number; name: string; viewType: string | null }>;
+  testSquares: { count: number; failed: number };
+}
+
+export interface FlowStepInstance {
+  /** Stable identity: the step id, plus the entity for looping steps */
+  key: string;
+  /** Position of the template step in the flow */
+  index: number;
+  step: InspectionStep;
+  entity?: { type: "structure" | "room"; id: number; name: string };
+}
+
+export async function gatherFlowFacts(storage: IStorage, sessionId: number): Promise<FlowFacts> {
+  const session = await storage.getInspectionSession(sessionId);
+  const [claim, structures, rooms, testSquares] = await Promise.all([
+    session ? storage.getClaim(session.claimId) : undefined,
+    storage.getStructures(sessionId),
+    storage.getRooms(sessionId),
+    storage.getTestSquares(sessionId),
+  ]);
+  const water = session?.waterClassification as { category?: number; waterClass?: number } | null | undefined;
+
+  return {
+    peril: (claim?.perilType || "").toLowerCase(),
+    water: water?.category ? { category: water.category, waterClass: water.waterClass ?? 0 } : null,
+    structures: structures.map((s) => ({ id: s.id, name: s.name, structureType: s.structureType })),
+    // Sub-areas are documented with their parent room, not as their own pass
+    rooms: rooms.filter((r) => !r.parentRoomId).map((r) => ({ id: r.id, name: r.name, viewType: r.viewType })),
+    testSquares: {
+      count: testSquares.length,
+      failed: testSquares.filter((t) => t.result !== "pass").length,
+    },
+  };
+}
+
+function factValue(facts: FlowFacts, fact: FlowFact): string | number | string[] | null {
+  switch (fact) {
+    case "peril": return facts.peril;
+    case "water.category": return facts.water?.category ?? null;
+    case "water.class": return facts.water?.waterClass ?? null;
+    case "structure.count": return facts.structures.length;
+    case "structure.types": return facts.structures.map((s) => s.structureType);
+    case "room.count": return facts.rooms.length;
+    case "testSquare.count": return facts.testSquares.count;
+    case "testSquare.failed": return facts.testSquares.failed;
+  }
+}
+
+const normalize = (v: string | number) => (typeof v === "string" ? v.toLowerCase() : v);
+
+/** An unknown fact (e.g. water not yet classified) satisfies no comparison except neq. */
+export function evaluateCondition(condition: StepCondition, facts: FlowFacts): boolean {
+  if ("all" in condition) return condition.all.every((c) => evaluateCondition(c, facts));
+  if ("any" in condition) return condition.any.some((c) => evaluateCondition(c, facts));
+  if ("not" in condition) return !evaluateCondition(condition.not, facts);
+
+  const actual = factValue(facts, condition.fact);
+  const expected = condition.value;
+  if (actual === null) return condition.op === "neq";
+  if (condition.op === "neq") {
+    return !evaluateCondition({ ...condition, op: Array.isArray(actual) ? "includes" : "eq" }, facts);
+  }
+
+  if (condition.op === "includes") {
+    const values = Array.isArray(actual) ? actual.map(normalize) : [normalize(actual)];
+    return (Array.isArray(expected) ? expected : [expected]).some((e) => values.includes(normalize(e)));
+  }
+  if (Array.isArray(actual)) return false;
+  if (condition.op === "in") {
+    return (Array.isArray(expected) ? expected : [expected]).map(normalize).includes(normalize(actual));
+  }
+  if (condition.op === "eq") return normalize(actual) === normalize(expected as string | number);
+
+  const a = Number(actual);
+  const b = Number(expected);
+  if (Number.isNaN(a) || Number.isNaN(b)) return false;
+  switch (condition.op) {
+    case "gt": return a > b;
+    case "gte": return a >= b;
+    case "lt": return a < b;
+    case "lte": return a <= b;
+  }
+}
+
+function loopEntities(loop: StepLoop, facts: FlowFacts): NonNullable<FlowStepInstance["entity"]>[] {
+  const types = loop.types?.map((t) => t.toLowerCase());
+  if (loop.over === "structures") {
+    return facts.structures
+      .filter((s) => !types || types.includes(s.structureType.toLowerCase()))
+      .map((s) => ({ type: "structure", id: s.id, name: s.name }));
+  }
+  return facts.rooms
+    .filter((r) => !types || types.includes((r.viewType || "interior").toLowerCase()))
+    .map((r) => ({ type: "room", id: r.id, name: r.name }));
+}
+
+/** The concrete steps for this session, in flow order. */
+export function expandFlowSteps(steps: InspectionStep[], facts: FlowFacts): FlowStepInstance[] {
+  const instances: FlowStepInstance[] = [];
+  steps.forEach((step, index) => {
+    if (step.condition && !evaluateCondition(step.condition, facts)) return;
+    if (!step.loop) {
+      instances.push({ key: step.id, index, step });
+      return;
+    }
+    for (const entity of loopEntities(step.loop, facts)) {
+      instances.push({ key: `${step.id}:${entity.type}:${entity.id}`, index, step, entity });
+    }
+  });
+  return instances;
+}
+
+/** The first applicable step that has not been completed, or null when the flow is done. */
+export function nextFlowStep(instances: FlowStepInstance[], completedKeys: string[]): FlowStepInstance | null {
+  const completed = new Set(completedKeys);
+  return instances.find((i) => !completed.has(i.key)) ?? null;
+}
+
+const FACT_LABELS: Record<FlowFact, string> = {
+  "peril": "peril",
+  "water.category": "water category",
+  "water.class": "water class",
+  "structure.count": "number of structures",
+  "structure.types": "structure types",
+  "room.count": "number of rooms",
+  "testSquare.count": "number of test squares",
+  "testSquare.failed": "failed test squares",
+};
+
+const OP_LABELS = { eq: "is", neq: "is not", gt: ">", gte: "≥", lt: "<", lte: "≤", in: "is one of", includes: "include" } as const;
+
+/** Plain-language rendering for agent prompts and the flow builder. */
+export function describeCondition(condition: StepCondition): string {
+  if ("all" in condition) return condition.all.map(describeCondition).join(" and ");
+  if ("any" in condition) return `(${condition.any.map(describeCondition).join(" or ")})`;
+  if ("not" in condition) return `not (${describeCondition(condition.not)})`;
+  const value = Array.isArray(condition.value) ? condition.value.join(", ") : condition.value;
+  return `${FACT_LABELS[condition.fact]} ${OP_LABELS[condition.op]} ${value}`;
+}
+
+export function describeLoop(loop: StepLoop): string {
+  const noun = loop.over === "structures" ? "structure" : "room";
+  return loop.types?.length ? `each ${noun} of type ${loop.types.join(", ")}` : `each ${noun}`;
+}
@@ -0,0 +1,291 @@
+import { GLOBAL_TOOLS, PHASE_ALLOWED_TOOLS, WORKFLOW_PHASES, type WorkflowPhase } from "@shared/contracts/workflow";
+import type { InspectionSessionEvent, InspectionStep } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import { COMMAND_EXECUTED } from "../commandLog";
+import { expandFlowSteps, gatherFlowFacts, type FlowStepInstance } from "./flowEngine";
+import { advance, canAdvance, checkToolForWorkflow, defaultWorkflowState, summarizeGates } from "./orchestrator";
+import type { GateResult, GateResultSummary, WorkflowState } from "./types";
+import { runAllWorkflowGates } from "./validators";
+
+// ── Flow dry run ──
+//
+// Replays a recorded session against a flow without touching the session.
+// Tool calls come from the persisted voice tool log (or, for sessions recorded
+// before it existed, the undoable command log) and pass through the same
+// workflow checks the live orchestrator applies, with recorded phase changes
+// going through advance() so gate blocks show up where they would have.
+//
+// A flow only advances when the agent calls complete_flow_step, which a
+// recording made under another flow cannot tell us, so progress is inferred:
+// a call that the current step does not list, but a later step does, moves
+// the flow on. Steps passed over without any of their tools being used are
+// the ones that would never complete, because the live flow only moves forward
+// one completed step at a time.
+//
+// The session's data is only available as it ended, so a step's own gate
+// tools are checked against the final state and reported as end-of-session
+// results, with the simulated flow's rule packs in place of the session's.
+
+export const VOICE_TOOL_CALL = "voice.tool_call";
+export const VOICE_TOOL_RESULT = "voice.tool_result";
+
+const GLOBAL = new Set<string>(GLOBAL_TOOLS);
+const PHASE_GATED = new Set<string>(Object.values(PHASE_ALLOWED_TOOLS).flat());
+const GATE_TOOLS: Record<string, Array<GateResult["gate"]>> = {
+  run_workflow_gates: ["sketch", "photoDamage", "scope", "export"],
+  validate_scope: ["scope"],
+  export_esx: ["export"],
+};
+
+export interface RecordedCall {
+  eventId: number;
+  at: Date;
+  tool: string;
+  args: Record<string, unknown>;
+  success: boolean | null;
+}
+
+export type SimulatedStepStatus = "completed" | "skipped" | "in_progress" | "not_reached";
+
+export interface SimulatedStep {
+  key: string;
+  stepId: string;
+  phaseName: string;
+  status: SimulatedStepStatus;
+  toolsUsed: string[];
+  /** Listed tools the recording never called while on this step */
+  unusedTools: string[];
+}
+
+export interface BlockedCall {
+  eventId: number;
+  at: Date;
+  tool: string;
+  phase: WorkflowPhase;
+  stepKey: string | null;
+  code: "TOOL_NOT_ALLOWED" | "MISSING_CONTEXT" | "NOT_IN_FLOW";
+  message: string;
+}
+
+export interface GateFiring {
+  eventId: number | null;
+  stepKey: string | null;
+  trigger: "gate_run" | "phase_advance" | "flow_step";
+  gates: Partial<Record<GateResult["gate"], GateResultSummary>>;
+  blocked: boolean;
+  /** Gates checked against the session as it ended rather than at a replayed point */
+  endOfSession: boolean;
+  message: string;
+}
+
+export interface FlowSimulation {
+  sessionId: number;
+  source: "voice_log" | "command_log" | "none";
+  replayedCalls: number;
+  blockedCalls: BlockedCall[];
+  steps: SimulatedStep[];
+  /** Skipped or never reached; a step still in progress when the recording ends is not included */
+  neverCompleted: string[];
+  gateFirings: GateFiring[];
+  finalGates: NonNullable<WorkflowState["lastValidatorSummary"]>;
+}
+
+/** Tool calls in the order they were made, joined with their results where recorded. */
+export function recordedCalls(events: InspectionSessionEvent[]): { source: FlowSimulation["source"]; calls: RecordedCall[] } {
+  const voice = events.filter((e) => e.type === VOICE_TOOL_CALL);
+  if (voice.length > 0) {
+    const results = new Map<string, boolean>();
+    for (const e of events) {
+      const p = (e.payloadJson || {}) as Record<string, any>;
+      if (e.type === VOICE_TOOL_RESULT && p.callId) results.set(p.callId, p.success !== false);
+    }
+    return {
+      source: "voice_log",
+      calls: voice.map((e) => {
+        const p = (e.payloadJson || {}) as Record<string, any>;
+        return { eventId: e.id, at: e.ts, tool: String(p.tool), args: p.args || {}, success: p.callId ? results.get(p.callId) ?? null : null };
+      }),
+    };
+  }
+  const commands = events.filter((e) => e.type === COMMAND_EXECUTED);
+  return {
+    source: commands.length > 0 ? "command_log" : "none",
+    calls: commands.map((e) => ({
+      eventId: e.id, at: e.ts, tool: String((e.payloadJson as any)?.tool), args: {}, success: true,
+    })),
+  };
+}
+
+function namesEntity(args: Record<string, unknown>, entity: NonNullable<FlowStepInstance["entity"]>): boolean | null {
+  const named = [args.structure, args.structureName, args.roomName, args.name].filter((v): v is string => typeof v === "string");
+  if (named.length === 0) return null;
+  return named.some((n) => n.toLowerCase() === entity.name.toLowerCase());
+}
+
+/** A looping step only claims calls that name its entity, or name nothing at all. */
+function claims(instance: FlowStepInstance, call: RecordedCall, strict: boolean): boolean {
+  if (!instance.step.requiredTools.includes(call.tool)) return false;
+  if (!instance.entity) return true;
+  const named = namesEntity(call.args, instance.entity);
+  return named === null ? !strict : named;
+}
+
+function gatesFor(summary: NonNullable<WorkflowState["lastValidatorSummary"]>, gates: Array<GateResult["gate"]>) {
+  return Object.fromEntries(gates.map((g) => [g, summary[g]])) as GateFiring["gates"];
+}
+
+function blockerCount(gates: GateFiring["gates"]): number {
+  return Object.values(gates).reduce((n, g) => n + (g?.blockers ?? 0), 0);
+}
+
+/** flowId is the flow being simulated; its rule packs apply instead of the session's active flow's */
+export async function simulateFlow(
+  steps: InspectionStep[],
+  sessionId: number,
+  store: IStorage = storage,
+  flowId?: number | null
+): Promise<FlowSimulation | null> {
+  const session = await store.getInspectionSession(sessionId);
+  if (!session) return null;
+  const claim = await store.getClaim(session.claimId);
+  const peril = claim?.perilType || "General";
+  const [events, facts, gateResults] = await Promise.all([
+    store.getSessionEvents(sessionId),
+    gatherFlowFacts(store, sessionId),
+    runAllWorkflowGates(sessionId, peril, { flowId }),
+  ]);
+  const finalGates = summarizeGates(gateResults);
+
+  // Conditions see the session as it ended: every room and test square it recorded
+  const instances = expandFlowSteps(steps, facts);
+  const used = instances.map(() => new Set<string>());
+  const { source, calls } = recordedCalls(events);
+  const callsByEvent = new Map(calls.map((c) => [c.eventId, c]));
+
+  let state = defaultWorkflowState({ claimId: String(session.claimId), sessionId: String(sessionId), peril });
+  const completed = instances.map(() => false);
+  let position = 0;
+  const blockedCalls: BlockedCall[] = [];
+  const gateFirings: GateFiring[] = [];
+  const stepKey = () => instances[position]?.key ?? null;
+
+  for (const event of events) {
+    const payload = (event.payloadJson || {}) as Record<string, any>;
+
+    if (event.type === "workflow.phase_changed" && WORKFLOW_PHASES.includes(payload.to)) {
+      const target = payload.to as WorkflowPhase;
+      if (WORKFLOW_PHASES.indexOf(target) <= WORKFLOW_PHASES.indexOf(state.phase)) {
+        state = { ...state, phase: target };
+        continue;
+      }
+      while (state.phase !== target && canAdvance(state)) state = advance(state);
+      if (state.phase !== target) {
+        const sketch = state.lastValidatorSummary?.sketch;
+        gateFirings.push({
+          eventId: event.id, stepKey: stepKey(), trigger: "phase_advance",
+          gates: sketch ? { sketch } : {}, blocked: true, endOfSession: false,
+          message: `Moving to ${target} would be held in ${state.phase} until the sketch gate passes.`,
+        });
+      }
+      continue;
+    }
+    if (event.type === "workflow.context_changed") {
+      state = { ...state, context: { ...state.context, ...(payload.context || {}) } };
+      continue;
+    }
+    if (event.type === "gate.result" && payload.sketch) {
+      const recorded = summarizeGates(payload as Record<GateResult["gate"], GateResult>);
+      state = { ...state, lastValidatorSummary: recorded };
+      const gates = gatesFor(recorded, GATE_TOOLS.run_workflow_gates);
+      gateFirings.push({
+        eventId: event.id, stepKey: stepKey(), trigger: "gate_run", gates, blocked: blockerCount(gates) > 0, endOfSession: false,
+        message: `Gates ran with ${blockerCount(gates)} blocker(s).`,
+      });
+      continue;
+    }
+
+    const call = callsByEvent.get(event.id);
+    if (!call) continue;
+
+    if (PHASE_GATED.has(call.tool)) {
+      const rejection = checkToolForWorkflow(state, call.tool, call.args);
+      if (rejection?.error) {
+        blockedCalls.push({
+          eventId: call.eventId, at: call.at, tool: call.tool, phase: state.phase, stepKey: stepKey(),
+          code: rejection.error.code as BlockedCall["code"], message: rejection.error.message,
+        });
+        continue;
+      }
+    }
+    // A call that failed changed nothing, so it does not count as work on a step
+    if (call.success === false) continue;
+    if (GLOBAL.has(call.tool)) {
+      if (call.tool === "complete_flow_step" && position < instances.length) {
+        completed[position] = true;
+        position++;
+      }
+      continue;
+    }
+
+    const current = instances[position];
+    if (current && claims(current, call, false)) {
+      used[position].add(call.tool);
+      continue;
+    }
+    const ahead = instances.findIndex((instance, i) => i > position && claims(instance, call, true));
+    if (ahead === -1) {
+      blockedCalls.push({
+        eventId: call.eventId, at: call.at, tool: call.tool, phase: state.phase, stepKey: stepKey(),
+        code: "NOT_IN_FLOW",
+        message: current
+          ? `"${call.tool}" is not listed for "${current.step.phaseName}" or any later step.`
+          : `"${call.tool}" was called after the flow had finished.`,
+      });
+      continue;
+    }
+    // Moving on completes the current step only if its work was done
+    if (current && used[position].size > 0) completed[position] = true;
+    position = ahead;
+    used[position].add(call.tool);
+  }
+
+  const simulated: SimulatedStep[] = instances.map((instance, i) => {
+    const toolsUsed = [...used[i]];
+    let status: SimulatedStepStatus;
+    if (i < position) status = completed[i] ? "completed" : "skipped";
+    else if (i === position && toolsUsed.length > 0) status = "in_progress";
+    else status = "not_reached";
+    return {
+      key: instance.key,
+      stepId: instance.step.id,
+      phaseName: instance.entity ? `${instance.step.phaseName} — ${instance.entity.name}` : instance.step.phaseName,
+      status,
+      toolsUsed,
+      unusedTools: instance.step.requiredTools.filter((t) => !GLOBAL.has(t) && !used[i].has(t)),
+    };
+  });
+
+  for (const instance of instances) {
+    const gates = [...new Set(instance.step.requiredTools.flatMap((t) => GATE_TOOLS[t] ?? []))];
+    if (gates.length === 0) continue;
+    const summary = gatesFor(finalGates, gates);
+    const blockers = blockerCount(summary);
+    gateFirings.push({
+      eventId: null, stepKey: instance.key, trigger: "flow_step", gates: summary, blocked: blockers > 0, endOfSession: true,
+      message: blockers > 0
+        ? `"${instance.step.phaseName}" gates have ${blockers} blocker(s) at the end of the session.`
+        : `"${instance.step.phaseName}" gates pass at the end of the session.`,
+    });
+  }
+
+  return {
+    sessionId,
+    source,
+    replayedCalls: calls.length,
+    blockedCalls,
+    steps: simulated,
+    neverCompleted: simulated.filter((s) => s.status === "skipped" || s.status === "not_reached").map((s) => s.key),
+    gateFirings,
+    finalGates,
+  };
+}
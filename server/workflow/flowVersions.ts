@@ -0,0 +1,239 @@
+import { z } from "zod";
+import type { IStorage } from "../storage";
+import type {
+  FlowStepChanges,
+  InspectionFlow,
+  InspectionFlowVersion,
+  InspectionSession,
+  InspectionStep,
+} from "@shared/schema";
+import { FLOW_FACTS, inspectionStepsSchema } from "./flowEngine";
+
+// ── Inspection flow versions ──
+//
+// Editing a flow changes its draft only. Publishing snapshots the draft as
+// the next immutable version, and a session pins the version that was current
+// when its voice session started, so edits made mid-inspection never change
+// the steps an adjuster is already following. Bundles move published versions
+// between environments as reviewable JSON files.
+
+export const FLOW_BUNDLE_FORMAT = "2.0";
+
+/** Serializes with sorted keys; jsonb does not preserve key order. */
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function diffFlowSteps(before: InspectionStep[], after: InspectionStep[]): FlowStepChanges {
+  const beforeById = new Map(before.map((s) => [s.id, s]));
+  const afterIds = new Set(after.map((s) => s.id));
+  const keptAfter = after.filter((s) => beforeById.has(s.id)).map((s) => s.id);
+  const keptBefore = before.filter((s) => afterIds.has(s.id)).map((s) => s.id);
+
+  return {
+    added: after.filter((s) => !beforeById.has(s.id)).map((s) => s.id),
+    removed: before.filter((s) => !afterIds.has(s.id)).map((s) => s.id),
+    modified: after
+      .filter((s) => beforeById.has(s.id) && canonical(beforeById.get(s.id)) !== canonical(s))
+      .map((s) => s.id),
+    reordered: keptAfter.some((id, i) => keptBefore[i] !== id),
+  };
+}
+
+export function hasStepChanges(changes: FlowStepChanges): boolean {
+  return changes.added.length > 0 || changes.removed.length > 0 || changes.modified.length > 0 || changes.reordered;
+}
+
+type FlowContent = Pick<InspectionFlow, "name" | "description" | "steps">;
+
+/** Whether the draft differs from the latest published version (always true before the first). */
+export function hasDraftChanges(flow: FlowContent, latest: InspectionFlowVersion | undefined): boolean {
+  if (!latest) return true;
+  return (
+    flow.name !== latest.name ||
+    (flow.description ?? null) !== (latest.description ?? null) ||
+    hasStepChanges(diffFlowSteps(latest.steps, (flow.steps as InspectionStep[]) || []))
+  );
+}
+
+/**
+ * Publishes the flow's draft as its next version. Returns null when nothing
+ * changed since the latest version, so repeated publishes do not pile up
+ * identical versions.
+ */
+export async function publishFlowVersion(
+  storage: IStorage,
+  flow: InspectionFlow,
+  options: { changelog: string; publishedBy: string | null }
+): Promise<InspectionFlowVersion | null> {
+  const latest = await storage.getLatestInspectionFlowVersion(flow.id);
+  if (!hasDraftChanges(flow, latest)) return null;
+
+  const steps = (flow.steps as InspectionStep[]) || [];
+  return storage.createInspectionFlowVersion({
+    flowId: flow.id,
+    name: flow.name,
+    description: flow.description,
+    steps,
+    changelog: options.changelog,
+    changes: latest ? diffFlowSteps(latest.steps, steps) : null,
+    publishedBy: options.publishedBy,
+  });
+}
+
+/**
+ * The version a session follows: the one it is pinned to when that belongs to
+ * this flow, otherwise the latest published version. A flow that has never
+ * been published is published as-is so the session still has something
+ * immutable to pin. The caller records the pin on the session.
+ */
+export async function sessionFlowVersion(
+  storage: IStorage,
+  flow: InspectionFlow,
+  session: Pick<InspectionSession, "activeFlowVersionId"> | null | undefined
+): Promise<InspectionFlowVersion> {
+  if (session?.activeFlowVersionId) {
+    const pinned = await storage.getInspectionFlowVersion(session.activeFlowVersionId);
+    if (pinned?.flowId === flow.id) return pinned;
+  }
+  const latest = await storage.getLatestInspectionFlowVersion(flow.id);
+  if (latest) return latest;
+  return (await publishFlowVersion(storage, flow, { changelog: "Initial version", publishedBy: flow.userId }))!;
+}
+
+// ── Bundles ──
+
+const bundledFlowSchema = z.object({
+  name: z.string().min(1),
+  perilType: z.string().min(1),
+  description: z.string().nullish(),
+  isDefault: z.boolean().optional(),
+  changelog: z.string().optional(),
+  steps: inspectionStepsSchema,
+});
+
+/**
+ * Accepts both this format and the original 1.0 export; extra fields such as
+ * ids, stepCount and the documentation in _meta are ignored.
+ */
+export const flowBundleSchema = z.object({
+  _meta: z.object({ version: z.string().optional() }).passthrough().optional(),
+  flows: z.array(bundledFlowSchema).min(1, "Bundle contains no flows"),
+});
+
+export type FlowBundle = z.infer<typeof flowBundleSchema>;
+
+/**
+ * Exports each flow at its latest published version. A flow that has never
+ * been published is exported from its draft and marked unpublished; exporting
+ * never publishes.
+ */
+export function buildFlowBundle(
+  entries: Array<{ flow: InspectionFlow; version: InspectionFlowVersion | undefined }>,
+  availableTools: Record<string, string> = {}
+) {
+  return {
+    _meta: {
+      exportDate: new Date().toISOString(),
+      version: FLOW_BUNDLE_FORMAT,
+      description: "Inspection flow definitions. Each flow is exported at its latest published version, or as its draft when it has none.",
+      schema: {
+        InspectionFlow: {
+          name: "string — Display name of the flow",
+          perilType: "string — Peril category: Hail | Wind | Water | Fire | General",
+          description: "string — Human-readable description",
+          isDefault: "boolean — Default flow for its peril type",
+          version: "number — Published version exported (informational; import publishes a new version)",
+          changelog: "string — Changelog of the exported version",
+          unpublished: "boolean — Set instead of version/changelog when the draft of a never-published flow was exported",
+          steps: "InspectionStep[] — Ordered array of inspection phases",
+        },
+        InspectionStep: {
+          id: "string — Unique step identifier; progress is tracked by it",
+          phaseName: "string — Display name of the phase",
+          agentPrompt: "string — Instructions given to the voice agent for this phase",
+          requiredTools: "string[] — Tool function names the agent can call during this phase",
+          completionCriteria: "string — Condition to advance to the next phase",
+          condition: `StepCondition? — { all | any: StepCondition[] } | { not: StepCondition } | { fact, op, value } with fact one of ${FLOW_FACTS.join(", ")}`,
+          loop: "StepLoop? — { over: structures | rooms, types?: string[] } to repeat the step per entity",
+        },
+      },
+      availableTools,
+    },
+    flows: entries.map(({ flow, version }) => {
+      const steps = version ? version.steps : ((flow.steps as InspectionStep[]) || []);
+      return {
+        name: version ? version.name : flow.name,
+        perilType: flow.perilType,
+        description: version ? version.description : flow.description,
+        isDefault: flow.isDefault ?? false,
+        ...(version ? { version: version.version, changelog: version.changelog } : { unpublished: true }),
+        stepCount: steps.length,
+        steps,
+      };
+    }),
+  };
+}
+
+export interface FlowImportResult {
+  flowId: number;
+  name: string;
+  perilType: string;
+  status: "created" | "updated" | "unchanged";
+  version: number | null;
+}
+
+/**
+ * Imports a validated bundle as the user's own flows. A flow matches an
+ * existing one of the user's by peril and name; its draft is replaced and
+ * published when it differs. System defaults are never overwritten, so
+ * importing a bundle exported from one of them creates a user copy.
+ */
+export async function importFlowBundle(
+  storage: IStorage,
+  bundle: FlowBundle,
+  userId: string
+): Promise<FlowImportResult[]> {
+  const owned = (await storage.getInspectionFlows(userId)).filter((f) => f.userId === userId && !f.isSystemDefault);
+  const results: FlowImportResult[] = [];
+
+  for (const entry of bundle.flows) {
+    const changelog = entry.changelog ? `Imported: ${entry.changelog}` : "Imported from bundle";
+    const content = {
+      description: entry.description ?? null,
+      steps: entry.steps as InspectionStep[],
+      ...(entry.isDefault !== undefined && { isDefault: entry.isDefault }),
+    };
+    const existing = owned.find((f) => f.perilType === entry.perilType && f.name === entry.name);
+
+    if (existing) {
+      const flow = (await storage.updateInspectionFlow(existing.id, content)) ?? existing;
+      const version = await publishFlowVersion(storage, flow, { changelog, publishedBy: userId });
+      const current = version ?? (await storage.getLatestInspectionFlowVersion(flow.id));
+      results.push({
+        flowId: flow.id, name: flow.name, perilType: flow.perilType,
+        status: version ? "updated" : "unchanged", version: current?.version ?? null,
+      });
+      continue;
+    }
+
+    const flow = await storage.createInspectionFlow({
+      name: entry.name,
+      perilType: entry.perilType,
+      ...content,
+      userId,
+      isSystemDefault: false,
+    });
+    owned.push(flow);
+    const version = await publishFlowVersion(storage, flow, { changelog, publishedBy: userId });
+    results.push({ flowId: flow.id, name: flow.name, perilType: flow.perilType, status: "created", version: version?.version ?? null });
+  }
+  return results;
+}
@@ -1,9 +1,11 @@
 import { PHASE_ALLOWED_TOOLS, WORKFLOW_PHASES, WORKFLOW_STEPS, type WorkflowPhase } from "@shared/contracts/workflow";
 import { toolFailure, type ToolResult } from "@shared/contracts/tools";
-import { storage } from "../storage";
+import { storage, type IStorage } from "../storage";
 import { firstStepForPhase } from "./steps/default";
-import type { GateResultSummary, WorkflowState } from "./types";
+import type { GateResult, GateResultSummary, WorkflowState } from "./types";
 import { runAllWorkflowGates } from "./validators";
+import { expandFlowSteps, gatherFlowFacts, nextFlowStep, type FlowStepInstance } from "./flowEngine";
+import type { InspectionStep } from "@shared/schema";
 
 const phaseOrder = [...WORKFLOW_PHASES];
 
@@ -16,15 +18,15 @@ export function defaultWorkflowState(params: { claimId: string; sessionId: strin
   };
 }
 
-export async function getWorkflowState(sessionId: number): Promise<WorkflowState | null> {
-  const session = await storage.getInspectionSession(sessionId);
+export async function getWorkflowState(sessionId: number, store: IStorage = storage): Promise<WorkflowState | null> {
+  const session = await store.getInspectionSession(sessionId);
   return (session?.workflowStateJson as WorkflowState) || null;
 }
 
-export async function setWorkflowState(sessionId: number, patch: Partial<WorkflowState>): Promise<WorkflowState> {
-  const existing = (await getWorkflowState(sessionId)) || defaultWorkflowState({ claimId: "", sessionId: String(sessionId), peril: "General" });
+export async function setWorkflowState(sessionId: number, patch: Partial<WorkflowState>, store: IStorage = storage): Promise<WorkflowState> {
+  const existing = (await getWorkflowState(sessionId, store)) || defaultWorkflowState({ claimId: "", sessionId: String(sessionId), peril: "General" });
   const next = { ...existing, ...patch, context: { ...existing.context, ...(patch.context || {}) } };
-  await storage.updateSession(sessionId, { workflowStateJson: next } as any);
+  await store.updateSession(sessionId, { workflowStateJson: next } as any);
   return next;
 }
 
@@ -67,6 +69,15 @@ export async function validateToolForWorkflow(
 ): Promise<ToolResult<never> | null> {
   const state = await getWorkflowState(sessionId);
   if (!state) return null; // no workflow state yet — allow
+  return checkToolForWorkflow(state, toolName, args);
+}
+
+/** validateToolForWorkflow against a given state, for replays that must not touch the session. */
+export function checkToolForWorkflow(
+  state: WorkflowState,
+  toolName: string,
+  args?: Record<string, unknown>,
+): ToolResult<never> | null {
   const allowed = getAllowedTools(state);
   if (!allowed.includes(toolName)) {
     return toolFailure(toolName, {
@@ -100,17 +111,19 @@ function toSummary(gate: { ok: boolean; summary: { blockers: number; warnings: n
   return { ok: gate.ok, blockers: gate.summary.blockers, warnings: gate.summary.warnings, infos: gate.summary.infos };
 }
 
+export function summarizeGates(all: Record<GateResult["gate"], GateResult>): NonNullable<WorkflowState["lastValidatorSummary"]> {
+  return {
+    sketch: toSummary(all.sketch),
+    photoDamage: toSummary(all.photoDamage),
+    scope: toSummary(all.scope),
+    export: toSummary(all.export),
+    at: new Date().toISOString(),
+  };
+}
+
 export async function runGates(state: WorkflowState) {
   const all = await runAllWorkflowGates(Number(state.sessionId), state.peril);
-  return setWorkflowState(Number(state.sessionId), {
-    lastValidatorSummary: {
-      sketch: toSummary(all.sketch),
-      photoDamage: toSummary(all.photoDamage),
-      scope: toSummary(all.scope),
-      export: toSummary(all.export),
-      at: new Date().toISOString(),
-    },
-  });
+  return setWorkflowState(Number(state.sessionId), { lastValidatorSummary: summarizeGates(all) });
 }
 
 export function canAdvance(state: WorkflowState): boolean {
@@ -125,3 +138,88 @@ export function advance(state: WorkflowState): WorkflowState {
   const nextPhase = phaseOrder[Math.min(idx + 1, phaseOrder.length - 1)] as WorkflowPhase;
   return { ...state, phase: nextPhase, stepId: WORKFLOW_STEPS[nextPhase]?.[0] ?? `${nextPhase}.default` };
 }
+
+export type FlowPosition = {
+  flowId: number;
+  flowName: string;
+  current: FlowStepInstance | null;
+  steps: Array<{
+    key: string;
+    stepId: string;
+    phaseName: string;
+    entity?: FlowStepInstance["entity"];
+    status: "complete" | "current" | "pending";
+  }>;
+};
+
+async function resolveFlowPosition(
+  sessionId: number,
+  store: IStorage,
+  completedOverride?: string[]
+): Promise<{ position: FlowPosition; completedStepKeys: string[] } | null> {
+  const session = await store.getInspectionSession(sessionId);
+  if (!session?.activeFlowId) return null;
+  const flow = await store.getInspectionFlow(session.activeFlowId);
+  if (!flow) return null;
+
+  const state = session.workflowStateJson as WorkflowState | null;
+  // Progress recorded against a different flow does not carry over
+  const completedStepKeys = completedOverride ?? (state?.flow?.flowId === flow.id ? state.flow.completedStepKeys : []);
+  // Follow the version pinned when the session started rather than the live draft
+  const pinned = session.activeFlowVersionId ? await store.getInspectionFlowVersion(session.activeFlowVersionId) : undefined;
+  const steps = pinned?.flowId === flow.id ? pinned.steps : (flow.steps as InspectionStep[]) || [];
+  const instances = expandFlowSteps(steps, await gatherFlowFacts(store, sessionId));
+  const current = nextFlowStep(instances, completedStepKeys);
+  const completed = new Set(completedStepKeys);
+
+  const position: FlowPosition = {
+    flowId: flow.id,
+    flowName: flow.name,
+    current,
+    steps: instances.map((i) => ({
+      key: i.key,
+      stepId: i.step.id,
+      phaseName: i.entity ? `${i.step.phaseName} — ${i.entity.name}` : i.step.phaseName,
+      entity: i.entity,
+      status: completed.has(i.key) ? "complete" : i === current ? "current" : "pending",
+    })),
+  };
+  return { position, completedStepKeys };
+}
+
+/**
+ * Where the session stands in its active inspection flow, re-evaluating step
+ * conditions and loops against the current session facts. Null when the
+ * session has no active flow.
+ */
+export async function getFlowPosition(sessionId: number, store: IStorage = storage): Promise<FlowPosition | null> {
+  return (await resolveFlowPosition(sessionId, store))?.position ?? null;
+}
+
+/**
+ * Marks the current flow step complete and moves to the next applicable one.
+ * The session's step index and phase number follow the flow so existing
+ * progress displays stay in step.
+ */
+export async function completeFlowStep(
+  sessionId: number,
+  store: IStorage = storage
+): Promise<{ completed: FlowStepInstance | null; position: FlowPosition } | null> {
+  const resolved = await resolveFlowPosition(sessionId, store);
+  if (!resolved) return null;
+  const completed = resolved.position.current;
+  if (!completed) return { completed: null, position: resolved.position };
+
+  const completedStepKeys = [...resolved.completedStepKeys, completed.key];
+  const { position } = (await resolveFlowPosition(sessionId, store, completedStepKeys))!;
+  await setWorkflowState(sessionId, { flow: { flowId: position.flowId, stepKey: position.current?.key ?? null, completedStepKeys } }, store);
+  if (position.current) {
+    await store.updateSession(sessionId, { currentStepIndex: position.current.index, currentPhase: position.current.index + 1 });
+  }
+  await store.addSessionEvent({
+    sessionId,
+    type: "workflow.step_completed",
+    payloadJson: { stepKey: completed.key, nextStepKey: position.current?.key ?? null },
+  });
+  return { completed, position };
+}
@@ -0,0 +1,1601 @@
+import { z } from "zod";
+import type { IStorage } from "../storage";
+import type { DamageObservation, InspectionRoom, InspectionSession, RoomOpening, Structure } from "@shared/schema";
+import type { ToolErrorEnvelope } from "@shared/contracts/errors";
+import {
+  SERVER_TOOLS,
+  isServerTool,
+  toolFailure,
+  toolSuccess,
+  type ServerToolName,
+  type ToolExecutionRequest,
+  type ToolResult,
+} from "@shared/contracts/tools";
+import { PHASE_ALLOWED_TOOLS, WORKFLOW_PHASES } from "@shared/contracts/workflow";
+import {
+  defaultOpeningSize,
+  normalizeOpeningDimensions,
+  normalizeWallDirection,
+  parseFeetValue,
+  wallDirectionToIndex,
+} from "@shared/openingToolNormalization";
+import { emit } from "../events";
+import { logger } from "../logger";
+import { DEFAULT_STRUCTURE_NAME, createInspectionRoom, updateInspectionRoomDimensions } from "../inspectionRooms";
+import { recordDamage, type AutoScopeSummary } from "../inspectionDamages";
+import {
+  RELATED_ITEM_CATEGORIES,
+  SMART_MACRO_TYPES,
+  applySmartMacro,
+  createInspectionLineItem,
+  relatedItems,
+  updateInspectionLineItem,
+  type LineItemUpdateInput,
+} from "../inspectionLineItems";
+import { assessCompleteness } from "../inspectionCompleteness";
+import { deleteInspectionPhoto } from "../inspectionPhotos";
+import { recordTestSquare } from "../testSquares";
+import { validateSessionPhase } from "../phaseValidation";
+import { applyPerilTemplate } from "../perilTemplates";
+import { handleWaterDamageProtocol } from "../waterProtocol";
+import { assembleScope } from "../scopeAssemblyService";
+import { validateScopeCompleteness } from "../scopeValidation";
+import {
+  deleteDamageOps,
+  deleteRoomOps,
+  deleteStructureOps,
+  previousValues,
+  recordCommand,
+  redoCommands,
+  undoCommands,
+  type CommandEntry,
+  type CommandOp,
+} from "../commandLog";
+import { assertToolAllowed, assertToolContext, completeFlowStep, getAllowedTools, onToolResult, setWorkflowState } from "./orchestrator";
+import type { FlowStepInstance } from "./flowEngine";
+import type { WorkflowState } from "./types";
+
+// ── Voice tool executor ──
+//
+// Runs realtime voice tools on the server: each handler owns its argument
+// schema and persistence, and the executor applies the session's workflow
+// rules before any handler runs. Every call resolves to a ToolResult envelope,
+// so the client only relays the result back to the voice model. Only
+// trigger_photo_capture stays on the client, since it opens the camera. Handlers
+// log the rows they change so the call can be undone (see commandLog.ts).
+
+export interface ToolContext {
+  storage: IStorage;
+  sessionId: number;
+  userId?: string;
+  session: InspectionSession;
+  /** Workflow state; handlers that change it replace it so the result meta is current */
+  state: WorkflowState | null;
+  /** Row changes to record as one undoable command */
+  ops: CommandOp[];
+}
+
+interface ToolHandler {
+  schema: z.ZodTypeAny;
+  run(ctx: ToolContext, args: any): Promise<unknown>;
+}
+
+/** A failure the voice model can act on, returned as the tool's error envelope. */
+export class ToolError extends Error {
+  constructor(readonly envelope: ToolErrorEnvelope) {
+    super(envelope.message);
+  }
+}
+
+const invalid = (code: string, message: string, details?: unknown, hint?: string) =>
+  new ToolError({ type: "VALIDATION_ERROR", code, message, details, hint });
+
+function defineTool<S extends z.ZodTypeAny>(schema: S, run: (ctx: ToolContext, args: z.infer<S>) => Promise<unknown>): ToolHandler {
+  return { schema, run };
+}
+
+/** Tools some workflow phase allows; anything else (e.g. complete_room) runs in every phase. */
+const PHASE_GATED_TOOLS = new Set(Object.values(PHASE_ALLOWED_TOOLS).flat());
+
+const OPENING_TYPES = ["window", "standard_door", "overhead_door", "missing_wall", "pass_through", "archway", "cased_opening", "door", "sliding_door", "french_door"] as const;
+const ANNOTATION_TYPES = ["hail_count", "wind_damage", "damage", "pitch", "storm_direction", "facet_label", "material_note", "roof_line", "measurement", "general_note", "custom"] as const;
+const DAMAGE_TYPES = ["hail_impact", "wind_damage", "water_stain", "water_intrusion", "crack", "dent", "missing", "rot", "mold", "mechanical", "wear_tear", "other"] as const;
+const SEVERITIES = ["minor", "moderate", "severe"] as const;
+const DEPRECIATION_TYPES = ["Recoverable", "Non-Recoverable", "Paid When Incurred"] as const;
+
+// Voice arguments arrive as whatever the model produced; dimensions may be "6'8\"" and ids may be strings
+const feet = z.union([z.number(), z.string()]).optional();
+const id = z.coerce.number().int().positive();
+
+// ── Room and opening resolution ──
+
+function roomRef(room: InspectionRoom) {
+  return { id: room.id, name: room.name, structure: room.structure || DEFAULT_STRUCTURE_NAME };
+}
+
+function currentRoomId(ctx: ToolContext): number | null {
+  return Number(ctx.state?.context.roomId) || ctx.session.currentRoomId || null;
+}
+
+function findRoomByName(rooms: InspectionRoom[], name: string | undefined, partial = false): InspectionRoom | undefined {
+  const wanted = (name || "").trim();
+  if (!wanted) return undefined;
+  const lower = wanted.toLowerCase();
+  return rooms.find((r) => r.name === wanted)
+    ?? rooms.find((r) => r.name.toLowerCase() === lower)
+    ?? (partial ? rooms.find((r) => r.name.toLowerCase().includes(lower)) : undefined);
+}
+
+/**
+ * Named room, then the explicit roomId. Only when neither is given does it
+ * fall back to the room the adjuster is working in, so a wrong name or id
+ * never edits another room.
+ */
+async function resolveRoom(
+  ctx: ToolContext,
+  args: { roomName?: string; roomId?: number },
+  tool: string,
+  options: { partial?: boolean } = {}
+): Promise<InspectionRoom> {
+  const rooms = await ctx.storage.getRooms(ctx.sessionId);
+  const fallbackId = currentRoomId(ctx);
+  const named = Boolean(args.roomName?.trim()) || args.roomId != null;
+  const room = named
+    ? findRoomByName(rooms, args.roomName, options.partial) ?? (args.roomId != null ? rooms.find((r) => r.id === args.roomId) : undefined)
+    : (fallbackId ? rooms.find((r) => r.id === fallbackId) : undefined);
+  if (room) return room;
+
+  const available = rooms.map((r) => r.name);
+  throw invalid(
+    "ROOM_NOT_FOUND",
+    `Room "${args.roomName ?? args.roomId ?? ""}" not found in this inspection.`,
+    { roomName: args.roomName, availableRooms: available, currentRoomId: fallbackId },
+    `Available rooms: ${available.join(", ") || "none yet"}. Call create_room to create it, or use one of the available rooms, then retry ${tool}.`
+  );
+}
+
+const openingSelector = z.object({
+  openingId: id.optional(),
+  roomName: z.string().optional(),
+  openingType: z.string().optional(),
+  wallDirection: z.string().optional(),
+  index: z.number().int().nonnegative().optional(),
+});
+
+/** An opening by id, or the index-th opening in the room matching the type and wall. */
+async function resolveOpening(
+  ctx: ToolContext,
+  args: z.infer<typeof openingSelector>,
+  tool: string
+): Promise<{ room: InspectionRoom; opening: RoomOpening }> {
+  if (args.openingId) {
+    const opening = await ctx.storage.getOpening(args.openingId);
+    const room = opening ? await ctx.storage.getRoom(opening.roomId) : undefined;
+    if (!opening || !room || room.sessionId !== ctx.sessionId) {
+      throw invalid("OPENING_NOT_FOUND", `Opening ${args.openingId} not found in this inspection.`, { openingId: args.openingId });
+    }
+    return { room, opening };
+  }
+
+  const room = await resolveRoom(ctx, args, tool);
+  const openings = await ctx.storage.getRoomOpenings(room.id);
+  const type = (args.openingType || "").toLowerCase();
+  const wall = normalizeWallDirection(args.wallDirection);
+  const matches = openings.filter((o) =>
+    (!type || String(o.openingType || "").toLowerCase() === type) &&
+    (!wall || normalizeWallDirection(o.wallDirection) === wall)
+  );
+  const opening = matches[args.index ?? 0];
+  if (!opening) {
+    throw invalid(
+      "OPENING_NOT_FOUND",
+      `No opening in "${room.name}" matched the ${tool} selector.`,
+      { roomName: room.name, selector: { openingType: args.openingType, wallDirection: args.wallDirection, index: args.index }, openings },
+      "Provide openingId, or refine the selector with openingType/wallDirection/index."
+    );
+  }
+  return { room, opening };
+}
+
+function deductionSF(openings: RoomOpening[]): number {
+  return openings.reduce((sum, o) => sum + (o.widthFt || o.width || 0) * (o.heightFt || o.height || 0) * (o.quantity || 1), 0);
+}
+
+function dimensionsFrom(args: { length?: number; width?: number; height?: number }) {
+  return args.length && args.width ? { length: args.length, width: args.width, height: args.height } : undefined;
+}
+
+const structureSelector = z.object({ structureName: z.string().optional(), structureId: id.optional() });
+
+/** A structure by id, or by exact then partial name. */
+async function resolveStructure(ctx: ToolContext, args: z.infer<typeof structureSelector>): Promise<Structure> {
+  const structures = await ctx.storage.getStructures(ctx.sessionId);
+  const wanted = (args.structureName || "").trim().toLowerCase();
+  const structure = args.structureId
+    ? structures.find((s) => s.id === args.structureId)
+    : wanted
+      ? structures.find((s) => s.name.toLowerCase() === wanted) ?? structures.find((s) => s.name.toLowerCase().includes(wanted))
+      : undefined;
+  if (!structure) {
+    throw invalid(
+      "STRUCTURE_NOT_FOUND",
+      "Could not find structure. Provide structureId or structureName.",
+      { structureId: args.structureId, structureName: args.structureName, availableStructures: structures.map((s) => s.name) }
+    );
+  }
+  return structure;
+}
+
+/** A row addressed by id; rows of other inspections are reported as not found. */
+function ownedRow<T extends { sessionId: number | null }>(ctx: ToolContext, row: T | undefined, code: string, label: string, rowId: number): T {
+  if (!row || row.sessionId !== ctx.sessionId) {
+    throw invalid(code, `${label} ${rowId} not found in this inspection.`, { id: rowId });
+  }
+  return row;
+}
+
+async function sessionRoom(ctx: ToolContext, roomId: number): Promise<InspectionRoom> {
+  return ownedRow(ctx, await ctx.storage.getRoom(roomId), "ROOM_NOT_FOUND", "Room", roomId);
+}
+
+/** The named room, or the room the adjuster is working in when no name is given. */
+async function damageRoom(ctx: ToolContext, roomName: string | undefined, options: { partial?: boolean } = {}): Promise<InspectionRoom> {
+  const rooms = await ctx.storage.getRooms(ctx.sessionId);
+  if (roomName) {
+    const room = findRoomByName(rooms, roomName, options.partial);
+    if (!room) {
+      throw invalid("ROOM_NOT_FOUND", `Room "${roomName}" not found. Create it first with create_room.`, { roomName, availableRooms: rooms.map((r) => r.name) });
+    }
+    return room;
+  }
+  const fallbackId = currentRoomId(ctx);
+  const room = fallbackId ? rooms.find((r) => r.id === fallbackId) : undefined;
+  if (!room) {
+    throw new ToolError({ type: "CONTEXT_ERROR", code: "NO_ROOM_SELECTED", message: "No room selected. Tell me which room the damage is in, or create a room first." });
+  }
+  return room;
+}
+
+const damageSelector = z.object({ damageId: id.optional(), roomName: z.string().optional(), damageType: z.string().max(30).optional() });
+
+/** A damage by id, or the only damage (of the given type) in the named room. */
+async function resolveDamage(ctx: ToolContext, args: z.infer<typeof damageSelector>): Promise<DamageObservation> {
+  if (args.damageId) return ownedRow(ctx, await ctx.storage.getDamage(args.damageId), "DAMAGE_NOT_FOUND", "Damage", args.damageId);
+
+  const room = findRoomByName(await ctx.storage.getRooms(ctx.sessionId), args.roomName, true);
+  if (room) {
+    const damages = (await ctx.storage.getDamages(room.id)).filter((d) => !args.damageType || d.damageType === args.damageType);
+    if (damages.length === 1) return damages[0];
+    if (damages.length > 1) {
+      throw invalid(
+        "AMBIGUOUS_DAMAGE",
+        `Multiple damages in ${room.name}. Specify damageId.`,
+        { damages: damages.map((d) => ({ id: d.id, description: d.description, damageType: d.damageType })) }
+      );
+    }
+  }
+  throw invalid("DAMAGE_NOT_FOUND", "Could not resolve damage. Provide damageId or roomName.", { roomName: args.roomName, damageType: args.damageType });
+}
+
+function requireConfirmation(confirm: boolean | undefined) {
+  if (!confirm) throw invalid("CONFIRMATION_REQUIRED", "Deletion requires confirm=true", undefined, "Confirm with the adjuster, then retry with confirm=true.");
+}
+
+/** What the voice model reads back after a damage is scoped; items drive the client's notification. */
+function autoScopeSummary(autoScope: AutoScopeSummary | null) {
+  if (!autoScope) return undefined;
+  return {
+    itemsCreated: autoScope.itemsCreated,
+    items: autoScope.items,
+    summary: autoScope.items.map((i) =>
+      `${i.code}: ${i.description} — ${i.quantity} ${i.unit} @ $${i.unitPrice.toFixed(2)} = $${i.totalPrice.toFixed(2)} [${i.source}]`
+    ).join("\n") || "No items matched",
+    warnings: autoScope.warnings,
+    dimensionsAvailable: autoScope.dimensionsAvailable,
+    dimensionWarning: autoScope.dimensionWarning,
+  };
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1] ? previous[j - 1] : 1 + Math.min(previous[j], current[j - 1], previous[j - 1]);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function requireWorkflowState(ctx: ToolContext): WorkflowState {
+  if (!ctx.state) {
+    throw new ToolError({ type: "CONTEXT_ERROR", code: "WORKFLOW_STATE_MISSING", message: "Workflow state missing" });
+  }
+  return ctx.state;
+}
+
+// ── Handlers ──
+
+const TOOL_HANDLERS: Record<ServerToolName, ToolHandler> = {
+  get_workflow_state: defineTool(z.object({}).passthrough(), async (ctx) => {
+    const state = requireWorkflowState(ctx);
+    return { state, allowedTools: getAllowedTools(state), gateSummaries: state.lastValidatorSummary || null };
+  }),
+
+  set_phase: defineTool(
+    z.object({ phase: z.enum(WORKFLOW_PHASES), stepId: z.string().max(60).optional() }),
+    async (ctx, args) => {
+      const state = requireWorkflowState(ctx);
+      ctx.state = await setWorkflowState(ctx.sessionId, { phase: args.phase, stepId: args.stepId || `${args.phase}.manual` }, ctx.storage);
+      await ctx.storage.addSessionEvent({ sessionId: ctx.sessionId, type: "workflow.phase_changed", payloadJson: { from: state.phase, to: args.phase } } as any);
+      return ctx.state;
+    }
+  ),
+
+  set_context: defineTool(
+    z.object({
+      structureId: z.coerce.string().optional(),
+      roomId: z.coerce.string().optional(),
+      elevationId: z.coerce.string().optional(),
+      currentView: z.enum(["interior", "elevation", "roof"]).optional(),
+    }),
+    async (ctx, args) => {
+      requireWorkflowState(ctx);
+      ctx.state = await setWorkflowState(ctx.sessionId, { context: args }, ctx.storage);
+      await ctx.storage.addSessionEvent({ sessionId: ctx.sessionId, type: "workflow.context_changed", payloadJson: { context: args } } as any);
+      return ctx.state;
+    }
+  ),
+
+  complete_flow_step: defineTool(z.object({}).passthrough(), async (ctx) => {
+    const result = await completeFlowStep(ctx.sessionId, ctx.storage);
+    if (!result) {
+      throw new ToolError({ type: "CONTEXT_ERROR", code: "NO_ACTIVE_FLOW", message: "This inspection is not following an inspection flow." });
+    }
+    const next = result.position.current;
+    return {
+      completed: result.completed && flowStepRef(result.completed),
+      next: next && { ...flowStepRef(next), agentPrompt: next.step.agentPrompt, requiredTools: next.step.requiredTools, completionCriteria: next.step.completionCriteria },
+      remaining: result.position.steps.filter((s) => s.status !== "complete").length,
+      message: next
+        ? `Next step: ${flowStepRef(next).phaseName}.`
+        : "All steps in the inspection flow are complete.",
+    };
+  }),
+
+  create_structure: defineTool(
+    z.object({ name: z.string().trim().min(1).max(100), structureType: z.string().max(30).default("dwelling") }),
+    async (ctx, args) => {
+      const existing = await ctx.storage.getStructureByName(ctx.sessionId, args.name);
+      const structure = existing
+        ?? await ctx.storage.createStructure({ sessionId: ctx.sessionId, name: args.name, structureType: args.structureType });
+      if (!existing) ctx.ops.push({ op: "create", entity: "structure", id: structure.id, values: structure });
+      return {
+        structureId: structure.id,
+        name: structure.name,
+        created: !existing,
+        message: existing ? `Structure "${structure.name}" already exists.` : `Structure "${structure.name}" created.`,
+      };
+    }
+  ),
+
+  create_room: defineTool(
+    z.object({
+      name: z.string().trim().min(1).max(100),
+      roomType: z.string().max(50).optional(),
+      structure: z.string().max(100).optional(),
+      viewType: z.enum(["interior", "roof_plan", "elevation", "exterior_other"]).default("interior"),
+      shapeType: z.enum(["rectangle", "gable", "hip", "l_shape", "custom"]).default("rectangle"),
+      length: z.number().positive().optional(),
+      width: z.number().positive().optional(),
+      height: z.number().positive().optional(),
+      floor: z.number().int().nonnegative().optional(),
+      facetLabel: z.string().max(10).optional(),
+      pitch: z.string().max(10).optional(),
+      roofPitch: z.string().max(10).optional(),
+      phase: z.number().int().positive().optional(),
+    }),
+    async (ctx, args) => {
+      const { room, created, context } = await createInspectionRoom(ctx.storage, ctx.sessionId, {
+        name: args.name,
+        roomType: args.roomType,
+        structure: args.structure,
+        viewType: args.viewType,
+        shapeType: args.shapeType,
+        dimensions: dimensionsFrom(args),
+        floor: args.floor,
+        facetLabel: args.facetLabel,
+        pitch: args.pitch || args.roofPitch,
+        phase: args.phase,
+      });
+      if (created) {
+        ctx.ops.push({ op: "create", entity: "room", id: room.id, values: room });
+        emit({ type: "inspection.roomCreated", sessionId: ctx.sessionId, claimId: ctx.session.claimId, userId: ctx.userId, meta: { roomId: room.id } });
+      }
+      const structure = room.structure || DEFAULT_STRUCTURE_NAME;
+      return {
+        roomId: room.id,
+        name: room.name,
+        structure,
+        viewType: room.viewType,
+        created,
+        room: roomRef(room),
+        _context: context,
+        message: created ? `Room "${room.name}" created in ${structure}.` : `Room "${room.name}" already exists in ${structure}.`,
+      };
+    }
+  ),
+
+  create_sub_area: defineTool(
+    z.object({
+      name: z.string().trim().min(1).max(100),
+      parentRoomName: z.string().min(1),
+      attachmentType: z.enum(["extension", "closet", "dormer", "bay_window", "alcove", "island", "bump_out", "other"]).optional(),
+      length: z.number().positive().optional(),
+      width: z.number().positive().optional(),
+      height: z.number().positive().optional(),
+    }),
+    async (ctx, args) => {
+      const parent = findRoomByName(await ctx.storage.getRooms(ctx.sessionId), args.parentRoomName);
+      if (!parent) {
+        throw invalid("ROOM_NOT_FOUND", `Parent room "${args.parentRoomName}" not found.`, { parentRoomName: args.parentRoomName }, "Create the parent room first with create_room.");
+      }
+      const { room, created } = await createInspectionRoom(ctx.storage, ctx.sessionId, {
+        name: args.name,
+        parentRoomId: parent.id,
+        attachmentType: args.attachmentType,
+        structure: parent.structure,
+        viewType: "interior",
+        dimensions: dimensionsFrom(args),
+      });
+      if (created) {
+        ctx.ops.push({ op: "create", entity: "room", id: room.id, values: room });
+        emit({ type: "inspection.roomCreated", sessionId: ctx.sessionId, claimId: ctx.session.claimId, userId: ctx.userId, meta: { roomId: room.id } });
+      }
+      return {
+        roomId: room.id,
+        name: room.name,
+        parentRoom: parent.name,
+        created,
+        message: `Sub-area "${room.name}" created under "${parent.name}".`,
+      };
+    }
+  ),
+
+  complete_room: defineTool(z.object({ roomName: z.string().min(1) }), async (ctx, args) => {
+    const room = findRoomByName(await ctx.storage.getRooms(ctx.sessionId), args.roomName);
+    if (!room) {
+      throw invalid("ROOM_NOT_FOUND", `Room "${args.roomName}" not found.`, { roomName: args.roomName });
+    }
+    const completed = await ctx.storage.completeRoom(room.id);
+    if (completed) {
+      const set = { status: completed.status, completedAt: completed.completedAt };
+      ctx.ops.push({ op: "update", entity: "room", id: room.id, set, previous: previousValues(room, set) });
+    }
+    emit({ type: "inspection.roomCompleted", sessionId: ctx.sessionId, userId: ctx.userId, meta: { roomId: room.id } });
+    return { roomId: room.id, roomName: room.name, message: `Room "${room.name}" marked complete.` };
+  }),
+
+  add_opening: defineTool(
+    z.object({
+      roomName: z.string().optional(),
+      roomId: id.optional(),
+      openingType: z.enum(OPENING_TYPES),
+      wallDirection: z.string().optional(),
+      wallIndex: z.number().int().nonnegative().optional(),
+      widthFt: feet,
+      heightFt: feet,
+      width: feet,
+      height: feet,
+      quantity: z.number().int().positive().default(1),
+      label: z.string().max(50).optional(),
+      opensInto: z.string().max(100).optional(),
+      notes: z.string().optional(),
+    }),
+    async (ctx, args) => {
+      const room = await resolveRoom(ctx, args, "add_opening", { partial: true });
+      const { widthFt, heightFt } = normalizeOpeningDimensions(args, defaultOpeningSize(args.openingType));
+      const wallDirection = normalizeWallDirection(args.wallDirection);
+      const opening = await ctx.storage.createOpening({
+        sessionId: ctx.sessionId,
+        roomId: room.id,
+        openingType: args.openingType,
+        wallIndex: args.wallIndex ?? wallDirectionToIndex(wallDirection) ?? null,
+        wallDirection,
+        widthFt,
+        heightFt,
+        width: widthFt,
+        height: heightFt,
+        quantity: args.quantity,
+        label: args.label || `${args.openingType}${wallDirection ? ` on ${wallDirection} wall` : ""}`,
+        opensInto: args.opensInto || null,
+        goesToFloor: args.openingType === "overhead_door",
+        goesToCeiling: false,
+        notes: args.notes || null,
+      });
+      ctx.ops.push({ op: "create", entity: "opening", id: opening.id, values: opening });
+      await ctx.storage.updateSessionRoom(ctx.sessionId, room.id);
+
+      const total = deductionSF(await ctx.storage.getRoomOpenings(room.id));
+      const typeLabel = args.openingType.replace(/_/g, " ");
+      const opensLabel = args.opensInto === "E" ? "exterior" : args.opensInto ? `into ${args.opensInto}` : "";
+      const qtyLabel = args.quantity > 1 ? ` ×${args.quantity}` : "";
+      return {
+        openingId: opening.id,
+        room: roomRef(room),
+        normalizedArgs: { widthFt, heightFt, wallDirection, quantity: args.quantity },
+        message: `Added ${typeLabel}${qtyLabel} (${widthFt}' × ${heightFt}')${opensLabel ? ` opening ${opensLabel}` : ""} to "${room.name}". Total wall deductions for this room: ${total.toFixed(0)} SF.`,
+      };
+    }
+  ),
+
+  update_opening: defineTool(
+    openingSelector.extend({
+      widthFt: feet,
+      heightFt: feet,
+      width: feet,
+      height: feet,
+      wallIndex: z.number().int().nonnegative().optional(),
+      positionOnWall: z.number().nonnegative().optional(),
+      quantity: z.number().int().positive().optional(),
+      label: z.string().max(50).optional(),
+      opensInto: z.string().max(100).optional(),
+      notes: z.string().optional(),
+    }),
+    async (ctx, args) => {
+      const { room, opening } = await resolveOpening(ctx, args, "update_opening");
+      const updates: Parameters<IStorage["updateOpening"]>[1] = {};
+      if (args.openingType) {
+        if (!(OPENING_TYPES as readonly string[]).includes(args.openingType)) {
+          throw invalid("INVALID_ARGS", `Unknown opening type "${args.openingType}".`, { openingType: args.openingType }, `Use one of: ${OPENING_TYPES.join(", ")}.`);
+        }
+        updates.openingType = args.openingType;
+      }
+      const wallDirection = normalizeWallDirection(args.wallDirection);
+      if (wallDirection) updates.wallDirection = wallDirection;
+      if (args.wallIndex !== undefined) updates.wallIndex = args.wallIndex;
+      if (args.positionOnWall !== undefined) {
+        // Values above 1 are feet from the corner rather than a fraction of the wall
+        if (args.positionOnWall > 1) {
+          const dims = (room.dimensions || {}) as { length?: number; width?: number };
+          const wallLengthFt = dims.width || dims.length || 10;
+          updates.positionOnWall = Math.round(Math.min(1, args.positionOnWall / wallLengthFt) * 100) / 100;
+          const distNote = `${args.positionOnWall} ft from corner`;
+          updates.notes = args.notes ? `${args.notes}; ${distNote}` : distNote;
+        } else {
+          updates.positionOnWall = args.positionOnWall;
+        }
+      }
+      if (args.quantity !== undefined) updates.quantity = args.quantity;
+      if (args.label !== undefined) updates.label = args.label;
+      if (args.opensInto !== undefined) updates.opensInto = args.opensInto;
+      if (args.notes !== undefined && !updates.notes) updates.notes = args.notes;
+      const widthFt = parseFeetValue(args.widthFt) ?? parseFeetValue(args.width);
+      const heightFt = parseFeetValue(args.heightFt) ?? parseFeetValue(args.height);
+      if (widthFt !== undefined) Object.assign(updates, { widthFt, width: widthFt });
+      if (heightFt !== undefined) Object.assign(updates, { heightFt, height: heightFt });
+
+      const updated = await ctx.storage.updateOpening(opening.id, updates);
+      ctx.ops.push({ op: "update", entity: "opening", id: opening.id, set: updates, previous: previousValues(opening, updates) });
+      await ctx.storage.updateSessionRoom(ctx.sessionId, room.id);
+      return { openingId: opening.id, room: roomRef(room), updated, message: `Updated opening ${opening.id} in ${room.name}.` };
+    }
+  ),
+
+  delete_opening: defineTool(openingSelector, async (ctx, args) => {
+    const { room, opening } = await resolveOpening(ctx, args, "delete_opening");
+    await ctx.storage.deleteOpening(opening.id);
+    ctx.ops.push({ op: "delete", entity: "opening", id: opening.id, values: opening });
+    await ctx.storage.updateSessionRoom(ctx.sessionId, room.id);
+    return { openingId: opening.id, room: roomRef(room), message: `Deleted opening ${opening.id} from ${room.name}.` };
+  }),
+
+  add_sketch_annotation: defineTool(
+    z.object({
+      roomName: z.string().min(1),
+      annotationType: z.enum(ANNOTATION_TYPES),
+      label: z.string().trim().min(1).max(100),
+      value: z.union([z.string(), z.number()]).transform(String).pipe(z.string().max(50)),
+      location: z.string().max(100).optional(),
+    }),
+    async (ctx, args) => {
+      const room = findRoomByName(await ctx.storage.getRooms(ctx.sessionId), args.roomName);
+      if (!room) {
+        throw invalid("ROOM_NOT_FOUND", `Room "${args.roomName}" not found.`, { roomName: args.roomName }, "Create the room or facet first with create_room.");
+      }
+      const annotation = await ctx.storage.createSketchAnnotation({
+        roomId: room.id,
+        annotationType: args.annotationType,
+        label: args.label,
+        value: args.value,
+        location: args.location || null,
+      });
+      ctx.ops.push({ op: "create", entity: "annotation", id: annotation.id, values: annotation });
+      return {
+        annotationId: annotation.id,
+        room: roomRef(room),
+        message: `Annotation "${args.label}: ${args.value}" added to "${room.name}".`,
+      };
+    }
+  ),
+
+  // ── Session context and progress ──
+
+  set_inspection_context: defineTool(
+    z.object({
+      structure: z.string().max(100).optional(),
+      area: z.string().max(100).optional(),
+      phase: z.coerce.number().int().positive().optional(),
+      phaseName: z.string().max(100).optional(),
+    }),
+    async (ctx, args) => {
+      const previousPhase = ctx.session.currentPhase || 1;
+      const updates: Partial<InspectionSession> = {};
+      if (args.phase) {
+        updates.currentPhase = args.phase;
+        updates.currentStepIndex = args.phase - 1;
+        if (args.phase > previousPhase) updates.completedPhases = Array.from({ length: args.phase - 1 }, (_, i) => i + 1);
+      }
+      if (args.structure) updates.currentStructure = args.structure;
+      if (Object.keys(updates).length > 0) {
+        ctx.session = (await ctx.storage.updateSession(ctx.sessionId, updates)) ?? { ...ctx.session, ...updates };
+      }
+
+      let phaseValidation;
+      if (args.phase && args.phase !== previousPhase) {
+        // Validate the phase being left, so the adjuster hears what was skipped
+        const validation = await validateSessionPhase(ctx.storage, ctx.session, ctx.userId, previousPhase);
+        phaseValidation = {
+          currentPhase: previousPhase,
+          nextPhase: args.phase,
+          completionScore: validation.completionScore,
+          warnings: validation.warnings,
+          missingItems: validation.missingItems,
+          summary: validation.warnings.length > 0
+            ? `Phase ${previousPhase} has ${validation.warnings.length} warning(s): ${validation.warnings.join("; ")}`
+            : `Phase ${previousPhase} is complete — no issues found.`,
+        };
+      }
+      return { context: { ...args, phaseName: args.phaseName || args.area }, previousPhase, phaseValidation };
+    }
+  ),
+
+  get_inspection_state: defineTool(z.object({}).passthrough(), async (ctx) => {
+    const hierarchy = await ctx.storage.getInspectionHierarchy(ctx.sessionId);
+    const roomId = currentRoomId(ctx);
+    const currentRoom = roomId ? await ctx.storage.getRoom(roomId) : undefined;
+    const currentPhase = ctx.session.currentPhase || 1;
+    const completedPhases = ctx.session.completedPhases || [];
+    const rooms = hierarchy.structures.flatMap((s) => s.rooms);
+    return {
+      ...hierarchy,
+      currentPhase,
+      completedPhases,
+      currentStepIndex: ctx.session.currentStepIndex || 0,
+      currentStructure: ctx.session.currentStructure || DEFAULT_STRUCTURE_NAME,
+      currentArea: currentRoom?.name || null,
+      summary: {
+        structureCount: hierarchy.structures.length,
+        totalRooms: rooms.length,
+        totalSubAreas: rooms.reduce((sum, r) => sum + r.subAreas.length, 0),
+      },
+      phaseProgress: `You are currently on Phase ${currentPhase}.${completedPhases.length > 0 ? ` Phases ${completedPhases.join(", ")} are complete.` : ""} Continue from the current phase — do NOT revisit completed phases unless the adjuster asks.`,
+    };
+  }),
+
+  get_progress: defineTool(z.object({}).passthrough(), async (ctx) => {
+    const [rooms, photos, lineItems] = await Promise.all([
+      ctx.storage.getRooms(ctx.sessionId),
+      ctx.storage.getPhotos(ctx.sessionId),
+      ctx.storage.getLineItems(ctx.sessionId),
+    ]);
+    return {
+      totalRooms: rooms.length,
+      completedRooms: rooms.filter((r) => r.status === "complete").length,
+      currentPhase: ctx.session.currentPhase || 1,
+      totalPhotos: photos.length,
+      totalLineItems: lineItems.length,
+    };
+  }),
+
+  get_estimate_summary: defineTool(z.object({}).passthrough(), async (ctx) => ctx.storage.getEstimateSummary(ctx.sessionId)),
+
+  get_completeness: defineTool(z.object({}).passthrough(), async (ctx) => {
+    const completeness = await assessCompleteness(ctx.storage, ctx.session);
+    const recommendations = completeness.checklist.filter((c) => !c.satisfied).map((c) => c.item);
+    let summary = `Overall completeness: ${completeness.completenessScore}%.`;
+    if (completeness.scopeGaps.length > 0) {
+      summary += ` Scope gaps in ${completeness.scopeGaps.length} room(s): ${completeness.scopeGaps.map((g) => g.room).join(", ")}.`;
+    }
+    if (completeness.missingPhotos.length > 0) {
+      summary += ` Missing photos for: ${completeness.missingPhotos.map((p) => p.room).join(", ")}.`;
+    }
+    if (recommendations.length > 0) {
+      summary += ` Recommendations: ${recommendations.slice(0, 3).join("; ")}.`;
+    }
+    return {
+      overallScore: completeness.completenessScore,
+      summary,
+      scopeGaps: completeness.scopeGaps,
+      missingPhotos: completeness.missingPhotos,
+      recommendations,
+    };
+  }),
+
+  get_scope_gaps: defineTool(z.object({ roomId: id.optional() }), async (ctx, args) => {
+    const { scopeGaps } = await assessCompleteness(ctx.storage, ctx.session);
+    const room = args.roomId ? await sessionRoom(ctx, args.roomId) : undefined;
+    const gaps = room ? scopeGaps.filter((g) => g.room === room.name) : scopeGaps;
+    return {
+      gapCount: gaps.length,
+      summary: gaps.length === 0
+        ? "No scope gaps found — all documented damages have corresponding line items."
+        : `Found ${gaps.length} scope gap(s): ${gaps.map((g) => `${g.room}: ${g.issue}`).join("; ")}`,
+      gaps,
+      companionOmissions: [],
+    };
+  }),
+
+  request_phase_validation: defineTool(z.object({}).passthrough(), async (ctx) => {
+    const validation = await validateSessionPhase(ctx.storage, ctx.session, ctx.userId);
+    let summary = `Phase ${validation.currentPhase} completion: ${validation.completionScore}%.`;
+    if (validation.warnings.length > 0) summary += ` Warnings: ${validation.warnings.join("; ")}`;
+    if (validation.missingItems.length > 0) summary += ` Missing: ${validation.missingItems.join("; ")}`;
+    if (validation.warnings.length === 0) summary += " All clear — ready to advance.";
+    return {
+      currentPhase: validation.currentPhase,
+      nextPhase: validation.nextPhase,
+      completionScore: validation.completionScore,
+      warnings: validation.warnings,
+      missingItems: validation.missingItems,
+      summary,
+      canProceed: validation.canProceed,
+    };
+  }),
+
+  skip_step: defineTool(
+    z.object({
+      stepDescription: z.string().trim().min(1).max(200),
+      reason: z.string().max(200).optional(),
+      passwordConfirmed: z.boolean().optional(),
+    }),
+    async (ctx, args) => {
+      if (!args.passwordConfirmed) {
+        throw invalid("PASSWORD_NOT_CONFIRMED", "Voice password not confirmed. Ask the adjuster to say the voice password before skipping.");
+      }
+      const reason = args.reason || "Adjuster request";
+      await ctx.storage.addSessionEvent({ sessionId: ctx.sessionId, type: "workflow.step_skipped", payloadJson: { step: args.stepDescription, reason } } as any);
+      return {
+        skipped: args.stepDescription,
+        reason,
+        message: `Skipped "${args.stepDescription}". Proceed to next step.`,
+        nextAction: "Call get_inspection_state to see current progress, then advance to the next phase or area in the flow. Prompt the adjuster for what comes next.",
+      };
+    }
+  ),
+
+  complete_inspection: defineTool(z.object({ notes: z.string().optional() }), async () => ({
+    navigateTo: "review",
+    message: "Navigating to review page. The claim remains open until you explicitly mark it complete.",
+  })),
+
+  // ── Structures and rooms ──
+
+  update_structure: defineTool(
+    structureSelector.extend({
+      newName: z.string().trim().min(1).max(100).optional(),
+      structureType: z.string().max(30).optional(),
+    }),
+    async (ctx, args) => {
+      const structure = await resolveStructure(ctx, args);
+      const set: { name?: string; structureType?: string } = {};
+      if (args.newName) set.name = args.newName;
+      if (args.structureType) set.structureType = args.structureType;
+      const updated = await ctx.storage.updateStructure(structure.id, set);
+      ctx.ops.push({ op: "update", entity: "structure", id: structure.id, set, previous: previousValues(structure, set) });
+      return { structure: updated, message: `Updated structure "${updated?.name ?? structure.name}".` };
+    }
+  ),
+
+  delete_structure: defineTool(
+    structureSelector.extend({ cascade: z.boolean().optional(), confirm: z.boolean().optional() }),
+    async (ctx, args) => {
+      requireConfirmation(args.confirm);
+      const structure = await resolveStructure(ctx, args);
+      const cascade = args.cascade === true;
+      const ops = await deleteStructureOps(ctx.storage, structure);
+      try {
+        await ctx.storage.deleteStructure(structure.id, cascade);
+      } catch (e: any) {
+        if (!String(e?.message).includes("Cannot delete structure")) throw e;
+        throw invalid("STRUCTURE_HAS_ROOMS", `Structure "${structure.name}" still has rooms.`, { structureId: structure.id }, "Retry with cascade=true to delete its rooms too, or move them first.");
+      }
+      ctx.ops.push(...ops);
+      return { structureId: structure.id, message: `Deleted structure "${structure.name}"${cascade ? " and all its rooms" : ""}.` };
+    }
+  ),
+
+  list_rooms: defineTool(z.object({}).passthrough(), async (ctx) => {
+    const rooms = await ctx.storage.getRooms(ctx.sessionId);
+    return {
+      rooms: rooms.map((r) => ({ id: r.id, name: r.name, dimensions: r.dimensions || {}, damageCount: r.damageCount || 0 })),
+      message: `Found ${rooms.length} room(s).`,
+    };
+  }),
+
+  find_room: defineTool(z.object({ roomNameQuery: z.string().trim().min(1) }), async (ctx, args) => {
+    const query = args.roomNameQuery.toLowerCase();
+    const score = (name: string) => {
+      const candidate = name.toLowerCase();
+      if (candidate === query) return 1;
+      if (candidate.includes(query)) return 0.95;
+      return Math.max(0, 1 - levenshtein(query, candidate) / Math.max(query.length, candidate.length));
+    };
+    const matches = (await ctx.storage.getRooms(ctx.sessionId))
+      .map((r) => ({ id: r.id, name: r.name, confidence: score(r.name) }))
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, 3);
+    return {
+      matches,
+      message: matches.length ? `Top match: "${matches[0].name}" (${(matches[0].confidence * 100).toFixed(0)}% confidence)` : "No rooms found.",
+    };
+  }),
+
+  rename_room: defineTool(
+    z.object({ roomId: id, newName: z.string().trim().min(1, "Room name cannot be empty.").max(100) }),
+    async (ctx, args) => {
+      const room = await sessionRoom(ctx, args.roomId);
+      const set = { name: args.newName };
+      await ctx.storage.updateRoom(room.id, set);
+      ctx.ops.push({ op: "update", entity: "room", id: room.id, set, previous: previousValues(room, set) });
+      return { roomId: room.id, name: args.newName, message: `Room renamed to "${args.newName}". All damage and scope items have been updated.` };
+    }
+  ),
+
+  get_room_details: defineTool(z.object({ roomId: id.optional(), roomName: z.string().optional() }), async (ctx, args) => {
+    const rooms = await ctx.storage.getRooms(ctx.sessionId);
+    const room = args.roomId ? rooms.find((r) => r.id === args.roomId) : findRoomByName(rooms, args.roomName);
+    if (!room) {
+      throw invalid("ROOM_NOT_FOUND", `Room "${args.roomName ?? args.roomId ?? ""}" not found.`, { roomId: args.roomId, roomName: args.roomName, availableRooms: rooms.map((r) => r.name) });
+    }
+    const [openings, annotations] = await Promise.all([
+      ctx.storage.getRoomOpenings(room.id),
+      ctx.storage.getSketchAnnotations(room.id),
+    ]);
+    return {
+      room: {
+        id: room.id,
+        name: room.name,
+        status: room.status,
+        structure: room.structure,
+        roomType: room.roomType,
+        dimensions: room.dimensions,
+        damageCount: room.damageCount,
+        photoCount: room.photoCount,
+      },
+      openings,
+      annotations,
+    };
+  }),
+
+  set_room_adjacency: defineTool(
+    z.object({
+      roomNameA: z.string().min(1),
+      roomNameB: z.string().min(1),
+      wallDirectionA: z.string().max(20).optional(),
+      wallDirectionB: z.string().max(20).optional(),
+      sharedWallLengthFt: z.number().positive().optional(),
+    }),
+    async (ctx, args) => {
+      const rooms = await ctx.storage.getRooms(ctx.sessionId);
+      const roomA = findRoomByName(rooms, args.roomNameA);
+      const roomB = findRoomByName(rooms, args.roomNameB);
+      if (!roomA) {
+        throw invalid("ROOM_NOT_FOUND", `Room "${args.roomNameA}" not found. Create it first with create_room.`, { roomName: args.roomNameA });
+      }
+      if (!roomB) {
+        throw invalid("ROOM_NOT_FOUND", `Room "${args.roomNameB}" not found. Create it first with create_room. I'll remember to link these rooms once "${args.roomNameB}" is created.`, { roomName: args.roomNameB });
+      }
+      if (roomA.id === roomB.id) throw invalid("INVALID_ARGS", "A room cannot be adjacent to itself.", { roomName: roomA.name });
+
+      const linked = (await ctx.storage.getAdjacenciesForSession(ctx.sessionId)).find((a) =>
+        (a.roomIdA === roomA.id && a.roomIdB === roomB.id) || (a.roomIdA === roomB.id && a.roomIdB === roomA.id)
+      );
+      if (linked) return { adjacencyId: linked.id, message: `${roomA.name} and ${roomB.name} are already linked.` };
+
+      const wallDirectionA = normalizeWallDirection(args.wallDirectionA);
+      const adjacency = await ctx.storage.createAdjacency({
+        sessionId: ctx.sessionId,
+        roomIdA: roomA.id,
+        roomIdB: roomB.id,
+        wallDirectionA,
+        wallDirectionB: normalizeWallDirection(args.wallDirectionB),
+        sharedWallLengthFt: args.sharedWallLengthFt ?? null,
+      });
+      return {
+        adjacencyId: adjacency.id,
+        message: `Linked ${roomA.name} ↔ ${roomB.name}${wallDirectionA ? ` (${wallDirectionA} wall)` : ""}`,
+      };
+    }
+  ),
+
+  update_room_dimensions: defineTool(
+    z.object({
+      roomName: z.string().min(1),
+      length: z.number().positive().optional(),
+      width: z.number().positive().optional(),
+      height: z.number().positive().optional(),
+      ceilingType: z.enum(["flat", "cathedral", "tray", "vaulted"]).optional(),
+    }),
+    async (ctx, args) => {
+      const room = findRoomByName(await ctx.storage.getRooms(ctx.sessionId), args.roomName);
+      if (!room) {
+        throw invalid("ROOM_NOT_FOUND", `Room "${args.roomName}" not found. Create it first with create_room.`, { roomName: args.roomName });
+      }
+      const { roomName, ...changes } = args;
+      const { room: updated, rescopedItems, ops } = await updateInspectionRoomDimensions(ctx.storage, room, changes);
+      ctx.ops.push(...ops);
+      if (rescopedItems > 0) emit({ type: "inspection.lineItemUpdated", sessionId: ctx.sessionId, userId: ctx.userId, meta: { roomId: room.id } });
+      const dims = (updated?.dimensions || changes) as { length?: number; width?: number; height?: number; dimVars?: { W: number; F: number } };
+      return {
+        dimensions: dims,
+        rescopedItems,
+        message: `Updated ${room.name}: ${dims.length || "?"}'×${dims.width || "?"}'×${dims.height || 8}'`
+          + (dims.dimVars ? ` (${dims.dimVars.W} SF walls, ${dims.dimVars.F} SF floor)` : "")
+          + (rescopedItems > 0 ? `. ${rescopedItems} scope items updated with new quantities.` : ""),
+      };
+    }
+  ),
+
+  delete_room: defineTool(
+    z.object({ roomName: z.string().optional(), roomId: id.optional(), confirm: z.boolean().optional() }),
+    async (ctx, args) => {
+      requireConfirmation(args.confirm);
+      const room = args.roomId
+        ? await sessionRoom(ctx, args.roomId)
+        : findRoomByName(await ctx.storage.getRooms(ctx.sessionId), args.roomName, true);
+      if (!room) {
+        throw invalid("ROOM_NOT_FOUND", "Could not find room. Provide roomId or roomName.", { roomName: args.roomName });
+      }
+      ctx.ops.push(...(await deleteRoomOps(ctx.storage, room)));
+      await ctx.storage.deleteRoom(room.id);
+      return {
+        roomId: room.id,
+        message: `Deleted room "${room.name}" and all its contents (openings, annotations, damages, moisture readings). Line items and scope items retain data but lost room link.`,
+      };
+    }
+  ),
+
+  // ── Damages ──
+
+  add_damage: defineTool(
+    z.object({
+      roomName: z.string().optional(),
+      description: z.string().trim().min(1),
+      damageType: z.enum(DAMAGE_TYPES),
+      severity: z.enum(SEVERITIES).optional(),
+      location: z.string().max(100).optional(),
+      extent: z.string().max(100).optional(),
+      hitCount: z.coerce.number().int().nonnegative().optional(),
+    }),
+    async (ctx, args) => {
+      const room = await damageRoom(ctx, args.roomName);
+      const measurements = {
+        ...(args.extent && { extent: args.extent }),
+        ...(args.hitCount && { hitCount: args.hitCount }),
+      };
+      const { damage, autoScope, ops } = await recordDamage(ctx.storage, ctx.sessionId, room, {
+        description: args.description,
+        damageType: args.damageType,
+        severity: args.severity,
+        location: args.location,
+        measurements: Object.keys(measurements).length > 0 ? measurements : null,
+      });
+      ctx.ops.push(...ops);
+      emit({ type: "inspection.damageAdded", sessionId: ctx.sessionId, userId: ctx.userId, meta: { roomId: room.id, damageId: damage.id } });
+      if (autoScope?.itemsCreated) emit({ type: "inspection.lineItemAdded", sessionId: ctx.sessionId, userId: ctx.userId, meta: { damageId: damage.id } });
+      return {
+        damageId: damage.id,
+        room: roomRef(room),
+        autoScope: autoScopeSummary(autoScope),
+        message: `Added damage "${args.description}" in ${room.name}.`,
+      };
+    }
+  ),
+
+  confirm_damage_suggestion: defineTool(
+    z.object({
+      roomName: z.string().optional(),
+      photoId: id.optional(),
+      damageType: z.enum(DAMAGE_TYPES),
+      severity: z.enum(SEVERITIES).optional(),
+      confirmed: z.boolean(),
+      location: z.string().max(100).optional(),
+    }),
+    async (ctx, args) => {
+      const room = await damageRoom(ctx, args.roomName, { partial: true });
+      if (!args.confirmed) return { action: "rejected", message: "Damage suggestion dismissed" };
+      const { damage, autoScope, ops } = await recordDamage(ctx.storage, ctx.sessionId, room, {
+        description: `Photo-detected ${args.damageType}${args.location ? ` at ${args.location}` : ""}`,
+        damageType: args.damageType,
+        severity: args.severity || "moderate",
+        location: args.location,
+      });
+      ctx.ops.push(...ops);
+      emit({ type: "inspection.damageAdded", sessionId: ctx.sessionId, userId: ctx.userId, meta: { roomId: room.id, damageId: damage.id } });
+      if (autoScope?.itemsCreated) emit({ type: "inspection.lineItemAdded", sessionId: ctx.sessionId, userId: ctx.userId, meta: { damageId: damage.id } });
+      return {
+        action: "confirmed",
+        damageId: damage.id,
+        room: roomRef(room),
+        autoScope: autoScopeSummary(autoScope),
+        message: `Confirmed ${args.damageType} in ${room.name}.`,
+      };
+    }
+  ),
+
+  update_damage: defineTool(
+    damageSelector.extend({
+      description: z.string().trim().min(1).optional(),
+      severity: z.string().max(20).optional(),
+      location: z.string().max(100).optional(),
+    }),
+    async (ctx, args) => {
+      // damageType is an update here, not a filter
+      const damage = await resolveDamage(ctx, { damageId: args.damageId, roomName: args.roomName });
+      const set: { description?: string; damageType?: string; severity?: string; location?: string } = {};
+      if (args.description) set.description = args.description;
+      if (args.damageType) set.damageType = args.damageType;
+      if (args.severity) set.severity = args.severity;
+      if (args.location) set.location = args.location;
+      const updated = await ctx.storage.updateDamage(damage.id, set);
+      ctx.ops.push({ op: "update", entity: "damage", id: damage.id, set, previous: previousValues(damage, set) });
+      return { damage: updated, message: `Updated damage #${damage.id}.` };
+    }
+  ),
+
+  delete_damage: defineTool(damageSelector, async (ctx, args) => {
+    const damage = await resolveDamage(ctx, args);
+    ctx.ops.push(...(await deleteDamageOps(ctx.storage, damage)));
+    await ctx.storage.deleteDamage(damage.id);
+    return { damageId: damage.id, message: `Deleted damage #${damage.id}. Linked line items and photos keep their data but lose the damage link.` };
+  }),
+
+  // ── Scope and line items ──
+
+  add_line_item: defineTool(
+    z.object({
+      roomName: z.string().optional(),
+      roomId: id.optional(),
+      category: z.string().min(1).max(50).default("General"),
+      action: z.string().max(50).optional(),
+      description: z.string().trim().min(1),
+      catalogCode: z.string().max(30).optional(),
+      quantity: z.number().positive().optional(),
+      unit: z.string().max(10).optional(),
+      unitPrice: z.number().nonnegative().optional(),
+      wasteFactor: z.number().nonnegative().optional(),
+      depreciationType: z.enum(DEPRECIATION_TYPES).optional(),
+      damageId: id.optional(),
+      age: z.number().nonnegative().optional(),
+      lifeExpectancy: z.number().positive().optional(),
+      coverageBucket: z.string().max(30).optional(),
+      coverage_bucket: z.string().max(30).optional(),
+      isCodeUpgrade: z.boolean().optional(),
+      quality_grade: z.string().max(50).optional(),
+      apply_o_and_p: z.boolean().optional(),
+    }),
+    async (ctx, args) => {
+      const roomId = args.roomId
+        ? (await sessionRoom(ctx, args.roomId)).id
+        : args.roomName
+          ? (await resolveRoom(ctx, { roomName: args.roomName }, "add_line_item", { partial: true })).id
+          : currentRoomId(ctx);
+      if (args.damageId) ownedRow(ctx, await ctx.storage.getDamage(args.damageId), "DAMAGE_NOT_FOUND", "Damage", args.damageId);
+
+      const codeUpgrade = args.isCodeUpgrade || args.coverage_bucket === "Code_Upgrade";
+      const { item, catalogMatch } = await createInspectionLineItem(ctx.storage, ctx.sessionId, {
+        roomId,
+        damageId: args.damageId ?? null,
+        category: args.category,
+        action: args.action ?? null,
+        description: args.description,
+        xactCode: args.catalogCode ?? null,
+        quantity: args.quantity,
+        unit: args.unit ?? null,
+        unitPrice: args.unitPrice,
+        depreciationType: args.depreciationType ?? null,
+        wasteFactor: args.wasteFactor,
+        coverageBucket: codeUpgrade ? undefined : (args.coverageBucket || args.coverage_bucket),
+        isCodeUpgrade: codeUpgrade || undefined,
+        qualityGrade: args.quality_grade ?? null,
+        applyOAndP: args.apply_o_and_p,
+        age: args.age ?? null,
+        lifeExpectancy: args.lifeExpectancy ?? null,
+      }, { userId: ctx.userId });
+      ctx.ops.push({ op: "create", entity: "lineItem", id: item.id, values: item });
+      emit({ type: "inspection.lineItemAdded", sessionId: ctx.sessionId, userId: ctx.userId, meta: { lineItemId: item.id } });
+
+      return {
+        lineItemId: item.id,
+        unitPrice: Number(item.unitPrice),
+        totalPrice: Number(item.totalPrice),
+        description: item.description,
+        catalogMatch,
+        ...(item.isCodeUpgrade && { coverageBucket: item.coverageBucket, note: "Code upgrade: estimated under Ordinance or Law, Paid When Incurred." }),
+        ...(args.catalogCode && !catalogMatch && { warning: `Catalog code "${args.catalogCode}" not found; using provided price $${args.unitPrice || 0}.` }),
+        message: `Added ${item.description} — ${item.quantity} ${item.unit || ""} @ $${Number(item.unitPrice || 0).toFixed(2)} = $${Number(item.totalPrice || 0).toFixed(2)}`,
+      };
+    }
+  ),
+
+  update_line_item: defineTool(
+    z.object({
+      lineItemId: id,
+      quantity: z.number().positive().optional(),
+      unitPrice: z.number().nonnegative().optional(),
+      description: z.string().trim().min(1).optional(),
+      unit: z.string().max(10).optional(),
+      age: z.number().nonnegative().optional(),
+      depreciationType: z.enum(DEPRECIATION_TYPES).optional(),
+    }),
+    async (ctx, args) => {
+      const { lineItemId, ...fields } = args;
+      const existing = ownedRow(ctx, await ctx.storage.getLineItemById(lineItemId), "LINE_ITEM_NOT_FOUND", "Line item", lineItemId);
+      const updates: LineItemUpdateInput = { ...fields };
+      if (fields.quantity !== undefined || fields.unitPrice !== undefined) {
+        const quantity = fields.quantity ?? Number(existing.quantity ?? 1);
+        const unitPrice = fields.unitPrice ?? Number(existing.unitPrice ?? 0);
+        updates.totalPrice = Math.round(quantity * unitPrice * (1 + (existing.wasteFactor || 0) / 100) * 100) / 100;
+      }
+      const outcome = await updateInspectionLineItem(ctx.storage, ctx.sessionId, lineItemId, updates);
+      if (!outcome) throw invalid("LINE_ITEM_NOT_FOUND", `Line item ${lineItemId} not found in this inspection.`, { id: lineItemId });
+      ctx.ops.push(...outcome.ops);
+      emit({ type: "inspection.lineItemUpdated", sessionId: ctx.sessionId, userId: ctx.userId, meta: { lineItemId } });
+      const item = outcome.item;
+      return {
+        lineItemId: item.id,
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        totalPrice: item.totalPrice,
+        message: `Updated: ${item.description} — ${item.quantity} ${item.unit || ""} @ $${Number(item.unitPrice || 0).toFixed(2)} = $${Number(item.totalPrice || 0).toFixed(2)}`,
+      };
+    }
+  ),
+
+  remove_line_item: defineTool(z.object({ lineItemId: id, reason: z.string().max(200).optional() }), async (ctx, args) => {
+    const item = ownedRow(ctx, await ctx.storage.getLineItemById(args.lineItemId), "LINE_ITEM_NOT_FOUND", "Line item", args.lineItemId);
+    await ctx.storage.deleteLineItem(item.id);
+    ctx.ops.push({ op: "delete", entity: "lineItem", id: item.id, values: item });
+    emit({ type: "inspection.lineItemDeleted", sessionId: ctx.sessionId, userId: ctx.userId, meta: { lineItemId: item.id } });
+    return { lineItemId: item.id, message: `Removed line item "${item.description}"${args.reason ? `: ${args.reason}` : ""}` };
+  }),
+
+  get_room_scope: defineTool(z.object({ roomId: id.optional(), roomName: z.string().optional() }), async (ctx, args) => {
+    const room = args.roomId
+      ? await sessionRoom(ctx, args.roomId)
+      : await resolveRoom(ctx, { roomName: args.roomName }, "get_room_scope");
+    const items = await ctx.storage.getLineItemsForRoom(room.id);
+    const totalRCV = items.reduce((sum, i) => sum + (Number(i.totalPrice) || 0), 0);
+    return {
+      roomId: room.id,
+      itemCount: items.length,
+      totalRCV: Math.round(totalRCV * 100) / 100,
+      items: items.map((i) => ({
+        id: i.id,
+        code: i.xactCode,
+        description: i.description,
+        quantity: i.quantity,
+        unit: i.unit,
+        unitPrice: i.unitPrice,
+        totalPrice: i.totalPrice,
+        source: i.provenance,
+      })),
+      summary: items.length > 0
+        ? items.map((i) => `${i.xactCode || "—"}: ${i.description} — ${i.quantity} ${i.unit || ""} @ $${Number(i.unitPrice || 0).toFixed(2)} = $${Number(i.totalPrice || 0).toFixed(2)}`).join("\n")
+        : "No items scoped for this room yet.",
+    };
+  }),
+
+  generate_scope: defineTool(z.object({ damageId: id, roomId: id }), async (ctx, args) => {
+    const room = await sessionRoom(ctx, args.roomId);
+    const damage = (await ctx.storage.getDamages(room.id)).find((d) => d.id === args.damageId);
+    if (!damage) {
+      throw invalid("DAMAGE_NOT_FOUND", `Damage ${args.damageId} not found in "${room.name}".`, { damageId: args.damageId, roomId: room.id });
+    }
+    const result = await assembleScope(ctx.storage, ctx.sessionId, room, damage);
+    const items = [...result.created, ...result.companionItems];
+    for (const item of items) ctx.ops.push({ op: "create", entity: "scopeItem", id: item.id, values: item });
+    return {
+      created: result.created.length,
+      companions: result.companionItems.length,
+      manualNeeded: result.manualQuantityNeeded,
+      warnings: result.warnings,
+      items,
+      message: `Generated ${result.created.length} scope items, ${result.companionItems.length} companions.`,
+    };
+  }),
+
+  validate_scope: defineTool(z.object({}).passthrough(), async (ctx) => {
+    const [scopeItems, rooms, damages] = await Promise.all([
+      ctx.storage.getScopeItems(ctx.sessionId),
+      ctx.storage.getRooms(ctx.sessionId),
+      ctx.storage.getDamagesForSession(ctx.sessionId),
+    ]);
+    const validation = await validateScopeCompleteness(ctx.storage, ctx.sessionId, scopeItems, rooms, damages);
+    return {
+      ...validation,
+      message: validation.valid
+        ? `Scope validation passed (score: ${validation.score})`
+        : `Scope has ${validation.errors.length} errors, ${validation.warnings.length} warnings.`,
+    };
+  }),
+
+  apply_peril_template: defineTool(
+    z.object({ roomId: id, templateName: z.string().max(100).optional(), includeAutoOnly: z.boolean().default(true) }),
+    async (ctx, args) => {
+      const room = await sessionRoom(ctx, args.roomId);
+      const claim = await ctx.storage.getClaim(ctx.session.claimId);
+      if (!claim) throw new ToolError({ type: "CONTEXT_ERROR", code: "CLAIM_NOT_FOUND", message: "The claim for this inspection was not found." });
+      const userSettings = ctx.userId ? await ctx.storage.getUserSettings(ctx.userId) : null;
+      const defaultWasteFactor = (userSettings as Record<string, unknown> | null)?.defaultWasteFactor;
+
+      const outcome = await applyPerilTemplate(ctx.storage, claim, room, {
+        templateName: args.templateName,
+        includeAutoOnly: args.includeAutoOnly,
+        defaultWasteFactor: typeof defaultWasteFactor === "number" ? defaultWasteFactor : null,
+      });
+      if ("availableTemplates" in outcome) {
+        throw invalid(
+          "TEMPLATE_NOT_FOUND",
+          `No matching template found for "${room.name}".`,
+          { templateName: args.templateName, availableTemplates: outcome.availableTemplates },
+          outcome.availableTemplates.length ? `Available templates: ${outcome.availableTemplates.join(", ")}.` : undefined
+        );
+      }
+      for (const { perilNotes, needsManualQuantity, ...item } of outcome.appliedItems) {
+        ctx.ops.push({ op: "create", entity: "scopeItem", id: item.id, values: item });
+      }
+      return {
+        templateName: outcome.templateName,
+        appliedCount: outcome.appliedItems.length,
+        appliedItems: outcome.appliedItems,
+        suggestedItems: outcome.suggestedItems,
+        message: `Applied ${outcome.appliedItems.length} items from "${outcome.templateName}".`,
+      };
+    }
+  ),
+
+  delete_scope_item: defineTool(z.object({ scopeItemId: id, description: z.string().optional() }), async (ctx, args) => {
+    const item = ownedRow(ctx, await ctx.storage.getScopeItem(args.scopeItemId), "SCOPE_ITEM_NOT_FOUND", "Scope item", args.scopeItemId);
+    await ctx.storage.deleteScopeItem(item.id);
+    await ctx.storage.recalculateScopeSummary(ctx.sessionId);
+    // Scope items are soft-deleted, so undo sets the status back
+    const set = { status: "removed" };
+    ctx.ops.push({ op: "update", entity: "scopeItem", id: item.id, set, previous: previousValues(item, set) });
+    return { scopeItemId: item.id, message: `Removed scope item #${item.id} (soft-deleted — recoverable).` };
+  }),
+
+  apply_smart_macro: defineTool(
+    z.object({
+      macro_type: z.enum(SMART_MACRO_TYPES),
+      severity: z.enum(["average", "heavy", "premium"]).default("average"),
+      waste_factor: z.number().nonnegative().optional(),
+    }),
+    async (ctx, args) => {
+      const items = await applySmartMacro(ctx.storage, ctx.sessionId, {
+        macroType: args.macro_type,
+        severity: args.severity,
+        wasteFactor: args.waste_factor,
+        roomId: currentRoomId(ctx),
+      });
+      for (const item of items) ctx.ops.push({ op: "create", entity: "lineItem", id: item.id, values: item });
+      if (items.length > 0) emit({ type: "inspection.lineItemAdded", sessionId: ctx.sessionId, userId: ctx.userId, meta: { macroType: args.macro_type } });
+      return {
+        macroType: args.macro_type,
+        itemCount: items.length,
+        message: `Applied ${args.macro_type} bundle: ${items.length} line items created.`,
+      };
+    }
+  ),
+
+  check_related_items: defineTool(
+    z.object({ primary_category: z.enum(RELATED_ITEM_CATEGORIES), action_taken: z.string().max(200).optional() }),
+    async (_ctx, args) => relatedItems(args.primary_category, args.action_taken)
+  ),
+
+  // ── Moisture, water and test squares ──
+
+  add_water_classification: defineTool(
+    z.object({
+      waterSource: z.string().trim().min(1),
+      affectedArea: z.number().nonnegative().optional(),
+      visibleContamination: z.boolean().default(false),
+      standingWaterStart: z.coerce.date().optional(),
+      standingWaterEnd: z.coerce.date().optional(),
+      notes: z.string().optional(),
+    }),
+    async (ctx, args) => {
+      const { classification, companionsTriggered } = await handleWaterDamageProtocol(ctx.sessionId, args, ctx.storage);
+      return {
+        classification,
+        companionsTriggered,
+        message: `Water classified: Category ${classification.category}, Class ${classification.waterClass}.${companionsTriggered.length > 0 ? " Companion rules triggered." : ""}`,
+      };
+    }
+  ),
+
+  log_moisture_reading: defineTool(
+    z.object({
+      roomName: z.string().optional(),
+      location: z.string().trim().min(1).max(100),
+      reading: z.number().nonnegative(),
+      materialType: z.string().max(30).optional(),
+      dryStandard: z.number().nonnegative().optional(),
+    }),
+    async (ctx, args) => {
+      const room = await resolveRoom(ctx, { roomName: args.roomName }, "log_moisture_reading", { partial: true });
+      const reading = await ctx.storage.createMoistureReading({
+        sessionId: ctx.sessionId,
+        roomId: room.id,
+        location: args.location,
+        reading: args.reading,
+        materialType: args.materialType || null,
+        dryStandard: args.dryStandard ?? null,
+        readingDate: null,
+      });
+      const status = args.reading > 17 ? "wet" : args.reading > 14 ? "caution" : "dry";
+      return {
+        readingId: reading.id,
+        reading: args.reading,
+        status,
+        location: args.location,
+        message: `Logged ${args.reading}% at ${args.location} in ${room.name} (${status}).`,
+      };
+    }
+  ),
+
+  update_moisture_reading: defineTool(
+    z.object({
+      readingId: id,
+      location: z.string().trim().min(1).max(100).optional(),
+      reading: z.number().nonnegative().optional(),
+      materialType: z.string().max(30).optional(),
+      dryStandard: z.number().nonnegative().optional(),
+    }),
+    async (ctx, args) => {
+      const { readingId, ...set } = args;
+      ownedRow(ctx, await ctx.storage.getMoistureReading(readingId), "READING_NOT_FOUND", "Moisture reading", readingId);
+      const reading = await ctx.storage.updateMoistureReading(readingId, set);
+      return { reading, message: `Updated moisture reading #${readingId}.` };
+    }
+  ),
+
+  delete_moisture_reading: defineTool(z.object({ readingId: id }), async (ctx, args) => {
+    ownedRow(ctx, await ctx.storage.getMoistureReading(args.readingId), "READING_NOT_FOUND", "Moisture reading", args.readingId);
+    await ctx.storage.deleteMoistureReading(args.readingId);
+    return { readingId: args.readingId, message: `Deleted moisture reading #${args.readingId}.` };
+  }),
+
+  log_test_square: defineTool(
+    z.object({
+      room_id: z.union([z.string(), z.number()]).optional(),
+      hail_hits: z.coerce.number().int().nonnegative(),
+      wind_creases: z.coerce.number().int().nonnegative().optional(),
+      pitch: z.string().trim().min(1).max(10),
+      result: z.enum(["pass", "fail", "brittle_test_failure"]).optional(),
+      notes: z.string().optional(),
+    }),
+    async (ctx, args) => {
+      // room_id is a facet name or id; the model uses both
+      const byId = Number(args.room_id) || undefined;
+      const room = args.room_id !== undefined
+        ? await resolveRoom(ctx, byId ? { roomId: byId } : { roomName: String(args.room_id) }, "log_test_square")
+        : undefined;
+      const { testSquare, analysis } = await recordTestSquare(ctx.storage, ctx.sessionId, {
+        roomId: room?.id ?? currentRoomId(ctx),
+        hailHits: args.hail_hits,
+        windCreases: args.wind_creases,
+        pitch: args.pitch,
+        result: args.result,
+        notes: args.notes,
+      });
+      return {
+        testSquareId: testSquare.id,
+        hailHits: args.hail_hits,
+        pitch: args.pitch,
+        result: testSquare.result,
+        analysis,
+        message: `Test square logged: ${args.hail_hits} hail hits at ${args.pitch} pitch. ${analysis.recommendation}`,
+      };
+    }
+  ),
+
+  update_test_square: defineTool(
+    z.object({
+      testSquareId: id,
+      hailHits: z.coerce.number().int().nonnegative().optional(),
+      windCreases: z.coerce.number().int().nonnegative().optional(),
+      pitch: z.string().trim().min(1).max(10).optional(),
+      result: z.enum(["pass", "fail", "brittle_test_failure"]).optional(),
+      notes: z.string().optional(),
+    }),
+    async (ctx, args) => {
+      const { testSquareId, ...set } = args;
+      ownedRow(ctx, await ctx.storage.getTestSquare(testSquareId), "TEST_SQUARE_NOT_FOUND", "Test square", testSquareId);
+      const testSquare = await ctx.storage.updateTestSquare(testSquareId, set);
+      return { testSquare, message: `Updated test square #${testSquareId}.` };
+    }
+  ),
+
+  delete_test_square: defineTool(z.object({ testSquareId: id }), async (ctx, args) => {
+    ownedRow(ctx, await ctx.storage.getTestSquare(args.testSquareId), "TEST_SQUARE_NOT_FOUND", "Test square", args.testSquareId);
+    await ctx.storage.deleteTestSquare(args.testSquareId);
+    return { testSquareId: args.testSquareId, message: `Deleted test square #${args.testSquareId}.` };
+  }),
+
+  // ── Photos ──
+
+  list_photos: defineTool(z.object({ roomName: z.string().optional() }), async (ctx, args) => {
+    let photos = await ctx.storage.getPhotos(ctx.sessionId);
+    if (args.roomName) {
+      const room = findRoomByName(await ctx.storage.getRooms(ctx.sessionId), args.roomName, true);
+      if (room) photos = photos.filter((p) => p.roomId === room.id);
+    }
+    return {
+      count: photos.length,
+      photos: photos.map((p) => ({ id: p.id, caption: p.caption || p.autoTag || "No caption", photoType: p.photoType, roomId: p.roomId })),
+      message: photos.length > 0 ? `Found ${photos.length} photo(s).` : "No photos found.",
+    };
+  }),
+
+  delete_photo: defineTool(z.object({ photoId: id, confirm: z.boolean().optional() }), async (ctx, args) => {
+    requireConfirmation(args.confirm);
+    const photo = ownedRow(ctx, await ctx.storage.getPhoto(args.photoId), "PHOTO_NOT_FOUND", "Photo", args.photoId);
+    await deleteInspectionPhoto(ctx.storage, photo.id);
+    return { photoId: photo.id, message: `Deleted photo #${photo.id}.` };
+  }),
+
+  undo_last_action: defineTool(z.object({ count: z.number().int().min(1).max(20).default(1) }), async (ctx, args) => {
+    const undone = await undoCommands(ctx.storage, ctx.sessionId, args.count, ctx.userId);
+    if (undone.length === 0) throw invalid("NOTHING_TO_UNDO", "There is nothing to undo in this inspection.");
+    return { undone: undone.map(commandSummary), message: `Undid: ${undone.map((c) => c.label).join(" ")}` };
+  }),
+
+  redo: defineTool(z.object({ count: z.number().int().min(1).max(20).default(1) }), async (ctx, args) => {
+    const redone = await redoCommands(ctx.storage, ctx.sessionId, args.count, ctx.userId);
+    if (redone.length === 0) throw invalid("NOTHING_TO_REDO", "There is nothing to redo.", undefined, "Only actions undone since the last new action can be redone.");
+    return { redone: redone.map(commandSummary), message: `Redid: ${redone.map((c) => c.label).join(" ")}` };
+  }),
+};
+
+function flowStepRef(instance: FlowStepInstance) {
+  return {
+    key: instance.key,
+    phase: instance.index + 1,
+    phaseName: instance.entity ? `${instance.step.phaseName} — ${instance.entity.name}` : instance.step.phaseName,
+    entity: instance.entity,
+  };
+}
+
+function commandSummary(command: CommandEntry) {
+  return { commandId: command.id, tool: command.tool, label: command.label };
+}
+
+// ── Execution ──
+
+function workflowMeta(state: WorkflowState | null) {
+  return state ? { workflow: { phase: state.phase, stepId: state.stepId } } : {};
+}
+
+/**
+ * Validates and runs one voice tool call for a session. Failures never
+ * throw; they come back as an error envelope, and while the session has a
+ * workflow the error is also recorded as its lastToolError.
+ */
+export async function executeTool(
+  storage: IStorage,
+  sessionId: number,
+  request: ToolExecutionRequest & { userId?: string }
+): Promise<ToolResult<unknown>> {
+  const { name, callId } = request;
+  const rawArgs = request.args ?? {};
+
+  if (!isServerTool(name)) {
+    return toolFailure(name, {
+      type: "VALIDATION_ERROR",
+      code: "UNKNOWN_TOOL",
+      message: `Tool "${name}" is not executed by the server.`,
+      hint: `Server tools: ${SERVER_TOOLS.join(", ")}.`,
+    }, { callId });
+  }
+
+  const session = await storage.getInspectionSession(sessionId);
+  if (!session) {
+    return toolFailure(name, { type: "CONTEXT_ERROR", code: "SESSION_NOT_FOUND", message: "Inspection session not found." }, { callId });
+  }
+  const ctx: ToolContext = {
+    storage,
+    sessionId,
+    userId: request.userId,
+    session,
+    state: (session.workflowStateJson as WorkflowState) || null,
+    ops: [],
+  };
+
+  const result = await runHandler(ctx, name, rawArgs, callId);
+  if (result.success && ctx.ops.length > 0) {
+    // The action itself succeeded; losing its undo entry must not fail it
+    try {
+      const label = (result.data as { message?: string } | undefined)?.message || name;
+      await recordCommand(storage, sessionId, { tool: name, label, ops: ctx.ops });
+    } catch (e) {
+      logger.warn(`Failed to record undoable command for ${name} in session ${sessionId}`, e);
+    }
+  }
+  if (!result.success && ctx.state) {
+    const { lastToolError } = onToolResult(ctx.state, name, result);
+    await setWorkflowState(sessionId, { lastToolError }, storage);
+  }
+  return result;
+}
+
+async function runHandler(ctx: ToolContext, name: ServerToolName, rawArgs: Record<string, unknown>, callId?: string): Promise<ToolResult<unknown>> {
+  const handler = TOOL_HANDLERS[name];
+  const state = ctx.state;
+
+  if (state && PHASE_GATED_TOOLS.has(name)) {
+    try {
+      assertToolAllowed(state, name);
+    } catch {
+      return toolFailure(name, {
+        type: "CONTEXT_ERROR",
+        code: "TOOL_NOT_ALLOWED",
+        message: `Tool "${name}" is not allowed in phase "${state.phase}".`,
+        hint: `Allowed tools: ${getAllowedTools(state).join(", ")}. Call set_phase to advance.`,
+      }, { callId, ...workflowMeta(state) });
+    }
+  }
+
+  const parsed = handler.schema.safeParse(rawArgs);
+  if (!parsed.success) {
+    return toolFailure(name, {
+      type: "VALIDATION_ERROR",
+      code: "INVALID_ARGS",
+      message: `Invalid arguments for ${name}.`,
+      details: parsed.error.flatten().fieldErrors,
+      hint: `Fix the listed fields and retry ${name}.`,
+    }, { callId, ...workflowMeta(state) });
+  }
+
+  if (state) {
+    try {
+      assertToolContext(state, name, parsed.data);
+    } catch (e: any) {
+      return toolFailure(name, {
+        type: "CONTEXT_ERROR",
+        code: "MISSING_CONTEXT",
+        message: e.message || "Required context is missing for this tool.",
+        hint: "Set the room/elevation context first with set_context.",
+      }, { callId, ...workflowMeta(state) });
+    }
+  }
+
+  try {
+    const data = await handler.run(ctx, parsed.data);
+    return toolSuccess(name, data, { callId, normalizedArgs: parsed.data, ...workflowMeta(ctx.state) });
+  } catch (e: any) {
+    if (e instanceof ToolError) {
+      return toolFailure(name, e.envelope, { callId, normalizedArgs: parsed.data, ...workflowMeta(ctx.state) });
+    }
+    logger.voiceToolError(name, e);
+    return toolFailure(name, {
+      type: "RUNTIME_ERROR",
+      code: "TOOL_EXECUTION_FAILED",
+      message: e?.message || `Unhandled error while executing ${name}`,
+      retriable: true,
+    }, { callId, normalizedArgs: parsed.data, ...workflowMeta(ctx.state) });
+  }
+}
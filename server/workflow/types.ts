@@ -13,9 +13,15 @@ export type GateIssue = {
   severity: GateSeverity;
   code: string;
   message: string;
-  entity?: { type: "room" | "opening" | "lineItem" | "photo" | "elevation"; id?: string; name?: string };
+  entity?: {
+    type: "room" | "opening" | "lineItem" | "photo" | "elevation" | "structure" | "damage" | "moistureReading" | "testSquare";
+    id?: string;
+    name?: string;
+  };
   details?: unknown;
   suggestion?: string;
+  /** Rule pack that raised the issue, or that changed a built-in issue's severity (no ruleId) */
+  pack?: { id: number; name: string; ruleId?: string };
 };
 
 export type GateResult = {
@@ -46,6 +52,12 @@ export type WorkflowState = {
     details?: unknown;
     at: string;
   };
+  /** Position in the session's inspection flow (see flowEngine.ts) */
+  flow?: {
+    flowId: number;
+    stepKey: string | null;
+    completedStepKeys: string[];
+  };
   lastValidatorSummary?: {
     sketch?: GateResultSummary;
     photoDamage?: GateResultSummary;
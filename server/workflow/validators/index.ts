@@ -2,16 +2,27 @@ import { runExportGate } from "./exportGate";
 import { runPhotoDamageGate } from "./photoDamageGate";
 import { runScopeGate } from "./scopeGate";
 import { runSketchGate } from "./sketchGate";
+import { applyGateRulePacks, gateRulePacksForSession, loadGateRuleData } from "./rulePacks";
 import type { GateResult } from "../types";
 
-export async function runAllWorkflowGates(sessionId: number, peril: string): Promise<Record<GateResult["gate"], GateResult>> {
+/** flowId picks the flow whose rule packs apply; the session's active flow when omitted */
+export async function runAllWorkflowGates(
+  sessionId: number,
+  peril: string,
+  options: { flowId?: number | null } = {}
+): Promise<Record<GateResult["gate"], GateResult>> {
   const [sketch, photoDamage, scope, exportGate] = await Promise.all([
     runSketchGate(sessionId),
     runPhotoDamageGate(sessionId),
     runScopeGate(sessionId, peril),
     runExportGate(sessionId),
   ]);
-  return { sketch, photoDamage, scope, export: exportGate };
+  const results = { sketch, photoDamage, scope, export: exportGate };
+
+  // Carrier and flow rule packs layer on top; most sessions have none
+  const packs = await gateRulePacksForSession(sessionId, undefined, options.flowId);
+  if (packs.length === 0) return results;
+  return applyGateRulePacks(results, packs, await loadGateRuleData(sessionId));
 }
 
 export { runSketchGate, runPhotoDamageGate, runScopeGate, runExportGate };
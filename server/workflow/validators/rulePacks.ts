@@ -0,0 +1,275 @@
+import { z } from "zod";
+import type { GateRule, GateRuleCondition, GateRuleEntity, GateRulePack } from "@shared/schema";
+import { storage, type IStorage } from "../../storage";
+import { logger } from "../../logger";
+import type { GateIssue, GateResult } from "../types";
+
+// ── Gate rule packs ──
+//
+// Declarative checks a carrier or flow adds to the built-in gates. A rule
+// selects session entities (rooms, photos, moisture readings, ...), tests them
+// with a predicate and raises an issue on one gate at its own severity. A pack
+// can also change the severity of built-in issues by code. Every issue a pack
+// produces or changes carries the pack, so adjusters can see whose requirement
+// is holding up the export.
+
+type Gate = GateResult["gate"];
+type Row = Record<string, any>;
+
+export type GateRuleData = Record<GateRuleEntity, Row[]>;
+
+const GATES: Gate[] = ["sketch", "photoDamage", "scope", "export"];
+const ENTITIES = ["structure", "room", "opening", "damage", "lineItem", "photo", "moistureReading", "testSquare"] as const;
+const SEVERITIES = ["BLOCKER", "WARNING", "INFO"] as const;
+const COMPARISONS = new Set(["gt", "gte", "lt", "lte"]);
+
+type Relation = (subject: Row, row: Row, data: GateRuleData) => boolean;
+
+const ROOM_CHILDREN: GateRuleEntity[] = ["opening", "damage", "lineItem", "photo", "moistureReading", "testSquare"];
+const inRoom: Relation = (room, row) => row.roomId === room.id;
+const inStructure: Relation = (structure, row, data) =>
+  data.room.some((r) => r.id === row.roomId && r.structureId === structure.id);
+const ofDamage: Relation = (damage, row) => row.damageId === damage.id;
+
+/** How an entity of one kind relates to another; a rule may only relate pairs listed here */
+const RELATIONS: Partial<Record<GateRuleEntity, Partial<Record<GateRuleEntity, Relation>>>> = {
+  structure: {
+    room: (structure, room) => room.structureId === structure.id,
+    ...Object.fromEntries(ROOM_CHILDREN.map((e) => [e, inStructure])),
+  },
+  room: {
+    room: (parent, room) => room.parentRoomId === parent.id,
+    ...Object.fromEntries(ROOM_CHILDREN.map((e) => [e, inRoom])),
+  },
+  damage: { lineItem: ofDamage, photo: ofDamage },
+};
+
+const entitySchema = z.enum(ENTITIES);
+
+const conditionSchema = z.object({
+  field: z.string().trim().min(1).max(100),
+  op: z.enum(["eq", "neq", "in", "contains", "exists", "gt", "gte", "lt", "lte"]),
+  value: z.unknown().optional(),
+})
+  .refine((c) => c.op === "exists" || c.value !== undefined, { message: "Condition needs a value" })
+  .refine((c) => c.op !== "in" || Array.isArray(c.value), { message: "\"in\" needs an array of values" })
+  .refine((c) => !COMPARISONS.has(c.op) || typeof c.value === "number", { message: "Comparisons need a numeric value" });
+
+const predicateSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("count"), min: z.number().int().min(0).optional(), max: z.number().int().min(0).optional() }),
+  z.object({ type: z.literal("every"), where: z.array(conditionSchema).min(1) }),
+  z.object({
+    type: z.literal("related"),
+    entity: entitySchema,
+    where: z.array(conditionSchema).optional(),
+    min: z.number().int().min(1).optional(),
+  }),
+]);
+
+export const gateRuleSchema = z.object({
+  id: z.string().trim().min(1).max(100).regex(/^[A-Za-z0-9_.-]+$/, "Letters, digits, _, . and - only"),
+  gate: z.enum(["sketch", "photoDamage", "scope", "export"]),
+  selector: z.object({
+    entity: entitySchema,
+    where: z.array(conditionSchema).optional(),
+    having: z.object({ entity: entitySchema, where: z.array(conditionSchema).optional() }).optional(),
+  }),
+  predicate: predicateSchema,
+  severity: z.enum(SEVERITIES),
+  message: z.string().trim().min(1).max(500),
+  suggestion: z.string().trim().max(500).optional(),
+}).superRefine((rule, ctx) => {
+  const subject = rule.selector.entity;
+  if (rule.predicate.type === "count" && rule.predicate.min === undefined && rule.predicate.max === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["predicate"], message: "Count needs a min or a max" });
+  }
+  const targets: Array<{ entity: GateRuleEntity | undefined; path: string[] }> = [
+    { entity: rule.selector.having?.entity, path: ["selector", "having", "entity"] },
+    { entity: rule.predicate.type === "related" ? rule.predicate.entity : undefined, path: ["predicate", "entity"] },
+  ];
+  for (const { entity, path } of targets) {
+    if (entity && !RELATIONS[subject]?.[entity]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `A ${subject} has no related ${entity}` });
+    }
+  }
+});
+
+export const gateRulesSchema = z.array(gateRuleSchema).max(200)
+  .refine((rules) => new Set(rules.map((r) => r.id)).size === rules.length, { message: "Rule ids must be unique" });
+
+export const severityOverridesSchema = z.array(z.object({
+  code: z.string().trim().min(1).max(100),
+  severity: z.enum(SEVERITIES),
+})).max(200);
+
+function fieldValue(row: Row, path: string): unknown {
+  return path.split(".").reduce<any>((value, key) => (value == null ? undefined : value[key]), row);
+}
+
+/** Strings compare case-insensitively; peril and type values are not stored consistently */
+const fold = (v: unknown) => (typeof v === "string" ? v.toLowerCase() : v);
+
+function matches(row: Row, condition: GateRuleCondition): boolean {
+  const value = fieldValue(row, condition.field);
+  switch (condition.op) {
+    case "exists":
+      return (value !== null && value !== undefined && value !== "") === (condition.value !== false);
+    case "eq":
+      return fold(value) === fold(condition.value);
+    case "neq":
+      return fold(value) !== fold(condition.value);
+    case "in":
+      return Array.isArray(condition.value) && condition.value.some((v) => fold(v) === fold(value));
+    case "contains":
+      if (Array.isArray(value)) return value.some((v) => fold(v) === fold(condition.value));
+      return typeof value === "string" && typeof condition.value === "string"
+        && value.toLowerCase().includes(condition.value.toLowerCase());
+    default: {
+      // numeric columns come back from Postgres as strings
+      if (value === null || value === undefined || value === "") return false;
+      const n = Number(value);
+      const limit = Number(condition.value);
+      if (Number.isNaN(n)) return false;
+      if (condition.op === "gt") return n > limit;
+      if (condition.op === "gte") return n >= limit;
+      if (condition.op === "lt") return n < limit;
+      return n <= limit;
+    }
+  }
+}
+
+const matchesAll = (row: Row, where: GateRuleCondition[] = []) => where.every((c) => matches(row, c));
+
+function label(entity: GateRuleEntity, row: Row): string {
+  return row.name || row.description || row.caption || row.location || `${entity} ${row.id}`;
+}
+
+function fill(template: string, values: { name?: string; count: number }): string {
+  return template.replace(/\{(name|count)\}/g, (_, key: "name" | "count") => String(values[key] ?? ""));
+}
+
+export function evaluateGateRule(rule: GateRule, data: GateRuleData): GateIssue[] {
+  const subject = rule.selector.entity;
+  const related = (row: Row, target: { entity: GateRuleEntity; where?: GateRuleCondition[] }) => {
+    const relation = RELATIONS[subject]?.[target.entity];
+    return relation ? data[target.entity].filter((r) => relation(row, r, data) && matchesAll(r, target.where)) : [];
+  };
+  const selected = data[subject].filter((row) =>
+    matchesAll(row, rule.selector.where) && (!rule.selector.having || related(row, rule.selector.having).length > 0)
+  );
+  const issue = (message: string, row?: Row, details?: unknown): GateIssue => ({
+    severity: rule.severity,
+    code: rule.id,
+    message,
+    ...(row && { entity: { type: subject, id: String(row.id), name: label(subject, row) } }),
+    ...(details !== undefined && { details }),
+    ...(rule.suggestion && { suggestion: rule.suggestion }),
+  });
+
+  const predicate = rule.predicate;
+  switch (predicate.type) {
+    case "count": {
+      const count = selected.length;
+      const ok = (predicate.min === undefined || count >= predicate.min) && (predicate.max === undefined || count <= predicate.max);
+      return ok ? [] : [issue(fill(rule.message, { count }), undefined, { count, min: predicate.min, max: predicate.max })];
+    }
+    case "every":
+      return selected
+        .filter((row) => !matchesAll(row, predicate.where))
+        .map((row) => issue(fill(rule.message, { name: label(subject, row), count: selected.length }), row));
+    case "related": {
+      const min = predicate.min ?? 1;
+      return selected.flatMap((row) => {
+        const count = related(row, predicate).length;
+        return count >= min ? [] : [issue(fill(rule.message, { name: label(subject, row), count }), row, { count, min })];
+      });
+    }
+  }
+}
+
+function summarize(gate: Gate, issues: GateIssue[], computedAt: string): GateResult {
+  const summary = {
+    blockers: issues.filter((i) => i.severity === "BLOCKER").length,
+    warnings: issues.filter((i) => i.severity === "WARNING").length,
+    infos: issues.filter((i) => i.severity === "INFO").length,
+  };
+  return { gate, ok: summary.blockers === 0, issues, summary, computedAt };
+}
+
+/**
+ * Applies the packs in order: severity overrides change built-in issues (a
+ * later pack wins over an earlier one), then each rule adds its issues to its
+ * gate. A pack whose stored rules no longer validate is reported on the
+ * export gate rather than evaluated.
+ */
+export function applyGateRulePacks(
+  results: Record<Gate, GateResult>,
+  packs: GateRulePack[],
+  data: GateRuleData
+): Record<Gate, GateResult> {
+  const issues = Object.fromEntries(GATES.map((g) => [g, [...results[g].issues]])) as Record<Gate, GateIssue[]>;
+
+  for (const pack of packs) {
+    const source = { id: pack.id, name: pack.name };
+    const overrides = new Map((pack.severityOverrides || []).map((o) => [o.code, o.severity]));
+    for (const gate of GATES) {
+      issues[gate] = issues[gate].map((i) => {
+        const severity = overrides.get(i.code);
+        return severity && severity !== i.severity && !i.pack?.ruleId ? { ...i, severity, pack: source } : i;
+      });
+    }
+
+    const parsed = gateRulesSchema.safeParse(pack.rules);
+    if (!parsed.success) {
+      logger.warn(`Gate rule pack ${pack.id} has invalid rules`, parsed.error.issues);
+      issues.export.push({
+        severity: "WARNING",
+        code: "RULE_PACK_INVALID",
+        message: `Rule pack "${pack.name}" has invalid rules and was not checked.`,
+        pack: source,
+      });
+      continue;
+    }
+    for (const rule of parsed.data as GateRule[]) {
+      for (const issue of evaluateGateRule(rule, data)) {
+        issues[rule.gate].push({ ...issue, pack: { ...source, ruleId: rule.id } });
+      }
+    }
+  }
+
+  return Object.fromEntries(
+    GATES.map((g) => [g, { ...results[g], ...summarize(g, issues[g], results[g].computedAt) }])
+  ) as Record<Gate, GateResult>;
+}
+
+/**
+ * Active packs for the session's carrier and flow, plus those scoped to
+ * neither. Pass flowId to check the session against another flow's packs.
+ */
+export async function gateRulePacksForSession(
+  sessionId: number,
+  store: IStorage = storage,
+  flowId?: number | null
+): Promise<GateRulePack[]> {
+  const session = await store.getInspectionSession(sessionId);
+  if (!session) return [];
+  const claim = await store.getClaim(session.claimId);
+  return store.getApplicableGateRulePacks({
+    carrierId: claim?.carrierId ?? null,
+    flowId: flowId !== undefined ? flowId : session.activeFlowId ?? null,
+  });
+}
+
+export async function loadGateRuleData(sessionId: number, store: IStorage = storage): Promise<GateRuleData> {
+  const [structure, room, opening, damage, lineItem, photo, moistureReading, testSquare] = await Promise.all([
+    store.getStructures(sessionId),
+    store.getRooms(sessionId),
+    store.getOpeningsForSession(sessionId),
+    store.getDamagesForSession(sessionId),
+    store.getLineItems(sessionId),
+    store.getPhotos(sessionId),
+    store.getMoistureReadingsForSession(sessionId),
+    store.getTestSquares(sessionId),
+  ]);
+  return { structure, room, opening, damage, lineItem, photo, moistureReading, testSquare };
+}
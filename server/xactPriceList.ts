@@ -0,0 +1,461 @@
+import { decodeXmlEntities, type XmlAncestor, type XmlElement } from "./xmlElementReader";
+import type { XactAct, XactCmp, XactLcmp } from "@shared/schema";
+
+// ── XACTDOC (PL_DOC v6) price list mapping ──
+//
+// Maps XACTDOC.XML elements onto the xact_* tables and prices catalog items
+// from the imported components. Database writes live in
+// xactPriceListImporter.ts; everything here is pure.
+
+export type XactTableKey =
+  | "plInfo" | "jurisdiction" | "baseVariable" | "burdenTax" | "itemTag"
+  | "category" | "cmp" | "lcmp" | "ecmp" | "spt" | "lspt" | "espt"
+  | "exception" | "salesTax" | "plFee" | "minimum" | "item"
+  | "act" | "itemItemTag" | "note" | "descriptionText" | "translation";
+
+/**
+ * Import passes, in foreign key order. Each pass streams the whole file and
+ * only loads its own elements, so the XML element order doesn't matter.
+ */
+export const IMPORT_STAGES: ReadonlyArray<readonly string[]> = [
+  [
+    "PL_INFO", "JURISDICTION", "BASE_VARIABLE", "BURDENTAX", "ITEM_TAG", "CATEGORY",
+    "CMP", "LCMP", "ECMP", "SPT", "LSPT", "ESPT", "EXCEPTION", "SALES_TAX", "PL_FEE",
+  ],
+  ["MINIMUM"],
+  ["ITEM"],
+  // Children (ACT, NOTE, DESCRIPTION, TRANSLATION) are loaded with their parent
+  ["ITEM", "CATEGORY", "MINIMUM", "CMP", "LCMP", "ECMP", "SPT", "LSPT", "ESPT",
+   "PL_FEE", "BASE_VARIABLE", "ITEM_TAG", "SALES_TAX", "EXCEPTION"],
+];
+
+export const CHILD_STAGE = IMPORT_STAGES.length - 1;
+
+/** Polymorphic parent type and id for elements that can own notes, descriptions and translations. */
+const PARENT_KEYS: Record<string, { type: string; idAttr: string }> = {
+  ITEM: { type: "item", idAttr: "itemId" },
+  CATEGORY: { type: "category", idAttr: "catId" },
+  MINIMUM: { type: "minimum", idAttr: "id" },
+  CMP: { type: "cmp", idAttr: "id" },
+  LCMP: { type: "lcmp", idAttr: "id" },
+  ECMP: { type: "ecmp", idAttr: "id" },
+  SPT: { type: "spt", idAttr: "id" },
+  LSPT: { type: "lspt", idAttr: "id" },
+  ESPT: { type: "espt", idAttr: "id" },
+  PL_FEE: { type: "pl_fee", idAttr: "id" },
+  BASE_VARIABLE: { type: "base_variable", idAttr: "id" },
+  ITEM_TAG: { type: "item_tag", idAttr: "id" },
+  SALES_TAX: { type: "sales_tax", idAttr: "id" },
+  EXCEPTION: { type: "exception", idAttr: "id" },
+};
+
+export interface ParentKey {
+  parentType: string;
+  parentId: string;
+}
+
+export interface MappedRow {
+  table: XactTableKey;
+  row: Record<string, unknown>;
+}
+
+function int(value: string | undefined): number | null {
+  if (value == null || value === "") return null;
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) ? n : null;
+}
+
+function dec(value: string | undefined): string | null {
+  if (value == null || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? String(n) : null;
+}
+
+function str(value: string | undefined): string | null {
+  return value == null || value === "" ? null : value;
+}
+
+function bool(value: string | undefined, fallback: boolean): boolean {
+  if (value == null || value === "") return fallback;
+  return value === "1" || value.toLowerCase() === "true";
+}
+
+function date(value: string | undefined): Date | null {
+  if (!value) return null;
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+/**
+ * Some text attributes arrive double-encoded ("&amp;amp;" for "&"); the XML
+ * reader removes one layer, this removes the other.
+ */
+function text(value: string | undefined): string | null {
+  return value == null || value === "" ? null : decodeXmlEntities(value);
+}
+
+export function parentKeyFor(element: XmlAncestor): ParentKey | null {
+  const spec = PARENT_KEYS[element.name];
+  if (!spec) return null;
+  const id = element.attrs[spec.idAttr];
+  return id ? { parentType: spec.type, parentId: id } : null;
+}
+
+/** Nearest enclosing element that can own notes/descriptions/translations. */
+export function findParentKey(ancestors: XmlAncestor[]): ParentKey | null {
+  for (let i = ancestors.length - 1; i >= 0; i--) {
+    const key = parentKeyFor(ancestors[i]);
+    if (key) return key;
+  }
+  return null;
+}
+
+/**
+ * Jurisdiction a SALES_TAX or BURDENTAX row belongs to: its own jurisdictionId
+ * attribute, else the enclosing JURISDICTION element.
+ */
+function jurisdictionIdFor(element: Pick<XmlElement, "attrs"> & { ancestors?: XmlAncestor[] }): string | null {
+  if (element.attrs.jurisdictionId) return element.attrs.jurisdictionId;
+  const ancestors = element.ancestors ?? [];
+  for (let i = ancestors.length - 1; i >= 0; i--) {
+    if (ancestors[i].name === "JURISDICTION") return str(ancestors[i].attrs.id);
+  }
+  return null;
+}
+
+/** item.tag_col is "prefix|flag|tag^tag^tag"; returns the item_tag ids. */
+export function parseTagCol(tagCol: string | null | undefined): string[] {
+  if (!tagCol) return [];
+  const tags = tagCol.split("|")[2];
+  return tags ? tags.split("^").map(t => t.trim()).filter(Boolean) : [];
+}
+
+/** act.a_l is "lcmp_id,qty,flags"; act.a_m is "cmp_id,qty". */
+export function parseActComponents(aL: string | null | undefined, aM: string | null | undefined) {
+  const labor = aL ? aL.split(",") : [];
+  const material = aM ? aM.split(",") : [];
+  return {
+    lcmpId: str(labor[0]?.trim()),
+    lcmpQty: dec(labor[1]?.trim()),
+    lcmpFlags: str(labor[2]?.trim()),
+    cmpId: str(material[0]?.trim()),
+    cmpQty: dec(material[1]?.trim()),
+  };
+}
+
+/** Maps a top-level data element to its xact_* row, or null for wrappers and unknown elements. */
+export function mapXactElement(element: Pick<XmlElement, "name" | "attrs"> & { ancestors?: XmlAncestor[] }): MappedRow | null {
+  const a = element.attrs;
+  switch (element.name) {
+    case "PL_INFO":
+      return {
+        table: "plInfo",
+        row: {
+          id: a.id,
+          originalCurrency: int(a.originalCurrency),
+          sketchTagsVersion: int(a.sketchTagsVersion),
+          lcm: int(a.lcm),
+          inspectionTagsVersion: int(a.inspectionTagsVersion),
+          name: a.name,
+          culture: a.culture || "EN-US",
+          description: text(a.desc),
+          readOnly: bool(a.readOnly, true),
+          stamp: str(a.stamp),
+          created: date(a.created),
+          modified: date(a.modified),
+          currency: int(a.currency) ?? 1,
+          version: int(a.version) ?? 6,
+        },
+      };
+    case "CATEGORY":
+      return {
+        table: "category",
+        row: {
+          catId: int(a.catId),
+          id: int(a.id),
+          code: a.code,
+          cv: int(a.cv),
+          description: text(a.desc),
+          labDist: int(a.labDist),
+          matDist: int(a.matDist),
+          op: int(a.op),
+          tax: int(a.tax),
+          noPrefix: bool(a.noPrefix, false),
+        },
+      };
+    case "MINIMUM":
+      return {
+        table: "minimum",
+        row: {
+          id: a.id,
+          op: int(a.op),
+          cat: str(a.cat),
+          sel: str(a.sel),
+          description: text(a.desc),
+          tax: int(a.tax),
+          ph: int(a.ph),
+          amount: dec(a.amount) ?? "0",
+        },
+      };
+    case "ITEM":
+      return {
+        table: "item",
+        row: {
+          itemId: int(a.itemId),
+          id: int(a.id),
+          cat: str(a.cat),
+          sel: str(a.sel),
+          description: text(a.dsc),
+          unit: str(a.un),
+          op: int(a.op),
+          tax: int(a.tax),
+          le: int(a.le),
+          mdp: int(a.mdp),
+          dG: str(a.d_g),
+          sc: int(a.sc),
+          sg: int(a.sg),
+          noBsc: int(a.noBSC) ?? 0,
+          minId: str(a.min),
+          actCode: text(a.act),
+          tagCol: str(a.tagCol),
+          srchFct: int(a.srchFct),
+          xvAcv: int(a.xvACV) ?? 1,
+        },
+      };
+    case "CMP":
+    case "ECMP":
+      return {
+        table: element.name === "CMP" ? "cmp" : "ecmp",
+        row: { id: a.id, code: a.code, description: text(a.dsc), amt: dec(a.amt) ?? "0" },
+      };
+    case "LCMP":
+      return {
+        table: "lcmp",
+        row: {
+          id: a.id,
+          code: a.code,
+          description: text(a.dsc),
+          base: dec(a.base) ?? "0",
+          wcAmt: dec(a.wcAmt),
+          wcType: str(a.wcType),
+          markup: dec(a.markup),
+          fbAmt: dec(a.fbAmt),
+          fbPer: dec(a.fbPer),
+        },
+      };
+    case "SPT":
+    case "ESPT":
+      return {
+        table: element.name === "SPT" ? "spt" : "espt",
+        row: { id: a.id, code: a.code, description: text(a.desc), rate: dec(a.rate) ?? "0" },
+      };
+    case "LSPT":
+      return {
+        table: "lspt",
+        row: {
+          id: a.id,
+          code: a.code,
+          description: text(a.desc),
+          rate: dec(a.rate) ?? "0",
+          totalDesc: text(a.totalDesc),
+          totalRate: dec(a.totalRate),
+          restDesc: text(a.restDesc),
+          restRate: dec(a.restRate),
+        },
+      };
+    case "JURISDICTION":
+      return { table: "jurisdiction", row: { id: a.id, name: a.name } };
+    case "SALES_TAX":
+      return {
+        table: "salesTax",
+        row: {
+          id: a.id,
+          jurisdictionId: jurisdictionIdFor(element),
+          type: a.type,
+          base: str(a.base),
+          rate: dec(a.rate) ?? "0",
+          taxOp: str(a.taxOP),
+          exceptionsName: str(a.exceptionsName),
+        },
+      };
+    case "BURDENTAX":
+      return { table: "burdenTax", row: { id: a.id, jurisdictionId: jurisdictionIdFor(element), type: a.type, rate: dec(a.rate) ?? "0" } };
+    case "PL_FEE":
+      return {
+        table: "plFee",
+        row: {
+          id: a.id,
+          calcType: int(a.calcType),
+          qtyRound: int(a.qtyRound) ?? 0,
+          amount: dec(a.amount) ?? "0",
+          tagName: str(a.tagName),
+          dontApplyAddons: int(a.dontApplyAddons) ?? 0,
+          description: text(a.desc),
+          amountDesc: text(a.amountDesc),
+          consumptionDesc: text(a.consumptionDesc),
+        },
+      };
+    case "BASE_VARIABLE":
+      return { table: "baseVariable", row: { id: a.id, keyName: a.key } };
+    case "EXCEPTION":
+      return {
+        table: "exception",
+        row: {
+          id: a.id,
+          taxableOp: str(a.taxableOP),
+          portionTaxable: str(a.portionTaxable),
+          exceptionType: a.exception,
+        },
+      };
+    case "ITEM_TAG":
+      return { table: "itemTag", row: { id: a.id, value: a.v } };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Maps a child element (ACT, NOTE, DESCRIPTION, TRANSLATION) to its row.
+ * The parent link is filled in from the enclosing element.
+ */
+export function mapXactChildElement(element: XmlElement): MappedRow | null {
+  const parent = findParentKey(element.ancestors);
+  if (!parent) return null;
+  const a = element.attrs;
+  switch (element.name) {
+    case "ACT": {
+      if (parent.parentType !== "item") return null;
+      return {
+        table: "act",
+        row: {
+          itemId: Number(parent.parentId),
+          dInc: text(a.d_inc),
+          ph: int(a.ph),
+          actType: text(a.act),
+          aL: str(a.a_l),
+          aM: str(a.a_m),
+          ...parseActComponents(a.a_l, a.a_m),
+        },
+      };
+    }
+    case "NOTE":
+      return element.text ? { table: "note", row: { ...parent, content: element.text } } : null;
+    case "DESCRIPTION":
+      return element.text ? { table: "descriptionText", row: { ...parent, content: element.text } } : null;
+    case "TRANSLATION": {
+      const value = a.value ?? element.text;
+      const langCode = a.lang_code ?? a.langCode;
+      if (!value || !langCode) return null;
+      return { table: "translation", row: { ...parent, langCode, value } };
+    }
+    default:
+      return null;
+  }
+}
+
+export const CHILD_ELEMENTS = new Set(["ACT", "NOTE", "DESCRIPTION", "TRANSLATION"]);
+
+// ── Regional pricing ──
+
+export const REMOVE_PHASE = 21;
+
+export interface ComputedPrice {
+  materialCost: number;
+  laborCost: number;
+  equipmentCost: number;
+  act: Pick<XactAct, "aL" | "aM" | "ph"> | null;
+}
+
+function round4(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
+
+/**
+ * Unit price of an item from its ACT components. Removal work uses the
+ * remove-phase act; everything else the replace/install act. Labor is the
+ * LCMP base wage with its markup applied. PL_DOC v6 acts carry no equipment
+ * component, so equipment stays zero.
+ */
+export function priceFromActs(
+  acts: Array<Pick<XactAct, "ph" | "aL" | "aM" | "lcmpId" | "lcmpQty" | "cmpId" | "cmpQty">>,
+  activityType: string | null | undefined,
+  cmpById: Map<string, Pick<XactCmp, "amt">>,
+  lcmpById: Map<string, Pick<XactLcmp, "base" | "markup">>,
+): ComputedPrice {
+  const wantsRemoval = activityType === "remove";
+  const act = acts.find(x => (x.ph === REMOVE_PHASE) === wantsRemoval) ?? acts[0] ?? null;
+  if (!act) return { materialCost: 0, laborCost: 0, equipmentCost: 0, act: null };
+
+  const cmp = act.cmpId ? cmpById.get(act.cmpId) : undefined;
+  const materialCost = cmp ? (Number(cmp.amt) || 0) * (Number(act.cmpQty) || 0) : 0;
+
+  const lcmp = act.lcmpId ? lcmpById.get(act.lcmpId) : undefined;
+  const hourly = lcmp ? (Number(lcmp.base) || 0) * (1 + (Number(lcmp.markup) || 0) / 100) : 0;
+  const laborCost = hourly * (Number(act.lcmpQty) || 0);
+
+  return {
+    materialCost: round4(materialCost),
+    laborCost: round4(laborCost),
+    equipmentCost: 0,
+    act: { ph: act.ph, aL: act.aL, aM: act.aM },
+  };
+}
+
+/** Region code shared by every monthly list for an area, e.g. "FLFM8X" for "FLFM8X_NOV22". */
+export function regionCodeFor(priceListName: string): string {
+  return priceListName.split("_")[0].toUpperCase();
+}
+
+export interface RegionalPriceRow {
+  lineItemCode: string;
+  materialCost: string | number | null;
+  laborCost: string | number | null;
+  equipmentCost: string | number | null;
+}
+
+export interface PriceListDiff {
+  previousRegionId: string | null;
+  added: string[];
+  removed: string[];
+  changed: Array<{ lineItemCode: string; from: number; to: number; delta: number; pct: number | null }>;
+  unchangedCount: number;
+}
+
+function unitTotal(row: RegionalPriceRow): number {
+  return round4((Number(row.materialCost) || 0) + (Number(row.laborCost) || 0) + (Number(row.equipmentCost) || 0));
+}
+
+export function diffRegionalPrices(
+  previous: RegionalPriceRow[],
+  next: RegionalPriceRow[],
+  previousRegionId: string | null,
+): PriceListDiff {
+  const before = new Map(previous.map(r => [r.lineItemCode, unitTotal(r)]));
+  const after = new Map(next.map(r => [r.lineItemCode, unitTotal(r)]));
+  const changed: PriceListDiff["changed"] = [];
+  let unchangedCount = 0;
+
+  for (const [code, to] of Array.from(after.entries())) {
+    const from = before.get(code);
+    if (from === undefined) continue;
+    if (from === to) {
+      unchangedCount++;
+      continue;
+    }
+    changed.push({
+      lineItemCode: code,
+      from,
+      to,
+      delta: round4(to - from),
+      pct: from !== 0 ? Math.round(((to - from) / from) * 10000) / 100 : null,
+    });
+  }
+
+  return {
+    previousRegionId,
+    added: Array.from(after.keys()).filter(code => !before.has(code)).sort(),
+    removed: Array.from(before.keys()).filter(code => !after.has(code)).sort(),
+    changed: changed.sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta)),
+    unchangedCount,
+  };
+}
@@ -0,0 +1,457 @@
+import fs from "fs";
+import path from "path";
+import { and, desc, eq, getTableColumns, inArray, isNotNull, ne, sql } from "drizzle-orm";
+import { db } from "./db";
+import { logger } from "./logger";
+import { storage } from "./storage";
+import { readXmlElements } from "./xmlElementReader";
+import {
+  CHILD_ELEMENTS,
+  CHILD_STAGE,
+  IMPORT_STAGES,
+  diffRegionalPrices,
+  findParentKey,
+  mapXactChildElement,
+  mapXactElement,
+  parentKeyFor,
+  parseTagCol,
+  priceFromActs,
+  regionCodeFor,
+  type MappedRow,
+  type ParentKey,
+  type PriceListDiff,
+  type XactTableKey,
+} from "./xactPriceList";
+import {
+  regionalPriceSets, scopeLineItems, xactPriceListImports,
+  xactPlInfo, xactCategory, xactMinimum, xactItem, xactAct, xactCmp, xactLcmp, xactEcmp,
+  xactSpt, xactLspt, xactEspt, xactJurisdiction, xactSalesTax, xactBurdenTax, xactPlFee,
+  xactBaseVariable, xactException, xactItemTag, xactNote, xactDescriptionText, xactTranslation,
+  xactItemItemTag,
+  type XactPriceListImport,
+} from "@shared/schema";
+
+// ── XACTDOC Price List Importer ──
+//
+// Streams a monthly XACTDOC.XML price list from disk into the xact_* tables,
+// then rebuilds regional_price_sets for the list's region. Rows are upserted
+// on their XACTDOC ids, so re-running an import is safe, and every batch
+// commits together with the run's checkpoint so a failed import resumes
+// where it stopped.
+
+const BATCH_SIZE = 500;
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/** Upsert target (primary key property) for the tables loaded by XACTDOC id. */
+const UPSERT_TABLES: Partial<Record<XactTableKey, { table: any; pk: string }>> = {
+  plInfo: { table: xactPlInfo, pk: "id" },
+  jurisdiction: { table: xactJurisdiction, pk: "id" },
+  baseVariable: { table: xactBaseVariable, pk: "id" },
+  burdenTax: { table: xactBurdenTax, pk: "id" },
+  itemTag: { table: xactItemTag, pk: "id" },
+  category: { table: xactCategory, pk: "catId" },
+  cmp: { table: xactCmp, pk: "id" },
+  lcmp: { table: xactLcmp, pk: "id" },
+  ecmp: { table: xactEcmp, pk: "id" },
+  spt: { table: xactSpt, pk: "id" },
+  lspt: { table: xactLspt, pk: "id" },
+  espt: { table: xactEspt, pk: "id" },
+  exception: { table: xactException, pk: "id" },
+  salesTax: { table: xactSalesTax, pk: "id" },
+  plFee: { table: xactPlFee, pk: "id" },
+  minimum: { table: xactMinimum, pk: "id" },
+  item: { table: xactItem, pk: "itemId" },
+};
+
+/** Polymorphic child tables, replaced per parent on each import. */
+const POLYMORPHIC_TABLES = {
+  note: xactNote,
+  descriptionText: xactDescriptionText,
+  translation: xactTranslation,
+} as const;
+
+interface ImportState {
+  importId: number;
+  stage: number;
+  recordsProcessed: number;
+  counts: Record<string, number>;
+  priceListId: string | null;
+  priceListName: string | null;
+  regionId: string | null;
+}
+
+interface StageRecord {
+  mapped: MappedRow | null;
+  parent: ParentKey | null;
+  children: MappedRow[];
+}
+
+interface ReferenceIds {
+  categoryCodes?: Set<string>;
+  minimumIds?: Set<string>;
+  cmpIds?: Set<string>;
+  lcmpIds?: Set<string>;
+  itemTagIds?: Set<string>;
+}
+
+const runningImports = new Set<number>();
+
+export function priceListDirectory(): string {
+  return path.resolve(process.env.XACT_PRICE_LIST_DIR || "data/price-lists");
+}
+
+/** Resolves a file name inside the price list directory; null if it escapes it. */
+export function resolvePriceListFile(fileName: string): string | null {
+  const dir = priceListDirectory();
+  const fullPath = path.resolve(dir, fileName);
+  return fullPath.startsWith(dir + path.sep) ? fullPath : null;
+}
+
+export function isPriceListImportRunning(importId: number): boolean {
+  return runningImports.has(importId);
+}
+
+function bump(counts: Record<string, number>, key: string, by = 1) {
+  counts[key] = (counts[key] || 0) + by;
+}
+
+function parentKeyString(key: ParentKey): string {
+  return `${key.parentType}:${key.parentId}`;
+}
+
+async function loadIds(table: any, column: any): Promise<Set<string>> {
+  const rows: Array<{ value: unknown }> = await db.select({ value: column }).from(table);
+  return new Set(rows.map(r => String(r.value)));
+}
+
+async function loadReferenceIds(stage: number): Promise<ReferenceIds> {
+  if (stage === 1) return { categoryCodes: await loadIds(xactCategory, xactCategory.code) };
+  if (stage === 2) {
+    return {
+      categoryCodes: await loadIds(xactCategory, xactCategory.code),
+      minimumIds: await loadIds(xactMinimum, xactMinimum.id),
+    };
+  }
+  if (stage === CHILD_STAGE) {
+    return {
+      cmpIds: await loadIds(xactCmp, xactCmp.id),
+      lcmpIds: await loadIds(xactLcmp, xactLcmp.id),
+      itemTagIds: await loadIds(xactItemTag, xactItemTag.id),
+    };
+  }
+  return {};
+}
+
+/** Nulls out references the price list doesn't define, so one bad row can't fail the batch. */
+function dropUnknownRefs(row: Record<string, unknown>, field: string, known: Set<string> | undefined, counts: Record<string, number>) {
+  if (!known || row[field] == null) return;
+  if (!known.has(String(row[field]))) {
+    row[field] = null;
+    bump(counts, "unresolvedReferences");
+  }
+}
+
+async function upsertRows(tx: Tx, key: XactTableKey, rows: Record<string, unknown>[]) {
+  const spec = UPSERT_TABLES[key];
+  if (!spec || rows.length === 0) return;
+  // ON CONFLICT can't touch the same row twice in one statement
+  const unique = Array.from(new Map(rows.map(r => [String(r[spec.pk]), r])).values());
+  const set: Record<string, any> = {};
+  for (const [prop, column] of Object.entries(getTableColumns(spec.table))) {
+    if (prop === spec.pk) continue;
+    set[prop] = sql.raw(`excluded."${(column as any).name}"`);
+  }
+  await tx.insert(spec.table).values(unique).onConflictDoUpdate({ target: spec.table[spec.pk], set });
+}
+
+async function writeRows(tx: Tx, state: ImportState, batch: StageRecord[], refs: ReferenceIds) {
+  const byTable = new Map<XactTableKey, Record<string, unknown>[]>();
+  for (const { mapped } of batch) {
+    if (!mapped) continue;
+    const spec = UPSERT_TABLES[mapped.table];
+    if (!spec || mapped.row[spec.pk] == null) {
+      bump(state.counts, "skipped");
+      continue;
+    }
+    const row = mapped.row;
+    if (mapped.table === "minimum") dropUnknownRefs(row, "cat", refs.categoryCodes, state.counts);
+    if (mapped.table === "item") {
+      dropUnknownRefs(row, "cat", refs.categoryCodes, state.counts);
+      dropUnknownRefs(row, "minId", refs.minimumIds, state.counts);
+    }
+    if (mapped.table === "plInfo") {
+      state.priceListId = String(row.id);
+      state.priceListName = String(row.name);
+      state.regionId = state.regionId ?? String(row.name).toUpperCase();
+    }
+    if (!byTable.has(mapped.table)) byTable.set(mapped.table, []);
+    byTable.get(mapped.table)!.push(row);
+  }
+  for (const [table, rows] of Array.from(byTable.entries())) {
+    await upsertRows(tx, table, rows);
+    bump(state.counts, table, rows.length);
+  }
+}
+
+async function writeChildren(tx: Tx, state: ImportState, batch: StageRecord[], refs: ReferenceIds) {
+  const itemIds: number[] = [];
+  const acts: Record<string, unknown>[] = [];
+  const itemTags = new Map<string, { itemId: number; itemTagId: string }>();
+  const parentsByType = new Map<string, string[]>();
+  const polymorphic: Record<keyof typeof POLYMORPHIC_TABLES, Record<string, unknown>[]> = {
+    note: [],
+    descriptionText: [],
+    translation: [],
+  };
+
+  for (const record of batch) {
+    if (!record.parent) continue;
+    const { parentType, parentId } = record.parent;
+    if (!parentsByType.has(parentType)) parentsByType.set(parentType, []);
+    parentsByType.get(parentType)!.push(parentId);
+
+    if (record.mapped?.table === "item") {
+      const itemId = Number(parentId);
+      itemIds.push(itemId);
+      for (const tagId of parseTagCol(record.mapped.row.tagCol as string | null)) {
+        if (refs.itemTagIds?.has(tagId)) itemTags.set(`${itemId}:${tagId}`, { itemId, itemTagId: tagId });
+      }
+    }
+    for (const child of record.children) {
+      if (child.table === "act") {
+        dropUnknownRefs(child.row, "lcmpId", refs.lcmpIds, state.counts);
+        dropUnknownRefs(child.row, "cmpId", refs.cmpIds, state.counts);
+        acts.push(child.row);
+      } else if (child.table in POLYMORPHIC_TABLES) {
+        polymorphic[child.table as keyof typeof POLYMORPHIC_TABLES].push(child.row);
+      }
+    }
+  }
+
+  if (itemIds.length) {
+    await tx.delete(xactAct).where(inArray(xactAct.itemId, itemIds));
+    await tx.delete(xactItemItemTag).where(inArray(xactItemItemTag.itemId, itemIds));
+  }
+  for (const table of Object.values(POLYMORPHIC_TABLES)) {
+    for (const [parentType, parentIds] of Array.from(parentsByType.entries())) {
+      await tx.delete(table).where(and(eq(table.parentType, parentType), inArray(table.parentId, parentIds)));
+    }
+  }
+
+  if (acts.length) await tx.insert(xactAct).values(acts as any);
+  if (itemTags.size) await tx.insert(xactItemItemTag).values(Array.from(itemTags.values()));
+  for (const [key, rows] of Object.entries(polymorphic) as Array<[keyof typeof POLYMORPHIC_TABLES, Record<string, unknown>[]]>) {
+    if (rows.length) await tx.insert(POLYMORPHIC_TABLES[key]).values(rows as any);
+    bump(state.counts, key, rows.length);
+  }
+  bump(state.counts, "act", acts.length);
+  bump(state.counts, "itemItemTag", itemTags.size);
+}
+
+async function flushBatch(state: ImportState, batch: StageRecord[], refs: ReferenceIds) {
+  await db.transaction(async (tx) => {
+    if (state.stage === CHILD_STAGE) {
+      await writeChildren(tx, state, batch, refs);
+    } else {
+      await writeRows(tx, state, batch, refs);
+    }
+    state.recordsProcessed += batch.length;
+    await tx.update(xactPriceListImports).set({
+      stage: state.stage,
+      recordsProcessed: state.recordsProcessed,
+      counts: state.counts,
+      priceListId: state.priceListId,
+      priceListName: state.priceListName,
+      regionId: state.regionId,
+      updatedAt: new Date(),
+    }).where(eq(xactPriceListImports.id, state.importId));
+  });
+}
+
+async function runStage(filePath: string, state: ImportState) {
+  const names = new Set(IMPORT_STAGES[state.stage]);
+  const childStage = state.stage === CHILD_STAGE;
+  const refs = await loadReferenceIds(state.stage);
+  const pendingChildren = new Map<string, MappedRow[]>();
+  let skip = state.recordsProcessed;
+  let batch: StageRecord[] = [];
+
+  for await (const element of readXmlElements(fs.createReadStream(filePath))) {
+    if (childStage && CHILD_ELEMENTS.has(element.name)) {
+      const parent = findParentKey(element.ancestors);
+      const mapped = parent ? mapXactChildElement(element) : null;
+      if (!parent || !mapped) continue;
+      const key = parentKeyString(parent);
+      if (!pendingChildren.has(key)) pendingChildren.set(key, []);
+      pendingChildren.get(key)!.push(mapped);
+      continue;
+    }
+    if (!names.has(element.name)) continue;
+
+    const parent = childStage ? parentKeyFor(element) : null;
+    const children = parent ? pendingChildren.get(parentKeyString(parent)) ?? [] : [];
+    if (parent) pendingChildren.delete(parentKeyString(parent));
+
+    // Records before the checkpoint were committed by an earlier run
+    if (skip > 0) {
+      skip--;
+      continue;
+    }
+
+    batch.push({ mapped: mapXactElement(element), parent, children });
+    if (batch.length >= BATCH_SIZE) {
+      await flushBatch(state, batch, refs);
+      batch = [];
+    }
+  }
+  if (batch.length) await flushBatch(state, batch, refs);
+}
+
+/** Previous completed list for the same region code, used as the diff baseline. */
+async function findPreviousRegionId(state: ImportState): Promise<string | null> {
+  if (!state.priceListName) return null;
+  const regionCode = regionCodeFor(state.priceListName);
+  const previous = await db.select().from(xactPriceListImports)
+    .where(and(eq(xactPriceListImports.status, "completed"), ne(xactPriceListImports.id, state.importId)))
+    .orderBy(desc(xactPriceListImports.completedAt));
+  const match = previous.find(run => run.priceListName && regionCodeFor(run.priceListName) === regionCode);
+  return match?.regionId ?? null;
+}
+
+async function refreshRegionalPrices(state: ImportState): Promise<{ rows: number; diff: PriceListDiff }> {
+  if (!state.regionId || !state.priceListId) {
+    throw new Error("Price list has no PL_INFO element; cannot determine its region");
+  }
+  const regionId = state.regionId;
+  const [plInfo] = await db.select().from(xactPlInfo).where(eq(xactPlInfo.id, state.priceListId));
+
+  const catalog = await db.select().from(scopeLineItems).where(and(
+    isNotNull(scopeLineItems.xactCategoryCode),
+    isNotNull(scopeLineItems.xactSelector),
+    eq(scopeLineItems.isActive, true),
+  ));
+  const categories = Array.from(new Set(catalog.map(c => c.xactCategoryCode!)));
+  const items = categories.length
+    ? await db.select().from(xactItem).where(inArray(xactItem.cat, categories))
+    : [];
+  const itemBySelector = new Map(items.map(i => [`${i.cat}|${i.sel}`, i]));
+  const matchedIds = Array.from(new Set(
+    catalog.map(c => itemBySelector.get(`${c.xactCategoryCode}|${c.xactSelector}`)?.itemId).filter((id): id is number => id != null),
+  ));
+  const acts = matchedIds.length ? await db.select().from(xactAct).where(inArray(xactAct.itemId, matchedIds)) : [];
+  const actsByItem = new Map<number, typeof acts>();
+  for (const act of acts) {
+    if (!actsByItem.has(act.itemId)) actsByItem.set(act.itemId, []);
+    actsByItem.get(act.itemId)!.push(act);
+  }
+  const cmpById = new Map((await db.select().from(xactCmp)).map(c => [c.id, c]));
+  const lcmpById = new Map((await db.select().from(xactLcmp)).map(l => [l.id, l]));
+
+  const effectiveDate = (plInfo?.created ?? new Date()).toISOString().split("T")[0];
+  const regionName = plInfo?.description || state.priceListName || regionId;
+  const rows: Array<typeof regionalPriceSets.$inferInsert> = [];
+  for (const entry of catalog) {
+    const item = itemBySelector.get(`${entry.xactCategoryCode}|${entry.xactSelector}`);
+    if (!item) continue;
+    const price = priceFromActs(actsByItem.get(item.itemId) ?? [], entry.activityType, cmpById, lcmpById);
+    if (!price.act) continue;
+    rows.push({
+      regionId,
+      regionName,
+      lineItemCode: entry.code,
+      materialCost: String(price.materialCost),
+      laborCost: String(price.laborCost),
+      equipmentCost: String(price.equipmentCost),
+      effectiveDate,
+      priceListId: state.priceListId,
+      activityType: entry.activityType,
+      xactItemId: item.itemId,
+      laborFormula: price.act.aL,
+      materialFormula: price.act.aM,
+    });
+  }
+
+  const previousRegionId = (await findPreviousRegionId(state)) ?? regionId;
+  const previousRows = await db.select().from(regionalPriceSets).where(eq(regionalPriceSets.regionId, previousRegionId));
+
+  await db.transaction(async (tx) => {
+    await tx.delete(regionalPriceSets).where(eq(regionalPriceSets.regionId, regionId));
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      await tx.insert(regionalPriceSets).values(rows.slice(i, i + BATCH_SIZE));
+    }
+  });
+
+  return {
+    rows: rows.length,
+    diff: diffRegionalPrices(previousRows, rows.map(r => ({
+      lineItemCode: r.lineItemCode,
+      materialCost: r.materialCost ?? null,
+      laborCost: r.laborCost ?? null,
+      equipmentCost: r.equipmentCost ?? null,
+    })), previousRegionId),
+  };
+}
+
+/**
+ * Runs (or resumes) an import from its last checkpoint. If the file on disk
+ * changed size since the checkpoint was written, the import starts over.
+ */
+export async function runPriceListImport(importId: number): Promise<XactPriceListImport> {
+  if (runningImports.has(importId)) {
+    throw new Error(`Price list import ${importId} is already running`);
+  }
+  runningImports.add(importId);
+  try {
+    const run = await storage.getPriceListImport(importId);
+    if (!run) throw new Error(`Price list import ${importId} not found`);
+    const filePath = resolvePriceListFile(run.fileName);
+    if (!filePath) throw new Error(`Price list file ${run.fileName} is outside the price list directory`);
+    const { size } = await fs.promises.stat(filePath);
+
+    const restart = run.fileSize != null && run.fileSize !== size;
+    const state: ImportState = {
+      importId,
+      stage: restart ? 0 : run.stage,
+      recordsProcessed: restart ? 0 : run.recordsProcessed,
+      counts: restart ? {} : { ...((run.counts as Record<string, number> | null) || {}) },
+      priceListId: run.priceListId,
+      priceListName: run.priceListName,
+      regionId: run.regionId,
+    };
+    await storage.updatePriceListImport(importId, {
+      status: "running",
+      fileSize: size,
+      stage: state.stage,
+      recordsProcessed: state.recordsProcessed,
+      counts: state.counts,
+      error: null,
+    });
+
+    try {
+      for (; state.stage < IMPORT_STAGES.length; state.stage++, state.recordsProcessed = 0) {
+        await runStage(filePath, state);
+        await storage.updatePriceListImport(importId, { stage: state.stage + 1, recordsProcessed: 0 });
+      }
+
+      const { rows, diff } = await refreshRegionalPrices(state);
+      state.counts.regionalPriceSets = rows;
+      logger.info("PriceListImport", `Imported ${state.priceListName} into region ${state.regionId}: ${rows} regional prices`);
+      return (await storage.updatePriceListImport(importId, {
+        status: "completed",
+        counts: state.counts,
+        diff,
+        completedAt: new Date(),
+      }))!;
+    } catch (error: any) {
+      await storage.updatePriceListImport(importId, {
+        status: "failed",
+        error: error?.message || String(error),
+        counts: state.counts,
+      });
+      throw error;
+    }
+  } finally {
+    runningImports.delete(importId);
+  }
+}
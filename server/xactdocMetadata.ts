@@ -4,6 +4,8 @@
  * Ensures ESX files include all fields required for Xactimate import validation
  */
 
+import type { Carrier } from "@shared/schema";
+
 /**
  * Complete metadata structure for XACTDOC generation
  */
@@ -11,7 +13,9 @@ export interface XactdocMetadata {
   transactionId: string;
   claimNumber: string;
   policyNumber: string;
+  carrierId: string;
   carrierName: string;
+  carrierNaicCode?: string;
   estimateType: "ESTIMATE" | "SUPPLEMENT";
 
   peril: {
@@ -135,6 +139,7 @@ export function buildXactdocMetadata(params: {
   isSupplemental?: boolean;
   supplementalReason?: string;
   adjusterData?: any;
+  carrier?: Pick<Carrier, "code" | "name" | "xactnetCarrierId" | "naicCode"> | null;
 }): XactdocMetadata {
   const {
     claim,
@@ -144,6 +149,7 @@ export function buildXactdocMetadata(params: {
     isSupplemental,
     supplementalReason,
     adjusterData,
+    carrier,
   } = params;
 
   const summary = {
@@ -162,7 +168,9 @@ export function buildXactdocMetadata(params: {
     transactionId,
     claimNumber: claim?.claimNumber ?? "",
     policyNumber: briefing?.coverageSnapshot?.policyNumber ?? claim?.policyNumber ?? "",
-    carrierName: claim?.carrierName ?? "Claims IQ",
+    carrierId: carrier?.xactnetCarrierId || carrier?.code || "CLAIMSIQ",
+    carrierName: carrier?.name ?? claim?.carrierName ?? "Claims IQ",
+    carrierNaicCode: carrier?.naicCode ?? undefined,
     estimateType: isSupplemental ? "SUPPLEMENT" : "ESTIMATE",
 
     peril: {
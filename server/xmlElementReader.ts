@@ -0,0 +1,161 @@
+import { StringDecoder } from "string_decoder";
+
+// ── Streaming XML element reader ──
+//
+// Just enough XML for flat, attribute-heavy documents such as XACTDOC price
+// lists: elements are yielded as they close, so a multi-hundred-megabyte file
+// never has to be held in memory. No DTD or namespace handling.
+
+export interface XmlAncestor {
+  name: string;
+  attrs: Record<string, string>;
+}
+
+export interface XmlElement {
+  name: string;
+  attrs: Record<string, string>;
+  /** Trimmed, entity-decoded text content (direct text only). */
+  text: string;
+  /** Open elements enclosing this one, outermost first. */
+  ancestors: XmlAncestor[];
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+};
+
+export function decodeXmlEntities(value: string): string {
+  if (!value.includes("&")) return value;
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+const ATTR_RE = /([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  ATTR_RE.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTR_RE.exec(source)) !== null) {
+    attrs[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? "");
+  }
+  return attrs;
+}
+
+/** Index of the ">" closing the tag opened at `start`, skipping quoted attribute values. */
+function findTagEnd(buf: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start + 1; i < buf.length; i++) {
+    const ch = buf[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === "\"" || ch === "'") {
+      quote = ch;
+    } else if (ch === ">") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Yields every element of the document in close order (children before
+ * their parent). Accepts any chunked source, e.g. fs.createReadStream().
+ */
+export async function* readXmlElements(source: AsyncIterable<string | Buffer>): AsyncGenerator<XmlElement> {
+  const decoder = new StringDecoder("utf8");
+  const stack: Array<XmlAncestor & { text: string }> = [];
+  let buf = "";
+
+  function* drain(final: boolean): Generator<XmlElement> {
+    let pos = 0;
+    while (pos < buf.length) {
+      const lt = buf.indexOf("<", pos);
+      if (lt === -1) {
+        if (stack.length) stack[stack.length - 1].text += buf.slice(pos);
+        pos = buf.length;
+        break;
+      }
+      if (lt > pos && stack.length) stack[stack.length - 1].text += buf.slice(pos, lt);
+      pos = lt;
+
+      // Wait for enough input to tell comments and CDATA apart from tags
+      if (!final && buf.length - lt < 9) break;
+
+      let end: number;
+      if (buf.startsWith("<!--", lt)) {
+        end = buf.indexOf("-->", lt + 4);
+        if (end === -1) break;
+        pos = end + 3;
+        continue;
+      }
+      if (buf.startsWith("<![CDATA[", lt)) {
+        end = buf.indexOf("]]>", lt + 9);
+        if (end === -1) break;
+        // CDATA is literal text; escape "&" so the decode on close leaves it intact
+        if (stack.length) stack[stack.length - 1].text += buf.slice(lt + 9, end).replace(/&/g, "&amp;");
+        pos = end + 3;
+        continue;
+      }
+      if (buf.startsWith("<?", lt)) {
+        end = buf.indexOf("?>", lt + 2);
+        if (end === -1) break;
+        pos = end + 2;
+        continue;
+      }
+      if (buf.startsWith("<!", lt)) {
+        end = buf.indexOf(">", lt + 2);
+        if (end === -1) break;
+        pos = end + 1;
+        continue;
+      }
+
+      end = findTagEnd(buf, lt);
+      if (end === -1) break;
+      const tag = buf.slice(lt + 1, end);
+      pos = end + 1;
+
+      if (tag[0] === "/") {
+        const open = stack.pop();
+        if (!open) continue;
+        yield {
+          name: open.name,
+          attrs: open.attrs,
+          text: decodeXmlEntities(open.text.trim()),
+          ancestors: stack.map(({ name, attrs }) => ({ name, attrs })),
+        };
+        continue;
+      }
+
+      const selfClosing = tag.endsWith("/");
+      const body = selfClosing ? tag.slice(0, -1) : tag;
+      const nameEnd = body.search(/\s|$/);
+      const name = body.slice(0, nameEnd);
+      const attrs = parseAttributes(body.slice(nameEnd));
+      if (selfClosing) {
+        yield { name, attrs, text: "", ancestors: stack.map(({ name, attrs }) => ({ name, attrs })) };
+      } else {
+        stack.push({ name, attrs, text: "" });
+      }
+    }
+    buf = buf.slice(pos);
+  }
+
+  for await (const chunk of source) {
+    buf += typeof chunk === "string" ? chunk : decoder.write(chunk);
+    yield* drain(false);
+  }
+  buf += decoder.end();
+  yield* drain(true);
+}
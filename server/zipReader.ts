@@ -0,0 +1,103 @@
+import { inflateRawSync } from "zlib";
+
+// ── Minimal ZIP Reader ──
+//
+// Reads stored and deflated entries from an in-memory ZIP archive. Enough for
+// XLSX workbooks and ESX files; ZIP64 and encrypted archives are rejected.
+// Archives come from uploads, so inflation is capped: an entry may not grow
+// past the size its central directory declares, and neither that nor the
+// archive total may exceed the limits below.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+export const MAX_ZIP_ENTRY_BYTES = 100 * 1024 * 1024;
+export const MAX_ZIP_TOTAL_BYTES = 200 * 1024 * 1024;
+
+export interface ZipLimits {
+  maxEntryBytes?: number;
+  maxTotalBytes?: number;
+}
+
+function findEndOfCentralDirectory(buf: Buffer): number {
+  // EOCD is 22 bytes plus an optional comment of up to 64KB
+  const minOffset = Math.max(0, buf.length - 22 - 0xffff);
+  for (let i = buf.length - 22; i >= minOffset; i--) {
+    if (buf.readUInt32LE(i) === EOCD_SIGNATURE) return i;
+  }
+  return -1;
+}
+
+/** Inflates no more than the declared size, so a lying header cannot inflate a bomb. */
+function inflateEntry(raw: Buffer, declaredSize: number, name: string): Buffer {
+  let data: Buffer;
+  try {
+    data = inflateRawSync(raw, { maxOutputLength: Math.max(1, declaredSize) });
+  } catch (error: any) {
+    if (error?.code === "ERR_BUFFER_TOO_LARGE") throw new Error(`ZIP entry larger than declared: ${name}`);
+    throw error;
+  }
+  if (data.length !== declaredSize) throw new Error(`Corrupt ZIP entry size: ${name}`);
+  return data;
+}
+
+/**
+ * Returns every file entry in the archive keyed by its path.
+ * Directory entries are skipped.
+ */
+export function readZipEntries(buf: Buffer, limits: ZipLimits = {}): Map<string, Buffer> {
+  const maxEntryBytes = limits.maxEntryBytes ?? MAX_ZIP_ENTRY_BYTES;
+  const maxTotalBytes = limits.maxTotalBytes ?? MAX_ZIP_TOTAL_BYTES;
+  if (buf.length < 22) throw new Error("Not a ZIP archive");
+  const eocd = findEndOfCentralDirectory(buf);
+  if (eocd === -1) throw new Error("Not a ZIP archive");
+
+  const entryCount = buf.readUInt16LE(eocd + 10);
+  let offset = buf.readUInt32LE(eocd + 16);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  const entries = new Map<string, Buffer>();
+  let totalBytes = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (buf.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw new Error("Corrupt ZIP central directory");
+    }
+    const flags = buf.readUInt16LE(offset + 8);
+    const method = buf.readUInt16LE(offset + 10);
+    const compressedSize = buf.readUInt32LE(offset + 20);
+    const uncompressedSize = buf.readUInt32LE(offset + 24);
+    const nameLen = buf.readUInt16LE(offset + 28);
+    const extraLen = buf.readUInt16LE(offset + 30);
+    const commentLen = buf.readUInt16LE(offset + 32);
+    const localOffset = buf.readUInt32LE(offset + 42);
+    const name = buf.toString("utf8", offset + 46, offset + 46 + nameLen);
+    offset += 46 + nameLen + extraLen + commentLen;
+
+    if (name.endsWith("/")) continue;
+    if (flags & 0x1) throw new Error(`Encrypted ZIP entry not supported: ${name}`);
+    if (uncompressedSize > maxEntryBytes) throw new Error(`ZIP entry too large: ${name}`);
+    totalBytes += uncompressedSize;
+    if (totalBytes > maxTotalBytes) throw new Error("ZIP archive too large when extracted");
+    if (buf.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) {
+      throw new Error(`Corrupt ZIP local header: ${name}`);
+    }
+
+    const localNameLen = buf.readUInt16LE(localOffset + 26);
+    const localExtraLen = buf.readUInt16LE(localOffset + 28);
+    const dataStart = localOffset + 30 + localNameLen + localExtraLen;
+    const raw = buf.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      if (raw.length !== uncompressedSize) throw new Error(`Corrupt ZIP entry size: ${name}`);
+      entries.set(name, Buffer.from(raw));
+    } else if (method === 8) {
+      entries.set(name, inflateEntry(raw, uncompressedSize, name));
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method}: ${name}`);
+    }
+  }
+  return entries;
+}
@@ -27,3 +27,72 @@ export const toolFailure = (
   error,
   meta: { ...meta, tool },
 });
+
+/** Realtime tools the server executes through POST /api/inspection/:sessionId/tools. */
+export const SERVER_TOOLS = [
+  "get_workflow_state",
+  "set_phase",
+  "set_context",
+  "complete_flow_step",
+  "create_structure",
+  "create_room",
+  "create_sub_area",
+  "complete_room",
+  "add_opening",
+  "update_opening",
+  "delete_opening",
+  "add_sketch_annotation",
+  "set_inspection_context",
+  "get_inspection_state",
+  "get_progress",
+  "get_estimate_summary",
+  "get_completeness",
+  "get_scope_gaps",
+  "request_phase_validation",
+  "skip_step",
+  "complete_inspection",
+  "update_structure",
+  "delete_structure",
+  "list_rooms",
+  "find_room",
+  "rename_room",
+  "get_room_details",
+  "set_room_adjacency",
+  "update_room_dimensions",
+  "delete_room",
+  "add_damage",
+  "confirm_damage_suggestion",
+  "update_damage",
+  "delete_damage",
+  "add_line_item",
+  "update_line_item",
+  "remove_line_item",
+  "get_room_scope",
+  "generate_scope",
+  "validate_scope",
+  "apply_peril_template",
+  "delete_scope_item",
+  "apply_smart_macro",
+  "check_related_items",
+  "add_water_classification",
+  "log_moisture_reading",
+  "update_moisture_reading",
+  "delete_moisture_reading",
+  "log_test_square",
+  "update_test_square",
+  "delete_test_square",
+  "list_photos",
+  "delete_photo",
+  "undo_last_action",
+  "redo",
+] as const;
+
+export type ServerToolName = (typeof SERVER_TOOLS)[number];
+
+export const isServerTool = (name: string): name is ServerToolName => (SERVER_TOOLS as readonly string[]).includes(name);
+
+export type ToolExecutionRequest = {
+  name: string;
+  args?: Record<string, unknown>;
+  callId?: string;
+};
@@ -26,7 +26,7 @@ export const WORKFLOW_STEPS: Record<WorkflowPhase, string[]> = {
   export: ["export.validate", "export.generate"],
 };
 
-const GLOBAL_TOOLS = ["get_workflow_state", "set_phase", "set_context", "trigger_photo_capture", "analyze_photo", "get_inspection_state"];
+export const GLOBAL_TOOLS = ["get_workflow_state", "set_phase", "set_context", "trigger_photo_capture", "analyze_photo", "get_inspection_state", "undo_last_action", "redo", "complete_flow_step"];
 
 export const PHASE_ALLOWED_TOOLS: Record<WorkflowPhase, string[]> = {
   briefing: [...GLOBAL_TOOLS],
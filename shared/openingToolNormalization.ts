@@ -70,6 +70,16 @@ function autoConvertIfInches(value: number, dimension: "width" | "height", openi
   return value;
 }
 
+/** Size used when the adjuster names an opening without giving its dimensions. */
+export function defaultOpeningSize(openingType: string | undefined): OpeningDimensionOutput {
+  const type = (openingType || "").toLowerCase();
+  if (type.includes("overhead") || type.includes("garage")) return { widthFt: 16, heightFt: 8 };
+  if (type.includes("window")) return { widthFt: 3, heightFt: 4 };
+  if (type.includes("missing")) return { widthFt: 8, heightFt: 8 };
+  if (type.includes("french") || type.includes("sliding")) return { widthFt: 6, heightFt: 7 };
+  return { widthFt: 3, heightFt: 7 };
+}
+
 export function normalizeOpeningDimensions(args: OpeningDimensionInput & { openingType?: string }, defaults: OpeningDimensionOutput): OpeningDimensionOutput {
   let widthFt = parseFeetValue(args.widthFt) ?? parseFeetValue(args.width) ?? defaults.widthFt;
   let heightFt = parseFeetValue(args.heightFt) ?? parseFeetValue(args.height) ?? defaults.heightFt;
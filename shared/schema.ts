@@ -51,6 +51,13 @@ export const claims = pgTable(
     estimatedDurationMin: integer("estimated_duration_min").default(60),
     routeOrder: integer("route_order"),
     calendarEventId: varchar("calendar_event_id", { length: 255 }),
+    carrierId: integer("carrier_id").references(() => carriers.id, { onDelete: "set null" }),
+    depreciationScheduleId: integer("depreciation_schedule_id").references(() => depreciationSchedules.id, { onDelete: "set null" }),
+      // Pins the claim to one schedule; otherwise the carrier's (or default) schedule applies
+    taxJurisdictionId: varchar("tax_jurisdiction_id", { length: 64 }).references(() => xactJurisdiction.id, { onDelete: "set null" }),
+      // Adjuster override; otherwise the jurisdiction is resolved from state/zip
+    settlementOverrides: jsonb("settlement_overrides").default({}),
+      // Settlement rule changes from accepted endorsement proposals, applied over the carrier's rules
     createdAt: timestamp("created_at").defaultNow(),
     updatedAt: timestamp("updated_at").defaultNow(),
   },
@@ -149,6 +156,8 @@ export const inspectionSessions = pgTable(
     currentPhase: integer("current_phase").default(1),
     completedPhases: integer("completed_phases").array().default([]),
     activeFlowId: integer("active_flow_id"),
+    activeFlowVersionId: integer("active_flow_version_id").references(() => inspectionFlowVersions.id, { onDelete: "set null" }),
+    // The published flow version the session started with; later edits to the flow do not reach it
     currentStepIndex: integer("current_step_index").default(0),
     currentRoomId: integer("current_room_id"),
     currentStructure: varchar("current_structure", { length: 100 }).default("Main Dwelling"),
@@ -373,17 +382,29 @@ export const lineItems = pgTable(
     tradeCode: varchar("trade_code", { length: 10 }),
     coverageType: varchar("coverage_type", { length: 1 }).default("A"),
     provenance: varchar("provenance", { length: 20 }).default("voice"),
+    dimensionProvenance: varchar("dimension_provenance", { length: 20 }),
+      // "measured" | "estimated" | "defaulted" — source of the dimensions behind a derived quantity
     // ── Financial / Depreciation Columns ──────────────
     taxAmount: real("tax_amount").default(0),
     age: real("age"),                                   // Item age in years (e.g., 15.0 for a 15-year-old roof)
     lifeExpectancy: real("life_expectancy"),             // Expected useful life in years (e.g., 30.0 for architectural shingles)
     depreciationPercentage: real("depreciation_pct"),    // Computed or manual override: age/life × 100, capped at 100
     depreciationAmount: real("depreciation_amount"),     // Computed: RCV × depreciationPercentage / 100
+    depreciationScheduleVersionId: integer("depreciation_schedule_version_id").references(() => depreciationScheduleVersions.id, { onDelete: "set null" }),
+      // Schedule version in force at the date of loss when depreciation was computed; null = built-in table
     // Pro-Grade financial attributes
     coverageBucket: varchar("coverage_bucket", { length: 30 }).default("Coverage A"),
     qualityGrade: varchar("quality_grade", { length: 30 }),
     applyOAndP: boolean("apply_o_and_p").default(false),
     macroSource: varchar("macro_source", { length: 50 }),
+    sublimitKey: varchar("sublimit_key", { length: 40 }),
+      // Key of a sublimit on the coverage's policy rule (e.g., "mold", "debris_removal"); null = plain coverage
+    isCodeUpgrade: boolean("is_code_upgrade").default(false),
+      // Code-required upgrade (drip edge, GFCI, arc-fault breakers); estimated under Ordinance or Law
+    incurredAt: timestamp("incurred_at"),
+      // Paid When Incurred items: when the work was confirmed done; null = payment still deferred
+    xactMinimumId: varchar("xact_minimum_id", { length: 32 }).references(() => xactMinimum.id, { onDelete: "set null" }),
+      // Set on provenance "minimum" lines: the Xactimate minimum charge this line tops the items up to
     createdAt: timestamp("created_at").defaultNow(),
   },
   (table) => ({
@@ -424,6 +445,8 @@ export const moistureReadings = pgTable(
     reading: real("reading").notNull(),
     materialType: varchar("material_type", { length: 50 }),
     dryStandard: real("dry_standard"),
+    // Drying-log day (YYYY-MM-DD); null means the day the reading was recorded
+    readingDate: varchar("reading_date", { length: 10 }),
     createdAt: timestamp("created_at").defaultNow(),
   },
   (table) => ({
@@ -432,6 +455,47 @@ export const moistureReadings = pgTable(
   }),
 );
 
+// Psychrometric readings taken on each drying-log visit. Grains per pound is
+// derived from temperature and relative humidity rather than stored.
+export const atmosphericReadings = pgTable(
+  "atmospheric_readings",
+  {
+    id: serial("id").primaryKey(),
+    sessionId: integer("session_id").notNull().references(() => inspectionSessions.id, { onDelete: "cascade" }),
+    roomId: integer("room_id").references(() => inspectionRooms.id, { onDelete: "cascade" }),
+    readingDate: varchar("reading_date", { length: 10 }).notNull(),
+    placement: varchar("placement", { length: 20 }).notNull().default("affected"),
+      // "affected" | "unaffected" | "outside" | "dehu_exhaust"
+    temperatureF: real("temperature_f").notNull(),
+    relativeHumidity: real("relative_humidity").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    sessionIdIdx: index("atmospheric_readings_session_id_idx").on(table.sessionId),
+  }),
+);
+
+// Drying equipment set in a room. Equipment still running has no removedOn
+// and is counted through the current day.
+export const dryingEquipment = pgTable(
+  "drying_equipment",
+  {
+    id: serial("id").primaryKey(),
+    sessionId: integer("session_id").notNull().references(() => inspectionSessions.id, { onDelete: "cascade" }),
+    roomId: integer("room_id").notNull().references(() => inspectionRooms.id, { onDelete: "cascade" }),
+    equipmentType: varchar("equipment_type", { length: 30 }).notNull(),
+      // "air_mover" | "dehumidifier" | "large_dehumidifier" | "air_scrubber"
+    quantity: integer("quantity").notNull().default(1),
+    placedOn: varchar("placed_on", { length: 10 }).notNull(),
+    removedOn: varchar("removed_on", { length: 10 }),
+    notes: text("notes"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    sessionIdIdx: index("drying_equipment_session_id_idx").on(table.sessionId),
+  }),
+);
+
 // ── Test Squares (Forensic Hail/Wind Assessment) ──────────────
 // Logs 10x10 test square results for hail/wind damage claims
 export const testSquares = pgTable("test_squares", {
@@ -625,18 +689,24 @@ export const xactJurisdiction = pgTable("xact_jurisdiction", {
 
 export const xactSalesTax = pgTable("xact_sales_tax", {
   id: varchar("id", { length: 64 }).primaryKey(),
+  jurisdictionId: varchar("jurisdiction_id", { length: 64 }),
   type: varchar("type", { length: 64 }).notNull(),
   base: varchar("base", { length: 64 }),
   rate: numeric("rate", { precision: 12, scale: 4 }).notNull(),
   taxOp: varchar("tax_op", { length: 32 }),
   exceptionsName: varchar("exceptions_name", { length: 128 }),
-});
+}, (table) => ({
+  jurisdictionIdx: index("xact_sales_tax_jurisdiction_idx").on(table.jurisdictionId),
+}));
 
 export const xactBurdenTax = pgTable("xact_burden_tax", {
   id: varchar("id", { length: 64 }).primaryKey(),
+  jurisdictionId: varchar("jurisdiction_id", { length: 64 }),
   type: varchar("type", { length: 64 }).notNull(),
   rate: numeric("rate", { precision: 12, scale: 4 }).notNull(),
-});
+}, (table) => ({
+  jurisdictionIdx: index("xact_burden_tax_jurisdiction_idx").on(table.jurisdictionId),
+}));
 
 export const xactPlFee = pgTable("xact_pl_fee", {
   id: varchar("id", { length: 32 }).primaryKey(),
@@ -729,6 +799,43 @@ export type XactNote = typeof xactNote.$inferSelect;
 export type XactDescriptionText = typeof xactDescriptionText.$inferSelect;
 export type XactTranslation = typeof xactTranslation.$inferSelect;
 
+// ── Price List Imports ──────────────────────────────
+// One row per XACTDOC import run. stage/recordsProcessed is the resume
+// checkpoint, committed together with each batch of upserts.
+export const xactPriceListImports = pgTable("xact_price_list_imports", {
+  id: serial("id").primaryKey(),
+  fileName: text("file_name").notNull(),
+  fileSize: integer("file_size"),
+  priceListId: varchar("price_list_id", { length: 64 }),
+  // PL_INFO id, known once the first pass reaches it
+  priceListName: varchar("price_list_name", { length: 64 }),
+  regionId: varchar("region_id", { length: 50 }),
+  status: varchar("status", { length: 20 }).notNull().default("pending"),
+  // "pending" | "running" | "completed" | "failed"
+  stage: integer("stage").notNull().default(0),
+  recordsProcessed: integer("records_processed").notNull().default(0),
+  counts: jsonb("counts"),
+  // { [table]: rows upserted }
+  diff: jsonb("diff"),
+  // Regional price changes against the previous list for the region
+  error: text("error"),
+  startedBy: varchar("started_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  priceListIdx: index("xact_price_list_imports_price_list_idx").on(table.priceListId),
+}));
+
+export const insertXactPriceListImportSchema = createInsertSchema(xactPriceListImports).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type XactPriceListImport = typeof xactPriceListImports.$inferSelect;
+export type InsertXactPriceListImport = z.infer<typeof insertXactPriceListImportSchema>;
+
 // ══════════════════════════════════════════════════════════════
 // Application-Level Catalog & Pricing
 // ══════════════════════════════════════════════════════════════
@@ -824,6 +931,7 @@ export const scopeItems = pgTable("scope_items", {
   status: varchar("status", { length: 20 }).default("active"),
   parentScopeItemId: integer("parent_scope_item_id"),
   quantityIsPlaceholder: boolean("quantity_is_placeholder").default(false),
+  dimensionProvenance: varchar("dimension_provenance", { length: 20 }),
   lastQuantityRecalcAt: timestamp("last_quantity_recalc_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -835,6 +943,43 @@ export const insertScopeItemSchema = createInsertSchema(scopeItems).omit({
 export type ScopeItem = typeof scopeItems.$inferSelect;
 export type InsertScopeItem = z.infer<typeof insertScopeItemSchema>;
 
+// ── Matching (uniform appearance) ───
+// One assessment per roof facet or elevation: whether the damaged material can
+// still be matched and how the undamaged material around it is seen. The
+// recommendation comes from the claim state's matching rules.
+export const matchingAssessments = pgTable(
+  "matching_assessments",
+  {
+    id: serial("id").primaryKey(),
+    sessionId: integer("session_id").notNull().references(() => inspectionSessions.id, { onDelete: "cascade" }),
+    roomId: integer("room_id").notNull().references(() => inspectionRooms.id, { onDelete: "cascade" }),
+    materialAvailability: varchar("material_availability", { length: 20 }).notNull().default("unknown"),
+      // "available" | "unavailable" | "unknown"
+    lineOfSight: boolean("line_of_sight").notNull().default(true),
+      // Undamaged material is seen together with the repair
+    continuous: boolean("continuous").notNull().default(true),
+      // No natural break (hip, corner, trim band) between the repair and the rest
+    notes: text("notes"),
+    recommendation: varchar("recommendation", { length: 20 }).notNull().default("none"),
+      // "none" | "full_slope" | "full_elevation" | "full_roof"
+    recommendationReason: text("recommendation_reason"),
+    ruleState: varchar("rule_state", { length: 2 }),
+    appliedAt: timestamp("applied_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    roomUnique: uniqueIndex("matching_assessments_room_unique").on(table.roomId),
+    sessionIdIdx: index("matching_assessments_session_id_idx").on(table.sessionId),
+  }),
+);
+
+export const insertMatchingAssessmentSchema = createInsertSchema(matchingAssessments).omit({
+  id: true, createdAt: true, updatedAt: true,
+});
+export type MatchingAssessment = typeof matchingAssessments.$inferSelect;
+export type InsertMatchingAssessment = z.infer<typeof insertMatchingAssessmentSchema>;
+
 // ── Scope Summary (aggregate totals per trade per session) ───
 export const scopeSummary = pgTable(
   "scope_summary",
@@ -877,6 +1022,8 @@ export const insertDamageObservationSchema = createInsertSchema(damageObservatio
 export const insertLineItemSchema = createInsertSchema(lineItems).omit({ id: true, createdAt: true });
 export const insertInspectionPhotoSchema = createInsertSchema(inspectionPhotos).omit({ id: true, createdAt: true });
 export const insertMoistureReadingSchema = createInsertSchema(moistureReadings).omit({ id: true, createdAt: true });
+export const insertAtmosphericReadingSchema = createInsertSchema(atmosphericReadings).omit({ id: true, createdAt: true });
+export const insertDryingEquipmentSchema = createInsertSchema(dryingEquipment).omit({ id: true, createdAt: true });
 export const insertTestSquareSchema = createInsertSchema(testSquares).omit({ id: true, createdAt: true });
 export const insertVoiceTranscriptSchema = createInsertSchema(voiceTranscripts).omit({ id: true, timestamp: true });
 export const insertInspectionSessionEventSchema = createInsertSchema(inspectionSessionEvents).omit({ id: true, ts: true });
@@ -901,6 +1048,10 @@ export type InspectionPhoto = typeof inspectionPhotos.$inferSelect;
 export type InsertInspectionPhoto = z.infer<typeof insertInspectionPhotoSchema>;
 export type MoistureReading = typeof moistureReadings.$inferSelect;
 export type InsertMoistureReading = z.infer<typeof insertMoistureReadingSchema>;
+export type AtmosphericReading = typeof atmosphericReadings.$inferSelect;
+export type InsertAtmosphericReading = z.infer<typeof insertAtmosphericReadingSchema>;
+export type DryingEquipment = typeof dryingEquipment.$inferSelect;
+export type InsertDryingEquipment = z.infer<typeof insertDryingEquipmentSchema>;
 export type TestSquare = typeof testSquares.$inferSelect;
 export type InsertTestSquare = z.infer<typeof insertTestSquareSchema>;
 export type VoiceTranscript = typeof voiceTranscripts.$inferSelect;
@@ -921,12 +1072,43 @@ export type InsertSupplementalClaim = z.infer<typeof insertSupplementalClaimSche
 // ── Inspection Flows (Peril-Specific Workflow Engine) ──────────────
 // Dynamic, database-driven inspection workflows that replace the hardcoded 8-phase system.
 // Each flow contains ordered steps with agent prompts, required tools, and completion criteria.
+// Steps may branch on session facts and repeat once per structure or room (server/workflow/flowEngine.ts).
+export type FlowFact =
+  | "peril"
+  | "water.category"
+  | "water.class"
+  | "structure.count"
+  | "structure.types"
+  | "room.count"
+  | "testSquare.count"
+  | "testSquare.failed";
+
+export type StepCondition =
+  | { all: StepCondition[] }
+  | { any: StepCondition[] }
+  | { not: StepCondition }
+  | {
+      fact: FlowFact;
+      op: "eq" | "neq" | "gt" | "gte" | "lt" | "lte" | "in" | "includes";
+      value: string | number | Array<string | number>;
+    };
+
+export type StepLoop = {
+  over: "structures" | "rooms";
+  /** structureType (structures) or viewType (rooms) values to repeat for; all when omitted */
+  types?: string[];
+};
+
 export type InspectionStep = {
   id: string;
   phaseName: string;
   agentPrompt: string;
   requiredTools: string[];
   completionCriteria: string;
+  /** The step is skipped while this is false */
+  condition?: StepCondition;
+  /** The step runs once per matching entity */
+  loop?: StepLoop;
 };
 
 export const inspectionFlows = pgTable("inspection_flows", {
@@ -950,6 +1132,43 @@ export const insertInspectionFlowSchema = createInsertSchema(inspectionFlows).om
 export type InsertInspectionFlow = z.infer<typeof insertInspectionFlowSchema>;
 export type InspectionFlow = typeof inspectionFlows.$inferSelect;
 
+// A flow's own steps are its working draft; publishing freezes them as the
+// next version. Versions are never edited, so sessions pinned to one keep the
+// steps they started with.
+export type FlowStepChanges = {
+  added: string[];
+  removed: string[];
+  modified: string[];
+  reordered: boolean;
+};
+
+export const inspectionFlowVersions = pgTable(
+  "inspection_flow_versions",
+  {
+    id: serial("id").primaryKey(),
+    flowId: integer("flow_id").notNull().references(() => inspectionFlows.id, { onDelete: "cascade" }),
+    version: integer("version").notNull(),
+    name: text("name").notNull(),
+    description: text("description"),
+    steps: jsonb("steps").$type<InspectionStep[]>().notNull(),
+    changelog: text("changelog").notNull(),
+    changes: jsonb("changes").$type<FlowStepChanges>(),
+    // Step ids added/removed/modified relative to the previous version; null for the first
+    publishedBy: varchar("published_by").references(() => users.id),
+    publishedAt: timestamp("published_at").defaultNow(),
+  },
+  (table) => ({
+    flowVersionUnique: uniqueIndex("inspection_flow_versions_flow_version_unique").on(table.flowId, table.version),
+  }),
+);
+
+export const insertInspectionFlowVersionSchema = createInsertSchema(inspectionFlowVersions).omit({
+  id: true,
+  publishedAt: true,
+});
+export type InsertInspectionFlowVersion = z.infer<typeof insertInspectionFlowVersionSchema>;
+export type InspectionFlowVersion = typeof inspectionFlowVersions.$inferSelect;
+
 export const userSettings = pgTable("user_settings", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }).unique(),
@@ -966,9 +1185,23 @@ export const policyRules = pgTable(
     id: serial("id").primaryKey(),
     claimId: integer("claim_id").notNull().references(() => claims.id, { onDelete: "cascade" }),
     coverageType: varchar("coverage_type", { length: 20 }).notNull(),
-    // coverageType enum: "Coverage A" | "Coverage B" | "Coverage C" | "Coverage D"
+    // coverageType enum: "Coverage A" | "Coverage B" | "Coverage C" | "Coverage D" | "Ordinance or Law"
     policyLimit: real("policy_limit"),
     deductible: real("deductible"),
+    deductibleType: varchar("deductible_type", { length: 20 }).notNull().default("flat"),
+    // "flat" = deductible in dollars | "percentage" = deductiblePct of this coverage's policyLimit
+    deductiblePct: real("deductible_pct"),
+    perilDeductibles: jsonb("peril_deductibles").default([]),
+    // Replace the all-other-perils deductible when the claim's peril matches.
+    // Example: [{ "peril": "wind", "type": "percentage", "amount": 2 }, { "peril": "hurricane", "type": "percentage", "amount": 5 }]
+    coinsurancePct: real("coinsurance_pct"),
+    // Coinsurance requirement (e.g., 80 for 80%); null = no coinsurance clause
+    replacementCostValue: real("replacement_cost_value"),
+    // Adjuster-entered replacement cost of the insured property, tested against coinsurancePct
+    sublimits: jsonb("sublimits").default([]),
+    // Sublimits and additional coverages; line items opt in via lineItems.sublimitKey.
+    // Example: [{ "key": "mold", "label": "Mold remediation", "capType": "flat", "amount": 10000, "additional": false },
+    //           { "key": "trees", "label": "Trees & shrubs", "capType": "per_item", "amount": 500, "aggregateCap": 5000, "additional": true }]
     applyRoofSchedule: boolean("apply_roof_schedule").default(false),
     // When true: roofing items under this coverage use Non-Recoverable depreciation regardless of depreciationType
     roofScheduleAge: real("roof_schedule_age"),
@@ -981,6 +1214,8 @@ export const policyRules = pgTable(
     // Array of trade codes excluded from O&P for this coverage.
     // Example: ["RFG", "EXT"] means Roofing and Exterior/Siding don't get O&P.
     // Empty array = all eligible trades get O&P (default behavior).
+    exclusions: jsonb("exclusions").default([]),
+    // Exclusions added by endorsements, e.g. ["cosmetic_hail"]
     createdAt: timestamp("created_at").defaultNow(),
   },
   (table) => ({
@@ -997,6 +1232,43 @@ export const insertPolicyRuleSchema = createInsertSchema(policyRules).omit({
 export type PolicyRule = typeof policyRules.$inferSelect;
 export type InsertPolicyRule = z.infer<typeof insertPolicyRuleSchema>;
 
+// ── Endorsement Proposals ──────────────────────────
+export const endorsementProposals = pgTable(
+  "endorsement_proposals",
+  {
+    id: serial("id").primaryKey(),
+    claimId: integer("claim_id").notNull().references(() => claims.id, { onDelete: "cascade" }),
+    endorsementId: varchar("endorsement_id", { length: 40 }).notNull(),
+    // Form number as extracted (e.g., "HO 88 02 10 22")
+    formNumber: varchar("form_number", { length: 20 }).notNull(),
+    // Library form the endorsement matched (e.g., "HO 88 02")
+    effect: varchar("effect", { length: 40 }).notNull(),
+    // "acv_roof_settlement" | "roof_payment_schedule" | "water_backup_sublimit" | "cosmetic_hail_exclusion" | "ordinance_law_increase"
+    title: text("title").notNull(),
+    summary: text("summary").notNull(),
+    policyRuleChange: jsonb("policy_rule_change"),
+    // Example: { "coverageType": "Coverage A", "sublimit": { "key": "water_backup", "label": "Water back-up", "capType": "flat", "amount": 10000 } }
+    settlementRuleChange: jsonb("settlement_rule_change"),
+    // Partial settlement rules, e.g. { "applyRoofDepreciationSchedule": true }
+    status: varchar("status", { length: 20 }).notNull().default("pending"),
+    // "pending" | "accepted" | "rejected" — nothing takes effect until accepted
+    decidedBy: varchar("decided_by").references(() => users.id),
+    decidedAt: timestamp("decided_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    claimFormEffectUnique: uniqueIndex("endorsement_proposals_claim_form_effect_unique").on(table.claimId, table.formNumber, table.effect),
+  }),
+);
+
+export const insertEndorsementProposalSchema = createInsertSchema(endorsementProposals).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type EndorsementProposal = typeof endorsementProposals.$inferSelect;
+export type InsertEndorsementProposal = z.infer<typeof insertEndorsementProposalSchema>;
+
 // ── Tax Rate Rules per Category ───────────────────
 export const taxRules = pgTable("tax_rules", {
   id: serial("id").primaryKey(),
@@ -1015,6 +1287,9 @@ export const taxRules = pgTable("tax_rules", {
   // "all" = tax on total price (material + labor + equipment)
   isDefault: boolean("is_default").default(false),
   // If true, this is the fallback tax for categories not matched by other rules
+  source: varchar("source", { length: 20 }).notNull().default("manual"),
+  // "manual" | "policy" (generated with policy rules) | "jurisdiction" (from the claim's tax jurisdiction)
+  // Manual rules take precedence; policy and jurisdiction rules are regenerated
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -1026,6 +1301,440 @@ export const insertTaxRuleSchema = createInsertSchema(taxRules).omit({
 export type TaxRule = typeof taxRules.$inferSelect;
 export type InsertTaxRule = z.infer<typeof insertTaxRuleSchema>;
 
+// ── Tax Jurisdiction Areas ────────────────────────
+// Maps a loss location to an XACTDOC tax jurisdiction. A row with a zip
+// prefix beats a state-wide row; the longest matching prefix wins.
+export const taxJurisdictionAreas = pgTable("tax_jurisdiction_areas", {
+  id: serial("id").primaryKey(),
+  jurisdictionId: varchar("jurisdiction_id", { length: 64 }).notNull().references(() => xactJurisdiction.id, { onDelete: "cascade" }),
+  state: varchar("state", { length: 2 }).notNull(),
+  zipPrefix: varchar("zip_prefix", { length: 10 }),
+  // null = whole state
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  stateIdx: index("tax_jurisdiction_areas_state_idx").on(table.state),
+}));
+
+export const insertTaxJurisdictionAreaSchema = createInsertSchema(taxJurisdictionAreas).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type TaxJurisdictionArea = typeof taxJurisdictionAreas.$inferSelect;
+export type InsertTaxJurisdictionArea = z.infer<typeof insertTaxJurisdictionAreaSchema>;
+
+// ── Contents Inventory (Coverage C) ───────────────
+export const contentsItems = pgTable(
+  "contents_items",
+  {
+    id: serial("id").primaryKey(),
+    claimId: integer("claim_id").notNull().references(() => claims.id, { onDelete: "cascade" }),
+    description: text("description").notNull(),
+    category: varchar("category", { length: 50 }).notNull().default("General"),
+    // Contents category, e.g. "Electronics", "Furniture", "Clothing" — drives life expectancy
+    roomName: varchar("room_name", { length: 100 }),
+    quantity: real("quantity").notNull().default(1),
+    ageYears: real("age_years"),
+    condition: varchar("condition", { length: 20 }),
+    // "new" | "good" | "average" | "fair" | "poor"
+    originalCost: real("original_cost"),
+    // What the insured paid per unit (informational)
+    replacementSource: varchar("replacement_source", { length: 200 }),
+    // Retailer or URL the replacement price was taken from
+    replacementPrice: real("replacement_price"),
+    // Per-unit replacement cost; falls back to originalCost when missing
+    lifeExpectancy: real("life_expectancy"),
+    depreciationType: varchar("depreciation_type", { length: 30 }).default("Recoverable"),
+    depreciationPercentage: real("depreciation_pct"),
+    depreciationAmount: real("depreciation_amount"),
+    source: varchar("source", { length: 20 }).default("manual"),
+    // "manual" | "import"
+    notes: text("notes"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    claimIdIdx: index("contents_items_claim_id_idx").on(table.claimId),
+  }),
+);
+
+export const insertContentsItemSchema = createInsertSchema(contentsItems).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type ContentsItem = typeof contentsItems.$inferSelect;
+export type InsertContentsItem = z.infer<typeof insertContentsItemSchema>;
+
+// ── Recoverable Depreciation Holdback ───────────────
+export const depreciationHoldbacks = pgTable(
+  "depreciation_holdbacks",
+  {
+    id: serial("id").primaryKey(),
+    claimId: integer("claim_id").notNull().references(() => claims.id, { onDelete: "cascade" }),
+    coverageType: varchar("coverage_type", { length: 20 }).notNull(),
+    // "Coverage A" | "Coverage B" | "Coverage C"
+    withheldAmount: real("withheld_amount").notNull().default(0),
+    // Recoverable depreciation held back from the ACV payment
+    repairDeadline: timestamp("repair_deadline"),
+    // Date by which the insured must complete repairs to recover the holdback
+    status: varchar("status", { length: 20 }).notNull().default("open"),
+    // "open" | "partially_released" | "released" | "closed"
+    notes: text("notes"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    claimCoverageUnique: uniqueIndex("depreciation_holdbacks_claim_coverage_unique").on(table.claimId, table.coverageType),
+  }),
+);
+
+export const insertDepreciationHoldbackSchema = createInsertSchema(depreciationHoldbacks).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type DepreciationHoldback = typeof depreciationHoldbacks.$inferSelect;
+export type InsertDepreciationHoldback = z.infer<typeof insertDepreciationHoldbackSchema>;
+
+export const holdbackProofs = pgTable(
+  "holdback_proofs",
+  {
+    id: serial("id").primaryKey(),
+    holdbackId: integer("holdback_id").notNull().references(() => depreciationHoldbacks.id, { onDelete: "cascade" }),
+    claimId: integer("claim_id").notNull().references(() => claims.id, { onDelete: "cascade" }),
+    fileName: text("file_name").notNull(),
+    fileSize: integer("file_size"),
+    storagePath: text("storage_path").notNull(),
+    description: text("description"),
+    // e.g. "Contractor final invoice", "Photos of completed roof"
+    uploadedBy: varchar("uploaded_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    holdbackIdIdx: index("holdback_proofs_holdback_id_idx").on(table.holdbackId),
+  }),
+);
+
+export const insertHoldbackProofSchema = createInsertSchema(holdbackProofs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type HoldbackProof = typeof holdbackProofs.$inferSelect;
+export type InsertHoldbackProof = z.infer<typeof insertHoldbackProofSchema>;
+
+export const holdbackReleases = pgTable(
+  "holdback_releases",
+  {
+    id: serial("id").primaryKey(),
+    holdbackId: integer("holdback_id").notNull().references(() => depreciationHoldbacks.id, { onDelete: "cascade" }),
+    claimId: integer("claim_id").notNull().references(() => claims.id, { onDelete: "cascade" }),
+    amount: real("amount").notNull(),
+    proofId: integer("proof_id").references(() => holdbackProofs.id, { onDelete: "set null" }),
+    releasedBy: varchar("released_by").references(() => users.id),
+    notes: text("notes"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    holdbackIdIdx: index("holdback_releases_holdback_id_idx").on(table.holdbackId),
+  }),
+);
+
+export const insertHoldbackReleaseSchema = createInsertSchema(holdbackReleases).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type HoldbackRelease = typeof holdbackReleases.$inferSelect;
+export type InsertHoldbackRelease = z.infer<typeof insertHoldbackReleaseSchema>;
+
+// ── Claim Payments Ledger ───────────────────────────
+// Rows are never updated or deleted: a void is a negative entry pointing at
+// the payment it cancels, and a reissue is a new payment pointing at the
+// voided one.
+export const claimPayments = pgTable(
+  "claim_payments",
+  {
+    id: serial("id").primaryKey(),
+    claimId: integer("claim_id").notNull().references(() => claims.id, { onDelete: "cascade" }),
+    entryType: varchar("entry_type", { length: 10 }).notNull().default("payment"),
+    // "payment" | "void" | "reissue"
+    paymentType: varchar("payment_type", { length: 20 }).notNull(),
+    // "advance" | "acv" | "rd" | "supplement"
+    coverageType: varchar("coverage_type", { length: 20 }).notNull().default("Coverage A"),
+    payee: text("payee").notNull(),
+    mortgagee: text("mortgagee"),
+    // Mortgage company named on the check, when included
+    amount: real("amount").notNull(),
+    method: varchar("method", { length: 10 }).notNull().default("check"),
+    // "check" | "eft"
+    reference: varchar("reference", { length: 100 }),
+    // Check number or EFT trace number
+    relatedPaymentId: integer("related_payment_id"),
+    // Void: the payment cancelled. Reissue: the voided payment it replaces.
+    memo: text("memo"),
+    issuedBy: varchar("issued_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    claimIdIdx: index("claim_payments_claim_id_idx").on(table.claimId),
+  }),
+);
+
+export const insertClaimPaymentSchema = createInsertSchema(claimPayments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type ClaimPayment = typeof claimPayments.$inferSelect;
+export type InsertClaimPayment = z.infer<typeof insertClaimPaymentSchema>;
+
+// ── Estimate Versions ───────────────────────────────
+// Frozen copies of a session's estimate, taken on every ESX/PDF export and
+// on demand, so later line item edits never rewrite what was reported.
+export const estimateVersions = pgTable(
+  "estimate_versions",
+  {
+    id: serial("id").primaryKey(),
+    sessionId: integer("session_id").notNull().references(() => inspectionSessions.id, { onDelete: "cascade" }),
+    claimId: integer("claim_id").notNull().references(() => claims.id, { onDelete: "cascade" }),
+    versionNumber: integer("version_number").notNull(),
+    name: varchar("name", { length: 200 }).notNull(),
+    trigger: varchar("trigger", { length: 20 }).notNull().default("manual"),
+    // "manual" | "esx_export" | "pdf_export"
+    snapshot: jsonb("snapshot").notNull(),
+    // { lineItems, rooms, openings, settlementRules, totals }
+    totals: jsonb("totals"),
+    // Copy of snapshot.totals so version lists don't need the full snapshot
+    createdBy: varchar("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    sessionVersionUnique: uniqueIndex("estimate_versions_session_version_unique").on(table.sessionId, table.versionNumber),
+  }),
+);
+
+export const insertEstimateVersionSchema = createInsertSchema(estimateVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type EstimateVersion = typeof estimateVersions.$inferSelect;
+export type InsertEstimateVersion = z.infer<typeof insertEstimateVersionSchema>;
+
+// ── Estimate Reconciliations ────────────────────────
+// A contractor's estimate (CSV or ESX) held against a session. Only the
+// contractor lines and the adjuster's accept decisions are stored; rows are
+// re-aligned with the session's current line items on every read.
+export const estimateReconciliations = pgTable(
+  "estimate_reconciliations",
+  {
+    id: serial("id").primaryKey(),
+    sessionId: integer("session_id").notNull().references(() => inspectionSessions.id, { onDelete: "cascade" }),
+    claimId: integer("claim_id").notNull().references(() => claims.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 200 }).notNull(),
+    sourceType: varchar("source_type", { length: 10 }).notNull(),
+    // "csv" | "xlsx" | "esx"
+    fileName: text("file_name").notNull(),
+    contractorLines: jsonb("contractor_lines").notNull(),
+    // ContractorLine[] — { lineNo, roomName, trade, xactCode, description, quantity, unit, unitPrice, totalPrice }
+    acceptedRows: jsonb("accepted_rows").notNull().default([]),
+    // [{ rowKey, status, supplementalId, acceptedBy, acceptedAt }]
+    supplementalId: integer("supplemental_id").references(() => supplementalClaims.id, { onDelete: "set null" }),
+    // Draft supplemental that accepted rows are written into
+    createdBy: varchar("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    sessionIdx: index("estimate_reconciliations_session_id_idx").on(table.sessionId),
+  }),
+);
+
+export const insertEstimateReconciliationSchema = createInsertSchema(estimateReconciliations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type EstimateReconciliation = typeof estimateReconciliations.$inferSelect;
+export type InsertEstimateReconciliation = z.infer<typeof insertEstimateReconciliationSchema>;
+
+// ── Carriers ────────────────────────────────────────
+// Carrier profiles drive settlement rules for every claim that references
+// them; a claim without a carrier settles on getDefaultSettlementRules().
+export const carriers = pgTable(
+  "carriers",
+  {
+    id: serial("id").primaryKey(),
+    code: varchar("code", { length: 50 }).notNull(),
+    // Uppercase key, e.g. "CARRIER_STATE_FARM"; depreciation schedules are matched on it
+    name: varchar("name", { length: 200 }).notNull(),
+    xactnetCarrierId: varchar("xactnet_carrier_id", { length: 50 }),
+    // Carrier ID written to XACTDOC <carrierId>
+    naicCode: varchar("naic_code", { length: 10 }),
+    opThreshold: integer("op_threshold").notNull().default(3),
+    taxOnOP: boolean("tax_on_op").notNull().default(false),
+    taxOnLabor: boolean("tax_on_labor").notNull().default(true),
+    depreciationBasis: varchar("depreciation_basis", { length: 20 }).notNull().default("rcv_full"),
+    // "rcv_full" | "rcv_before_op" | "materials_only"
+    overheadPct: real("overhead_pct").notNull().default(10),
+    profitPct: real("profit_pct").notNull().default(10),
+    opExcludedTrades: jsonb("op_excluded_trades").notNull().default([]),
+    // Trade codes never given O&P, e.g. ["MIT"]
+    applyRoofSchedule: boolean("apply_roof_schedule").notNull().default(false),
+    laborEfficiency: real("labor_efficiency").notNull().default(100),
+    notes: text("notes"),
+    isActive: boolean("is_active").notNull().default(true),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    codeUnique: uniqueIndex("carriers_code_unique").on(table.code),
+  }),
+);
+
+export const insertCarrierSchema = createInsertSchema(carriers).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type Carrier = typeof carriers.$inferSelect;
+export type InsertCarrier = z.infer<typeof insertCarrierSchema>;
+
+// ── Gate Rule Packs ─────────────────────────────────
+// Carrier- or flow-specific checks evaluated by runAllWorkflowGates on top of
+// the built-in gates. A pack with neither a carrier nor a flow applies to
+// every session. Rules are validated by gateRulesSchema before they are saved.
+export type GateRuleEntity = "structure" | "room" | "opening" | "damage" | "lineItem" | "photo" | "moistureReading" | "testSquare";
+
+export type GateRuleCondition = {
+  /** Dotted path into the entity row, e.g. "viewType" or "dimensions.height" */
+  field: string;
+  op: "eq" | "neq" | "in" | "contains" | "exists" | "gt" | "gte" | "lt" | "lte";
+  value?: unknown;
+};
+
+export type GateRulePredicate =
+  | { type: "count"; min?: number; max?: number }
+  | { type: "every"; where: GateRuleCondition[] }
+  | { type: "related"; entity: GateRuleEntity; where?: GateRuleCondition[]; min?: number };
+
+export type GateRule = {
+  id: string;
+  gate: "sketch" | "photoDamage" | "scope" | "export";
+  selector: {
+    entity: GateRuleEntity;
+    where?: GateRuleCondition[];
+    /** Only entities with at least one related entity matching this */
+    having?: { entity: GateRuleEntity; where?: GateRuleCondition[] };
+  };
+  predicate: GateRulePredicate;
+  severity: "BLOCKER" | "WARNING" | "INFO";
+  /** {name} and {count} are filled in from the entity and the count checked */
+  message: string;
+  suggestion?: string;
+};
+
+export type GateSeverityOverride = {
+  code: string;
+  severity: "BLOCKER" | "WARNING" | "INFO";
+};
+
+export const gateRulePacks = pgTable(
+  "gate_rule_packs",
+  {
+    id: serial("id").primaryKey(),
+    name: varchar("name", { length: 200 }).notNull(),
+    description: text("description"),
+    carrierId: integer("carrier_id").references(() => carriers.id, { onDelete: "cascade" }),
+    flowId: integer("flow_id").references(() => inspectionFlows.id, { onDelete: "cascade" }),
+    rules: jsonb("rules").$type<GateRule[]>().notNull().default([]),
+    severityOverrides: jsonb("severity_overrides").$type<GateSeverityOverride[]>().notNull().default([]),
+    // Built-in issue codes whose severity this pack changes, e.g. PHOTO_ROOM_UNASSOCIATED → BLOCKER
+    isActive: boolean("is_active").notNull().default(true),
+    createdBy: varchar("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    carrierIdIdx: index("gate_rule_packs_carrier_id_idx").on(table.carrierId),
+    flowIdIdx: index("gate_rule_packs_flow_id_idx").on(table.flowId),
+  }),
+);
+
+export const insertGateRulePackSchema = createInsertSchema(gateRulePacks).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type GateRulePack = typeof gateRulePacks.$inferSelect;
+export type InsertGateRulePack = z.infer<typeof insertGateRulePackSchema>;
+
+// ── Depreciation Schedules ──────────────────────────
+// Carrier life expectancy tables. A schedule with no carrier code is the
+// default for claims whose carrier has none. Each version is immutable once
+// written; the one in force at the date of loss is the latest whose
+// effectiveFrom is on or before it.
+export const depreciationSchedules = pgTable(
+  "depreciation_schedules",
+  {
+    id: serial("id").primaryKey(),
+    name: varchar("name", { length: 200 }).notNull(),
+    carrierCode: varchar("carrier_code", { length: 50 }),
+    description: text("description"),
+    isActive: boolean("is_active").notNull().default(true),
+    createdBy: varchar("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    carrierIdx: index("depreciation_schedules_carrier_code_idx").on(table.carrierCode),
+  }),
+);
+
+export const depreciationScheduleVersions = pgTable(
+  "depreciation_schedule_versions",
+  {
+    id: serial("id").primaryKey(),
+    scheduleId: integer("schedule_id").notNull().references(() => depreciationSchedules.id, { onDelete: "cascade" }),
+    version: integer("version").notNull(),
+    effectiveFrom: varchar("effective_from", { length: 10 }).notNull(),
+    // YYYY-MM-DD
+    lifeExpectancy: jsonb("life_expectancy").notNull(),
+    // Record<category, { keywords: [{ match, life }], default }> — same shape as LIFE_EXPECTANCY_TABLE
+    roofPaymentSchedule: jsonb("roof_payment_schedule").notNull().default([]),
+    // [{ material, maxAge, paymentPercent }] — roofing pays a % of RCV by material and roof age
+    notes: text("notes"),
+    createdBy: varchar("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    scheduleVersionUnique: uniqueIndex("depreciation_schedule_versions_schedule_version_unique").on(table.scheduleId, table.version),
+  }),
+);
+
+export const insertDepreciationScheduleSchema = createInsertSchema(depreciationSchedules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertDepreciationScheduleVersionSchema = createInsertSchema(depreciationScheduleVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type DepreciationSchedule = typeof depreciationSchedules.$inferSelect;
+export type InsertDepreciationSchedule = z.infer<typeof insertDepreciationScheduleSchema>;
+export type DepreciationScheduleVersion = typeof depreciationScheduleVersions.$inferSelect;
+export type InsertDepreciationScheduleVersion = z.infer<typeof insertDepreciationScheduleVersionSchema>;
+
 export const insertScopeLineItemSchema = createInsertSchema(scopeLineItems).omit({ id: true });
 export const insertRegionalPriceSetSchema = createInsertSchema(regionalPriceSets).omit({ id: true });
 
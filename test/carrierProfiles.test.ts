@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  carrierSettlementRules,
+  claimTaxRate,
+  getDefaultSettlementRules,
+  tradeQualifiesForOP,
+} from '../server/settlementRules';
+import { buildXactdocMetadata } from '../server/xactdocMetadata';
+
+function carrier(overrides: Record<string, unknown> = {}): any {
+  return {
+    id: 1,
+    code: 'CARRIER_ACME',
+    name: 'Acme Mutual',
+    xactnetCarrierId: null,
+    naicCode: null,
+    opThreshold: 2,
+    taxOnOP: true,
+    taxOnLabor: false,
+    depreciationBasis: 'rcv_before_op',
+    overheadPct: 12,
+    profitPct: 8,
+    opExcludedTrades: ['mit', 'DEM'],
+    applyRoofSchedule: true,
+    laborEfficiency: 95,
+    notes: null,
+    isActive: true,
+    ...overrides,
+  };
+}
+
+describe('carrierSettlementRules', () => {
+  it('maps a carrier profile onto settlement rules', () => {
+    const rules = { ...getDefaultSettlementRules(), ...carrierSettlementRules(carrier()) };
+    expect(rules).toMatchObject({
+      opThreshold: 2,
+      taxOnOP: true,
+      taxOnLabor: false,
+      depreciationBasis: 'rcv_before_op',
+      overheadPercentage: 12,
+      profitPercentage: 8,
+      opExcludedTrades: ['MIT', 'DEM'],
+      applyRoofDepreciationSchedule: true,
+      laborEfficiency: 95,
+      carrierCode: 'CARRIER_ACME',
+      description: 'Acme Mutual',
+    });
+    expect(tradeQualifiesForOP(['RFG', 'MIT'], 'mit', rules)).toBe(false);
+    expect(tradeQualifiesForOP(['RFG', 'MIT'], 'RFG', rules)).toBe(true);
+    expect(tradeQualifiesForOP(['RFG'], 'RFG', rules)).toBe(false);
+  });
+});
+
+describe('claimTaxRate', () => {
+  it('prefers the Coverage A rate, then any rule with a rate', () => {
+    expect(claimTaxRate([
+      { coverageType: 'Coverage B', taxRate: 6 },
+      { coverageType: 'Coverage A', taxRate: 7.25 },
+    ])).toBe(7.25);
+    expect(claimTaxRate([
+      { coverageType: 'Coverage A', taxRate: null },
+      { coverageType: 'Coverage C', taxRate: 5.5 },
+    ])).toBe(5.5);
+    expect(claimTaxRate([])).toBeNull();
+  });
+});
+
+describe('buildXactdocMetadata carrier fields', () => {
+  const base = { claim: { claimNumber: 'CLM-1', carrierName: 'From claim' }, session: {}, lineItemsXML: [] };
+
+  it('uses the XactNet carrier ID and name from the profile', () => {
+    const metadata = buildXactdocMetadata({
+      ...base,
+      carrier: carrier({ xactnetCarrierId: 'XN-4411', naicCode: '12345' }),
+    });
+    expect(metadata.carrierId).toBe('XN-4411');
+    expect(metadata.carrierName).toBe('Acme Mutual');
+    expect(metadata.carrierNaicCode).toBe('12345');
+  });
+
+  it('falls back to the carrier code, then to the Claims IQ defaults', () => {
+    expect(buildXactdocMetadata({ ...base, carrier: carrier() }).carrierId).toBe('CARRIER_ACME');
+
+    const withoutCarrier = buildXactdocMetadata({ ...base, claim: { claimNumber: 'CLM-1' } });
+    expect(withoutCarrier.carrierId).toBe('CLAIMSIQ');
+    expect(withoutCarrier.carrierName).toBe('Claims IQ');
+    expect(withoutCarrier.carrierNaicCode).toBeUndefined();
+  });
+});
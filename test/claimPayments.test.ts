@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  activePayments,
+  buildVoidEntry,
+  priorPaymentsByCoverage,
+  summarizePayments,
+  validateVoid,
+} from '../server/claimPayments';
+import { calculateSettlement } from '../server/estimateEngine';
+import { getDefaultSettlementRules } from '../server/settlementRules';
+import type { ClaimPayment } from '../shared/schema';
+
+function makePayment(overrides: Partial<ClaimPayment> = {}): ClaimPayment {
+  return {
+    id: 1,
+    claimId: 1,
+    entryType: 'payment',
+    paymentType: 'advance',
+    coverageType: 'Coverage A',
+    payee: 'Jane Insured',
+    mortgagee: null,
+    amount: 2500,
+    method: 'check',
+    reference: '10001',
+    relatedPaymentId: null,
+    memo: null,
+    issuedBy: null,
+    createdAt: new Date('2026-01-15T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('payments ledger', () => {
+  const original = makePayment();
+  const voided = { ...buildVoidEntry(original, 'adjuster-1', 'Lost in mail'), id: 2, createdAt: new Date() } as ClaimPayment;
+  const reissued = makePayment({ id: 3, entryType: 'reissue', relatedPaymentId: 1, reference: '10002' });
+
+  it('voids with an offsetting negative entry that points at the original', () => {
+    expect(voided.entryType).toBe('void');
+    expect(voided.amount).toBe(-2500);
+    expect(voided.relatedPaymentId).toBe(1);
+    expect(voided.payee).toBe('Jane Insured');
+  });
+
+  it('counts only payments that have not been voided', () => {
+    expect(activePayments([original, voided, reissued]).map(p => p.id)).toEqual([3]);
+  });
+
+  it('refuses to void a payment twice or to void a void entry', () => {
+    expect(validateVoid([original], original)).toBeNull();
+    expect(validateVoid([original, voided], original)).toMatch(/already been voided/);
+    expect(validateVoid([original, voided], voided)).toMatch(/cannot themselves be voided/);
+  });
+
+  it('nets advances, ACV and supplements per coverage but not RD payments', () => {
+    const entries = [
+      original,
+      voided,
+      reissued,
+      makePayment({ id: 4, paymentType: 'acv', amount: 10000 }),
+      makePayment({ id: 5, paymentType: 'rd', amount: 3000 }),
+      makePayment({ id: 6, paymentType: 'advance', coverageType: 'Coverage D', amount: 1500 }),
+    ];
+    expect(priorPaymentsByCoverage(entries)).toEqual([
+      { coverageType: 'Coverage A', amount: 12500 },
+      { coverageType: 'Coverage D', amount: 1500 },
+    ]);
+    const summary = summarizePayments(entries);
+    expect(summary.totalPaid).toBe(17000);
+    expect(summary.byType).toEqual({ advance: 4000, acv: 10000, rd: 3000 });
+    expect(summary.voidedCount).toBe(1);
+  });
+});
+
+describe('calculateSettlement with prior payments', () => {
+  const items = [{
+    id: 1,
+    description: 'Drywall',
+    category: 'DRY',
+    tradeCode: 'DRY',
+    quantity: 100,
+    unitPrice: 50,
+    totalPrice: 5000,
+    age: null,
+    lifeExpectancy: null,
+    depreciationPercentage: null,
+    depreciationType: 'Recoverable',
+    structure: 'Main Dwelling',
+    taxRate: 0,
+  }];
+  const limits = [{ coverageType: 'Coverage A', policyLimit: null, deductible: 1000 }];
+
+  it('subtracts prior payments from the net claim per coverage', () => {
+    const summary = calculateSettlement(items, getDefaultSettlementRules(), limits, undefined, [
+      { coverageType: 'Coverage A', amount: 1500 },
+    ]);
+    const coverageA = summary.coverages[0];
+    expect(coverageA.netClaim).toBe(4000);
+    expect(coverageA.priorPayments).toBe(1500);
+    expect(coverageA.netClaimAfterPayments).toBe(2500);
+    expect(summary.grandNetClaimAfterPayments).toBe(2500);
+  });
+
+  it('still reduces the check for payments on coverages with no estimate lines', () => {
+    const summary = calculateSettlement(items, getDefaultSettlementRules(), limits, undefined, [
+      { coverageType: 'Coverage D', amount: 750 },
+    ]);
+    expect(summary.coverages[0].netClaimAfterPayments).toBe(4000);
+    expect(summary.totalPriorPayments).toBe(750);
+    expect(summary.grandNetClaimAfterPayments).toBe(3250);
+  });
+
+  it('leaves the net claim unchanged when there are no payments', () => {
+    const summary = calculateSettlement(items, getDefaultSettlementRules(), limits);
+    expect(summary.totalPriorPayments).toBe(0);
+    expect(summary.grandNetClaimAfterPayments).toBe(summary.grandNetClaim);
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect } from 'vitest';
+import archiver from 'archiver';
+import {
+  parseCsv,
+  mapInventoryRows,
+  parseContentsInventory,
+  priceContentsItem,
+  contentsItemsToSettlementInputs,
+  buildContentsReport,
+} from '../server/contentsInventory';
+import { lookupContentsLifeExpectancy } from '../server/depreciationEngine';
+import { calculateSettlement } from '../server/estimateEngine';
+import { getDefaultSettlementRules } from '../server/settlementRules';
+import { generateESXFromData } from '../server/esxGenerator';
+import { readZipEntries } from '../server/zipReader';
+import { makeClaim, makeSession, makeRoom, makeLineItem } from './mocks/fixtures';
+import type { ContentsItem } from '../shared/schema';
+
+function makeContentsItem(overrides: Partial<ContentsItem> = {}): ContentsItem {
+  return {
+    id: 1,
+    claimId: 1,
+    description: '55" LED television',
+    category: 'Electronics',
+    roomName: 'Living Room',
+    quantity: 1,
+    ageYears: 2,
+    condition: 'good',
+    originalCost: 800,
+    replacementSource: 'Best Buy',
+    replacementPrice: 700,
+    lifeExpectancy: 7,
+    depreciationType: 'Recoverable',
+    depreciationPercentage: 28.57,
+    depreciationAmount: 200,
+    source: 'manual',
+    notes: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+async function buildXlsx(sheetXml: string, sharedStringsXml?: string): Promise<Buffer> {
+  const archive = archiver('zip');
+  const chunks: Buffer[] = [];
+  archive.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const done = new Promise<void>((resolve, reject) => {
+    archive.on('end', () => resolve());
+    archive.on('error', reject);
+  });
+  archive.append('<?xml version="1.0"?><workbook/>', { name: 'xl/workbook.xml' });
+  archive.append(sheetXml, { name: 'xl/worksheets/sheet1.xml' });
+  if (sharedStringsXml) archive.append(sharedStringsXml, { name: 'xl/sharedStrings.xml' });
+  await archive.finalize();
+  await done;
+  return Buffer.concat(chunks);
+}
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes and CRLF line endings', () => {
+    const rows = parseCsv('\uFEFFDescription,Qty\r\n"Sofa, leather",1\r\n"12"" pan",2\r\n\r\n');
+    expect(rows).toEqual([
+      ['Description', 'Qty'],
+      ['Sofa, leather', '1'],
+      ['12" pan', '2'],
+    ]);
+  });
+});
+
+describe('mapInventoryRows', () => {
+  it('maps header aliases and parses currency values', () => {
+    const result = mapInventoryRows([
+      ['Item', 'Qty', 'Age (years)', 'Purchase Price', 'Replacement Cost', 'Retailer', 'Condition'],
+      ['Office chair', '2', '3', '$1,250.00', '$999.99', 'Staples', 'Fair'],
+    ]);
+    expect(result.errors).toEqual([]);
+    expect(result.rows).toEqual([{
+      source: 'import',
+      description: 'Office chair',
+      quantity: 2,
+      ageYears: 3,
+      originalCost: 1250,
+      replacementPrice: 999.99,
+      replacementSource: 'Staples',
+      condition: 'fair',
+    }]);
+  });
+
+  it('reports rows with missing descriptions or bad numbers', () => {
+    const result = mapInventoryRows([
+      ['Description', 'Quantity'],
+      ['', '1'],
+      ['Lamp', 'two'],
+      ['Rug', '1'],
+    ]);
+    expect(result.rows.map(r => r.description)).toEqual(['Rug']);
+    expect(result.errors).toEqual([
+      { row: 2, message: 'Missing description' },
+      { row: 3, message: 'Invalid quantity: "two"' },
+    ]);
+  });
+
+  it('rejects a file without a description column', () => {
+    const result = mapInventoryRows([['Qty', 'Price'], ['1', '10']]);
+    expect(result.rows).toEqual([]);
+    expect(result.errors[0].message).toMatch(/Description/);
+  });
+});
+
+describe('parseContentsInventory', () => {
+  it('reads the first worksheet of an XLSX workbook with shared strings', async () => {
+    const sst = '<sst><si><t>Description</t></si><si><t>Qty</t></si><si><t>Toaster &amp; oven</t></si></sst>';
+    const sheet = '<worksheet><sheetData>'
+      + '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>'
+      + '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="C2"><v>3</v></c></row>'
+      + '</sheetData></worksheet>';
+    const result = parseContentsInventory(await buildXlsx(sheet, sst), 'inventory.xlsx');
+    expect(result.errors).toEqual([]);
+    expect(result.rows).toEqual([{ source: 'import', description: 'Toaster & oven', quantity: 3 }]);
+  });
+
+  it('rejects unsupported file types', () => {
+    expect(() => parseContentsInventory(Buffer.from(''), 'inventory.pdf')).toThrow(/Unsupported/);
+  });
+});
+
+describe('contents depreciation', () => {
+  it('looks up life expectancy by contents category and keyword', () => {
+    expect(lookupContentsLifeExpectancy('Electronics', 'Dell laptop')).toBe(4);
+    expect(lookupContentsLifeExpectancy('Furniture', 'Dining table')).toBe(20);
+    expect(lookupContentsLifeExpectancy('', 'Front load washer')).toBe(11);
+    expect(lookupContentsLifeExpectancy('Unknown', 'Widget')).toBe(10);
+  });
+
+  it('depreciates on quantity x replacement price, falling back to original cost', () => {
+    expect(priceContentsItem({
+      description: 'Winter coat',
+      category: 'Clothing',
+      quantity: 2,
+      ageYears: 1,
+      originalCost: 150,
+    })).toEqual({ lifeExpectancy: 5, depreciationPercentage: 20, depreciationAmount: 60 });
+  });
+});
+
+describe('contents in settlement', () => {
+  it('settles contents under Coverage C without earning O&P', () => {
+    const rules = getDefaultSettlementRules();
+    const structural = ['RFG', 'DRY', 'PNT'].map((tradeCode, i) => ({
+      id: 100 + i,
+      description: `${tradeCode} work`,
+      category: tradeCode,
+      tradeCode,
+      quantity: 1,
+      unitPrice: 1000,
+      totalPrice: 1000,
+      age: null,
+      lifeExpectancy: null,
+      depreciationPercentage: null,
+      depreciationType: 'Recoverable',
+      structure: 'Main Dwelling',
+    }));
+    const contents = contentsItemsToSettlementInputs([
+      makeContentsItem({ ageYears: 0, quantity: 2, replacementPrice: 500 }),
+    ]);
+    const summary = calculateSettlement([...structural, ...contents], rules);
+
+    const coverageC = summary.coverages.find(c => c.coverageType === 'Coverage C');
+    expect(coverageC).toBeDefined();
+    expect(coverageC!.itemCount).toBe(1);
+    expect(coverageC!.totalRCV).toBe(1080);
+    expect(summary.qualifiesForOP).toBe(true);
+    expect(summary.tradesInvolved).not.toContain('CON');
+    // O&P only on the $3,000 of structural work
+    expect(summary.totalOverhead).toBe(300);
+    expect(summary.totalProfit).toBe(300);
+  });
+});
+
+describe('contents export', () => {
+  it('prices the inventory with tax on the full replacement cost', () => {
+    const report = buildContentsReport([
+      makeContentsItem(),
+      makeContentsItem({ id: 2, description: 'Area rug', replacementPrice: null, originalCost: 300, depreciationAmount: 0, depreciationType: 'Non-Recoverable' }),
+    ], 10);
+    expect(report.items[1].unitPrice).toBe(300);
+    expect(report.subtotal).toBe(1000);
+    expect(report.totalTax).toBe(100);
+    expect(report.totalRecoverableDepreciation).toBe(200);
+    expect(report.totalACV).toBe(900);
+  });
+
+  it('writes a CONTENTS group to the ESX rough draft', async () => {
+    const result = await generateESXFromData({
+      claim: makeClaim(),
+      session: makeSession(),
+      rooms: [makeRoom({ id: 1 })],
+      lineItems: [makeLineItem({ roomId: 1 })],
+      contentsItems: [makeContentsItem({ description: 'Lamp & shade' })],
+    });
+    const roughdraft = readZipEntries(result).get('GENERIC_ROUGHDRAFT.XML')!.toString('utf8');
+    expect(roughdraft).toContain('<GROUP type="level" name="CONTENTS" coverage="C">');
+    expect(roughdraft).toContain('desc="Lamp &amp; shade"');
+    expect(roughdraft).toContain('cat="CON"');
+  });
+});
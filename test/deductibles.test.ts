@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { calculateCoinsurance, perilMatches, resolveDeductible } from '../server/deductibles';
+import { calculateSettlement } from '../server/estimateEngine';
+import { getDefaultSettlementRules } from '../server/settlementRules';
+
+const coverageA = {
+  coverageType: 'Coverage A',
+  policyLimit: 300000,
+  deductible: 1000,
+  deductibleType: 'flat',
+  deductiblePct: null,
+  perilDeductibles: [
+    { peril: 'wind', type: 'percentage' as const, amount: 2 },
+    { peril: 'hurricane', type: 'percentage' as const, amount: 5 },
+  ],
+};
+
+describe('resolveDeductible', () => {
+  it('uses the all-other-perils deductible when no peril entry matches', () => {
+    expect(resolveDeductible(coverageA, 'Water')).toEqual({ amount: 1000, type: 'flat', pct: null, basis: null, peril: null });
+    expect(resolveDeductible(coverageA, null).amount).toBe(1000);
+  });
+
+  it('applies a matching peril deductible as a percentage of the limit', () => {
+    expect(resolveDeductible(coverageA, 'Wind/Hail')).toEqual({ amount: 6000, type: 'percentage', pct: 2, basis: 300000, peril: 'wind' });
+    expect(resolveDeductible(coverageA, 'hurricane').amount).toBe(15000);
+  });
+
+  it('supports a percentage AOP deductible and treats a missing limit as zero', () => {
+    expect(resolveDeductible({ policyLimit: 250000, deductible: null, deductibleType: 'percentage', deductiblePct: 1 }).amount).toBe(2500);
+    expect(resolveDeductible({ policyLimit: null, deductible: null, deductibleType: 'percentage', deductiblePct: 1 }).amount).toBe(0);
+  });
+
+  it('matches peril names loosely', () => {
+    expect(perilMatches('named storm', 'Hurricane - Named Storm')).toBe(true);
+    expect(perilMatches('hail', 'Fire')).toBe(false);
+  });
+});
+
+describe('calculateCoinsurance', () => {
+  it('penalizes the loss by limit carried over limit required', () => {
+    // 80% × $500,000 = $400,000 required; $300,000 carried → 75%
+    expect(calculateCoinsurance(40000, { policyLimit: 300000, coinsurancePct: 80, replacementCostValue: 500000 }))
+      .toEqual({ pct: 80, replacementCostValue: 500000, requiredLimit: 400000, ratio: 0.75, penalty: 10000 });
+  });
+
+  it('reports a met requirement and skips coverages without a clause', () => {
+    expect(calculateCoinsurance(40000, { policyLimit: 450000, coinsurancePct: 80, replacementCostValue: 500000 }))
+      .toMatchObject({ ratio: 1, penalty: 0 });
+    expect(calculateCoinsurance(40000, { policyLimit: 450000, coinsurancePct: null, replacementCostValue: 500000 })).toBeNull();
+  });
+});
+
+describe('calculateSettlement with deductible terms', () => {
+  const item = {
+    id: 1, description: 'Roof', category: 'Roofing', tradeCode: 'RFG', quantity: 1, unitPrice: 40000,
+    totalPrice: 40000, age: null, lifeExpectancy: null, depreciationPercentage: null,
+    depreciationType: 'Recoverable', coverageBucket: 'Coverage A', structure: null,
+  };
+  const rules = { ...getDefaultSettlementRules(), defaultTaxRate: 0 };
+
+  it('takes the coinsurance penalty before the peril deductible', () => {
+    const summary = calculateSettlement(
+      [item],
+      rules,
+      [{ ...coverageA, coinsurancePct: 80, replacementCostValue: 500000 }],
+      [],
+      [],
+      'Wind',
+    );
+    const cov = summary.coverages[0];
+    expect(cov.totalACV).toBe(40000);
+    expect(cov.coinsurancePenalty).toBe(10000);
+    expect(cov.deductible).toBe(6000);
+    expect(cov.deductibleDetail.peril).toBe('wind');
+    expect(cov.netClaim).toBe(24000);
+    expect(summary.grandTotalCoinsurancePenalty).toBe(10000);
+  });
+
+  it('keeps the flat deductible behaviour for legacy limits', () => {
+    const summary = calculateSettlement([item], rules, [{ coverageType: 'Coverage A', policyLimit: null, deductible: 1000 }]);
+    expect(summary.coverages[0]).toMatchObject({ deductible: 1000, coinsurance: null, coinsurancePenalty: 0, netClaim: 39000 });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildHoldbackLedger,
+  holdbackStatus,
+  holdbacksFromSettlement,
+  rdPaidByCoverage,
+  validateRelease,
+} from '../server/depreciationHoldback';
+import type { DepreciationHoldback, HoldbackProof, HoldbackRelease } from '../shared/schema';
+
+const NOW = new Date('2026-03-01T00:00:00Z');
+
+function makeHoldback(overrides: Partial<DepreciationHoldback> = {}): DepreciationHoldback {
+  return {
+    id: 1,
+    claimId: 1,
+    coverageType: 'Coverage A',
+    withheldAmount: 1000,
+    repairDeadline: new Date('2026-06-01T00:00:00Z'),
+    status: 'open',
+    notes: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+function makeProof(overrides: Partial<HoldbackProof> = {}): HoldbackProof {
+  return {
+    id: 1,
+    holdbackId: 1,
+    claimId: 1,
+    fileName: 'invoice.pdf',
+    fileSize: 1024,
+    storagePath: 'claims/1/proof_of_repair/invoice.pdf',
+    description: null,
+    uploadedBy: null,
+    createdAt: NOW,
+    ...overrides,
+  };
+}
+
+function makeRelease(overrides: Partial<HoldbackRelease> = {}): HoldbackRelease {
+  return {
+    id: 1,
+    holdbackId: 1,
+    claimId: 1,
+    amount: 400,
+    proofId: 1,
+    releasedBy: null,
+    notes: null,
+    createdAt: NOW,
+    ...overrides,
+  };
+}
+
+describe('holdbackStatus', () => {
+  it('derives status from released amounts', () => {
+    expect(holdbackStatus('open', 1000, 0)).toBe('open');
+    expect(holdbackStatus('open', 1000, 400)).toBe('partially_released');
+    expect(holdbackStatus('partially_released', 1000, 1000)).toBe('released');
+  });
+
+  it('keeps an explicitly closed holdback closed', () => {
+    expect(holdbackStatus('closed', 1000, 400)).toBe('closed');
+  });
+});
+
+describe('buildHoldbackLedger', () => {
+  it('only counts proofs and releases for its own holdback', () => {
+    const ledger = buildHoldbackLedger(
+      makeHoldback(),
+      [makeProof(), makeProof({ id: 2, holdbackId: 2 })],
+      [makeRelease(), makeRelease({ id: 2, holdbackId: 2, amount: 999 })],
+      NOW,
+    );
+    expect(ledger.released).toBe(400);
+    expect(ledger.remaining).toBe(600);
+    expect(ledger.status).toBe('partially_released');
+    expect(ledger.proofs).toHaveLength(1);
+    expect(ledger.deadlinePassed).toBe(false);
+    expect(ledger.daysUntilDeadline).toBe(92);
+  });
+});
+
+describe('validateRelease', () => {
+  it('allows a release within the remaining holdback once proof is on file', () => {
+    const ledger = buildHoldbackLedger(makeHoldback(), [makeProof()], [makeRelease()], NOW);
+    expect(validateRelease(ledger, 600)).toBeNull();
+  });
+
+  it('rejects over-releases and releases without proof of repair', () => {
+    const withProof = buildHoldbackLedger(makeHoldback(), [makeProof()], [makeRelease()], NOW);
+    expect(validateRelease(withProof, 600.01)).toMatch(/exceeds the remaining holdback/);
+    const withoutProof = buildHoldbackLedger(makeHoldback(), [], [], NOW);
+    expect(validateRelease(withoutProof, 100)).toMatch(/proof of repair/);
+  });
+
+  it('blocks releases after the repair deadline unless overridden', () => {
+    const ledger = buildHoldbackLedger(
+      makeHoldback({ repairDeadline: new Date('2026-02-01T00:00:00Z') }),
+      [makeProof()],
+      [],
+      NOW,
+    );
+    expect(validateRelease(ledger, 100)).toMatch(/deadline has passed/);
+    expect(validateRelease(ledger, 100, { overrideDeadline: true })).toBeNull();
+  });
+});
+
+describe('settlement integration', () => {
+  it('withholds recoverable depreciation only for coverages that have it', () => {
+    expect(holdbacksFromSettlement([
+      { coverageType: 'Coverage A', totalRecoverableDepreciation: 1234.567 },
+      { coverageType: 'Coverage B', totalRecoverableDepreciation: 0 },
+    ])).toEqual([{ coverageType: 'Coverage A', withheldAmount: 1234.57 }]);
+  });
+
+  it('sums RD paid to date per coverage', () => {
+    const holdbacks = [makeHoldback(), makeHoldback({ id: 2, coverageType: 'Coverage C' })];
+    const releases = [
+      makeRelease(),
+      makeRelease({ id: 2, amount: 100.5 }),
+      makeRelease({ id: 3, holdbackId: 2, amount: 50 }),
+      makeRelease({ id: 4, holdbackId: 99, amount: 10 }),
+    ];
+    expect(rdPaidByCoverage(holdbacks, releases)).toEqual({ 'Coverage A': 500.5, 'Coverage C': 50 });
+  });
+});
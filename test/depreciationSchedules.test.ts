@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  candidateSchedules,
+  parseLossDate,
+  resolveDepreciationSchedule,
+  versionInForce,
+} from '../server/depreciationSchedules';
+import {
+  calculateDepreciation,
+  lookupLifeExpectancy,
+  lookupRoofPaymentPercent,
+  type DepreciationTable,
+} from '../server/depreciationEngine';
+import { createMockStorage } from './mocks/storage.mock';
+
+function schedule(overrides: Record<string, unknown>): any {
+  return { id: 1, name: 'Schedule', carrierCode: null, description: null, isActive: true, ...overrides };
+}
+
+function version(overrides: Record<string, unknown>): any {
+  return {
+    id: 1,
+    scheduleId: 1,
+    version: 1,
+    effectiveFrom: '2020-01-01',
+    lifeExpectancy: { roofing: { keywords: [], default: 25 } },
+    roofPaymentSchedule: [],
+    notes: null,
+    ...overrides,
+  };
+}
+
+const carrierTable: DepreciationTable = {
+  lifeExpectancy: {
+    roofing: { keywords: [{ match: 'metal roofing', life: 60 }], default: 20 },
+    flooring: { keywords: [{ match: 'carpet', life: 8 }], default: 15 },
+  },
+  roofPaymentSchedule: [
+    { material: '', maxAge: 10, paymentPercent: 100 },
+    { material: '', maxAge: 15, paymentPercent: 70 },
+    { material: '', maxAge: 99, paymentPercent: 50 },
+    { material: 'metal', maxAge: 99, paymentPercent: 90 },
+  ],
+};
+
+describe('parseLossDate', () => {
+  it('normalizes common date formats to YYYY-MM-DD', () => {
+    expect(parseLossDate('2024-05-12')).toBe('2024-05-12');
+    expect(parseLossDate('2024-05-12T14:00:00Z')).toBe('2024-05-12');
+    expect(parseLossDate('05/12/2024')).toMatch(/^2024-05-1[12]$/);
+    expect(parseLossDate('last spring')).toBeNull();
+    expect(parseLossDate(null)).toBeNull();
+  });
+});
+
+describe('versionInForce', () => {
+  const versions = [
+    version({ id: 1, version: 1, effectiveFrom: '2020-01-01' }),
+    version({ id: 2, version: 2, effectiveFrom: '2023-07-01' }),
+    version({ id: 3, version: 3, effectiveFrom: '2025-01-01' }),
+  ];
+
+  it('picks the latest version effective on or before the date of loss', () => {
+    expect(versionInForce(versions, '2023-07-01')?.id).toBe(2);
+    expect(versionInForce(versions, '2024-12-31')?.id).toBe(2);
+    expect(versionInForce(versions, '2026-03-01')?.id).toBe(3);
+    expect(versionInForce(versions, '2019-12-31')).toBeNull();
+  });
+});
+
+describe('candidateSchedules', () => {
+  const schedules = [
+    schedule({ id: 1, name: 'Default' }),
+    schedule({ id: 2, name: 'State Farm', carrierCode: 'CARRIER_STATE_FARM' }),
+    schedule({ id: 3, name: 'Retired default', isActive: false }),
+    schedule({ id: 4, name: 'Special', carrierCode: 'OTHER' }),
+  ];
+
+  it('orders pinned, carrier, then default schedules and skips inactive ones', () => {
+    expect(candidateSchedules(schedules, { depreciationScheduleId: 4, carrierCode: 'carrier_state_farm' }).map(s => s.id))
+      .toEqual([4, 2, 1]);
+    expect(candidateSchedules(schedules, { depreciationScheduleId: null }).map(s => s.id)).toEqual([1]);
+  });
+});
+
+describe('resolveDepreciationSchedule', () => {
+  it('falls through to the default when the carrier schedule starts after the date of loss', async () => {
+    const storage = createMockStorage({
+      getCarrier: vi.fn().mockResolvedValue({ id: 7, code: 'ACME', name: 'Acme Mutual' }),
+      getDepreciationSchedules: vi.fn().mockResolvedValue([
+        schedule({ id: 1, name: 'Default' }),
+        schedule({ id: 2, carrierCode: 'ACME' }),
+      ]),
+      getDepreciationScheduleVersions: vi.fn().mockImplementation(async (id: number) =>
+        id === 2
+          ? [version({ id: 20, scheduleId: 2, effectiveFrom: '2025-01-01' })]
+          : [version({ id: 10, scheduleId: 1, effectiveFrom: '2018-01-01' })],
+      ),
+    });
+
+    const early = await resolveDepreciationSchedule(storage, { dateOfLoss: '2024-06-01', depreciationScheduleId: null, carrierId: 7 });
+    expect(early?.version.id).toBe(10);
+
+    const late = await resolveDepreciationSchedule(storage, { dateOfLoss: '2025-06-01', depreciationScheduleId: null, carrierId: 7 });
+    expect(late).toMatchObject({ schedule: { id: 2 }, version: { id: 20 } });
+    expect(late?.table.lifeExpectancy.roofing.default).toBe(25);
+  });
+
+  it('returns null when no schedule applies', async () => {
+    const storage = createMockStorage();
+    expect(await resolveDepreciationSchedule(storage, { dateOfLoss: '2024-06-01', depreciationScheduleId: null, carrierId: null })).toBeNull();
+  });
+});
+
+describe('calculateDepreciation with a carrier schedule', () => {
+  it('looks up life expectancy in the schedule table', () => {
+    expect(lookupLifeExpectancy('FLR', 'Carpet - plush', carrierTable.lifeExpectancy)).toBe(8);
+    expect(lookupLifeExpectancy('FLR', 'Carpet - plush')).toBe(10);
+
+    const result = calculateDepreciation({
+      totalPrice: 1000, age: 4, category: 'Flooring', description: 'Carpet', schedule: carrierTable,
+    });
+    expect(result).toEqual({ lifeExpectancy: 8, depreciationPercentage: 50, depreciationAmount: 500 });
+  });
+
+  it('applies the roof payment schedule by material and age', () => {
+    expect(lookupRoofPaymentPercent(carrierTable.roofPaymentSchedule!, 'Laminated shingles', 12)).toBe(70);
+    expect(lookupRoofPaymentPercent(carrierTable.roofPaymentSchedule!, 'Laminated shingles', 120)).toBe(50);
+    expect(lookupRoofPaymentPercent(carrierTable.roofPaymentSchedule!, 'Metal roofing panels', 30)).toBe(90);
+
+    const shingles = calculateDepreciation({
+      totalPrice: 10000, age: 12, category: 'Roofing', description: 'Laminated shingles', schedule: carrierTable,
+    });
+    expect(shingles).toEqual({ lifeExpectancy: 20, depreciationPercentage: 30, depreciationAmount: 3000 });
+
+    // Non-roofing items keep depreciating by life expectancy
+    const hardwood = calculateDepreciation({
+      totalPrice: 1000, age: 12, category: 'Flooring', description: 'Hardwood', schedule: carrierTable,
+    });
+    expect(hardwood.depreciationPercentage).toBe(80);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildDryingLog, dryingLineItems, equipmentDays, grainsPerPound, syncDryingLineItems } from '../server/dryingLog';
+import { createMockStorage } from './mocks/storage.mock';
+
+const reading = (id: number, roomId: number, location: string, value: number, readingDate: string, dryStandard: number | null = 12) => ({
+  id, sessionId: 1, roomId, location, reading: value, materialType: 'drywall', dryStandard, readingDate, createdAt: new Date(`${readingDate}T15:00:00Z`),
+});
+
+const equipment = (id: number, roomId: number, equipmentType: string, quantity: number, placedOn: string, removedOn: string | null = null) => ({
+  id, sessionId: 1, roomId, equipmentType, quantity, placedOn, removedOn, notes: null, createdAt: new Date(),
+});
+
+const atmospheric = (id: number, roomId: number | null, readingDate: string, temperatureF: number, relativeHumidity: number) => ({
+  id, sessionId: 1, roomId, readingDate, placement: roomId ? 'affected' : 'outside', temperatureF, relativeHumidity, createdAt: new Date(),
+});
+
+describe('grainsPerPound', () => {
+  it('matches psychrometric chart values', () => {
+    expect(grainsPerPound(70, 50)).toBeCloseTo(54.7, 0);
+    expect(grainsPerPound(80, 60)).toBeCloseTo(92, 0);
+    expect(grainsPerPound(70, 0)).toBe(0);
+  });
+});
+
+describe('equipmentDays', () => {
+  it('counts nights on site, at least one, and runs open equipment to the as-of date', () => {
+    expect(equipmentDays({ placedOn: '2026-03-02', removedOn: '2026-03-05' }, '2026-03-10')).toBe(3);
+    expect(equipmentDays({ placedOn: '2026-03-02', removedOn: '2026-03-02' }, '2026-03-10')).toBe(1);
+    expect(equipmentDays({ placedOn: '2026-03-02', removedOn: null }, '2026-03-06')).toBe(4);
+  });
+});
+
+describe('buildDryingLog', () => {
+  const rooms = [{ id: 10, name: 'Kitchen' }, { id: 11, name: 'Hall' }, { id: 12, name: 'Bedroom' }];
+
+  it('trends each location toward its dry standard and totals equipment days by room', () => {
+    const log = buildDryingLog(
+      rooms,
+      [
+        reading(1, 10, 'North wall', 30, '2026-03-02'),
+        reading(2, 10, 'North wall', 18, '2026-03-03'),
+        reading(3, 10, 'North wall', 16, '2026-03-03'),
+        reading(4, 10, 'North wall', 11, '2026-03-04'),
+        reading(5, 10, 'Toe kick', 25, '2026-03-04', 14),
+        reading(6, 11, 'Floor', 22, '2026-03-02', null),
+      ],
+      [atmospheric(1, 10, '2026-03-02', 75, 60), atmospheric(2, null, '2026-03-05', 60, 80)],
+      [
+        equipment(1, 10, 'air_mover', 3, '2026-03-02', '2026-03-05'),
+        equipment(2, 10, 'dehumidifier', 1, '2026-03-02'),
+        equipment(3, 10, 'air_mover', 1, '2026-03-03', '2026-03-04'),
+      ],
+      '2026-03-06',
+    );
+
+    expect(log.rooms.map(r => r.roomId)).toEqual([10, 11]);
+    const kitchen = log.rooms[0];
+    const wall = kitchen.locations.find(l => l.location === 'North wall')!;
+    // The second reading on 3/3 replaces the first
+    expect(wall.readings).toEqual([
+      { date: '2026-03-02', reading: 30 },
+      { date: '2026-03-03', reading: 16 },
+      { date: '2026-03-04', reading: 11 },
+    ]);
+    expect(wall).toMatchObject({ latest: 11, dryStandard: 12, isDry: true });
+    expect(kitchen.isDry).toBe(false);
+    expect(kitchen.equipmentDays).toEqual({ air_mover: 10, dehumidifier: 4 });
+    expect(kitchen.atmospherics[0].grainsPerPound).toBeGreaterThan(0);
+    expect(log.atmospherics).toHaveLength(1);
+    expect(log.monitoringDays).toBe(4);
+  });
+
+  it('turns the log into equipment-day and monitoring lines', () => {
+    const log = buildDryingLog(
+      rooms,
+      [reading(1, 11, 'Floor', 22, '2026-03-02'), reading(2, 11, 'Floor', 15, '2026-03-03')],
+      [],
+      [equipment(1, 11, 'air_scrubber', 1, '2026-03-02', '2026-03-04'), equipment(2, 11, 'large_dehumidifier', 2, '2026-03-02', '2026-03-03')],
+      '2026-03-06',
+    );
+    expect(dryingLineItems(log)).toEqual([
+      { roomId: 11, code: 'MIT-DEHM-DAY', quantity: 2 },
+      { roomId: 11, code: 'MIT-AIRS-DAY', quantity: 2 },
+      { roomId: 11, code: 'MIT-MONI-DAY', quantity: 2 },
+    ]);
+  });
+});
+
+describe('syncDryingLineItems', () => {
+  it('creates priced lines, updates quantities and removes lines the log no longer needs', async () => {
+    const storage = createMockStorage({
+      getRooms: vi.fn().mockResolvedValue([{ id: 10, name: 'Kitchen' }]),
+      getMoistureReadingsForSession: vi.fn().mockResolvedValue([reading(1, 10, 'Wall', 20, '2026-03-02')]),
+      getDryingEquipmentForSession: vi.fn().mockResolvedValue([
+        equipment(1, 10, 'air_mover', 2, '2026-03-02', '2026-03-05'),
+        equipment(2, 10, 'dehumidifier', 1, '2026-03-02', '2026-03-05'),
+      ]),
+      getLineItems: vi.fn().mockResolvedValue([
+        { id: 50, roomId: 10, xactCode: 'MIT-DEHU-DAY', quantity: '2', unitPrice: '90', provenance: 'drying_log' },
+        { id: 51, roomId: 10, xactCode: 'MIT-AIRS-DAY', quantity: '1', unitPrice: '95', provenance: 'drying_log' },
+        { id: 52, roomId: 10, xactCode: 'MIT-AIRM-DAY', quantity: '4', unitPrice: '60', provenance: 'voice' },
+      ]),
+      getRegionalPrice: vi.fn().mockImplementation(async (code: string, region: string) =>
+        region === 'US_NATIONAL' ? { materialCost: 10, laborCost: 10, equipmentCost: 40 } : undefined),
+      getScopeLineItemByCode: vi.fn().mockResolvedValue({ description: 'Air mover per day' }),
+    });
+
+    const result = await syncDryingLineItems(storage, 1, '2026-03-06');
+
+    expect(result).toEqual({ created: 2, updated: 1, removed: 1 });
+    expect(storage.updateLineItem).toHaveBeenCalledWith(50, { quantity: '3', totalPrice: '270' });
+    expect(storage.createLineItem).toHaveBeenCalledWith(expect.objectContaining({
+      roomId: 10, xactCode: 'MIT-AIRM-DAY', quantity: '6', unitPrice: '60', totalPrice: '360', provenance: 'drying_log',
+    }));
+    expect(storage.createLineItem).toHaveBeenCalledWith(expect.objectContaining({ xactCode: 'MIT-MONI-DAY', quantity: '1' }));
+    expect(storage.deleteLineItem).toHaveBeenCalledWith(51);
+  });
+});
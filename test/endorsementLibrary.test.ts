@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  applyAcceptedEndorsements,
+  matchEndorsement,
+  policyRuleUpdates,
+  proposeEndorsementChanges,
+  syncEndorsementProposals,
+} from '../server/endorsementLibrary';
+import { validatePolicyExclusions } from '../server/scopeValidation';
+import { createMockStorage } from './mocks/storage.mock';
+import { makeClaim } from './mocks/fixtures';
+
+const waterBackup = {
+  endorsementId: 'HO 81 17 01 14',
+  title: 'Water Back-Up and Sump Overflow',
+  keyProvisions: ['Covers water that backs up through sewers or drains'],
+  sublimits: [{ description: 'Water back-up limit', amount: 10000 }],
+};
+
+const proposal = (id: number, overrides: Record<string, any> = {}) => ({
+  id, claimId: 1, endorsementId: 'HO 88 02 10 22', formNumber: 'HO 88 02', effect: 'roof_payment_schedule',
+  title: 'Roof Surfaces Payment Schedule', summary: '', status: 'pending', decidedBy: null, decidedAt: null,
+  policyRuleChange: { coverageType: 'Coverage A', set: { applyRoofSchedule: true, roofScheduleAge: 0 } },
+  settlementRuleChange: { applyRoofDepreciationSchedule: true }, createdAt: new Date(), ...overrides,
+});
+
+describe('matchEndorsement', () => {
+  it('matches by form number, with or without the edition', () => {
+    expect(matchEndorsement({ endorsementId: 'HO 88 02 10 22' })).toMatchObject({
+      form: { formNumber: 'HO 88 02', effect: 'roof_payment_schedule' }, matchedBy: 'form_number', editionMatches: true,
+    });
+    expect(matchEndorsement({ endorsementId: 'ho8802', formEdition: '05 19' })?.editionMatches).toBe(false);
+  });
+
+  it('falls back to the title for unknown form numbers', () => {
+    expect(matchEndorsement({ endorsementId: 'XYZ 123', title: 'Cosmetic Damage Exclusion – Roof Surfacing' })).toMatchObject({
+      form: { effect: 'cosmetic_hail_exclusion' }, matchedBy: 'title',
+    });
+    expect(matchEndorsement({ endorsementId: 'HO 81 06', title: 'Special Provisions – Texas' })).toBeNull();
+  });
+});
+
+describe('proposeEndorsementChanges', () => {
+  it('turns matched endorsements into concrete rule changes', () => {
+    const drafts = proposeEndorsementChanges([
+      waterBackup,
+      { endorsementId: 'HO 86 05', title: 'Ordinance or Law', keyProvisions: ['Increases coverage to 25% of Coverage A'] },
+      { endorsementId: 'HO 04 93', title: 'ACV Roof Surfacing' },
+      { endorsementId: 'HO 81 06', title: 'Amendatory Endorsement' },
+    ]);
+
+    expect(drafts.map(d => d.effect)).toEqual(['water_backup_sublimit', 'ordinance_law_increase', 'acv_roof_settlement']);
+    expect(drafts[0].policyRuleChange).toEqual({
+      coverageType: 'Coverage A',
+      sublimit: { key: 'water_backup', label: 'Water back-up', capType: 'flat', amount: 10000 },
+    });
+    expect(drafts[1].policyRuleChange).toEqual({ coverageType: 'Ordinance or Law', limitPctOfCoverageA: 25 });
+    expect(drafts[2].settlementRuleChange).toEqual({ applyRoofDepreciationSchedule: true });
+  });
+
+  it('skips a form whose extraction lacks what the change needs', () => {
+    expect(proposeEndorsementChanges([{ ...waterBackup, sublimits: [], keyProvisions: [] }])).toEqual([]);
+  });
+});
+
+describe('policyRuleUpdates', () => {
+  it('replaces sublimits by key, adds exclusions once and sizes O&L from Coverage A', () => {
+    const rule = {
+      coverageType: 'Coverage A', sublimits: [{ key: 'water_backup', label: 'Old', capType: 'flat', amount: 5000 }], exclusions: ['cosmetic_hail'],
+    } as any;
+    expect(policyRuleUpdates(rule, {
+      coverageType: 'Coverage A', sublimit: { key: 'water_backup', label: 'Water back-up', capType: 'flat', amount: 10000 },
+    }).sublimits).toEqual([{ key: 'water_backup', label: 'Water back-up', capType: 'flat', amount: 10000 }]);
+    expect(policyRuleUpdates(rule, { coverageType: 'Coverage A', exclusion: 'cosmetic_hail' })).toEqual({});
+    expect(policyRuleUpdates({} as any, { coverageType: 'Ordinance or Law', limitPctOfCoverageA: 25 }, { policyLimit: 300000 }))
+      .toEqual({ policyLimit: 75000 });
+  });
+});
+
+describe('syncEndorsementProposals', () => {
+  it('keeps decided proposals and refreshes pending ones', async () => {
+    const storage = createMockStorage({
+      getEndorsementProposals: vi.fn().mockResolvedValue([
+        proposal(1, { status: 'accepted' }),
+        proposal(2, { formNumber: 'HO 81 17', effect: 'water_backup_sublimit' }),
+        proposal(3, { formNumber: 'HO 86 05', effect: 'ordinance_law_increase' }),
+      ]),
+    });
+
+    await syncEndorsementProposals(storage, 1, {
+      endorsements: [{ endorsementId: 'HO 88 02 10 22', title: 'Roof Surfaces Payment Schedule' }, waterBackup, { endorsementId: 'HO 04 93' }],
+    });
+
+    expect(storage.updateEndorsementProposal).toHaveBeenCalledTimes(1);
+    expect(storage.updateEndorsementProposal).toHaveBeenCalledWith(2, expect.objectContaining({ endorsementId: 'HO 81 17 01 14' }));
+    expect(storage.createEndorsementProposal).toHaveBeenCalledWith(expect.objectContaining({ claimId: 1, formNumber: 'HO 04 93' }));
+    expect(storage.deleteEndorsementProposal).toHaveBeenCalledWith(3);
+  });
+});
+
+describe('applyAcceptedEndorsements', () => {
+  it('applies accepted changes to the policy rules and claim settlement overrides', async () => {
+    const coverageA = { id: 10, coverageType: 'Coverage A', policyLimit: 200000, sublimits: [], exclusions: [] };
+    const storage = createMockStorage({
+      getEndorsementProposals: vi.fn().mockResolvedValue([
+        proposal(1, { status: 'accepted' }),
+        proposal(2, { status: 'rejected', formNumber: 'CP 10 36', policyRuleChange: { coverageType: 'Coverage A', exclusion: 'cosmetic_hail' } }),
+        proposal(3, {
+          status: 'accepted', formNumber: 'HO 86 05', settlementRuleChange: null,
+          policyRuleChange: { coverageType: 'Ordinance or Law', limitPctOfCoverageA: 25 },
+        }),
+      ]),
+      getPolicyRulesForClaim: vi.fn().mockResolvedValue([coverageA]),
+      getClaim: vi.fn().mockResolvedValue(makeClaim({ state: 'TX' })),
+      createPolicyRule: vi.fn().mockImplementation(async (rule) => ({ id: 11, ...rule })),
+      updatePolicyRule: vi.fn().mockImplementation(async (id, updates) => ({ ...coverageA, id, ...updates })),
+    });
+
+    const result = await applyAcceptedEndorsements(storage, 1);
+
+    expect(result.policyRulesUpdated).toBe(2);
+    expect(storage.updatePolicyRule).toHaveBeenCalledWith(10, { applyRoofSchedule: true, roofScheduleAge: 0 });
+    expect(storage.createPolicyRule).toHaveBeenCalledWith(expect.objectContaining({ coverageType: 'Ordinance or Law' }));
+    expect(storage.updatePolicyRule).toHaveBeenCalledWith(11, { policyLimit: 50000 });
+    expect(storage.updateClaimFields).toHaveBeenCalledWith(1, { settlementOverrides: { applyRoofDepreciationSchedule: true } });
+  });
+});
+
+describe('validatePolicyExclusions', () => {
+  it('flags scope on minor hail damage under a cosmetic hail exclusion', () => {
+    const damages = [
+      { id: 1, damageType: 'hail_impact', severity: 'minor' },
+      { id: 2, damageType: 'hail_impact', severity: 'severe' },
+    ] as any;
+    const items = [
+      { id: 20, roomId: 5, damageId: 1, description: 'Laminated comp shingles', status: 'active' },
+      { id: 21, roomId: 5, damageId: 2, description: 'Laminated comp shingles', status: 'active' },
+    ] as any;
+
+    expect(validatePolicyExclusions(['cosmetic_hail'], items, damages)).toEqual([
+      expect.objectContaining({ category: 'policy_exclusion', severity: 'warning', scopeItemId: 20 }),
+    ]);
+    expect(validatePolicyExclusions([], items, damages)).toEqual([]);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import {
+  alignEstimates,
+  descriptionSimilarity,
+  mapContractorRows,
+  mergeSupplementalChanges,
+  supplementalChangesForRows,
+  toOurLines,
+  tradeFor,
+  type ContractorLine,
+} from '../server/estimateReconciliation';
+import { makeRoom, makeLineItem } from './mocks/fixtures';
+
+const rooms = [
+  makeRoom({ id: 1, name: 'Kitchen' }),
+  makeRoom({ id: 2, name: 'Den' }),
+] as any[];
+
+const lineItems = [
+  makeLineItem({ id: 1, roomId: 1, category: 'Drywall', description: '1/2" drywall - hung, taped, floated', xactCode: 'DRY-12-SF', quantity: 100, unitPrice: 1.65, totalPrice: 165 }),
+  makeLineItem({ id: 2, roomId: 1, category: 'Painting', description: 'Seal & paint walls', xactCode: 'PNT-WALL-SF', quantity: 320, unitPrice: 0.95, totalPrice: 304 }),
+  makeLineItem({ id: 3, roomId: 2, category: 'Flooring', description: 'Carpet pad', xactCode: null, quantity: 154, unitPrice: 0.75, totalPrice: 115.5 }),
+  makeLineItem({ id: 4, roomId: 2, category: 'Cleaning', description: 'Clean floor', xactCode: null, quantity: 1, unitPrice: 50, totalPrice: 50 }),
+] as any[];
+
+function line(overrides: Partial<ContractorLine>): ContractorLine {
+  return {
+    lineNo: 1,
+    roomName: null,
+    trade: null,
+    xactCode: null,
+    description: '',
+    quantity: 1,
+    unit: 'SF',
+    unitPrice: 0,
+    totalPrice: 0,
+    ...overrides,
+  };
+}
+
+const theirs = [
+  line({ lineNo: 1, roomName: 'Kitchen', xactCode: 'DRY-12-SF', description: 'Drywall 1/2"', quantity: 120, unitPrice: 1.65, totalPrice: 198 }),
+  line({ lineNo: 2, roomName: 'Kitchen', xactCode: 'PNT-WALL-SF', description: 'Paint walls', quantity: 320, unitPrice: 1.1, totalPrice: 352 }),
+  line({ lineNo: 3, roomName: 'Den', description: 'Carpet pad', quantity: 154, unitPrice: 0.75, totalPrice: 115.5 }),
+  line({ lineNo: 4, roomName: 'Den', trade: 'Electrical', description: 'Replace outlet', quantity: 2, unit: 'EA', unitPrice: 45, totalPrice: 90 }),
+];
+
+describe('descriptionSimilarity', () => {
+  it('scores identical wording as 1 and unrelated wording low', () => {
+    expect(descriptionSimilarity('Carpet pad', ' carpet  PAD ')).toBe(1);
+    expect(descriptionSimilarity('Carpet pad', 'Carpet - pad')).toBeGreaterThan(0.8);
+    expect(descriptionSimilarity('Carpet pad', 'Replace outlet')).toBeLessThan(0.3);
+  });
+});
+
+describe('tradeFor', () => {
+  it('maps trade codes, category names and catalog codes to Xactimate categories', () => {
+    expect(tradeFor('DRY')).toBe('DRY');
+    expect(tradeFor(null, 'Drywall')).toBe('DRY');
+    expect(tradeFor('PNT-WALL-SF')).toBe('PNT');
+    expect(tradeFor(undefined, 'Something else')).toBe('GEN');
+  });
+});
+
+describe('alignEstimates', () => {
+  it('classifies every row and splits agreed from disputed dollars per trade', () => {
+    const view = alignEstimates(toOurLines(lineItems, rooms), theirs);
+    const byKey = Object.fromEntries(view.rows.map(r => [r.key, r]));
+
+    expect(byKey['o1-t1']).toMatchObject({ status: 'quantity_diff', quantityDelta: 20, agreed: 165, disputed: 33 });
+    expect(byKey['o2-t2']).toMatchObject({ status: 'price_diff', unitPriceDelta: 0.15, agreed: 304, disputed: 48 });
+    expect(byKey['o3-t3']).toMatchObject({ status: 'matched', similarity: 1, agreed: 115.5, disputed: 0 });
+    expect(byKey['t4']).toMatchObject({ status: 'missing_on_ours', trade: 'ELE', agreed: 0, disputed: 90 });
+    expect(byKey['o4']).toMatchObject({ status: 'missing_on_theirs', agreed: 0, disputed: 50 });
+
+    expect(view.statusCounts).toEqual({
+      matched: 1, quantity_diff: 1, price_diff: 1, missing_on_ours: 1, missing_on_theirs: 1,
+    });
+    expect(view.trades.find(t => t.trade === 'DRY')).toEqual({
+      trade: 'DRY', rowCount: 1, ours: 165, theirs: 198, agreed: 165, disputed: 33,
+    });
+    expect(view.totals).toEqual({ rowCount: 5, ours: 634.5, theirs: 755.5, agreed: 584.5, disputed: 221 });
+  });
+
+  it('keeps lines in their own room when the room exists on our side', () => {
+    const view = alignEstimates(toOurLines(lineItems, rooms), [
+      line({ lineNo: 1, roomName: 'Kitchen', description: 'Carpet pad', quantity: 154, unitPrice: 0.75, totalPrice: 115.5 }),
+      line({ lineNo: 2, roomName: 'Garage', description: 'Carpet pad', quantity: 10, unitPrice: 0.75, totalPrice: 7.5 }),
+    ]);
+
+    expect(view.rows.find(r => r.key === 't1')?.status).toBe('missing_on_ours');
+    expect(view.rows.find(r => r.key === 'o3-t2')?.status).toBe('quantity_diff');
+  });
+
+  it('counts accepted rows as agreed at the contractor figure', () => {
+    const view = alignEstimates(toOurLines(lineItems, rooms), theirs, ['o1-t1', 't4', 'o4']);
+    const byKey = Object.fromEntries(view.rows.map(r => [r.key, r]));
+
+    expect(byKey['o1-t1']).toMatchObject({ accepted: true, agreed: 198, disputed: 0 });
+    expect(byKey['t4']).toMatchObject({ accepted: true, agreed: 90, disputed: 0 });
+    expect(byKey['o4']).toMatchObject({ accepted: true, agreed: 0, disputed: 0 });
+    expect(view.totals.disputed).toBe(48);
+  });
+});
+
+describe('mapContractorRows', () => {
+  it('reads aliased headers and derives the missing price', () => {
+    const result = mapContractorRows([
+      ['Room', 'Item', 'Qty', 'UOM', 'Unit Cost', 'Line Total'],
+      ['Kitchen', 'Drywall', '100', 'SF', '$1.65', ''],
+      ['Den', 'Outlet', '2', 'EA', '', '90.00'],
+      ['Den', '', '1', 'EA', '5', ''],
+      ['Den', 'Trim', 'abc', 'LF', '2', ''],
+      ['Den', 'Haul', '1', 'EA', '', ''],
+    ]);
+
+    expect(result.lines).toEqual([
+      { lineNo: 1, roomName: 'Kitchen', trade: null, xactCode: null, description: 'Drywall', quantity: 100, unit: 'SF', unitPrice: 1.65, totalPrice: 165 },
+      { lineNo: 2, roomName: 'Den', trade: null, xactCode: null, description: 'Outlet', quantity: 2, unit: 'EA', unitPrice: 45, totalPrice: 90 },
+    ]);
+    expect(result.errors.map(e => e.row)).toEqual([4, 5, 6]);
+  });
+
+  it('rejects files without a description column', () => {
+    expect(mapContractorRows([['Qty', 'Price']]).errors[0].message).toMatch(/Description/);
+  });
+});
+
+describe('supplementalChangesForRows', () => {
+  it('adopts the contractor side and merges into an existing supplemental', () => {
+    const view = alignEstimates(toOurLines(lineItems, rooms), theirs);
+    const rows = view.rows.filter(r => r.status !== 'matched');
+    const changes = supplementalChangesForRows(rows, rooms);
+
+    expect(changes.newLineItems).toEqual([
+      { category: 'ELE', action: null, description: 'Replace outlet', xactCode: null, quantity: 2, unit: 'EA', unitPrice: 45, roomId: 2 },
+    ]);
+    expect(changes.modifiedLineItems).toEqual(expect.arrayContaining([
+      { id: 1, quantity: 120, unitPrice: 1.65 },
+      { id: 2, quantity: 320, unitPrice: 1.1 },
+    ]));
+    expect(changes.removedLineItemIds).toEqual([4]);
+
+    const merged = mergeSupplementalChanges(
+      { newLineItems: [], modifiedLineItems: [{ id: 1, quantity: 110, unitPrice: 1.65 }], removedLineItemIds: [4] },
+      changes,
+    );
+    expect(merged.modifiedLineItems).toHaveLength(2);
+    expect(merged.modifiedLineItems.find(m => m.id === 1)?.quantity).toBe(120);
+    expect(merged.removedLineItemIds).toEqual([4]);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import { buildEstimateSnapshot, diffEstimateSnapshots } from '../server/estimateVersions';
+import type { InspectionRoom, LineItem, PolicyRule, TaxRule } from '../shared/schema';
+
+function makeItem(overrides: Partial<LineItem> = {}): LineItem {
+  return {
+    id: 1,
+    sessionId: 1,
+    roomId: 10,
+    damageId: null,
+    category: 'Drywall',
+    action: 'R&R',
+    description: 'Drywall 1/2"',
+    xactCode: 'DRY12',
+    quantity: '100.00',
+    unit: 'SF',
+    unitPrice: '2.50',
+    totalPrice: '250.00',
+    depreciationType: 'Recoverable',
+    depreciationRate: null,
+    wasteFactor: null,
+    tradeCode: 'DRY',
+    coverageType: 'A',
+    provenance: 'voice',
+    taxAmount: 10,
+    age: null,
+    lifeExpectancy: null,
+    depreciationPercentage: 20,
+    depreciationAmount: 50,
+    coverageBucket: 'Coverage A',
+    qualityGrade: null,
+    applyOAndP: false,
+    macroSource: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+const rooms = [
+  { id: 10, name: 'Kitchen', structure: 'Main Dwelling', viewType: 'interior', dimensions: null },
+  { id: 11, name: 'Hallway', structure: 'Main Dwelling', viewType: 'interior', dimensions: null },
+] as InspectionRoom[];
+
+/** Settlement totals as the exports see them */
+function settled(grandTotalRCV: number, grandNetClaim: number) {
+  return {
+    grandTotalRCV,
+    grandTotalDepreciation: 50,
+    grandTotalACV: grandTotalRCV - 50,
+    grandNetClaim,
+    totalTaxOnMaterials: 12,
+    totalTaxOnLabor: 3,
+    totalTaxOnOP: 1,
+  };
+}
+
+function snapshot(items: LineItem[], roomList = rooms, settlement: ReturnType<typeof settled> | null = null) {
+  return buildEstimateSnapshot({
+    lineItems: items,
+    rooms: roomList,
+    openings: [],
+    policyRules: [],
+    taxRules: [],
+    settlement,
+  });
+}
+
+describe('buildEstimateSnapshot', () => {
+  it('normalizes numeric columns and resolves room names', () => {
+    const snap = snapshot([makeItem()]);
+    expect(snap.lineItems[0]).toMatchObject({ quantity: 100, unitPrice: 2.5, totalPrice: 250, roomName: 'Kitchen' });
+    expect(snap.totals).toEqual({
+      itemCount: 1,
+      totalRCV: 250,
+      totalTax: 10,
+      totalDepreciation: 50,
+      totalACV: 200,
+      grandNetClaim: null,
+    });
+  });
+
+  it('takes its totals from the settlement summary, tax and contents included', () => {
+    const snap = snapshot([makeItem()], rooms, settled(1416, 366));
+    expect(snap.totals).toEqual({
+      itemCount: 1,
+      totalRCV: 1416,
+      totalTax: 16,
+      totalDepreciation: 50,
+      totalACV: 1366,
+      grandNetClaim: 366,
+    });
+  });
+
+  it('keeps the policy and tax terms that change the settlement', () => {
+    const snap = buildEstimateSnapshot({
+      lineItems: [makeItem({ sublimitKey: 'mold', isCodeUpgrade: true, incurredAt: new Date('2026-02-01T00:00:00Z') })],
+      rooms,
+      openings: [],
+      policyRules: [{
+        coverageType: 'A', policyLimit: 300000, deductible: 0, deductibleType: 'percentage', deductiblePct: 2,
+        perilDeductibles: [{ peril: 'hail', type: 'flat', amount: 2500 }], coinsurancePct: 80, replacementCostValue: 400000,
+        sublimits: [{ key: 'mold', label: 'Mold', limit: 10000 }], applyRoofSchedule: true, overheadPct: 10, profitPct: 10, taxRate: 7,
+      } as unknown as PolicyRule],
+      taxRules: [{ taxLabel: 'Sales tax', taxRate: 7, appliesToCategories: [], appliesToCostType: 'materials', isDefault: true, source: 'jurisdiction' } as unknown as TaxRule],
+    });
+    expect(snap.settlementRules.policyRules[0]).toMatchObject({
+      deductibleType: 'percentage', deductiblePct: 2, coinsurancePct: 80, replacementCostValue: 400000,
+      perilDeductibles: [{ peril: 'hail' }], sublimits: [{ key: 'mold' }],
+    });
+    expect(snap.settlementRules.taxRules[0].source).toBe('jurisdiction');
+    expect(snap.lineItems[0]).toMatchObject({ sublimitKey: 'mold', isCodeUpgrade: true, incurredAt: '2026-02-01T00:00:00.000Z' });
+  });
+});
+
+describe('diffEstimateSnapshots', () => {
+  const first = snapshot([
+    makeItem(),
+    makeItem({ id: 2, description: 'Baseboard', totalPrice: '80.00', depreciationAmount: 0 }),
+  ], rooms, settled(1330, 1000));
+
+  it('matches lines by id and reports added, removed and changed lines', () => {
+    const second = snapshot([
+      makeItem({ quantity: '120.00', totalPrice: '300.00' }),
+      makeItem({ id: 3, roomId: 11, description: 'Paint walls', totalPrice: '150.00', depreciationAmount: 0 }),
+    ], rooms, settled(1450, 1120));
+
+    const diff = diffEstimateSnapshots(first, second);
+    expect(diff.added.map(l => l.description)).toEqual(['Paint walls']);
+    expect(diff.added[0].roomName).toBe('Hallway');
+    expect(diff.removed.map(l => l.id)).toEqual([2]);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].changes).toEqual([
+      { field: 'quantity', from: 100, to: 120 },
+      { field: 'totalPrice', from: 250, to: 300 },
+    ]);
+    expect(diff.changed[0].totalPriceDelta).toBe(50);
+    expect(diff.unchangedCount).toBe(0);
+  });
+
+  it('reports total deltas between versions', () => {
+    const second = snapshot([makeItem({ totalPrice: '300.00' })], rooms, settled(1300, 950));
+    const diff = diffEstimateSnapshots(first, second);
+    expect(diff.totals.totalRCV).toEqual({ from: 1330, to: 1300, delta: -30 });
+    expect(diff.totals.itemCount.delta).toBe(-1);
+    expect(diff.totals.grandNetClaim).toEqual({ from: 1000, to: 950, delta: -50 });
+  });
+
+  it('treats identical snapshots as unchanged', () => {
+    const diff = diffEstimateSnapshots(first, first);
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.changed).toEqual([]);
+    expect(diff.unchangedCount).toBe(2);
+    expect(diff.totals.totalACV.delta).toBe(0);
+  });
+
+  it('reports rooms added or removed between versions', () => {
+    const second = snapshot([makeItem()], [rooms[0]]);
+    expect(diffEstimateSnapshots(first, second).rooms.removed.map(r => r.name)).toEqual(['Hallway']);
+  });
+
+  it('reports sublimit, code upgrade and incurred changes', () => {
+    const second = snapshot([
+      makeItem({ sublimitKey: 'mold', isCodeUpgrade: true, incurredAt: new Date('2026-03-01T00:00:00Z') }),
+      makeItem({ id: 2, description: 'Baseboard', totalPrice: '80.00', depreciationAmount: 0 }),
+    ], rooms, settled(1330, 1000));
+    expect(diffEstimateSnapshots(first, second).changed[0].changes).toEqual([
+      { field: 'sublimitKey', from: null, to: 'mold' },
+      { field: 'isCodeUpgrade', from: false, to: true },
+      { field: 'incurredAt', from: null, to: '2026-03-01T00:00:00.000Z' },
+    ]);
+  });
+
+  it('does not flag fields missing from versions taken before they were snapshotted', () => {
+    const older = { ...first, lineItems: first.lineItems.map(({ sublimitKey, incurredAt, ...line }) => line) } as typeof first;
+    expect(diffEstimateSnapshots(older, first).unchangedCount).toBe(2);
+  });
+
+  it('leaves the net claim delta empty when a version has no settlement', () => {
+    const second = snapshot([makeItem()], rooms, null);
+    expect(diffEstimateSnapshots(first, second).totals.grandNetClaim.delta).toBeNull();
+  });
+});
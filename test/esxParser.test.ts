@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import { generateESXFromData } from '../server/esxGenerator';
+import { generateSubroomXml } from '../server/estimateEngine';
+import { parseEsxFile, parseRoughDraftXml, parsePrintableDims } from '../server/esxParser';
+import {
+  compareEsxWithSession,
+  esxLineItemToInsert,
+  esxOpeningToInsert,
+  esxRoomToInsert,
+} from '../server/esxImport';
+import { readZipEntries } from '../server/zipReader';
+import { makeClaim, makeSession, makeRoom, makeRoomOpening, makeLineItem } from './mocks/fixtures';
+
+const claim = makeClaim({ perilType: 'wind' });
+const session = makeSession();
+const rooms = [
+  makeRoom({ id: 1, name: 'Kitchen', dimensions: { length: 12.5, width: 10, height: 8 } }),
+  makeRoom({ id: 2, name: 'Bob\'s "Den" & Office', dimensions: { length: 14, width: 11.25, height: 9 } }),
+  makeRoom({
+    id: 3,
+    name: 'Front Elevation',
+    roomType: 'exterior_elevation_front',
+    viewType: 'elevation',
+    dimensions: { length: 40, width: 0, height: 18 },
+  }),
+];
+const openings = [
+  makeRoomOpening({ id: 1, roomId: 1, openingType: 'standard_door', widthFt: 2.67, heightFt: 6.67, opensInto: 'Hallway', goesToFloor: true }),
+  makeRoomOpening({ id: 2, roomId: 1, openingType: 'window', widthFt: 3, heightFt: 4, quantity: 2, opensInto: 'E' }),
+  makeRoomOpening({ id: 3, roomId: 2, openingType: 'pass_through', widthFt: 4, heightFt: 9, opensInto: 'Kitchen', goesToFloor: true, goesToCeiling: true }),
+  makeRoomOpening({ id: 4, roomId: 3, openingType: 'overhead_door', widthFt: 16, heightFt: 7, goesToFloor: true }),
+];
+const lineItems = [
+  makeLineItem({ id: 1, roomId: 1, category: 'Drywall', action: 'R&R', xactCode: 'DRY-12-SF', quantity: 100, unitPrice: 1.65, totalPrice: 165 }),
+  makeLineItem({ id: 2, roomId: 1, category: 'Painting', action: 'Paint', description: 'Seal & paint walls', xactCode: 'PNT-WALL-SF', quantity: 320, unitPrice: 0.95, totalPrice: 304 }),
+  makeLineItem({ id: 3, roomId: 2, category: 'Flooring', action: 'Tear Off', description: 'Carpet <pad>', xactCode: 'FLR-CAR-SF', quantity: 154, unitPrice: 3.2, totalPrice: 492.8 }),
+  makeLineItem({ id: 4, roomId: 3, category: 'Siding', action: 'Install', description: 'Vinyl siding', xactCode: null, quantity: 6.5, unit: 'SQ', unitPrice: 310, totalPrice: 2015 }),
+];
+
+async function exportEsx(data: { rooms: any[]; openings: any[]; lineItems: any[] }) {
+  return generateESXFromData({ claim, session, ...data });
+}
+
+function roughDraftOf(esx: Buffer): string {
+  return readZipEntries(esx).get('GENERIC_ROUGHDRAFT.XML')!.toString('utf8');
+}
+
+describe('parseEsxFile round trip', () => {
+  it('reads back rooms whose SUBROOM blocks regenerate identically', async () => {
+    const esx = await exportEsx({ rooms, openings, lineItems });
+    const subrooms = roughDraftOf(esx).match(/ {2}<SUBROOM[\s\S]*?<\/SUBROOM>/g)!;
+    const parsed = await parseEsxFile(esx);
+
+    expect(parsed.rooms.map(r => r.name)).toEqual(['Bob\'s "Den" & Office', 'Front Elevation', 'Kitchen']);
+    expect(parsed.rooms.map(r => generateSubroomXml(r.name, r.dimensions, r.openings))).toEqual(subrooms);
+
+    const kitchen = parsed.rooms.find(r => r.name === 'Kitchen')!;
+    expect(kitchen.dimensions).toMatchObject({ length: 12.5, width: 10, height: 8, elevationType: 'box' });
+    expect(kitchen.openings).toEqual([
+      { openingType: 'standard_door', widthFt: 2.67, heightFt: 6.67, quantity: 1, opensInto: 'Hallway', goesToFloor: true, goesToCeiling: false },
+      { openingType: 'window', widthFt: 3, heightFt: 4, quantity: 2, opensInto: 'E', goesToFloor: false, goesToCeiling: false },
+    ]);
+    const elevation = parsed.rooms.find(r => r.name === 'Front Elevation')!;
+    expect(elevation.dimensions).toMatchObject({ length: 40, height: 18, elevationType: 'elevation' });
+    expect(elevation.isSketchRoom).toBe(true);
+  });
+
+  it('reads back line items with their codes, actions and prices', async () => {
+    const parsed = await parseEsxFile(await exportEsx({ rooms, openings, lineItems }));
+
+    expect(parsed.lineItems).toHaveLength(4);
+    expect(parsed.contents).toEqual([]);
+    const carpet = parsed.lineItems.find(l => l.xactCode === 'FLR-CAR-SF')!;
+    expect(carpet).toMatchObject({
+      roomName: 'Bob\'s "Den" & Office',
+      category: 'Flooring',
+      act: '-',
+      action: 'Tear Off',
+      description: 'Carpet <pad>',
+      quantity: 154,
+      unit: 'SF',
+      unitPrice: 3.2,
+      totalPrice: 492.8,
+    });
+    const siding = parsed.lineItems.find(l => l.description === 'Vinyl siding')!;
+    expect(siding).toMatchObject({ xactCode: null, action: 'Install', quantity: 6.5, unit: 'SQ', totalPrice: 2015 });
+    expect(parsed.header).toMatchObject({ claimNumber: 'CLM-2025-001', priceListId: 'USNATNL' });
+  });
+
+  it('re-exports an imported session to the same rough draft', async () => {
+    const original = await exportEsx({ rooms, openings, lineItems });
+    const parsed = await parseEsxFile(original);
+
+    let nextId = 100;
+    const importedRooms = parsed.rooms.map(r => ({ id: nextId++, ...esxRoomToInsert(r, 1, 1) }));
+    const roomId = (name: string) => importedRooms.find(r => r.name === name)!.id;
+    const importedOpenings = parsed.rooms.flatMap(r =>
+      r.openings.map(o => ({ id: nextId++, ...esxOpeningToInsert(o, 1, roomId(r.name)) })));
+    const importedItems = parsed.lineItems.map(l => ({ id: nextId++, ...esxLineItemToInsert(l, 1, roomId(l.roomName)) }));
+
+    const reexported = await exportEsx({ rooms: importedRooms, openings: importedOpenings, lineItems: importedItems });
+    expect(roughDraftOf(reexported)).toBe(roughDraftOf(original));
+  });
+
+  it('rejects buffers that are not ESX archives', async () => {
+    await expect(parseEsxFile(Buffer.from('not a zip'))).rejects.toThrow(/ZIP/);
+  });
+});
+
+describe('parseRoughDraftXml for files from other estimators', () => {
+  const xml = `<?xml version="1.0"?>
+<GENERIC_ROUGHDRAFT>
+  <DIM>
+    <SUBROOM printableDims="12' 6&quot; x 10' x 8'" type="Box" name="Bath">
+      <MISSWALLS><MISSWALL opensInto="Exterior" quantity="1" length="36000" height="48000"/></MISSWALLS>
+    </SUBROOM>
+  </DIM>
+  <LINE_ITEM_DETAIL>
+    <GROUP type="estimate" name="Estimate">
+      <GROUP type="level" name="HOUSE">
+        <GROUP type="room" name="Bath"><ITEMS>
+          <ITEM lineNum="1" cat="FCT" sel="TILE" act="&amp;" desc="Tile floor" qty="40.00" unit="SF" rcvTotal="500.00" depreciationAmt="50.00"/>
+        </ITEMS></GROUP>
+        <GROUP type="room" name="Laundry"><ITEMS>
+          <ITEM lineNum="1" cat="PLM" sel="WH50" act="+" desc="Water heater" qty="1" unit="EA" total="1200.00"/>
+        </ITEMS></GROUP>
+      </GROUP>
+      <GROUP type="level" name="CONTENTS" coverage="C"><GROUP type="room" name="Bath"><ITEMS>
+        <ITEM lineNum="1" cat="CON" sel="ELECTRONICS" act="+" desc="Hair dryer" qty="1.00" unit="EA" unitPrice="40.00" rcvTotal="42.80" age="3" life="5"/>
+      </ITEMS></GROUP></GROUP>
+    </GROUP>
+  </LINE_ITEM_DETAIL>
+</GENERIC_ROUGHDRAFT>`;
+
+  it('falls back to printableDims, inferred opening types and derived unit prices', async () => {
+    const parsed = await parseRoughDraftXml(xml);
+
+    expect(parsed.rooms[0].dimensions).toMatchObject({ length: 12.5, width: 10, height: 8 });
+    expect(parsed.rooms[0].openings[0]).toMatchObject({ openingType: 'window', widthFt: 3, heightFt: 4, opensInto: 'E' });
+    expect(parsed.lineItems[0]).toMatchObject({
+      category: 'FCT', xactCategory: 'FCT', selector: 'TILE', xactCode: null, action: 'R&R', unitPrice: 12.5, acvTotal: 450,
+    });
+    expect(parsed.lineItems[1]).toMatchObject({ roomName: 'Laundry', totalPrice: 1200, unitPrice: 1200 });
+  });
+
+  it('adds rooms that only appear in line item groups and keeps contents apart', async () => {
+    const parsed = await parseRoughDraftXml(xml);
+
+    expect(parsed.rooms.map(r => r.name)).toEqual(['Bath', 'Laundry']);
+    expect(parsed.contents).toHaveLength(1);
+    expect(parsed.contents[0]).toMatchObject({ coverage: 'C', description: 'Hair dryer', age: 3, lifeExpectancy: 5 });
+  });
+
+  it('parses feet-and-inches printable dimensions', () => {
+    expect(parsePrintableDims(`12' 6" x 10' x 8'`)).toEqual([12.5, 10, 8]);
+    expect(parsePrintableDims(`40' x 18' x 0"`)).toEqual([40, 18, 0]);
+  });
+});
+
+describe('compareEsxWithSession', () => {
+  it('pairs lines by room and code and totals the differences', async () => {
+    const parsed = await parseEsxFile(await exportEsx({ rooms, openings, lineItems }));
+    parsed.lineItems = parsed.lineItems
+      .filter(l => l.xactCode !== 'PNT-WALL-SF')
+      .map(l => l.xactCode === 'DRY-12-SF' ? { ...l, quantity: 120, totalPrice: 198 } : l);
+
+    const ours = lineItems.map(i => ({ ...i, depreciationAmount: 0 })) as any[];
+    ours.push(makeLineItem({ id: 5, roomId: 2, category: 'Cleaning', description: 'Clean floor', xactCode: null, totalPrice: 50, depreciationAmount: 0 }));
+    parsed.lineItems.push({ ...parsed.lineItems[0], roomName: 'Garage', xactCode: 'RFG-240', totalPrice: 75, depreciationAmount: 0 });
+
+    const result = compareEsxWithSession(parsed, ours, rooms as any[]);
+
+    expect(result.matched).toHaveLength(3);
+    const drywall = result.matched.find(l => l.xactCode === 'DRY-12-SF')!;
+    expect(drywall).toMatchObject({ lineItemId: 1, quantityDelta: 20, totalPriceDelta: 33 });
+    expect(result.onlyOurs.map(l => l.lineItemId).sort()).toEqual([2, 5]);
+    expect(result.onlyTheirs.map(l => l.roomName)).toEqual(['Garage']);
+    expect(result.rooms.find(r => r.roomName === 'Kitchen')).toEqual({ roomName: 'Kitchen', ours: 469, theirs: 198, delta: -271 });
+    expect(result.totals.delta.itemCount).toBe(-1);
+  });
+});
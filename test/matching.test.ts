@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  applyMatching,
+  matchingRulesForState,
+  matchingScopeItems,
+  recommendMatching,
+} from '../server/matching';
+import { createMockStorage } from './mocks/storage.mock';
+import { makeRoom } from './mocks/fixtures';
+
+const facet = (id: number, label: string, length: number, width: number, overrides: Record<string, any> = {}) =>
+  makeRoom({ id, name: `Slope ${label}`, roomType: 'exterior_roof_slope', viewType: 'roof_plan', facetLabel: label, dimensions: { length, width }, ...overrides }) as any;
+
+const scopeItem = (id: number, roomId: number, quantity: number, overrides: Record<string, any> = {}) => ({
+  id, sessionId: 1, roomId, damageId: 5, catalogCode: 'RFG-SHIN-AR', description: 'Laminated comp shingles',
+  tradeCode: 'RFG', quantity, unit: 'SQ', quantityFormula: 'ROOF_SQ', provenance: 'damage_triggered',
+  coverageType: 'A', activityType: 'replace', wasteFactor: 10, status: 'active', parentScopeItemId: null,
+  quantityIsPlaceholder: false, dimensionProvenance: 'measured', lastQuantityRecalcAt: null,
+  createdAt: new Date(), updatedAt: new Date(), ...overrides,
+}) as any;
+
+const unmatched = { materialAvailability: 'unavailable', lineOfSight: true, continuous: true };
+
+describe('recommendMatching', () => {
+  const rules = matchingRulesForState('TX');
+
+  it('recommends nothing while a match is available or unconfirmed', () => {
+    expect(recommendMatching('roof', { ...unmatched, materialAvailability: 'available' }, rules).recommendation).toBe('none');
+    expect(recommendMatching('roof', { ...unmatched, materialAvailability: 'unknown' }, rules).recommendation).toBe('none');
+  });
+
+  it('extends an unmatched roof to the whole roof only when it reads as one surface', () => {
+    expect(recommendMatching('roof', unmatched, rules).recommendation).toBe('full_roof');
+    expect(recommendMatching('roof', { ...unmatched, continuous: false }, rules).recommendation).toBe('full_slope');
+    expect(recommendMatching('roof', { ...unmatched, lineOfSight: false }, rules).recommendation).toBe('full_slope');
+  });
+
+  it('applies the state rules to elevations', () => {
+    const outOfSight = { ...unmatched, lineOfSight: false };
+    expect(recommendMatching('elevation', unmatched, rules).recommendation).toBe('full_elevation');
+    expect(recommendMatching('elevation', outOfSight, rules).recommendation).toBe('none');
+    // Florida reaches adjoining areas whether or not they are in line of sight
+    expect(matchingRulesForState('fl')).toMatchObject({ state: 'FL', requireLineOfSight: false });
+    expect(recommendMatching('elevation', outOfSight, matchingRulesForState('FL')).recommendation).toBe('full_elevation');
+    expect(recommendMatching('roof', unmatched, { ...rules, requiresMatch: false }).recommendation).toBe('none');
+  });
+});
+
+describe('matchingScopeItems', () => {
+  const f1 = facet(11, 'F1', 30, 20);
+  const f2 = facet(12, 'F2', 30, 20);
+  const garage = facet(13, 'F1', 20, 10, { structureId: 2, structure: 'Detached Garage' });
+  const rooms = [f1, f2, garage];
+
+  it('scopes the rest of the damaged slope as matching', () => {
+    const items = matchingScopeItems(f1, rooms, [scopeItem(100, 11, 2)], 'full_slope');
+    expect(items).toEqual([expect.objectContaining({
+      roomId: 11, quantity: 4, unit: 'SQ', provenance: 'matching', parentScopeItemId: 100, damageId: null,
+    })]);
+  });
+
+  it('extends a full-roof match to the other facets of the same structure', () => {
+    const items = matchingScopeItems(f1, rooms, [scopeItem(100, 11, 6), scopeItem(101, 12, 1.5)], 'full_roof');
+    expect(items.map(i => [i.roomId, i.quantity])).toEqual([[12, 4.5]]);
+    expect(matchingScopeItems(f1, rooms, [scopeItem(100, 11, 6)], 'none')).toEqual([]);
+  });
+});
+
+describe('applyMatching', () => {
+  it('replaces the matching items generated from the assessment', async () => {
+    const f1 = facet(11, 'F1', 30, 20);
+    const storage = createMockStorage({
+      getRooms: vi.fn().mockResolvedValue([f1]),
+      getScopeItems: vi.fn().mockResolvedValue([
+        scopeItem(100, 11, 2),
+        scopeItem(200, 11, 3, { provenance: 'matching', parentScopeItemId: 100 }),
+      ]),
+      createScopeItems: vi.fn().mockImplementation(async (rows) => rows.map((r: any, i: number) => ({ id: 300 + i, ...r }))),
+    });
+
+    const result = await applyMatching(storage, 1, { id: 9, roomId: 11, recommendation: 'full_slope' } as any);
+
+    expect(storage.deleteScopeItem).toHaveBeenCalledWith(200);
+    expect(storage.createScopeItems).toHaveBeenCalledWith([expect.objectContaining({ quantity: 4, provenance: 'matching' })]);
+    expect(storage.updateMatchingAssessment).toHaveBeenCalledWith(9, { appliedAt: expect.any(Date) });
+    expect(storage.recalculateScopeSummary).toHaveBeenCalledWith(1);
+    expect(result.removed).toBe(1);
+  });
+});
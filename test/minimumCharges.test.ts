@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+import { findMinimumShortfalls, minimumChargeItems, syncMinimumCharges } from '../server/minimumCharges';
+import { laborBurdenRate } from '../server/taxJurisdiction';
+import { calculateEstimateTotals, calculateLineItemPrice } from '../server/estimateEngine';
+import { createMockStorage } from './mocks/storage.mock';
+
+const drywallMin = { id: 'DRYMIN', cat: 'DRY', sel: 'MIN', description: 'Drywall minimum charge', amount: '250' };
+const electricalMin = { id: 'ELEMIN', cat: 'ELE', sel: 'MIN', description: null, amount: '175' };
+
+function line(overrides: Record<string, unknown>): any {
+  return {
+    id: 1, sessionId: 5, roomId: 10, category: 'Drywall', xactCode: 'DRY-PATCH-SF', totalPrice: '60.00',
+    tradeCode: 'DRY', coverageType: 'A', coverageBucket: 'Coverage A', provenance: 'voice', xactMinimumId: null,
+    ...overrides,
+  };
+}
+
+describe('findMinimumShortfalls', () => {
+  it('flags minimums whose items extend to less than the minimum amount', () => {
+    const shortfalls = findMinimumShortfalls(
+      [
+        { minimumId: 'DRYMIN', totalPrice: 60 },
+        { minimumId: 'DRYMIN', totalPrice: 40.5 },
+        { minimumId: 'ELEMIN', totalPrice: 180 },
+        { minimumId: null, totalPrice: 5 },
+      ],
+      [drywallMin, electricalMin],
+    );
+    expect(shortfalls).toHaveLength(1);
+    expect(shortfalls[0]).toMatchObject({ minimum: { id: 'DRYMIN' }, itemsTotal: 100.5, adjustment: 149.5 });
+  });
+
+  it('ignores zero-value groups and unknown minimums', () => {
+    expect(findMinimumShortfalls([{ minimumId: 'DRYMIN', totalPrice: 0 }, { minimumId: 'X', totalPrice: 1 }], [drywallMin]))
+      .toEqual([]);
+  });
+});
+
+describe('pricing with burden and minimums', () => {
+  const outlet = { code: 'ELC-OUTL-EA', description: 'Outlet', unit: 'EA', tradeCode: 'ELE', xactMinimumId: 'ELEMIN' };
+
+  it('adds the labor burden and a labor-only minimum adjustment line', () => {
+    const burden = laborBurdenRate([{ rate: '7.65' }, { rate: '2.35' }]);
+    expect(burden).toBe(10);
+
+    const priced = calculateLineItemPrice(outlet, { materialCost: 12, laborCost: 40, equipmentCost: 0 }, 1, 0, burden);
+    expect(priced.unitPriceBreakdown.laborCost).toBe(44);
+    expect(priced).toMatchObject({ totalPrice: 56, minimumId: 'ELEMIN' });
+
+    const { items, shortfalls } = minimumChargeItems([priced], [electricalMin]);
+    expect(shortfalls[0].adjustment).toBe(119);
+    expect(items[0]).toMatchObject({ code: 'ELE MIN', description: 'Minimum charge', totalPrice: 119, tradeCode: 'ELE' });
+
+    const totals = calculateEstimateTotals([priced, ...items], 0);
+    expect(totals.subtotal).toBe(175);
+    expect(totals.subtotalLabor).toBe(163);
+  });
+});
+
+describe('syncMinimumCharges', () => {
+  const catalog = [{ code: 'DRY-PATCH-SF', xactMinimumId: 'DRYMIN' }, { code: 'ELC-OUTL-EA', xactMinimumId: 'ELEMIN' }];
+
+  it('creates a minimum line in the room of the first item it covers', async () => {
+    const storage = createMockStorage({
+      getLineItems: vi.fn().mockResolvedValue([line({ id: 1, roomId: 10 }), line({ id: 2, roomId: 11, totalPrice: '40' })]),
+      getScopeLineItemsByCodes: vi.fn().mockResolvedValue(catalog),
+      getXactMinimums: vi.fn().mockResolvedValue([drywallMin]),
+    });
+
+    expect(await syncMinimumCharges(storage, 5)).toEqual({ created: 1, updated: 0, removed: 0 });
+    expect(storage.createLineItem).toHaveBeenCalledWith(expect.objectContaining({
+      sessionId: 5, roomId: 10, description: 'Drywall minimum charge', totalPrice: '150',
+      provenance: 'minimum', xactMinimumId: 'DRYMIN',
+    }));
+  });
+
+  it('updates a changed shortfall and removes minimums that are now met', async () => {
+    const storage = createMockStorage({
+      getLineItems: vi.fn().mockResolvedValue([
+        line({ id: 1, totalPrice: '200' }),
+        line({ id: 2, xactCode: 'ELC-OUTL-EA', totalPrice: '300' }),
+        line({ id: 3, provenance: 'minimum', xactCode: null, totalPrice: '150', xactMinimumId: 'DRYMIN' }),
+        line({ id: 4, provenance: 'minimum', xactCode: null, totalPrice: '20', xactMinimumId: 'ELEMIN' }),
+      ]),
+      getScopeLineItemsByCodes: vi.fn().mockResolvedValue(catalog),
+      getXactMinimums: vi.fn().mockResolvedValue([drywallMin, electricalMin]),
+    });
+
+    expect(await syncMinimumCharges(storage, 5)).toEqual({ created: 0, updated: 1, removed: 1 });
+    expect(storage.updateLineItem).toHaveBeenCalledWith(3, expect.objectContaining({ totalPrice: '50' }));
+    expect(storage.deleteLineItem).toHaveBeenCalledWith(4);
+    expect(storage.createLineItem).not.toHaveBeenCalled();
+  });
+});
@@ -7,6 +7,9 @@ import type { IStorage } from '../../server/storage';
  */
 export function createMockStorage(overrides: Partial<IStorage> = {}): IStorage {
   const mock: IStorage = {
+    // Transactions run against the same mock
+    transaction: vi.fn().mockImplementation(async (fn) => fn(mock)),
+
     // User
     getUser: vi.fn().mockResolvedValue(undefined),
     getUserByUsername: vi.fn().mockResolvedValue(undefined),
@@ -150,6 +153,14 @@ export function createMockStorage(overrides: Partial<IStorage> = {}): IStorage {
     getMoistureReading: vi.fn().mockResolvedValue(undefined),
     getMoistureReadings: vi.fn().mockResolvedValue([]),
     getMoistureReadingsForSession: vi.fn().mockResolvedValue([]),
+    createAtmosphericReading: vi.fn().mockResolvedValue({ id: 1 }),
+    getAtmosphericReadingsForSession: vi.fn().mockResolvedValue([]),
+    deleteAtmosphericReading: vi.fn().mockResolvedValue(undefined),
+    createDryingEquipment: vi.fn().mockResolvedValue({ id: 1 }),
+    getDryingEquipment: vi.fn().mockResolvedValue(undefined),
+    getDryingEquipmentForSession: vi.fn().mockResolvedValue([]),
+    updateDryingEquipment: vi.fn().mockResolvedValue(undefined),
+    deleteDryingEquipment: vi.fn().mockResolvedValue(undefined),
 
     // Transcripts
     addTranscript: vi.fn().mockResolvedValue({ id: 1 }),
@@ -161,6 +172,8 @@ export function createMockStorage(overrides: Partial<IStorage> = {}): IStorage {
     getScopeLineItems: vi.fn().mockResolvedValue([]),
     getScopeLineItemByCode: vi.fn().mockResolvedValue(undefined),
     getScopeLineItemsByTrade: vi.fn().mockResolvedValue([]),
+    getScopeLineItemsByCodes: vi.fn().mockResolvedValue([]),
+    getXactMinimums: vi.fn().mockResolvedValue([]),
     getRegionalPrice: vi.fn().mockResolvedValue(undefined),
     getRegionalPricesForRegion: vi.fn().mockResolvedValue([]),
     getScopeTrades: vi.fn().mockResolvedValue([]),
@@ -174,6 +187,10 @@ export function createMockStorage(overrides: Partial<IStorage> = {}): IStorage {
     updateScopeItem: vi.fn().mockResolvedValue(undefined),
     deleteScopeItem: vi.fn().mockResolvedValue(undefined),
     getActiveScopeItemCount: vi.fn().mockResolvedValue(0),
+    getMatchingAssessments: vi.fn().mockResolvedValue([]),
+    getMatchingAssessmentForRoom: vi.fn().mockResolvedValue(undefined),
+    upsertMatchingAssessment: vi.fn().mockResolvedValue({ id: 1 }),
+    updateMatchingAssessment: vi.fn().mockResolvedValue(undefined),
     upsertScopeSummary: vi.fn().mockResolvedValue({ id: 1 }),
     getScopeSummary: vi.fn().mockResolvedValue([]),
     recalculateScopeSummary: vi.fn().mockResolvedValue([]),
@@ -198,6 +215,10 @@ export function createMockStorage(overrides: Partial<IStorage> = {}): IStorage {
     getDefaultFlowForPeril: vi.fn().mockResolvedValue(undefined),
     updateInspectionFlow: vi.fn().mockResolvedValue(undefined),
     deleteInspectionFlow: vi.fn().mockResolvedValue(false),
+    getInspectionFlowVersions: vi.fn().mockResolvedValue([]),
+    getInspectionFlowVersion: vi.fn().mockResolvedValue(undefined),
+    getLatestInspectionFlowVersion: vi.fn().mockResolvedValue(undefined),
+    createInspectionFlowVersion: vi.fn().mockResolvedValue({ id: 1, version: 1 }),
 
     // Policy Rules
     createPolicyRule: vi.fn().mockResolvedValue({ id: 1 }),
@@ -205,10 +226,88 @@ export function createMockStorage(overrides: Partial<IStorage> = {}): IStorage {
     getPolicyRule: vi.fn().mockResolvedValue(undefined),
     updatePolicyRule: vi.fn().mockResolvedValue(undefined),
 
+    // Endorsement Proposals
+    createEndorsementProposal: vi.fn().mockResolvedValue({ id: 1 }),
+    getEndorsementProposals: vi.fn().mockResolvedValue([]),
+    updateEndorsementProposal: vi.fn().mockResolvedValue(undefined),
+    deleteEndorsementProposal: vi.fn().mockResolvedValue(undefined),
+
     // Tax Rules
     createTaxRule: vi.fn().mockResolvedValue({ id: 1 }),
     getTaxRulesForClaim: vi.fn().mockResolvedValue([]),
     deleteTaxRule: vi.fn().mockResolvedValue(undefined),
+    deleteTaxRulesBySource: vi.fn().mockResolvedValue(undefined),
+    getTaxJurisdictions: vi.fn().mockResolvedValue([]),
+    getTaxJurisdiction: vi.fn().mockResolvedValue(undefined),
+    getJurisdictionSalesTaxes: vi.fn().mockResolvedValue([]),
+    getJurisdictionBurdenTaxes: vi.fn().mockResolvedValue([]),
+    getTaxJurisdictionAreas: vi.fn().mockResolvedValue([]),
+    createTaxJurisdictionArea: vi.fn().mockResolvedValue({ id: 1 }),
+    deleteTaxJurisdictionArea: vi.fn().mockResolvedValue(undefined),
+
+    // Contents Inventory
+    createContentsItem: vi.fn().mockResolvedValue({ id: 1 }),
+    createContentsItems: vi.fn().mockResolvedValue([]),
+    getContentsItemsForClaim: vi.fn().mockResolvedValue([]),
+    getContentsItem: vi.fn().mockResolvedValue(undefined),
+    updateContentsItem: vi.fn().mockResolvedValue(undefined),
+    deleteContentsItem: vi.fn().mockResolvedValue(undefined),
+
+    // Depreciation Holdback
+    getHoldbacksForClaim: vi.fn().mockResolvedValue([]),
+    getHoldback: vi.fn().mockResolvedValue(undefined),
+    upsertHoldback: vi.fn().mockResolvedValue({ id: 1 }),
+    updateHoldback: vi.fn().mockResolvedValue(undefined),
+    createHoldbackProof: vi.fn().mockResolvedValue({ id: 1 }),
+    getHoldbackProofsForClaim: vi.fn().mockResolvedValue([]),
+    createHoldbackRelease: vi.fn().mockResolvedValue({ id: 1 }),
+    getHoldbackReleasesForClaim: vi.fn().mockResolvedValue([]),
+
+    // Claim Payments
+    createPaymentEntries: vi.fn().mockResolvedValue([]),
+    getPaymentsForClaim: vi.fn().mockResolvedValue([]),
+    getPayment: vi.fn().mockResolvedValue(undefined),
+
+    // Estimate Versions
+    createEstimateVersion: vi.fn().mockResolvedValue({ id: 1, versionNumber: 1 }),
+    getEstimateVersions: vi.fn().mockResolvedValue([]),
+    getEstimateVersion: vi.fn().mockResolvedValue(undefined),
+
+    // Estimate Reconciliations
+    createEstimateReconciliation: vi.fn().mockResolvedValue({ id: 1 }),
+    getEstimateReconciliations: vi.fn().mockResolvedValue([]),
+    getEstimateReconciliation: vi.fn().mockResolvedValue(undefined),
+    updateEstimateReconciliation: vi.fn().mockResolvedValue(undefined),
+
+    // Carriers
+    getCarriers: vi.fn().mockResolvedValue([]),
+    getCarrier: vi.fn().mockResolvedValue(undefined),
+    getCarrierByCode: vi.fn().mockResolvedValue(undefined),
+    createCarrier: vi.fn().mockResolvedValue({ id: 1 }),
+    updateCarrier: vi.fn().mockResolvedValue(undefined),
+
+    // Gate Rule Packs
+    getGateRulePacks: vi.fn().mockResolvedValue([]),
+    getGateRulePack: vi.fn().mockResolvedValue(undefined),
+    getApplicableGateRulePacks: vi.fn().mockResolvedValue([]),
+    createGateRulePack: vi.fn().mockResolvedValue({ id: 1 }),
+    updateGateRulePack: vi.fn().mockResolvedValue(undefined),
+    deleteGateRulePack: vi.fn().mockResolvedValue(false),
+
+    // Depreciation Schedules
+    getDepreciationSchedules: vi.fn().mockResolvedValue([]),
+    getDepreciationSchedule: vi.fn().mockResolvedValue(undefined),
+    createDepreciationSchedule: vi.fn().mockResolvedValue({ id: 1 }),
+    updateDepreciationSchedule: vi.fn().mockResolvedValue(undefined),
+    getDepreciationScheduleVersions: vi.fn().mockResolvedValue([]),
+    getDepreciationScheduleVersion: vi.fn().mockResolvedValue(undefined),
+    createDepreciationScheduleVersion: vi.fn().mockResolvedValue({ id: 1, version: 1 }),
+
+    // Price List Imports
+    createPriceListImport: vi.fn().mockResolvedValue({ id: 1 }),
+    getPriceListImports: vi.fn().mockResolvedValue([]),
+    getPriceListImport: vi.fn().mockResolvedValue(undefined),
+    updatePriceListImport: vi.fn().mockResolvedValue(undefined),
 
     // Settlement
     getSettlementSummary: vi.fn().mockResolvedValue(null),
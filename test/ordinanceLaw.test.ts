@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ensureOrdinanceLawRule, ordinanceLawLimit, ordinanceLawRule, routeCodeUpgrade } from '../server/ordinanceLaw';
+import { calculateItemDepreciation, calculateSettlement } from '../server/estimateEngine';
+import { getDefaultSettlementRules } from '../server/settlementRules';
+import { createMockStorage } from './mocks/storage.mock';
+
+describe('routeCodeUpgrade', () => {
+  it('sends code upgrades to Ordinance or Law as Paid When Incurred', () => {
+    expect(routeCodeUpgrade(true)).toEqual({
+      coverageBucket: 'Ordinance or Law', depreciationType: 'Paid When Incurred', isCodeUpgrade: true,
+    });
+    expect(routeCodeUpgrade(false)).toBeNull();
+    expect(routeCodeUpgrade(null)).toBeNull();
+  });
+});
+
+describe('ordinanceLawLimit', () => {
+  it('sizes the limit from Coverage A by the claim state', () => {
+    expect(ordinanceLawLimit(300000, 'TX')).toBe(30000);
+    expect(ordinanceLawLimit(300000, 'fl')).toBe(75000);
+    expect(ordinanceLawLimit(300000, null)).toBe(30000);
+    expect(ordinanceLawLimit(null, 'FL')).toBeNull();
+  });
+
+  it('prefers a limit stated on the policy', () => {
+    const rule = ordinanceLawRule({ id: 7, state: 'FL' }, { policyLimit: 300000, overheadPct: 10, profitPct: 10, taxRate: 7 }, 15000);
+    expect(rule).toMatchObject({ claimId: 7, coverageType: 'Ordinance or Law', policyLimit: 15000, deductible: 0, taxRate: 7 });
+  });
+});
+
+describe('ensureOrdinanceLawRule', () => {
+  const coverageA = { id: 1, claimId: 7, coverageType: 'Coverage A', policyLimit: 200000, overheadPct: 10, profitPct: 10, taxRate: 8 };
+
+  it('adds the rule to a claim that already has policy rules', async () => {
+    const storage = createMockStorage({ getPolicyRulesForClaim: vi.fn().mockResolvedValue([coverageA]) });
+    await ensureOrdinanceLawRule(storage, { id: 7, state: 'GA' });
+    expect(storage.createPolicyRule).toHaveBeenCalledWith(expect.objectContaining({
+      claimId: 7, coverageType: 'Ordinance or Law', policyLimit: 20000,
+    }));
+  });
+
+  it('leaves claims without rules, or with the rule, alone', async () => {
+    const empty = createMockStorage();
+    expect(await ensureOrdinanceLawRule(empty, { id: 7, state: 'GA' })).toBeNull();
+
+    const existing = { ...coverageA, id: 2, coverageType: 'Ordinance or Law', policyLimit: 20000 };
+    const storage = createMockStorage({ getPolicyRulesForClaim: vi.fn().mockResolvedValue([coverageA, existing]) });
+    expect(await ensureOrdinanceLawRule(storage, { id: 7, state: 'GA' })).toBe(existing);
+    expect(storage.createPolicyRule).not.toHaveBeenCalled();
+  });
+});
+
+describe('Paid When Incurred settlement', () => {
+  it('pays incurred work in full and holds back the rest', () => {
+    expect(calculateItemDepreciation(1000, 10, 20, null, 'Paid When Incurred')).toMatchObject({ acv: 0 });
+    expect(calculateItemDepreciation(1000, 10, 20, null, 'Paid When Incurred', false, false, true))
+      .toMatchObject({ acv: 1000, depreciationAmount: 0 });
+  });
+
+  it('settles the Ordinance or Law bucket against its own limit', () => {
+    const rules = { ...getDefaultSettlementRules(), defaultTaxRate: 0 };
+    const item = (id: number, totalPrice: number, overrides: Record<string, unknown>) => ({
+      id, description: 'Item', category: 'Roofing', tradeCode: 'RFG', quantity: 1, unitPrice: totalPrice,
+      totalPrice, age: null, lifeExpectancy: null, depreciationPercentage: null,
+      depreciationType: 'Recoverable', coverageBucket: 'Coverage A', structure: null, ...overrides,
+    });
+    const codeUpgrade = { depreciationType: 'Paid When Incurred', coverageBucket: 'Ordinance or Law' };
+
+    const summary = calculateSettlement(
+      [
+        item(1, 20000, {}),
+        item(2, 3000, { ...codeUpgrade, incurred: true }),
+        item(3, 1500, codeUpgrade),
+      ],
+      rules,
+      [
+        { coverageType: 'Coverage A', policyLimit: 200000, deductible: 1000 },
+        { coverageType: 'Ordinance or Law', policyLimit: 2500, deductible: 0 },
+      ],
+    );
+
+    const dwelling = summary.coverages.find(c => c.coverageType === 'Coverage A')!;
+    const ordinance = summary.coverages.find(c => c.coverageType === 'Ordinance or Law')!;
+    expect(dwelling.netClaim).toBe(19000);
+    expect(ordinance).toMatchObject({ totalRCV: 4500, totalACV: 3000, paidWhenIncurredPending: 1500, overLimitDeduction: 500, netClaim: 2500 });
+    expect(summary.grandTotalPaidWhenIncurredPending).toBe(1500);
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { generateInspectionPDF } from '../server/pdfGenerator';
+import { generateInspectionPDF, settleCoverage } from '../server/pdfGenerator';
+import { calculateSettlement } from '../server/estimateEngine';
+import { getDefaultSettlementRules } from '../server/settlementRules';
 import {
   makeClaim,
   makeSession,
@@ -123,3 +125,182 @@ describe('generateInspectionPDF', () => {
     expect(Buffer.isBuffer(result)).toBe(true);
   });
 });
+
+function makeRoomEstimateItem(overrides: Record<string, unknown> = {}) {
+  return {
+    lineNumber: 1,
+    description: 'Drywall replacement',
+    category: 'Drywall',
+    quantity: 100,
+    unit: 'SF',
+    unitPrice: 1.65,
+    totalPrice: 165.0,
+    taxAmount: 0,
+    depreciationAmount: 16.5,
+    depreciationType: 'Recoverable',
+    depreciationPercentage: 10,
+    acv: 148.5,
+    age: 5,
+    lifeExpectancy: 50,
+    action: null,
+    provenance: null,
+    coverageBucket: 'Coverage A',
+    ...overrides,
+  };
+}
+
+function makeRoomEstimatePDFData(items: ReturnType<typeof makeRoomEstimateItem>[]) {
+  const data = makeMinimalPDFData();
+  const subtotal = items.reduce((s, i) => s + i.totalPrice, 0);
+  const dep = items.reduce((s, i) => s + i.depreciationAmount, 0);
+  return {
+    ...data,
+    roomEstimate: {
+      rooms: [{
+        id: 1,
+        name: 'Living Room',
+        structure: 'Main Dwelling',
+        items,
+        subtotal,
+        totalTax: 0,
+        totalDepreciation: dep,
+        totalRecoverableDepreciation: dep,
+        totalNonRecoverableDepreciation: 0,
+        totalACV: subtotal - dep,
+      }],
+      grandTotal: subtotal,
+      grandTax: 0,
+      grandDepreciation: dep,
+      grandRecoverableDepreciation: dep,
+      grandNonRecoverableDepreciation: 0,
+      grandACV: subtotal - dep,
+      totalLineItems: items.length,
+    },
+  };
+}
+
+function countPages(pdf: Buffer): number {
+  return (pdf.toString('latin1').match(/\/Type \/Page\b/g) || []).length;
+}
+
+describe('generateInspectionPDF per-coverage settlement', () => {
+  it('renders the room estimate layout for a single coverage', async () => {
+    const result = await generateInspectionPDF(makeRoomEstimatePDFData([makeRoomEstimateItem()]));
+    expect(result.slice(0, 5).toString('ascii')).toBe('%PDF-');
+  });
+
+  it('adds recap, settlement and grand total pages for each extra coverage', async () => {
+    const single = await generateInspectionPDF(makeRoomEstimatePDFData([makeRoomEstimateItem()]));
+    const multi = await generateInspectionPDF(makeRoomEstimatePDFData([
+      makeRoomEstimateItem(),
+      makeRoomEstimateItem({ lineNumber: 2, description: 'Shed siding', coverageBucket: 'Coverage B' }),
+    ]));
+    // One extra estimate recap, one extra settlement summary, one grand total page
+    expect(countPages(multi)).toBe(countPages(single) + 3);
+  });
+
+  it('accepts policy limits and deductibles per coverage', async () => {
+    const data = makeRoomEstimatePDFData([
+      makeRoomEstimateItem(),
+      makeRoomEstimateItem({ lineNumber: 2, coverageBucket: 'Coverage C', totalPrice: 5000, acv: 4500, depreciationAmount: 500 }),
+    ]);
+    (data.estimate as any).coverageBreakdown = [
+      { coverageType: 'Coverage A', totalRCV: 165, totalACV: 148.5, deductible: 1000, netClaim: 0 },
+      { coverageType: 'Coverage C', totalRCV: 5000, totalACV: 4500, deductible: 0, netClaim: 2500, policyLimit: 2500 },
+    ];
+    const result = await generateInspectionPDF(data);
+    expect(Buffer.isBuffer(result)).toBe(true);
+  });
+
+  it('renders the contents inventory as its own Coverage C section', async () => {
+    const single = await generateInspectionPDF(makeRoomEstimatePDFData([makeRoomEstimateItem()]));
+    const withContents = await generateInspectionPDF({
+      ...makeRoomEstimatePDFData([makeRoomEstimateItem()]),
+      contents: {
+        items: [{
+          lineNumber: 1, description: 'Sofa', category: 'Furniture', roomName: 'Living Room',
+          quantity: 1, unitPrice: 1200, totalPrice: 1200, taxAmount: 96, originalCost: 1500,
+          replacementSource: 'Wayfair', condition: 'good', age: 5, lifeExpectancy: 15,
+          depreciationType: 'Recoverable', depreciationPercentage: 33.33, depreciationAmount: 400, acv: 896,
+        }],
+        subtotal: 1200,
+        totalTax: 96,
+        totalDepreciation: 400,
+        totalRecoverableDepreciation: 400,
+        totalNonRecoverableDepreciation: 0,
+        totalACV: 896,
+      },
+    });
+    // Contents page, Coverage C recap, Coverage C settlement, grand total
+    expect(countPages(withContents)).toBe(countPages(single) + 4);
+  });
+
+  it('adds a section for advances paid on a coverage with no estimate lines', async () => {
+    const single = await generateInspectionPDF(makeRoomEstimatePDFData([makeRoomEstimateItem()]));
+    const data = makeRoomEstimatePDFData([makeRoomEstimateItem()]);
+    (data.estimate as any).coverageBreakdown = [
+      { coverageType: 'Coverage A', totalRCV: 165, totalACV: 148.5, deductible: 0, netClaim: 148.5, priorPayments: 100 },
+      { coverageType: 'Coverage D', totalRCV: 0, totalACV: 0, deductible: 0, netClaim: 0, priorPayments: 1500 },
+    ];
+    const withAdvance = await generateInspectionPDF(data);
+    // Coverage D recap, Coverage D settlement, grand total
+    expect(countPages(withAdvance)).toBe(countPages(single) + 3);
+  });
+});
+
+describe('settleCoverage', () => {
+  const roof = {
+    id: 1, description: 'Roof', category: 'Roofing', tradeCode: 'RFG', quantity: 1, unitPrice: 40000,
+    totalPrice: 40000, age: null, lifeExpectancy: null, depreciationPercentage: null,
+    depreciationType: 'Recoverable', coverageBucket: 'Coverage A', structure: null,
+  };
+  const rules = { ...getDefaultSettlementRules(), defaultTaxRate: 0 };
+
+  it('takes the coinsurance penalty before the deductible like calculateSettlement', () => {
+    const [cov] = calculateSettlement([roof], rules, [{
+      coverageType: 'Coverage A', policyLimit: 300000, deductible: 1000, coinsurancePct: 80, replacementCostValue: 500000,
+    }]).coverages;
+    expect(cov.coinsurancePenalty).toBe(10000);
+    expect(settleCoverage(cov.totalACV, cov)).toEqual({ netClaim: cov.netClaim, overLimit: cov.overLimitDeduction });
+    expect(cov.netClaim).toBe(29000);
+  });
+
+  it('cuts sublimit overage and pays additional coverages above the limit like calculateSettlement', () => {
+    const [cov] = calculateSettlement([
+      roof,
+      { ...roof, id: 2, description: 'Mold remediation', unitPrice: 8000, totalPrice: 8000, sublimitKey: 'mold' },
+      { ...roof, id: 3, description: 'Debris removal', unitPrice: 3000, totalPrice: 3000, sublimitKey: 'debris' },
+    ], rules, [{
+      coverageType: 'Coverage A', policyLimit: 30000, deductible: 1000, sublimits: [
+        { key: 'mold', label: 'Mold', capType: 'flat', amount: 5000 },
+        { key: 'debris', label: 'Debris removal', capType: 'flat', amount: 5000, additional: true },
+      ],
+    }]).coverages;
+    expect(cov.sublimitOverage).toBe(3000);
+    const additionalAllowed = cov.sublimits.filter(s => s.additional).reduce((t, s) => t + s.allowed, 0);
+    expect(settleCoverage(cov.totalACV, { ...cov, additionalAllowed }))
+      .toEqual({ netClaim: cov.netClaim, overLimit: cov.overLimitDeduction });
+    expect(cov.netClaim).toBe(33000);
+  });
+
+  it('caps the claim at the limit after the penalty and deductible', () => {
+    expect(settleCoverage(40000, { deductible: 1000, policyLimit: 20000, coinsurancePenalty: 10000 }))
+      .toEqual({ netClaim: 20000, overLimit: 9000 });
+  });
+
+  it('renders the coinsurance penalty and sublimits from the coverage breakdown', async () => {
+    const data = makeRoomEstimatePDFData([makeRoomEstimateItem()]);
+    (data.estimate as any).coverageBreakdown = [{
+      coverageType: 'Coverage A', totalRCV: 165, totalACV: 148.5, deductible: 50, netClaim: 12.88, policyLimit: 100000,
+      coinsurance: { pct: 80, replacementCostValue: 250000, requiredLimit: 200000, ratio: 0.5, penalty: 37.12 },
+      coinsurancePenalty: 37.12,
+      sublimits: [
+        { key: 'mold', label: 'Mold', capType: 'flat', additional: false, itemCount: 1, claimed: 148.5, cap: 100, overage: 48.5, allowed: 100 },
+        { key: 'debris', label: 'Debris removal', capType: 'flat', additional: true, itemCount: 0, claimed: 0, cap: 500, overage: 0, allowed: 0 },
+      ],
+      sublimitOverage: 48.5,
+    }];
+    const result = await generateInspectionPDF(data);
+    expect(Buffer.isBuffer(result)).toBe(true);
+  });
+});
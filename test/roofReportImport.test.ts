@@ -0,0 +1,194 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  importRoofReport,
+  parsePitch,
+  parseRoofReport,
+  parseRoofReportJson,
+  planRoofFacets,
+  polygonArea,
+} from '../server/roofReportImport';
+import { deriveQuantity, roofLineLengths } from '../server/scopeQuantityEngine';
+import { createMockStorage } from './mocks/storage.mock';
+import { makeRoom } from './mocks/fixtures';
+
+// Gable roof, 40' x 30' footprint split at the ridge, 6/12 pitch
+const gableJson = {
+  report: {
+    provider: 'AerialCo',
+    reportId: 'R-1001',
+    facets: [
+      { id: 'F1', pitch: '6/12', area: 670.82, points: [[0, 0], [40, 0], [40, 15], [0, 15]] },
+      { id: 'F2', pitch: '6/12', area: 670.82, points: [{ x: 0, y: 15 }, { x: 40, y: 15 }, { x: 40, y: 30 }, { x: 0, y: 30 }] },
+    ],
+    lines: [
+      { type: 'Ridge', length: 40, facets: ['F1', 'F2'] },
+      { type: 'eaves', length: 80, facets: 'F1,F2' },
+      { type: 'rake', length: 67.08, facets: ['F1', 'F2'] },
+    ],
+    measurements: { valleys: 10, chimneys: 1 },
+  },
+};
+
+describe('parseRoofReportJson', () => {
+  it('reads facets, pitches, points and lines', () => {
+    const report = parseRoofReportJson(gableJson);
+
+    expect(report).toMatchObject({ provider: 'AerialCo', reportId: 'R-1001' });
+    expect(report.facets[1]).toEqual({
+      label: 'F2', pitch: 6, areaSf: 670.82,
+      points: [{ x: 0, y: 15 }, { x: 40, y: 15 }, { x: 40, y: 30 }, { x: 0, y: 30 }],
+    });
+    expect(report.lines.map(l => [l.kind, l.lengthFt, l.facets.length])).toEqual([
+      ['ridge', 40, 2], ['eave', 80, 2], ['rake', 67.08, 2], ['valley', 10, 0],
+    ]);
+  });
+
+  it('parses pitch notations', () => {
+    expect(parsePitch('7/12')).toBe(7);
+    expect(parsePitch('8:12')).toBe(8);
+    expect(parsePitch('10 in 12')).toBe(10);
+    expect(parsePitch(4.5)).toBe(4.5);
+    expect(parsePitch('steep')).toBeNull();
+  });
+});
+
+describe('parseRoofReport (XML)', () => {
+  const xml = `<?xml version="1.0"?>
+<ROOF_REPORT provider="SkyMeasure" reportId="X-77">
+  <FACETS>
+    <FACET id="A" pitch="8/12" points="0,0,10 20,0,10 20,10,15 0,10,15"/>
+    <FACET id="B" pitch="8/12" area="250">
+      <POINT x="0" y="10"/><POINT x="20" y="10"/><POINT x="20" y="20"/><POINT x="0" y="20"/>
+    </FACET>
+  </FACETS>
+  <LINE type="ridge" length="20" facets="A B"/>
+  <MEASUREMENTS eave="40"><RAKE>24.04</RAKE></MEASUREMENTS>
+</ROOF_REPORT>`;
+
+  it('reads facets with point attributes or children and roof-wide totals', async () => {
+    const report = await parseRoofReport(Buffer.from(xml), 'roof.xml');
+
+    expect(report).toMatchObject({ provider: 'SkyMeasure', reportId: 'X-77' });
+    expect(report.facets.map(f => [f.label, f.pitch, f.areaSf, f.points.length])).toEqual([
+      ['A', 8, null, 4], ['B', 8, 250, 4],
+    ]);
+    expect(report.lines).toEqual([
+      { kind: 'ridge', lengthFt: 20, facets: ['A', 'B'] },
+      { kind: 'rake', lengthFt: 24.04, facets: [] },
+      { kind: 'eave', lengthFt: 40, facets: [] },
+    ]);
+  });
+
+  it('rejects unsupported files and reports without facets', async () => {
+    await expect(parseRoofReport(Buffer.from('x'), 'roof.pdf')).rejects.toThrow(/json or \.xml/);
+    await expect(parseRoofReport(Buffer.from('{"lines": []}'), 'roof.json')).rejects.toThrow(/no facets/);
+    await expect(parseRoofReport(Buffer.from('<ROOF/>'), 'roof.xml')).rejects.toThrow(/no facets/);
+  });
+});
+
+describe('planRoofFacets', () => {
+  it('builds sketch polygons and splits shared lines between facets', () => {
+    const { facets } = planRoofFacets(parseRoofReportJson(gableJson));
+
+    expect(facets[1]).toMatchObject({
+      label: 'F2',
+      pitch: '6/12',
+      slopedAreaSf: 670.82,
+      planAreaSf: 600,
+      position: { x: 0, y: 15 },
+      dimensions: { length: 40, width: 15, dimVars: { R: 670.82, SQ: 6.71 } },
+    });
+    expect(facets[1].polygon.points).toEqual([{ x: 0, y: 0 }, { x: 40, y: 0 }, { x: 40, y: 15 }, { x: 0, y: 15 }]);
+    expect(facets[0].lines).toEqual({ ridge: 20, eave: 40, rake: 33.54, valley: 5 });
+  });
+
+  it('derives sloped area from pitch and synthesizes a square when there is no outline', () => {
+    const { facets, warnings } = planRoofFacets(parseRoofReportJson({
+      facets: [
+        { label: 'N', pitch: 12, points: [[0, 0], [10, 0], [10, 10], [0, 10]] },
+        { label: 'S', pitch: 0, area: 144 },
+      ],
+      lines: [{ type: 'hip', length: 30, facets: ['N', 'Q'] }],
+    }));
+
+    expect(facets[0].slopedAreaSf).toBeCloseTo(141.42, 2);
+    expect(polygonArea(facets[1].polygon.points)).toBeCloseTo(144, 1);
+    expect(facets[1].dimensions.length).toBe(12);
+    // Unknown facet label: apportioned by area across the roof
+    expect((facets[0].lines.hip ?? 0) + (facets[1].lines.hip ?? 0)).toBeCloseTo(30, 1);
+    expect(warnings[0]).toMatch(/unknown facets/);
+  });
+});
+
+describe('roof line quantities', () => {
+  const facet = makeRoom({
+    id: 7,
+    viewType: 'roof_plan',
+    dimensions: { length: 40, width: 15, height: 0, dimVars: { R: 670.82, SQ: 6.71 } },
+    dimensionProvenance: { length: 'measured', width: 'measured', height: 'measured' },
+  }) as any;
+  const annotations = [
+    { annotationType: 'roof_line', label: 'Ridge', value: '20' },
+    { annotationType: 'roof_line', label: 'Hip', value: '5.5' },
+    { annotationType: 'roof_line', label: 'Eave', value: '40' },
+    { annotationType: 'roof_line', label: 'Rake', value: '33.54' },
+    { annotationType: 'pitch', label: 'Ridge', value: '6/12' },
+  ];
+
+  it('sums roof_line annotations by kind', () => {
+    expect(roofLineLengths(annotations)).toEqual({ ridge: 20, hip: 5.5, eave: 40, rake: 33.54 });
+  });
+
+  it('derives measured quantities from the annotations', () => {
+    expect(deriveQuantity(facet, 'RIDGE_LF', 0, annotations)).toMatchObject({
+      quantity: 25.5, unit: 'LF', dimensionProvenance: 'measured',
+    });
+    expect(deriveQuantity(facet, 'DRIP_EDGE_LF', 0, annotations)?.quantity).toBe(73.54);
+    expect(deriveQuantity(facet, 'ROOF_SQ', 0, annotations)).toMatchObject({ quantity: 6.71, dimensionProvenance: 'measured' });
+  });
+
+  it('falls back when a roof has no measured lines', () => {
+    const estimated = { ...facet, dimensionProvenance: { length: 'estimated', width: 'measured', height: 'measured' } };
+    expect(deriveQuantity(estimated, 'VALLEY_LF')).toBeNull();
+    expect(deriveQuantity(estimated, 'DRIP_EDGE_LF')).toMatchObject({ quantity: 110, dimensionProvenance: 'estimated' });
+  });
+});
+
+describe('importRoofReport', () => {
+  it('creates facets with annotations and updates existing ones by facet label', async () => {
+    const existingF1 = makeRoom({ id: 11, name: 'North Slope', viewType: 'roof_plan', facetLabel: 'F1' });
+    const storage = createMockStorage({
+      getStructureByName: vi.fn().mockResolvedValue({ id: 3, name: 'Main Dwelling', sessionId: 1 }),
+      getRoomsForStructure: vi.fn().mockResolvedValue([existingF1]),
+      updateRoom: vi.fn().mockImplementation(async (id, updates) => ({ ...existingF1, ...updates, id })),
+      createRoom: vi.fn().mockImplementation(async (data) => ({ id: 12, ...data })),
+      getSketchAnnotations: vi.fn().mockResolvedValue([
+        { id: 90, annotationType: 'roof_line', label: 'Ridge', value: '99' },
+        { id: 91, annotationType: 'hail_count', label: 'Hits', value: '8' },
+      ]),
+      createSketchAnnotation: vi.fn().mockImplementation(async (data) => ({ id: 100, ...data })),
+      getScopeItemsForRoom: vi.fn().mockResolvedValue([
+        { id: 5, status: 'active', quantityFormula: 'RIDGE_LF', quantity: 1 },
+        { id: 6, status: 'active', quantityFormula: 'EACH', quantity: 3 },
+      ]),
+    });
+
+    const result = await importRoofReport(storage, 1, parseRoofReportJson(gableJson));
+
+    expect(result).toMatchObject({ created: 1, updated: 1 });
+    expect(storage.updateRoom).toHaveBeenCalledWith(11, expect.objectContaining({
+      pitch: '6/12',
+      dimensionProvenance: { length: 'measured', width: 'measured', height: 'measured' },
+    }));
+    expect(storage.createRoom).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'Roof Facet F2', viewType: 'roof_plan', roomType: 'exterior_roof_slope', facetLabel: 'F2', structureId: 3,
+    }));
+    expect(storage.deleteSketchAnnotation).toHaveBeenCalledTimes(1);
+    expect(storage.deleteSketchAnnotation).toHaveBeenCalledWith(90);
+    expect(storage.createSketchAnnotation).toHaveBeenCalledWith({
+      roomId: 12, annotationType: 'roof_line', label: 'Ridge', value: '20', location: 'F2 · AerialCo report',
+    });
+    expect(storage.updateScopeItem).toHaveBeenCalledTimes(1);
+    expect(storage.updateScopeItem).toHaveBeenCalledWith(5, { quantity: 20, dimensionProvenance: 'measured', quantityIsPlaceholder: false });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { applySublimits } from '../server/sublimits';
+import { calculateSettlement } from '../server/estimateEngine';
+import { getDefaultSettlementRules } from '../server/settlementRules';
+
+const mold = { key: 'mold', label: 'Mold remediation', capType: 'flat' as const, amount: 5000 };
+const debris = { key: 'debris', label: 'Debris removal', capType: 'percent_of_loss' as const, amount: 5, additional: true };
+const trees = { key: 'trees', label: 'Trees & shrubs', capType: 'per_item' as const, amount: 500, aggregateCap: 1200 };
+const ordinance = { key: 'ordinance', label: 'Ordinance or law', capType: 'percent_of_limit' as const, amount: 10, additional: true };
+
+describe('applySublimits', () => {
+  it('caps flat and percent-of-limit sublimits', () => {
+    const { results, totalOverage } = applySublimits(
+      [{ sublimitKey: 'mold', acv: 8000, quantity: 1 }, { sublimitKey: 'ordinance', acv: 12000, quantity: 1 }],
+      [mold, ordinance],
+      100000,
+    );
+    expect(results[0]).toMatchObject({ key: 'mold', claimed: 8000, cap: 5000, overage: 3000, allowed: 5000, additional: false });
+    expect(results[1]).toMatchObject({ key: 'ordinance', cap: 10000, overage: 2000, allowed: 10000 });
+    expect(totalOverage).toBe(5000);
+  });
+
+  it('takes percent-of-loss caps from the untagged items only', () => {
+    const { results, additionalAllowed } = applySublimits(
+      [{ acv: 20000, quantity: 1 }, { sublimitKey: 'debris', acv: 1500, quantity: 1 }],
+      [debris],
+      null,
+    );
+    expect(results[0]).toMatchObject({ cap: 1000, overage: 500, allowed: 1000 });
+    expect(additionalAllowed).toBe(1000);
+  });
+
+  it('caps per-item sublimits per unit and in aggregate', () => {
+    const { results } = applySublimits(
+      [{ sublimitKey: 'trees', acv: 900, quantity: 1 }, { sublimitKey: 'trees', acv: 700, quantity: 2 }],
+      [trees],
+      null,
+    );
+    // $500 + $700 allowed per plant, then held to the $1,200 aggregate
+    expect(results[0]).toMatchObject({ itemCount: 2, claimed: 1600, cap: 1200, allowed: 1200, overage: 400 });
+  });
+
+  it('reports an unused sublimit and ignores unknown keys', () => {
+    const { results, totalOverage } = applySublimits([{ sublimitKey: 'pool', acv: 400, quantity: 1 }], [mold], null);
+    expect(results).toEqual([expect.objectContaining({ key: 'mold', itemCount: 0, claimed: 0, overage: 0 })]);
+    expect(totalOverage).toBe(0);
+  });
+});
+
+describe('calculateSettlement with sublimits', () => {
+  const rules = { ...getDefaultSettlementRules(), defaultTaxRate: 0 };
+  const item = (id: number, totalPrice: number, sublimitKey: string | null = null) => ({
+    id, description: 'Item', category: 'General', tradeCode: 'GEN', quantity: 1, unitPrice: totalPrice,
+    totalPrice, age: null, lifeExpectancy: null, depreciationPercentage: null,
+    depreciationType: 'Recoverable', coverageBucket: 'Coverage A', structure: null, sublimitKey,
+  });
+
+  it('removes sublimit overage and pays additional coverage outside the limit', () => {
+    const summary = calculateSettlement(
+      [item(1, 50000), item(2, 8000, 'mold'), item(3, 4000, 'ordinance')],
+      rules,
+      [{ coverageType: 'Coverage A', policyLimit: 50000, deductible: 1000, sublimits: [mold, ordinance] }],
+    );
+    const cov = summary.coverages[0];
+    expect(cov.totalACV).toBe(62000);
+    expect(cov.sublimitOverage).toBe(3000);
+    // 62,000 − 3,000 overage − 1,000 deductible = 58,000; the $4,000 of ordinance
+    // or law sits outside the $50,000 limit, so only $4,000 is over it
+    expect(cov.overLimitDeduction).toBe(4000);
+    expect(cov.netClaim).toBe(54000);
+    expect(summary.grandTotalSublimitOverage).toBe(3000);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  applyJurisdictionTaxRules,
+  matchJurisdictionArea,
+  resolveClaimTaxJurisdiction,
+  salesTaxRules,
+} from '../server/taxJurisdiction';
+import { calculateSettlement, resolveTaxRate, taxRulesToCategoryFormat } from '../server/estimateEngine';
+import { getDefaultSettlementRules } from '../server/settlementRules';
+import { createMockStorage } from './mocks/storage.mock';
+
+function area(overrides: Record<string, unknown>): any {
+  return { id: 1, jurisdictionId: 'J-CO', state: 'CO', zipPrefix: null, ...overrides };
+}
+
+const denver = { id: 'J-DEN', name: 'Denver, CO' };
+
+const denverTaxes = [
+  { type: 'Material Sales Tax', rate: '8.81' },
+  { type: 'Cleaning Mtl Tax', rate: '4.5' },
+  { type: 'Cleaning Sales Tax', rate: '6' },
+];
+
+describe('matchJurisdictionArea', () => {
+  const areas = [
+    area({ id: 1, jurisdictionId: 'J-CO' }),
+    area({ id: 2, jurisdictionId: 'J-DEN', zipPrefix: '802' }),
+    area({ id: 3, jurisdictionId: 'J-DTC', zipPrefix: '80237' }),
+    area({ id: 4, jurisdictionId: 'J-TX', state: 'TX' }),
+  ];
+
+  it('prefers the longest matching zip prefix, then the state-wide row', () => {
+    expect(matchJurisdictionArea(areas, { state: 'co', zip: '80237-1234' })?.id).toBe(3);
+    expect(matchJurisdictionArea(areas, { state: 'CO', zip: '80204' })?.id).toBe(2);
+    expect(matchJurisdictionArea(areas, { state: 'CO', zip: '81501' })?.id).toBe(1);
+    expect(matchJurisdictionArea(areas, { state: 'CO', zip: null })?.id).toBe(1);
+    expect(matchJurisdictionArea(areas, { state: 'NM', zip: '87101' })).toBeNull();
+    expect(matchJurisdictionArea(areas, { state: null, zip: '80204' })).toBeNull();
+  });
+});
+
+describe('salesTaxRules', () => {
+  it('maps material, cleaning and labor taxes to tax rules', () => {
+    const rules = salesTaxRules([...denverTaxes, { type: 'Labor Tax', rate: '2' }]);
+    expect(rules.map(r => [r.taxLabel, r.taxRate, r.appliesToCategories, r.appliesToCostType, r.isDefault])).toEqual([
+      ['Cleaning Sales Tax', 6, ['Cleaning'], 'all', false],
+      ['Cleaning Mtl Tax', 4.5, ['Cleaning'], 'material', false],
+      ['Material Sales Tax', 8.81, [], 'material', true],
+      ['Labor Tax', 2, [], 'labor', false],
+    ]);
+    expect(rules.every(r => r.source === 'jurisdiction')).toBe(true);
+  });
+});
+
+describe('resolveClaimTaxJurisdiction', () => {
+  it('uses the adjuster override before the loss location', async () => {
+    const storage = createMockStorage({
+      getTaxJurisdiction: vi.fn().mockImplementation(async (id: string) =>
+        id === 'J-DEN' ? denver : { id, name: 'Other' }),
+      getTaxJurisdictionAreas: vi.fn().mockResolvedValue([area({ jurisdictionId: 'J-DEN', zipPrefix: '802' })]),
+    });
+
+    const fromLocation = await resolveClaimTaxJurisdiction(storage, { state: 'CO', zip: '80204', taxJurisdictionId: null });
+    expect(fromLocation).toMatchObject({ jurisdiction: denver, source: 'location', area: { zipPrefix: '802' } });
+
+    const overridden = await resolveClaimTaxJurisdiction(storage, { state: 'CO', zip: '80204', taxJurisdictionId: 'J-X' });
+    expect(overridden).toMatchObject({ jurisdiction: { id: 'J-X' }, source: 'override', area: null });
+  });
+});
+
+describe('applyJurisdictionTaxRules', () => {
+  it('replaces generated rules with the jurisdiction sales taxes', async () => {
+    const storage = createMockStorage({
+      getClaim: vi.fn().mockResolvedValue({ id: 9, state: 'CO', zip: '80204', taxJurisdictionId: null }),
+      getTaxJurisdiction: vi.fn().mockResolvedValue(denver),
+      getTaxJurisdictionAreas: vi.fn().mockResolvedValue([area({ jurisdictionId: 'J-DEN' })]),
+      getJurisdictionSalesTaxes: vi.fn().mockResolvedValue(denverTaxes),
+      createTaxRule: vi.fn().mockImplementation(async (data: any) => ({ id: 1, ...data })),
+    });
+
+    const result = await applyJurisdictionTaxRules(storage, 9);
+    expect(storage.deleteTaxRulesBySource).toHaveBeenCalledWith(9, ['jurisdiction', 'policy']);
+    expect(storage.createTaxRule).toHaveBeenCalledTimes(3);
+    expect(result?.rules[0]).toMatchObject({ claimId: 9, source: 'jurisdiction' });
+  });
+
+  it('keeps the policy rule when no jurisdiction resolves', async () => {
+    const storage = createMockStorage({
+      getClaim: vi.fn().mockResolvedValue({ id: 9, state: 'NM', zip: '87101', taxJurisdictionId: null }),
+    });
+    expect(await applyJurisdictionTaxRules(storage, 9)).toBeNull();
+    expect(storage.deleteTaxRulesBySource).toHaveBeenCalledWith(9, ['jurisdiction']);
+    expect(storage.createTaxRule).not.toHaveBeenCalled();
+  });
+});
+
+describe('jurisdiction tax rules in settlement', () => {
+  const jurisdictionRules = salesTaxRules([...denverTaxes, { type: 'Labor Tax', rate: '2' }]).map((r, i) => ({
+    id: i + 1,
+    taxLabel: r.taxLabel,
+    taxRate: r.taxRate,
+    appliesToCategories: r.appliesToCategories as string[],
+    appliesToCostType: r.appliesToCostType ?? 'all',
+    isDefault: r.isDefault ?? false,
+    source: r.source,
+  }));
+
+  it('lets manual rules win in resolveTaxRate', () => {
+    const manual = { taxLabel: 'Negotiated', taxRate: 5, appliesToCategories: ['Cleaning'], appliesToCostType: 'all', isDefault: false, source: 'manual' };
+    expect(resolveTaxRate('Cleaning', jurisdictionRules).taxLabel).toBe('Cleaning Sales Tax');
+    expect(resolveTaxRate('Cleaning', [...jurisdictionRules, manual]).taxRate).toBe(5);
+    expect(resolveTaxRate('Roofing', jurisdictionRules)).toMatchObject({ taxRate: 8.81, costType: 'material' });
+  });
+
+  it('taxes materials at the jurisdiction rate and labor at the labor rate', () => {
+    const summary = calculateSettlement(
+      [{
+        id: 1, description: 'Shingles', category: 'Roofing', tradeCode: 'RFG', quantity: 1, unitPrice: 1000,
+        totalPrice: 1000, laborCost: 400, age: null, lifeExpectancy: null, depreciationPercentage: null,
+        depreciationType: 'Recoverable', coverageBucket: 'Coverage A', structure: null,
+      } as any],
+      getDefaultSettlementRules(),
+      [],
+      taxRulesToCategoryFormat(jurisdictionRules),
+    );
+    // 600 materials × 8.81% + 400 labor × 2%
+    expect(summary.totalTaxOnMaterials).toBeCloseTo(52.86, 2);
+    expect(summary.totalTaxOnLabor).toBeCloseTo(8, 2);
+    expect(summary.grandTotalRCV).toBeCloseTo(1060.86, 2);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { readXmlElements, type XmlElement } from '../server/xmlElementReader';
+import {
+  diffRegionalPrices,
+  mapXactChildElement,
+  mapXactElement,
+  parseActComponents,
+  parseTagCol,
+  priceFromActs,
+  regionCodeFor,
+} from '../server/xactPriceList';
+
+const SAMPLE = `<?xml version="1.0" encoding="UTF-8"?>
+<PL_DOC version="6">
+  <!-- header -->
+  <PL_INFO id="PLI0123456789abcdef01234567" name="FLFM8X_NOV22" culture="EN-US" desc="Ft. Myers, FL" readOnly="1" currency="1" version="6" created="2022-11-01T00:00:00Z"/>
+  <CATEGORIES><CATEGORY catId="12" id="3" code="DRY" desc="Drywall" op="1" tax="1"/></CATEGORIES>
+  <ITEMS>
+    <ITEM itemId="501" id="77" cat="DRY" sel="1/2++" dsc="1/2&amp;amp;quot; drywall - hung, taped" un="SF" tagCol="PLSIM|0|ITGBAS_WALL^ITGBAS_CEIL" min="7BI">
+      <ACTS>
+        <ACT ph="21" act="-" a_l="1t,0.012,F-"/>
+        <ACT ph="66" act="&amp;amp;" a_l="4Ci,0.021,F-" a_m="5m3,1.1"/>
+      </ACTS>
+      <NOTES><NOTE><![CDATA[Includes <tape> & float]]></NOTE></NOTES>
+    </ITEM>
+  </ITEMS>
+</PL_DOC>`;
+
+async function collect(chunks: string[]): Promise<XmlElement[]> {
+  async function* source() {
+    for (const chunk of chunks) yield Buffer.from(chunk, 'utf8');
+  }
+  const out: XmlElement[] = [];
+  for await (const el of readXmlElements(source())) out.push(el);
+  return out;
+}
+
+describe('readXmlElements', () => {
+  it('yields elements in close order with their ancestors', async () => {
+    const names = (await collect([SAMPLE])).map(e => e.name);
+    expect(names).toEqual([
+      'PL_INFO', 'CATEGORY', 'CATEGORIES', 'ACT', 'ACT', 'ACTS', 'NOTE', 'NOTES', 'ITEM', 'ITEMS', 'PL_DOC',
+    ]);
+  });
+
+  it('gives the same result however the input is chunked', async () => {
+    const whole = await collect([SAMPLE]);
+    const chunks: string[] = [];
+    for (let i = 0; i < SAMPLE.length; i += 7) chunks.push(SAMPLE.slice(i, i + 7));
+    expect(await collect(chunks)).toEqual(whole);
+  });
+
+  it('keeps CDATA text literal', async () => {
+    const note = (await collect([SAMPLE])).find(e => e.name === 'NOTE')!;
+    expect(note.text).toBe('Includes <tape> & float');
+    expect(note.ancestors.map(a => a.name)).toEqual(['PL_DOC', 'ITEMS', 'ITEM', 'NOTES']);
+  });
+});
+
+describe('XACTDOC mapping', () => {
+  it('maps items and decodes double-encoded descriptions', async () => {
+    const item = (await collect([SAMPLE])).find(e => e.name === 'ITEM')!;
+    const mapped = mapXactElement(item)!;
+    expect(mapped.table).toBe('item');
+    expect(mapped.row).toMatchObject({ itemId: 501, id: 77, cat: 'DRY', sel: '1/2++', unit: 'SF', minId: '7BI' });
+    expect(mapped.row.description).toBe('1/2&quot; drywall - hung, taped');
+  });
+
+  it('links ACT and NOTE children to their parent item', async () => {
+    const elements = await collect([SAMPLE]);
+    const [remove, replace] = elements.filter(e => e.name === 'ACT').map(e => mapXactChildElement(e)!);
+    expect(remove.row).toMatchObject({ itemId: 501, ph: 21, lcmpId: '1t', lcmpQty: '0.012', lcmpFlags: 'F-', cmpId: null });
+    expect(replace.row).toMatchObject({ actType: '&', cmpId: '5m3', cmpQty: '1.1' });
+    const note = mapXactChildElement(elements.find(e => e.name === 'NOTE')!)!;
+    expect(note).toEqual({ table: 'note', row: { parentType: 'item', parentId: '501', content: 'Includes <tape> & float' } });
+  });
+
+  it('ignores wrapper elements', () => {
+    expect(mapXactElement({ name: 'ITEMS', attrs: {} })).toBeNull();
+  });
+
+  it('tags sales and burden taxes with their enclosing jurisdiction', async () => {
+    const xml = '<PL_DOC><JURISDICTIONS><JURISDICTION id="J12" name="Denver, CO"><SALES_TAXES>'
+      + '<SALES_TAX id="ST1" type="Material" rate="8.81"/></SALES_TAXES>'
+      + '<BURDENTAXES><BURDENTAX id="BT1" type="FICA" rate="7.65"/></BURDENTAXES></JURISDICTION></JURISDICTIONS>'
+      + '<SALES_TAX id="ST2" jurisdictionId="J40" type="Cleaning Mtl" rate="6"/></PL_DOC>';
+    const elements = await collect([xml]);
+    const [nested, flat] = elements.filter(e => e.name === 'SALES_TAX').map(e => mapXactElement(e)!);
+    expect(nested.row).toMatchObject({ id: 'ST1', jurisdictionId: 'J12', type: 'Material', rate: '8.81' });
+    expect(flat.row).toMatchObject({ id: 'ST2', jurisdictionId: 'J40' });
+    expect(mapXactElement(elements.find(e => e.name === 'BURDENTAX')!)!.row).toMatchObject({ jurisdictionId: 'J12' });
+  });
+
+  it('parses tag_col and act component strings', () => {
+    expect(parseTagCol('PLSIM|0|ITGBAS_EXT_DOOR^ITGBAS_INT_DOOR')).toEqual(['ITGBAS_EXT_DOOR', 'ITGBAS_INT_DOOR']);
+    expect(parseTagCol('PLSIM|0|')).toEqual([]);
+    expect(parseActComponents('1t,2.577,F-', undefined)).toEqual({
+      lcmpId: '1t', lcmpQty: '2.577', lcmpFlags: 'F-', cmpId: null, cmpQty: null,
+    });
+  });
+});
+
+describe('priceFromActs', () => {
+  const acts = [
+    { ph: 21, aL: '1t,0.5', aM: null, lcmpId: '1t', lcmpQty: '0.5', cmpId: null, cmpQty: null },
+    { ph: 66, aL: '4Ci,0.02', aM: '5m3,1.1', lcmpId: '4Ci', lcmpQty: '0.02', cmpId: '5m3', cmpQty: '1.1' },
+  ];
+  const cmp = new Map([['5m3', { amt: '0.50' }]]);
+  const lcmp = new Map([['1t', { base: '30', markup: null }], ['4Ci', { base: '40', markup: '25' }]]);
+
+  it('prices install work from the replace act with labor markup', () => {
+    const price = priceFromActs(acts, 'replace', cmp, lcmp);
+    expect(price.materialCost).toBe(0.55);
+    expect(price.laborCost).toBe(1);
+    expect(price.act?.aM).toBe('5m3,1.1');
+  });
+
+  it('prices removal from the remove-phase act', () => {
+    const price = priceFromActs(acts, 'remove', cmp, lcmp);
+    expect(price).toMatchObject({ materialCost: 0, laborCost: 15 });
+  });
+});
+
+describe('diffRegionalPrices', () => {
+  it('reports added, removed and repriced catalog codes against the previous list', () => {
+    const diff = diffRegionalPrices(
+      [
+        { lineItemCode: 'DRY-SHEET-SF', materialCost: '0.5', laborCost: '1', equipmentCost: '0' },
+        { lineItemCode: 'PNT-INT-SF', materialCost: '0.2', laborCost: '0.6', equipmentCost: '0' },
+        { lineItemCode: 'OLD-CODE', materialCost: '1', laborCost: '1', equipmentCost: '0' },
+      ],
+      [
+        { lineItemCode: 'DRY-SHEET-SF', materialCost: 0.55, laborCost: 1.05, equipmentCost: 0 },
+        { lineItemCode: 'PNT-INT-SF', materialCost: 0.2, laborCost: 0.6, equipmentCost: 0 },
+        { lineItemCode: 'NEW-CODE', materialCost: 2, laborCost: 0, equipmentCost: 0 },
+      ],
+      'FLFM8X_OCT22',
+    );
+    expect(diff.added).toEqual(['NEW-CODE']);
+    expect(diff.removed).toEqual(['OLD-CODE']);
+    expect(diff.changed).toEqual([{ lineItemCode: 'DRY-SHEET-SF', from: 1.5, to: 1.6, delta: 0.1, pct: 6.67 }]);
+    expect(diff.unchangedCount).toBe(1);
+  });
+
+  it('groups monthly lists by region code', () => {
+    expect(regionCodeFor('FLFM8X_NOV22')).toBe('FLFM8X');
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import archiver from 'archiver';
+import { readZipEntries } from '../server/zipReader';
+
+async function buildZip(files: Record<string, string | Buffer>): Promise<Buffer> {
+  const archive = archiver('zip');
+  const chunks: Buffer[] = [];
+  archive.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const done = new Promise<void>((resolve, reject) => {
+    archive.on('end', () => resolve());
+    archive.on('error', reject);
+  });
+  for (const [name, content] of Object.entries(files)) archive.append(content, { name });
+  await archive.finalize();
+  await done;
+  return Buffer.concat(chunks);
+}
+
+/** Rewrites the uncompressed size the central directory declares for the first entry. */
+function declareSize(zip: Buffer, size: number): Buffer {
+  const forged = Buffer.from(zip);
+  const central = forged.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+  forged.writeUInt32LE(size, central + 24);
+  return forged;
+}
+
+describe('readZipEntries', () => {
+  it('reads deflated entries', async () => {
+    const zip = await buildZip({ 'a.txt': 'hello '.repeat(100), 'b.txt': 'world' });
+    const entries = readZipEntries(zip);
+    expect(entries.get('a.txt')!.toString('utf8')).toBe('hello '.repeat(100));
+    expect(entries.get('b.txt')!.toString('utf8')).toBe('world');
+  });
+
+  it('stops inflating an entry that grows past its declared size', async () => {
+    const zip = await buildZip({ 'bomb.xml': Buffer.alloc(1024 * 1024) });
+    expect(() => readZipEntries(declareSize(zip, 1024))).toThrow('ZIP entry larger than declared: bomb.xml');
+  });
+
+  it('rejects entries and archives over the limits', async () => {
+    const zip = await buildZip({ 'a.txt': Buffer.alloc(4096), 'b.txt': Buffer.alloc(4096) });
+    expect(() => readZipEntries(zip, { maxEntryBytes: 1024 })).toThrow('ZIP entry too large: a.txt');
+    expect(() => readZipEntries(zip, { maxTotalBytes: 6000 })).toThrow('ZIP archive too large when extracted');
+  });
+});
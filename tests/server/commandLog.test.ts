@@ -0,0 +1,218 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  buildCommandHistory,
+  deleteRoomOps,
+  getCommandHistory,
+  invertOps,
+  previousValues,
+  recordCommand,
+  redoCommands,
+  undoCommands,
+  type CommandOp,
+} from "../../server/commandLog";
+import { createMockStorage } from "../mocks/mockStorage";
+import { off, on, type AppEvent } from "../../server/events";
+
+/** Mock storage whose session event log behaves like the real append-only table */
+function storageWithEventLog(overrides: Record<string, any> = {}) {
+  const events: any[] = [];
+  const storage = createMockStorage({
+    addSessionEvent: vi.fn().mockImplementation(async (data) => {
+      const event = { id: events.length + 1, ts: new Date(), ...data };
+      events.push(event);
+      return event;
+    }),
+    getSessionEvents: vi.fn().mockImplementation(async () => events),
+    ...overrides,
+  });
+  return { storage, events };
+}
+
+const damageOps: CommandOp[] = [
+  { op: "create", entity: "damage", id: 30, values: { id: 30, sessionId: 1, roomId: 5, description: "Hail hits" } },
+  { op: "update", entity: "room", id: 5, set: { damageCount: 1 }, previous: { damageCount: 0 } },
+  { op: "create", entity: "scopeItem", id: 70, values: { id: 70, roomId: 5, damageId: 30, parentScopeItemId: null } },
+  { op: "create", entity: "scopeItem", id: 71, values: { id: 71, roomId: 5, damageId: 30, parentScopeItemId: 70 } },
+];
+
+describe("invertOps", () => {
+  it("reverses the order and swaps creates, deletes and update values", () => {
+    expect(invertOps(damageOps).map((op) => [op.op, op.entity, op.id])).toEqual([
+      ["delete", "scopeItem", 71],
+      ["delete", "scopeItem", 70],
+      ["update", "room", 5],
+      ["delete", "damage", 30],
+    ]);
+    expect(invertOps(damageOps)[2]).toMatchObject({ set: { damageCount: 0 }, previous: { damageCount: 1 } });
+  });
+});
+
+describe("buildCommandHistory", () => {
+  it("moves commands between the stacks and drops redo after a new command", () => {
+    const event = (id: number, type: string, payloadJson: any) => ({ id, sessionId: 1, ts: new Date(), type, payloadJson });
+    const history = buildCommandHistory([
+      event(1, "command.executed", { tool: "add_opening", label: "A", ops: [] }),
+      event(2, "workflow.phase_changed", {}),
+      event(3, "command.executed", { tool: "add_opening", label: "B", ops: [] }),
+      event(4, "command.undone", { commandId: 3, ids: {} }),
+    ] as any);
+    expect(history.undo.map((c) => c.label)).toEqual(["A"]);
+    expect(history.redo.map((c) => c.label)).toEqual(["B"]);
+
+    const afterNew = buildCommandHistory([
+      ...[event(1, "command.executed", { label: "A", ops: [] }), event(2, "command.undone", { commandId: 1, ids: {} })],
+      event(3, "command.executed", { label: "C", ops: [] }),
+    ] as any);
+    expect(afterNew.undo.map((c) => c.label)).toEqual(["C"]);
+    expect(afterNew.redo).toEqual([]);
+  });
+});
+
+describe("undoCommands / redoCommands", () => {
+  it("undoes a damage with its scope and companion items, then redoes it with remapped ids", async () => {
+    let nextId = 100;
+    const { storage, events } = storageWithEventLog({
+      createDamage: vi.fn().mockImplementation(async (v) => ({ id: nextId++, ...v })),
+      createScopeItem: vi.fn().mockImplementation(async (v) => ({ id: nextId++, ...v })),
+    });
+    await recordCommand(storage, 1, { tool: "add_damage", label: "Added damage.", ops: damageOps });
+
+    const undone = await undoCommands(storage, 1);
+    expect(undone.map((c) => c.tool)).toEqual(["add_damage"]);
+    expect(vi.mocked(storage.deleteScopeItem).mock.calls.map((c) => c[0])).toEqual([71, 70]);
+    expect(storage.updateRoom).toHaveBeenCalledWith(5, { damageCount: 0 });
+    expect(storage.deleteDamage).toHaveBeenCalledWith(30);
+    expect(storage.recalculateScopeSummary).toHaveBeenCalledWith(1);
+
+    await redoCommands(storage, 1);
+    expect(storage.createDamage).toHaveBeenCalledWith({ sessionId: 1, roomId: 5, description: "Hail hits" });
+    // The companion points at the re-created primary and both at the re-created damage
+    expect(storage.createScopeItem).toHaveBeenNthCalledWith(1, { roomId: 5, damageId: 100, parentScopeItemId: null });
+    expect(storage.createScopeItem).toHaveBeenNthCalledWith(2, { roomId: 5, damageId: 100, parentScopeItemId: 101 });
+
+    // Undoing again deletes the rows that replaced the originals
+    await undoCommands(storage, 1);
+    expect(vi.mocked(storage.deleteScopeItem).mock.calls.slice(2).map((c) => c[0])).toEqual([102, 101]);
+    expect(storage.deleteDamage).toHaveBeenLastCalledWith(100);
+    expect(events.map((e) => e.type)).toEqual(["command.executed", "command.undone", "command.redone", "command.undone"]);
+  });
+
+  it("undoes several commands most recent first and stops when the stack is empty", async () => {
+    const { storage } = storageWithEventLog();
+    await recordCommand(storage, 1, { tool: "add_opening", label: "First", ops: [{ op: "create", entity: "opening", id: 1, values: { id: 1 } }] });
+    await recordCommand(storage, 1, { tool: "add_opening", label: "Second", ops: [{ op: "create", entity: "opening", id: 2, values: { id: 2 } }] });
+
+    const undone = await undoCommands(storage, 1, 5);
+    expect(undone.map((c) => c.label)).toEqual(["Second", "First"]);
+    expect(vi.mocked(storage.deleteOpening).mock.calls.map((c) => c[0])).toEqual([2, 1]);
+    expect(storage.recalculateScopeSummary).not.toHaveBeenCalled();
+    expect(await undoCommands(storage, 1)).toEqual([]);
+  });
+
+  it("restores a deleted opening and revives its timestamps", async () => {
+    const { storage } = storageWithEventLog({
+      createOpening: vi.fn().mockResolvedValue({ id: 9 }),
+    });
+    const createdAt = new Date("2026-01-02T03:04:05Z");
+    await recordCommand(storage, 1, {
+      tool: "delete_opening",
+      label: "Deleted opening 4.",
+      ops: [{ op: "delete", entity: "opening", id: 4, values: { id: 4, roomId: 5, openingType: "window", createdAt, verifiedAt: createdAt } }],
+    });
+
+    await undoCommands(storage, 1);
+    expect(storage.createOpening).toHaveBeenCalledWith({ roomId: 5, openingType: "window", verifiedAt: createdAt });
+  });
+
+  it("undoes an update back to the previous values and redoes it", async () => {
+    const { storage } = storageWithEventLog();
+    const row = { id: 12, sessionId: 1, description: "Drywall", quantity: 10, unitPrice: 2 };
+    const set = { quantity: 14, wasteFactor: 10 };
+    await recordCommand(storage, 1, {
+      tool: "update_line_item",
+      label: "Updated line item.",
+      ops: [{ op: "update", entity: "lineItem", id: 12, set, previous: previousValues(row, set) }],
+    });
+
+    await undoCommands(storage, 1);
+    expect(storage.updateLineItem).toHaveBeenCalledWith(12, { quantity: 10, wasteFactor: null });
+    await redoCommands(storage, 1);
+    expect(storage.updateLineItem).toHaveBeenLastCalledWith(12, set);
+  });
+
+  it("undoes a room delete with its children and re-links the rows the delete detached", async () => {
+    let nextId = 200;
+    const create = () => vi.fn().mockImplementation(async (v) => ({ id: nextId++, ...v }));
+    const kitchen = { id: 5, sessionId: 1, name: "Kitchen", parentRoomId: null };
+    const pantry = { id: 6, sessionId: 1, name: "Pantry", parentRoomId: 5 };
+    const { storage } = storageWithEventLog({
+      getChildRooms: vi.fn().mockImplementation(async (id) => (id === 5 ? [pantry] : [])),
+      getOpeningsForRoom: vi.fn().mockImplementation(async (id) => (id === 5 ? [{ id: 40, roomId: 5, openingType: "window" }] : [])),
+      getDamages: vi.fn().mockImplementation(async (id) => (id === 5 ? [{ id: 30, sessionId: 1, roomId: 5, description: "Leak" }] : [])),
+      getLineItems: vi.fn().mockResolvedValue([{ id: 50, roomId: 5, damageId: 30 }]),
+      getLineItemsForRoom: vi.fn().mockImplementation(async (id) => (id === 5 ? [{ id: 50, roomId: 5, damageId: 30 }] : [])),
+      createRoom: create(),
+      createOpening: create(),
+      createDamage: create(),
+    });
+
+    const ops = await deleteRoomOps(storage, kitchen as any);
+    expect(ops.map((op) => [op.op, op.entity, op.id])).toEqual([
+      ["delete", "room", 6],
+      ["update", "lineItem", 50],
+      ["delete", "damage", 30],
+      ["delete", "opening", 40],
+      ["update", "lineItem", 50],
+      ["delete", "room", 5],
+    ]);
+    await recordCommand(storage, 1, { tool: "delete_room", label: "Deleted room \"Kitchen\".", ops });
+
+    await undoCommands(storage, 1);
+    expect(storage.createRoom).toHaveBeenNthCalledWith(1, { sessionId: 1, name: "Kitchen", parentRoomId: null });
+    expect(storage.createOpening).toHaveBeenCalledWith({ roomId: 200, openingType: "window" });
+    expect(storage.createDamage).toHaveBeenCalledWith({ sessionId: 1, roomId: 200, description: "Leak" });
+    expect(vi.mocked(storage.updateLineItem).mock.calls).toEqual([[50, { roomId: 200 }], [50, { damageId: 202 }]]);
+    expect(storage.createRoom).toHaveBeenNthCalledWith(2, { sessionId: 1, name: "Pantry", parentRoomId: 200 });
+  });
+
+  it("records no undo when an op fails and leaves the command undoable", async () => {
+    const { storage, events } = storageWithEventLog({
+      deleteScopeItem: vi.fn().mockRejectedValue(new Error("connection lost")),
+    });
+    await recordCommand(storage, 1, { tool: "add_damage", label: "Added damage.", ops: damageOps });
+
+    await expect(undoCommands(storage, 1)).rejects.toThrow("connection lost");
+    expect(storage.transaction).toHaveBeenCalledTimes(1);
+    expect(events.map((e) => e.type)).toEqual(["command.executed"]);
+    expect((await getCommandHistory(storage, 1)).undo.map((c) => c.label)).toEqual(["Added damage."]);
+  });
+
+  it("emits the line item and room events for the rows it restores", async () => {
+    const received: AppEvent[] = [];
+    const handler = (event: AppEvent) => received.push(event);
+    on("*", handler);
+    try {
+      const { storage } = storageWithEventLog({
+        createRoom: vi.fn().mockResolvedValue({ id: 300 }),
+        createLineItem: vi.fn().mockResolvedValue({ id: 301 }),
+      });
+      await recordCommand(storage, 1, {
+        tool: "delete_room",
+        label: "Deleted room.",
+        ops: [
+          { op: "delete", entity: "lineItem", id: 50, values: { id: 50, sessionId: 1, roomId: 5 } },
+          { op: "delete", entity: "room", id: 5, values: { id: 5, sessionId: 1, name: "Kitchen" } },
+        ],
+      });
+
+      await undoCommands(storage, 1, 1, "user-1");
+      expect(received.map((e) => [e.type, e.meta])).toEqual([
+        ["inspection.roomCreated", { replayed: "undo", roomId: 300 }],
+        ["inspection.lineItemAdded", { replayed: "undo", lineItemId: 301 }],
+      ]);
+      expect(received.every((e) => "sessionId" in e && e.sessionId === 1 && e.userId === "user-1")).toBe(true);
+    } finally {
+      off("*", handler);
+    }
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi } from "vitest";
+
+// The orchestrator imports the storage singleton; keep it off the database
+vi.mock("../../server/db", () => ({ db: {} }));
+vi.mock("../../server/supabase", () => ({
+  supabase: { storage: { from: vi.fn() } },
+  PHOTOS_BUCKET: "test-photos",
+}));
+
+import {
+  describeCondition,
+  evaluateCondition,
+  expandFlowSteps,
+  gatherFlowFacts,
+  nextFlowStep,
+  stepConditionSchema,
+  type FlowFacts,
+} from "../../server/workflow/flowEngine";
+import { completeFlowStep, getFlowPosition } from "../../server/workflow/orchestrator";
+import { createMockStorage } from "../mocks/mockStorage";
+import { buildClaim, buildRoom, buildSession } from "../fixtures/factories";
+
+const facts = (overrides: Partial<FlowFacts> = {}): FlowFacts => ({
+  peril: "water",
+  water: { category: 3, waterClass: 2 },
+  structures: [
+    { id: 1, name: "Main Dwelling", structureType: "dwelling" },
+    { id: 2, name: "Detached Garage", structureType: "garage" },
+  ],
+  rooms: [],
+  testSquares: { count: 0, failed: 0 },
+  ...overrides,
+});
+
+const step = (id: string, extra: Record<string, any> = {}) => ({
+  id, phaseName: id, agentPrompt: "", requiredTools: [], completionCriteria: "", ...extra,
+});
+
+describe("evaluateCondition", () => {
+  it("compares facts, case-insensitively for text", () => {
+    expect(evaluateCondition({ fact: "water.category", op: "eq", value: 3 }, facts())).toBe(true);
+    expect(evaluateCondition({ fact: "peril", op: "in", value: ["Hail", "Water"] }, facts())).toBe(true);
+    expect(evaluateCondition({ fact: "structure.types", op: "includes", value: "GARAGE" }, facts())).toBe(true);
+    expect(evaluateCondition({ fact: "structure.types", op: "neq", value: "shed" }, facts())).toBe(true);
+    expect(evaluateCondition({ fact: "structure.count", op: "gte", value: 2 }, facts())).toBe(true);
+  });
+
+  it("treats an unknown fact as failing every comparison except neq", () => {
+    const unclassified = facts({ water: null });
+    expect(evaluateCondition({ fact: "water.category", op: "gte", value: 1 }, unclassified)).toBe(false);
+    expect(evaluateCondition({ fact: "water.category", op: "neq", value: 3 }, unclassified)).toBe(true);
+  });
+
+  it("combines all, any and not", () => {
+    const condition = {
+      all: [
+        { fact: "peril", op: "eq", value: "water" },
+        { any: [{ fact: "water.category", op: "eq", value: 3 }, { fact: "water.class", op: "gte", value: 4 }] },
+        { not: { fact: "testSquare.failed", op: "gt", value: 0 } },
+      ],
+    } as const;
+    expect(evaluateCondition(condition as any, facts())).toBe(true);
+    expect(evaluateCondition(condition as any, facts({ water: { category: 1, waterClass: 2 } }))).toBe(false);
+    expect(describeCondition(condition as any)).toBe(
+      "peril is water and (water category is 3 or water class ≥ 4) and not (failed test squares > 0)"
+    );
+  });
+
+  it("rejects unknown facts in saved flows", () => {
+    expect(stepConditionSchema.safeParse({ fact: "roof.age", op: "gt", value: 10 }).success).toBe(false);
+    expect(stepConditionSchema.safeParse({ all: [{ fact: "room.count", op: "gt", value: 0 }] }).success).toBe(true);
+  });
+});
+
+describe("expandFlowSteps", () => {
+  it("drops steps whose condition fails and repeats looping steps per entity", () => {
+    const steps = [
+      step("source"),
+      step("antimicrobial", { condition: { fact: "water.category", op: "eq", value: 3 } }),
+      step("replacement", { condition: { fact: "testSquare.failed", op: "gte", value: 1 } }),
+      step("outbuilding", { loop: { over: "structures", types: ["garage", "shed"] } }),
+    ];
+
+    const instances = expandFlowSteps(steps, facts());
+    expect(instances.map((i) => i.key)).toEqual(["source", "antimicrobial", "outbuilding:structure:2"]);
+    expect(instances[2]).toMatchObject({ index: 3, entity: { type: "structure", id: 2, name: "Detached Garage" } });
+  });
+
+  it("picks the first step not yet completed, including ones that became applicable later", () => {
+    const steps = [step("a"), step("cat3", { condition: { fact: "water.category", op: "eq", value: 3 } }), step("b")];
+    expect(nextFlowStep(expandFlowSteps(steps, facts({ water: null })), ["a"])?.key).toBe("b");
+    expect(nextFlowStep(expandFlowSteps(steps, facts()), ["a", "b"])?.key).toBe("cat3");
+    expect(nextFlowStep(expandFlowSteps(steps, facts()), ["a", "b", "cat3"])).toBeNull();
+  });
+});
+
+describe("gatherFlowFacts", () => {
+  it("reads peril, water classification, top-level rooms and failed test squares", async () => {
+    const storage = createMockStorage({
+      getInspectionSession: vi.fn().mockResolvedValue(buildSession({ id: 1, claimId: 7, waterClassification: { category: 2, waterClass: 3 } })),
+      getClaim: vi.fn().mockResolvedValue(buildClaim({ id: 7, perilType: "Water" })),
+      getRooms: vi.fn().mockResolvedValue([
+        buildRoom({ id: 5, name: "Kitchen", parentRoomId: null }),
+        buildRoom({ id: 6, name: "Pantry", parentRoomId: 5 }),
+      ]),
+      getTestSquares: vi.fn().mockResolvedValue([{ result: "pass" }, { result: "fail" }, { result: "brittle_test_failure" }]),
+    });
+
+    const result = await gatherFlowFacts(storage, 1);
+    expect(result).toMatchObject({
+      peril: "water",
+      water: { category: 2, waterClass: 3 },
+      rooms: [{ id: 5, name: "Kitchen" }],
+      testSquares: { count: 3, failed: 2 },
+    });
+  });
+});
+
+describe("completeFlowStep", () => {
+  const flow = {
+    id: 4,
+    name: "Water",
+    steps: [step("source"), step("antimicrobial", { condition: { fact: "water.category", op: "eq", value: 3 } }), step("finalize")],
+  };
+
+  function storageAt(completedStepKeys: string[] | null) {
+    return createMockStorage({
+      getInspectionSession: vi.fn().mockResolvedValue(buildSession({
+        id: 1, claimId: 7, activeFlowId: 4, waterClassification: { category: 3, waterClass: 2 },
+        workflowStateJson: completedStepKeys ? { phase: "inspection_setup", context: {}, flow: { flowId: 4, stepKey: null, completedStepKeys } } : null,
+      })),
+      getInspectionFlow: vi.fn().mockResolvedValue(flow),
+    });
+  }
+
+  it("starts at the first applicable step", async () => {
+    const position = await getFlowPosition(1, storageAt(null));
+    expect(position?.current?.key).toBe("source");
+    expect(position?.steps.map((s) => s.status)).toEqual(["current", "pending", "pending"]);
+  });
+
+  it("records the step and moves the session to the next branch", async () => {
+    const storage = storageAt(["source"]);
+    const result = await completeFlowStep(1, storage);
+
+    expect(result?.completed?.key).toBe("antimicrobial");
+    expect(result?.position.current?.key).toBe("finalize");
+    expect(storage.updateSession).toHaveBeenCalledWith(1, {
+      workflowStateJson: expect.objectContaining({ flow: { flowId: 4, stepKey: "finalize", completedStepKeys: ["source", "antimicrobial"] } }),
+    });
+    expect(storage.updateSession).toHaveBeenCalledWith(1, { currentStepIndex: 2, currentPhase: 3 });
+    expect(storage.addSessionEvent).toHaveBeenCalledWith(expect.objectContaining({
+      type: "workflow.step_completed", payloadJson: { stepKey: "antimicrobial", nextStepKey: "finalize" },
+    }));
+  });
+
+  it("returns null without an active flow", async () => {
+    const storage = createMockStorage({ getInspectionSession: vi.fn().mockResolvedValue(buildSession({ activeFlowId: null })) });
+    expect(await completeFlowStep(1, storage)).toBeNull();
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// The orchestrator imports the storage singleton; keep it off the database
+vi.mock("../../server/db", () => ({ db: {} }));
+vi.mock("../../server/supabase", () => ({
+  supabase: { storage: { from: vi.fn() } },
+  PHOTOS_BUCKET: "test-photos",
+}));
+vi.mock("../../server/workflow/validators", () => ({ runAllWorkflowGates: vi.fn() }));
+
+import { recordedCalls, simulateFlow } from "../../server/workflow/flowSimulator";
+import { runAllWorkflowGates } from "../../server/workflow/validators";
+import { createMockStorage } from "../mocks/mockStorage";
+import { buildClaim, buildSession } from "../fixtures/factories";
+
+const step = (id: string, requiredTools: string[], extra: Record<string, any> = {}) => ({
+  id, phaseName: id, agentPrompt: "", requiredTools, completionCriteria: "", ...extra,
+});
+
+const gate = (gateName: string, blockers = 0) => ({
+  gate: gateName, ok: blockers === 0, issues: [], summary: { blockers, warnings: 0, infos: 0 }, computedAt: "",
+});
+
+let nextEventId = 1;
+const event = (type: string, payloadJson: Record<string, any>) => ({ id: nextEventId++, sessionId: 1, ts: new Date(), type, payloadJson });
+const call = (tool: string, args: Record<string, any> = {}, success = true) => {
+  const callId = `call_${nextEventId}`;
+  return [
+    event("voice.tool_call", { tool, callId, args }),
+    event("voice.tool_result", { tool, callId, success, errorCode: success ? null : "FAILED" }),
+  ];
+};
+const phase = (from: string, to: string) => event("workflow.phase_changed", { from, to });
+
+function storageWith(events: any[], structures: any[] = []) {
+  return createMockStorage({
+    getInspectionSession: vi.fn().mockResolvedValue(buildSession({ id: 1, claimId: 7, status: "completed" })),
+    getClaim: vi.fn().mockResolvedValue(buildClaim({ id: 7, perilType: "Hail" })),
+    getSessionEvents: vi.fn().mockResolvedValue(events),
+    getStructures: vi.fn().mockResolvedValue(structures),
+  });
+}
+
+beforeEach(() => {
+  nextEventId = 1;
+  vi.mocked(runAllWorkflowGates).mockResolvedValue({
+    sketch: gate("sketch"), photoDamage: gate("photoDamage"), scope: gate("scope", 2), export: gate("export"),
+  } as any);
+});
+
+describe("recordedCalls", () => {
+  it("falls back to the command log for sessions recorded before the voice log", () => {
+    const { source, calls } = recordedCalls([event("command.executed", { tool: "add_opening", ops: [] })] as any);
+    expect(source).toBe("command_log");
+    expect(calls.map((c) => c.tool)).toEqual(["add_opening"]);
+  });
+});
+
+describe("simulateFlow", () => {
+  const flow = [
+    step("setup", ["create_structure"]),
+    step("rooms", ["create_room"]),
+    step("openings", ["add_opening"]),
+    step("estimate", ["add_line_item", "validate_scope"]),
+  ];
+
+  it("infers progress from the tools called and reports steps passed over", async () => {
+    const events = [
+      ...call("create_structure", { name: "Main Dwelling" }),
+      phase("inspection_setup", "interior_rooms"),
+      ...call("create_room", { name: "Kitchen" }),
+      phase("interior_rooms", "scope_build"),
+      ...call("add_line_item", {}),
+    ];
+    const result = await simulateFlow(flow as any, 1, storageWith(events));
+
+    expect(result?.source).toBe("voice_log");
+    expect(result?.replayedCalls).toBe(3);
+    expect(result?.steps.map((s) => [s.key, s.status])).toEqual([
+      ["setup", "completed"], ["rooms", "completed"], ["openings", "skipped"], ["estimate", "in_progress"],
+    ]);
+    expect(result?.neverCompleted).toEqual(["openings"]);
+    expect(result?.steps[3].unusedTools).toEqual(["validate_scope"]);
+  });
+
+  it("blocks calls the workflow phase does not allow and calls no remaining step lists", async () => {
+    const events = [
+      ...call("add_opening", { roomName: "Kitchen" }),
+      ...call("create_structure", {}),
+      ...call("create_room", {}),
+      ...call("apply_smart_macro", { macroId: "roof_replacement_laminated" }),
+    ];
+    const result = await simulateFlow(flow as any, 1, storageWith(events));
+
+    expect(result?.blockedCalls.map((c) => [c.tool, c.code])).toEqual([
+      ["add_opening", "TOOL_NOT_ALLOWED"],
+      ["create_room", "TOOL_NOT_ALLOWED"],
+      ["apply_smart_macro", "NOT_IN_FLOW"],
+    ]);
+    expect(result?.blockedCalls[2].stepKey).toBe("setup");
+  });
+
+  it("does not count failed calls as work on a step", async () => {
+    const events = [...call("create_structure", {}, false)];
+    const result = await simulateFlow(flow as any, 1, storageWith(events));
+    expect(result?.steps[0].status).toBe("not_reached");
+  });
+
+  it("follows looping steps by the entity a call names", async () => {
+    const loopFlow = [
+      step("setup", ["create_structure"]),
+      step("outbuilding", ["create_room"], { loop: { over: "structures", types: ["garage", "shed"] } }),
+    ];
+    const structures = [
+      { id: 1, name: "Main Dwelling", structureType: "dwelling" },
+      { id: 2, name: "Garage", structureType: "garage" },
+      { id: 3, name: "Shed", structureType: "shed" },
+    ];
+    const events = [
+      ...call("create_structure", {}),
+      phase("inspection_setup", "roof"),
+      ...call("create_room", { structure: "Shed", name: "Shed Roof" }),
+    ];
+    const result = await simulateFlow(loopFlow as any, 1, storageWith(events, structures));
+    expect(result?.steps.map((s) => [s.key, s.status])).toEqual([
+      ["setup", "completed"], ["outbuilding:structure:2", "skipped"], ["outbuilding:structure:3", "in_progress"],
+    ]);
+  });
+
+  it("reports where gates fire: recorded runs, held phase advances and gate steps", async () => {
+    const failingRun = {
+      sketch: gate("sketch", 1), photoDamage: gate("photoDamage"), scope: gate("scope"), export: gate("export"),
+    };
+    const events = [
+      phase("inspection_setup", "review"),
+      event("gate.result", failingRun),
+      phase("review", "export"),
+    ];
+    const result = await simulateFlow(flow as any, 1, storageWith(events), 12);
+
+    expect(result?.gateFirings.map((g) => [g.trigger, g.blocked, g.stepKey, g.endOfSession])).toEqual([
+      ["gate_run", true, "setup", false],
+      ["phase_advance", true, "setup", false],
+      ["flow_step", true, "estimate", true],
+    ]);
+    expect(result?.gateFirings[2].message).toBe('"estimate" gates have 2 blocker(s) at the end of the session.');
+    // The simulated flow's rule packs apply, not those of the flow the session ran under
+    expect(runAllWorkflowGates).toHaveBeenCalledWith(1, "Hail", { flowId: 12 });
+    expect(result?.gateFirings[2].gates).toEqual({ scope: { ok: false, blockers: 2, warnings: 0, infos: 0 } });
+    expect(result?.finalGates.scope?.blockers).toBe(2);
+  });
+
+  it("never writes to the session", async () => {
+    const storage = storageWith([...call("create_structure", {}), phase("inspection_setup", "interior_rooms")]);
+    await simulateFlow(flow as any, 1, storage);
+    expect(storage.updateSession).not.toHaveBeenCalled();
+    expect(storage.addSessionEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+
+// The orchestrator imports the storage singleton; keep it off the database
+vi.mock("../../server/db", () => ({ db: {} }));
+vi.mock("../../server/supabase", () => ({
+  supabase: { storage: { from: vi.fn() } },
+  PHOTOS_BUCKET: "test-photos",
+}));
+
+import {
+  buildFlowBundle,
+  diffFlowSteps,
+  flowBundleSchema,
+  hasDraftChanges,
+  importFlowBundle,
+  publishFlowVersion,
+  sessionFlowVersion,
+} from "../../server/workflow/flowVersions";
+import { getFlowPosition } from "../../server/workflow/orchestrator";
+import { createMockStorage } from "../mocks/mockStorage";
+import { buildSession } from "../fixtures/factories";
+
+const step = (id: string, extra: Record<string, any> = {}) => ({
+  id, phaseName: id, agentPrompt: "", requiredTools: [], completionCriteria: "", ...extra,
+});
+
+const flow = (overrides: Record<string, any> = {}) => ({
+  id: 4, userId: "user-1", name: "Water", perilType: "Water", description: null,
+  isDefault: false, isSystemDefault: false, steps: [step("a"), step("b")],
+  createdAt: new Date(), updatedAt: new Date(), ...overrides,
+}) as any;
+
+const version = (overrides: Record<string, any> = {}) => ({
+  id: 10, flowId: 4, version: 1, name: "Water", description: null, steps: [step("a"), step("b")],
+  changelog: "Initial version", changes: null, publishedBy: "user-1", publishedAt: new Date(), ...overrides,
+}) as any;
+
+describe("diffFlowSteps", () => {
+  it("reports added, removed, modified and reordered steps by id", () => {
+    const before = [step("a"), step("b"), step("c")];
+    const after = [step("c"), step("a", { agentPrompt: "Check the source" }), step("d")];
+    expect(diffFlowSteps(before, after)).toEqual({ added: ["d"], removed: ["b"], modified: ["a"], reordered: true });
+  });
+
+  it("ignores key order, as jsonb does not keep it", () => {
+    const stored = [{ completionCriteria: "", requiredTools: [], agentPrompt: "", phaseName: "a", id: "a" }] as any;
+    expect(hasDraftChanges(flow({ steps: [step("a")] }), version({ steps: stored }))).toBe(false);
+  });
+});
+
+describe("publishFlowVersion", () => {
+  it("snapshots the draft with its changes against the latest version", async () => {
+    const storage = createMockStorage({
+      getLatestInspectionFlowVersion: vi.fn().mockResolvedValue(version()),
+      createInspectionFlowVersion: vi.fn().mockImplementation(async (data) => ({ id: 11, version: 2, ...data })),
+    });
+
+    const published = await publishFlowVersion(storage, flow({ steps: [step("a"), step("b"), step("c")] }), {
+      changelog: "Add drying log", publishedBy: "user-1",
+    });
+    expect(published?.version).toBe(2);
+    expect(storage.createInspectionFlowVersion).toHaveBeenCalledWith(expect.objectContaining({
+      flowId: 4, changelog: "Add drying log", changes: { added: ["c"], removed: [], modified: [], reordered: false },
+    }));
+  });
+
+  it("publishes nothing when the draft matches the latest version", async () => {
+    const storage = createMockStorage({ getLatestInspectionFlowVersion: vi.fn().mockResolvedValue(version()) });
+    expect(await publishFlowVersion(storage, flow(), { changelog: "No-op", publishedBy: "user-1" })).toBeNull();
+    expect(storage.createInspectionFlowVersion).not.toHaveBeenCalled();
+  });
+});
+
+describe("session pinning", () => {
+  it("keeps a session on its pinned version after the flow is republished", async () => {
+    const storage = createMockStorage({
+      getInspectionFlowVersion: vi.fn().mockResolvedValue(version()),
+      getLatestInspectionFlowVersion: vi.fn().mockResolvedValue(version({ id: 12, version: 3 })),
+    });
+    expect((await sessionFlowVersion(storage, flow(), { activeFlowVersionId: 10 })).version).toBe(1);
+    expect((await sessionFlowVersion(storage, flow(), { activeFlowVersionId: null })).version).toBe(3);
+  });
+
+  it("ignores a pin left over from a different flow", async () => {
+    const storage = createMockStorage({
+      getInspectionFlowVersion: vi.fn().mockResolvedValue(version({ flowId: 99 })),
+      getLatestInspectionFlowVersion: vi.fn().mockResolvedValue(version({ id: 12, version: 2 })),
+    });
+    expect((await sessionFlowVersion(storage, flow(), { activeFlowVersionId: 10 })).id).toBe(12);
+  });
+
+  it("walks the pinned steps rather than the edited draft", async () => {
+    const storage = createMockStorage({
+      getInspectionSession: vi.fn().mockResolvedValue(buildSession({ id: 1, activeFlowId: 4, activeFlowVersionId: 10 })),
+      getInspectionFlow: vi.fn().mockResolvedValue(flow({ steps: [step("new_first"), step("a"), step("b")] })),
+      getInspectionFlowVersion: vi.fn().mockResolvedValue(version()),
+    });
+    const position = await getFlowPosition(1, storage);
+    expect(position?.steps.map((s) => s.key)).toEqual(["a", "b"]);
+  });
+});
+
+describe("flow bundles", () => {
+  it("accepts the original export file", () => {
+    const file = JSON.parse(readFileSync(path.resolve(__dirname, "../../inspection-flows-export.json"), "utf8"));
+    const parsed = flowBundleSchema.safeParse(file);
+    expect(parsed.success).toBe(true);
+    expect(parsed.data?.flows.length).toBe(file.flows.length);
+  });
+
+  it("rejects bundles with duplicate step ids or invalid conditions", () => {
+    const bundle = (steps: any[]) => ({ flows: [{ name: "Hail", perilType: "Hail", steps }] });
+    expect(flowBundleSchema.safeParse(bundle([step("a"), step("a")])).success).toBe(false);
+    expect(flowBundleSchema.safeParse(bundle([step("a", { condition: { fact: "roof.age", op: "gt", value: 10 } })])).success).toBe(false);
+    expect(flowBundleSchema.safeParse({ flows: [] }).success).toBe(false);
+  });
+
+  it("round-trips an exported version through import", async () => {
+    const exported = buildFlowBundle([{ flow: flow(), version: version({ version: 2, changelog: "Tighten prompts" }) }]);
+    expect(exported.flows[0]).toMatchObject({ name: "Water", version: 2, changelog: "Tighten prompts", stepCount: 2 });
+
+    const storage = createMockStorage({
+      getInspectionFlows: vi.fn().mockResolvedValue([]),
+      createInspectionFlow: vi.fn().mockImplementation(async (data) => ({ id: 20, ...data })),
+      createInspectionFlowVersion: vi.fn().mockImplementation(async (data) => ({ id: 30, version: 1, ...data })),
+    });
+    const results = await importFlowBundle(storage, flowBundleSchema.parse(exported), "user-2");
+    expect(results).toEqual([{ flowId: 20, name: "Water", perilType: "Water", status: "created", version: 1 }]);
+    expect(storage.createInspectionFlow).toHaveBeenCalledWith(expect.objectContaining({ userId: "user-2", isSystemDefault: false }));
+    expect(storage.createInspectionFlowVersion).toHaveBeenCalledWith(expect.objectContaining({ changelog: "Imported: Tighten prompts" }));
+  });
+
+  it("exports a never-published flow from its draft, marked unpublished", () => {
+    const exported = buildFlowBundle([{ flow: flow({ steps: [step("a")] }), version: undefined }]);
+    expect(exported.flows[0]).toMatchObject({ name: "Water", unpublished: true, stepCount: 1 });
+    expect(exported.flows[0]).not.toHaveProperty("version");
+    expect(flowBundleSchema.safeParse(exported).success).toBe(true);
+  });
+
+  it("updates the user's matching flow and skips unchanged ones, never touching system defaults", async () => {
+    const owned = flow({ id: 5, userId: "user-1" });
+    const system = flow({ id: 6, userId: null, isSystemDefault: true, name: "Hail", perilType: "Hail" });
+    const storage = createMockStorage({
+      getInspectionFlows: vi.fn().mockResolvedValue([owned, system]),
+      updateInspectionFlow: vi.fn().mockImplementation(async (id, data) => ({ ...owned, id, ...data })),
+      getLatestInspectionFlowVersion: vi.fn().mockImplementation(async (flowId) => (flowId === 5 ? version({ flowId: 5 }) : undefined)),
+      createInspectionFlow: vi.fn().mockImplementation(async (data) => ({ id: 21, ...data })),
+      createInspectionFlowVersion: vi.fn().mockImplementation(async (data) => ({ id: 31, version: 1, ...data })),
+    });
+
+    const results = await importFlowBundle(storage, flowBundleSchema.parse({
+      flows: [
+        { name: "Water", perilType: "Water", steps: [step("a"), step("b")] },
+        { name: "Hail", perilType: "Hail", steps: [step("h")] },
+      ],
+    }), "user-1");
+
+    expect(results.map((r) => [r.name, r.status])).toEqual([["Water", "unchanged"], ["Hail", "created"]]);
+    expect(storage.updateInspectionFlow).toHaveBeenCalledTimes(1);
+    expect(storage.updateInspectionFlow).toHaveBeenCalledWith(5, expect.anything());
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+// The gates read the storage singleton; keep it off the database
+vi.mock("../../server/db", () => ({ db: {} }));
+vi.mock("../../server/supabase", () => ({
+  supabase: { storage: { from: vi.fn() } },
+  PHOTOS_BUCKET: "test-photos",
+}));
+
+import {
+  applyGateRulePacks,
+  evaluateGateRule,
+  gateRulesSchema,
+  type GateRuleData,
+} from "../../server/workflow/validators/rulePacks";
+import { runAllWorkflowGates } from "../../server/workflow/validators";
+import { storage } from "../../server/storage";
+import { buildClaim, buildDamage, buildPhoto, buildRoom, buildSession } from "../fixtures/factories";
+
+afterEach(() => vi.restoreAllMocks());
+
+const data = (overrides: Partial<GateRuleData> = {}): GateRuleData => ({
+  structure: [], room: [], opening: [], damage: [], lineItem: [], photo: [], moistureReading: [], testSquare: [],
+  ...overrides,
+});
+
+const gate = (name: string, issues: any[] = []) => ({
+  gate: name, ok: true, issues, summary: { blockers: 0, warnings: issues.length, infos: 0 }, computedAt: "2026-01-01T00:00:00.000Z",
+}) as any;
+
+const pack = (overrides: Record<string, any> = {}) => ({
+  id: 1, name: "Acme Mutual", description: null, carrierId: 3, flowId: null, rules: [], severityOverrides: [],
+  isActive: true, createdBy: null, createdAt: new Date(), updatedAt: new Date(), ...overrides,
+}) as any;
+
+const exteriorRules = [
+  {
+    id: "ACME_ADDRESS_PHOTO", gate: "export", severity: "BLOCKER", message: "Address verification photo required",
+    selector: { entity: "photo", where: [{ field: "photoType", op: "eq", value: "address_verification" }] },
+    predicate: { type: "count", min: 1 },
+  },
+  {
+    id: "ACME_FOUR_ELEVATIONS", gate: "sketch", severity: "BLOCKER", message: "Only {count} of 4 elevations sketched",
+    selector: { entity: "room", where: [{ field: "viewType", op: "eq", value: "elevation" }] },
+    predicate: { type: "count", min: 4 },
+  },
+  {
+    id: "ACME_RISK_OVERVIEW", gate: "export", severity: "BLOCKER", message: "Risk overview photo required",
+    selector: { entity: "photo", where: [{ field: "photoType", op: "eq", value: "overview" }] },
+    predicate: { type: "count", min: 1 },
+  },
+] as any[];
+
+const waterRoomMoisture = {
+  id: "WATER_ROOM_MOISTURE", gate: "scope", severity: "BLOCKER", message: "{name} has no moisture readings",
+  selector: {
+    entity: "room",
+    having: { entity: "damage", where: [{ field: "damageType", op: "contains", value: "water" }] },
+  },
+  predicate: { type: "related", entity: "moistureReading", min: 1 },
+} as any;
+
+describe("evaluateGateRule", () => {
+  it("counts the entities a selector picks", () => {
+    const session = data({
+      room: [buildRoom({ id: 1, viewType: "elevation" }), buildRoom({ id: 2, viewType: "Elevation" }), buildRoom({ id: 3, viewType: "interior" })],
+      photo: [buildPhoto({ id: 5, photoType: "overview" })],
+    });
+    const issues = exteriorRules.flatMap((rule) => evaluateGateRule(rule, session));
+    expect(issues.map((i) => [i.code, i.message])).toEqual([
+      ["ACME_ADDRESS_PHOTO", "Address verification photo required"],
+      ["ACME_FOUR_ELEVATIONS", "Only 2 of 4 elevations sketched"],
+    ]);
+    expect(issues[1].details).toEqual({ count: 2, min: 4, max: undefined });
+  });
+
+  it("checks related entities for each selected entity", () => {
+    const session = data({
+      room: [buildRoom({ id: 1, name: "Kitchen" }), buildRoom({ id: 2, name: "Bathroom" }), buildRoom({ id: 3, name: "Bedroom" })],
+      damage: [buildDamage({ id: 10, roomId: 1, damageType: "water_stain" }), buildDamage({ id: 11, roomId: 2, damageType: "Water_Intrusion" })],
+      moistureReading: [{ id: 20, roomId: 1, reading: 32 }],
+    });
+    expect(evaluateGateRule(waterRoomMoisture, session)).toEqual([{
+      severity: "BLOCKER", code: "WATER_ROOM_MOISTURE", message: "Bathroom has no moisture readings",
+      entity: { type: "room", id: "2", name: "Bathroom" }, details: { count: 0, min: 1 },
+    }]);
+  });
+
+  it("flags each selected entity that fails an every predicate", () => {
+    const rule = {
+      id: "CEILING_HEIGHT", gate: "sketch", severity: "WARNING", message: "{name} has no ceiling height",
+      selector: { entity: "room", where: [{ field: "viewType", op: "eq", value: "interior" }] },
+      predicate: { type: "every", where: [{ field: "dimensions.height", op: "gt", value: 0 }] },
+    } as any;
+    const session = data({
+      room: [
+        buildRoom({ id: 1, name: "Den", viewType: "interior", dimensions: { height: "8" } }),
+        buildRoom({ id: 2, name: "Hall", viewType: "interior", dimensions: null }),
+        buildRoom({ id: 3, name: "Front", viewType: "elevation", dimensions: null }),
+      ],
+    });
+    expect(evaluateGateRule(rule, session).map((i) => i.message)).toEqual(["Hall has no ceiling height"]);
+  });
+});
+
+describe("gateRulesSchema", () => {
+  it("accepts the carrier examples", () => {
+    expect(gateRulesSchema.safeParse([...exteriorRules, waterRoomMoisture]).success).toBe(true);
+  });
+
+  it("rejects duplicate ids, unrelated entities and empty counts", () => {
+    expect(gateRulesSchema.safeParse([exteriorRules[0], exteriorRules[0]]).success).toBe(false);
+    expect(gateRulesSchema.safeParse([{
+      ...waterRoomMoisture, selector: { entity: "photo" }, predicate: { type: "related", entity: "moistureReading" },
+    }]).success).toBe(false);
+    expect(gateRulesSchema.safeParse([{ ...exteriorRules[0], predicate: { type: "count" } }]).success).toBe(false);
+  });
+});
+
+describe("applyGateRulePacks", () => {
+  const results = () => ({
+    sketch: gate("sketch"),
+    photoDamage: gate("photoDamage", [
+      { severity: "WARNING", code: "PHOTO_ROOM_UNASSOCIATED", message: "Photo 5 not linked to room" },
+    ]),
+    scope: gate("scope"),
+    export: gate("export"),
+  });
+
+  it("attributes rule issues and severity overrides to their pack", () => {
+    const applied = applyGateRulePacks(results(), [pack({
+      rules: exteriorRules, severityOverrides: [{ code: "PHOTO_ROOM_UNASSOCIATED", severity: "BLOCKER" }],
+    })], data());
+
+    expect(applied.photoDamage.issues[0]).toMatchObject({ severity: "BLOCKER", pack: { id: 1, name: "Acme Mutual" } });
+    expect(applied.photoDamage.issues[0].pack?.ruleId).toBeUndefined();
+    expect(applied.photoDamage.ok).toBe(false);
+    expect(applied.export.issues.map((i) => i.pack?.ruleId)).toEqual(["ACME_ADDRESS_PHOTO", "ACME_RISK_OVERVIEW"]);
+    expect(applied.export.summary).toEqual({ blockers: 2, warnings: 0, infos: 0 });
+    expect(applied.sketch.issues[0].pack).toEqual({ id: 1, name: "Acme Mutual", ruleId: "ACME_FOUR_ELEVATIONS" });
+    expect(applied.scope.ok).toBe(true);
+  });
+
+  it("reports a pack with invalid stored rules instead of evaluating it", () => {
+    const applied = applyGateRulePacks(results(), [pack({ rules: [{ id: "BROKEN" }] })], data());
+    expect(applied.export.issues).toEqual([expect.objectContaining({ code: "RULE_PACK_INVALID", severity: "WARNING" })]);
+    expect(applied.export.ok).toBe(true);
+  });
+});
+
+describe("runAllWorkflowGates with rule packs", () => {
+  function stubSession() {
+    vi.spyOn(storage, "getInspectionSession").mockResolvedValue(buildSession({ id: 100, claimId: 7, activeFlowId: 4 }) as any);
+    vi.spyOn(storage, "getClaim").mockResolvedValue(buildClaim({ id: 7, carrierId: 3, perilType: "water" }) as any);
+    vi.spyOn(storage, "getRooms").mockResolvedValue([buildRoom({ id: 1, name: "Kitchen", viewType: "interior" })] as any);
+    vi.spyOn(storage, "getOpeningsForSession").mockResolvedValue([]);
+    vi.spyOn(storage, "getPhotos").mockResolvedValue([]);
+    vi.spyOn(storage, "getDamagesForSession").mockResolvedValue([buildDamage({ id: 9, roomId: 1, damageType: "water_stain" })] as any);
+    vi.spyOn(storage, "getLineItems").mockResolvedValue([]);
+    vi.spyOn(storage, "getScopeItems").mockResolvedValue([]);
+  }
+
+  it("evaluates the packs for the session's carrier and flow alongside the built-in checks", async () => {
+    stubSession();
+    const applicable = vi.spyOn(storage, "getApplicableGateRulePacks").mockResolvedValue([
+      pack({ id: 2, name: "Acme water", flowId: 4, rules: [waterRoomMoisture] }),
+    ]);
+    vi.spyOn(storage, "getStructures").mockResolvedValue([]);
+    vi.spyOn(storage, "getMoistureReadingsForSession").mockResolvedValue([]);
+    vi.spyOn(storage, "getTestSquares").mockResolvedValue([]);
+
+    const gates = await runAllWorkflowGates(100, "water");
+    expect(applicable).toHaveBeenCalledWith({ carrierId: 3, flowId: 4 });
+    const packIssues = gates.scope.issues.filter((i) => i.pack);
+    expect(packIssues).toEqual([expect.objectContaining({
+      code: "WATER_ROOM_MOISTURE", message: "Kitchen has no moisture readings", pack: { id: 2, name: "Acme water", ruleId: "WATER_ROOM_MOISTURE" },
+    })]);
+    expect(gates.scope.issues.some((i) => i.code === "SCOPE_DAMAGE_UNCOVERED" && !i.pack)).toBe(true);
+    expect(gates.scope.ok).toBe(false);
+  });
+
+  it("uses another flow's packs when asked to", async () => {
+    stubSession();
+    const applicable = vi.spyOn(storage, "getApplicableGateRulePacks").mockResolvedValue([]);
+
+    await runAllWorkflowGates(100, "water", { flowId: 9 });
+    expect(applicable).toHaveBeenCalledWith({ carrierId: 3, flowId: 9 });
+  });
+
+  it("does not load rule data when no pack applies", async () => {
+    stubSession();
+    vi.spyOn(storage, "getApplicableGateRulePacks").mockResolvedValue([]);
+    const readings = vi.spyOn(storage, "getMoistureReadingsForSession").mockResolvedValue([]);
+
+    const gates = await runAllWorkflowGates(100, "water");
+    expect(readings).not.toHaveBeenCalled();
+    expect(gates.scope.issues.every((i) => !i.pack)).toBe(true);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { normalizeOpeningDimensions, normalizeWallDirection, parseFeetValue } from "@/lib/openingToolNormalization";
+import { normalizeOpeningDimensions, normalizeWallDirection, parseFeetValue } from "@shared/openingToolNormalization";
 
 describe("parseFeetValue", () => {
   it("parses inches into feet", () => {
@@ -0,0 +1,302 @@
+import { describe, it, expect, vi } from "vitest";
+
+// The orchestrator imports the storage singleton; keep it off the database
+vi.mock("../../server/db", () => ({ db: {} }));
+vi.mock("../../server/supabase", () => ({
+  supabase: { storage: { from: vi.fn() } },
+  PHOTOS_BUCKET: "test-photos",
+}));
+
+import { executeTool } from "../../server/workflow/toolExecutor";
+import { createMockStorage } from "../mocks/mockStorage";
+import { off, on, type AppEvent } from "../../server/events";
+import { buildDamage, buildLineItem, buildRoom, buildSession } from "../fixtures/factories";
+
+const workflow = (phase: string, context: Record<string, string> = {}) => ({
+  claimId: "1", sessionId: "1", peril: "hail", phase, stepId: `${phase}.default`, context,
+});
+
+function storageFor(phase: string | null, overrides: Record<string, any> = {}) {
+  return createMockStorage({
+    getInspectionSession: vi.fn().mockResolvedValue(buildSession({
+      id: 1, claimId: 7, workflowStateJson: phase ? workflow(phase) : null,
+    })),
+    ...overrides,
+  });
+}
+
+describe("executeTool", () => {
+  it("rejects tools the server does not execute", async () => {
+    const result = await executeTool(storageFor(null), 1, { name: "export_esx", callId: "c1" });
+    expect(result).toMatchObject({ success: false, error: { type: "VALIDATION_ERROR", code: "UNKNOWN_TOOL" }, meta: { callId: "c1" } });
+  });
+
+  it("enforces the phase allowlist and records the rejection on the workflow", async () => {
+    const storage = storageFor("interior_rooms");
+    const result = await executeTool(storage, 1, { name: "add_opening", args: { roomName: "Kitchen", openingType: "window" } });
+
+    expect(result.error).toMatchObject({ type: "CONTEXT_ERROR", code: "TOOL_NOT_ALLOWED" });
+    expect(result.meta?.workflow).toEqual({ phase: "interior_rooms", stepId: "interior_rooms.default" });
+    expect(storage.createOpening).not.toHaveBeenCalled();
+    expect(storage.updateSession).toHaveBeenCalledWith(1, {
+      workflowStateJson: expect.objectContaining({ lastToolError: expect.objectContaining({ tool: "add_opening", code: "TOOL_NOT_ALLOWED" }) }),
+    });
+  });
+
+  it("requires room context for opening tools", async () => {
+    const result = await executeTool(storageFor("openings"), 1, { name: "delete_opening", args: { openingType: "window" } });
+    expect(result.error).toMatchObject({ type: "CONTEXT_ERROR", code: "MISSING_CONTEXT" });
+  });
+
+  it("returns field errors for invalid arguments", async () => {
+    const result = await executeTool(storageFor(null), 1, { name: "create_room", args: { structure: "Main Dwelling" } });
+    expect(result.error).toMatchObject({ type: "VALIDATION_ERROR", code: "INVALID_ARGS", details: { name: expect.any(Array) } });
+  });
+
+  it("creates a room, resolving its structure by name", async () => {
+    const room = buildRoom({ id: 12, sessionId: 1, name: "Master Bedroom", structure: "Main Dwelling", viewType: "interior" });
+    const storage = storageFor("interior_rooms", {
+      getStructureByName: vi.fn().mockResolvedValue({ id: 3, name: "Main Dwelling" }),
+      createRoom: vi.fn().mockResolvedValue(room),
+    });
+
+    const result = await executeTool(storage, 1, {
+      name: "create_room",
+      args: { name: "Master Bedroom", structure: "Main Dwelling", viewType: "interior", length: 14, width: 12 },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ roomId: 12, created: true, room: { id: 12, name: "Master Bedroom", structure: "Main Dwelling" } });
+    expect(storage.createRoom).toHaveBeenCalledWith(expect.objectContaining({
+      sessionId: 1, structureId: 3, dimensions: { length: 14, width: 12, height: undefined },
+    }));
+    expect(storage.updateSessionRoom).toHaveBeenCalledWith(1, 12);
+  });
+
+  it("adds an opening with normalized dimensions in the current room", async () => {
+    const kitchen = buildRoom({ id: 5, sessionId: 1, name: "Kitchen", structure: "Main Dwelling" });
+    const storage = createMockStorage({
+      getInspectionSession: vi.fn().mockResolvedValue(buildSession({ id: 1, currentRoomId: 5, workflowStateJson: null })),
+      getRooms: vi.fn().mockResolvedValue([kitchen]),
+      createOpening: vi.fn().mockResolvedValue({ id: 40 }),
+      getRoomOpenings: vi.fn().mockResolvedValue([{ id: 40, widthFt: 3, heightFt: 6.67, quantity: 1 }]),
+    });
+
+    const result = await executeTool(storage, 1, {
+      name: "add_opening",
+      args: { openingType: "standard_door", widthFt: "36 in", wallDirection: "North wall" },
+    });
+
+    expect(result.success).toBe(true);
+    expect(storage.createOpening).toHaveBeenCalledWith(expect.objectContaining({
+      roomId: 5, widthFt: 3, heightFt: 7, wallDirection: "north", wallIndex: 0, label: "standard_door on north wall",
+    }));
+    expect(result.data).toMatchObject({ openingId: 40, room: { id: 5, name: "Kitchen" } });
+    expect(storage.addSessionEvent).toHaveBeenCalledWith(expect.objectContaining({
+      type: "command.executed",
+      payloadJson: expect.objectContaining({ tool: "add_opening", inverse: [expect.objectContaining({ op: "delete", entity: "opening", id: 40 })] }),
+    }));
+  });
+
+  it("reports when there is nothing to undo", async () => {
+    const storage = storageFor("openings");
+    const result = await executeTool(storage, 1, { name: "undo_last_action", args: {} });
+
+    expect(result.error).toMatchObject({ type: "VALIDATION_ERROR", code: "NOTHING_TO_UNDO" });
+    expect(storage.addSessionEvent).not.toHaveBeenCalledWith(expect.objectContaining({ type: "command.executed" }));
+  });
+
+  it("updates the opening picked by the selector", async () => {
+    const storage = storageFor("openings", {
+      getRooms: vi.fn().mockResolvedValue([buildRoom({ id: 5, sessionId: 1, name: "Kitchen", dimensions: { length: 12, width: 10 } })]),
+      getRoomOpenings: vi.fn().mockResolvedValue([
+        { id: 40, openingType: "window", wallDirection: "north" },
+        { id: 41, openingType: "window", wallDirection: "east" },
+      ]),
+    });
+
+    const result = await executeTool(storage, 1, {
+      name: "update_opening",
+      args: { roomName: "kitchen", wallDirection: "east", positionOnWall: 4, heightFt: "5'" },
+    });
+
+    expect(result.success).toBe(true);
+    expect(storage.updateOpening).toHaveBeenCalledWith(41, {
+      wallDirection: "east", positionOnWall: 0.4, notes: "4 ft from corner", heightFt: 5, height: 5,
+    });
+  });
+
+  it("reports a missing room with the rooms that do exist", async () => {
+    const storage = storageFor(null, {
+      getRooms: vi.fn().mockResolvedValue([buildRoom({ id: 5, sessionId: 1, name: "Kitchen" })]),
+    });
+    const result = await executeTool(storage, 1, { name: "complete_room", args: { roomName: "Garage" } });
+
+    expect(result.error).toMatchObject({ type: "VALIDATION_ERROR", code: "ROOM_NOT_FOUND" });
+    expect(storage.completeRoom).not.toHaveBeenCalled();
+  });
+
+  it("moves the workflow to a new phase", async () => {
+    const storage = storageFor("inspection_setup");
+    const result = await executeTool(storage, 1, { name: "set_phase", args: { phase: "interior_rooms" } });
+
+    expect(result.success).toBe(true);
+    expect(result.meta?.workflow).toEqual({ phase: "interior_rooms", stepId: "interior_rooms.manual" });
+    expect(storage.addSessionEvent).toHaveBeenCalledWith(expect.objectContaining({
+      type: "workflow.phase_changed", payloadJson: { from: "inspection_setup", to: "interior_rooms" },
+    }));
+  });
+});
+
+describe("executeTool inspection tools", () => {
+  const kitchen = buildRoom({ id: 5, sessionId: 1, name: "Kitchen", structure: "Main Dwelling" });
+  const echo = (id: number) => vi.fn(async (data: any) => ({ id, ...data }));
+
+  /** A session without a workflow, working in the kitchen */
+  const storageWith = (overrides: Record<string, any> = {}) => createMockStorage({
+    getInspectionSession: vi.fn().mockResolvedValue(buildSession({ id: 1, claimId: 7, currentRoomId: 5, workflowStateJson: null })),
+    getRooms: vi.fn().mockResolvedValue([kitchen]),
+    ...overrides,
+  });
+
+  it("records a damage in the current room as one undoable command", async () => {
+    const storage = storageWith({ createDamage: echo(21) });
+    const result = await executeTool(storage, 1, {
+      name: "add_damage",
+      args: { description: "Ceiling stain", damageType: "water_stain", extent: "4 ft" },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ damageId: 21, room: { id: 5, name: "Kitchen" } });
+    expect(storage.createDamage).toHaveBeenCalledWith(expect.objectContaining({
+      sessionId: 1, roomId: 5, damageType: "water_stain", measurements: { extent: "4 ft" },
+    }));
+    expect(storage.addSessionEvent).toHaveBeenCalledWith(expect.objectContaining({
+      type: "command.executed",
+      payloadJson: expect.objectContaining({ tool: "add_damage", inverse: expect.arrayContaining([expect.objectContaining({ op: "delete", entity: "damage", id: 21 })]) }),
+    }));
+  });
+
+  it("rejects a room id outside the session instead of using the current room", async () => {
+    const storage = storageWith({ createOpening: echo(40) });
+    const result = await executeTool(storage, 1, { name: "add_opening", args: { roomId: 99, openingType: "window" } });
+
+    expect(result.error).toMatchObject({ type: "VALIDATION_ERROR", code: "ROOM_NOT_FOUND" });
+    expect(storage.createOpening).not.toHaveBeenCalled();
+
+    await executeTool(storage, 1, { name: "add_opening", args: { openingType: "window" } });
+    expect(storage.createOpening).toHaveBeenCalledWith(expect.objectContaining({ roomId: 5 }));
+  });
+
+  it("asks for a room before recording a damage", async () => {
+    const storage = storageWith({
+      getInspectionSession: vi.fn().mockResolvedValue(buildSession({ id: 1, currentRoomId: null, workflowStateJson: null })),
+    });
+    const result = await executeTool(storage, 1, { name: "add_damage", args: { description: "Dent", damageType: "dent" } });
+
+    expect(result.error).toMatchObject({ type: "CONTEXT_ERROR", code: "NO_ROOM_SELECTED" });
+    expect(storage.createDamage).not.toHaveBeenCalled();
+  });
+
+  it("keeps the spoken price when the catalog does not know the code", async () => {
+    const storage = storageWith({ createLineItem: echo(30) });
+    const result = await executeTool(storage, 1, {
+      name: "add_line_item",
+      args: { category: "Drywall", action: "R&R", description: "Custom patch", catalogCode: "DRY-NOPE", quantity: 2, unitPrice: 25 },
+    });
+
+    expect(result.data).toMatchObject({
+      lineItemId: 30, unitPrice: 25, totalPrice: 50, catalogMatch: false,
+      warning: 'Catalog code "DRY-NOPE" not found; using provided price $25.',
+    });
+    expect(storage.createLineItem).toHaveBeenCalledWith(expect.objectContaining({ sessionId: 1, roomId: 5, xactCode: "DRY-NOPE" }));
+  });
+
+  it("recomputes the total, waste included, when the quantity changes", async () => {
+    const item = buildLineItem({ id: 30, sessionId: 1, quantity: "2", unitPrice: "10", wasteFactor: 10 });
+    const storage = storageWith({
+      getLineItemById: vi.fn().mockResolvedValue(item),
+      updateLineItem: vi.fn(async (_id: number, updates: any) => ({ ...item, ...updates })),
+    });
+    const result = await executeTool(storage, 1, { name: "update_line_item", args: { lineItemId: 30, quantity: 3 } });
+
+    expect(result.success).toBe(true);
+    expect(storage.updateLineItem).toHaveBeenCalledWith(30, expect.objectContaining({ quantity: 3, totalPrice: 33 }));
+    expect(result.data).toMatchObject({ totalPrice: 33 });
+  });
+
+  it("announces the line items a smart macro adds so minimum charges re-sync", async () => {
+    const received: AppEvent[] = [];
+    const handler = (event: AppEvent) => received.push(event);
+    on("inspection.lineItemAdded", handler);
+    try {
+      const storage = storageWith({ createLineItem: echo(40) });
+      const result = await executeTool(storage, 1, { name: "apply_smart_macro", args: { macro_type: "roof_replacement_laminated" } });
+
+      expect(result.success).toBe(true);
+      expect(received).toEqual([expect.objectContaining({ sessionId: 1, meta: { macroType: "roof_replacement_laminated" } })]);
+    } finally {
+      off("inspection.lineItemAdded", handler);
+    }
+  });
+
+  it("does not touch line items of another inspection", async () => {
+    const storage = storageWith({ getLineItemById: vi.fn().mockResolvedValue(buildLineItem({ id: 30, sessionId: 2 })) });
+    const result = await executeTool(storage, 1, { name: "remove_line_item", args: { lineItemId: 30 } });
+
+    expect(result.error).toMatchObject({ type: "VALIDATION_ERROR", code: "LINE_ITEM_NOT_FOUND" });
+    expect(storage.deleteLineItem).not.toHaveBeenCalled();
+  });
+
+  it("ranks rooms by how closely their names match", async () => {
+    const storage = storageWith({
+      getRooms: vi.fn().mockResolvedValue([buildRoom({ id: 6, name: "Master Bedroom" }), kitchen]),
+    });
+    const result = await executeTool(storage, 1, { name: "find_room", args: { roomNameQuery: "kitchn" } });
+
+    expect(result.data).toMatchObject({ matches: [{ id: 5, name: "Kitchen" }, { id: 6 }], message: 'Top match: "Kitchen" (86% confidence)' });
+  });
+
+  it("asks which damage to update when a room has several", async () => {
+    const storage = storageWith({
+      getDamages: vi.fn().mockResolvedValue([buildDamage({ id: 1, roomId: 5 }), buildDamage({ id: 2, roomId: 5, damageType: "mold" })]),
+    });
+    const result = await executeTool(storage, 1, { name: "update_damage", args: { roomName: "kitchen", severity: "severe" } });
+
+    expect(result.error).toMatchObject({ code: "AMBIGUOUS_DAMAGE", details: { damages: [{ id: 1 }, { id: 2, damageType: "mold" }] } });
+    expect(storage.updateDamage).not.toHaveBeenCalled();
+  });
+
+  it("requires confirmation before deleting a room", async () => {
+    const storage = storageWith();
+    const result = await executeTool(storage, 1, { name: "delete_room", args: { roomName: "Kitchen" } });
+
+    expect(result.error).toMatchObject({ code: "CONFIRMATION_REQUIRED" });
+    expect(storage.deleteRoom).not.toHaveBeenCalled();
+  });
+
+  it("logs a failing test square on the named facet with a steep charge", async () => {
+    const facet = buildRoom({ id: 8, sessionId: 1, name: "North Slope", viewType: "roof_plan" });
+    const storage = storageWith({ getRooms: vi.fn().mockResolvedValue([kitchen, facet]), createTestSquare: echo(50) });
+    const result = await executeTool(storage, 1, { name: "log_test_square", args: { room_id: "North Slope", hail_hits: 9, pitch: "8/12" } });
+
+    expect(storage.createTestSquare).toHaveBeenCalledWith(expect.objectContaining({ roomId: 8, hailHits: 9, result: "fail" }));
+    expect(result.data).toMatchObject({ testSquareId: 50, result: "fail", analysis: { steepCharge: true } });
+  });
+
+  it("only skips a step once the voice password is confirmed", async () => {
+    const storage = storageWith();
+    const result = await executeTool(storage, 1, { name: "skip_step", args: { stepDescription: "Address photo", passwordConfirmed: false } });
+
+    expect(result.error).toMatchObject({ code: "PASSWORD_NOT_CONFIRMED" });
+    expect(storage.addSessionEvent).not.toHaveBeenCalled();
+  });
+
+  it("moves the session to a later phase and marks the earlier ones complete", async () => {
+    const storage = storageWith({ updateSession: vi.fn(async (_id: number, updates: any) => buildSession({ id: 1, claimId: 7, ...updates })) });
+    const result = await executeTool(storage, 1, { name: "set_inspection_context", args: { area: "Roof", phase: 3 } });
+
+    expect(storage.updateSession).toHaveBeenCalledWith(1, { currentPhase: 3, currentStepIndex: 2, completedPhases: [1, 2] });
+    expect(result.data).toMatchObject({ context: { area: "Roof", phaseName: "Roof" }, phaseValidation: { currentPhase: 1, nextPhase: 3 } });
+  });
+});